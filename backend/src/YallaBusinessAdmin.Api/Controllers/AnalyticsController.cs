@@ -0,0 +1,46 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Analytics;
+
+namespace YallaBusinessAdmin.Api.Controllers;
+
+/// <summary>
+/// Analytics - all exceptions handled by global exception handler
+/// </summary>
+[ApiController]
+[Route("api/analytics")]
+[Authorize]
+public class AnalyticsController : BaseApiController
+{
+    private readonly IAnalyticsService _analyticsService;
+
+    /// <summary>Default period when no dates are passed</summary>
+    private const int DefaultPeriodDays = 30;
+
+    public AnalyticsController(IAnalyticsService analyticsService)
+    {
+        _analyticsService = analyticsService;
+    }
+
+    /// <summary>
+    /// Gets aggregated analytics. Project-scoped users always get their own project.
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult> Get(
+        [FromQuery] DateOnly? from = null,
+        [FromQuery] DateOnly? to = null,
+        [FromQuery] Guid? projectId = null,
+        CancellationToken cancellationToken = default)
+    {
+        var companyId = GetCompanyId();
+        if (companyId == null) 
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+
+        var periodEnd = to ?? DateOnly.FromDateTime(DateTime.UtcNow);
+        var periodStart = from ?? periodEnd.AddDays(-(DefaultPeriodDays - 1));
+        var scopedProjectId = GetProjectId() ?? projectId;
+
+        var result = await _analyticsService.GetAnalyticsAsync(companyId.Value, periodStart, periodEnd, scopedProjectId, cancellationToken);
+        return Ok(result);
+    }
+}
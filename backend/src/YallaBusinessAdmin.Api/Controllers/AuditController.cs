@@ -0,0 +1,73 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Audit;
+using YallaBusinessAdmin.Application.Audit.Dtos;
+using YallaBusinessAdmin.Application.Common.Security;
+
+namespace YallaBusinessAdmin.Api.Controllers;
+
+/// <summary>
+/// Audit trail (read-only) - all exceptions handled by global exception handler
+/// </summary>
+[ApiController]
+[Route("api/audit")]
+[Authorize]
+public class AuditController : BaseApiController
+{
+    private readonly IAuditLogService _auditLogService;
+
+    public AuditController(IAuditLogService auditLogService)
+    {
+        _auditLogService = auditLogService;
+    }
+
+    /// <summary>
+    /// Gets audit entries of the company, newest first.
+    /// Pass entityId to get the change history of one employee or project.
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult> GetAll(
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 20,
+        [FromQuery] Guid? userId = null,
+        [FromQuery] string? entityType = null,
+        [FromQuery] Guid? entityId = null,
+        [FromQuery] string? action = null,
+        [FromQuery] DateTime? from = null,
+        [FromQuery] DateTime? to = null,
+        CancellationToken cancellationToken = default)
+    {
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+        if (!HasPermission(PermissionCatalog.AuditView)) return ForbiddenError();
+
+        var filter = new AuditLogFilter
+        {
+            UserId = userId,
+            EntityType = entityType,
+            EntityId = entityId,
+            Action = action,
+            From = from?.ToUniversalTime(),
+            To = to?.ToUniversalTime()
+        };
+
+        // Branch admins only see their own project
+        var result = await _auditLogService.GetAllAsync(
+            companyId!.Value, ResolveProjectScope(null), filter, page, pageSize, cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Gets authors, entity types and actions for the filter dropdowns
+    /// </summary>
+    [HttpGet("filters")]
+    public async Task<ActionResult> GetFilterOptions(CancellationToken cancellationToken)
+    {
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+        if (!HasPermission(PermissionCatalog.AuditView)) return ForbiddenError();
+
+        var result = await _auditLogService.GetFilterOptionsAsync(companyId!.Value, ResolveProjectScope(null), cancellationToken);
+        return Ok(result);
+    }
+}
@@ -6,7 +6,7 @@ using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.RateLimiting;
 using YallaBusinessAdmin.Application.Auth;
 using YallaBusinessAdmin.Application.Auth.Dtos;
-using YallaBusinessAdmin.Application.Common.Validators;
+using YallaBusinessAdmin.Application.Users;
 
 namespace YallaBusinessAdmin.Api.Controllers;
 
@@ -22,21 +22,34 @@ namespace YallaBusinessAdmin.Api.Controllers;
 public class AuthController : ControllerBase
 {
     private readonly IAuthService _authService;
+    private readonly ITwoFactorService _twoFactorService;
+    private readonly IUserInvitationService _invitationService;
+    private readonly IPasswordPolicyService _passwordPolicy;
     private readonly IConfiguration _configuration;
 
     // Cookie names - must match frontend expectations
     private const string AccessTokenCookieName = "X-Access-Token";
     private const string RefreshTokenCookieName = "X-Refresh-Token";
 
-    public AuthController(IAuthService authService, IConfiguration configuration)
+    public AuthController(
+        IAuthService authService,
+        ITwoFactorService twoFactorService,
+        IUserInvitationService invitationService,
+        IPasswordPolicyService passwordPolicy,
+        IConfiguration configuration)
     {
         _authService = authService;
+        _twoFactorService = twoFactorService;
+        _invitationService = invitationService;
+        _passwordPolicy = passwordPolicy;
         _configuration = configuration;
     }
 
     /// <summary>
     /// Login with phone and password
     /// Sets HttpOnly cookies for access and refresh tokens
+    /// For users with 2FA returns a challenge (requiresTwoFactor) instead of tokens,
+    /// for an expired password a password-change challenge (requiresPasswordChange)
     /// Rate limited to 5 attempts per minute
     /// </summary>
     [HttpPost("login")]
@@ -48,6 +61,11 @@ public class AuthController : ControllerBase
         var userAgent = GetUserAgent();
         var result = await _authService.LoginAsync(request, ipAddress, userAgent, cancellationToken);
 
+        if (result.RequiresTwoFactor || result.RequiresPasswordChange)
+        {
+            return Ok(result);
+        }
+
         // Set secure HttpOnly cookies
         SetTokenCookies(result.Token, result.RefreshToken, result.ExpiresAt);
 
@@ -56,6 +74,47 @@ public class AuthController : ControllerBase
         return Ok(result);
     }
 
+    /// <summary>
+    /// Second login step: challenge token from /login and a code from the authenticator app or a backup code
+    /// Shares the login rate limit, so codes cannot be brute-forced
+    /// </summary>
+    [HttpPost("login/2fa")]
+    [AllowAnonymous]
+    [EnableRateLimiting("login")]
+    public async Task<ActionResult<LoginResponse>> LoginWithTwoFactor([FromBody] TwoFactorLoginRequest request, CancellationToken cancellationToken)
+    {
+        var ipAddress = GetClientIpAddress();
+        var userAgent = GetUserAgent();
+        var result = await _authService.LoginWithTwoFactorAsync(request, ipAddress, userAgent, cancellationToken);
+
+        if (result.RequiresPasswordChange)
+        {
+            return Ok(result);
+        }
+
+        SetTokenCookies(result.Token, result.RefreshToken, result.ExpiresAt);
+
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Login step for an expired password: challenge token from /login (or /login/2fa) and a new password
+    /// Sets the token cookies once the password is changed
+    /// </summary>
+    [HttpPost("login/password-change")]
+    [AllowAnonymous]
+    [EnableRateLimiting("login")]
+    public async Task<ActionResult<LoginResponse>> ChangeExpiredPassword([FromBody] ExpiredPasswordChangeRequest request, CancellationToken cancellationToken)
+    {
+        var ipAddress = GetClientIpAddress();
+        var userAgent = GetUserAgent();
+        var result = await _authService.ChangeExpiredPasswordAsync(request, ipAddress, userAgent, cancellationToken);
+
+        SetTokenCookies(result.Token, result.RefreshToken, result.ExpiresAt);
+
+        return Ok(result);
+    }
+
     /// <summary>
     /// Refresh access token using refresh token from cookie or body
     /// Rate limited to prevent abuse
@@ -142,6 +201,30 @@ public class AuthController : ControllerBase
         return Ok(result);
     }
 
+    /// <summary>
+    /// Check an invitation link before showing the set-password form
+    /// </summary>
+    [HttpGet("invitation")]
+    [AllowAnonymous]
+    public async Task<ActionResult<InvitationInfoResponse>> GetInvitation([FromQuery] string token, CancellationToken cancellationToken)
+    {
+        var result = await _invitationService.GetByTokenAsync(token, cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Set the first password via an invitation link and activate the account
+    /// Rate limited to 5 attempts per minute
+    /// </summary>
+    [HttpPost("invitation/accept")]
+    [AllowAnonymous]
+    [EnableRateLimiting("login")]
+    public async Task<ActionResult> AcceptInvitation([FromBody] AcceptInvitationRequest request, CancellationToken cancellationToken)
+    {
+        await _invitationService.AcceptAsync(request, GetClientIpAddress(), GetUserAgent(), cancellationToken);
+        return Ok(new { message = "Пароль задан. Теперь вы можете войти" });
+    }
+
     /// <summary>
     /// Change password for authenticated user
     /// </summary>
@@ -208,13 +291,198 @@ public class AuthController : ControllerBase
         return Ok(result);
     }
 
+    /// <summary>
+    /// List active sessions (devices) of the current user
+    /// The session of this browser is identified by the refresh token cookie
+    /// </summary>
+    [HttpGet("sessions")]
+    [Authorize]
+    public async Task<ActionResult<IReadOnlyList<SessionDto>>> GetSessions(CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        var result = await _authService.GetSessionsAsync(userId.Value, Request.Cookies[RefreshTokenCookieName], cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Log out one device. Revoking the current session also clears its cookies
+    /// </summary>
+    [HttpDelete("sessions/{sessionId:guid}")]
+    [Authorize]
+    public async Task<ActionResult> RevokeSession(Guid sessionId, CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        var wasCurrent = await _authService.RevokeSessionAsync(
+            userId.Value, sessionId, Request.Cookies[RefreshTokenCookieName], cancellationToken);
+
+        if (wasCurrent)
+        {
+            ClearTokenCookies();
+        }
+
+        return Ok(new { success = true, wasCurrent });
+    }
+
+    /// <summary>
+    /// Log out every device except this one
+    /// </summary>
+    [HttpPost("sessions/revoke-others")]
+    [Authorize]
+    public async Task<ActionResult> RevokeOtherSessions(CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        var revoked = await _authService.RevokeOtherSessionsAsync(
+            userId.Value, Request.Cookies[RefreshTokenCookieName], cancellationToken);
+
+        return Ok(new { success = true, revoked });
+    }
+
+    /// <summary>
+    /// Two-factor authentication status of the current user
+    /// </summary>
+    [HttpGet("2fa")]
+    [Authorize]
+    public async Task<ActionResult<TwoFactorStatusDto>> GetTwoFactorStatus(CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        var result = await _twoFactorService.GetStatusAsync(userId.Value, cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Start 2FA enrollment: secret and QR code for the authenticator app
+    /// Not available while impersonating - it would lock the real user out
+    /// </summary>
+    [HttpPost("2fa/setup")]
+    [Authorize]
+    public async Task<ActionResult<TwoFactorSetupResponse>> SetupTwoFactor(CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        if (GetImpersonatorId() != null)
+        {
+            return TwoFactorNotAllowedWhileImpersonating();
+        }
+
+        var result = await _twoFactorService.BeginSetupAsync(userId.Value, cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Confirm enrollment with a code from the app. Returns backup codes (shown once)
+    /// </summary>
+    [HttpPost("2fa/enable")]
+    [Authorize]
+    public async Task<ActionResult<TwoFactorBackupCodesResponse>> EnableTwoFactor([FromBody] TwoFactorCodeRequest request, CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        if (GetImpersonatorId() != null)
+        {
+            return TwoFactorNotAllowedWhileImpersonating();
+        }
+
+        var result = await _twoFactorService.EnableAsync(userId.Value, request.Code, cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Turn 2FA off. Requires the password and a code (or a backup code)
+    /// </summary>
+    [HttpPost("2fa/disable")]
+    [Authorize]
+    public async Task<ActionResult> DisableTwoFactor([FromBody] DisableTwoFactorRequest request, CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        if (GetImpersonatorId() != null)
+        {
+            return TwoFactorNotAllowedWhileImpersonating();
+        }
+
+        await _twoFactorService.DisableAsync(userId.Value, request.Password, request.Code, cancellationToken);
+        return Ok(new { success = true });
+    }
+
+    /// <summary>
+    /// Replace all backup codes. Requires a code from the app
+    /// </summary>
+    [HttpPost("2fa/backup-codes")]
+    [Authorize]
+    public async Task<ActionResult<TwoFactorBackupCodesResponse>> RegenerateBackupCodes([FromBody] TwoFactorCodeRequest request, CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        if (GetImpersonatorId() != null)
+        {
+            return TwoFactorNotAllowedWhileImpersonating();
+        }
+
+        var result = await _twoFactorService.RegenerateBackupCodesAsync(userId.Value, request.Code, cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Reset 2FA of a user who lost their device (SUPER_ADMIN only)
+    /// </summary>
+    [HttpPost("2fa/reset/{userId:guid}")]
+    [Authorize(Roles = "SUPER_ADMIN")]
+    public async Task<ActionResult> ResetTwoFactor(Guid userId, CancellationToken cancellationToken)
+    {
+        var currentUserId = GetUserId();
+        if (currentUserId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        await _twoFactorService.ResetAsync(userId, currentUserId.Value, cancellationToken);
+        return Ok(new { success = true });
+    }
+
     /// <summary>
     /// Impersonate another user (SUPER_ADMIN only)
+    /// Requires a reason; the session expires after Impersonation:DurationMinutes.
     /// Sets new HttpOnly cookies for the impersonated session
     /// </summary>
     [HttpPost("impersonate/{userId:guid}")]
     [Authorize(Roles = "SUPER_ADMIN")]
-    public async Task<ActionResult<LoginResponse>> Impersonate(Guid userId, CancellationToken cancellationToken)
+    public async Task<ActionResult<LoginResponse>> Impersonate(Guid userId, [FromBody] ImpersonateRequest request, CancellationToken cancellationToken)
     {
         var currentUserId = GetUserId();
         if (currentUserId == null)
@@ -224,7 +492,7 @@ public class AuthController : ControllerBase
 
         var ipAddress = GetClientIpAddress();
         var userAgent = GetUserAgent();
-        var result = await _authService.ImpersonateAsync(userId, currentUserId.Value, ipAddress, userAgent, cancellationToken);
+        var result = await _authService.ImpersonateAsync(userId, currentUserId.Value, request.Reason, ipAddress, userAgent, cancellationToken);
 
         // Set new cookies for impersonated session
         SetTokenCookies(result.Token, result.RefreshToken, result.ExpiresAt);
@@ -263,6 +531,20 @@ public class AuthController : ControllerBase
         return Ok(result);
     }
 
+    /// <summary>
+    /// Impersonation history: who acted as whom, why and when (SUPER_ADMIN only)
+    /// </summary>
+    [HttpGet("impersonations")]
+    [Authorize(Roles = "SUPER_ADMIN")]
+    public async Task<ActionResult> GetImpersonationHistory(
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 20,
+        CancellationToken cancellationToken = default)
+    {
+        var result = await _authService.GetImpersonationHistoryAsync(page, pageSize, cancellationToken);
+        return Ok(result);
+    }
+
     /// <summary>
     /// Check if user is authenticated (via cookie)
     /// Useful for frontend to verify auth status without exposing tokens
@@ -281,36 +563,16 @@ public class AuthController : ControllerBase
     }
 
     /// <summary>
-    /// Validate password complexity without storing it
-    /// Used for real-time validation on frontend
+    /// Validate password complexity and check known breaches without storing it
+    /// Used by the password strength meter on the frontend
     /// </summary>
     [HttpPost("validate-password")]
     [AllowAnonymous]
-    public ActionResult ValidatePassword([FromBody] ValidatePasswordRequest request)
+    [EnableRateLimiting("api")]
+    public async Task<ActionResult<PasswordCheckResponse>> ValidatePassword([FromBody] ValidatePasswordRequest request, CancellationToken cancellationToken)
     {
-        var result = PasswordValidator.Validate(request.Password);
-        var strength = PasswordValidator.CalculateStrength(request.Password);
-
-        return Ok(new {
-            isValid = result.IsValid,
-            errors = result.Errors,
-            strength = strength,
-            strengthLabel = strength switch
-            {
-                < 30 => "Слабый",
-                < 50 => "Средний",
-                < 70 => "Хороший",
-                _ => "Отличный"
-            },
-            requirements = new {
-                minLength = PasswordValidator.MinLength,
-                maxLength = PasswordValidator.MaxLength,
-                requireUppercase = true,
-                requireLowercase = true,
-                requireDigit = true,
-                requireSpecialChar = true
-            }
-        });
+        var result = await _passwordPolicy.CheckAsync(request.Password, cancellationToken);
+        return Ok(result);
     }
 
     #region Cookie Helpers
@@ -401,6 +663,11 @@ public class AuthController : ControllerBase
 
     #region Helper Methods
 
+    private ActionResult TwoFactorNotAllowedWhileImpersonating()
+    {
+        return BadRequest(new { success = false, error = new { code = "AUTH_IMPERSONATION_NOT_ALLOWED", message = "Двухфакторную аутентификацию может настроить только сам пользователь", type = "Validation" } });
+    }
+
     private Guid? GetUserId()
     {
         var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier) ?? User.FindFirst(JwtRegisteredClaimNames.Sub);
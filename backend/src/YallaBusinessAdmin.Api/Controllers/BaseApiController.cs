@@ -3,6 +3,7 @@ using System.Security.Claims;
 using Asp.Versioning;
 using Microsoft.AspNetCore.Mvc;
 using YallaBusinessAdmin.Application.Common.Errors;
+using YallaBusinessAdmin.Application.Common.Security;
 
 namespace YallaBusinessAdmin.Api.Controllers;
 
@@ -29,10 +30,18 @@ public abstract class BaseApiController : ControllerBase
 
     /// <summary>
     /// Gets the company ID from JWT claims.
+    /// A SUPER_ADMIN in "view as company" mode gets the viewed company instead
+    /// (see <see cref="CompanyScope"/>).
     /// </summary>
     /// <returns>The company ID if present and valid, null otherwise.</returns>
     protected Guid? GetCompanyId()
     {
+        var viewedCompanyId = GetViewedCompanyId();
+        if (viewedCompanyId != null)
+        {
+            return viewedCompanyId;
+        }
+
         var companyIdClaim = User.FindFirst("company_id") ?? User.FindFirst("companyId");
         if (companyIdClaim != null && Guid.TryParse(companyIdClaim.Value, out var companyId))
         {
@@ -92,12 +101,40 @@ public abstract class BaseApiController : ControllerBase
         return GetUserRole() == "SUPER_ADMIN";
     }
 
+    /// <summary>
+    /// Checks an action-level permission (see <see cref="PermissionCatalog"/>).
+    /// Admins and SUPER_ADMIN are always allowed. Tokens without permission claims
+    /// (issued before they existed) get the defaults of their role until the next sign-in.
+    /// </summary>
+    /// <param name="permission">Permission key, e.g. "employees:edit".</param>
+    /// <returns>True if the current user may perform the action.</returns>
+    protected bool HasPermission(string permission)
+    {
+        var role = GetUserRole();
+        if (role == "SUPER_ADMIN" || PermissionCatalog.IsAdminRole(role))
+        {
+            return true;
+        }
+
+        var claims = User.FindAll(PermissionCatalog.ClaimType).Select(c => c.Value).ToList();
+        return claims.Count > 0
+            ? claims.Contains(permission)
+            : PermissionCatalog.RoleDefaults(role).Contains(permission);
+    }
+
     /// <summary>
     /// Gets the project ID from JWT claims.
+    /// In "view as company" mode the SUPER_ADMIN's own project belongs to another
+    /// company, so the viewed company is seen at company level.
     /// </summary>
     /// <returns>The project ID if present and valid, null otherwise.</returns>
     protected Guid? GetProjectId()
     {
+        if (IsViewingCompany())
+        {
+            return null;
+        }
+
         var projectIdClaim = User.FindFirst("project_id") ?? User.FindFirst("projectId");
         if (projectIdClaim != null && Guid.TryParse(projectIdClaim.Value, out var projectId))
         {
@@ -106,6 +143,32 @@ public abstract class BaseApiController : ControllerBase
         return null;
     }
 
+    /// <summary>
+    /// Checks if the current user belongs to the headquarters project.
+    /// </summary>
+    /// <returns>True if the is_headquarters claim is set, false otherwise.</returns>
+    protected bool IsHeadquarters()
+    {
+        return User.FindFirst("is_headquarters")?.Value == "true";
+    }
+
+    /// <summary>
+    /// Resolves the project scope of a list query.
+    /// Branch users are locked to their own project; headquarters and company-level
+    /// users may narrow to the requested project or see all projects (null).
+    /// </summary>
+    /// <param name="requestedProjectId">Project requested by the client, if any.</param>
+    /// <returns>The project to filter by, or null for all projects.</returns>
+    protected Guid? ResolveProjectScope(Guid? requestedProjectId)
+    {
+        var userProjectId = GetProjectId();
+        if (userProjectId.HasValue && !IsHeadquarters())
+        {
+            return userProjectId;
+        }
+        return requestedProjectId;
+    }
+
     /// <summary>
     /// Gets the impersonator ID from JWT claims (if current session is impersonated).
     /// </summary>
@@ -129,6 +192,29 @@ public abstract class BaseApiController : ControllerBase
         return GetImpersonatedBy() != null;
     }
 
+    /// <summary>
+    /// Gets the company a SUPER_ADMIN is viewing ("view as company" mode).
+    /// The header is ignored for every other role.
+    /// </summary>
+    /// <returns>The viewed company ID, or null when not in view mode.</returns>
+    protected Guid? GetViewedCompanyId()
+    {
+        if (GetUserRole() != CompanyScope.AllowedRole)
+        {
+            return null;
+        }
+        return CompanyScope.Parse(Request.Headers[CompanyScope.HeaderName].FirstOrDefault());
+    }
+
+    /// <summary>
+    /// Checks if a SUPER_ADMIN is viewing another company.
+    /// </summary>
+    /// <returns>True in "view as company" mode, false otherwise.</returns>
+    protected bool IsViewingCompany()
+    {
+        return GetViewedCompanyId() != null;
+    }
+
     /// <summary>
     /// Creates a standard unauthorized response.
     /// </summary>
@@ -138,6 +224,25 @@ public abstract class BaseApiController : ControllerBase
         return Unauthorized(UnauthorizedResponse);
     }
 
+    /// <summary>
+    /// Creates a standard forbidden response.
+    /// </summary>
+    /// <param name="message">The error message.</param>
+    /// <returns>403 ActionResult with standard error format.</returns>
+    protected ActionResult ForbiddenError(string message = "Недостаточно прав для этого действия")
+    {
+        return StatusCode(StatusCodes.Status403Forbidden, new
+        {
+            success = false,
+            error = new
+            {
+                code = ErrorCodes.AUTH_FORBIDDEN,
+                message,
+                type = "Forbidden"
+            }
+        });
+    }
+
     /// <summary>
     /// Creates a standard not found response.
     /// </summary>
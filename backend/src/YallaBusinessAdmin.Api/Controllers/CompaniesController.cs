@@ -0,0 +1,55 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Companies;
+using YallaBusinessAdmin.Application.Companies.Dtos;
+
+namespace YallaBusinessAdmin.Api.Controllers;
+
+/// <summary>
+/// Company directory - SUPER_ADMIN picks a company here for "view as company" mode
+/// </summary>
+[ApiController]
+[Route("api/companies")]
+[Authorize]
+public class CompaniesController : BaseApiController
+{
+    private readonly ICompaniesService _companiesService;
+
+    public CompaniesController(ICompaniesService companiesService)
+    {
+        _companiesService = companiesService;
+    }
+
+    /// <summary>
+    /// All tenant companies with balance, status and employee counts (SUPER_ADMIN only)
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<CompanyListItem>>> GetAll()
+    {
+        if (!IsSuperAdmin())
+            return ForbiddenError("Список компаний доступен только SUPER_ADMIN");
+
+        var companies = await _companiesService.GetAllAsync();
+        return Ok(companies);
+    }
+
+    /// <summary>
+    /// Company details: own company for admins, any company for SUPER_ADMIN
+    /// </summary>
+    [HttpGet("{id:guid}")]
+    public async Task<ActionResult<CompanyResponse>> GetById(Guid id)
+    {
+        var companyId = GetCompanyId();
+        if (companyId == null)
+            return UnauthorizedError();
+
+        if (!IsSuperAdmin() && id != companyId.Value)
+            return ForbiddenError();
+
+        var company = await _companiesService.GetByIdAsync(id);
+        if (company == null)
+            throw new KeyNotFoundException("Компания не найдена");
+
+        return Ok(company);
+    }
+}
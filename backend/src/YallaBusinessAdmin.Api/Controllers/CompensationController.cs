@@ -1,8 +1,9 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Compensation;
 using YallaBusinessAdmin.Application.Compensation.Dtos;
-using YallaBusinessAdmin.Infrastructure.Services.Dashboard;
+using YallaBusinessAdmin.Application.Export;
 
 namespace YallaBusinessAdmin.Api.Controllers;
 
@@ -12,13 +13,15 @@ namespace YallaBusinessAdmin.Api.Controllers;
 [ApiController]
 [Route("api/compensation")]
 [Authorize]
-public class CompensationController : ControllerBase
+public class CompensationController : BaseApiController
 {
     private readonly ICompensationService _compensationService;
+    private readonly IExportService _exportService;
 
-    public CompensationController(ICompensationService compensationService)
+    public CompensationController(ICompensationService compensationService, IExportService exportService)
     {
         _compensationService = compensationService;
+        _exportService = exportService;
     }
 
     [HttpGet("projects/{projectId}/settings")]
@@ -26,7 +29,13 @@ public class CompensationController : ControllerBase
         Guid projectId, 
         CancellationToken cancellationToken)
     {
-        var settings = await _compensationService.GetSettingsAsync(projectId, cancellationToken);
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+
+        // Branch admins may only see their own project
+        if (ResolveProjectScope(projectId) != projectId) return ForbiddenError();
+
+        var settings = await _compensationService.GetSettingsAsync(companyId!.Value, projectId, cancellationToken);
         return Ok(settings);
     }
 
@@ -36,7 +45,14 @@ public class CompensationController : ControllerBase
         [FromBody] UpdateCompensationSettingsRequest request,
         CancellationToken cancellationToken)
     {
-        var settings = await _compensationService.UpdateSettingsAsync(projectId, request, cancellationToken);
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+
+        if (!HasPermission(PermissionCatalog.ProjectsSettings)) return ForbiddenError();
+        if (ResolveProjectScope(projectId) != projectId) return ForbiddenError();
+
+        var settings = await _compensationService.UpdateSettingsAsync(
+            companyId!.Value, projectId, request, cancellationToken);
         return Ok(settings);
     }
 
@@ -77,19 +93,65 @@ public class CompensationController : ControllerBase
         return Ok(transactions);
     }
 
+    /// <summary>
+    /// Day-by-day ledger: transactions with running remaining limit and carry-over.
+    /// Defaults to the current month.
+    /// </summary>
+    [HttpGet("employees/{employeeId}/ledger")]
+    public async Task<ActionResult<CompensationLedgerResponse>> GetLedger(
+        Guid employeeId,
+        [FromQuery] string? fromDate = null,
+        [FromQuery] string? toDate = null,
+        CancellationToken cancellationToken = default)
+    {
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+
+        var ledger = await _compensationService.GetLedgerAsync(
+            companyId!.Value, ResolveProjectScope(null), employeeId,
+            ParseDate(fromDate), ParseDate(toDate), cancellationToken);
+        return Ok(ledger);
+    }
+
+    /// <summary>
+    /// Ledger as a file (csv by default, or xlsx)
+    /// </summary>
+    [HttpGet("employees/{employeeId}/ledger/export")]
+    public async Task<ActionResult> ExportLedger(
+        Guid employeeId,
+        [FromQuery] string? fromDate = null,
+        [FromQuery] string? toDate = null,
+        [FromQuery] string? format = null,
+        CancellationToken cancellationToken = default)
+    {
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+
+        var file = await _exportService.ExportCompensationLedgerAsync(
+            companyId!.Value, ResolveProjectScope(null), employeeId, ParseDate(fromDate), ParseDate(toDate),
+            ExportFormatExtensions.FromQuery(format), cancellationToken);
+
+        return File(file.Content, file.ContentType, file.FileName);
+    }
+
     [HttpGet("projects/{projectId}/daily-summary")]
     public async Task<ActionResult<DailyCompensationSummary>> GetDailySummary(
         Guid projectId,
         [FromQuery] string? date = null,
         CancellationToken cancellationToken = default)
     {
-        // FIXED: Use local timezone for default date instead of UTC
-        // This ensures "today" matches the user's business day
-        var targetDate = TimezoneHelper.GetLocalTodayDate(null); // Uses Asia/Dushanbe default
-        if (!string.IsNullOrEmpty(date) && DateOnly.TryParse(date, out var parsedDate))
-            targetDate = parsedDate;
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
 
-        var summary = await _compensationService.GetDailySummaryAsync(projectId, targetDate, cancellationToken);
+        // Branch admins may only see their own project
+        if (ResolveProjectScope(projectId) != projectId) return ForbiddenError();
+
+        // Without a date the service uses "today" in the project's timezone
+        var summary = await _compensationService.GetDailySummaryAsync(
+            companyId!.Value, projectId, ParseDate(date), cancellationToken);
         return Ok(summary);
     }
+
+    private static DateOnly? ParseDate(string? value) =>
+        !string.IsNullOrEmpty(value) && DateOnly.TryParse(value, out var parsed) ? parsed : null;
 }
@@ -1,6 +1,9 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Security;
+using YallaBusinessAdmin.Application.Projects;
+using YallaBusinessAdmin.Application.Projects.Dtos;
 
 namespace YallaBusinessAdmin.Api.Controllers;
 
@@ -11,13 +14,15 @@ namespace YallaBusinessAdmin.Api.Controllers;
 /// </summary>
 [ApiController]
 [Route("api/[controller]")]
-public class ConfigController : ControllerBase
+public class ConfigController : BaseApiController
 {
     private readonly IBusinessConfigService _configService;
+    private readonly IProjectSettingsService _projectSettingsService;
 
-    public ConfigController(IBusinessConfigService configService)
+    public ConfigController(IBusinessConfigService configService, IProjectSettingsService projectSettingsService)
     {
         _configService = configService;
+        _projectSettingsService = projectSettingsService;
     }
 
     /// <summary>
@@ -87,6 +92,46 @@ public class ConfigController : ControllerBase
         return Ok(new { message = "Config updated", key, value = request.Value });
     }
 
+    /// <summary>
+    /// Get business settings of a project (cutoff, timezone, compensation, subscriptions)
+    /// </summary>
+    [HttpGet("projects/{projectId:guid}/settings")]
+    [Authorize]
+    public async Task<ActionResult<ProjectSettingsResponse>> GetProjectSettings(
+        Guid projectId,
+        CancellationToken cancellationToken)
+    {
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+
+        // Branch admins may only see their own project
+        if (ResolveProjectScope(projectId) != projectId) return ForbiddenError();
+
+        var settings = await _projectSettingsService.GetAsync(projectId, companyId!.Value, cancellationToken);
+        return Ok(settings);
+    }
+
+    /// <summary>
+    /// Update business settings of a project
+    /// </summary>
+    [HttpPut("projects/{projectId:guid}/settings")]
+    [Authorize]
+    public async Task<ActionResult<ProjectSettingsResponse>> UpdateProjectSettings(
+        Guid projectId,
+        [FromBody] UpdateProjectSettingsRequest request,
+        CancellationToken cancellationToken)
+    {
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+
+        if (!HasPermission(PermissionCatalog.ProjectsSettings)) return ForbiddenError();
+        if (ResolveProjectScope(projectId) != projectId) return ForbiddenError();
+
+        var settings = await _projectSettingsService.UpdateAsync(
+            projectId, companyId!.Value, request, GetUserId(), cancellationToken);
+        return Ok(settings);
+    }
+
     /// <summary>
     /// Clear config cache (admin only)
     /// </summary>
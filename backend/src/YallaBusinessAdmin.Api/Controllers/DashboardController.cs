@@ -1,6 +1,7 @@
 using Asp.Versioning;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Dashboard;
 using YallaBusinessAdmin.Application.Dashboard.Dtos;
 using YallaBusinessAdmin.Application.Export;
@@ -22,22 +23,29 @@ public class DashboardController : BaseApiController
 {
     private readonly IDashboardService _dashboardService;
     private readonly IExportService _exportService;
+    private readonly IManifestSnapshotService _manifestService;
 
     /// <summary>
     /// Initializes a new instance of the DashboardController.
     /// </summary>
     /// <param name="dashboardService">The dashboard service.</param>
     /// <param name="exportService">The export service.</param>
-    public DashboardController(IDashboardService dashboardService, IExportService exportService)
+    /// <param name="manifestService">The locked delivery manifest service.</param>
+    public DashboardController(
+        IDashboardService dashboardService,
+        IExportService exportService,
+        IManifestSnapshotService manifestService)
     {
         _dashboardService = dashboardService ?? throw new ArgumentNullException(nameof(dashboardService));
         _exportService = exportService ?? throw new ArgumentNullException(nameof(exportService));
+        _manifestService = manifestService ?? throw new ArgumentNullException(nameof(manifestService));
     }
 
     /// <summary>
     /// Gets dashboard metrics including budget, orders, and statistics.
     /// </summary>
     /// <param name="date">Optional date filter (yyyy-MM-dd format). If provided, statistics are calculated for this date only.</param>
+    /// <param name="projectId">Optional project scope for headquarters users; branch users always get their own project.</param>
     /// <param name="cancellationToken">Cancellation token.</param>
     /// <returns>Dashboard response with metrics.</returns>
     /// <response code="200">Returns dashboard metrics.</response>
@@ -49,12 +57,13 @@ public class DashboardController : BaseApiController
     [ProducesResponseType(StatusCodes.Status404NotFound)]
     public async Task<ActionResult<DashboardResponse>> GetDashboard(
         [FromQuery] string? date = null,
+        [FromQuery] Guid? projectId = null,
         CancellationToken cancellationToken = default)
     {
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
-        var projectId = GetProjectId();
+        var scopeProjectId = ResolveProjectScope(projectId);
 
         // Parse date filter if provided
         DateOnly? filterDate = null;
@@ -63,7 +72,7 @@ public class DashboardController : BaseApiController
             filterDate = parsedDate;
         }
 
-        var result = await _dashboardService.GetDashboardAsync(companyId!.Value, projectId, filterDate, cancellationToken);
+        var result = await _dashboardService.GetDashboardAsync(companyId!.Value, scopeProjectId, filterDate, cancellationToken);
         return Ok(result);
     }
 
@@ -99,12 +108,81 @@ public class DashboardController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
-        var projectId = GetProjectId();
+        // HQ users see all projects here; "address" narrows to one of them
+        var projectId = ResolveProjectScope(null);
         var result = await _dashboardService.GetOrdersAsync(
             companyId!.Value, page, pageSize, search, status, date, address, type, serviceType, comboType, projectId, cancellationToken);
         return Ok(result);
     }
 
+    /// <summary>
+    /// Gets the weekly planning grid: active employees as rows, Monday..Sunday as columns.
+    /// </summary>
+    /// <param name="weekStart">Any date of the week (yyyy-MM-dd format); defaults to the current week in the project's timezone.</param>
+    /// <param name="projectId">Optional project scope for headquarters users; branch users always get their own project.</param>
+    /// <param name="search">Search term for employee name.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>Week plan with lunch orders and compensation limits per day.</returns>
+    /// <response code="200">Returns the week plan.</response>
+    /// <response code="401">Unauthorized - invalid or missing token.</response>
+    [HttpGet("week-plan")]
+    [ProducesResponseType(typeof(WeekPlanResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<ActionResult<WeekPlanResponse>> GetWeekPlan(
+        [FromQuery] string? weekStart = null,
+        [FromQuery] Guid? projectId = null,
+        [FromQuery] string? search = null,
+        CancellationToken cancellationToken = default)
+    {
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+
+        var scopeProjectId = ResolveProjectScope(projectId);
+
+        // Without a date the service uses the current week in the project's timezone
+        DateOnly? week = !string.IsNullOrEmpty(weekStart) && DateOnly.TryParse(weekStart, out var parsedDate)
+            ? parsedDate
+            : null;
+
+        var result = await _dashboardService.GetWeekPlanAsync(companyId!.Value, week, scopeProjectId, search, cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Gets the delivery manifest of a project and day as locked at the cutoff.
+    /// </summary>
+    /// <param name="date">Manifest date (yyyy-MM-dd format).</param>
+    /// <param name="projectId">Project for headquarters users; branch users always get their own project.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>The locked manifest.</returns>
+    /// <response code="200">Returns the locked manifest.</response>
+    /// <response code="204">The day has not been locked yet.</response>
+    /// <response code="400">Missing project or invalid date.</response>
+    /// <response code="401">Unauthorized - invalid or missing token.</response>
+    [HttpGet("manifest-snapshot")]
+    [ProducesResponseType(typeof(ManifestSnapshotResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<ActionResult<ManifestSnapshotResponse>> GetManifestSnapshot(
+        [FromQuery] string date,
+        [FromQuery] Guid? projectId = null,
+        CancellationToken cancellationToken = default)
+    {
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+
+        var scopeProjectId = ResolveProjectScope(projectId);
+        if (scopeProjectId == null) return BadRequestError("Не указан проект");
+
+        if (!DateOnly.TryParse(date, out var manifestDate)) return BadRequestError("Неверный формат даты");
+
+        var result = await _manifestService.GetSnapshotAsync(companyId!.Value, scopeProjectId.Value, manifestDate, cancellationToken);
+        if (result == null) return NoContent();
+
+        return Ok(result);
+    }
+
     /// <summary>
     /// Creates guest orders.
     /// Validates cutoff time and budget before creation.
@@ -128,7 +206,17 @@ public class DashboardController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.OrdersCreate)) return ForbiddenError();
+
         var projectId = GetProjectId();
+
+        // Branch admins order for their own project; HQ may target the project in scope
+        var lockedProjectId = ResolveProjectScope(null);
+        if (lockedProjectId.HasValue)
+        {
+            request.ProjectId = lockedProjectId.Value;
+        }
+
         var result = await _dashboardService.CreateGuestOrderAsync(request, companyId!.Value, projectId, cancellationToken);
         return Created("/api/home/orders", result);
     }
@@ -151,6 +239,8 @@ public class DashboardController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _dashboardService.AssignMealsAsync(request, companyId!.Value, cancellationToken);
         return Ok(result);
     }
@@ -172,6 +262,8 @@ public class DashboardController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.OrdersBulk)) return ForbiddenError();
+
         var result = await _dashboardService.BulkActionAsync(request, companyId!.Value, cancellationToken);
         return Ok(result);
     }
@@ -195,6 +287,8 @@ public class DashboardController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _dashboardService.UpdateSubscriptionAsync(employeeId, request, companyId!.Value, cancellationToken);
         return Ok(result);
     }
@@ -215,6 +309,8 @@ public class DashboardController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _dashboardService.BulkUpdateSubscriptionAsync(request, companyId!.Value, cancellationToken);
         return Ok(result);
     }
@@ -255,6 +351,8 @@ public class DashboardController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.ProjectsSettings)) return ForbiddenError();
+
         var result = await _dashboardService.UpdateCutoffTimeAsync(companyId!.Value, request.Time, cancellationToken);
         return Ok(result);
     }
@@ -274,26 +372,41 @@ public class DashboardController : BaseApiController
     }
 
     /// <summary>
-    /// Exports orders to CSV format.
+    /// Exports orders with the same filters as the orders table.
     /// </summary>
+    /// <param name="format">File format: "csv" (default) or "xlsx".</param>
+    /// <param name="search">Search by employee or guest name.</param>
     /// <param name="status">Optional status filter.</param>
     /// <param name="date">Optional date filter (yyyy-MM-dd).</param>
+    /// <param name="address">Project filter (legacy name).</param>
+    /// <param name="type">Order type: "employee" or "guest".</param>
+    /// <param name="serviceType">Service type: "LUNCH" or "COMPENSATION".</param>
+    /// <param name="comboType">Combo type filter.</param>
     /// <param name="cancellationToken">Cancellation token.</param>
-    /// <returns>CSV file with orders data.</returns>
+    /// <returns>CSV or XLSX file with orders data.</returns>
+    /// <response code="400">Unsupported format or too many rows.</response>
     [HttpGet("orders/export")]
     [ProducesResponseType(typeof(FileResult), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status401Unauthorized)]
     public async Task<ActionResult> ExportOrders(
+        [FromQuery] string? format = null,
+        [FromQuery] string? search = null,
         [FromQuery] string? status = null,
         [FromQuery] string? date = null,
+        [FromQuery] string? address = null,
+        [FromQuery] string? type = null,
+        [FromQuery] string? serviceType = null,
+        [FromQuery] string? comboType = null,
         CancellationToken cancellationToken = default)
     {
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
-        var csvBytes = await _exportService.ExportOrdersToCsvAsync(companyId!.Value, status, date, cancellationToken);
-        var fileName = $"orders_{DateTime.UtcNow:yyyy-MM-dd}.csv";
+        var filter = new OrdersExportFilter(search, status, date, address, type, serviceType, comboType);
+        var file = await _exportService.ExportOrdersAsync(
+            companyId!.Value, ResolveProjectScope(null), filter, ExportFormatExtensions.FromQuery(format), cancellationToken);
 
-        return File(csvBytes, "text/csv; charset=utf-8", fileName);
+        return File(file.Content, file.ContentType, file.FileName);
     }
 }
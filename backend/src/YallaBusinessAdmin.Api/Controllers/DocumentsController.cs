@@ -24,13 +24,16 @@ public class DocumentsController : BaseApiController
         [FromQuery] int page = 1,
         [FromQuery] int pageSize = 20,
         [FromQuery] string? type = null,
+        [FromQuery] DateTime? from = null,
+        [FromQuery] DateTime? to = null,
         CancellationToken cancellationToken = default)
     {
         var companyId = GetCompanyId();
-        if (companyId == null) 
+        var userId = GetUserId();
+        if (companyId == null || userId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
-        var result = await _documentsService.GetAllAsync(companyId.Value, page, pageSize, type, cancellationToken);
+        var result = await _documentsService.GetAllAsync(companyId.Value, userId.Value, page, pageSize, type, from, to, cancellationToken);
         return Ok(result);
     }
 
@@ -38,21 +41,37 @@ public class DocumentsController : BaseApiController
     public async Task<ActionResult> GetById(Guid id, CancellationToken cancellationToken)
     {
         var companyId = GetCompanyId();
-        if (companyId == null) 
+        var userId = GetUserId();
+        if (companyId == null || userId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
-        var result = await _documentsService.GetByIdAsync(id, companyId.Value, cancellationToken);
+        var result = await _documentsService.GetByIdAsync(id, companyId.Value, userId.Value, cancellationToken);
         return Ok(result);
     }
 
+    /// <summary>
+    /// Streams document content (used for both download and inline preview)
+    /// </summary>
     [HttpGet("{id:guid}/download")]
-    public async Task<ActionResult> GetDownloadUrl(Guid id, CancellationToken cancellationToken)
+    public async Task<ActionResult> Download(Guid id, CancellationToken cancellationToken)
     {
         var companyId = GetCompanyId();
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
-        var url = await _documentsService.GetDownloadUrlAsync(id, companyId.Value, cancellationToken);
-        return Ok(new { url });
+        var file = await _documentsService.DownloadAsync(id, companyId.Value, cancellationToken);
+        return File(file.Content, file.ContentType, file.FileName);
+    }
+
+    [HttpPost("{id:guid}/viewed")]
+    public async Task<ActionResult> MarkAsViewed(Guid id, CancellationToken cancellationToken)
+    {
+        var companyId = GetCompanyId();
+        var userId = GetUserId();
+        if (companyId == null || userId == null) 
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+
+        await _documentsService.MarkAsViewedAsync(id, companyId.Value, userId.Value, cancellationToken);
+        return Ok(new { success = true, message = "Документ отмечен как просмотренный" });
     }
 }
@@ -1,6 +1,7 @@
 using Asp.Versioning;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Employees;
 using YallaBusinessAdmin.Application.Employees.Dtos;
 using YallaBusinessAdmin.Application.Export;
@@ -75,7 +76,8 @@ public class EmployeesController : BaseApiController
 
         var result = await _employeesService.GetAllAsync(
             page, pageSize, search, status, inviteStatus, orderStatus,
-            companyId!.Value, sortBy, sortDesc, minBudget, maxBudget, hasSubscription, projectId, serviceType, cancellationToken);
+            companyId!.Value, sortBy, sortDesc, minBudget, maxBudget, hasSubscription,
+            ResolveProjectScope(projectId), serviceType, cancellationToken);
         return Ok(result);
     }
 
@@ -123,6 +125,13 @@ public class EmployeesController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.EmployeesCreate)) return ForbiddenError();
+
+        // Branch admins can only add employees to their own project
+        var scopeProjectId = ResolveProjectScope(request.ProjectId);
+        if (scopeProjectId != request.ProjectId)
+            return ForbiddenError("Сотрудника можно добавить только в свой проект");
+
         var currentUserId = GetUserId();
         var result = await _employeesService.CreateAsync(request, companyId!.Value, currentUserId, cancellationToken);
         return CreatedAtAction(nameof(GetById), new { id = result.Id }, result);
@@ -152,6 +161,8 @@ public class EmployeesController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.EmployeesEdit)) return ForbiddenError();
+
         var currentUserId = GetUserId();
         var result = await _employeesService.UpdateAsync(id, request, companyId!.Value, currentUserId, cancellationToken);
         return Ok(result);
@@ -175,6 +186,8 @@ public class EmployeesController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.EmployeesEdit)) return ForbiddenError();
+
         var currentUserId = GetUserId();
         var result = await _employeesService.ToggleActivationAsync(id, companyId!.Value, currentUserId, cancellationToken);
         return Ok(result);
@@ -198,6 +211,8 @@ public class EmployeesController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.EmployeesEdit)) return ForbiddenError();
+
         var currentUserId = GetUserId();
         await _employeesService.DeleteAsync(id, companyId!.Value, currentUserId, cancellationToken);
         return NoContent();
@@ -222,6 +237,8 @@ public class EmployeesController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.EmployeesEdit)) return ForbiddenError();
+
         var currentUserId = GetUserId();
         await _employeesService.HardDeleteAsync(id, companyId!.Value, currentUserId, cancellationToken);
         return NoContent();
@@ -251,6 +268,8 @@ public class EmployeesController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.EmployeesBudget)) return ForbiddenError();
+
         var currentUserId = GetUserId();
         await _employeesService.UpdateBudgetAsync(id, request, companyId!.Value, currentUserId, cancellationToken);
         return Ok(new { success = true, message = "Бюджет обновлен" });
@@ -276,6 +295,8 @@ public class EmployeesController : BaseApiController
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
+        if (!HasPermission(PermissionCatalog.EmployeesBudget)) return ForbiddenError();
+
         var currentUserId = GetUserId();
         await _employeesService.BatchUpdateBudgetAsync(request, companyId!.Value, currentUserId, cancellationToken);
         return Ok(new { success = true, message = "Бюджеты обновлены", count = request.EmployeeIds.Count() });
@@ -326,23 +347,53 @@ public class EmployeesController : BaseApiController
     }
 
     /// <summary>
-    /// Exports employees to CSV format.
+    /// Exports employees with the same filters and sorting as the employees table.
     /// </summary>
+    /// <param name="format">File format: "csv" (default) or "xlsx".</param>
+    /// <param name="search">Search term for name, phone, or email.</param>
+    /// <param name="status">Status filter: "active" or "inactive".</param>
+    /// <param name="inviteStatus">Invite status filter.</param>
+    /// <param name="orderStatus">Order status filter.</param>
+    /// <param name="sortBy">Sort field.</param>
+    /// <param name="sortDesc">Sort descending (default: true).</param>
+    /// <param name="minBudget">Minimum budget filter.</param>
+    /// <param name="maxBudget">Maximum budget filter.</param>
+    /// <param name="hasSubscription">Subscription filter.</param>
+    /// <param name="projectId">Project filter.</param>
+    /// <param name="serviceType">Service type filter: "LUNCH" or "COMPENSATION".</param>
     /// <param name="cancellationToken">Cancellation token.</param>
-    /// <returns>CSV file with employees data.</returns>
-    /// <response code="200">Returns CSV file.</response>
+    /// <returns>CSV or XLSX file with employees data.</returns>
+    /// <response code="200">Returns the file.</response>
+    /// <response code="400">Unsupported format or too many rows.</response>
     /// <response code="401">Unauthorized.</response>
     [HttpGet("export")]
     [ProducesResponseType(typeof(FileResult), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status401Unauthorized)]
-    public async Task<ActionResult> Export(CancellationToken cancellationToken)
+    public async Task<ActionResult> Export(
+        [FromQuery] string? format = null,
+        [FromQuery] string? search = null,
+        [FromQuery] string? status = null,
+        [FromQuery] string? inviteStatus = null,
+        [FromQuery] string? orderStatus = null,
+        [FromQuery] string? sortBy = null,
+        [FromQuery] bool sortDesc = true,
+        [FromQuery] decimal? minBudget = null,
+        [FromQuery] decimal? maxBudget = null,
+        [FromQuery] bool? hasSubscription = null,
+        [FromQuery] Guid? projectId = null,
+        [FromQuery] string? serviceType = null,
+        CancellationToken cancellationToken = default)
     {
         var (companyId, errorResult) = RequireCompanyId();
         if (errorResult != null) return errorResult;
 
-        var csvBytes = await _exportService.ExportEmployeesToCsvAsync(companyId!.Value, cancellationToken);
-        var fileName = $"employees_{DateTime.UtcNow:yyyy-MM-dd}.csv";
+        var filter = new EmployeesExportFilter(
+            search, status, inviteStatus, orderStatus, sortBy, sortDesc,
+            minBudget, maxBudget, hasSubscription, ResolveProjectScope(projectId), serviceType);
+        var file = await _exportService.ExportEmployeesAsync(
+            companyId!.Value, filter, ExportFormatExtensions.FromQuery(format), cancellationToken);
 
-        return File(csvBytes, "text/csv; charset=utf-8", fileName);
+        return File(file.Content, file.ContentType, file.FileName);
     }
 }
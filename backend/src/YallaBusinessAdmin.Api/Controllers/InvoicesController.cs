@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Invoices;
 using YallaBusinessAdmin.Application.Invoices.Dtos;
 
@@ -25,13 +26,15 @@ public class InvoicesController : BaseApiController
         [FromQuery] int page = 1,
         [FromQuery] int pageSize = 20,
         [FromQuery] string? status = null,
+        [FromQuery] DateTime? from = null,
+        [FromQuery] DateTime? to = null,
         CancellationToken cancellationToken = default)
     {
         var companyId = GetCompanyId();
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
-        var result = await _invoicesService.GetAllAsync(companyId.Value, page, pageSize, status, cancellationToken);
+        var result = await _invoicesService.GetAllAsync(companyId.Value, page, pageSize, status, from, to, cancellationToken);
         return Ok(result);
     }
 
@@ -63,6 +66,7 @@ public class InvoicesController : BaseApiController
         var companyId = GetCompanyId();
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        if (!HasPermission(PermissionCatalog.PaymentsPay)) return ForbiddenError();
 
         var result = await _invoicesService.PayAsync(id, request, companyId.Value, cancellationToken);
         return Ok(result);
@@ -23,6 +23,8 @@ public class NewsController : ControllerBase
     public async Task<ActionResult> GetAll(
         [FromQuery] int page = 1,
         [FromQuery] int pageSize = 20,
+        [FromQuery] string? category = null,
+        [FromQuery] bool unreadOnly = false,
         CancellationToken cancellationToken = default)
     {
         var userId = GetUserId();
@@ -30,7 +32,7 @@ public class NewsController : ControllerBase
         if (userId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
-        var result = await _newsService.GetAllAsync(userId.Value, userRole ?? "ADMIN", page, pageSize, cancellationToken);
+        var result = await _newsService.GetAllAsync(userId.Value, userRole ?? "ADMIN", page, pageSize, category, unreadOnly, cancellationToken);
         return Ok(result);
     }
 
@@ -0,0 +1,61 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Partners;
+
+namespace YallaBusinessAdmin.Api.Controllers;
+
+/// <summary>
+/// Partners directory - all exceptions handled by global exception handler
+/// </summary>
+[ApiController]
+[Route("api/partners")]
+[Authorize]
+public class PartnersController : BaseApiController
+{
+    private readonly IPartnersService _partnersService;
+
+    public PartnersController(IPartnersService partnersService)
+    {
+        _partnersService = partnersService;
+    }
+
+    /// <summary>
+    /// Gets active partners sorted by distance. Project-scoped users always measure from their own project.
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult> GetAll(
+        [FromQuery] Guid? projectId = null,
+        [FromQuery] string? search = null,
+        [FromQuery] string? type = null,
+        [FromQuery] double? maxDistanceKm = null,
+        CancellationToken cancellationToken = default)
+    {
+        var companyId = GetCompanyId();
+        if (companyId == null) 
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+
+        var scopedProjectId = GetProjectId() ?? projectId;
+
+        var result = await _partnersService.GetAllAsync(companyId.Value, scopedProjectId, search, type, maxDistanceKm, cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Gets partner details with recent compensation transactions at this venue
+    /// </summary>
+    [HttpGet("{id:guid}")]
+    public async Task<ActionResult> GetById(
+        Guid id,
+        [FromQuery] Guid? projectId = null,
+        CancellationToken cancellationToken = default)
+    {
+        var companyId = GetCompanyId();
+        if (companyId == null) 
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+
+        var scopedProjectId = GetProjectId() ?? projectId;
+
+        var result = await _partnersService.GetByIdAsync(id, companyId.Value, scopedProjectId, cancellationToken);
+        return Ok(result);
+    }
+}
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Projects;
 using YallaBusinessAdmin.Application.Projects.Dtos;
 
@@ -56,6 +57,7 @@ public class ProjectsController : BaseApiController
         var companyId = GetCompanyId();
         if (companyId == null)
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        if (!HasPermission(PermissionCatalog.ProjectsSettings)) return ForbiddenError();
 
         var project = await _projectsService.CreateAsync(companyId.Value, request);
         return CreatedAtAction(nameof(GetById), new { id = project.Id }, project);
@@ -70,6 +72,7 @@ public class ProjectsController : BaseApiController
         var companyId = GetCompanyId();
         if (companyId == null)
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        if (!HasPermission(PermissionCatalog.ProjectsSettings)) return ForbiddenError();
 
         var existing = await _projectsService.GetByIdAsync(id);
         if (existing == null)
@@ -87,6 +90,7 @@ public class ProjectsController : BaseApiController
         var companyId = GetCompanyId();
         if (companyId == null)
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        if (!HasPermission(PermissionCatalog.ProjectsSettings)) return ForbiddenError();
 
         var existing = await _projectsService.GetByIdAsync(id);
         if (existing == null)
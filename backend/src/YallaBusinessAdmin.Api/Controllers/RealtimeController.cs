@@ -0,0 +1,112 @@
+using System.Text.Json;
+using Asp.Versioning;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Models;
+
+namespace YallaBusinessAdmin.Api.Controllers;
+
+/// <summary>
+/// Server push of order, subscription and budget changes (Server-Sent Events).
+/// Lets admins of the same project see each other's changes and background job
+/// results without reloading.
+/// </summary>
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}/realtime")]
+[Route("api/realtime")] // Backwards compatibility
+[Authorize]
+public class RealtimeController : BaseApiController
+{
+    /// <summary>
+    /// Comment line sent when idle so proxies keep the connection open.
+    /// </summary>
+    private static readonly TimeSpan KeepAliveInterval = TimeSpan.FromSeconds(25);
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly IRealtimeEventHub _realtimeHub;
+
+    /// <summary>
+    /// Initializes a new instance of the RealtimeController.
+    /// </summary>
+    /// <param name="realtimeHub">The realtime event hub.</param>
+    public RealtimeController(IRealtimeEventHub realtimeHub)
+    {
+        _realtimeHub = realtimeHub ?? throw new ArgumentNullException(nameof(realtimeHub));
+    }
+
+    /// <summary>
+    /// Opens an event stream for the current company.
+    /// Branch users only receive events of their own project.
+    /// </summary>
+    /// <param name="projectId">Optional project filter for headquarters/company-level users.</param>
+    /// <param name="cancellationToken">Aborted when the client disconnects.</param>
+    [HttpGet("stream")]
+    [Produces("text/event-stream")]
+    public async Task<IActionResult> Stream([FromQuery] Guid? projectId, CancellationToken cancellationToken)
+    {
+        var (companyId, errorResult) = RequireCompanyId();
+        if (errorResult != null) return errorResult;
+
+        var projectScope = ResolveProjectScope(projectId);
+
+        Response.Headers.ContentType = "text/event-stream";
+        Response.Headers.CacheControl = "no-cache";
+        Response.Headers["X-Accel-Buffering"] = "no"; // nginx: do not buffer the stream
+
+        using var subscription = _realtimeHub.Subscribe(companyId!.Value, projectScope);
+
+        try
+        {
+            // Client reconnect delay, then an initial comment so the client sees the stream open
+            await WriteAndFlushAsync("retry: 5000\n: connected\n\n", cancellationToken);
+
+            while (!cancellationToken.IsCancellationRequested)
+            {
+                using var keepAlive = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+                keepAlive.CancelAfter(KeepAliveInterval);
+
+                try
+                {
+                    var realtimeEvent = await subscription.Reader.ReadAsync(keepAlive.Token);
+                    await WriteEventAsync(realtimeEvent, cancellationToken);
+                }
+                catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+                {
+                    await WriteAndFlushAsync(": keep-alive\n\n", cancellationToken);
+                }
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            // Client disconnected
+        }
+
+        return new EmptyResult();
+    }
+
+    private Task WriteEventAsync(RealtimeEvent realtimeEvent, CancellationToken cancellationToken)
+    {
+        var data = JsonSerializer.Serialize(new
+        {
+            type = realtimeEvent.Type,
+            projectId = realtimeEvent.ProjectId,
+            entityIds = realtimeEvent.EntityIds,
+            status = realtimeEvent.Status,
+            comboType = realtimeEvent.ComboType,
+            date = realtimeEvent.Date,
+            balance = realtimeEvent.Balance,
+            occurredAt = realtimeEvent.OccurredAt
+        }, JsonOptions);
+
+        return WriteAndFlushAsync($"event: {realtimeEvent.Type}\ndata: {data}\n\n", cancellationToken);
+    }
+
+    private async Task WriteAndFlushAsync(string payload, CancellationToken cancellationToken)
+    {
+        await Response.WriteAsync(payload, cancellationToken);
+        await Response.Body.FlushAsync(cancellationToken);
+    }
+}
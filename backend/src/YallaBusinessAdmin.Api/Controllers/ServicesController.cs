@@ -0,0 +1,75 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Common.Security;
+using YallaBusinessAdmin.Application.ServiceAssignments;
+using YallaBusinessAdmin.Application.ServiceAssignments.Dtos;
+
+namespace YallaBusinessAdmin.Api.Controllers;
+
+/// <summary>
+/// Service assignment (lunch / compensation) across employees - all exceptions handled by global exception handler
+/// </summary>
+[ApiController]
+[Route("api/services")]
+[Authorize]
+public class ServicesController : BaseApiController
+{
+    private readonly IServiceAssignmentService _serviceAssignmentService;
+
+    public ServicesController(IServiceAssignmentService serviceAssignmentService)
+    {
+        _serviceAssignmentService = serviceAssignmentService;
+    }
+
+    /// <summary>
+    /// Checks which services can be assigned to the selected employees, with the reason when blocked
+    /// </summary>
+    [HttpPost("check-availability")]
+    public async Task<ActionResult> CheckAvailability(
+        [FromBody] CheckServiceAvailabilityRequest request,
+        CancellationToken cancellationToken)
+    {
+        var companyId = GetCompanyId();
+        if (companyId == null) 
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+
+        var result = await _serviceAssignmentService.CheckAvailabilityAsync(request, companyId.Value, GetProjectId(), cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Previews a bulk cancel: future orders and refunds per employee
+    /// </summary>
+    [HttpPost("bulk/cancel/preview")]
+    public async Task<ActionResult> PreviewBulkCancel(
+        [FromBody] BulkCancelServicesRequest request,
+        CancellationToken cancellationToken)
+    {
+        var companyId = GetCompanyId();
+        if (companyId == null) 
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+
+        if (!HasPermission(PermissionCatalog.SubscriptionsCancel)) return ForbiddenError();
+
+        var result = await _serviceAssignmentService.PreviewBulkCancelAsync(request, companyId.Value, GetProjectId(), cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Cancels lunch or compensation for the selected employees with a per-employee report
+    /// </summary>
+    [HttpPost("bulk/cancel")]
+    public async Task<ActionResult> BulkCancel(
+        [FromBody] BulkCancelServicesRequest request,
+        CancellationToken cancellationToken)
+    {
+        var companyId = GetCompanyId();
+        if (companyId == null) 
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+
+        if (!HasPermission(PermissionCatalog.SubscriptionsCancel)) return ForbiddenError();
+
+        var result = await _serviceAssignmentService.BulkCancelAsync(request, companyId.Value, GetProjectId(), GetUserId(), cancellationToken);
+        return Ok(result);
+    }
+}
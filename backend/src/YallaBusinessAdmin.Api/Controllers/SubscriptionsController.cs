@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Subscriptions;
 using YallaBusinessAdmin.Application.Subscriptions.Dtos;
 
@@ -71,6 +72,8 @@ public class SubscriptionsController : BaseApiController
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _subscriptionsService.CreateAsync(request, companyId.Value, cancellationToken);
         return CreatedAtAction(nameof(GetById), new { id = result.Id }, result);
     }
@@ -82,6 +85,8 @@ public class SubscriptionsController : BaseApiController
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _subscriptionsService.UpdateAsync(id, request, companyId.Value, cancellationToken);
         return Ok(result);
     }
@@ -93,6 +98,8 @@ public class SubscriptionsController : BaseApiController
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsCancel)) return ForbiddenError();
+
         await _subscriptionsService.DeleteAsync(id, companyId.Value, cancellationToken);
         return NoContent();
     }
@@ -104,6 +111,8 @@ public class SubscriptionsController : BaseApiController
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         try
         {
             var result = await _subscriptionsService.BulkCreateAsync(request, companyId.Value, cancellationToken);
@@ -133,6 +142,8 @@ public class SubscriptionsController : BaseApiController
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _subscriptionsService.BulkUpdateAsync(request, companyId.Value, cancellationToken);
         return Ok(result);
     }
@@ -144,6 +155,8 @@ public class SubscriptionsController : BaseApiController
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _subscriptionsService.PauseAsync(id, companyId.Value, cancellationToken);
         return Ok(result);
     }
@@ -155,6 +168,8 @@ public class SubscriptionsController : BaseApiController
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _subscriptionsService.ResumeAsync(id, companyId.Value, cancellationToken);
         return Ok(result);
     }
@@ -166,6 +181,8 @@ public class SubscriptionsController : BaseApiController
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _subscriptionsService.BulkPauseAsync(request.SubscriptionIds, companyId.Value, cancellationToken);
         return Ok(result);
     }
@@ -177,6 +194,8 @@ public class SubscriptionsController : BaseApiController
         if (companyId == null) 
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
 
+        if (!HasPermission(PermissionCatalog.SubscriptionsManage)) return ForbiddenError();
+
         var result = await _subscriptionsService.BulkResumeAsync(request.SubscriptionIds, companyId.Value, cancellationToken);
         return Ok(result);
     }
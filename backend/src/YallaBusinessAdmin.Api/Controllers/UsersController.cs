@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Users;
 using YallaBusinessAdmin.Application.Users.Dtos;
 
@@ -14,10 +15,12 @@ namespace YallaBusinessAdmin.Api.Controllers;
 public class UsersController : BaseApiController
 {
     private readonly IUsersService _usersService;
+    private readonly IUserInvitationService _invitationService;
 
-    public UsersController(IUsersService usersService)
+    public UsersController(IUsersService usersService, IUserInvitationService invitationService)
     {
         _usersService = usersService;
+        _invitationService = invitationService;
     }
 
     /// <summary>
@@ -76,6 +79,8 @@ public class UsersController : BaseApiController
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
         }
 
+        if (!HasPermission(PermissionCatalog.UsersManage)) return ForbiddenError();
+
         var result = await _usersService.CreateAsync(request, companyId.Value, currentUserId, cancellationToken);
         return CreatedAtAction(nameof(GetById), new { id = result.Id }, result);
     }
@@ -93,6 +98,8 @@ public class UsersController : BaseApiController
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
         }
 
+        if (!HasPermission(PermissionCatalog.UsersManage)) return ForbiddenError();
+
         var result = await _usersService.UpdateAsync(id, request, companyId.Value, currentUserId, cancellationToken);
         return Ok(result);
     }
@@ -110,10 +117,53 @@ public class UsersController : BaseApiController
             return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
         }
 
+        if (!HasPermission(PermissionCatalog.UsersManage)) return ForbiddenError();
+
         await _usersService.DeleteAsync(id, companyId.Value, currentUserId.Value, cancellationToken);
         return NoContent();
     }
 
+    /// <summary>
+    /// Send a new invitation link (the previous one stops working)
+    /// </summary>
+    [HttpPost("{id:guid}/invitation/resend")]
+    public async Task<ActionResult<UserInvitationDto>> ResendInvitation(
+        Guid id,
+        [FromBody] ResendInvitationRequest? request,
+        CancellationToken cancellationToken)
+    {
+        var companyId = GetCompanyId();
+        var currentUserId = GetUserId();
+        if (companyId == null || currentUserId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        if (!HasPermission(PermissionCatalog.UsersManage)) return ForbiddenError();
+
+        var result = await _invitationService.ResendAsync(id, companyId.Value, request?.Channel, currentUserId.Value, cancellationToken);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Revoke the pending invitation link
+    /// </summary>
+    [HttpDelete("{id:guid}/invitation")]
+    public async Task<ActionResult> RevokeInvitation(Guid id, CancellationToken cancellationToken)
+    {
+        var companyId = GetCompanyId();
+        var currentUserId = GetUserId();
+        if (companyId == null || currentUserId == null)
+        {
+            return Unauthorized(new { success = false, error = new { code = "AUTH_UNAUTHORIZED", message = "Требуется авторизация", type = "Forbidden" } });
+        }
+
+        if (!HasPermission(PermissionCatalog.UsersManage)) return ForbiddenError();
+
+        await _invitationService.RevokeAsync(id, companyId.Value, currentUserId.Value, cancellationToken);
+        return NoContent();
+    }
+
     /// <summary>
     /// Get all admins across all companies (SUPER_ADMIN only)
     /// </summary>
@@ -137,6 +187,15 @@ public class UsersController : BaseApiController
         return Ok(routes);
     }
 
+    /// <summary>
+    /// Get permission matrix (pages and their actions)
+    /// </summary>
+    [HttpGet("permissions/matrix")]
+    public ActionResult<IEnumerable<PermissionGroup>> GetPermissionMatrix()
+    {
+        return Ok(_usersService.GetPermissionGroups());
+    }
+
     /// <summary>
     /// Get available user statuses
     /// </summary>
@@ -0,0 +1,80 @@
+using YallaBusinessAdmin.Application.Common.Errors;
+using YallaBusinessAdmin.Application.Common.Security;
+
+namespace YallaBusinessAdmin.Api.Middleware;
+
+/// <summary>
+/// Keeps the SUPER_ADMIN "view as company" mode read-only.
+/// Writes carrying the company scope header are rejected, so a data change can
+/// never land in the viewed company (or silently in the SUPER_ADMIN's own one).
+/// </summary>
+public class CompanyScopeMiddleware
+{
+    private readonly RequestDelegate _next;
+    private readonly ILogger<CompanyScopeMiddleware> _logger;
+
+    private static readonly HashSet<string> SafeMethods = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "GET", "HEAD", "OPTIONS"
+    };
+
+    // Session endpoints (logout, refresh, impersonation) act on the SUPER_ADMIN's own account
+    private const string AuthPath = "/api/auth";
+
+    public CompanyScopeMiddleware(RequestDelegate next, ILogger<CompanyScopeMiddleware> logger)
+    {
+        _next = next;
+        _logger = logger;
+    }
+
+    public async Task InvokeAsync(HttpContext context)
+    {
+        var path = context.Request.Path.Value ?? "";
+        var method = context.Request.Method;
+
+        if (SafeMethods.Contains(method) ||
+            path.StartsWith(AuthPath, StringComparison.OrdinalIgnoreCase) ||
+            context.User.FindFirst("role")?.Value != CompanyScope.AllowedRole)
+        {
+            await _next(context);
+            return;
+        }
+
+        var viewedCompanyId = CompanyScope.Parse(context.Request.Headers[CompanyScope.HeaderName].FirstOrDefault());
+        if (viewedCompanyId == null)
+        {
+            await _next(context);
+            return;
+        }
+
+        _logger.LogWarning("Blocked {Method} {Path} in company view mode for company {CompanyId}",
+            method, path, viewedCompanyId);
+
+        context.Response.StatusCode = StatusCodes.Status403Forbidden;
+        context.Response.ContentType = "application/json";
+
+        await context.Response.WriteAsJsonAsync(new
+        {
+            success = false,
+            error = new
+            {
+                code = ErrorCodes.AUTH_COMPANY_VIEW_READ_ONLY,
+                message = "В режиме просмотра компании изменения недоступны",
+                type = "Forbidden"
+            },
+            path = path,
+            timestamp = DateTime.UtcNow
+        });
+    }
+}
+
+/// <summary>
+/// Extension methods for company scope middleware
+/// </summary>
+public static class CompanyScopeMiddlewareExtensions
+{
+    public static IApplicationBuilder UseCompanyScope(this IApplicationBuilder builder)
+    {
+        return builder.UseMiddleware<CompanyScopeMiddleware>();
+    }
+}
@@ -7,6 +7,7 @@ using Microsoft.OpenApi.Models;
 using Serilog;
 using Serilog.Context;
 using YallaBusinessAdmin.Application;
+using YallaBusinessAdmin.Application.Auth;
 using YallaBusinessAdmin.Infrastructure;
 using YallaBusinessAdmin.Api.Middleware;
 
@@ -30,6 +31,7 @@ var envMappings = new Dictionary<string, string>
     { "JWT_ISSUER", "Jwt:Issuer" },
     { "JWT_AUDIENCE", "Jwt:Audience" },
     { "JWT_EXPIRATION_HOURS", "Jwt:ExpirationHours" },
+    { "IMPERSONATION_DURATION_MINUTES", "Impersonation:DurationMinutes" },
     { "SUPABASE_URL", "Supabase:Url" },
     { "SUPABASE_ANON_KEY", "Supabase:AnonKey" },
     { "SUPABASE_SERVICE_ROLE_KEY", "Supabase:ServiceRoleKey" },
@@ -105,6 +107,20 @@ builder.Services.AddAuthentication(options =>
 
             return Task.CompletedTask;
         },
+        OnTokenValidated = async context =>
+        {
+            // A logged-out session (this device, "everywhere else", ended impersonation)
+            // takes its access tokens with it instead of leaving them valid until expiry
+            var sessionClaim = context.Principal?.FindFirst("session_id")?.Value;
+            if (Guid.TryParse(sessionClaim, out var sessionId))
+            {
+                var authService = context.HttpContext.RequestServices.GetRequiredService<IAuthService>();
+                if (!await authService.IsSessionActiveAsync(sessionId, context.HttpContext.RequestAborted))
+                {
+                    context.Fail("Session has been revoked");
+                }
+            }
+        },
         OnAuthenticationFailed = context =>
         {
             // Log authentication failures for security monitoring
@@ -296,7 +312,8 @@ builder.Services.AddCors(options =>
                     "Content-Type",
                     "Authorization",
                     "X-Correlation-ID",
-                    "X-XSRF-TOKEN"
+                    "X-XSRF-TOKEN",
+                    "X-Company-Id"
                 )
                 .AllowCredentials()
                 .SetPreflightMaxAge(TimeSpan.FromHours(1)); // Cache preflight longer in prod
@@ -532,6 +549,9 @@ app.UseAuthorization();
 // CSRF protection for state-changing operations
 app.UseCsrfProtection();
 
+// SUPER_ADMIN "view as company" mode is read-only
+app.UseCompanyScope();
+
 app.MapControllers();
 
 // Health check endpoint
@@ -1,6 +1,7 @@
 using System.IdentityModel.Tokens.Jwt;
 using System.Security.Claims;
 using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Security;
 
 namespace YallaBusinessAdmin.Api.Services;
 
@@ -32,6 +33,11 @@ public class CurrentUserService : ICurrentUserService
     {
         get
         {
+            if (ViewedCompanyId is { } viewedCompanyId)
+            {
+                return viewedCompanyId;
+            }
+
             var companyIdClaim = _httpContextAccessor.HttpContext?.User.FindFirst("company_id")
                 ?? _httpContextAccessor.HttpContext?.User.FindFirst("companyId");
 
@@ -47,6 +53,11 @@ public class CurrentUserService : ICurrentUserService
     {
         get
         {
+            if (ViewedCompanyId != null)
+            {
+                return null;
+            }
+
             var projectIdClaim = _httpContextAccessor.HttpContext?.User.FindFirst("project_id")
                 ?? _httpContextAccessor.HttpContext?.User.FindFirst("projectId");
 
@@ -74,6 +85,11 @@ public class CurrentUserService : ICurrentUserService
     public string? Role => _httpContextAccessor.HttpContext?.User.FindFirst("role")?.Value
         ?? _httpContextAccessor.HttpContext?.User.FindFirst(ClaimTypes.Role)?.Value;
 
+    // "View as company" mode, see CompanyScope
+    private Guid? ViewedCompanyId => Role == CompanyScope.AllowedRole
+        ? CompanyScope.Parse(_httpContextAccessor.HttpContext?.Request.Headers[CompanyScope.HeaderName].FirstOrDefault())
+        : null;
+
     public bool IsAuthenticated => _httpContextAccessor.HttpContext?.User.Identity?.IsAuthenticated ?? false;
 }
 
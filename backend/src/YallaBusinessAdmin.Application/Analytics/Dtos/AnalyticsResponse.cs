@@ -0,0 +1,82 @@
+namespace YallaBusinessAdmin.Application.Analytics.Dtos;
+
+/// <summary>
+/// Aggregated analytics for a period (cancelled orders are excluded everywhere)
+/// </summary>
+public class AnalyticsResponse
+{
+    public DateOnly From { get; set; }
+    public DateOnly To { get; set; }
+    public string CurrencyCode { get; set; } = "TJS";
+
+    public AnalyticsSummary Summary { get; set; } = new();
+
+    /// <summary>Same metrics for the previous period of equal length</summary>
+    public AnalyticsSummary PreviousSummary { get; set; } = new();
+
+    public List<AnalyticsTimelinePoint> Timeline { get; set; } = new();
+    public List<AnalyticsWeekPoint> Weekly { get; set; } = new();
+    public List<AnalyticsEmployeeStat> TopEmployees { get; set; } = new();
+    public List<AnalyticsComboStat> ComboMix { get; set; } = new();
+    public AnalyticsServiceMix ServiceMix { get; set; } = new();
+}
+
+public class AnalyticsSummary
+{
+    public int TotalOrders { get; set; }
+    public int GuestOrders { get; set; }
+    public decimal TotalSpend { get; set; }
+    public int ActiveEmployees { get; set; }
+    public decimal AverageCheck { get; set; }
+}
+
+/// <summary>
+/// Orders and spend per day per project
+/// </summary>
+public class AnalyticsTimelinePoint
+{
+    public DateOnly Date { get; set; }
+    public Guid ProjectId { get; set; }
+    public string ProjectName { get; set; } = string.Empty;
+    public int Orders { get; set; }
+    public decimal Spend { get; set; }
+}
+
+/// <summary>
+/// Weekly totals with week-over-week change (null when the previous week had no data)
+/// </summary>
+public class AnalyticsWeekPoint
+{
+    public DateOnly WeekStart { get; set; }
+    public int Orders { get; set; }
+    public decimal Spend { get; set; }
+    public decimal? OrdersChangePercent { get; set; }
+    public decimal? SpendChangePercent { get; set; }
+}
+
+public class AnalyticsEmployeeStat
+{
+    public Guid EmployeeId { get; set; }
+    public string FullName { get; set; } = string.Empty;
+    public string? ProjectName { get; set; }
+    public int Orders { get; set; }
+    public decimal Spend { get; set; }
+}
+
+public class AnalyticsComboStat
+{
+    public string ComboType { get; set; } = string.Empty;
+    public int Orders { get; set; }
+    public decimal Spend { get; set; }
+}
+
+/// <summary>
+/// Lunch orders vs compensation (company-paid part of partner bills)
+/// </summary>
+public class AnalyticsServiceMix
+{
+    public int LunchOrders { get; set; }
+    public decimal LunchSpend { get; set; }
+    public int CompensationTransactions { get; set; }
+    public decimal CompensationSpend { get; set; }
+}
@@ -0,0 +1,16 @@
+using YallaBusinessAdmin.Application.Analytics.Dtos;
+
+namespace YallaBusinessAdmin.Application.Analytics;
+
+public interface IAnalyticsService
+{
+    /// <summary>
+    /// Gets aggregated analytics for the period (inclusive), optionally limited to one project
+    /// </summary>
+    Task<AnalyticsResponse> GetAnalyticsAsync(
+        Guid companyId,
+        DateOnly from,
+        DateOnly to,
+        Guid? projectId,
+        CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,68 @@
+using System.Text.Json;
+
+namespace YallaBusinessAdmin.Application.Audit.Dtos;
+
+/// <summary>
+/// Filters for the audit trail; all fields are optional
+/// </summary>
+public class AuditLogFilter
+{
+    public Guid? UserId { get; set; }
+    public string? EntityType { get; set; }
+
+    /// <summary>Any entry about this entity, regardless of type (e.g. EMPLOYEE and BUDGET rows of one employee)</summary>
+    public Guid? EntityId { get; set; }
+
+    public string? Action { get; set; }
+
+    /// <summary>Inclusive lower bound, UTC</summary>
+    public DateTime? From { get; set; }
+
+    /// <summary>Exclusive upper bound, UTC</summary>
+    public DateTime? To { get; set; }
+}
+
+public class AuditLogResponse
+{
+    public Guid Id { get; set; }
+    public Guid? UserId { get; set; }
+
+    /// <summary>Null for system actions (background jobs, failed logins of unknown users)</summary>
+    public string? UserName { get; set; }
+
+    public string Action { get; set; } = string.Empty;
+    public string EntityType { get; set; } = string.Empty;
+    public Guid? EntityId { get; set; }
+
+    /// <summary>Employee, project or user name when the entity still exists</summary>
+    public string? EntityName { get; set; }
+
+    /// <summary>Stored JSON as-is; the client builds the field-level diff</summary>
+    public JsonElement? OldValues { get; set; }
+    public JsonElement? NewValues { get; set; }
+
+    public string? IpAddress { get; set; }
+    public string? UserAgent { get; set; }
+
+    /// <summary>Set when the action was made by a SUPER_ADMIN impersonating the user</summary>
+    public Guid? ImpersonatedBy { get; set; }
+    public string? ImpersonatorName { get; set; }
+
+    public DateTime CreatedAt { get; set; }
+}
+
+/// <summary>
+/// Values available in the audit trail filters
+/// </summary>
+public class AuditLogFilterOptionsResponse
+{
+    public List<AuditLogUserOption> Users { get; set; } = new();
+    public List<string> EntityTypes { get; set; } = new();
+    public List<string> Actions { get; set; } = new();
+}
+
+public class AuditLogUserOption
+{
+    public Guid Id { get; set; }
+    public string FullName { get; set; } = string.Empty;
+}
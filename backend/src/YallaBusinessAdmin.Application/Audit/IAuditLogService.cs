@@ -0,0 +1,32 @@
+using YallaBusinessAdmin.Application.Audit.Dtos;
+using YallaBusinessAdmin.Application.Common.Models;
+
+namespace YallaBusinessAdmin.Application.Audit;
+
+/// <summary>
+/// Read side of the audit trail. Writing stays in <see cref="IAuditService"/>.
+/// </summary>
+public interface IAuditLogService
+{
+    /// <summary>
+    /// Gets audit entries of the company, newest first.
+    /// An entry belongs to the company when its author is a company admin
+    /// or its entity is a company employee or project (covers system changes).
+    /// With a project only entries about that project, its employees and admins remain.
+    /// </summary>
+    Task<PagedResult<AuditLogResponse>> GetAllAsync(
+        Guid companyId,
+        Guid? projectId,
+        AuditLogFilter filter,
+        int page,
+        int pageSize,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Gets authors, entity types and actions that occur in the company's audit trail
+    /// </summary>
+    Task<AuditLogFilterOptionsResponse> GetFilterOptionsAsync(
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken = default);
+}
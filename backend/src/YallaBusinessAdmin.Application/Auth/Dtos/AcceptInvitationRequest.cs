@@ -0,0 +1,7 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+public class AcceptInvitationRequest
+{
+    public string Token { get; set; } = string.Empty;
+    public string Password { get; set; } = string.Empty;
+}
@@ -0,0 +1,9 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+public class DisableTwoFactorRequest
+{
+    public string Password { get; set; } = string.Empty;
+
+    /// <summary>Code from the authenticator app or a backup code</summary>
+    public string Code { get; set; } = string.Empty;
+}
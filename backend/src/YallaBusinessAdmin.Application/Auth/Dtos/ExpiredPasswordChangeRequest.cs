@@ -0,0 +1,10 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+/// <summary>
+/// Login step for an expired password: the challenge token from /auth/login and the new password
+/// </summary>
+public class ExpiredPasswordChangeRequest
+{
+    public string ChallengeToken { get; set; } = string.Empty;
+    public string NewPassword { get; set; } = string.Empty;
+}
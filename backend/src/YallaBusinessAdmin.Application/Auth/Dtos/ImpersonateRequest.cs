@@ -0,0 +1,7 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+public class ImpersonateRequest
+{
+    /// <summary>Why the SUPER_ADMIN needs to act as this user (support ticket, request from the client)</summary>
+    public string Reason { get; set; } = string.Empty;
+}
@@ -0,0 +1,24 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+/// <summary>
+/// One entry of the impersonation history: who acted as whom, why and for how long
+/// </summary>
+public class ImpersonationSessionDto
+{
+    public Guid Id { get; set; }
+    public Guid ImpersonatorId { get; set; }
+    public string ImpersonatorName { get; set; } = string.Empty;
+    public Guid TargetUserId { get; set; }
+    public string TargetUserName { get; set; } = string.Empty;
+    public string? TargetCompanyName { get; set; }
+    public string Reason { get; set; } = string.Empty;
+    public DateTime StartedAt { get; set; }
+    public DateTime ExpiresAt { get; set; }
+    public DateTime? EndedAt { get; set; }
+
+    /// <summary>ACTIVE, ENDED (returned to own account) or EXPIRED (ran out of time)</summary>
+    public string Status { get; set; } = string.Empty;
+
+    /// <summary>Audit entries written on behalf of the target user during the session</summary>
+    public int ActionsCount { get; set; }
+}
@@ -0,0 +1,12 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+/// <summary>
+/// Shown on the set-password page before the invitee picks a password
+/// </summary>
+public class InvitationInfoResponse
+{
+    public string FullName { get; set; } = string.Empty;
+    public string Phone { get; set; } = string.Empty;
+    public string CompanyName { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+}
@@ -10,6 +10,18 @@ public class LoginResponse
     // Impersonation info
     public bool IsImpersonating { get; set; }
     public Guid? ImpersonatedBy { get; set; }
+    public long? ImpersonationExpiresAt { get; set; }
+    public string? ImpersonationReason { get; set; }
+
+    // Two-factor challenge: the password was correct, no tokens are issued until
+    // the code is sent to /auth/login/2fa together with this challenge token
+    public bool RequiresTwoFactor { get; set; }
+    public string? TwoFactorChallengeToken { get; set; }
+
+    // Password expired (PasswordPolicy:MaxAgeDays): no tokens until a new password is sent
+    // to /auth/login/password-change together with this challenge token
+    public bool RequiresPasswordChange { get; set; }
+    public string? PasswordChangeToken { get; set; }
 }
 
 public class UserDto
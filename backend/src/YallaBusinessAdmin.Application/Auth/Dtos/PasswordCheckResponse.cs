@@ -0,0 +1,43 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+/// <summary>
+/// Result of /auth/validate-password, used by the password strength meter
+/// </summary>
+public class PasswordCheckResponse
+{
+    public bool IsValid { get; set; }
+    public IEnumerable<string> Errors { get; set; } = Enumerable.Empty<string>();
+    public int Strength { get; set; }
+    public string StrengthLabel { get; set; } = string.Empty;
+    public IEnumerable<PasswordRuleDto> Rules { get; set; } = Enumerable.Empty<PasswordRuleDto>();
+
+    /// <summary>
+    /// True if found in known breaches, false if not, null if not checked
+    /// (rules not met yet, check turned off or breach database unreachable)
+    /// </summary>
+    public bool? Breached { get; set; }
+
+    public PasswordRequirementsDto Requirements { get; set; } = new();
+}
+
+public class PasswordRuleDto
+{
+    public string Code { get; set; } = string.Empty;
+    public string Label { get; set; } = string.Empty;
+    public bool Passed { get; set; }
+}
+
+public class PasswordRequirementsDto
+{
+    public int MinLength { get; set; }
+    public int MaxLength { get; set; }
+    public bool RequireUppercase { get; set; } = true;
+    public bool RequireLowercase { get; set; } = true;
+    public bool RequireDigit { get; set; } = true;
+    public bool RequireSpecialChar { get; set; } = true;
+
+    /// <summary>
+    /// Days until a password must be changed; 0 when passwords never expire
+    /// </summary>
+    public int MaxAgeDays { get; set; }
+}
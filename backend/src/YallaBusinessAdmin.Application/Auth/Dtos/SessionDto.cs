@@ -0,0 +1,15 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+/// <summary>
+/// An active login of the current user (one refresh token chain per device)
+/// </summary>
+public class SessionDto
+{
+    public Guid Id { get; set; }
+    public string? DeviceInfo { get; set; }
+    public string? IpAddress { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime LastActivityAt { get; set; }
+    public DateTime ExpiresAt { get; set; }
+    public bool IsCurrent { get; set; }
+}
@@ -0,0 +1,9 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+/// <summary>
+/// One-time backup codes. Only hashes are stored, so they are shown once
+/// </summary>
+public class TwoFactorBackupCodesResponse
+{
+    public IReadOnlyList<string> BackupCodes { get; set; } = Array.Empty<string>();
+}
@@ -0,0 +1,6 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+public class TwoFactorCodeRequest
+{
+    public string Code { get; set; } = string.Empty;
+}
@@ -0,0 +1,10 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+/// <summary>
+/// Second login step: the challenge token from /auth/login and a code from the authenticator app or a backup code
+/// </summary>
+public class TwoFactorLoginRequest
+{
+    public string ChallengeToken { get; set; } = string.Empty;
+    public string Code { get; set; } = string.Empty;
+}
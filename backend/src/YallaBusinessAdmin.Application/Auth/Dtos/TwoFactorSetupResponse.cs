@@ -0,0 +1,12 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+/// <summary>
+/// Enrollment data for the authenticator app. 2FA stays off until a code is confirmed
+/// </summary>
+public class TwoFactorSetupResponse
+{
+    /// <summary>Base32 secret for manual entry</summary>
+    public string Secret { get; set; } = string.Empty;
+    public string OtpAuthUri { get; set; } = string.Empty;
+    public string QrCodeDataUri { get; set; } = string.Empty;
+}
@@ -0,0 +1,8 @@
+namespace YallaBusinessAdmin.Application.Auth.Dtos;
+
+public class TwoFactorStatusDto
+{
+    public bool Enabled { get; set; }
+    public DateTime? EnabledAt { get; set; }
+    public int BackupCodesRemaining { get; set; }
+}
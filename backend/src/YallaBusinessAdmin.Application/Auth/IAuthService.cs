@@ -1,10 +1,21 @@
 using YallaBusinessAdmin.Application.Auth.Dtos;
+using YallaBusinessAdmin.Application.Common.Models;
 
 namespace YallaBusinessAdmin.Application.Auth;
 
 public interface IAuthService
 {
     Task<LoginResponse> LoginAsync(LoginRequest request, string? ipAddress = null, string? userAgent = null, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Second login step for users with 2FA: exchange the challenge token and a code for tokens
+    /// </summary>
+    Task<LoginResponse> LoginWithTwoFactorAsync(TwoFactorLoginRequest request, string? ipAddress = null, string? userAgent = null, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Login step for an expired password: set a new one with the challenge token and receive tokens
+    /// </summary>
+    Task<LoginResponse> ChangeExpiredPasswordAsync(ExpiredPasswordChangeRequest request, string? ipAddress = null, string? userAgent = null, CancellationToken cancellationToken = default);
     Task<LoginResponse> RefreshTokenAsync(RefreshTokenRequest request, string? ipAddress = null, CancellationToken cancellationToken = default);
     Task LogoutAsync(Guid userId, string? refreshToken = null, CancellationToken cancellationToken = default);
     Task<object> ForgotPasswordAsync(ForgotPasswordRequest request, CancellationToken cancellationToken = default);
@@ -12,15 +23,41 @@ public interface IAuthService
     Task<object> ChangePasswordAsync(Guid userId, ChangePasswordRequest request, string? ipAddress = null, CancellationToken cancellationToken = default);
     Task<UserDto> UpdateProfileAsync(Guid userId, UpdateProfileRequest request, CancellationToken cancellationToken = default);
     Task<CurrentUserResponse> GetCurrentUserAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// List active sessions of the user; the one matching currentRefreshToken is flagged as current
+    /// </summary>
+    Task<IReadOnlyList<SessionDto>> GetSessionsAsync(Guid userId, string? currentRefreshToken, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Whether a login session still has a usable refresh token; access tokens of ended sessions are rejected
+    /// </summary>
+    Task<bool> IsSessionActiveAsync(Guid sessionId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Revoke one session of the user. Returns true if it was the current session
+    /// </summary>
+    Task<bool> RevokeSessionAsync(Guid userId, Guid sessionId, string? currentRefreshToken, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Revoke every session of the user except the current one. Returns the number revoked
+    /// </summary>
+    Task<int> RevokeOtherSessionsAsync(Guid userId, string? currentRefreshToken, CancellationToken cancellationToken = default);
     
     /// <summary>
-    /// Impersonate another user (SUPER_ADMIN only)
+    /// Impersonate another user (SUPER_ADMIN only). The session requires a reason
+    /// and expires after the configured duration (Impersonation:DurationMinutes)
     /// </summary>
-    Task<LoginResponse> ImpersonateAsync(Guid targetUserId, Guid impersonatorId, string? ipAddress = null, string? userAgent = null, CancellationToken cancellationToken = default);
+    Task<LoginResponse> ImpersonateAsync(Guid targetUserId, Guid impersonatorId, string reason, string? ipAddress = null, string? userAgent = null, CancellationToken cancellationToken = default);
     
     /// <summary>
     /// Stop impersonating and return fresh tokens for the original user
     /// </summary>
     Task<LoginResponse> StopImpersonatingAsync(Guid impersonatorId, Guid impersonatedUserId, string? ipAddress = null, string? userAgent = null, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Impersonation sessions of all SUPER_ADMINs, newest first
+    /// </summary>
+    Task<PagedResult<ImpersonationSessionDto>> GetImpersonationHistoryAsync(int page, int pageSize, CancellationToken cancellationToken = default);
 }
 
@@ -0,0 +1,26 @@
+using YallaBusinessAdmin.Application.Auth.Dtos;
+using YallaBusinessAdmin.Domain.Entities;
+
+namespace YallaBusinessAdmin.Application.Auth;
+
+/// <summary>
+/// Password rules shared by every place a password is set: complexity, breached passwords and expiry
+/// </summary>
+public interface IPasswordPolicyService
+{
+    /// <summary>
+    /// Per-rule feedback and strength for a password being typed. The breach database
+    /// is only queried once the complexity rules pass
+    /// </summary>
+    Task<PasswordCheckResponse> CheckAsync(string password, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Throw AUTH_PASSWORD_WEAK or AUTH_PASSWORD_BREACHED if the password cannot be set
+    /// </summary>
+    Task EnsureAcceptableAsync(string password, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Whether the password is older than PasswordPolicy:MaxAgeDays (never, when that is 0)
+    /// </summary>
+    bool IsExpired(AdminUser user);
+}
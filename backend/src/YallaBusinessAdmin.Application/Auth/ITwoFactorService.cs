@@ -0,0 +1,42 @@
+using YallaBusinessAdmin.Application.Auth.Dtos;
+using YallaBusinessAdmin.Domain.Entities;
+
+namespace YallaBusinessAdmin.Application.Auth;
+
+/// <summary>
+/// TOTP two-factor authentication: enrollment, backup codes and login verification
+/// </summary>
+public interface ITwoFactorService
+{
+    Task<TwoFactorStatusDto> GetStatusAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Generate a new secret for the authenticator app. Replaces an unconfirmed one
+    /// </summary>
+    Task<TwoFactorSetupResponse> BeginSetupAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Confirm the setup with a code from the app and turn 2FA on. Returns the backup codes
+    /// </summary>
+    Task<TwoFactorBackupCodesResponse> EnableAsync(Guid userId, string code, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Turn 2FA off. Requires the password and a code (or a backup code)
+    /// </summary>
+    Task DisableAsync(Guid userId, string password, string code, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Replace all backup codes. Requires a code from the app
+    /// </summary>
+    Task<TwoFactorBackupCodesResponse> RegenerateBackupCodesAsync(Guid userId, string code, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Turn 2FA off for a user who lost their device (SUPER_ADMIN only)
+    /// </summary>
+    Task ResetAsync(Guid userId, Guid resetById, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Check a login code: a TOTP code or an unused backup code, which is then spent
+    /// </summary>
+    Task<bool> VerifyLoginCodeAsync(AdminUser user, string code, CancellationToken cancellationToken = default);
+}
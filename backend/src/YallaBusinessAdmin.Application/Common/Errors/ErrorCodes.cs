@@ -17,8 +17,11 @@ public static class ErrorCodes
     public const string AUTH_UNAUTHORIZED = "AUTH_UNAUTHORIZED";
     public const string AUTH_FORBIDDEN = "AUTH_FORBIDDEN";
     public const string AUTH_IMPERSONATION_NOT_ALLOWED = "AUTH_IMPERSONATION_NOT_ALLOWED";
+    public const string AUTH_COMPANY_VIEW_READ_ONLY = "AUTH_COMPANY_VIEW_READ_ONLY";
     public const string AUTH_PASSWORD_MISMATCH = "AUTH_PASSWORD_MISMATCH";
     public const string AUTH_PASSWORD_WEAK = "AUTH_PASSWORD_WEAK";
+    public const string AUTH_PASSWORD_BREACHED = "AUTH_PASSWORD_BREACHED";
+    public const string AUTH_PASSWORD_REUSED = "AUTH_PASSWORD_REUSED";
 
     // ═══════════════════════════════════════════════════════════════
     // User Errors (USER_*)
@@ -117,8 +120,11 @@ public static class ErrorMessages
         [ErrorCodes.AUTH_UNAUTHORIZED] = "Требуется авторизация",
         [ErrorCodes.AUTH_FORBIDDEN] = "Доступ запрещён",
         [ErrorCodes.AUTH_IMPERSONATION_NOT_ALLOWED] = "Имперсонация доступна только для SUPER_ADMIN",
+        [ErrorCodes.AUTH_COMPANY_VIEW_READ_ONLY] = "В режиме просмотра компании изменения недоступны",
         [ErrorCodes.AUTH_PASSWORD_MISMATCH] = "Неверный текущий пароль",
-        [ErrorCodes.AUTH_PASSWORD_WEAK] = "Пароль слишком слабый. Минимум 6 символов",
+        [ErrorCodes.AUTH_PASSWORD_WEAK] = "Пароль слишком слабый. Минимум 8 символов, заглавная и строчная буквы, цифра и спецсимвол",
+        [ErrorCodes.AUTH_PASSWORD_BREACHED] = "Этот пароль встречается в утечках данных. Выберите другой",
+        [ErrorCodes.AUTH_PASSWORD_REUSED] = "Новый пароль должен отличаться от текущего",
 
         // User
         [ErrorCodes.USER_NOT_FOUND] = "Пользователь не найден",
@@ -199,6 +205,7 @@ public static class ErrorActions
         [ErrorCodes.AUTH_INVALID_CREDENTIALS] = "Проверьте введённые данные или воспользуйтесь функцией восстановления пароля",
         [ErrorCodes.AUTH_USER_BLOCKED] = "Свяжитесь с администратором для разблокировки аккаунта",
         [ErrorCodes.AUTH_TOKEN_EXPIRED] = "Войдите в систему заново",
+        [ErrorCodes.AUTH_PASSWORD_BREACHED] = "Придумайте новый пароль, который вы нигде раньше не использовали",
         [ErrorCodes.BUDGET_INSUFFICIENT] = "Обратитесь к администратору для пополнения бюджета",
         [ErrorCodes.FREEZE_LIMIT_EXCEEDED] = "Дождитесь следующей недели для использования заморозок",
         [ErrorCodes.ORDER_CUTOFF_PASSED] = "Изменения заказов возможны только до указанного времени",
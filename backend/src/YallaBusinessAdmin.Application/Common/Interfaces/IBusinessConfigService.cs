@@ -42,6 +42,9 @@ public static class ConfigKeys
     public const string OrderCutoffOffsetHours = "order.cutoff_offset_hours";
     public const string BudgetAllowOverdraft = "budget.allow_overdraft";
     public const string ComboPrices = "combo.prices";
+
+    /// <summary>Per-project override of <see cref="SubscriptionMinDays"/></summary>
+    public static string ProjectSubscriptionMinDays(Guid projectId) => $"{SubscriptionMinDays}.{projectId}";
 }
 
 
@@ -17,6 +17,11 @@ public interface IEmailService
     /// </summary>
     Task<bool> SendPasswordResetEmailAsync(string to, string name, string resetUrl, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Send an invitation with a set-password link to a new admin user
+    /// </summary>
+    Task<bool> SendAdminInviteEmailAsync(string to, string name, string companyName, string inviteUrl, DateTime expiresAt, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Send employee invitation email
     /// </summary>
@@ -7,7 +7,22 @@ namespace YallaBusinessAdmin.Application.Common.Interfaces;
 /// </summary>
 public interface IJwtService
 {
-    string GenerateToken(AdminUser user, Guid? impersonatedBy = null);
+    /// <param name="expiresAt">Overrides the configured lifetime, e.g. to end with an impersonation session.</param>
+    /// <param name="sessionId">Login session (refresh token chain); the token is rejected once the session is revoked.</param>
+    string GenerateToken(AdminUser user, Guid? impersonatedBy = null, DateTime? expiresAt = null, Guid? sessionId = null);
     (Guid userId, Guid companyId)? ValidateToken(string token);
+
+    /// <summary>
+    /// Short-lived token proving the password step of a two-factor login.
+    /// Issued for a separate audience, so it is never accepted as an access token.
+    /// </summary>
+    string GenerateTwoFactorChallengeToken(Guid userId);
+    Guid? ValidateTwoFactorChallengeToken(string token);
+
+    /// <summary>
+    /// Short-lived token allowing a user with an expired password to set a new one at login.
+    /// </summary>
+    string GeneratePasswordChangeToken(Guid userId);
+    Guid? ValidatePasswordChangeToken(string token);
 }
 
@@ -0,0 +1,10 @@
+namespace YallaBusinessAdmin.Application.Common.Interfaces;
+
+public interface IPasswordBreachChecker
+{
+    /// <summary>
+    /// How many times the password appears in known data breaches (0 = never seen).
+    /// Returns null when the check is turned off or the breach database is unreachable
+    /// </summary>
+    Task<int?> GetBreachCountAsync(string password, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,37 @@
+using System.Threading.Channels;
+using YallaBusinessAdmin.Application.Common.Models;
+
+namespace YallaBusinessAdmin.Application.Common.Interfaces;
+
+/// <summary>
+/// In-process pub/sub for realtime change notifications.
+/// Services and background jobs publish after committing; the stream endpoint
+/// subscribes one reader per connected client.
+/// </summary>
+public interface IRealtimeEventHub
+{
+    /// <summary>
+    /// Publish an event to every subscriber of the event's company (and project).
+    /// Never blocks: slow subscribers drop their oldest pending events.
+    /// </summary>
+    void Publish(RealtimeEvent realtimeEvent);
+
+    /// <summary>
+    /// Subscribe to events of a company, optionally narrowed to one project.
+    /// Dispose the subscription when the client disconnects.
+    /// </summary>
+    /// <param name="companyId">Company to receive events for</param>
+    /// <param name="projectId">Project scope; null receives all projects of the company</param>
+    IRealtimeSubscription Subscribe(Guid companyId, Guid? projectId);
+}
+
+/// <summary>
+/// Single client subscription to <see cref="IRealtimeEventHub"/>.
+/// </summary>
+public interface IRealtimeSubscription : IDisposable
+{
+    /// <summary>
+    /// Pending events for this subscriber.
+    /// </summary>
+    ChannelReader<RealtimeEvent> Reader { get; }
+}
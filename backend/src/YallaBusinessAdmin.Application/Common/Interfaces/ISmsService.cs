@@ -0,0 +1,9 @@
+namespace YallaBusinessAdmin.Application.Common.Interfaces;
+
+public interface ISmsService
+{
+    /// <summary>
+    /// Send a text message. Returns false when the gateway is not configured or rejects it
+    /// </summary>
+    Task<bool> SendSmsAsync(string phone, string message, CancellationToken cancellationToken = default);
+}
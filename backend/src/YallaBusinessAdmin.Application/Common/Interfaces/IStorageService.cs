@@ -26,7 +26,14 @@ public interface IStorageService
     /// List files in a folder
     /// </summary>
     Task<IEnumerable<StorageFile>> ListFilesAsync(string bucket, string path, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Download file content by its storage URL (public or private)
+    /// </summary>
+    Task<StorageFileContent> DownloadAsync(string fileUrl, CancellationToken cancellationToken = default);
 }
 
 public record StorageFile(string Name, string Url, long Size, DateTime CreatedAt);
 
+public record StorageFileContent(Stream Content, string ContentType);
+
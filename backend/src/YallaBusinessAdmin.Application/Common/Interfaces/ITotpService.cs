@@ -0,0 +1,22 @@
+namespace YallaBusinessAdmin.Application.Common.Interfaces;
+
+/// <summary>
+/// Time-based one-time passwords (RFC 6238) for authenticator apps.
+/// </summary>
+public interface ITotpService
+{
+    /// <summary>New random Base32 secret.</summary>
+    string GenerateSecret();
+
+    /// <summary>otpauth:// URI understood by Google Authenticator, 1Password, etc.</summary>
+    string GetProvisioningUri(string secret, string issuer, string accountName);
+
+    /// <summary>QR code for the given content as an SVG data URI.</summary>
+    string GetQrCodeDataUri(string content);
+
+    /// <summary>
+    /// Checks a 6-digit code against the secret. Returns the matched time step,
+    /// or null if the code is wrong or its step is not after lastUsedStep.
+    /// </summary>
+    long? VerifyCode(string secret, string code, long? lastUsedStep = null);
+}
@@ -0,0 +1,56 @@
+namespace YallaBusinessAdmin.Application.Common.Models;
+
+/// <summary>
+/// Change notification pushed to connected admin panels over the realtime stream.
+/// Carries only identifiers and the new state; clients refetch anything else.
+/// </summary>
+public class RealtimeEvent
+{
+    /// <summary>Event type, one of <see cref="RealtimeEventTypes"/>.</summary>
+    public string Type { get; set; } = string.Empty;
+
+    /// <summary>Company the change belongs to (used for routing, not sent to other companies).</summary>
+    public Guid CompanyId { get; set; }
+
+    /// <summary>Project the change belongs to; null for company-wide changes.</summary>
+    public Guid? ProjectId { get; set; }
+
+    /// <summary>Affected orders, subscriptions, employees or invoices.</summary>
+    public IReadOnlyList<Guid> EntityIds { get; set; } = Array.Empty<Guid>();
+
+    /// <summary>New status in Russian when all affected entities share it.</summary>
+    public string? Status { get; set; }
+
+    /// <summary>New combo type after a combo change.</summary>
+    public string? ComboType { get; set; }
+
+    /// <summary>Business date the change applies to, yyyy-MM-dd.</summary>
+    public string? Date { get; set; }
+
+    /// <summary>Budget balance after the change (budget events only): the project's, or the company's when ProjectId is null.</summary>
+    public decimal? Balance { get; set; }
+
+    /// <summary>When the change was committed (UTC).</summary>
+    public DateTime OccurredAt { get; set; } = DateTime.UtcNow;
+}
+
+/// <summary>
+/// Realtime event type names. Kept in sync with the frontend realtime bridge.
+/// </summary>
+public static class RealtimeEventTypes
+{
+    /// <summary>Orders created, paused, resumed, cancelled or re-comboed by an admin.</summary>
+    public const string OrdersChanged = "orders.changed";
+
+    /// <summary>Daily orders generated from lunch subscriptions.</summary>
+    public const string OrdersGenerated = "orders.generated";
+
+    /// <summary>Today's active orders completed by the end-of-day settlement.</summary>
+    public const string OrdersSettled = "orders.settled";
+
+    /// <summary>Lunch subscriptions paused or resumed.</summary>
+    public const string SubscriptionsChanged = "subscriptions.changed";
+
+    /// <summary>Project or company budget changed, or employee budgets were updated.</summary>
+    public const string BudgetChanged = "budget.changed";
+}
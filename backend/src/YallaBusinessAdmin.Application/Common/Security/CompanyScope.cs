@@ -0,0 +1,24 @@
+namespace YallaBusinessAdmin.Application.Common.Security;
+
+/// <summary>
+/// "View as company" mode: a SUPER_ADMIN sends the chosen company in a request header
+/// and every company-scoped query runs against it instead of the company_id claim.
+/// The mode is read-only and keeps the SUPER_ADMIN's own identity (unlike impersonation).
+/// </summary>
+public static class CompanyScope
+{
+    /// <summary>Request header with the viewed company ID</summary>
+    public const string HeaderName = "X-Company-Id";
+
+    /// <summary>Only SUPER_ADMIN may switch the company scope</summary>
+    public const string AllowedRole = "SUPER_ADMIN";
+
+    /// <summary>
+    /// Parses the viewed company from the header value.
+    /// </summary>
+    /// <returns>The company ID, or null when the header is missing or malformed.</returns>
+    public static Guid? Parse(string? headerValue)
+    {
+        return Guid.TryParse(headerValue, out var companyId) ? companyId : null;
+    }
+}
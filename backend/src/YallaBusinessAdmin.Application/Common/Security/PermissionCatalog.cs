@@ -0,0 +1,167 @@
+namespace YallaBusinessAdmin.Application.Common.Security;
+
+/// <summary>
+/// Action-level permissions stored in user_permissions.route next to page routes.
+/// <para>
+/// Stored formats:
+/// <list type="bullet">
+/// <item>"employees" — legacy page access, grants the page and every action of its group</item>
+/// <item>"employees:view" — page access only</item>
+/// <item>"employees:edit" — a single action (implies page access of its group)</item>
+/// </list>
+/// </para>
+/// </summary>
+public static class PermissionCatalog
+{
+    /// <summary>JWT claim that carries effective permissions</summary>
+    public const string ClaimType = "permission";
+
+    public const string ViewSuffix = ":view";
+
+    // Home
+    public const string OrdersCreate = "orders:create";
+    public const string OrdersBulk = "orders:bulk";
+
+    // Employees
+    public const string EmployeesCreate = "employees:create";
+    public const string EmployeesEdit = "employees:edit";
+    public const string EmployeesBudget = "employees:budget";
+    public const string SubscriptionsManage = "subscriptions:manage";
+    public const string SubscriptionsCancel = "subscriptions:cancel";
+
+    // Projects
+    public const string ProjectsSettings = "projects:settings";
+
+    // Users
+    public const string UsersManage = "users:manage";
+
+    // Payments
+    public const string PaymentsPay = "payments:pay";
+
+    // Audit (page access is enough to read the trail)
+    public const string AuditView = "audit" + ViewSuffix;
+
+    /// <summary>Role names of company admins; older records use several spellings</summary>
+    public static readonly IReadOnlySet<string> AdminRoles = new HashSet<string> { "admin", "Admin", "ADMIN", "Администратор" };
+
+    public static bool IsAdminRole(string? role) => role != null && AdminRoles.Contains(role);
+
+    /// <summary>Permission matrix: one group per page, in menu order</summary>
+    public static readonly IReadOnlyList<PermissionGroup> Groups = new[]
+    {
+        new PermissionGroup("home", "Главная", new[]
+        {
+            new PermissionAction(OrdersCreate, "Гостевые заказы"),
+            new PermissionAction(OrdersBulk, "Пауза, возобновление и отмена заказов")
+        }),
+        new PermissionGroup("employees", "Сотрудники", new[]
+        {
+            new PermissionAction(EmployeesCreate, "Добавление сотрудников"),
+            new PermissionAction(EmployeesEdit, "Редактирование, деактивация и удаление"),
+            new PermissionAction(EmployeesBudget, "Изменение бюджета"),
+            new PermissionAction(SubscriptionsManage, "Назначение обедов и компенсации"),
+            new PermissionAction(SubscriptionsCancel, "Отмена услуг")
+        }),
+        new PermissionGroup("users", "Пользователи", new[]
+        {
+            new PermissionAction(UsersManage, "Создание и изменение пользователей")
+        }),
+        new PermissionGroup("projects", "Проекты", new[]
+        {
+            new PermissionAction(ProjectsSettings, "Настройки проекта")
+        }),
+        new PermissionGroup("payments", "Оплаты", new[]
+        {
+            new PermissionAction(PaymentsPay, "Отметка счетов как оплаченных")
+        }),
+        new PermissionGroup("analytics", "Аналитика", Array.Empty<PermissionAction>()),
+        new PermissionGroup("meals", "Питание", Array.Empty<PermissionAction>()),
+        new PermissionGroup("news", "Новости", Array.Empty<PermissionAction>()),
+        new PermissionGroup("audit", "Журнал изменений", Array.Empty<PermissionAction>())
+    };
+
+    /// <summary>Page routes (legacy full-access format)</summary>
+    public static IEnumerable<string> Routes => Groups.Select(g => g.Route);
+
+    public static bool IsAction(string permission) =>
+        permission.Contains(':') && !permission.EndsWith(ViewSuffix, StringComparison.Ordinal);
+
+    /// <summary>
+    /// Keeps only known permissions. Every granted action also grants the page of its group.
+    /// </summary>
+    public static IReadOnlyCollection<string> Normalize(IEnumerable<string> permissions)
+    {
+        var result = new HashSet<string>();
+
+        foreach (var permission in permissions)
+        {
+            var group = FindGroup(permission);
+            if (group == null)
+                continue;
+
+            result.Add(permission);
+            if (IsAction(permission) && !result.Contains(group.Route))
+                result.Add(group.Route + ViewSuffix);
+        }
+
+        // "employees" already includes "employees:view"
+        result.RemoveWhere(p => p.EndsWith(ViewSuffix, StringComparison.Ordinal) && result.Contains(p[..^ViewSuffix.Length]));
+
+        return result;
+    }
+
+    /// <summary>
+    /// Effective permissions: page routes (for menu checks), "route:view" entries and actions.
+    /// Legacy page entries expand to every action of the group.
+    /// </summary>
+    public static IReadOnlyCollection<string> Expand(IEnumerable<string> stored)
+    {
+        var result = new HashSet<string>();
+
+        foreach (var permission in stored)
+        {
+            var group = FindGroup(permission);
+            if (group == null)
+                continue;
+
+            result.Add(group.Route);
+            result.Add(group.Route + ViewSuffix);
+
+            if (permission == group.Route)
+            {
+                foreach (var action in group.Actions)
+                    result.Add(action.Key);
+            }
+            else if (IsAction(permission))
+            {
+                result.Add(permission);
+            }
+        }
+
+        return result;
+    }
+
+    /// <summary>
+    /// Effective permissions of a role without stored ones, used for tokens issued
+    /// before permission claims existed. Managers always have the home page.
+    /// </summary>
+    public static IReadOnlyCollection<string> RoleDefaults(string? role)
+    {
+        if (IsAdminRole(role))
+            return Expand(Routes);
+
+        return role == "manager" ? Expand(new[] { "home" }) : Array.Empty<string>();
+    }
+
+    private static PermissionGroup? FindGroup(string permission)
+    {
+        return Groups.FirstOrDefault(g =>
+            permission == g.Route ||
+            permission == g.Route + ViewSuffix ||
+            g.Actions.Any(a => a.Key == permission));
+    }
+}
+
+public record PermissionGroup(string Route, string Label, IReadOnlyList<PermissionAction> Actions);
+
+public record PermissionAction(string Key, string Label);
@@ -17,79 +17,88 @@ public static class PasswordValidator
     /// </summary>
     public const int MaxLength = 128;
 
+    private static readonly Regex Uppercase = new(@"[A-ZА-ЯЁ]", RegexOptions.Compiled);
+    private static readonly Regex Lowercase = new(@"[a-zа-яё]", RegexOptions.Compiled);
+    private static readonly Regex Digit = new(@"\d", RegexOptions.Compiled);
+    private static readonly Regex Special = new(@"[!@#$%^&*()_+\-=\[\]{};':""\\|,.<>\/?~`]", RegexOptions.Compiled);
+
+    private static readonly string[] CommonPasswords =
+    {
+        "password", "123456", "12345678", "qwerty", "admin", "letmein",
+        "welcome", "monkey", "dragon", "master", "пароль", "йцукен"
+    };
+
     /// <summary>
     /// Validates password complexity and returns validation result
     /// </summary>
     public static PasswordValidationResult Validate(string password)
     {
-        var errors = new List<string>();
-
         if (string.IsNullOrWhiteSpace(password))
         {
             return new PasswordValidationResult(false, new[] { "Пароль не может быть пустым" });
         }
 
-        // Length check
-        if (password.Length < MinLength)
-        {
-            errors.Add($"Пароль должен быть не менее {MinLength} символов");
-        }
-
-        if (password.Length > MaxLength)
-        {
-            errors.Add($"Пароль должен быть не более {MaxLength} символов");
-        }
-
-        // Must contain at least one uppercase letter
-        if (!Regex.IsMatch(password, @"[A-ZА-ЯЁ]"))
-        {
-            errors.Add("Пароль должен содержать хотя бы одну заглавную букву");
-        }
-
-        // Must contain at least one lowercase letter
-        if (!Regex.IsMatch(password, @"[a-zа-яё]"))
-        {
-            errors.Add("Пароль должен содержать хотя бы одну строчную букву");
-        }
+        var errors = CheckRules(password)
+            .Where(r => !r.Passed)
+            .Select(r => r.Error)
+            .ToList();
 
-        // Must contain at least one digit
-        if (!Regex.IsMatch(password, @"\d"))
-        {
-            errors.Add("Пароль должен содержать хотя бы одну цифру");
-        }
-
-        // Must contain at least one special character
-        if (!Regex.IsMatch(password, @"[!@#$%^&*()_+\-=\[\]{};':""\\|,.<>\/?~`]"))
-        {
-            errors.Add("Пароль должен содержать хотя бы один специальный символ (!@#$%^&*...)");
-        }
+        return new PasswordValidationResult(errors.Count == 0, errors);
+    }
 
-        // Check for common weak passwords
+    /// <summary>
+    /// Evaluates every complexity rule separately, for per-rule feedback while typing
+    /// </summary>
+    public static IReadOnlyList<PasswordRuleResult> CheckRules(string password)
+    {
+        password ??= "";
         var lowercasePassword = password.ToLowerInvariant();
-        var commonPasswords = new[]
-        {
-            "password", "123456", "12345678", "qwerty", "admin", "letmein",
-            "welcome", "monkey", "dragon", "master", "пароль", "йцукен"
-        };
-
-        if (commonPasswords.Any(p => lowercasePassword.Contains(p)))
-        {
-            errors.Add("Пароль слишком простой. Используйте уникальную комбинацию");
-        }
 
-        // Check for sequential characters
-        if (HasSequentialCharacters(password, 4))
+        return new[]
         {
-            errors.Add("Пароль не должен содержать последовательности символов (1234, abcd)");
-        }
-
-        // Check for repeated characters
-        if (HasRepeatedCharacters(password, 3))
-        {
-            errors.Add("Пароль не должен содержать повторяющиеся символы (aaa, 111)");
-        }
-
-        return new PasswordValidationResult(errors.Count == 0, errors);
+            new PasswordRuleResult(
+                "length",
+                $"От {MinLength} до {MaxLength} символов",
+                password.Length >= MinLength && password.Length <= MaxLength,
+                password.Length > MaxLength
+                    ? $"Пароль должен быть не более {MaxLength} символов"
+                    : $"Пароль должен быть не менее {MinLength} символов"),
+            new PasswordRuleResult(
+                "uppercase",
+                "Заглавная буква",
+                Uppercase.IsMatch(password),
+                "Пароль должен содержать хотя бы одну заглавную букву"),
+            new PasswordRuleResult(
+                "lowercase",
+                "Строчная буква",
+                Lowercase.IsMatch(password),
+                "Пароль должен содержать хотя бы одну строчную букву"),
+            new PasswordRuleResult(
+                "digit",
+                "Цифра",
+                Digit.IsMatch(password),
+                "Пароль должен содержать хотя бы одну цифру"),
+            new PasswordRuleResult(
+                "special",
+                "Специальный символ (!@#$%^&*...)",
+                Special.IsMatch(password),
+                "Пароль должен содержать хотя бы один специальный символ (!@#$%^&*...)"),
+            new PasswordRuleResult(
+                "not_common",
+                "Не из списка простых паролей",
+                !CommonPasswords.Any(p => lowercasePassword.Contains(p)),
+                "Пароль слишком простой. Используйте уникальную комбинацию"),
+            new PasswordRuleResult(
+                "no_sequence",
+                "Без последовательностей (1234, abcd)",
+                !HasSequentialCharacters(password, 4),
+                "Пароль не должен содержать последовательности символов (1234, abcd)"),
+            new PasswordRuleResult(
+                "no_repeat",
+                "Без повторов (aaa, 111)",
+                !HasRepeatedCharacters(password, 3),
+                "Пароль не должен содержать повторяющиеся символы (aaa, 111)")
+        };
     }
 
     /// <summary>
@@ -100,10 +109,10 @@ public static class PasswordValidator
         if (string.IsNullOrWhiteSpace(password) || password.Length < MinLength)
             return false;
 
-        return Regex.IsMatch(password, @"[A-ZА-ЯЁ]") &&  // Uppercase
-               Regex.IsMatch(password, @"[a-zа-яё]") &&   // Lowercase
-               Regex.IsMatch(password, @"\d") &&          // Digit
-               Regex.IsMatch(password, @"[!@#$%^&*()_+\-=\[\]{};':""\\|,.<>\/?~`]"); // Special
+        return Uppercase.IsMatch(password) &&
+               Lowercase.IsMatch(password) &&
+               Digit.IsMatch(password) &&
+               Special.IsMatch(password);
     }
 
     /// <summary>
@@ -120,10 +129,10 @@ public static class PasswordValidator
         score += Math.Min(password.Length * 2, 30);
 
         // Character variety score (max 40)
-        if (Regex.IsMatch(password, @"[A-ZА-ЯЁ]")) score += 10;
-        if (Regex.IsMatch(password, @"[a-zа-яё]")) score += 10;
-        if (Regex.IsMatch(password, @"\d")) score += 10;
-        if (Regex.IsMatch(password, @"[!@#$%^&*()_+\-=\[\]{};':""\\|,.<>\/?~`]")) score += 10;
+        if (Uppercase.IsMatch(password)) score += 10;
+        if (Lowercase.IsMatch(password)) score += 10;
+        if (Digit.IsMatch(password)) score += 10;
+        if (Special.IsMatch(password)) score += 10;
 
         // Unique characters bonus (max 20)
         var uniqueChars = password.Distinct().Count();
@@ -194,3 +203,10 @@ public record PasswordValidationResult(bool IsValid, IEnumerable<string> Errors)
     public string ErrorMessage => string.Join(". ", Errors);
 }
 
+/// <summary>
+/// Outcome of a single complexity rule
+/// </summary>
+/// <param name="Code">Stable rule identifier (length, uppercase, ...)</param>
+/// <param name="Label">Short requirement text for checklists</param>
+/// <param name="Error">Full message used when the rule fails</param>
+public record PasswordRuleResult(string Code, string Label, bool Passed, string Error);
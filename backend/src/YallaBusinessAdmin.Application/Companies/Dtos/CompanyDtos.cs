@@ -4,9 +4,11 @@ public record CompanyListItem(
     Guid Id,
     string Name,
     decimal Budget,
+    string CurrencyCode,
     string Status,
     int ProjectsCount,
-    int EmployeesCount
+    int EmployeesCount,
+    int ActiveEmployeesCount
 );
 
 public record CompanyResponse(
@@ -28,7 +28,8 @@ public record CreateCompensationTransactionRequest(
     Guid ProjectId,
     decimal Amount,
     string? RestaurantName,
-    string? Description
+    string? Description,
+    Guid? PartnerId = null
 );
 
 public record CompensationTransactionResponse(
@@ -62,14 +63,52 @@ public record EmployeeDailySummary(
     int TransactionCount
 );
 
+/// <summary>
+/// Day-by-day compensation ledger of one employee.
+/// Carry-over is reconstructed from the transactions, starting from zero on FromDate.
+/// </summary>
+public record CompensationLedgerResponse(
+    Guid EmployeeId,
+    string EmployeeName,
+    string ProjectName,
+    string CurrencyCode,
+    string Timezone,
+    decimal DailyLimit,
+    bool RolloverEnabled,
+    DateOnly FromDate,
+    DateOnly ToDate,
+    int TotalTransactions,
+    decimal TotalAmount,
+    decimal TotalCompanyPaid,
+    decimal TotalEmployeePaid,
+    decimal ClosingCarryOver,
+    IEnumerable<CompensationLedgerDay> Days
+);
 
+public record CompensationLedgerDay(
+    DateOnly Date,
+    bool IsWorkingDay,
+    // Limit granted for this day (0 on days off)
+    decimal DailyLimit,
+    // Unused limit carried over from previous days
+    decimal CarriedIn,
+    decimal Available,
+    decimal CompanyPaid,
+    decimal EmployeePaid,
+    decimal Remaining,
+    // Part of Remaining that moves to the next day (0 without rollover)
+    decimal CarriedOut,
+    IEnumerable<CompensationLedgerEntry> Transactions
+);
 
-
-
-
-
-
-
-
-
-
+public record CompensationLedgerEntry(
+    Guid Id,
+    string? RestaurantName,
+    string? Description,
+    decimal Amount,
+    decimal CompanyPaid,
+    decimal EmployeePaid,
+    // Limit left for the day right after this transaction
+    decimal RemainingLimit,
+    DateTime TransactionTime
+);
@@ -9,10 +9,14 @@ namespace YallaBusinessAdmin.Application.Compensation;
 public interface ICompensationService
 {
     /// <summary>Get compensation settings for a project</summary>
-    Task<CompensationSettingsResponse> GetSettingsAsync(Guid projectId, CancellationToken cancellationToken = default);
+    Task<CompensationSettingsResponse> GetSettingsAsync(
+        Guid companyId,
+        Guid projectId, 
+        CancellationToken cancellationToken = default);
     
     /// <summary>Update compensation settings for a project</summary>
     Task<CompensationSettingsResponse> UpdateSettingsAsync(
+        Guid companyId,
         Guid projectId, 
         UpdateCompensationSettingsRequest request, 
         CancellationToken cancellationToken = default);
@@ -34,10 +38,24 @@ public interface ICompensationService
         DateOnly? toDate = null,
         CancellationToken cancellationToken = default);
     
-    /// <summary>Get daily summary of compensations for a project</summary>
+    /// <summary>
+    /// Get the day-by-day ledger of an employee: transactions with running remaining limit and carry-over.
+    /// Defaults to the current month of the project's timezone.
+    /// The employee must belong to the company (and to the project, when one is given).
+    /// </summary>
+    Task<CompensationLedgerResponse> GetLedgerAsync(
+        Guid companyId,
+        Guid? projectId,
+        Guid employeeId,
+        DateOnly? fromDate = null,
+        DateOnly? toDate = null,
+        CancellationToken cancellationToken = default);
+    
+    /// <summary>Get daily summary of compensations for a project (defaults to the project's local today)</summary>
     Task<DailyCompensationSummary> GetDailySummaryAsync(
+        Guid companyId,
         Guid projectId, 
-        DateOnly date, 
+        DateOnly? date, 
         CancellationToken cancellationToken = default);
 }
 
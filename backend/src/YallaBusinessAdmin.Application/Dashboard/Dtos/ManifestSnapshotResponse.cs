@@ -0,0 +1,40 @@
+namespace YallaBusinessAdmin.Application.Dashboard.Dtos;
+
+/// <summary>
+/// Delivery manifest of a project and day as locked at the cutoff.
+/// </summary>
+public class ManifestSnapshotResponse
+{
+    /// <summary>Project identifier.</summary>
+    public Guid ProjectId { get; set; }
+
+    /// <summary>Manifest date in yyyy-MM-dd format.</summary>
+    public string Date { get; set; } = string.Empty;
+
+    /// <summary>Moment the manifest reflects: the project cutoff of that day (UTC).</summary>
+    public DateTime LockedAt { get; set; }
+
+    /// <summary>Meals on the delivery list at the lock.</summary>
+    public IReadOnlyList<ManifestSnapshotEntryResponse> Entries { get; set; } = Array.Empty<ManifestSnapshotEntryResponse>();
+}
+
+/// <summary>
+/// One meal of a locked manifest.
+/// </summary>
+public class ManifestSnapshotEntryResponse
+{
+    /// <summary>Order identifier.</summary>
+    public Guid OrderId { get; set; }
+
+    /// <summary>Employee name, or the guest order name.</summary>
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>Employee phone; null for guests.</summary>
+    public string? Phone { get; set; }
+
+    /// <summary>Type of combo ordered (e.g., "Комбо 25", "Комбо 35").</summary>
+    public string ComboType { get; set; } = string.Empty;
+
+    /// <summary>Whether this is a guest order.</summary>
+    public bool IsGuest { get; set; }
+}
@@ -0,0 +1,70 @@
+namespace YallaBusinessAdmin.Application.Dashboard.Dtos;
+
+/// <summary>
+/// Weekly planning grid: employees as rows, Monday..Sunday as columns.
+/// </summary>
+public class WeekPlanResponse
+{
+    /// <summary>Monday of the requested week in yyyy-MM-dd format.</summary>
+    public string WeekStart { get; set; } = string.Empty;
+
+    /// <summary>The seven dates of the week in yyyy-MM-dd format.</summary>
+    public IReadOnlyList<string> Days { get; set; } = Array.Empty<string>();
+
+    /// <summary>One row per active employee in scope.</summary>
+    public IReadOnlyList<WeekPlanRow> Rows { get; set; } = Array.Empty<WeekPlanRow>();
+}
+
+/// <summary>
+/// Employee row of the weekly planning grid.
+/// </summary>
+public class WeekPlanRow
+{
+    /// <summary>Employee identifier.</summary>
+    public Guid EmployeeId { get; set; }
+
+    /// <summary>Employee full name.</summary>
+    public string EmployeeName { get; set; } = string.Empty;
+
+    /// <summary>Project identifier.</summary>
+    public Guid ProjectId { get; set; }
+
+    /// <summary>Project name.</summary>
+    public string? ProjectName { get; set; }
+
+    /// <summary>Service type: LUNCH, COMPENSATION or null when not assigned.</summary>
+    public string? ServiceType { get; set; }
+
+    /// <summary>Cells for each day of the week, in the same order as <see cref="WeekPlanResponse.Days"/>.</summary>
+    public IReadOnlyList<WeekPlanCell> Cells { get; set; } = Array.Empty<WeekPlanCell>();
+}
+
+/// <summary>
+/// Single day of an employee row.
+/// </summary>
+public class WeekPlanCell
+{
+    /// <summary>Date in yyyy-MM-dd format.</summary>
+    public string Date { get; set; } = string.Empty;
+
+    /// <summary>Whether the date is in the employee's working schedule.</summary>
+    public bool IsWorkingDay { get; set; }
+
+    /// <summary>Lunch order identifier (null when there is no order for the day).</summary>
+    public Guid? OrderId { get; set; }
+
+    /// <summary>Order status in Russian (Активен, Приостановлен, Выполнен, Отменён).</summary>
+    public string? Status { get; set; }
+
+    /// <summary>Type of combo ordered (e.g., "Комбо 25", "Комбо 35").</summary>
+    public string? ComboType { get; set; }
+
+    /// <summary>Order amount in local currency.</summary>
+    public decimal? Amount { get; set; }
+
+    /// <summary>Daily compensation limit (compensation employees on working days only).</summary>
+    public decimal? CompensationLimit { get; set; }
+
+    /// <summary>Company-paid compensation amount already spent on the day.</summary>
+    public decimal? CompensationAmount { get; set; }
+}
@@ -0,0 +1,39 @@
+using YallaBusinessAdmin.Application.Dashboard.Dtos;
+
+namespace YallaBusinessAdmin.Application.Dashboard;
+
+/// <summary>
+/// Service for delivery manifests locked at the project cutoff.
+/// </summary>
+public interface IManifestSnapshotService
+{
+    /// <summary>
+    /// Gets the locked manifest of a project and day.
+    /// </summary>
+    /// <param name="companyId">The company identifier.</param>
+    /// <param name="projectId">The project identifier.</param>
+    /// <param name="date">Manifest date (project timezone).</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>The locked manifest, or null when the day has not been locked yet.</returns>
+    Task<ManifestSnapshotResponse?> GetSnapshotAsync(
+        Guid companyId,
+        Guid projectId,
+        DateOnly date,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Locks the manifest of every active project whose cutoff has passed,
+    /// as of that cutoff (today and yesterday, in case the job was down).
+    /// Days that are already locked are left as they are.
+    /// </summary>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>Number of manifests locked by this call.</returns>
+    Task<int> LockDueManifestsAsync(CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Gets the earliest upcoming cutoff among active projects.
+    /// </summary>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>The next cutoff (UTC), or null when there are no active projects.</returns>
+    Task<DateTime?> GetNextCutoffUtcAsync(CancellationToken cancellationToken = default);
+}
@@ -38,6 +38,22 @@ public interface IOrderManagementService
         Guid? projectId = null,
         CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Gets the weekly planning grid of employee lunch orders and compensation limits.
+    /// </summary>
+    /// <param name="companyId">The company identifier.</param>
+    /// <param name="weekStart">Any date of the requested week, normalized to Monday; defaults to the current week in the project's timezone.</param>
+    /// <param name="projectId">Optional project identifier.</param>
+    /// <param name="search">Optional search term for employee name.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>Week plan with one row per active employee.</returns>
+    Task<WeekPlanResponse> GetWeekPlanAsync(
+        Guid companyId,
+        DateOnly? weekStart,
+        Guid? projectId = null,
+        string? search = null,
+        CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Creates a guest order.
     /// </summary>
@@ -0,0 +1,6 @@
+namespace YallaBusinessAdmin.Application.Documents.Dtos;
+
+/// <summary>
+/// Document content streamed to the client
+/// </summary>
+public record DocumentFileResponse(Stream Content, string ContentType, string FileName);
@@ -5,18 +5,28 @@ namespace YallaBusinessAdmin.Application.Documents;
 
 public interface IDocumentsService
 {
+    /// <summary>
+    /// Gets company documents; from/to filter by the document period (or creation date when no period is set)
+    /// </summary>
     Task<PagedResult<DocumentResponse>> GetAllAsync(
         Guid companyId,
+        Guid userId,
         int page,
         int pageSize,
         string? type,
+        DateTime? from,
+        DateTime? to,
         CancellationToken cancellationToken = default);
     
-    Task<DocumentResponse> GetByIdAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default);
+    Task<DocumentResponse> GetByIdAsync(Guid id, Guid companyId, Guid userId, CancellationToken cancellationToken = default);
     
     /// <summary>
-    /// Gets a signed URL for downloading a document
+    /// Gets document content for streaming through the API (storage URL is never exposed to the browser)
     /// </summary>
-    Task<string> GetDownloadUrlAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default);
-}
+    Task<DocumentFileResponse> DownloadAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Marks a document as viewed by the user (idempotent)
+    /// </summary>
+    Task MarkAsViewedAsync(Guid id, Guid companyId, Guid userId, CancellationToken cancellationToken = default);
+}
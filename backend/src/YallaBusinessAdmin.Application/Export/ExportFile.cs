@@ -0,0 +1,36 @@
+namespace YallaBusinessAdmin.Application.Export;
+
+/// <summary>
+/// Generated export file ready to be returned from a controller
+/// </summary>
+public record ExportFile(byte[] Content, string ContentType, string FileName);
+
+/// <summary>
+/// Same filters as GET /home/orders
+/// </summary>
+public record OrdersExportFilter(
+    string? Search,
+    string? Status,
+    string? Date,
+    string? Address,
+    string? Type,
+    string? ServiceType,
+    string? ComboType
+);
+
+/// <summary>
+/// Same filters and sorting as GET /employees
+/// </summary>
+public record EmployeesExportFilter(
+    string? Search,
+    string? Status,
+    string? InviteStatus,
+    string? OrderStatus,
+    string? SortBy,
+    bool SortDesc,
+    decimal? MinBudget,
+    decimal? MaxBudget,
+    bool? HasSubscription,
+    Guid? ProjectId,
+    string? ServiceType
+);
@@ -0,0 +1,37 @@
+namespace YallaBusinessAdmin.Application.Export;
+
+/// <summary>
+/// File format for table exports
+/// </summary>
+public enum ExportFormat
+{
+    /// <summary>csv - semicolon-separated, UTF-8 with BOM (opens in Excel as is)</summary>
+    Csv,
+    /// <summary>xlsx - Excel workbook with typed numeric cells</summary>
+    Xlsx
+}
+
+public static class ExportFormatExtensions
+{
+    public static string ToExtension(this ExportFormat format) => format switch
+    {
+        ExportFormat.Csv => "csv",
+        ExportFormat.Xlsx => "xlsx",
+        _ => throw new ArgumentOutOfRangeException(nameof(format))
+    };
+
+    public static string ToContentType(this ExportFormat format) => format switch
+    {
+        ExportFormat.Csv => "text/csv; charset=utf-8",
+        ExportFormat.Xlsx => "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        _ => throw new ArgumentOutOfRangeException(nameof(format))
+    };
+
+    /// <summary>Parses the "format" query parameter; CSV when omitted</summary>
+    public static ExportFormat FromQuery(string? value) => value?.Trim().ToLowerInvariant() switch
+    {
+        null or "" or "csv" => ExportFormat.Csv,
+        "xlsx" => ExportFormat.Xlsx,
+        _ => throw new ArgumentException("Неподдерживаемый формат экспорта. Допустимые значения: csv, xlsx")
+    };
+}
@@ -2,12 +2,34 @@ namespace YallaBusinessAdmin.Application.Export;
 
 public interface IExportService
 {
-    Task<byte[]> ExportEmployeesToCsvAsync(Guid companyId, CancellationToken cancellationToken = default);
-    
-    Task<byte[]> ExportOrdersToCsvAsync(
+    /// <summary>
+    /// Exports employees matching the employees table filters
+    /// </summary>
+    Task<ExportFile> ExportEmployeesAsync(
         Guid companyId,
-        string? statusFilter,
-        string? dateFilter,
+        EmployeesExportFilter filter,
+        ExportFormat format,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Exports orders and compensation transactions matching the dashboard table filters
+    /// </summary>
+    Task<ExportFile> ExportOrdersAsync(
+        Guid companyId,
+        Guid? projectId,
+        OrdersExportFilter filter,
+        ExportFormat format,
         CancellationToken cancellationToken = default);
-}
 
+    /// <summary>
+    /// Exports the compensation ledger of one employee: a row per transaction, or per day without transactions
+    /// </summary>
+    Task<ExportFile> ExportCompensationLedgerAsync(
+        Guid companyId,
+        Guid? projectId,
+        Guid employeeId,
+        DateOnly? fromDate,
+        DateOnly? toDate,
+        ExportFormat format,
+        CancellationToken cancellationToken = default);
+}
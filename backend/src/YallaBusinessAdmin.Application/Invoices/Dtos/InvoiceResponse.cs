@@ -5,6 +5,7 @@ public class InvoiceResponse
     public Guid Id { get; set; }
     public string? ExternalId { get; set; }
     public decimal Amount { get; set; }
+    public decimal PaidAmount { get; set; } // Sum of deposits made against the invoice
     public string CurrencyCode { get; set; } = "TJS";
     public string Status { get; set; } = string.Empty;
     public DateTime? DueDate { get; set; }
@@ -10,6 +10,8 @@ public interface IInvoicesService
         int page,
         int pageSize,
         string? status,
+        DateTime? from,
+        DateTime? to,
         CancellationToken cancellationToken = default);
     
     Task<InvoiceResponse> GetByIdAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default);
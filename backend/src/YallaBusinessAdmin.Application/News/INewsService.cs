@@ -10,6 +10,8 @@ public interface INewsService
         string userRole,
         int page,
         int pageSize,
+        string? category,
+        bool unreadOnly,
         CancellationToken cancellationToken = default);
     
     Task<NewsResponse> GetByIdAsync(Guid id, Guid userId, CancellationToken cancellationToken = default);
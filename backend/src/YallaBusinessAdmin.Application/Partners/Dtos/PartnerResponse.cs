@@ -0,0 +1,68 @@
+namespace YallaBusinessAdmin.Application.Partners.Dtos;
+
+public class PartnerResponse
+{
+    public Guid Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string Type { get; set; } = string.Empty;
+    public string? Cuisine { get; set; }
+    public string Address { get; set; } = string.Empty;
+    public double? Latitude { get; set; }
+    public double? Longitude { get; set; }
+    public string? Phone { get; set; }
+    public string? Email { get; set; }
+    public string? WorkingHours { get; set; }
+    public bool IsActive { get; set; }
+
+    /// <summary>Straight-line distance from the project address; null when either side has no coordinates</summary>
+    public double? DistanceKm { get; set; }
+}
+
+/// <summary>
+/// Partner directory relative to one project address
+/// </summary>
+public class PartnersListResponse
+{
+    public List<PartnerResponse> Items { get; set; } = new();
+    public int Total { get; set; }
+
+    /// <summary>Project used as the distance origin (null when the company has no projects)</summary>
+    public PartnerOrigin? Origin { get; set; }
+
+    /// <summary>Active partners per type before the type filter is applied</summary>
+    public Dictionary<string, int> TypeCounts { get; set; } = new();
+}
+
+public class PartnerOrigin
+{
+    public Guid ProjectId { get; set; }
+    public string ProjectName { get; set; } = string.Empty;
+    public string Address { get; set; } = string.Empty;
+    public double? Latitude { get; set; }
+    public double? Longitude { get; set; }
+    public string CurrencyCode { get; set; } = "TJS";
+}
+
+/// <summary>
+/// Partner with the company's compensation history at this venue
+/// </summary>
+public class PartnerDetailResponse : PartnerResponse
+{
+    public int TransactionsCount { get; set; }
+    public decimal TotalCompanyPaid { get; set; }
+    public DateTime? LastTransactionAt { get; set; }
+    public List<PartnerTransactionResponse> RecentTransactions { get; set; } = new();
+}
+
+public class PartnerTransactionResponse
+{
+    public Guid Id { get; set; }
+    public Guid EmployeeId { get; set; }
+    public string EmployeeName { get; set; } = string.Empty;
+    public string ProjectName { get; set; } = string.Empty;
+    public decimal TotalAmount { get; set; }
+    public decimal CompanyPaidAmount { get; set; }
+    public decimal EmployeePaidAmount { get; set; }
+    public DateOnly TransactionDate { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
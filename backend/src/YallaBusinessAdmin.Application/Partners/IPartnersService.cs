@@ -0,0 +1,27 @@
+using YallaBusinessAdmin.Application.Partners.Dtos;
+
+namespace YallaBusinessAdmin.Application.Partners;
+
+public interface IPartnersService
+{
+    /// <summary>
+    /// Gets active partners sorted by distance from the project address.
+    /// Without a project the company's first project is used as the origin.
+    /// </summary>
+    Task<PartnersListResponse> GetAllAsync(
+        Guid companyId,
+        Guid? projectId,
+        string? search,
+        string? type,
+        double? maxDistanceKm,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Gets a partner with recent compensation transactions of the company (or one project) at this venue
+    /// </summary>
+    Task<PartnerDetailResponse> GetByIdAsync(
+        Guid id,
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken = default);
+}
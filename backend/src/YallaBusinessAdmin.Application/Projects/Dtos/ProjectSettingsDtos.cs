@@ -0,0 +1,29 @@
+namespace YallaBusinessAdmin.Application.Projects.Dtos;
+
+/// <summary>
+/// Business settings of one project: ordering deadline, timezone and service rules
+/// </summary>
+public record ProjectSettingsResponse(
+    Guid ProjectId,
+    string ProjectName,
+    // IANA timezone, e.g. "Asia/Dushanbe"
+    string Timezone,
+    // Daily order deadline in the project timezone, "HH:mm"
+    string CutoffTime,
+    string CurrencyCode,
+    List<string> ServiceTypes,
+    decimal CompensationDailyLimit,
+    bool CompensationRollover,
+    int SubscriptionMinDays,
+    // Company-wide value used when the project has no override
+    int DefaultSubscriptionMinDays
+);
+
+public record UpdateProjectSettingsRequest(
+    string Timezone,
+    /// "HH:mm"
+    string CutoffTime,
+    decimal CompensationDailyLimit,
+    bool CompensationRollover,
+    int SubscriptionMinDays
+);
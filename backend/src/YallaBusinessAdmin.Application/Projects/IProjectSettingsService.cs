@@ -0,0 +1,23 @@
+using YallaBusinessAdmin.Application.Projects.Dtos;
+
+namespace YallaBusinessAdmin.Application.Projects;
+
+/// <summary>
+/// Per-project business settings (cutoff, timezone, compensation and subscription rules)
+/// </summary>
+public interface IProjectSettingsService
+{
+    /// <summary>Get settings of a company project</summary>
+    Task<ProjectSettingsResponse> GetAsync(Guid projectId, Guid companyId, CancellationToken cancellationToken = default);
+
+    /// <summary>Update settings of a company project</summary>
+    Task<ProjectSettingsResponse> UpdateAsync(
+        Guid projectId,
+        Guid companyId,
+        UpdateProjectSettingsRequest request,
+        Guid? currentUserId,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>Minimum subscription length in working days: project override or the company-wide value</summary>
+    Task<int> GetSubscriptionMinDaysAsync(Guid projectId, CancellationToken cancellationToken = default);
+}
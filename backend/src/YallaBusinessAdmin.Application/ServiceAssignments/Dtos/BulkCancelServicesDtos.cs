@@ -0,0 +1,68 @@
+namespace YallaBusinessAdmin.Application.ServiceAssignments.Dtos;
+
+public class BulkCancelServicesRequest
+{
+    public List<Guid> EmployeeIds { get; set; } = new();
+
+    /// <summary>LUNCH or COMPENSATION</summary>
+    public string ServiceType { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// What a bulk cancel would do, shown on the confirmation step
+/// </summary>
+public class BulkCancelPreviewResponse
+{
+    public string ServiceType { get; set; } = string.Empty;
+    public List<BulkCancelPreviewItem> Items { get; set; } = new();
+    public int CancellableCount { get; set; }
+    public int TotalFutureOrders { get; set; }
+    public decimal TotalRefund { get; set; }
+    public string CurrencyCode { get; set; } = "TJS";
+}
+
+public class BulkCancelPreviewItem
+{
+    public Guid EmployeeId { get; set; }
+    public string EmployeeName { get; set; } = string.Empty;
+    public bool CanCancel { get; set; }
+
+    /// <summary>Why the service cannot be cancelled (nothing to cancel, deleted, ...)</summary>
+    public string? Reason { get; set; }
+
+    /// <summary>Orders from today on that will be cancelled (lunch only)</summary>
+    public int FutureOrdersCount { get; set; }
+
+    /// <summary>Already settled future orders returned to the project budget</summary>
+    public decimal RefundAmount { get; set; }
+
+    /// <summary>Unspent compensation of the current period (not charged, so not refunded)</summary>
+    public decimal? RemainingBudget { get; set; }
+}
+
+/// <summary>
+/// Per-employee report, same shape as the subscription bulk endpoints (cancelled + errors)
+/// </summary>
+public class BulkCancelServicesResponse
+{
+    public bool Success { get; set; }
+    public string ServiceType { get; set; } = string.Empty;
+    public List<BulkCancelResultItem> Cancelled { get; set; } = new();
+    public List<BulkOperationError> Errors { get; set; } = new();
+    public int CancelledOrders { get; set; }
+    public decimal TotalRefund { get; set; }
+}
+
+public class BulkCancelResultItem
+{
+    public Guid EmployeeId { get; set; }
+    public string EmployeeName { get; set; } = string.Empty;
+    public int CancelledOrders { get; set; }
+    public decimal RefundAmount { get; set; }
+}
+
+public class BulkOperationError
+{
+    public Guid EmployeeId { get; set; }
+    public string Message { get; set; } = string.Empty;
+}
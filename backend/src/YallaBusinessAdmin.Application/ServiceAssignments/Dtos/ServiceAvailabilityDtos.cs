@@ -0,0 +1,25 @@
+namespace YallaBusinessAdmin.Application.ServiceAssignments.Dtos;
+
+public class CheckServiceAvailabilityRequest
+{
+    public List<Guid> EmployeeIds { get; set; } = new();
+
+    /// <summary>
+    /// Service the caller is about to assign (LUNCH / COMPENSATION).
+    /// BlockingReason explains why this service cannot be assigned.
+    /// </summary>
+    public string? ServiceType { get; set; }
+}
+
+public class ServiceAvailabilityResponse
+{
+    public Guid EmployeeId { get; set; }
+    public string EmployeeName { get; set; } = string.Empty;
+    public bool CanAssignLunch { get; set; }
+    public bool CanAssignCompensation { get; set; }
+
+    /// <summary>LUNCH, COMPENSATION or null when nothing is assigned</summary>
+    public string? CurrentService { get; set; }
+    public string? CurrentServiceEndDate { get; set; }
+    public string? BlockingReason { get; set; }
+}
@@ -0,0 +1,37 @@
+using YallaBusinessAdmin.Application.ServiceAssignments.Dtos;
+
+namespace YallaBusinessAdmin.Application.ServiceAssignments;
+
+public interface IServiceAssignmentService
+{
+    /// <summary>
+    /// Checks whether lunch or compensation can be assigned to each employee.
+    /// Uses the same rules as subscription creation, so conflicts are visible before submitting.
+    /// Unknown employees (or outside the project scope) are reported as blocked.
+    /// </summary>
+    Task<IEnumerable<ServiceAvailabilityResponse>> CheckAvailabilityAsync(
+        CheckServiceAvailabilityRequest request,
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Previews a bulk cancel: future orders and refunds per employee, nothing is changed
+    /// </summary>
+    Task<BulkCancelPreviewResponse> PreviewBulkCancelAsync(
+        BulkCancelServicesRequest request,
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Cancels lunch subscriptions or compensation for each employee independently.
+    /// A failure for one employee is reported in Errors and does not stop the others.
+    /// </summary>
+    Task<BulkCancelServicesResponse> BulkCancelAsync(
+        BulkCancelServicesRequest request,
+        Guid companyId,
+        Guid? projectId,
+        Guid? currentUserId,
+        CancellationToken cancellationToken = default);
+}
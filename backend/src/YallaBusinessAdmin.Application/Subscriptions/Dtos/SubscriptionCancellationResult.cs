@@ -0,0 +1,10 @@
+namespace YallaBusinessAdmin.Application.Subscriptions.Dtos;
+
+/// <summary>
+/// What deleting a subscription actually did to its future orders
+/// </summary>
+public class SubscriptionCancellationResult
+{
+    public int CancelledOrders { get; set; }
+    public decimal RefundAmount { get; set; }
+}
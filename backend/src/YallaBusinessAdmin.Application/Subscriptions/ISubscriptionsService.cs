@@ -21,7 +21,7 @@ public interface ISubscriptionsService
     
     Task<SubscriptionResponse> UpdateAsync(Guid id, UpdateSubscriptionDetailsRequest request, Guid companyId, CancellationToken cancellationToken = default);
     
-    Task DeleteAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default);
+    Task<SubscriptionCancellationResult> DeleteAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default);
     
     Task<object> BulkCreateAsync(BulkCreateSubscriptionRequest request, Guid companyId, CancellationToken cancellationToken = default);
     
@@ -5,8 +5,10 @@ public class CreateUserRequest
     public string FullName { get; set; } = string.Empty;
     public string Phone { get; set; } = string.Empty;
     public string Email { get; set; } = string.Empty;
-    public string Password { get; set; } = string.Empty;
     public string Role { get; set; } = string.Empty;
     public IEnumerable<string> Permissions { get; set; } = Enumerable.Empty<string>();
+
+    /// <summary>Where to send the activation link: "email" or "sms"</summary>
+    public string InviteChannel { get; set; } = "email";
 }
 
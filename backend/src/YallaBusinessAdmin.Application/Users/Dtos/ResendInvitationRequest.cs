@@ -0,0 +1,7 @@
+namespace YallaBusinessAdmin.Application.Users.Dtos;
+
+public class ResendInvitationRequest
+{
+    /// <summary>"email" or "sms". Defaults to the channel of the previous invitation</summary>
+    public string? Channel { get; set; }
+}
@@ -0,0 +1,24 @@
+namespace YallaBusinessAdmin.Application.Users.Dtos;
+
+/// <summary>
+/// Latest invitation of an admin user
+/// </summary>
+public class UserInvitationDto
+{
+    public string Status { get; set; } = string.Empty;
+    public string Channel { get; set; } = string.Empty;
+    public string SentTo { get; set; } = string.Empty;
+    public DateTime SentAt { get; set; }
+    public DateTime ExpiresAt { get; set; }
+
+    /// <summary>
+    /// Whether the email/SMS went out. Only set in the response to create/resend
+    /// </summary>
+    public bool? Delivered { get; set; }
+
+    /// <summary>
+    /// The link itself, returned only when delivery failed so the admin can pass it on.
+    /// It is never stored in plain text and cannot be fetched later
+    /// </summary>
+    public string? InviteUrl { get; set; }
+}
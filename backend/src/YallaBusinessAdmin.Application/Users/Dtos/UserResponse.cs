@@ -12,5 +12,9 @@ public class UserResponse
     public IEnumerable<string> Permissions { get; set; } = Enumerable.Empty<string>();
     public DateTime CreatedAt { get; set; }
     public DateTime? LastLoginAt { get; set; }
+    public bool TwoFactorEnabled { get; set; }
+
+    /// <summary>Null for users created before invitations</summary>
+    public UserInvitationDto? Invitation { get; set; }
 }
 
@@ -0,0 +1,36 @@
+using YallaBusinessAdmin.Application.Auth.Dtos;
+using YallaBusinessAdmin.Application.Users.Dtos;
+using YallaBusinessAdmin.Domain.Entities;
+
+namespace YallaBusinessAdmin.Application.Users;
+
+/// <summary>
+/// One-time activation links for new admin users, sent by email or SMS
+/// </summary>
+public interface IUserInvitationService
+{
+    /// <summary>
+    /// Issue a new link for a saved user and send it. Any earlier unused link stops working
+    /// </summary>
+    Task<UserInvitationDto> SendAsync(AdminUser user, string? channel, Guid? invitedById, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Send a fresh link to a user who has not accepted yet
+    /// </summary>
+    Task<UserInvitationDto> ResendAsync(Guid userId, Guid companyId, string? channel, Guid currentUserId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Make the pending link unusable. The user stays inactive until a new one is sent
+    /// </summary>
+    Task RevokeAsync(Guid userId, Guid companyId, Guid currentUserId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Check a link before showing the set-password form
+    /// </summary>
+    Task<InvitationInfoResponse> GetByTokenAsync(string token, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Set the password via the link and activate the user
+    /// </summary>
+    Task AcceptAsync(AcceptInvitationRequest request, string? ipAddress = null, string? userAgent = null, CancellationToken cancellationToken = default);
+}
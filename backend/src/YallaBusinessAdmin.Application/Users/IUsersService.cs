@@ -1,4 +1,5 @@
 using YallaBusinessAdmin.Application.Common.Models;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Users.Dtos;
 
 namespace YallaBusinessAdmin.Application.Users;
@@ -20,6 +21,11 @@ public interface IUsersService
     Task<UserResponse> UpdateAsync(Guid id, UpdateUserRequest request, Guid companyId, Guid? currentUserId = null, CancellationToken cancellationToken = default);
     Task DeleteAsync(Guid id, Guid companyId, Guid currentUserId, CancellationToken cancellationToken = default);
     IEnumerable<string> GetAvailableRoutes();
+
+    /// <summary>
+    /// Permission matrix: pages with their action-level permissions
+    /// </summary>
+    IEnumerable<PermissionGroup> GetPermissionGroups();
     
     /// <summary>
     /// Get all admins across all companies (SUPER_ADMIN only)
@@ -0,0 +1,44 @@
+using YallaBusinessAdmin.Domain.Enums;
+
+namespace YallaBusinessAdmin.Domain.Entities;
+
+/// <summary>
+/// Represents a one-time activation link sent to a new admin user.
+/// Maps to table: admin_invitations
+/// </summary>
+public class AdminInvitation
+{
+    public Guid Id { get; set; }
+    public Guid UserId { get; set; }
+    public string TokenHash { get; set; } = string.Empty;
+    public string Channel { get; set; } = InviteChannels.Email;
+    public string SentTo { get; set; } = string.Empty; // Email or phone the link went to
+    public Guid? InvitedBy { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime ExpiresAt { get; set; }
+    public DateTime? AcceptedAt { get; set; }
+    public DateTime? RevokedAt { get; set; } // Also set when a newer link replaces this one
+
+    // Navigation properties
+    public AdminUser? User { get; set; }
+    public AdminUser? Inviter { get; set; }
+
+    // Helper properties
+    public bool IsExpired => DateTime.UtcNow >= ExpiresAt;
+    public bool IsActive => AcceptedAt == null && RevokedAt == null && !IsExpired;
+
+    public AdminInviteStatus Status =>
+        AcceptedAt != null ? AdminInviteStatus.Accepted
+        : RevokedAt != null ? AdminInviteStatus.Revoked
+        : IsExpired ? AdminInviteStatus.Expired
+        : AdminInviteStatus.Pending;
+}
+
+/// <summary>
+/// Delivery channels for invitation links
+/// </summary>
+public static class InviteChannels
+{
+    public const string Email = "email";
+    public const string Sms = "sms";
+}
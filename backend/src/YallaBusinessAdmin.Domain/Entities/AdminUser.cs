@@ -26,13 +26,28 @@ public class AdminUser
     // New fields for soft delete and tracking
     public DateTime? DeletedAt { get; set; }
     public DateTime? LastLoginAt { get; set; }
+    /// <summary>When the password was last set. Null means never changed since CreatedAt.</summary>
+    public DateTime? PasswordChangedAt { get; set; }
+
+    // Two-factor authentication (TOTP)
+    /// <summary>Base32 TOTP secret. Written on setup, in effect once TwoFactorEnabledAt is set.</summary>
+    public string? TwoFactorSecret { get; set; }
+    public DateTime? TwoFactorEnabledAt { get; set; }
+    /// <summary>SHA-256 hashes of the backup codes that have not been used yet.</summary>
+    public List<string> TwoFactorBackupCodes { get; set; } = new();
+    /// <summary>Time step of the last accepted code, so a code cannot be replayed.</summary>
+    public long? TwoFactorLastUsedStep { get; set; }
+
+    public bool IsTwoFactorEnabled => TwoFactorEnabledAt != null && TwoFactorSecret != null;
 
     // Navigation properties
     public Company? Company { get; set; }
     public Project? Project { get; set; }
     public ICollection<UserPermission> Permissions { get; set; } = new List<UserPermission>();
     public ICollection<NewsReadStatus> NewsReadStatuses { get; set; } = new List<NewsReadStatus>();
+    public ICollection<DocumentViewStatus> DocumentViewStatuses { get; set; } = new List<DocumentViewStatus>();
     public ICollection<Order> CreatedGuestOrders { get; set; } = new List<Order>();
     public ICollection<RefreshToken> RefreshTokens { get; set; } = new List<RefreshToken>();
+    public ICollection<AdminInvitation> Invitations { get; set; } = new List<AdminInvitation>();
     public ICollection<AuditLog> AuditLogs { get; set; } = new List<AuditLog>();
 }
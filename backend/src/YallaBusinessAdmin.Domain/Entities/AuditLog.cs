@@ -15,10 +15,12 @@ public class AuditLog
     public string? NewValues { get; set; }
     public string? IpAddress { get; set; }
     public string? UserAgent { get; set; }
+    public Guid? ImpersonatedBy { get; set; } // SUPER_ADMIN behind the action when UserId is impersonated
     public DateTime CreatedAt { get; set; }
 
     // Navigation properties
     public AdminUser? User { get; set; }
+    public AdminUser? Impersonator { get; set; }
 }
 
 /// <summary>
@@ -28,6 +30,7 @@ public static class AuditActions
 {
     public const string Login = "LOGIN";
     public const string Logout = "LOGOUT";
+    public const string SessionRevoke = "SESSION_REVOKE";
     public const string LoginFailed = "LOGIN_FAILED";
     public const string PasswordChange = "PASSWORD_CHANGE";
     public const string PasswordReset = "PASSWORD_RESET";
@@ -38,6 +41,15 @@ public static class AuditActions
     public const string Deactivate = "DEACTIVATE";
     public const string Block = "BLOCK";
     public const string Unblock = "UNBLOCK";
+    public const string CancelService = "CANCEL_SERVICE";
+    public const string Impersonate = "IMPERSONATE";
+    public const string StopImpersonate = "STOP_IMPERSONATE";
+    public const string TwoFactorEnable = "TWO_FACTOR_ENABLE";
+    public const string TwoFactorDisable = "TWO_FACTOR_DISABLE";
+    public const string TwoFactorReset = "TWO_FACTOR_RESET";
+    public const string InviteSend = "INVITE_SEND";
+    public const string InviteRevoke = "INVITE_REVOKE";
+    public const string InviteAccept = "INVITE_ACCEPT";
 }
 
 /// <summary>
@@ -53,5 +65,6 @@ public static class AuditEntityTypes
     public const string Address = "ADDRESS";
     public const string Permission = "PERMISSION";
     public const string Company = "COMPANY";
+    public const string Project = "PROJECT";
 }
 
@@ -24,5 +24,6 @@ public class CompanyDocument
     // Navigation properties
     public Company? Company { get; set; }
     public Project? Project { get; set; }
+    public ICollection<DocumentViewStatus> ViewStatuses { get; set; } = new List<DocumentViewStatus>();
 }
 
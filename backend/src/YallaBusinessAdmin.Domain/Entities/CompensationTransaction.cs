@@ -20,6 +20,9 @@ public class CompensationTransaction
     /// <summary>Amount paid by the employee (excess over limit)</summary>
     public decimal EmployeePaidAmount { get; set; }
     
+    /// <summary>Partner venue (null for transactions recorded before the partners directory)</summary>
+    public Guid? PartnerId { get; set; }
+    
     /// <summary>Name of the restaurant partner</summary>
     public string? RestaurantName { get; set; }
     
@@ -34,6 +37,7 @@ public class CompensationTransaction
     // Navigation properties
     public Project? Project { get; set; }
     public Employee? Employee { get; set; }
+    public Partner? Partner { get; set; }
 }
 
 
@@ -0,0 +1,16 @@
+namespace YallaBusinessAdmin.Domain.Entities;
+
+/// <summary>
+/// Represents the first time a user opened a company document.
+/// Maps to table: document_view_status
+/// </summary>
+public class DocumentViewStatus
+{
+    public Guid DocumentId { get; set; }
+    public Guid UserId { get; set; }
+    public DateTime ViewedAt { get; set; }
+
+    // Navigation properties
+    public CompanyDocument? Document { get; set; }
+    public AdminUser? User { get; set; }
+}
@@ -0,0 +1,25 @@
+namespace YallaBusinessAdmin.Domain.Entities;
+
+/// <summary>
+/// Represents a SUPER_ADMIN acting as another admin for a limited time.
+/// Maps to table: impersonation_sessions
+/// </summary>
+public class ImpersonationSession
+{
+    public Guid Id { get; set; }
+    public Guid ImpersonatorId { get; set; }
+    public Guid TargetUserId { get; set; }
+    public string Reason { get; set; } = string.Empty;
+    public DateTime StartedAt { get; set; }
+    public DateTime ExpiresAt { get; set; }
+    public DateTime? EndedAt { get; set; } // Null when the session ran out without "return to my account"
+    public string? IpAddress { get; set; }
+    public string? UserAgent { get; set; }
+
+    // Navigation properties
+    public AdminUser? Impersonator { get; set; }
+    public AdminUser? TargetUser { get; set; }
+
+    // Helper properties
+    public bool IsActive => EndedAt == null && DateTime.UtcNow < ExpiresAt;
+}
@@ -0,0 +1,23 @@
+namespace YallaBusinessAdmin.Domain.Entities;
+
+/// <summary>
+/// Delivery manifest of one project and day, locked at the project cutoff.
+/// Changes made after the lock are shown to the kitchen as a diff against it.
+/// Maps to table: manifest_snapshots
+/// </summary>
+public class ManifestSnapshot
+{
+    public Guid Id { get; set; }
+    public Guid CompanyId { get; set; }
+    public Guid ProjectId { get; set; }
+
+    /// <summary>Business date of the manifest (project timezone)</summary>
+    public DateOnly Date { get; set; }
+
+    /// <summary>Moment the snapshot reflects: the project cutoff of that day (UTC)</summary>
+    public DateTime LockedAt { get; set; }
+
+    // Navigation properties
+    public Project? Project { get; set; }
+    public ICollection<ManifestSnapshotEntry> Entries { get; set; } = new List<ManifestSnapshotEntry>();
+}
@@ -0,0 +1,20 @@
+namespace YallaBusinessAdmin.Domain.Entities;
+
+/// <summary>
+/// One delivered meal of a locked manifest, copied from the order at the lock.
+/// Maps to table: manifest_snapshot_entries
+/// </summary>
+public class ManifestSnapshotEntry
+{
+    public Guid SnapshotId { get; set; }
+    public Guid OrderId { get; set; }
+
+    /// <summary>Employee name, or the guest order name</summary>
+    public string Name { get; set; } = string.Empty;
+    public string? Phone { get; set; }
+    public string ComboType { get; set; } = string.Empty;
+    public bool IsGuest { get; set; }
+
+    // Navigation properties
+    public ManifestSnapshot? Snapshot { get; set; }
+}
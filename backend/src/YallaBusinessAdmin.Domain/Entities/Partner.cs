@@ -0,0 +1,36 @@
+using YallaBusinessAdmin.Domain.Enums;
+
+namespace YallaBusinessAdmin.Domain.Entities;
+
+/// <summary>
+/// Represents a Yalla partner venue where employees spend their compensation limit.
+/// Partners are shared across all companies.
+/// Maps to table: partners
+/// </summary>
+public class Partner
+{
+    public Guid Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public PartnerType Type { get; set; } = PartnerType.Restaurant;
+
+    /// <summary>Cuisine or short description (e.g., "Восточная кухня")</summary>
+    public string? Cuisine { get; set; }
+
+    /// <summary>Full address (e.g., "пр. Рудаки 45, Душанбе")</summary>
+    public string Address { get; set; } = string.Empty;
+    public double? Latitude { get; set; }
+    public double? Longitude { get; set; }
+
+    public string? Phone { get; set; }
+    public string? Email { get; set; }
+
+    /// <summary>Opening hours as free text (e.g., "Пн–Пт 09:00–22:00")</summary>
+    public string? WorkingHours { get; set; }
+
+    public bool IsActive { get; set; } = true;
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+
+    // Navigation properties
+    public ICollection<CompensationTransaction> CompensationTransactions { get; set; } = new List<CompensationTransaction>();
+}
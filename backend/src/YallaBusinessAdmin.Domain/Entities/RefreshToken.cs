@@ -8,12 +8,16 @@ public class RefreshToken
 {
     public Guid Id { get; set; }
     public Guid UserId { get; set; }
+    public Guid SessionId { get; set; } // Login session - carried over on rotation, put into the access token
     public string TokenHash { get; set; } = string.Empty;
     public DateTime ExpiresAt { get; set; }
     public DateTime? RevokedAt { get; set; }
-    public DateTime CreatedAt { get; set; }
+    public DateTime CreatedAt { get; set; } // Session start - carried over on rotation
+    public DateTime? LastUsedAt { get; set; } // Last refresh, null until the first one
     public string? DeviceInfo { get; set; }
     public string? IpAddress { get; set; }
+    public Guid? ImpersonatedBy { get; set; } // Impersonation token: rotation keeps the claim and the expiry
+    public Guid? ImpersonationSessionId { get; set; } // Impersonation session the token belongs to
 
     // Navigation properties
     public AdminUser? User { get; set; }
@@ -1,3 +1,5 @@
+using YallaBusinessAdmin.Domain.Enums;
+
 namespace YallaBusinessAdmin.Domain.Entities;
 
 /// <summary>
@@ -9,6 +11,7 @@ public class SystemNews
     public Guid Id { get; set; }
     public string Title { get; set; } = string.Empty;
     public string Content { get; set; } = string.Empty;
+    public NewsCategory Category { get; set; } = NewsCategory.General;
     public bool IsPublished { get; set; }
     public DateTime? PublishedAt { get; set; }
     public string[] TargetRoles { get; set; } = Array.Empty<string>(); // e.g., ['ADMIN', 'ACCOUNTANT']
@@ -0,0 +1,29 @@
+namespace YallaBusinessAdmin.Domain.Enums;
+
+/// <summary>
+/// Status of an admin user's invitation.
+/// Not stored: derived from the latest admin_invitations row.
+/// </summary>
+public enum AdminInviteStatus
+{
+    /// <summary>Ожидает - Link sent, not used yet</summary>
+    Pending,
+    /// <summary>Принято - Password set via the link</summary>
+    Accepted,
+    /// <summary>Просрочено - Link expired unused</summary>
+    Expired,
+    /// <summary>Отозвано - Link revoked by an admin</summary>
+    Revoked
+}
+
+public static class AdminInviteStatusExtensions
+{
+    public static string ToRussian(this AdminInviteStatus status) => status switch
+    {
+        AdminInviteStatus.Pending => "Ожидает",
+        AdminInviteStatus.Accepted => "Принято",
+        AdminInviteStatus.Expired => "Просрочено",
+        AdminInviteStatus.Revoked => "Отозвано",
+        _ => throw new ArgumentOutOfRangeException(nameof(status))
+    };
+}
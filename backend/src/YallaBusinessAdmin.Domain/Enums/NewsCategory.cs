@@ -0,0 +1,42 @@
+namespace YallaBusinessAdmin.Domain.Enums;
+
+/// <summary>
+/// Category of a system news item.
+/// Maps to Postgres text column: system_news.category
+/// </summary>
+public enum NewsCategory
+{
+    /// <summary>GENERAL - General announcements</summary>
+    General,
+    /// <summary>UPDATE - Product and cabinet updates</summary>
+    Update,
+    /// <summary>MENU - Menu and combo changes</summary>
+    Menu,
+    /// <summary>DELIVERY - Delivery schedule and logistics</summary>
+    Delivery,
+    /// <summary>BILLING - Payments, invoices and documents</summary>
+    Billing
+}
+
+public static class NewsCategoryExtensions
+{
+    public static string ToDatabase(this NewsCategory category) => category switch
+    {
+        NewsCategory.General => "GENERAL",
+        NewsCategory.Update => "UPDATE",
+        NewsCategory.Menu => "MENU",
+        NewsCategory.Delivery => "DELIVERY",
+        NewsCategory.Billing => "BILLING",
+        _ => throw new ArgumentOutOfRangeException(nameof(category))
+    };
+
+    public static NewsCategory FromDatabase(string value) => value switch
+    {
+        "GENERAL" => NewsCategory.General,
+        "UPDATE" => NewsCategory.Update,
+        "MENU" => NewsCategory.Menu,
+        "DELIVERY" => NewsCategory.Delivery,
+        "BILLING" => NewsCategory.Billing,
+        _ => throw new ArgumentOutOfRangeException(nameof(value))
+    };
+}
@@ -0,0 +1,38 @@
+namespace YallaBusinessAdmin.Domain.Enums;
+
+/// <summary>
+/// Type of a partner venue where compensation can be spent.
+/// Maps to Postgres text column: partners.type
+/// </summary>
+public enum PartnerType
+{
+    /// <summary>RESTAURANT - Full-service restaurant</summary>
+    Restaurant,
+    /// <summary>CAFE - Cafe or coffee shop</summary>
+    Cafe,
+    /// <summary>CANTEEN - Canteen or fast food</summary>
+    Canteen,
+    /// <summary>OTHER - Any other venue</summary>
+    Other
+}
+
+public static class PartnerTypeExtensions
+{
+    public static string ToDatabase(this PartnerType type) => type switch
+    {
+        PartnerType.Restaurant => "RESTAURANT",
+        PartnerType.Cafe => "CAFE",
+        PartnerType.Canteen => "CANTEEN",
+        PartnerType.Other => "OTHER",
+        _ => throw new ArgumentOutOfRangeException(nameof(type))
+    };
+
+    public static PartnerType FromDatabase(string value) => value switch
+    {
+        "RESTAURANT" => PartnerType.Restaurant,
+        "CAFE" => PartnerType.Cafe,
+        "CANTEEN" => PartnerType.Canteen,
+        "OTHER" => PartnerType.Other,
+        _ => throw new ArgumentOutOfRangeException(nameof(value))
+    };
+}
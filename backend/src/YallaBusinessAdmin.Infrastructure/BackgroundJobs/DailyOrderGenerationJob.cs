@@ -2,6 +2,8 @@ using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Hosting;
 using Microsoft.Extensions.Logging;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Models;
 using YallaBusinessAdmin.Domain.Entities;
 using YallaBusinessAdmin.Domain.Enums;
 using YallaBusinessAdmin.Domain.Helpers;
@@ -19,13 +21,16 @@ public class DailyOrderGenerationJob : BackgroundService
 {
     private readonly IServiceScopeFactory _scopeFactory;
     private readonly ILogger<DailyOrderGenerationJob> _logger;
+    private readonly IRealtimeEventHub _realtimeHub;
 
     public DailyOrderGenerationJob(
         IServiceScopeFactory scopeFactory,
-        ILogger<DailyOrderGenerationJob> logger)
+        ILogger<DailyOrderGenerationJob> logger,
+        IRealtimeEventHub realtimeHub)
     {
         _scopeFactory = scopeFactory;
         _logger = logger;
+        _realtimeHub = realtimeHub;
     }
 
     protected override async Task ExecuteAsync(CancellationToken stoppingToken)
@@ -102,6 +107,7 @@ public class DailyOrderGenerationJob : BackgroundService
 
                 var ordersCreated = 0;
                 var totalCost = 0m;
+                var createdOrderIds = new List<Guid>();
 
                 foreach (var subscription in lunchSubscriptions)
                 {
@@ -158,6 +164,7 @@ public class DailyOrderGenerationJob : BackgroundService
                     };
 
                     context.Orders.Add(order);
+                    createdOrderIds.Add(order.Id);
                     ordersCreated++;
                     totalCost += price;
                 }
@@ -171,6 +178,16 @@ public class DailyOrderGenerationJob : BackgroundService
                     // ═══════════════════════════════════════════════════════════════
                     await context.SaveChangesAsync(cancellationToken);
 
+                    _realtimeHub.Publish(new RealtimeEvent
+                    {
+                        Type = RealtimeEventTypes.OrdersGenerated,
+                        CompanyId = project.CompanyId,
+                        ProjectId = project.Id,
+                        EntityIds = createdOrderIds,
+                        Status = OrderStatus.Active.ToRussian(),
+                        Date = projectToday.ToString("yyyy-MM-dd")
+                    });
+
                     _logger.LogInformation(
                         "Generated {Count} orders for project {ProjectName}, pending settlement: {Amount} {Currency}",
                         ordersCreated, project.Name, totalCost, project.CurrencyCode);
@@ -3,6 +3,7 @@ using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Hosting;
 using Microsoft.Extensions.Logging;
 using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Models;
 using YallaBusinessAdmin.Domain.Entities;
 using YallaBusinessAdmin.Domain.Enums;
 using YallaBusinessAdmin.Infrastructure.Persistence;
@@ -28,6 +29,7 @@ public class DailySettlementJob : BackgroundService
 {
     private readonly IServiceScopeFactory _scopeFactory;
     private readonly ILogger<DailySettlementJob> _logger;
+    private readonly IRealtimeEventHub _realtimeHub;
 
     /// <summary>
     /// How often to check for settlements (every 30 minutes)
@@ -36,10 +38,12 @@ public class DailySettlementJob : BackgroundService
 
     public DailySettlementJob(
         IServiceScopeFactory scopeFactory,
-        ILogger<DailySettlementJob> logger)
+        ILogger<DailySettlementJob> logger,
+        IRealtimeEventHub realtimeHub)
     {
         _scopeFactory = scopeFactory;
         _logger = logger;
+        _realtimeHub = realtimeHub;
     }
 
     protected override async Task ExecuteAsync(CancellationToken stoppingToken)
@@ -165,7 +169,7 @@ public class DailySettlementJob : BackgroundService
         var description = string.Join(", ", descriptionParts);
 
         // Atomic budget deduction with audit trail
-        await budgetService.DeductProjectBudgetAsync(
+        var newBalance = await budgetService.DeductProjectBudgetAsync(
             project.Id,
             totalAmount,
             description,
@@ -174,6 +178,26 @@ public class DailySettlementJob : BackgroundService
 
         await context.SaveChangesAsync(cancellationToken);
 
+        // Push results to connected admins: orders are now Completed, budget decreased
+        var settlementDate = projectToday.ToString("yyyy-MM-dd");
+        _realtimeHub.Publish(new RealtimeEvent
+        {
+            Type = RealtimeEventTypes.OrdersSettled,
+            CompanyId = project.CompanyId,
+            ProjectId = project.Id,
+            EntityIds = ordersToSettle.Select(o => o.Id).ToList(),
+            Status = OrderStatus.Completed.ToRussian(),
+            Date = settlementDate
+        });
+        _realtimeHub.Publish(new RealtimeEvent
+        {
+            Type = RealtimeEventTypes.BudgetChanged,
+            CompanyId = project.CompanyId,
+            ProjectId = project.Id,
+            Date = settlementDate,
+            Balance = newBalance
+        });
+
         _logger.LogInformation(
             "Settlement completed for project {ProjectName}: {OrderCount} orders, {Amount} {Currency}",
             project.Name,
@@ -0,0 +1,70 @@
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using YallaBusinessAdmin.Application.Dashboard;
+
+namespace YallaBusinessAdmin.Infrastructure.BackgroundJobs;
+
+/// <summary>
+/// Background job that locks the delivery manifest of each project at its cutoff.
+///
+/// BUSINESS LOGIC:
+/// 1. Wakes up at the next project cutoff, and at least every few minutes (timezone-aware per project)
+/// 2. Once a day's cutoff has passed, copies the delivery list as of the cutoff into manifest_snapshots
+/// 3. A day is locked only once; later order changes are diffed against the snapshot
+/// </summary>
+public class ManifestLockJob : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<ManifestLockJob> _logger;
+
+    /// <summary>
+    /// Longest wait between checks (picks up new projects and changed cutoffs)
+    /// </summary>
+    private static readonly TimeSpan CheckInterval = TimeSpan.FromMinutes(5);
+
+    /// <summary>
+    /// Margin after the cutoff, so the cutoff has passed when the job wakes up
+    /// </summary>
+    private static readonly TimeSpan CutoffMargin = TimeSpan.FromSeconds(1);
+
+    public ManifestLockJob(
+        IServiceScopeFactory scopeFactory,
+        ILogger<ManifestLockJob> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("ManifestLockJob started");
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            var delay = CheckInterval;
+            try
+            {
+                using var scope = _scopeFactory.CreateScope();
+                var manifestService = scope.ServiceProvider.GetRequiredService<IManifestSnapshotService>();
+                await manifestService.LockDueManifestsAsync(stoppingToken);
+
+                var nextCutoff = await manifestService.GetNextCutoffUtcAsync(stoppingToken);
+                if (nextCutoff != null)
+                {
+                    var untilCutoff = nextCutoff.Value - DateTime.UtcNow + CutoffMargin;
+                    if (untilCutoff < delay)
+                    {
+                        delay = untilCutoff > TimeSpan.Zero ? untilCutoff : CutoffMargin;
+                    }
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error in ManifestLockJob");
+            }
+
+            await Task.Delay(delay, stoppingToken);
+        }
+    }
+}
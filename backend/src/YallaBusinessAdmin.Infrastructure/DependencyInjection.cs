@@ -1,6 +1,7 @@
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.DependencyInjection;
+using YallaBusinessAdmin.Application.Analytics;
 using YallaBusinessAdmin.Application.Audit;
 using YallaBusinessAdmin.Application.Auth;
 using YallaBusinessAdmin.Application.Common.Interfaces;
@@ -12,8 +13,10 @@ using YallaBusinessAdmin.Application.Export;
 using YallaBusinessAdmin.Application.Invoices;
 using YallaBusinessAdmin.Application.News;
 using YallaBusinessAdmin.Application.Orders;
+using YallaBusinessAdmin.Application.Partners;
 using YallaBusinessAdmin.Application.Companies;
 using YallaBusinessAdmin.Application.Projects;
+using YallaBusinessAdmin.Application.ServiceAssignments;
 using YallaBusinessAdmin.Application.Subscriptions;
 using YallaBusinessAdmin.Application.Transactions;
 using YallaBusinessAdmin.Application.Users;
@@ -69,6 +72,7 @@ public static class DependencyInjection
         // ═══════════════════════════════════════════════════════════════════════════════
         services.AddSingleton<IPasswordHasher, PasswordHasher>();
         services.AddSingleton<IJwtService, JwtService>();
+        services.AddSingleton<ITotpService, TotpService>();
 
         // ═══════════════════════════════════════════════════════════════════════════════
         // Caching
@@ -86,6 +90,11 @@ public static class DependencyInjection
         // ═══════════════════════════════════════════════════════════════════════════════
         services.AddSingleton<IIdempotencyService, IdempotencyService>();
 
+        // ═══════════════════════════════════════════════════════════════════════════════
+        // Realtime (server push of order / subscription / budget changes)
+        // ═══════════════════════════════════════════════════════════════════════════════
+        services.AddSingleton<IRealtimeEventHub, RealtimeEventHub>();
+
         // ═══════════════════════════════════════════════════════════════════════════════
         // Budget Service (atomic financial operations with concurrency control)
         // ═══════════════════════════════════════════════════════════════════════════════
@@ -95,11 +104,15 @@ public static class DependencyInjection
         // Audit Service (must be registered before AuthService)
         // ═══════════════════════════════════════════════════════════════════════════════
         services.AddScoped<IAuditService, AuditService>();
+        services.AddScoped<IAuditLogService, AuditLogService>();
 
         // ═══════════════════════════════════════════════════════════════════════════════
         // Core Services
         // ═══════════════════════════════════════════════════════════════════════════════
+        services.AddScoped<ITwoFactorService, TwoFactorService>();
+        services.AddScoped<IPasswordPolicyService, PasswordPolicyService>();
         services.AddScoped<IAuthService, AuthService>();
+        services.AddScoped<IUserInvitationService, UserInvitationService>();
         services.AddScoped<IUsersService, UsersService>();
 
         // ═══════════════════════════════════════════════════════════════════════════════
@@ -109,6 +122,7 @@ public static class DependencyInjection
         services.AddScoped<IOrderManagementService, OrderManagementService>();
         services.AddScoped<ISubscriptionManagementService, SubscriptionManagementService>();
         services.AddScoped<ICutoffTimeService, CutoffTimeService>();
+        services.AddScoped<IManifestSnapshotService, ManifestSnapshotService>();
         services.AddScoped<IDashboardService, DashboardService>(); // Facade
 
         // ═══════════════════════════════════════════════════════════════════════════════
@@ -124,13 +138,17 @@ public static class DependencyInjection
         // ═══════════════════════════════════════════════════════════════════════════════
         services.AddScoped<ICompaniesService, CompaniesService>();
         services.AddScoped<IProjectsService, ProjectsService>();
+        services.AddScoped<IProjectSettingsService, ProjectSettingsService>();
         services.AddScoped<ISubscriptionsService, SubscriptionsService>();
         // FREEZE DISABLED: services.AddScoped<IOrderFreezeService, OrderFreezeService>();
         services.AddScoped<IInvoicesService, InvoicesService>();
         services.AddScoped<ITransactionsService, TransactionsService>();
         services.AddScoped<INewsService, NewsService>();
         services.AddScoped<IDocumentsService, DocumentsService>();
+        services.AddScoped<IAnalyticsService, AnalyticsService>();
+        services.AddScoped<IPartnersService, PartnersService>();
         services.AddScoped<IExportService, ExportService>();
+        services.AddScoped<IServiceAssignmentService, ServiceAssignmentService>();
 
         // ═══════════════════════════════════════════════════════════════════════════════
         // Compensation Service
@@ -141,12 +159,16 @@ public static class DependencyInjection
         // External Services
         // ═══════════════════════════════════════════════════════════════════════════════
         services.AddHttpClient<IStorageService, SupabaseStorageService>();
+        services.AddHttpClient<ISmsService, SmsService>();
+        services.AddHttpClient<IPasswordBreachChecker, PwnedPasswordsChecker>();
+        services.AddScoped<IEmailService, EmailService>();
 
         // ═══════════════════════════════════════════════════════════════════════════════
         // Background Jobs
         // ═══════════════════════════════════════════════════════════════════════════════
         services.AddHostedService<DailyOrderGenerationJob>();
         services.AddHostedService<DailySettlementJob>(); // Списание бюджета в конце дня
+        services.AddHostedService<ManifestLockJob>(); // Фиксация манифеста доставки на отсечке
 
         return services;
     }
@@ -24,16 +24,24 @@ public class AppDbContext : DbContext
     public DbSet<Invoice> Invoices => Set<Invoice>();
     public DbSet<CompanyTransaction> CompanyTransactions => Set<CompanyTransaction>();
     public DbSet<CompanyDocument> CompanyDocuments => Set<CompanyDocument>();
+    public DbSet<DocumentViewStatus> DocumentViewStatuses => Set<DocumentViewStatus>();
     public DbSet<SystemNews> SystemNews => Set<SystemNews>();
     public DbSet<NewsReadStatus> NewsReadStatuses => Set<NewsReadStatus>();
 
     // Compensation entities
     public DbSet<CompensationTransaction> CompensationTransactions => Set<CompensationTransaction>();
     public DbSet<EmployeeCompensationBalance> EmployeeCompensationBalances => Set<EmployeeCompensationBalance>();
+    public DbSet<Partner> Partners => Set<Partner>();
+
+    // Delivery manifest entities
+    public DbSet<ManifestSnapshot> ManifestSnapshots => Set<ManifestSnapshot>();
+    public DbSet<ManifestSnapshotEntry> ManifestSnapshotEntries => Set<ManifestSnapshotEntry>();
 
     // Auth and audit entities
     public DbSet<RefreshToken> RefreshTokens => Set<RefreshToken>();
     public DbSet<AuditLog> AuditLogs => Set<AuditLog>();
+    public DbSet<ImpersonationSession> ImpersonationSessions => Set<ImpersonationSession>();
+    public DbSet<AdminInvitation> AdminInvitations => Set<AdminInvitation>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -125,6 +133,12 @@ public class AppDbContext : DbContext
             entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
             entity.Property(e => e.DeletedAt).HasColumnName("deleted_at");
             entity.Property(e => e.LastLoginAt).HasColumnName("last_login_at");
+            entity.Property(e => e.PasswordChangedAt).HasColumnName("password_changed_at");
+            entity.Property(e => e.TwoFactorSecret).HasColumnName("two_factor_secret");
+            entity.Property(e => e.TwoFactorEnabledAt).HasColumnName("two_factor_enabled_at");
+            entity.Property(e => e.TwoFactorBackupCodes).HasColumnName("two_factor_backup_codes");
+            entity.Property(e => e.TwoFactorLastUsedStep).HasColumnName("two_factor_last_used_step");
+            entity.Ignore(e => e.IsTwoFactorEnabled);
 
             entity.HasIndex(e => e.Phone).IsUnique();
             entity.HasOne(e => e.Company)
@@ -434,6 +448,25 @@ public class AppDbContext : DbContext
                 .OnDelete(DeleteBehavior.SetNull);
         });
 
+        // DocumentViewStatus
+        modelBuilder.Entity<DocumentViewStatus>(entity =>
+        {
+            entity.ToTable("document_view_status");
+            entity.HasKey(e => new { e.DocumentId, e.UserId });
+            entity.Property(e => e.DocumentId).HasColumnName("document_id");
+            entity.Property(e => e.UserId).HasColumnName("user_id");
+            entity.Property(e => e.ViewedAt).HasColumnName("viewed_at");
+
+            entity.HasOne(e => e.Document)
+                .WithMany(d => d.ViewStatuses)
+                .HasForeignKey(e => e.DocumentId)
+                .OnDelete(DeleteBehavior.Cascade);
+            entity.HasOne(e => e.User)
+                .WithMany(u => u.DocumentViewStatuses)
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
         // SystemNews
         modelBuilder.Entity<SystemNews>(entity =>
         {
@@ -442,6 +475,10 @@ public class AppDbContext : DbContext
             entity.Property(e => e.Id).HasColumnName("id");
             entity.Property(e => e.Title).HasColumnName("title").IsRequired().HasMaxLength(255);
             entity.Property(e => e.Content).HasColumnName("content").IsRequired();
+            entity.Property(e => e.Category).HasColumnName("category")
+                .HasConversion(
+                    v => v.ToDatabase(),
+                    v => NewsCategoryExtensions.FromDatabase(v));
             entity.Property(e => e.IsPublished).HasColumnName("is_published");
             entity.Property(e => e.PublishedAt).HasColumnName("published_at");
             entity.Property(e => e.TargetRoles).HasColumnName("target_roles");
@@ -475,12 +512,16 @@ public class AppDbContext : DbContext
             entity.HasKey(e => e.Id);
             entity.Property(e => e.Id).HasColumnName("id");
             entity.Property(e => e.UserId).HasColumnName("user_id");
+            entity.Property(e => e.SessionId).HasColumnName("session_id");
             entity.Property(e => e.TokenHash).HasColumnName("token_hash").IsRequired().HasMaxLength(255);
             entity.Property(e => e.ExpiresAt).HasColumnName("expires_at");
             entity.Property(e => e.RevokedAt).HasColumnName("revoked_at");
             entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.LastUsedAt).HasColumnName("last_used_at");
             entity.Property(e => e.DeviceInfo).HasColumnName("device_info");
             entity.Property(e => e.IpAddress).HasColumnName("ip_address").HasMaxLength(45);
+            entity.Property(e => e.ImpersonatedBy).HasColumnName("impersonated_by");
+            entity.Property(e => e.ImpersonationSessionId).HasColumnName("impersonation_session_id");
 
             entity.HasOne(e => e.User)
                 .WithMany(u => u.RefreshTokens)
@@ -488,6 +529,36 @@ public class AppDbContext : DbContext
                 .OnDelete(DeleteBehavior.Cascade);
         });
 
+        // AdminInvitation
+        modelBuilder.Entity<AdminInvitation>(entity =>
+        {
+            entity.ToTable("admin_invitations");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.UserId).HasColumnName("user_id");
+            entity.Property(e => e.TokenHash).HasColumnName("token_hash").IsRequired().HasMaxLength(255);
+            entity.Property(e => e.Channel).HasColumnName("channel").IsRequired().HasMaxLength(10);
+            entity.Property(e => e.SentTo).HasColumnName("sent_to").IsRequired().HasMaxLength(255);
+            entity.Property(e => e.InvitedBy).HasColumnName("invited_by");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.ExpiresAt).HasColumnName("expires_at");
+            entity.Property(e => e.AcceptedAt).HasColumnName("accepted_at");
+            entity.Property(e => e.RevokedAt).HasColumnName("revoked_at");
+            entity.Ignore(e => e.Status);
+
+            entity.HasOne(e => e.User)
+                .WithMany(u => u.Invitations)
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Inviter)
+                .WithMany()
+                .HasForeignKey(e => e.InvitedBy)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasIndex(e => e.TokenHash).IsUnique();
+        });
+
         // AuditLog
         modelBuilder.Entity<AuditLog>(entity =>
         {
@@ -502,12 +573,46 @@ public class AppDbContext : DbContext
             entity.Property(e => e.NewValues).HasColumnName("new_values").HasColumnType("jsonb");
             entity.Property(e => e.IpAddress).HasColumnName("ip_address").HasMaxLength(45);
             entity.Property(e => e.UserAgent).HasColumnName("user_agent");
+            entity.Property(e => e.ImpersonatedBy).HasColumnName("impersonated_by");
             entity.Property(e => e.CreatedAt).HasColumnName("created_at");
 
             entity.HasOne(e => e.User)
                 .WithMany(u => u.AuditLogs)
                 .HasForeignKey(e => e.UserId)
                 .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.Impersonator)
+                .WithMany()
+                .HasForeignKey(e => e.ImpersonatedBy)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        // ImpersonationSession
+        modelBuilder.Entity<ImpersonationSession>(entity =>
+        {
+            entity.ToTable("impersonation_sessions");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.ImpersonatorId).HasColumnName("impersonator_id");
+            entity.Property(e => e.TargetUserId).HasColumnName("target_user_id");
+            entity.Property(e => e.Reason).HasColumnName("reason").IsRequired().HasMaxLength(500);
+            entity.Property(e => e.StartedAt).HasColumnName("started_at");
+            entity.Property(e => e.ExpiresAt).HasColumnName("expires_at");
+            entity.Property(e => e.EndedAt).HasColumnName("ended_at");
+            entity.Property(e => e.IpAddress).HasColumnName("ip_address").HasMaxLength(45);
+            entity.Property(e => e.UserAgent).HasColumnName("user_agent");
+
+            entity.HasOne(e => e.Impersonator)
+                .WithMany()
+                .HasForeignKey(e => e.ImpersonatorId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.TargetUser)
+                .WithMany()
+                .HasForeignKey(e => e.TargetUserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => e.StartedAt);
         });
 
         // CompensationTransaction
@@ -521,6 +626,7 @@ public class AppDbContext : DbContext
             entity.Property(e => e.TotalAmount).HasColumnName("total_amount").HasPrecision(10, 2);
             entity.Property(e => e.CompanyPaidAmount).HasColumnName("company_paid_amount").HasPrecision(10, 2);
             entity.Property(e => e.EmployeePaidAmount).HasColumnName("employee_paid_amount").HasPrecision(10, 2);
+            entity.Property(e => e.PartnerId).HasColumnName("partner_id");
             entity.Property(e => e.RestaurantName).HasColumnName("restaurant_name").HasMaxLength(255);
             entity.Property(e => e.Description).HasColumnName("description");
             entity.Property(e => e.TransactionDate).HasColumnName("transaction_date");
@@ -534,6 +640,10 @@ public class AppDbContext : DbContext
                 .WithMany()
                 .HasForeignKey(e => e.EmployeeId)
                 .OnDelete(DeleteBehavior.Cascade);
+            entity.HasOne(e => e.Partner)
+                .WithMany(p => p.CompensationTransactions)
+                .HasForeignKey(e => e.PartnerId)
+                .OnDelete(DeleteBehavior.SetNull);
 
             // ═══════════════════════════════════════════════════════════════
             // ИНДЕКС для оптимизации запросов компенсаций по дате
@@ -565,5 +675,64 @@ public class AppDbContext : DbContext
                 .HasForeignKey(e => e.ProjectId)
                 .OnDelete(DeleteBehavior.Cascade);
         });
+
+        // Partner
+        modelBuilder.Entity<Partner>(entity =>
+        {
+            entity.ToTable("partners");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.Name).HasColumnName("name").IsRequired().HasMaxLength(255);
+            entity.Property(e => e.Type).HasColumnName("type")
+                .HasConversion(
+                    v => v.ToDatabase(),
+                    v => PartnerTypeExtensions.FromDatabase(v));
+            entity.Property(e => e.Cuisine).HasColumnName("cuisine").HasMaxLength(255);
+            entity.Property(e => e.Address).HasColumnName("address").IsRequired();
+            entity.Property(e => e.Latitude).HasColumnName("latitude");
+            entity.Property(e => e.Longitude).HasColumnName("longitude");
+            entity.Property(e => e.Phone).HasColumnName("phone").HasMaxLength(50);
+            entity.Property(e => e.Email).HasColumnName("email").HasMaxLength(255);
+            entity.Property(e => e.WorkingHours).HasColumnName("working_hours").HasMaxLength(255);
+            entity.Property(e => e.IsActive).HasColumnName("is_active");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+        });
+
+        // ManifestSnapshot
+        modelBuilder.Entity<ManifestSnapshot>(entity =>
+        {
+            entity.ToTable("manifest_snapshots");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CompanyId).HasColumnName("company_id");
+            entity.Property(e => e.ProjectId).HasColumnName("project_id");
+            entity.Property(e => e.Date).HasColumnName("date");
+            entity.Property(e => e.LockedAt).HasColumnName("locked_at");
+
+            entity.HasIndex(e => new { e.ProjectId, e.Date }).IsUnique();
+            entity.HasOne(e => e.Project)
+                .WithMany()
+                .HasForeignKey(e => e.ProjectId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        // ManifestSnapshotEntry
+        modelBuilder.Entity<ManifestSnapshotEntry>(entity =>
+        {
+            entity.ToTable("manifest_snapshot_entries");
+            entity.HasKey(e => new { e.SnapshotId, e.OrderId });
+            entity.Property(e => e.SnapshotId).HasColumnName("snapshot_id");
+            entity.Property(e => e.OrderId).HasColumnName("order_id");
+            entity.Property(e => e.Name).HasColumnName("name").IsRequired();
+            entity.Property(e => e.Phone).HasColumnName("phone");
+            entity.Property(e => e.ComboType).HasColumnName("combo_type").IsRequired().HasMaxLength(50);
+            entity.Property(e => e.IsGuest).HasColumnName("is_guest");
+
+            entity.HasOne(e => e.Snapshot)
+                .WithMany(s => s.Entries)
+                .HasForeignKey(e => e.SnapshotId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
     }
 }
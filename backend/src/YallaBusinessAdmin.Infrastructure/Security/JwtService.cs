@@ -4,6 +4,7 @@ using System.Text;
 using Microsoft.Extensions.Configuration;
 using Microsoft.IdentityModel.Tokens;
 using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Domain.Entities;
 
 namespace YallaBusinessAdmin.Infrastructure.Security;
@@ -16,6 +17,9 @@ public class JwtService : IJwtService
     private readonly string _audience;
     private readonly int _expirationHours;
 
+    private const int TwoFactorChallengeMinutes = 5;
+    private const int PasswordChangeChallengeMinutes = 10;
+
     public JwtService(IConfiguration configuration)
     {
         _configuration = configuration;
@@ -25,7 +29,7 @@ public class JwtService : IJwtService
         _expirationHours = int.Parse(configuration["Jwt:ExpirationHours"] ?? "24");
     }
 
-    public string GenerateToken(AdminUser user, Guid? impersonatedBy = null)
+    public string GenerateToken(AdminUser user, Guid? impersonatedBy = null, DateTime? expiresAt = null, Guid? sessionId = null)
     {
         var securityKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(_secret));
         var credentials = new SigningCredentials(securityKey, SecurityAlgorithms.HmacSha256);
@@ -55,6 +59,21 @@ public class JwtService : IJwtService
             claims.Add(new Claim("project_name", user.Project.Name));
         }
         
+        // Action-level permissions (page routes stay in the login response only)
+        foreach (var permission in PermissionCatalog.Expand(user.Permissions.Select(p => p.Route)))
+        {
+            if (permission.Contains(':'))
+            {
+                claims.Add(new Claim(PermissionCatalog.ClaimType, permission));
+            }
+        }
+        
+        // Session claim: the API rejects the token once the session is logged out
+        if (sessionId.HasValue)
+        {
+            claims.Add(new Claim("session_id", sessionId.Value.ToString()));
+        }
+        
         // Add impersonation claim if this is an impersonated session
         if (impersonatedBy.HasValue)
         {
@@ -65,13 +84,78 @@ public class JwtService : IJwtService
             issuer: _issuer,
             audience: _audience,
             claims: claims,
-            expires: DateTime.UtcNow.AddHours(_expirationHours),
+            expires: expiresAt ?? DateTime.UtcNow.AddHours(_expirationHours),
+            signingCredentials: credentials
+        );
+
+        return new JwtSecurityTokenHandler().WriteToken(token);
+    }
+
+    public string GenerateTwoFactorChallengeToken(Guid userId) =>
+        GenerateChallengeToken(userId, TwoFactorAudience, TwoFactorChallengeMinutes);
+
+    public Guid? ValidateTwoFactorChallengeToken(string token) =>
+        ValidateChallengeToken(token, TwoFactorAudience);
+
+    public string GeneratePasswordChangeToken(Guid userId) =>
+        GenerateChallengeToken(userId, PasswordChangeAudience, PasswordChangeChallengeMinutes);
+
+    public Guid? ValidatePasswordChangeToken(string token) =>
+        ValidateChallengeToken(token, PasswordChangeAudience);
+
+    private string TwoFactorAudience => $"{_audience}:2fa";
+    private string PasswordChangeAudience => $"{_audience}:password-change";
+
+    /// <summary>
+    /// Token for an unfinished login step, bound to its own audience
+    /// </summary>
+    private string GenerateChallengeToken(Guid userId, string audience, int lifetimeMinutes)
+    {
+        var securityKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(_secret));
+        var credentials = new SigningCredentials(securityKey, SecurityAlgorithms.HmacSha256);
+
+        var token = new JwtSecurityToken(
+            issuer: _issuer,
+            audience: audience,
+            claims: new[]
+            {
+                new Claim(JwtRegisteredClaimNames.Sub, userId.ToString()),
+                new Claim(JwtRegisteredClaimNames.Jti, Guid.NewGuid().ToString())
+            },
+            expires: DateTime.UtcNow.AddMinutes(lifetimeMinutes),
             signingCredentials: credentials
         );
 
         return new JwtSecurityTokenHandler().WriteToken(token);
     }
 
+    private Guid? ValidateChallengeToken(string token, string audience)
+    {
+        try
+        {
+            var validationParameters = new TokenValidationParameters
+            {
+                ValidateIssuerSigningKey = true,
+                IssuerSigningKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(_secret)),
+                ValidateIssuer = true,
+                ValidIssuer = _issuer,
+                ValidateAudience = true,
+                ValidAudience = audience,
+                ValidateLifetime = true,
+                ClockSkew = TimeSpan.Zero
+            };
+
+            var principal = new JwtSecurityTokenHandler().ValidateToken(token, validationParameters, out _);
+            var userIdClaim = principal.FindFirst(ClaimTypes.NameIdentifier) ?? principal.FindFirst(JwtRegisteredClaimNames.Sub);
+
+            return userIdClaim != null && Guid.TryParse(userIdClaim.Value, out var userId) ? userId : null;
+        }
+        catch
+        {
+            return null;
+        }
+    }
+
     public (Guid userId, Guid companyId)? ValidateToken(string token)
     {
         try
@@ -0,0 +1,235 @@
+using Microsoft.EntityFrameworkCore;
+using YallaBusinessAdmin.Application.Analytics;
+using YallaBusinessAdmin.Application.Analytics.Dtos;
+using YallaBusinessAdmin.Domain.Enums;
+using YallaBusinessAdmin.Infrastructure.Persistence;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+public class AnalyticsService : IAnalyticsService
+{
+    private readonly AppDbContext _context;
+
+    /// <summary>Longest supported period (a year with a leap day)</summary>
+    private const int MaxPeriodDays = 366;
+
+    private const int TopEmployeesCount = 10;
+
+    public AnalyticsService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<AnalyticsResponse> GetAnalyticsAsync(
+        Guid companyId,
+        DateOnly from,
+        DateOnly to,
+        Guid? projectId,
+        CancellationToken cancellationToken = default)
+    {
+        if (from > to)
+        {
+            throw new ArgumentException("Дата начала периода не может быть позже даты окончания");
+        }
+
+        var periodDays = to.DayNumber - from.DayNumber + 1;
+        if (periodDays > MaxPeriodDays)
+        {
+            throw new ArgumentException($"Период не может превышать {MaxPeriodDays} дней");
+        }
+
+        var company = await _context.Companies
+            .AsNoTracking()
+            .FirstOrDefaultAsync(c => c.Id == companyId, cancellationToken)
+            ?? throw new KeyNotFoundException("Компания не найдена");
+
+        if (projectId.HasValue)
+        {
+            var projectExists = await _context.Projects
+                .AnyAsync(p => p.Id == projectId.Value && p.CompanyId == companyId, cancellationToken);
+            if (!projectExists)
+            {
+                throw new KeyNotFoundException("Проект не найден");
+            }
+        }
+
+        // Previous period of the same length is loaded together with the current one
+        var previousFrom = from.AddDays(-periodDays);
+        var rangeStart = previousFrom.ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc);
+        var rangeEnd = to.AddDays(1).ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc);
+
+        var ordersQuery = _context.Orders
+            .AsNoTracking()
+            .Where(o => o.CompanyId == companyId
+                && o.Status != OrderStatus.Cancelled
+                && o.OrderDate >= rangeStart
+                && o.OrderDate < rangeEnd);
+
+        if (projectId.HasValue)
+        {
+            ordersQuery = ordersQuery.Where(o => o.ProjectId == projectId.Value);
+        }
+
+        var orderRows = await ordersQuery
+            .Select(o => new
+            {
+                o.OrderDate,
+                o.ProjectId,
+                ProjectName = o.Project != null ? o.Project.Name : string.Empty,
+                o.EmployeeId,
+                EmployeeName = o.Employee != null ? o.Employee.FullName : null,
+                o.IsGuestOrder,
+                o.ComboType,
+                o.Price
+            })
+            .ToListAsync(cancellationToken);
+
+        var orders = orderRows
+            .Select(o => new OrderRow(
+                DateOnly.FromDateTime(o.OrderDate),
+                o.ProjectId,
+                o.ProjectName,
+                o.EmployeeId,
+                o.EmployeeName,
+                o.IsGuestOrder,
+                o.ComboType,
+                o.Price))
+            .ToList();
+
+        var compensationQuery = _context.CompensationTransactions
+            .AsNoTracking()
+            .Where(t => t.Project != null && t.Project.CompanyId == companyId
+                && t.TransactionDate >= from
+                && t.TransactionDate <= to);
+
+        if (projectId.HasValue)
+        {
+            compensationQuery = compensationQuery.Where(t => t.ProjectId == projectId.Value);
+        }
+
+        var compensation = await compensationQuery
+            .GroupBy(_ => 1)
+            .Select(g => new { Count = g.Count(), Amount = g.Sum(t => t.CompanyPaidAmount) })
+            .FirstOrDefaultAsync(cancellationToken);
+
+        var current = orders.Where(o => o.Date >= from).ToList();
+        var previous = orders.Where(o => o.Date < from).ToList();
+
+        return new AnalyticsResponse
+        {
+            From = from,
+            To = to,
+            CurrencyCode = company.CurrencyCode,
+            Summary = BuildSummary(current),
+            PreviousSummary = BuildSummary(previous),
+            Timeline = current
+                .GroupBy(o => new { o.Date, o.ProjectId, o.ProjectName })
+                .OrderBy(g => g.Key.Date)
+                .ThenBy(g => g.Key.ProjectName)
+                .Select(g => new AnalyticsTimelinePoint
+                {
+                    Date = g.Key.Date,
+                    ProjectId = g.Key.ProjectId,
+                    ProjectName = g.Key.ProjectName,
+                    Orders = g.Count(),
+                    Spend = g.Sum(o => o.Price)
+                })
+                .ToList(),
+            Weekly = BuildWeekly(orders, from),
+            TopEmployees = current
+                .Where(o => o.EmployeeId.HasValue)
+                .GroupBy(o => o.EmployeeId!.Value)
+                .Select(g => new AnalyticsEmployeeStat
+                {
+                    EmployeeId = g.Key,
+                    FullName = g.First().EmployeeName ?? string.Empty,
+                    ProjectName = g.First().ProjectName,
+                    Orders = g.Count(),
+                    Spend = g.Sum(o => o.Price)
+                })
+                .OrderByDescending(e => e.Spend)
+                .ThenByDescending(e => e.Orders)
+                .Take(TopEmployeesCount)
+                .ToList(),
+            ComboMix = current
+                .GroupBy(o => o.ComboType)
+                .Select(g => new AnalyticsComboStat
+                {
+                    ComboType = g.Key,
+                    Orders = g.Count(),
+                    Spend = g.Sum(o => o.Price)
+                })
+                .OrderBy(c => c.ComboType)
+                .ToList(),
+            ServiceMix = new AnalyticsServiceMix
+            {
+                LunchOrders = current.Count,
+                LunchSpend = current.Sum(o => o.Price),
+                CompensationTransactions = compensation?.Count ?? 0,
+                CompensationSpend = compensation?.Amount ?? 0
+            }
+        };
+    }
+
+    private static AnalyticsSummary BuildSummary(List<OrderRow> orders)
+    {
+        var totalSpend = orders.Sum(o => o.Price);
+        return new AnalyticsSummary
+        {
+            TotalOrders = orders.Count,
+            GuestOrders = orders.Count(o => o.IsGuestOrder),
+            TotalSpend = totalSpend,
+            ActiveEmployees = orders.Where(o => o.EmployeeId.HasValue).Select(o => o.EmployeeId).Distinct().Count(),
+            AverageCheck = orders.Count > 0 ? Math.Round(totalSpend / orders.Count, 2) : 0
+        };
+    }
+
+    /// <summary>
+    /// Weeks (Monday-based) touching the period; the week before is used only as the baseline for the first delta
+    /// </summary>
+    private static List<AnalyticsWeekPoint> BuildWeekly(List<OrderRow> orders, DateOnly from)
+    {
+        var totals = orders
+            .GroupBy(o => StartOfWeek(o.Date))
+            .ToDictionary(g => g.Key, g => (Orders: g.Count(), Spend: g.Sum(o => o.Price)));
+
+        var firstWeek = StartOfWeek(from);
+        var weeks = totals.Keys.Where(w => w >= firstWeek).OrderBy(w => w);
+
+        return weeks.Select(week =>
+        {
+            var (ordersCount, spend) = totals[week];
+            var hasPrevious = totals.TryGetValue(week.AddDays(-7), out var prev);
+            return new AnalyticsWeekPoint
+            {
+                WeekStart = week,
+                Orders = ordersCount,
+                Spend = spend,
+                OrdersChangePercent = hasPrevious ? ChangePercent(ordersCount, prev.Orders) : null,
+                SpendChangePercent = hasPrevious ? ChangePercent(spend, prev.Spend) : null
+            };
+        }).ToList();
+    }
+
+    private static DateOnly StartOfWeek(DateOnly date)
+    {
+        var offset = ((int)date.DayOfWeek + 6) % 7; // Monday = 0
+        return date.AddDays(-offset);
+    }
+
+    private static decimal? ChangePercent(decimal current, decimal previous)
+    {
+        if (previous == 0) return null;
+        return Math.Round((current - previous) / previous * 100, 1);
+    }
+
+    private record OrderRow(
+        DateOnly Date,
+        Guid ProjectId,
+        string ProjectName,
+        Guid? EmployeeId,
+        string? EmployeeName,
+        bool IsGuestOrder,
+        string ComboType,
+        decimal Price);
+}
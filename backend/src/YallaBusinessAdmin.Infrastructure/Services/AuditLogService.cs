@@ -0,0 +1,209 @@
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using YallaBusinessAdmin.Application.Audit;
+using YallaBusinessAdmin.Application.Audit.Dtos;
+using YallaBusinessAdmin.Application.Common.Models;
+using YallaBusinessAdmin.Domain.Entities;
+using YallaBusinessAdmin.Infrastructure.Persistence;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+public class AuditLogService : IAuditLogService
+{
+    private readonly AppDbContext _context;
+
+    private const int MaxPageSize = 100;
+
+    public AuditLogService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<PagedResult<AuditLogResponse>> GetAllAsync(
+        Guid companyId,
+        Guid? projectId,
+        AuditLogFilter filter,
+        int page,
+        int pageSize,
+        CancellationToken cancellationToken = default)
+    {
+        page = Math.Max(page, 1);
+        pageSize = Math.Clamp(pageSize, 1, MaxPageSize);
+
+        var query = CompanyLogs(companyId, projectId);
+
+        if (filter.UserId.HasValue)
+            query = query.Where(a => a.UserId == filter.UserId);
+
+        if (!string.IsNullOrWhiteSpace(filter.EntityType))
+            query = query.Where(a => a.EntityType == filter.EntityType);
+
+        if (filter.EntityId.HasValue)
+            query = query.Where(a => a.EntityId == filter.EntityId);
+
+        if (!string.IsNullOrWhiteSpace(filter.Action))
+            query = query.Where(a => a.Action == filter.Action);
+
+        if (filter.From.HasValue)
+            query = query.Where(a => a.CreatedAt >= filter.From.Value);
+
+        if (filter.To.HasValue)
+            query = query.Where(a => a.CreatedAt < filter.To.Value);
+
+        var total = await query.CountAsync(cancellationToken);
+
+        var logs = await query
+            .OrderByDescending(a => a.CreatedAt)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .Select(a => new
+            {
+                Log = a,
+                UserName = a.User != null ? a.User.FullName : null,
+                ImpersonatorName = a.Impersonator != null ? a.Impersonator.FullName : null
+            })
+            .ToListAsync(cancellationToken);
+
+        var entityNames = await GetEntityNamesAsync(
+            companyId,
+            logs.Where(l => l.Log.EntityId.HasValue).Select(l => l.Log.EntityId!.Value).Distinct().ToList(),
+            cancellationToken);
+
+        var items = logs.Select(l => new AuditLogResponse
+        {
+            Id = l.Log.Id,
+            UserId = l.Log.UserId,
+            UserName = l.UserName,
+            Action = l.Log.Action,
+            EntityType = l.Log.EntityType,
+            EntityId = l.Log.EntityId,
+            EntityName = l.Log.EntityId.HasValue ? entityNames.GetValueOrDefault(l.Log.EntityId.Value) : null,
+            OldValues = ParseJson(l.Log.OldValues),
+            NewValues = ParseJson(l.Log.NewValues),
+            IpAddress = l.Log.IpAddress,
+            UserAgent = l.Log.UserAgent,
+            ImpersonatedBy = l.Log.ImpersonatedBy,
+            ImpersonatorName = l.ImpersonatorName,
+            CreatedAt = l.Log.CreatedAt
+        });
+
+        return PagedResult<AuditLogResponse>.Create(items, total, page, pageSize);
+    }
+
+    public async Task<AuditLogFilterOptionsResponse> GetFilterOptionsAsync(
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken = default)
+    {
+        var logs = CompanyLogs(companyId, projectId);
+
+        var users = await _context.AdminUsers
+            .AsNoTracking()
+            .Where(u => u.CompanyId == companyId && logs.Any(a => a.UserId == u.Id))
+            .OrderBy(u => u.FullName)
+            .Select(u => new AuditLogUserOption { Id = u.Id, FullName = u.FullName })
+            .ToListAsync(cancellationToken);
+
+        var entityTypes = await logs
+            .Select(a => a.EntityType)
+            .Distinct()
+            .OrderBy(t => t)
+            .ToListAsync(cancellationToken);
+
+        var actions = await logs
+            .Select(a => a.Action)
+            .Distinct()
+            .OrderBy(a => a)
+            .ToListAsync(cancellationToken);
+
+        return new AuditLogFilterOptionsResponse
+        {
+            Users = users,
+            EntityTypes = entityTypes,
+            Actions = actions
+        };
+    }
+
+    /// <summary>
+    /// Entries written by company admins or about company employees/projects.
+    /// The second part keeps system changes (user_id is null), e.g. budget auto-renewal.
+    /// With a project (branch admins) only entries about the project, its employees
+    /// and its admins remain; entries without an entity follow their author's project.
+    /// </summary>
+    private IQueryable<AuditLog> CompanyLogs(Guid companyId, Guid? projectId)
+    {
+        var query = _context.AuditLogs
+            .AsNoTracking()
+            .Where(a =>
+                (a.User != null && a.User.CompanyId == companyId) ||
+                (a.EntityId != null && (
+                    _context.Employees.Any(e => e.Id == a.EntityId && e.CompanyId == companyId) ||
+                    _context.Projects.Any(p => p.Id == a.EntityId && p.CompanyId == companyId))));
+
+        if (projectId.HasValue)
+        {
+            query = query.Where(a => a.EntityId != null
+                ? a.EntityId == projectId ||
+                  _context.Employees.Any(e => e.Id == a.EntityId && e.ProjectId == projectId) ||
+                  _context.AdminUsers.Any(u => u.Id == a.EntityId && u.ProjectId == projectId)
+                : a.User != null && a.User.ProjectId == projectId);
+        }
+
+        return query;
+    }
+
+    /// <summary>
+    /// Resolves display names for entity ids. Budget entries are keyed by employee id,
+    /// so one lookup per table covers every entity type we log.
+    /// </summary>
+    private async Task<Dictionary<Guid, string>> GetEntityNamesAsync(
+        Guid companyId,
+        List<Guid> ids,
+        CancellationToken cancellationToken)
+    {
+        var names = new Dictionary<Guid, string>();
+        if (ids.Count == 0)
+            return names;
+
+        var employees = await _context.Employees
+            .AsNoTracking()
+            .Where(e => ids.Contains(e.Id) && e.CompanyId == companyId)
+            .Select(e => new { e.Id, e.FullName })
+            .ToListAsync(cancellationToken);
+
+        var projects = await _context.Projects
+            .AsNoTracking()
+            .Where(p => ids.Contains(p.Id) && p.CompanyId == companyId)
+            .Select(p => new { p.Id, p.Name })
+            .ToListAsync(cancellationToken);
+
+        var users = await _context.AdminUsers
+            .AsNoTracking()
+            .Where(u => ids.Contains(u.Id) && u.CompanyId == companyId)
+            .Select(u => new { u.Id, u.FullName })
+            .ToListAsync(cancellationToken);
+
+        foreach (var e in employees) names[e.Id] = e.FullName;
+        foreach (var p in projects) names[p.Id] = p.Name;
+        foreach (var u in users) names[u.Id] = u.FullName;
+
+        return names;
+    }
+
+    private static JsonElement? ParseJson(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+            return null;
+
+        try
+        {
+            using var document = JsonDocument.Parse(json);
+            return document.RootElement.Clone();
+        }
+        catch (JsonException)
+        {
+            // Legacy rows may hold plain text; show them as a single value
+            return JsonSerializer.SerializeToElement(json);
+        }
+    }
+}
@@ -39,6 +39,15 @@ public class AuditService : IAuditService
         
         var correlationId = httpContext?.Items["CorrelationId"]?.ToString();
 
+        // Actions of an impersonated session are attributed to the target user and tagged
+        // with the SUPER_ADMIN behind them (but not that admin's own "stop impersonation")
+        Guid? impersonatedBy = null;
+        var impersonatedByClaim = httpContext?.User.FindFirst("impersonated_by")?.Value;
+        if (Guid.TryParse(impersonatedByClaim, out var impersonatorId) && impersonatorId != userId)
+        {
+            impersonatedBy = impersonatorId;
+        }
+
         // Mask sensitive data before storing in database
         // Note: Full data is stored for compliance, but logging uses masked version
         var maskedOldValues = oldValues != null ? MaskSensitiveData(oldValues) : null;
@@ -57,13 +66,14 @@ public class AuditService : IAuditService
             // Mask IP address in storage
             IpAddress = PiiMasker.MaskIpAddress(ipAddress),
             UserAgent = TruncateUserAgent(userAgent),
+            ImpersonatedBy = impersonatedBy,
             CreatedAt = DateTime.UtcNow
         };
 
         // Log MASKED data for real-time monitoring (no PII in logs)
         _logger.LogInformation(
-            "[AUDIT] {Action} {EntityType} {EntityId} by User {UserId} from {MaskedIP} (CorrelationId: {CorrelationId})",
-            action, entityType, entityId, userId, PiiMasker.MaskIpAddress(ipAddress), correlationId);
+            "[AUDIT] {Action} {EntityType} {EntityId} by User {UserId} (impersonated by {ImpersonatedBy}) from {MaskedIP} (CorrelationId: {CorrelationId})",
+            action, entityType, entityId, userId, impersonatedBy, PiiMasker.MaskIpAddress(ipAddress), correlationId);
 
         // Log detailed changes at Debug level (masked)
         if (maskedNewValues != null)
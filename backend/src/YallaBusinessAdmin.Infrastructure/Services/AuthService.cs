@@ -1,12 +1,14 @@
 using System.Security.Cryptography;
 using System.Text;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
 using YallaBusinessAdmin.Application.Audit;
 using YallaBusinessAdmin.Application.Auth;
 using YallaBusinessAdmin.Application.Auth.Dtos;
 using YallaBusinessAdmin.Application.Common;
 using YallaBusinessAdmin.Application.Common.Interfaces;
-using YallaBusinessAdmin.Application.Common.Validators;
+using YallaBusinessAdmin.Application.Common.Models;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Common.Errors;
 using YallaBusinessAdmin.Domain.Entities;
 using YallaBusinessAdmin.Domain.Enums;
@@ -20,20 +22,32 @@ public class AuthService : IAuthService
     private readonly IPasswordHasher _passwordHasher;
     private readonly IJwtService _jwtService;
     private readonly IAuditService _auditService;
+    private readonly ITwoFactorService _twoFactorService;
+    private readonly IPasswordPolicyService _passwordPolicy;
+    private readonly TimeSpan _impersonationDuration;
     
     // Refresh token validity period (7 days)
     private const int RefreshTokenExpirationDays = 7;
 
+    private const int MinImpersonationReasonLength = 10;
+    private const int MaxHistoryPageSize = 100;
+
     public AuthService(
         AppDbContext context, 
         IPasswordHasher passwordHasher, 
         IJwtService jwtService,
-        IAuditService auditService)
+        IAuditService auditService,
+        ITwoFactorService twoFactorService,
+        IPasswordPolicyService passwordPolicy,
+        IConfiguration configuration)
     {
         _context = context;
         _passwordHasher = passwordHasher;
         _jwtService = jwtService;
         _auditService = auditService;
+        _twoFactorService = twoFactorService;
+        _passwordPolicy = passwordPolicy;
+        _impersonationDuration = TimeSpan.FromMinutes(int.Parse(configuration["Impersonation:DurationMinutes"] ?? "60"));
     }
 
     public async Task<LoginResponse> LoginAsync(
@@ -81,11 +95,144 @@ public class AuthService : IAuthService
             throw new UnauthorizedAccessException("Неверный логин или пароль");
         }
 
+        if (user.IsTwoFactorEnabled)
+        {
+            // Password is right, but tokens are issued only after the code
+            return new LoginResponse
+            {
+                RequiresTwoFactor = true,
+                TwoFactorChallengeToken = _jwtService.GenerateTwoFactorChallengeToken(user.Id)
+            };
+        }
+
+        if (_passwordPolicy.IsExpired(user))
+        {
+            return PasswordChangeChallenge(user);
+        }
+
+        return await CompleteLoginAsync(user, ipAddress, userAgent, cancellationToken);
+    }
+
+    public async Task<LoginResponse> LoginWithTwoFactorAsync(
+        TwoFactorLoginRequest request,
+        string? ipAddress = null,
+        string? userAgent = null,
+        CancellationToken cancellationToken = default)
+    {
+        var userId = _jwtService.ValidateTwoFactorChallengeToken(request.ChallengeToken);
+        if (userId == null)
+        {
+            throw new UnauthorizedAccessException("Время на ввод кода истекло. Войдите заново");
+        }
+
+        var user = await _context.AdminUsers
+            .Include(u => u.Permissions)
+            .Include(u => u.Project)
+            .Include(u => u.Company)
+            .FirstOrDefaultAsync(u => u.Id == userId.Value, cancellationToken);
+
+        // Blocked or 2FA reset while the code was being typed
+        if (user == null || user.Status == AdminStatus.Blocked || !user.IsTwoFactorEnabled)
+        {
+            throw new UnauthorizedAccessException("Войдите заново");
+        }
+
+        if (!await _twoFactorService.VerifyLoginCodeAsync(user, request.Code, cancellationToken))
+        {
+            await _auditService.LogAsync(user.Id, AuditActions.LoginFailed, AuditEntityTypes.User, user.Id,
+                newValues: new { reason = "Invalid two-factor code" },
+                ipAddress: ipAddress, userAgent: userAgent, cancellationToken: cancellationToken);
+            throw new UnauthorizedAccessException("Неверный код подтверждения");
+        }
+
+        if (_passwordPolicy.IsExpired(user))
+        {
+            return PasswordChangeChallenge(user);
+        }
+
+        return await CompleteLoginAsync(user, ipAddress, userAgent, cancellationToken);
+    }
+
+    public async Task<LoginResponse> ChangeExpiredPasswordAsync(
+        ExpiredPasswordChangeRequest request,
+        string? ipAddress = null,
+        string? userAgent = null,
+        CancellationToken cancellationToken = default)
+    {
+        var userId = _jwtService.ValidatePasswordChangeToken(request.ChallengeToken);
+        if (userId == null)
+        {
+            throw new UnauthorizedAccessException("Время на смену пароля истекло. Войдите заново");
+        }
+
+        var user = await _context.AdminUsers
+            .Include(u => u.Permissions)
+            .Include(u => u.Project)
+            .Include(u => u.Company)
+            .FirstOrDefaultAsync(u => u.Id == userId.Value, cancellationToken);
+
+        if (user == null || user.Status == AdminStatus.Blocked)
+        {
+            throw new UnauthorizedAccessException("Войдите заново");
+        }
+
+        await _passwordPolicy.EnsureAcceptableAsync(request.NewPassword, cancellationToken);
+        EnsureNotCurrentPassword(user, request.NewPassword);
+
+        user.PasswordHash = _passwordHasher.Hash(request.NewPassword);
+        user.PasswordChangedAt = DateTime.UtcNow;
+        user.UpdatedAt = DateTime.UtcNow;
+
+        // Sessions opened with the old password end here
+        var userTokens = await _context.RefreshTokens
+            .Where(t => t.UserId == user.Id && t.RevokedAt == null)
+            .ToListAsync(cancellationToken);
+
+        foreach (var token in userTokens)
+        {
+            token.RevokedAt = DateTime.UtcNow;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        await _auditService.LogAsync(user.Id, AuditActions.PasswordChange, AuditEntityTypes.User, user.Id,
+            oldValues: new { passwordHash = "***" },
+            newValues: new { passwordHash = "***", status = "success", reason = "Password expired" },
+            ipAddress: ipAddress, userAgent: userAgent, cancellationToken: cancellationToken);
+
+        return await CompleteLoginAsync(user, ipAddress, userAgent, cancellationToken);
+    }
+
+    private LoginResponse PasswordChangeChallenge(AdminUser user) => new()
+    {
+        // Password is right but too old: tokens are issued only after a new one is set
+        RequiresPasswordChange = true,
+        PasswordChangeToken = _jwtService.GeneratePasswordChangeToken(user.Id)
+    };
+
+    private void EnsureNotCurrentPassword(AdminUser user, string newPassword)
+    {
+        if (_passwordHasher.Verify(newPassword, user.PasswordHash))
+        {
+            throw new AppException(
+                ErrorCodes.AUTH_PASSWORD_REUSED,
+                ErrorMessages.GetMessage(ErrorCodes.AUTH_PASSWORD_REUSED),
+                ErrorType.Validation);
+        }
+    }
+
+    private async Task<LoginResponse> CompleteLoginAsync(
+        AdminUser user,
+        string? ipAddress,
+        string? userAgent,
+        CancellationToken cancellationToken)
+    {
         // Update last login time
         user.LastLoginAt = DateTime.UtcNow;
         
-        // Generate tokens
-        var accessToken = _jwtService.GenerateToken(user);
+        // Generate tokens; the first refresh token id names the session
+        var sessionId = Guid.NewGuid();
+        var accessToken = _jwtService.GenerateToken(user, sessionId: sessionId);
         var refreshToken = GenerateRefreshToken();
         var refreshTokenHash = HashToken(refreshToken);
         var expiresAt = DateTimeOffset.UtcNow.AddHours(24).ToUnixTimeMilliseconds();
@@ -93,7 +240,8 @@ public class AuthService : IAuthService
         // Store refresh token
         var refreshTokenEntity = new RefreshToken
         {
-            Id = Guid.NewGuid(),
+            Id = sessionId,
+            SessionId = sessionId,
             UserId = user.Id,
             TokenHash = refreshTokenHash,
             ExpiresAt = DateTime.UtcNow.AddDays(RefreshTokenExpirationDays),
@@ -128,7 +276,7 @@ public class AuthService : IAuthService
                 ProjectName = user.Project?.Name,
                 IsHeadquarters = user.Project?.IsHeadquarters ?? false,
                 ProjectServiceTypes = user.Project?.ServiceTypes,
-                Permissions = user.Permissions.Select(p => p.Route)
+                Permissions = PermissionCatalog.Expand(user.Permissions.Select(p => p.Route))
             }
         };
     }
@@ -154,10 +302,27 @@ public class AuthService : IAuthService
             throw new UnauthorizedAccessException("Недействительный refresh token");
         }
 
-        if (!storedToken.IsActive)
+        if (storedToken.IsRevoked)
         {
-            // Token is revoked or expired - could be token reuse attack
-            throw new UnauthorizedAccessException("Refresh token истек или был отозван");
+            // Logged out from another device, rotated already, or a token reuse attack
+            throw new UnauthorizedAccessException("Сессия завершена. Войдите заново");
+        }
+
+        if (storedToken.IsExpired)
+        {
+            throw new UnauthorizedAccessException("Сессия истекла. Войдите заново");
+        }
+
+        if (storedToken.ImpersonationSessionId.HasValue)
+        {
+            // A stopped or replaced impersonation session must not be extended
+            var impersonationSessionId = storedToken.ImpersonationSessionId.Value;
+            var sessionEnded = await _context.ImpersonationSessions
+                .AnyAsync(s => s.Id == impersonationSessionId && s.EndedAt != null, cancellationToken);
+            if (sessionEnded)
+            {
+                throw new UnauthorizedAccessException("Сессия имперсонации завершена. Войдите заново");
+            }
         }
 
         var user = storedToken.User;
@@ -168,23 +333,34 @@ public class AuthService : IAuthService
 
         // Revoke old token
         storedToken.RevokedAt = DateTime.UtcNow;
+
+        // An impersonation token stays impersonated and never outlives its session
+        var isImpersonation = storedToken.ImpersonatedBy.HasValue;
         
         // Generate new tokens
-        var accessToken = _jwtService.GenerateToken(user);
+        var accessToken = isImpersonation
+            ? _jwtService.GenerateToken(user, storedToken.ImpersonatedBy, storedToken.ExpiresAt, storedToken.SessionId)
+            : _jwtService.GenerateToken(user, sessionId: storedToken.SessionId);
         var newRefreshToken = GenerateRefreshToken();
         var newRefreshTokenHash = HashToken(newRefreshToken);
-        var expiresAt = DateTimeOffset.UtcNow.AddHours(24).ToUnixTimeMilliseconds();
+        var expiresAt = isImpersonation
+            ? new DateTimeOffset(storedToken.ExpiresAt, TimeSpan.Zero).ToUnixTimeMilliseconds()
+            : DateTimeOffset.UtcNow.AddHours(24).ToUnixTimeMilliseconds();
         
-        // Store new refresh token
+        // Store new refresh token - same session, so keep its start time
         var newRefreshTokenEntity = new RefreshToken
         {
             Id = Guid.NewGuid(),
+            SessionId = storedToken.SessionId,
             UserId = user.Id,
             TokenHash = newRefreshTokenHash,
-            ExpiresAt = DateTime.UtcNow.AddDays(RefreshTokenExpirationDays),
-            CreatedAt = DateTime.UtcNow,
+            ExpiresAt = isImpersonation ? storedToken.ExpiresAt : DateTime.UtcNow.AddDays(RefreshTokenExpirationDays),
+            CreatedAt = storedToken.CreatedAt,
+            LastUsedAt = DateTime.UtcNow,
             IpAddress = ipAddress,
-            DeviceInfo = storedToken.DeviceInfo
+            DeviceInfo = storedToken.DeviceInfo,
+            ImpersonatedBy = storedToken.ImpersonatedBy,
+            ImpersonationSessionId = storedToken.ImpersonationSessionId
         };
         
         await _context.RefreshTokens.AddAsync(newRefreshTokenEntity, cancellationToken);
@@ -195,6 +371,9 @@ public class AuthService : IAuthService
             Token = accessToken,
             RefreshToken = newRefreshToken,
             ExpiresAt = expiresAt,
+            IsImpersonating = isImpersonation,
+            ImpersonatedBy = storedToken.ImpersonatedBy,
+            ImpersonationExpiresAt = isImpersonation ? expiresAt : null,
             User = new UserDto
             {
                 Id = user.Id,
@@ -209,7 +388,7 @@ public class AuthService : IAuthService
                 ProjectName = user.Project?.Name,
                 IsHeadquarters = user.Project?.IsHeadquarters ?? false,
                 ProjectServiceTypes = user.Project?.ServiceTypes,
-                Permissions = user.Permissions.Select(p => p.Route)
+                Permissions = PermissionCatalog.Expand(user.Permissions.Select(p => p.Route))
             }
         };
     }
@@ -233,6 +412,102 @@ public class AuthService : IAuthService
             cancellationToken: cancellationToken);
     }
 
+    public async Task<IReadOnlyList<SessionDto>> GetSessionsAsync(
+        Guid userId,
+        string? currentRefreshToken,
+        CancellationToken cancellationToken = default)
+    {
+        var currentHash = string.IsNullOrEmpty(currentRefreshToken) ? null : HashToken(currentRefreshToken);
+        var now = DateTime.UtcNow;
+
+        var tokens = await _context.RefreshTokens
+            .AsNoTracking()
+            .Where(t => t.UserId == userId && t.RevokedAt == null && t.ExpiresAt > now)
+            .ToListAsync(cancellationToken);
+
+        return tokens
+            .Select(t => new SessionDto
+            {
+                Id = t.Id,
+                DeviceInfo = t.DeviceInfo,
+                IpAddress = t.IpAddress,
+                CreatedAt = t.CreatedAt,
+                LastActivityAt = t.LastUsedAt ?? t.CreatedAt,
+                ExpiresAt = t.ExpiresAt,
+                IsCurrent = t.TokenHash == currentHash
+            })
+            .OrderByDescending(s => s.IsCurrent)
+            .ThenByDescending(s => s.LastActivityAt)
+            .ToList();
+    }
+
+    public Task<bool> IsSessionActiveAsync(Guid sessionId, CancellationToken cancellationToken = default)
+    {
+        var now = DateTime.UtcNow;
+        return _context.RefreshTokens
+            .AnyAsync(t => t.SessionId == sessionId && t.RevokedAt == null && t.ExpiresAt > now, cancellationToken);
+    }
+
+    public async Task<bool> RevokeSessionAsync(
+        Guid userId,
+        Guid sessionId,
+        string? currentRefreshToken,
+        CancellationToken cancellationToken = default)
+    {
+        var token = await _context.RefreshTokens
+            .FirstOrDefaultAsync(t => t.Id == sessionId && t.UserId == userId && t.RevokedAt == null, cancellationToken);
+
+        if (token == null)
+        {
+            throw new KeyNotFoundException("Сессия не найдена или уже завершена");
+        }
+
+        token.RevokedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        await _auditService.LogAsync(userId, AuditActions.SessionRevoke, AuditEntityTypes.User, userId,
+            newValues: new { sessionId, token.DeviceInfo, token.IpAddress },
+            cancellationToken: cancellationToken);
+
+        return !string.IsNullOrEmpty(currentRefreshToken) && token.TokenHash == HashToken(currentRefreshToken);
+    }
+
+    public async Task<int> RevokeOtherSessionsAsync(
+        Guid userId,
+        string? currentRefreshToken,
+        CancellationToken cancellationToken = default)
+    {
+        // Without the current token we cannot tell which session to keep
+        if (string.IsNullOrEmpty(currentRefreshToken))
+        {
+            throw new InvalidOperationException("Не удалось определить текущую сессию. Войдите заново");
+        }
+
+        var currentHash = HashToken(currentRefreshToken);
+
+        var tokens = await _context.RefreshTokens
+            .Where(t => t.UserId == userId && t.RevokedAt == null && t.TokenHash != currentHash)
+            .ToListAsync(cancellationToken);
+
+        if (tokens.Count == 0)
+        {
+            return 0;
+        }
+
+        var revokedAt = DateTime.UtcNow;
+        foreach (var token in tokens)
+        {
+            token.RevokedAt = revokedAt;
+        }
+        await _context.SaveChangesAsync(cancellationToken);
+
+        await _auditService.LogAsync(userId, AuditActions.SessionRevoke, AuditEntityTypes.User, userId,
+            newValues: new { revokedCount = tokens.Count },
+            cancellationToken: cancellationToken);
+
+        return tokens.Count;
+    }
+
     public async Task<object> ForgotPasswordAsync(ForgotPasswordRequest request, CancellationToken cancellationToken = default)
     {
         var user = await _context.AdminUsers
@@ -258,17 +533,8 @@ public class AuthService : IAuthService
 
     public async Task<object> ResetPasswordAsync(ResetPasswordRequest request, CancellationToken cancellationToken = default)
     {
-        // Validate password complexity
-        var passwordValidation = PasswordValidator.Validate(request.Password);
-        if (!passwordValidation.IsValid)
-        {
-            throw new AppException(
-                ErrorCodes.AUTH_PASSWORD_WEAK,
-                passwordValidation.ErrorMessage,
-                ErrorType.Validation,
-                new Dictionary<string, object> { { "errors", passwordValidation.Errors } }
-            );
-        }
+        // Validate password complexity and known breaches
+        await _passwordPolicy.EnsureAcceptableAsync(request.Password, cancellationToken);
 
         var tokenData = _jwtService.ValidateToken(request.Token);
         if (tokenData == null)
@@ -286,6 +552,7 @@ public class AuthService : IAuthService
 
         var oldPasswordHash = user.PasswordHash;
         user.PasswordHash = _passwordHasher.Hash(request.Password);
+        user.PasswordChangedAt = DateTime.UtcNow;
         if (user.Status == AdminStatus.Inactive)
         {
             user.Status = AdminStatus.Active;
@@ -318,17 +585,8 @@ public class AuthService : IAuthService
         string? ipAddress = null,
         CancellationToken cancellationToken = default)
     {
-        // Validate new password complexity
-        var passwordValidation = PasswordValidator.Validate(request.NewPassword);
-        if (!passwordValidation.IsValid)
-        {
-            throw new AppException(
-                ErrorCodes.AUTH_PASSWORD_WEAK,
-                passwordValidation.ErrorMessage,
-                ErrorType.Validation,
-                new Dictionary<string, object> { { "errors", passwordValidation.Errors } }
-            );
-        }
+        // Validate new password complexity and known breaches
+        await _passwordPolicy.EnsureAcceptableAsync(request.NewPassword, cancellationToken);
 
         var user = await _context.AdminUsers
             .Include(u => u.Permissions)
@@ -348,7 +606,10 @@ public class AuthService : IAuthService
             throw new UnauthorizedAccessException("Неверный текущий пароль");
         }
 
+        EnsureNotCurrentPassword(user, request.NewPassword);
+
         user.PasswordHash = _passwordHasher.Hash(request.NewPassword);
+        user.PasswordChangedAt = DateTime.UtcNow;
         if (user.Status == AdminStatus.Inactive)
         {
             user.Status = AdminStatus.Active;
@@ -387,7 +648,7 @@ public class AuthService : IAuthService
                 ProjectName = user.Project?.Name,
                 IsHeadquarters = user.Project?.IsHeadquarters ?? false,
                 ProjectServiceTypes = user.Project?.ServiceTypes,
-                Permissions = user.Permissions.Select(p => p.Route)
+                Permissions = PermissionCatalog.Expand(user.Permissions.Select(p => p.Route))
             }
         };
     }
@@ -442,7 +703,7 @@ public class AuthService : IAuthService
             ProjectName = user.Project?.Name,
             IsHeadquarters = user.Project?.IsHeadquarters ?? false,
             ProjectServiceTypes = user.Project?.ServiceTypes,
-            Permissions = user.Permissions.Select(p => p.Route)
+            Permissions = PermissionCatalog.Expand(user.Permissions.Select(p => p.Route))
         };
     }
 
@@ -472,7 +733,7 @@ public class AuthService : IAuthService
             ProjectName = user.Project?.Name,
             IsHeadquarters = user.Project?.IsHeadquarters ?? false,
             ProjectServiceTypes = user.Project?.ServiceTypes,
-            Permissions = user.Permissions.Select(p => p.Route),
+            Permissions = PermissionCatalog.Expand(user.Permissions.Select(p => p.Route)),
             LastLoginAt = user.LastLoginAt,
             CreatedAt = user.CreatedAt,
             Company = user.Company != null ? new CompanyInfoDto
@@ -505,10 +766,18 @@ public class AuthService : IAuthService
     public async Task<LoginResponse> ImpersonateAsync(
         Guid targetUserId, 
         Guid impersonatorId, 
+        string reason,
         string? ipAddress = null, 
         string? userAgent = null,
         CancellationToken cancellationToken = default)
     {
+        reason = reason?.Trim() ?? string.Empty;
+        if (reason.Length < MinImpersonationReasonLength)
+        {
+            throw new InvalidOperationException(
+                $"Укажите причину входа от имени пользователя (не менее {MinImpersonationReasonLength} символов)");
+        }
+
         // Get the target user to impersonate
         var targetUser = await _context.AdminUsers
             .Include(u => u.Permissions)
@@ -526,30 +795,65 @@ public class AuthService : IAuthService
             throw new InvalidOperationException("Невозможно войти под заблокированным пользователем");
         }
 
-        // Generate token with impersonation claim
-        var accessToken = _jwtService.GenerateToken(targetUser, impersonatorId);
+        var now = DateTime.UtcNow;
+
+        // One impersonation at a time: starting a new one closes the previous session
+        var previousSessions = await _context.ImpersonationSessions
+            .Where(s => s.ImpersonatorId == impersonatorId && s.EndedAt == null && s.ExpiresAt > now)
+            .ToListAsync(cancellationToken);
+        foreach (var previous in previousSessions)
+        {
+            previous.EndedAt = now;
+            await RevokeImpersonationTokensAsync(impersonatorId, previous.TargetUserId, now, cancellationToken);
+        }
+
+        var session = new ImpersonationSession
+        {
+            Id = Guid.NewGuid(),
+            ImpersonatorId = impersonatorId,
+            TargetUserId = targetUser.Id,
+            Reason = reason,
+            StartedAt = now,
+            ExpiresAt = now.Add(_impersonationDuration),
+            IpAddress = ipAddress,
+            UserAgent = userAgent
+        };
+
+        // Generate token with impersonation claim, valid until the session expires
+        var tokenSessionId = Guid.NewGuid();
+        var accessToken = _jwtService.GenerateToken(targetUser, impersonatorId, session.ExpiresAt, tokenSessionId);
         var refreshToken = GenerateRefreshToken();
         var refreshTokenHash = HashToken(refreshToken);
-        var expiresAt = DateTimeOffset.UtcNow.AddHours(24).ToUnixTimeMilliseconds();
+        var expiresAt = new DateTimeOffset(session.ExpiresAt, TimeSpan.Zero).ToUnixTimeMilliseconds();
         
         // Store refresh token
         var refreshTokenEntity = new RefreshToken
         {
-            Id = Guid.NewGuid(),
+            Id = tokenSessionId,
+            SessionId = tokenSessionId,
             UserId = targetUser.Id,
             TokenHash = refreshTokenHash,
-            ExpiresAt = DateTime.UtcNow.AddDays(RefreshTokenExpirationDays),
-            CreatedAt = DateTime.UtcNow,
+            ExpiresAt = session.ExpiresAt,
+            CreatedAt = now,
             IpAddress = ipAddress,
-            DeviceInfo = userAgent
+            DeviceInfo = userAgent,
+            ImpersonatedBy = impersonatorId,
+            ImpersonationSessionId = session.Id
         };
         
+        await _context.ImpersonationSessions.AddAsync(session, cancellationToken);
         await _context.RefreshTokens.AddAsync(refreshTokenEntity, cancellationToken);
         await _context.SaveChangesAsync(cancellationToken);
 
         // Audit log
-        await _auditService.LogAsync(impersonatorId, "IMPERSONATE", AuditEntityTypes.User, targetUserId,
-            newValues: new { targetUser = targetUser.FullName, targetCompany = targetUser.Company?.Name },
+        await _auditService.LogAsync(impersonatorId, AuditActions.Impersonate, AuditEntityTypes.User, targetUserId,
+            newValues: new
+            {
+                targetUser = targetUser.FullName,
+                targetCompany = targetUser.Company?.Name,
+                reason,
+                expiresAt = session.ExpiresAt
+            },
             ipAddress: ipAddress, userAgent: userAgent, cancellationToken: cancellationToken);
 
         return new LoginResponse
@@ -559,6 +863,8 @@ public class AuthService : IAuthService
             ExpiresAt = expiresAt,
             IsImpersonating = true,
             ImpersonatedBy = impersonatorId,
+            ImpersonationExpiresAt = expiresAt,
+            ImpersonationReason = reason,
             User = new UserDto
             {
                 Id = targetUser.Id,
@@ -573,7 +879,7 @@ public class AuthService : IAuthService
                 ProjectName = targetUser.Project?.Name,
                 IsHeadquarters = targetUser.Project?.IsHeadquarters ?? false,
                 ProjectServiceTypes = targetUser.Project?.ServiceTypes,
-                Permissions = targetUser.Permissions.Select(p => p.Route)
+                Permissions = PermissionCatalog.Expand(targetUser.Permissions.Select(p => p.Route))
             }
         };
     }
@@ -590,11 +896,27 @@ public class AuthService : IAuthService
             .Include(u => u.Company)
             .FirstOrDefaultAsync(u => u.Id == impersonatedUserId, cancellationToken);
 
+        // Close the session record; a missing one means it predates impersonation history
+        var session = await _context.ImpersonationSessions
+            .Where(s => s.ImpersonatorId == impersonatorId && s.TargetUserId == impersonatedUserId && s.EndedAt == null)
+            .OrderByDescending(s => s.StartedAt)
+            .FirstOrDefaultAsync(cancellationToken);
+        if (session != null)
+        {
+            session.EndedAt = DateTime.UtcNow;
+        }
+
+        // Tokens of the stopped session must not mint impersonated JWTs anymore;
+        // with them revoked its access tokens are rejected too (session_id claim)
+        await RevokeImpersonationTokensAsync(impersonatorId, impersonatedUserId, DateTime.UtcNow, cancellationToken);
+
         // Audit log - record end of impersonation session
-        await _auditService.LogAsync(impersonatorId, "STOP_IMPERSONATE", AuditEntityTypes.User, impersonatedUserId,
+        await _auditService.LogAsync(impersonatorId, AuditActions.StopImpersonate, AuditEntityTypes.User, impersonatedUserId,
             newValues: new { 
                 impersonatedUser = impersonatedUser?.FullName ?? "Unknown", 
-                impersonatedCompany = impersonatedUser?.Company?.Name ?? "Unknown" 
+                impersonatedCompany = impersonatedUser?.Company?.Name ?? "Unknown",
+                reason = session?.Reason,
+                durationMinutes = session != null ? (int)Math.Round((session.EndedAt!.Value - session.StartedAt).TotalMinutes) : (int?)null
             },
             ipAddress: ipAddress, userAgent: userAgent, cancellationToken: cancellationToken);
 
@@ -611,7 +933,8 @@ public class AuthService : IAuthService
         }
 
         // Generate fresh tokens for the original user (no impersonation claim)
-        var accessToken = _jwtService.GenerateToken(originalUser);
+        var sessionId = Guid.NewGuid();
+        var accessToken = _jwtService.GenerateToken(originalUser, sessionId: sessionId);
         var refreshToken = GenerateRefreshToken();
         var refreshTokenHash = HashToken(refreshToken);
         var expiresAt = DateTimeOffset.UtcNow.AddHours(24).ToUnixTimeMilliseconds();
@@ -619,7 +942,8 @@ public class AuthService : IAuthService
         // Store refresh token
         var refreshTokenEntity = new RefreshToken
         {
-            Id = Guid.NewGuid(),
+            Id = sessionId,
+            SessionId = sessionId,
             UserId = originalUser.Id,
             TokenHash = refreshTokenHash,
             ExpiresAt = DateTime.UtcNow.AddDays(RefreshTokenExpirationDays),
@@ -652,12 +976,79 @@ public class AuthService : IAuthService
                 ProjectName = originalUser.Project?.Name,
                 IsHeadquarters = originalUser.Project?.IsHeadquarters ?? false,
                 ProjectServiceTypes = originalUser.Project?.ServiceTypes,
-                Permissions = originalUser.Permissions.Select(p => p.Route)
+                Permissions = PermissionCatalog.Expand(originalUser.Permissions.Select(p => p.Route))
             }
         };
     }
 
+    public async Task<PagedResult<ImpersonationSessionDto>> GetImpersonationHistoryAsync(
+        int page,
+        int pageSize,
+        CancellationToken cancellationToken = default)
+    {
+        page = Math.Max(page, 1);
+        pageSize = Math.Clamp(pageSize, 1, MaxHistoryPageSize);
+
+        var query = _context.ImpersonationSessions.AsNoTracking();
+        var total = await query.CountAsync(cancellationToken);
+
+        var sessions = await query
+            .OrderByDescending(s => s.StartedAt)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .Select(s => new
+            {
+                Session = s,
+                ImpersonatorName = s.Impersonator != null ? s.Impersonator.FullName : string.Empty,
+                TargetUserName = s.TargetUser != null ? s.TargetUser.FullName : string.Empty,
+                TargetCompanyName = s.TargetUser != null && s.TargetUser.Company != null ? s.TargetUser.Company.Name : null,
+                ActionsCount = _context.AuditLogs.Count(a =>
+                    a.ImpersonatedBy == s.ImpersonatorId &&
+                    a.UserId == s.TargetUserId &&
+                    a.CreatedAt >= s.StartedAt &&
+                    a.CreatedAt <= (s.EndedAt ?? s.ExpiresAt))
+            })
+            .ToListAsync(cancellationToken);
+
+        var items = sessions.Select(x => new ImpersonationSessionDto
+        {
+            Id = x.Session.Id,
+            ImpersonatorId = x.Session.ImpersonatorId,
+            ImpersonatorName = x.ImpersonatorName,
+            TargetUserId = x.Session.TargetUserId,
+            TargetUserName = x.TargetUserName,
+            TargetCompanyName = x.TargetCompanyName,
+            Reason = x.Session.Reason,
+            StartedAt = x.Session.StartedAt,
+            ExpiresAt = x.Session.ExpiresAt,
+            EndedAt = x.Session.EndedAt,
+            Status = x.Session.EndedAt != null ? "ENDED" : x.Session.IsActive ? "ACTIVE" : "EXPIRED",
+            ActionsCount = x.ActionsCount
+        });
+
+        return PagedResult<ImpersonationSessionDto>.Create(items, total, page, pageSize);
+    }
+
     // Helper methods
+
+    /// <summary>
+    /// Revokes the refresh tokens an impersonator holds for a target user; saved with the caller's changes.
+    /// </summary>
+    private async Task RevokeImpersonationTokensAsync(
+        Guid impersonatorId,
+        Guid targetUserId,
+        DateTime revokedAt,
+        CancellationToken cancellationToken)
+    {
+        var tokens = await _context.RefreshTokens
+            .Where(t => t.ImpersonatedBy == impersonatorId && t.UserId == targetUserId && t.RevokedAt == null)
+            .ToListAsync(cancellationToken);
+        foreach (var token in tokens)
+        {
+            token.RevokedAt = revokedAt;
+        }
+    }
+
     private static string GenerateRefreshToken()
     {
         var randomNumber = new byte[64];
@@ -25,9 +25,11 @@ public class CompaniesService : ICompaniesService
                 c.Id,
                 c.Name,
                 c.Budget,
+                c.CurrencyCode,
                 c.Status,
                 ProjectsCount = c.Projects.Count(p => p.DeletedAt == null),
-                EmployeesCount = c.Employees.Count(e => e.DeletedAt == null)
+                EmployeesCount = c.Employees.Count(e => e.DeletedAt == null),
+                ActiveEmployeesCount = c.Employees.Count(e => e.DeletedAt == null && e.Status == EmployeeStatus.Active)
             })
             .ToListAsync();
 
@@ -36,9 +38,11 @@ public class CompaniesService : ICompaniesService
             c.Id,
             c.Name,
             c.Budget,
+            c.CurrencyCode,
             c.Status.ToRussian(),
             c.ProjectsCount,
-            c.EmployeesCount
+            c.EmployeesCount,
+            c.ActiveEmployeesCount
         ));
     }
 
@@ -16,6 +16,9 @@ public class CompensationService : ICompensationService
     private readonly IBudgetService _budgetService;
     private readonly IIdempotencyService _idempotencyService;
 
+    /// <summary>Longest ledger period; carry-over is recalculated day by day</summary>
+    private const int MaxLedgerDays = 366;
+
     public CompensationService(
         AppDbContext context, 
         IBudgetService budgetService,
@@ -26,10 +29,13 @@ public class CompensationService : ICompensationService
         _idempotencyService = idempotencyService;
     }
 
-    public async Task<CompensationSettingsResponse> GetSettingsAsync(Guid projectId, CancellationToken cancellationToken = default)
+    public async Task<CompensationSettingsResponse> GetSettingsAsync(
+        Guid companyId,
+        Guid projectId, 
+        CancellationToken cancellationToken = default)
     {
         var project = await _context.Projects
-            .FirstOrDefaultAsync(p => p.Id == projectId && p.ServiceTypes.Contains("COMPENSATION"), cancellationToken);
+            .FirstOrDefaultAsync(p => p.Id == projectId && p.CompanyId == companyId && p.ServiceTypes.Contains("COMPENSATION"), cancellationToken);
 
         if (project == null)
             throw new KeyNotFoundException("Проект компенсации не найден");
@@ -44,12 +50,13 @@ public class CompensationService : ICompensationService
     }
 
     public async Task<CompensationSettingsResponse> UpdateSettingsAsync(
+        Guid companyId,
         Guid projectId, 
         UpdateCompensationSettingsRequest request, 
         CancellationToken cancellationToken = default)
     {
         var project = await _context.Projects
-            .FirstOrDefaultAsync(p => p.Id == projectId && p.ServiceTypes.Contains("COMPENSATION"), cancellationToken);
+            .FirstOrDefaultAsync(p => p.Id == projectId && p.CompanyId == companyId && p.ServiceTypes.Contains("COMPENSATION"), cancellationToken);
 
         if (project == null)
             throw new KeyNotFoundException("Проект компенсации не найден");
@@ -130,6 +137,25 @@ public class CompensationService : ICompensationService
         if (request.Amount > 1_000_000) // Reasonable upper limit
             throw new ArgumentException("Сумма транзакции превышает допустимый лимит");
 
+        // ═══════════════════════════════════════════════════════════════
+        // PARTNER: Restaurant name defaults to the partner's name
+        // ═══════════════════════════════════════════════════════════════
+        var restaurantName = request.RestaurantName;
+        if (request.PartnerId.HasValue)
+        {
+            var partner = await _context.Partners
+                .AsNoTracking()
+                .FirstOrDefaultAsync(p => p.Id == request.PartnerId.Value, cancellationToken);
+
+            if (partner == null)
+                throw new KeyNotFoundException("Партнёр не найден");
+
+            if (!partner.IsActive)
+                throw new InvalidOperationException("Партнёр неактивен");
+
+            restaurantName ??= partner.Name;
+        }
+
         // NOTE: 'today' will be calculated inside the idempotency block after loading employee/project
         // to use the correct timezone
 
@@ -140,7 +166,7 @@ public class CompensationService : ICompensationService
             request.EmployeeId, 
             DateTime.UtcNow, 
             request.Amount, 
-            request.RestaurantName);
+            restaurantName);
         
         return await _idempotencyService.ExecuteOnceAsync(idempotencyKey, async () =>
         {
@@ -215,7 +241,7 @@ public class CompensationService : ICompensationService
                         await _budgetService.DeductProjectBudgetAsync(
                             project.Id, 
                             companyPays, // Positive = deduction amount
-                            $"Компенсация: {request.RestaurantName ?? "ресторан"}",
+                            $"Компенсация: {restaurantName ?? "ресторан"}",
                             cancellationToken: cancellationToken);
                     }
 
@@ -228,7 +254,8 @@ public class CompensationService : ICompensationService
                         TotalAmount = request.Amount,
                         CompanyPaidAmount = companyPays,
                         EmployeePaidAmount = employeePays,
-                        RestaurantName = request.RestaurantName,
+                        PartnerId = request.PartnerId,
+                        RestaurantName = restaurantName,
                         Description = request.Description,
                         TransactionDate = today,
                         CreatedAt = DateTime.UtcNow
@@ -306,17 +333,130 @@ public class CompensationService : ICompensationService
         ));
     }
 
+    public async Task<CompensationLedgerResponse> GetLedgerAsync(
+        Guid companyId,
+        Guid? projectId,
+        Guid employeeId,
+        DateOnly? fromDate = null,
+        DateOnly? toDate = null,
+        CancellationToken cancellationToken = default)
+    {
+        var employee = await _context.Employees
+            .AsNoTracking()
+            .Include(e => e.Project)
+            .FirstOrDefaultAsync(e => e.Id == employeeId
+                && e.CompanyId == companyId
+                && (!projectId.HasValue || e.ProjectId == projectId.Value), cancellationToken);
+
+        if (employee == null)
+            throw new KeyNotFoundException("Сотрудник не найден");
+
+        if (employee.Project == null || !employee.Project.ServiceTypes.Contains("COMPENSATION"))
+            throw new InvalidOperationException("Сотрудник не привязан к проекту компенсации");
+
+        var project = employee.Project;
+        var today = TimezoneHelper.GetLocalTodayDate(project.Timezone);
+        var from = fromDate ?? new DateOnly(today.Year, today.Month, 1);
+        var to = toDate ?? today;
+
+        if (from > to)
+            throw new ArgumentException("Дата начала периода позже даты окончания");
+
+        if (to.DayNumber - from.DayNumber + 1 > MaxLedgerDays)
+            throw new ArgumentException($"Период не может быть длиннее {MaxLedgerDays} дней");
+
+        var transactions = await _context.CompensationTransactions
+            .AsNoTracking()
+            .Where(t => t.EmployeeId == employeeId && t.TransactionDate >= from && t.TransactionDate <= to)
+            .OrderBy(t => t.CreatedAt)
+            .ToListAsync(cancellationToken);
+
+        var transactionsByDate = transactions
+            .GroupBy(t => t.TransactionDate)
+            .ToDictionary(g => g.Key, g => g.ToList());
+
+        // No schedule = works every day, same as Employee.IsWorkingToday
+        var workingDays = employee.WorkingDays;
+        var dailyLimit = project.CompensationDailyLimit;
+        var carry = 0m;
+        var days = new List<CompensationLedgerDay>();
+
+        for (var date = from; date <= to; date = date.AddDays(1))
+        {
+            var isWorkingDay = workingDays == null || workingDays.Length == 0 || workingDays.Contains((int)date.DayOfWeek);
+            var dayLimit = isWorkingDay ? dailyLimit : 0;
+            var available = dayLimit + carry;
+            var dayTransactions = transactionsByDate.GetValueOrDefault(date) ?? new List<CompensationTransaction>();
+
+            // Running remaining limit after each purchase of the day
+            var spent = 0m;
+            var entries = new List<CompensationLedgerEntry>();
+            foreach (var t in dayTransactions)
+            {
+                spent += t.CompanyPaidAmount;
+                entries.Add(new CompensationLedgerEntry(
+                    t.Id,
+                    t.RestaurantName,
+                    t.Description,
+                    t.TotalAmount,
+                    t.CompanyPaidAmount,
+                    t.EmployeePaidAmount,
+                    Math.Max(0, available - spent),
+                    t.CreatedAt));
+            }
+
+            var remaining = Math.Max(0, available - spent);
+            // Today is not over yet: nothing is carried until the day closes
+            var carriedOut = project.CompensationRollover && date < today ? remaining : 0;
+
+            days.Add(new CompensationLedgerDay(
+                date,
+                isWorkingDay,
+                dayLimit,
+                carry,
+                available,
+                spent,
+                dayTransactions.Sum(t => t.EmployeePaidAmount),
+                remaining,
+                carriedOut,
+                entries));
+
+            carry = carriedOut;
+        }
+
+        return new CompensationLedgerResponse(
+            employee.Id,
+            employee.FullName,
+            project.Name,
+            project.CurrencyCode,
+            project.Timezone,
+            dailyLimit,
+            project.CompensationRollover,
+            from,
+            to,
+            transactions.Count,
+            transactions.Sum(t => t.TotalAmount),
+            transactions.Sum(t => t.CompanyPaidAmount),
+            transactions.Sum(t => t.EmployeePaidAmount),
+            carry,
+            days);
+    }
+
     public async Task<DailyCompensationSummary> GetDailySummaryAsync(
+        Guid companyId,
         Guid projectId, 
-        DateOnly date, 
+        DateOnly? targetDate, 
         CancellationToken cancellationToken = default)
     {
         var project = await _context.Projects
-            .FirstOrDefaultAsync(p => p.Id == projectId, cancellationToken);
+            .FirstOrDefaultAsync(p => p.Id == projectId && p.CompanyId == companyId, cancellationToken);
 
         if (project == null)
             throw new KeyNotFoundException("Проект не найден");
 
+        // Same business day as the manifest lock job
+        var date = targetDate ?? DateOnly.FromDateTime(TimezoneHelper.ToLocalTime(DateTime.UtcNow, project.Timezone));
+
         var transactions = await _context.CompensationTransactions
             .Include(t => t.Employee)
             .Where(t => t.ProjectId == projectId && t.TransactionDate == date)
@@ -0,0 +1,193 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using YallaBusinessAdmin.Application.Dashboard;
+using YallaBusinessAdmin.Application.Dashboard.Dtos;
+using YallaBusinessAdmin.Domain.Entities;
+using YallaBusinessAdmin.Domain.Enums;
+using YallaBusinessAdmin.Infrastructure.Persistence;
+
+namespace YallaBusinessAdmin.Infrastructure.Services.Dashboard;
+
+/// <summary>
+/// Service for delivery manifests locked at the project cutoff.
+/// The lock is stored on the server so every admin and device sees the same list.
+/// </summary>
+public sealed class ManifestSnapshotService : IManifestSnapshotService
+{
+    private readonly AppDbContext _context;
+    private readonly ILogger<ManifestSnapshotService> _logger;
+
+    public ManifestSnapshotService(
+        AppDbContext context,
+        ILogger<ManifestSnapshotService> logger)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <inheritdoc />
+    public async Task<ManifestSnapshotResponse?> GetSnapshotAsync(
+        Guid companyId,
+        Guid projectId,
+        DateOnly date,
+        CancellationToken cancellationToken = default)
+    {
+        var snapshot = await _context.ManifestSnapshots
+            .AsNoTracking()
+            .Include(s => s.Entries)
+            .FirstOrDefaultAsync(s => s.CompanyId == companyId && s.ProjectId == projectId && s.Date == date, cancellationToken);
+
+        if (snapshot == null)
+        {
+            return null;
+        }
+
+        return new ManifestSnapshotResponse
+        {
+            ProjectId = snapshot.ProjectId,
+            Date = snapshot.Date.ToString("yyyy-MM-dd"),
+            LockedAt = snapshot.LockedAt,
+            Entries = snapshot.Entries
+                .OrderBy(e => e.Name)
+                .Select(e => new ManifestSnapshotEntryResponse
+                {
+                    OrderId = e.OrderId,
+                    Name = e.Name,
+                    Phone = e.Phone,
+                    ComboType = e.ComboType,
+                    IsGuest = e.IsGuest
+                })
+                .ToList()
+        };
+    }
+
+    /// <inheritdoc />
+    public async Task<int> LockDueManifestsAsync(CancellationToken cancellationToken = default)
+    {
+        var projects = await GetActiveProjectsAsync(cancellationToken);
+        var nowUtc = DateTime.UtcNow;
+
+        var locked = 0;
+        foreach (var project in projects)
+        {
+            // ═══════════════════════════════════════════════════════════════
+            // TIMEZONE-AWARE: "today" and the cutoff are the project's.
+            // Yesterday is checked too, so a day missed while the job was
+            // down is still locked as of its cutoff.
+            // ═══════════════════════════════════════════════════════════════
+            var projectToday = DateOnly.FromDateTime(TimezoneHelper.ToLocalTime(nowUtc, project.Timezone));
+            foreach (var date in new[] { projectToday.AddDays(-1), projectToday })
+            {
+                var cutoffUtc = TimezoneHelper.ToUtc(date, project.CutoffTime, project.Timezone);
+                if (cutoffUtc > nowUtc)
+                {
+                    continue;
+                }
+
+                var alreadyLocked = await _context.ManifestSnapshots
+                    .AnyAsync(s => s.ProjectId == project.Id && s.Date == date, cancellationToken);
+
+                if (alreadyLocked)
+                {
+                    continue;
+                }
+
+                await LockAsync(project, date, cutoffUtc, cancellationToken);
+                locked++;
+            }
+        }
+
+        return locked;
+    }
+
+    /// <inheritdoc />
+    public async Task<DateTime?> GetNextCutoffUtcAsync(CancellationToken cancellationToken = default)
+    {
+        var projects = await GetActiveProjectsAsync(cancellationToken);
+        var nowUtc = DateTime.UtcNow;
+
+        DateTime? next = null;
+        foreach (var project in projects)
+        {
+            var projectToday = DateOnly.FromDateTime(TimezoneHelper.ToLocalTime(nowUtc, project.Timezone));
+            var cutoffUtc = TimezoneHelper.ToUtc(projectToday, project.CutoffTime, project.Timezone);
+            if (cutoffUtc <= nowUtc)
+            {
+                cutoffUtc = TimezoneHelper.ToUtc(projectToday.AddDays(1), project.CutoffTime, project.Timezone);
+            }
+
+            if (next == null || cutoffUtc < next)
+            {
+                next = cutoffUtc;
+            }
+        }
+
+        return next;
+    }
+
+    private Task<List<Project>> GetActiveProjectsAsync(CancellationToken cancellationToken)
+    {
+        return _context.Projects
+            .AsNoTracking()
+            .Where(p => p.DeletedAt == null && p.Status == CompanyStatus.Active)
+            .ToListAsync(cancellationToken);
+    }
+
+    /// <summary>
+    /// Copies the day's delivery list as of the cutoff into a snapshot: lunch
+    /// orders that are active or already delivered, the same rule the manifest
+    /// page uses. Orders created after the cutoff are left out, and orders
+    /// paused or cancelled after it are kept, so the diff flags both even when
+    /// the job runs late. (Orders keep no history, so a combo switch or a
+    /// resume after the cutoff is taken as it is now.)
+    /// </summary>
+    private async Task LockAsync(Project project, DateOnly date, DateTime cutoffUtc, CancellationToken cancellationToken)
+    {
+        var dayStartUtc = DateTime.SpecifyKind(date.ToDateTime(TimeOnly.MinValue), DateTimeKind.Utc);
+        var dayEndUtc = DateTime.SpecifyKind(date.AddDays(1).ToDateTime(TimeOnly.MinValue), DateTimeKind.Utc);
+
+        var orders = await _context.Orders
+            .AsNoTracking()
+            .Include(o => o.Employee)
+            .Where(o =>
+                o.ProjectId == project.Id &&
+                o.CreatedAt <= cutoffUtc &&
+                (o.Status == OrderStatus.Active ||
+                 o.Status == OrderStatus.Completed ||
+                 (o.UpdatedAt > cutoffUtc && (o.Status == OrderStatus.Paused || o.Status == OrderStatus.Cancelled))) &&
+                o.OrderDate >= dayStartUtc &&
+                o.OrderDate < dayEndUtc)
+            .ToListAsync(cancellationToken);
+
+        var snapshot = new ManifestSnapshot
+        {
+            Id = Guid.NewGuid(),
+            CompanyId = project.CompanyId,
+            ProjectId = project.Id,
+            Date = date,
+            LockedAt = cutoffUtc
+        };
+
+        foreach (var order in orders)
+        {
+            snapshot.Entries.Add(new ManifestSnapshotEntry
+            {
+                SnapshotId = snapshot.Id,
+                OrderId = order.Id,
+                Name = order.Employee != null ? order.Employee.FullName : (order.GuestName ?? "Гость"),
+                Phone = order.Employee?.Phone,
+                ComboType = order.ComboType,
+                IsGuest = order.IsGuestOrder
+            });
+        }
+
+        await _context.ManifestSnapshots.AddAsync(snapshot, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation(
+            "Manifest locked for project {ProjectName} on {Date}: {OrderCount} orders",
+            project.Name,
+            date,
+            orders.Count);
+    }
+}
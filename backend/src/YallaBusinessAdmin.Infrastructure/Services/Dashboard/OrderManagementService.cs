@@ -1,6 +1,7 @@
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using YallaBusinessAdmin.Application.Common.Errors;
+using YallaBusinessAdmin.Application.Common.Interfaces;
 using YallaBusinessAdmin.Application.Common.Models;
 using YallaBusinessAdmin.Application.Dashboard;
 using YallaBusinessAdmin.Application.Dashboard.Dtos;
@@ -18,13 +19,16 @@ public sealed class OrderManagementService : IOrderManagementService
 {
     private readonly AppDbContext _context;
     private readonly ILogger<OrderManagementService> _logger;
+    private readonly IRealtimeEventHub _realtimeHub;
 
     public OrderManagementService(
         AppDbContext context,
-        ILogger<OrderManagementService> logger)
+        ILogger<OrderManagementService> logger,
+        IRealtimeEventHub realtimeHub)
     {
         _context = context ?? throw new ArgumentNullException(nameof(context));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        _realtimeHub = realtimeHub ?? throw new ArgumentNullException(nameof(realtimeHub));
     }
 
     /// <inheritdoc />
@@ -96,6 +100,134 @@ public sealed class OrderManagementService : IOrderManagementService
         return PagedResult<OrderResponse>.Create(pagedItems, total, page, pageSize);
     }
 
+    /// <inheritdoc />
+    public async Task<WeekPlanResponse> GetWeekPlanAsync(
+        Guid companyId,
+        DateOnly? weekStart,
+        Guid? projectId = null,
+        string? search = null,
+        CancellationToken cancellationToken = default)
+    {
+        // Без даты берём текущую неделю по часовому поясу проекта (для HQ — головного проекта)
+        var anchor = weekStart ?? await GetProjectLocalTodayAsync(companyId, projectId, cancellationToken);
+
+        // Неделя всегда начинается с понедельника
+        var monday = anchor.AddDays(-(((int)anchor.DayOfWeek + 6) % 7));
+        var days = Enumerable.Range(0, 7).Select(monday.AddDays).ToList();
+        var rangeStart = monday.ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc);
+        var rangeEnd = monday.AddDays(7).ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc);
+
+        var employeesQuery = _context.Employees
+            .AsNoTracking()
+            .Where(e => e.CompanyId == companyId && e.Status == EmployeeStatus.Active);
+
+        if (projectId.HasValue)
+        {
+            employeesQuery = employeesQuery.Where(e => e.ProjectId == projectId.Value);
+        }
+
+        if (!string.IsNullOrWhiteSpace(search))
+        {
+            var searchLower = search.ToLower();
+            employeesQuery = employeesQuery.Where(e => e.FullName.ToLower().Contains(searchLower));
+        }
+
+        var employees = await employeesQuery
+            .OrderBy(e => e.FullName)
+            .Select(e => new
+            {
+                e.Id,
+                e.FullName,
+                e.ProjectId,
+                ProjectName = e.Project != null ? e.Project.Name : null,
+                CompensationDailyLimit = e.Project != null ? e.Project.CompensationDailyLimit : 0,
+                e.ServiceType,
+                e.WorkingDays
+            })
+            .ToListAsync(cancellationToken);
+
+        var employeeIds = employees.Select(e => e.Id).ToList();
+
+        var orders = await _context.Orders
+            .AsNoTracking()
+            .Where(o => o.CompanyId == companyId &&
+                        !o.IsGuestOrder &&
+                        o.EmployeeId != null &&
+                        employeeIds.Contains(o.EmployeeId.Value) &&
+                        o.OrderDate >= rangeStart &&
+                        o.OrderDate < rangeEnd)
+            .Select(o => new { o.Id, EmployeeId = o.EmployeeId!.Value, o.OrderDate, o.Status, o.ComboType, o.Price })
+            .ToListAsync(cancellationToken);
+
+        var weekEnd = monday.AddDays(6);
+        var compensationSpent = await _context.Set<CompensationTransaction>()
+            .AsNoTracking()
+            .Where(ct => employeeIds.Contains(ct.EmployeeId) &&
+                         ct.TransactionDate >= monday &&
+                         ct.TransactionDate <= weekEnd)
+            .GroupBy(ct => new { ct.EmployeeId, ct.TransactionDate })
+            .Select(g => new { g.Key.EmployeeId, g.Key.TransactionDate, Amount = g.Sum(ct => ct.CompanyPaidAmount) })
+            .ToListAsync(cancellationToken);
+
+        // Если на день несколько заказов — показываем неотменённый
+        var ordersByDay = orders
+            .GroupBy(o => (o.EmployeeId, Date: DateOnly.FromDateTime(o.OrderDate)))
+            .ToDictionary(
+                g => g.Key,
+                g => g.OrderBy(o => o.Status == OrderStatus.Cancelled ? 1 : 0).First());
+        var spentByDay = compensationSpent.ToDictionary(c => (c.EmployeeId, c.TransactionDate), c => c.Amount);
+
+        var rows = employees.Select(employee =>
+        {
+            var isCompensation = employee.ServiceType == ServiceType.Compensation;
+            var cells = days.Select(day =>
+            {
+                // WorkingDays: 0=Вс, 1=Пн...; пустой график = работает каждый день
+                var isWorkingDay = employee.WorkingDays == null ||
+                                   employee.WorkingDays.Length == 0 ||
+                                   employee.WorkingDays.Contains((int)day.DayOfWeek);
+                var cell = new WeekPlanCell
+                {
+                    Date = day.ToString("yyyy-MM-dd"),
+                    IsWorkingDay = isWorkingDay
+                };
+
+                if (ordersByDay.TryGetValue((employee.Id, day), out var order))
+                {
+                    cell.OrderId = order.Id;
+                    cell.Status = order.Status.ToRussian();
+                    cell.ComboType = order.ComboType;
+                    cell.Amount = order.Price;
+                }
+
+                if (isCompensation && isWorkingDay)
+                {
+                    cell.CompensationLimit = employee.CompensationDailyLimit;
+                    cell.CompensationAmount = spentByDay.TryGetValue((employee.Id, day), out var spent) ? spent : null;
+                }
+
+                return cell;
+            }).ToList();
+
+            return new WeekPlanRow
+            {
+                EmployeeId = employee.Id,
+                EmployeeName = employee.FullName,
+                ProjectId = employee.ProjectId,
+                ProjectName = employee.ProjectName,
+                ServiceType = employee.ServiceType?.ToDatabase(),
+                Cells = cells
+            };
+        }).ToList();
+
+        return new WeekPlanResponse
+        {
+            WeekStart = monday.ToString("yyyy-MM-dd"),
+            Days = days.Select(d => d.ToString("yyyy-MM-dd")).ToList(),
+            Rows = rows
+        };
+    }
+
     /// <inheritdoc />
     public async Task<CreateGuestOrderResponse> CreateGuestOrderAsync(
         CreateGuestOrderRequest request,
@@ -153,6 +285,7 @@ public sealed class OrderManagementService : IOrderManagementService
         // ═══════════════════════════════════════════════════════════════
 
         await _context.SaveChangesAsync(cancellationToken);
+        PublishOrdersChanged(orders, companyId);
 
         _logger.LogInformation(
             "Created {Count} guest orders for project {ProjectId}, pending settlement {Cost}",
@@ -232,6 +365,7 @@ public sealed class OrderManagementService : IOrderManagementService
         }
 
         await _context.SaveChangesAsync(cancellationToken);
+        PublishOrdersChanged(createdOrders, companyId);
 
         _logger.LogInformation(
             "Assigned meals to {Count} employees, skipped {SkippedCount}",
@@ -287,6 +421,7 @@ public sealed class OrderManagementService : IOrderManagementService
         var updated = 0;
         var refundedAmount = 0m;
         var skipped = new List<string>();
+        var updatedOrders = new List<Order>();
 
         foreach (var order in orders)
         {
@@ -295,6 +430,7 @@ public sealed class OrderManagementService : IOrderManagementService
             {
                 updated++;
                 refundedAmount += result.RefundAmount;
+                updatedOrders.Add(order);
             }
             else
             {
@@ -306,6 +442,7 @@ public sealed class OrderManagementService : IOrderManagementService
         // No manual update needed here - this simplifies code and prevents inconsistencies
 
         await _context.SaveChangesAsync(cancellationToken);
+        PublishOrdersChanged(updatedOrders, companyId);
 
         var message = BuildBulkActionMessage(request.Action, updated, refundedAmount, skipped.Count);
 
@@ -314,6 +451,31 @@ public sealed class OrderManagementService : IOrderManagementService
 
     #region Private Helper Methods
 
+    /// <summary>
+    /// Pushes committed order changes to connected admins, one event per project
+    /// so branch users only receive their own orders.
+    /// </summary>
+    private void PublishOrdersChanged(IReadOnlyCollection<Order> orders, Guid companyId)
+    {
+        foreach (var projectOrders in orders.GroupBy(o => o.ProjectId))
+        {
+            var statuses = projectOrders.Select(o => o.Status).Distinct().ToList();
+            var combos = projectOrders.Select(o => o.ComboType).Distinct().ToList();
+            var dates = projectOrders.Select(o => o.OrderDate.Date).Distinct().ToList();
+
+            _realtimeHub.Publish(new RealtimeEvent
+            {
+                Type = RealtimeEventTypes.OrdersChanged,
+                CompanyId = companyId,
+                ProjectId = projectOrders.Key,
+                EntityIds = projectOrders.Select(o => o.Id).ToList(),
+                Status = statuses.Count == 1 ? statuses[0].ToRussian() : null,
+                ComboType = combos.Count == 1 ? combos[0] : null,
+                Date = dates.Count == 1 ? dates[0].ToString("yyyy-MM-dd") : null
+            });
+        }
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // ОПТИМИЗИРОВАННЫЕ МЕТОДЫ - Фильтрация и пагинация на уровне SQL
     // ═══════════════════════════════════════════════════════════════════════════
@@ -555,6 +717,20 @@ public sealed class OrderManagementService : IOrderManagementService
             .ToListAsync(cancellationToken);
     }
 
+    private async Task<DateOnly> GetProjectLocalTodayAsync(
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken)
+    {
+        var timezone = await _context.Projects
+            .AsNoTracking()
+            .Where(p => p.CompanyId == companyId && (projectId.HasValue ? p.Id == projectId.Value : p.IsHeadquarters))
+            .Select(p => p.Timezone)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        return DateOnly.FromDateTime(TimezoneHelper.ToLocalTime(DateTime.UtcNow, timezone));
+    }
+
     private static void ValidateCutoffTime(TimeOnly cutoffTime, string? timezone)
     {
         if (TimezoneHelper.IsCutoffPassed(cutoffTime, timezone))
@@ -50,6 +50,20 @@ public static class TimezoneHelper
         return TimeZoneInfo.ConvertTimeFromUtc(utcTime, tzInfo);
     }
 
+    /// <summary>
+    /// Converts a local date and time of the specified timezone to UTC.
+    /// </summary>
+    /// <param name="date">The local date.</param>
+    /// <param name="time">The local time of day.</param>
+    /// <param name="timezone">The timezone identifier.</param>
+    /// <returns>The moment in UTC with Kind=Utc for PostgreSQL compatibility.</returns>
+    public static DateTime ToUtc(DateOnly date, TimeOnly time, string? timezone)
+    {
+        var tzInfo = GetTimeZoneInfo(timezone);
+        var utc = TimeZoneInfo.ConvertTimeToUtc(date.ToDateTime(time), tzInfo);
+        return DateTime.SpecifyKind(utc, DateTimeKind.Utc);
+    }
+
     /// <summary>
     /// Checks if the cutoff time has passed for today.
     /// </summary>
@@ -73,6 +73,17 @@ public sealed class DashboardService : IDashboardService
             serviceTypeFilter, comboTypeFilter, projectId, cancellationToken);
     }
 
+    /// <inheritdoc />
+    public Task<WeekPlanResponse> GetWeekPlanAsync(
+        Guid companyId,
+        DateOnly? weekStart,
+        Guid? projectId = null,
+        string? search = null,
+        CancellationToken cancellationToken = default)
+    {
+        return _orderService.GetWeekPlanAsync(companyId, weekStart, projectId, search, cancellationToken);
+    }
+
     /// <inheritdoc />
     public Task<CreateGuestOrderResponse> CreateGuestOrderAsync(
         CreateGuestOrderRequest request,
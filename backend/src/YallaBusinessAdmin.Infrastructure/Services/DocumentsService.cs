@@ -1,7 +1,9 @@
 using Microsoft.EntityFrameworkCore;
+using YallaBusinessAdmin.Application.Common.Interfaces;
 using YallaBusinessAdmin.Application.Common.Models;
 using YallaBusinessAdmin.Application.Documents;
 using YallaBusinessAdmin.Application.Documents.Dtos;
+using YallaBusinessAdmin.Domain.Entities;
 using YallaBusinessAdmin.Domain.Enums;
 using YallaBusinessAdmin.Infrastructure.Persistence;
 
@@ -10,17 +12,22 @@ namespace YallaBusinessAdmin.Infrastructure.Services;
 public class DocumentsService : IDocumentsService
 {
     private readonly AppDbContext _context;
+    private readonly IStorageService _storageService;
 
-    public DocumentsService(AppDbContext context)
+    public DocumentsService(AppDbContext context, IStorageService storageService)
     {
         _context = context;
+        _storageService = storageService;
     }
 
     public async Task<PagedResult<DocumentResponse>> GetAllAsync(
         Guid companyId,
+        Guid userId,
         int page,
         int pageSize,
         string? type,
+        DateTime? from,
+        DateTime? to,
         CancellationToken cancellationToken = default)
     {
         var query = _context.CompanyDocuments
@@ -32,28 +39,40 @@ public class DocumentsService : IDocumentsService
             query = query.Where(d => d.Type == documentType);
         }
 
+        // Period overlap: documents without a period fall back to their creation date
+        if (from.HasValue)
+        {
+            var fromUtc = DateTime.SpecifyKind(from.Value.Date, DateTimeKind.Utc);
+            query = query.Where(d => (d.PeriodEnd ?? d.CreatedAt) >= fromUtc);
+        }
+
+        if (to.HasValue)
+        {
+            var toUtc = DateTime.SpecifyKind(to.Value.Date.AddDays(1), DateTimeKind.Utc);
+            query = query.Where(d => (d.PeriodStart ?? d.CreatedAt) < toUtc);
+        }
+
         var total = await query.CountAsync(cancellationToken);
         var documents = await query
             .OrderByDescending(d => d.CreatedAt)
             .Skip((page - 1) * pageSize)
             .Take(pageSize)
+            .Select(d => new
+            {
+                Document = d,
+                ViewedAt = d.ViewStatuses
+                    .Where(v => v.UserId == userId)
+                    .Select(v => (DateTime?)v.ViewedAt)
+                    .FirstOrDefault()
+            })
             .ToListAsync(cancellationToken);
 
-        var items = documents.Select(d => new DocumentResponse
-        {
-            Id = d.Id,
-            Type = d.Type.ToDatabase(),
-            FileUrl = d.FileUrl,
-            FileName = d.FileName,
-            PeriodStart = d.PeriodStart,
-            PeriodEnd = d.PeriodEnd,
-            CreatedAt = d.CreatedAt
-        });
+        var items = documents.Select(d => MapToResponse(d.Document, d.ViewedAt));
 
         return PagedResult<DocumentResponse>.Create(items, total, page, pageSize);
     }
 
-    public async Task<DocumentResponse> GetByIdAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default)
+    public async Task<DocumentResponse> GetByIdAsync(Guid id, Guid companyId, Guid userId, CancellationToken cancellationToken = default)
     {
         var document = await _context.CompanyDocuments
             .FirstOrDefaultAsync(d => d.Id == id && d.CompanyId == companyId, cancellationToken);
@@ -63,19 +82,15 @@ public class DocumentsService : IDocumentsService
             throw new KeyNotFoundException("Документ не найден");
         }
 
-        return new DocumentResponse
-        {
-            Id = document.Id,
-            Type = document.Type.ToDatabase(),
-            FileUrl = document.FileUrl,
-            FileName = document.FileName,
-            PeriodStart = document.PeriodStart,
-            PeriodEnd = document.PeriodEnd,
-            CreatedAt = document.CreatedAt
-        };
+        var viewedAt = await _context.DocumentViewStatuses
+            .Where(v => v.DocumentId == id && v.UserId == userId)
+            .Select(v => (DateTime?)v.ViewedAt)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        return MapToResponse(document, viewedAt);
     }
 
-    public async Task<string> GetDownloadUrlAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default)
+    public async Task<DocumentFileResponse> DownloadAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default)
     {
         var document = await _context.CompanyDocuments
             .FirstOrDefaultAsync(d => d.Id == id && d.CompanyId == companyId, cancellationToken);
@@ -85,9 +100,52 @@ public class DocumentsService : IDocumentsService
             throw new KeyNotFoundException("Документ не найден");
         }
 
-        // In production, this would generate a signed URL with expiration
-        // For now, return the stored URL
-        return document.FileUrl;
+        // Proxied through the API so the storage URL never reaches the browser
+        var file = await _storageService.DownloadAsync(document.FileUrl, cancellationToken);
+        var fileName = document.FileName ?? $"{document.Type.ToDatabase().ToLowerInvariant()}_{document.CreatedAt:yyyyMMdd}.pdf";
+
+        return new DocumentFileResponse(file.Content, file.ContentType, fileName);
     }
-}
 
+    public async Task MarkAsViewedAsync(Guid id, Guid companyId, Guid userId, CancellationToken cancellationToken = default)
+    {
+        var exists = await _context.CompanyDocuments
+            .AnyAsync(d => d.Id == id && d.CompanyId == companyId, cancellationToken);
+
+        if (!exists)
+        {
+            throw new KeyNotFoundException("Документ не найден");
+        }
+
+        var alreadyViewed = await _context.DocumentViewStatuses
+            .AnyAsync(v => v.DocumentId == id && v.UserId == userId, cancellationToken);
+
+        if (!alreadyViewed)
+        {
+            var viewStatus = new DocumentViewStatus
+            {
+                DocumentId = id,
+                UserId = userId,
+                ViewedAt = DateTime.UtcNow
+            };
+
+            await _context.DocumentViewStatuses.AddAsync(viewStatus, cancellationToken);
+            await _context.SaveChangesAsync(cancellationToken);
+        }
+    }
+
+    private static DocumentResponse MapToResponse(CompanyDocument document, DateTime? viewedAt)
+    {
+        return new DocumentResponse
+        {
+            Id = document.Id,
+            Type = document.Type.ToDatabase(),
+            FileName = document.FileName,
+            PeriodStart = document.PeriodStart,
+            PeriodEnd = document.PeriodEnd,
+            CreatedAt = document.CreatedAt,
+            IsViewed = viewedAt.HasValue,
+            ViewedAt = viewedAt
+        };
+    }
+}
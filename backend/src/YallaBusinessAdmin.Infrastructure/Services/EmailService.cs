@@ -145,6 +145,39 @@ public class EmailService : IEmailService
         return await SendEmailAsync(to, subject, htmlBody, null, cancellationToken);
     }
 
+    public async Task<bool> SendAdminInviteEmailAsync(string to, string name, string companyName, string inviteUrl, DateTime expiresAt, CancellationToken cancellationToken = default)
+    {
+        var subject = $"Приглашение в {companyName} - Yalla Business";
+        var htmlBody = $@"
+        <div style=""font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;"">
+          <div style=""text-align: center; margin-bottom: 30px;"">
+            <h1 style=""color: #4F46E5; margin: 0;"">Yalla Business</h1>
+          </div>
+          
+          <h2 style=""color: #333;"">Приглашение в кабинет компании</h2>
+          
+          <p>Здравствуйте, {name}!</p>
+          
+          <p>Вас пригласили в кабинет компании <strong>{companyName}</strong> в системе Yalla Business. Чтобы начать работу, придумайте пароль для входа:</p>
+          
+          <div style=""text-align: center; margin: 30px 0;"">
+            <a href=""{inviteUrl}"" style=""display: inline-block; background-color: #4F46E5; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: bold;"">Задать пароль</a>
+          </div>
+          
+          <p style=""color: #666; font-size: 14px;"">Ссылка одноразовая и действительна до {expiresAt:dd.MM.yyyy HH:mm} (UTC).</p>
+          
+          <p style=""color: #666; font-size: 14px;"">Если вы не ждали этого письма, просто проигнорируйте его.</p>
+          
+          <hr style=""border: none; border-top: 1px solid #eee; margin: 30px 0;"">
+          
+          <p style=""color: #999; font-size: 12px; text-align: center;"">
+            © {DateTime.Now.Year} Yalla Business. Все права защищены.
+          </p>
+        </div>";
+
+        return await SendEmailAsync(to, subject, htmlBody, null, cancellationToken);
+    }
+
     public async Task<bool> SendEmployeeInviteEmailAsync(string to, string employeeName, string companyName, string inviteUrl, CancellationToken cancellationToken = default)
     {
         var subject = $"Приглашение в {companyName} - Yalla Business";
@@ -1,5 +1,7 @@
 using Microsoft.EntityFrameworkCore;
 using YallaBusinessAdmin.Application.Audit;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Models;
 using YallaBusinessAdmin.Application.Employees;
 using YallaBusinessAdmin.Application.Employees.Dtos;
 using YallaBusinessAdmin.Domain.Entities;
@@ -16,11 +18,13 @@ public class EmployeeBudgetService : IEmployeeBudgetService
 {
     private readonly AppDbContext _context;
     private readonly IAuditService _auditService;
+    private readonly IRealtimeEventHub _realtimeHub;
 
-    public EmployeeBudgetService(AppDbContext context, IAuditService auditService)
+    public EmployeeBudgetService(AppDbContext context, IAuditService auditService, IRealtimeEventHub realtimeHub)
     {
         _context = context;
         _auditService = auditService;
+        _realtimeHub = realtimeHub;
     }
 
     public async Task<BudgetResponse?> GetBudgetAsync(
@@ -82,6 +86,7 @@ public class EmployeeBudgetService : IEmployeeBudgetService
         employee.Budget.UpdatedAt = DateTime.UtcNow;
 
         await _context.SaveChangesAsync(cancellationToken);
+        PublishBudgetChanged(companyId, new[] { employee });
 
         // Audit log
         await _auditService.LogAsync(
@@ -134,6 +139,7 @@ public class EmployeeBudgetService : IEmployeeBudgetService
         }
 
         await _context.SaveChangesAsync(cancellationToken);
+        PublishBudgetChanged(companyId, employees);
 
         // Audit log for batch operation
         await _auditService.LogAsync(
@@ -180,5 +186,21 @@ public class EmployeeBudgetService : IEmployeeBudgetService
             newValues: new { Action = "BudgetPeriodReset" },
             cancellationToken: cancellationToken);
     }
-}
 
+    /// <summary>
+    /// Pushes updated employee budgets to connected admins of the employees' projects.
+    /// </summary>
+    private void PublishBudgetChanged(Guid companyId, IEnumerable<Employee> employees)
+    {
+        foreach (var group in employees.GroupBy(e => e.ProjectId))
+        {
+            _realtimeHub.Publish(new RealtimeEvent
+            {
+                Type = RealtimeEventTypes.BudgetChanged,
+                CompanyId = companyId,
+                ProjectId = group.Key,
+                EntityIds = group.Select(e => e.Id).ToList()
+            });
+        }
+    }
+}
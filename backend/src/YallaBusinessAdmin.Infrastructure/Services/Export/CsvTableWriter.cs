@@ -0,0 +1,50 @@
+using System.Globalization;
+using System.Text;
+
+namespace YallaBusinessAdmin.Infrastructure.Services.Export;
+
+/// <summary>
+/// Semicolon-separated CSV with BOM - Excel with Russian locale opens it without the import wizard.
+/// </summary>
+internal static class CsvTableWriter
+{
+    private const char Separator = ';';
+
+    public static byte[] Write(ExportTable table)
+    {
+        var sb = new StringBuilder();
+
+        // BOM for Excel UTF-8 support
+        sb.Append('\uFEFF');
+        sb.AppendLine(string.Join(Separator, table.Headers.Select(EscapeCsvField)));
+
+        foreach (var row in table.Rows)
+        {
+            sb.AppendLine(string.Join(Separator, row.Select(FormatCell)));
+        }
+
+        return Encoding.UTF8.GetBytes(sb.ToString());
+    }
+
+    private static string FormatCell(object? value) => value switch
+    {
+        null => "",
+        decimal number => number.ToString("F2", CultureInfo.InvariantCulture),
+        int number => number.ToString(CultureInfo.InvariantCulture),
+        _ => EscapeCsvField(value.ToString() ?? "")
+    };
+
+    private static string EscapeCsvField(string field)
+    {
+        if (string.IsNullOrEmpty(field))
+            return "";
+
+        // If field contains separator, quotes, or newlines, wrap in quotes
+        if (field.Contains(Separator) || field.Contains('"') || field.Contains('\n') || field.Contains('\r'))
+        {
+            return $"\"{field.Replace("\"", "\"\"")}\"";
+        }
+
+        return field;
+    }
+}
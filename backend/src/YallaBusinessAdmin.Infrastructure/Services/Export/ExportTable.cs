@@ -0,0 +1,6 @@
+namespace YallaBusinessAdmin.Infrastructure.Services.Export;
+
+/// <summary>
+/// Format-independent table: cells are strings, numbers (decimal/int) or null.
+/// </summary>
+internal sealed record ExportTable(string SheetName, IReadOnlyList<string> Headers, IReadOnlyList<object?[]> Rows);
@@ -0,0 +1,165 @@
+using System.Globalization;
+using System.IO.Compression;
+using System.Security;
+using System.Text;
+
+namespace YallaBusinessAdmin.Infrastructure.Services.Export;
+
+/// <summary>
+/// Minimal single-sheet XLSX (SpreadsheetML) writer.
+/// Strings are written inline, numbers as numeric cells, header row is bold and frozen.
+/// </summary>
+internal static class XlsxTableWriter
+{
+    private const int MaxColumnWidth = 60;
+
+    public static byte[] Write(ExportTable table)
+    {
+        using var output = new MemoryStream();
+        using (var archive = new ZipArchive(output, ZipArchiveMode.Create, leaveOpen: true))
+        {
+            AddEntry(archive, "[Content_Types].xml", ContentTypesXml);
+            AddEntry(archive, "_rels/.rels", RootRelsXml);
+            AddEntry(archive, "xl/workbook.xml", WorkbookXml(table.SheetName));
+            AddEntry(archive, "xl/_rels/workbook.xml.rels", WorkbookRelsXml);
+            AddEntry(archive, "xl/styles.xml", StylesXml);
+            AddEntry(archive, "xl/worksheets/sheet1.xml", SheetXml(table));
+        }
+
+        return output.ToArray();
+    }
+
+    private static void AddEntry(ZipArchive archive, string path, string content)
+    {
+        var entry = archive.CreateEntry(path, CompressionLevel.Fastest);
+        using var writer = new StreamWriter(entry.Open(), new UTF8Encoding(false));
+        writer.Write(content);
+    }
+
+    private static string SheetXml(ExportTable table)
+    {
+        var sb = new StringBuilder();
+        sb.Append("<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>");
+        sb.Append("<worksheet xmlns=\"http://schemas.openxmlformats.org/spreadsheetml/2006/main\">");
+        sb.Append("<sheetViews><sheetView workbookViewId=\"0\">");
+        sb.Append("<pane ySplit=\"1\" topLeftCell=\"A2\" activePane=\"bottomLeft\" state=\"frozen\"/>");
+        sb.Append("</sheetView></sheetViews>");
+
+        sb.Append("<cols>");
+        for (var i = 0; i < table.Headers.Count; i++)
+        {
+            var width = GetColumnWidth(table, i).ToString(CultureInfo.InvariantCulture);
+            sb.Append($"<col min=\"{i + 1}\" max=\"{i + 1}\" width=\"{width}\" customWidth=\"1\"/>");
+        }
+        sb.Append("</cols>");
+
+        sb.Append("<sheetData>");
+        AppendRow(sb, 1, table.Headers.Cast<object?>().ToArray(), styleIndex: 1);
+        for (var i = 0; i < table.Rows.Count; i++)
+        {
+            AppendRow(sb, i + 2, table.Rows[i], styleIndex: 0);
+        }
+        sb.Append("</sheetData>");
+
+        sb.Append("</worksheet>");
+        return sb.ToString();
+    }
+
+    private static void AppendRow(StringBuilder sb, int rowNumber, object?[] cells, int styleIndex)
+    {
+        sb.Append($"<row r=\"{rowNumber}\">");
+        for (var i = 0; i < cells.Length; i++)
+        {
+            var reference = $"{GetColumnName(i)}{rowNumber}";
+            var style = styleIndex > 0 ? $" s=\"{styleIndex}\"" : "";
+
+            switch (cells[i])
+            {
+                case null:
+                    break;
+                case decimal number:
+                    sb.Append($"<c r=\"{reference}\"{style}><v>{number.ToString(CultureInfo.InvariantCulture)}</v></c>");
+                    break;
+                case int number:
+                    sb.Append($"<c r=\"{reference}\"{style}><v>{number.ToString(CultureInfo.InvariantCulture)}</v></c>");
+                    break;
+                default:
+                    var text = Escape(cells[i]!.ToString() ?? "");
+                    sb.Append($"<c r=\"{reference}\" t=\"inlineStr\"{style}><is><t xml:space=\"preserve\">{text}</t></is></c>");
+                    break;
+            }
+        }
+        sb.Append("</row>");
+    }
+
+    /// <summary>Column width in characters, based on the longest value</summary>
+    private static int GetColumnWidth(ExportTable table, int column)
+    {
+        var longest = table.Rows
+            .Select(row => column < row.Length ? row[column]?.ToString()?.Length ?? 0 : 0)
+            .Append(table.Headers[column].Length)
+            .Max();
+
+        return Math.Min(longest + 2, MaxColumnWidth);
+    }
+
+    /// <summary>0 → A, 25 → Z, 26 → AA</summary>
+    private static string GetColumnName(int index)
+    {
+        var name = string.Empty;
+        for (var i = index + 1; i > 0; i = (i - 1) / 26)
+        {
+            name = (char)('A' + (i - 1) % 26) + name;
+        }
+        return name;
+    }
+
+    /// <summary>Escapes XML and drops control characters that are invalid in XML 1.0</summary>
+    private static string Escape(string value)
+    {
+        var cleaned = new string(value.Where(c => c >= 0x20 || c == '\t' || c == '\n' || c == '\r').ToArray());
+        return SecurityElement.Escape(cleaned) ?? string.Empty;
+    }
+
+    private static string WorkbookXml(string sheetName) =>
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+        "<workbook xmlns=\"http://schemas.openxmlformats.org/spreadsheetml/2006/main\" " +
+        "xmlns:r=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships\">" +
+        $"<sheets><sheet name=\"{Escape(sheetName)}\" sheetId=\"1\" r:id=\"rId1\"/></sheets>" +
+        "</workbook>";
+
+    private const string ContentTypesXml =
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+        "<Types xmlns=\"http://schemas.openxmlformats.org/package/2006/content-types\">" +
+        "<Default Extension=\"rels\" ContentType=\"application/vnd.openxmlformats-package.relationships+xml\"/>" +
+        "<Default Extension=\"xml\" ContentType=\"application/xml\"/>" +
+        "<Override PartName=\"/xl/workbook.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml\"/>" +
+        "<Override PartName=\"/xl/worksheets/sheet1.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml\"/>" +
+        "<Override PartName=\"/xl/styles.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml\"/>" +
+        "</Types>";
+
+    private const string RootRelsXml =
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+        "<Relationships xmlns=\"http://schemas.openxmlformats.org/package/2006/relationships\">" +
+        "<Relationship Id=\"rId1\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument\" Target=\"xl/workbook.xml\"/>" +
+        "</Relationships>";
+
+    private const string WorkbookRelsXml =
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+        "<Relationships xmlns=\"http://schemas.openxmlformats.org/package/2006/relationships\">" +
+        "<Relationship Id=\"rId1\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet\" Target=\"worksheets/sheet1.xml\"/>" +
+        "<Relationship Id=\"rId2\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles\" Target=\"styles.xml\"/>" +
+        "</Relationships>";
+
+    // Style 0 - default, style 1 - bold header
+    private const string StylesXml =
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+        "<styleSheet xmlns=\"http://schemas.openxmlformats.org/spreadsheetml/2006/main\">" +
+        "<fonts count=\"2\"><font><sz val=\"11\"/><name val=\"Calibri\"/></font><font><b/><sz val=\"11\"/><name val=\"Calibri\"/></font></fonts>" +
+        "<fills count=\"2\"><fill><patternFill patternType=\"none\"/></fill><fill><patternFill patternType=\"gray125\"/></fill></fills>" +
+        "<borders count=\"1\"><border><left/><right/><top/><bottom/><diagonal/></border></borders>" +
+        "<cellStyleXfs count=\"1\"><xf numFmtId=\"0\" fontId=\"0\" fillId=\"0\" borderId=\"0\"/></cellStyleXfs>" +
+        "<cellXfs count=\"2\"><xf numFmtId=\"0\" fontId=\"0\" fillId=\"0\" borderId=\"0\" xfId=\"0\"/>" +
+        "<xf numFmtId=\"0\" fontId=\"1\" fillId=\"0\" borderId=\"0\" xfId=\"0\" applyFont=\"1\"/></cellXfs>" +
+        "</styleSheet>";
+}
@@ -1,140 +1,197 @@
-using System.Globalization;
-using System.Text;
-using Microsoft.EntityFrameworkCore;
+using YallaBusinessAdmin.Application.Compensation;
+using YallaBusinessAdmin.Application.Dashboard;
+using YallaBusinessAdmin.Application.Employees;
 using YallaBusinessAdmin.Application.Export;
-using YallaBusinessAdmin.Domain.Enums;
-using YallaBusinessAdmin.Infrastructure.Persistence;
+using YallaBusinessAdmin.Infrastructure.Services.Dashboard;
+using YallaBusinessAdmin.Infrastructure.Services.Export;
 
 namespace YallaBusinessAdmin.Infrastructure.Services;
 
+/// <summary>
+/// Table exports reuse the list services, so a file always matches what the table shows with the same filters.
+/// </summary>
 public class ExportService : IExportService
 {
-    private readonly AppDbContext _context;
+    private readonly IOrderManagementService _orderManagementService;
+    private readonly IEmployeesService _employeesService;
+    private readonly ICompensationService _compensationService;
 
-    public ExportService(AppDbContext context)
+    /// <summary>Upper bound for one file; larger exports must be narrowed with filters</summary>
+    private const int MaxExportRows = 50_000;
+
+    public ExportService(
+        IOrderManagementService orderManagementService,
+        IEmployeesService employeesService,
+        ICompensationService compensationService)
     {
-        _context = context;
+        _orderManagementService = orderManagementService;
+        _employeesService = employeesService;
+        _compensationService = compensationService;
     }
 
-    public async Task<byte[]> ExportEmployeesToCsvAsync(Guid companyId, CancellationToken cancellationToken = default)
+    public async Task<ExportFile> ExportEmployeesAsync(
+        Guid companyId,
+        EmployeesExportFilter filter,
+        ExportFormat format,
+        CancellationToken cancellationToken = default)
     {
-        var employees = await _context.Employees
-            .Include(e => e.Budget)
-            .Where(e => e.CompanyId == companyId && e.DeletedAt == null)
-            .OrderBy(e => e.FullName)
-            .ToListAsync(cancellationToken);
-
-        var sb = new StringBuilder();
-        
-        // CSV Header (with BOM for Excel UTF-8 support)
-        sb.Append('\uFEFF');
-        sb.AppendLine("ФИО;Телефон;Email;Должность;Статус;Приглашение;Общий бюджет;Дневной лимит;Период;Автопродление;Дата создания");
-
-        foreach (var employee in employees)
-        {
-            var status = employee.IsActive ? "Активный" : "Не активный";
-            var inviteStatus = employee.InviteStatus switch
+        var result = await _employeesService.GetAllAsync(
+            1, MaxExportRows, filter.Search, filter.Status, filter.InviteStatus, filter.OrderStatus,
+            companyId, filter.SortBy, filter.SortDesc, filter.MinBudget, filter.MaxBudget,
+            filter.HasSubscription, filter.ProjectId, filter.ServiceType, cancellationToken);
+
+        EnsureWithinLimit(result.Total);
+
+        var rows = result.Items
+            .Select(e => new object?[]
             {
-                EmployeeInviteStatus.Accepted => "Принято",
-                EmployeeInviteStatus.Pending => "Ожидает",
-                EmployeeInviteStatus.Rejected => "Отклонено",
-                _ => "Неизвестно"
-            };
-            var autoRenew = employee.Budget?.AutoRenew == true ? "Да" : "Нет";
-            var period = employee.Budget?.Period switch
+                e.FullName,
+                e.Phone,
+                e.Email,
+                e.Position,
+                e.ProjectName,
+                e.ServiceType == "COMPENSATION" ? "Компенсация" : "Обеды",
+                e.Status,
+                e.InviteStatus,
+                e.MealStatus,
+                e.Budget?.TotalBudget ?? e.TotalBudget,
+                e.Budget?.DailyLimit ?? e.DailyLimit,
+                e.Budget?.Period,
+                e.Budget == null ? null : e.Budget.AutoRenew ? "Да" : "Нет",
+                e.CreatedAt.ToString("yyyy-MM-dd HH:mm")
+            })
+            .ToList();
+
+        var table = new ExportTable(
+            "Сотрудники",
+            new[]
             {
-                BudgetPeriod.Daily => "День",
-                BudgetPeriod.Weekly => "Неделя",
-                BudgetPeriod.Monthly => "Месяц",
-                _ => ""
-            };
-            
-            sb.AppendLine(string.Join(";",
-                EscapeCsvField(employee.FullName),
-                EscapeCsvField(employee.Phone),
-                EscapeCsvField(employee.Email ?? ""),
-                EscapeCsvField(employee.Position ?? ""),
-                status,
-                inviteStatus,
-                employee.Budget?.TotalBudget.ToString("F2", CultureInfo.InvariantCulture) ?? "0.00",
-                employee.Budget?.DailyLimit.ToString("F2", CultureInfo.InvariantCulture) ?? "0.00",
-                period,
-                autoRenew,
-                employee.CreatedAt.ToString("yyyy-MM-dd HH:mm")
-            ));
-        }
+                "ФИО", "Телефон", "Email", "Должность", "Проект", "Услуга", "Статус", "Приглашение",
+                "Обед", "Общий бюджет", "Дневной лимит", "Период", "Автопродление", "Дата создания"
+            },
+            rows);
 
-        return Encoding.UTF8.GetBytes(sb.ToString());
+        return CreateFile(table, format, "employees");
     }
 
-    public async Task<byte[]> ExportOrdersToCsvAsync(
+    public async Task<ExportFile> ExportOrdersAsync(
         Guid companyId,
-        string? statusFilter,
-        string? dateFilter,
+        Guid? projectId,
+        OrdersExportFilter filter,
+        ExportFormat format,
         CancellationToken cancellationToken = default)
     {
-        // Address is now derived from Project (one project = one address)
-        var query = _context.Orders
-            .Include(o => o.Employee)
-            .Include(o => o.Project)
-            .Where(o => o.CompanyId == companyId);
+        var result = await _orderManagementService.GetOrdersAsync(
+            companyId, 1, MaxExportRows, filter.Search, filter.Status, filter.Date, filter.Address,
+            filter.Type, filter.ServiceType, filter.ComboType, projectId, cancellationToken);
 
-        if (!string.IsNullOrWhiteSpace(statusFilter))
-        {
-            var status = OrderStatusExtensions.FromRussian(statusFilter);
-            query = query.Where(o => o.Status == status);
-        }
+        EnsureWithinLimit(result.Total);
 
-        if (!string.IsNullOrWhiteSpace(dateFilter) && DateTime.TryParse(dateFilter, out var filterDate))
-        {
-            query = query.Where(o => o.OrderDate.Date == filterDate.Date);
-        }
-
-        var orders = await query
-            .OrderByDescending(o => o.OrderDate)
-            .ToListAsync(cancellationToken);
+        var rows = result.Items
+            .Select(o =>
+            {
+                var isCompensation = o.ServiceType == "COMPENSATION";
+                return new object?[]
+                {
+                    o.Date,
+                    o.Type,
+                    isCompensation ? "Компенсация" : "Обед",
+                    o.EmployeeName,
+                    o.EmployeePhone,
+                    o.ProjectName,
+                    isCompensation ? o.RestaurantName : o.ComboType,
+                    isCompensation ? o.CompensationAmount ?? o.Amount : o.Amount,
+                    o.Address,
+                    o.Status
+                };
+            })
+            .ToList();
+
+        var table = new ExportTable(
+            "Заказы",
+            new[] { "Дата", "Тип", "Услуга", "ФИО", "Телефон", "Проект", "Комбо / ресторан", "Сумма", "Адрес", "Статус" },
+            rows);
+
+        return CreateFile(table, format, "orders");
+    }
 
-        var sb = new StringBuilder();
-        
-        // CSV Header (with BOM for Excel UTF-8 support)
-        sb.Append('\uFEFF');
-        sb.AppendLine("Дата;Тип;ФИО;Телефон;Комбо;Цена;Адрес;Статус;Дата создания");
+    public async Task<ExportFile> ExportCompensationLedgerAsync(
+        Guid companyId,
+        Guid? projectId,
+        Guid employeeId,
+        DateOnly? fromDate,
+        DateOnly? toDate,
+        ExportFormat format,
+        CancellationToken cancellationToken = default)
+    {
+        var ledger = await _compensationService.GetLedgerAsync(
+            companyId, projectId, employeeId, fromDate, toDate, cancellationToken);
 
-        foreach (var order in orders)
+        var rows = new List<object?[]>();
+        foreach (var day in ledger.Days)
         {
-            var type = order.IsGuestOrder ? "Гостевой" : "Сотрудник";
-            var name = order.Employee?.FullName ?? order.GuestName ?? "Гость";
-            var phone = order.Employee?.Phone ?? "";
-            var status = order.Status.ToRussian();
-            
-            sb.AppendLine(string.Join(";",
-                order.OrderDate.ToString("yyyy-MM-dd"),
-                type,
-                EscapeCsvField(name),
-                EscapeCsvField(phone),
-                EscapeCsvField(order.ComboType),
-                order.Price.ToString("F2", CultureInfo.InvariantCulture),
-                EscapeCsvField(order.Project?.AddressFullAddress ?? ""),
-                status,
-                order.CreatedAt.ToString("yyyy-MM-dd HH:mm")
-            ));
+            var transactions = day.Transactions.ToList();
+            var date = day.Date.ToString("yyyy-MM-dd");
+
+            if (transactions.Count == 0)
+            {
+                rows.Add(new object?[]
+                {
+                    date, null, day.IsWorkingDay ? null : "Выходной", null, null, null,
+                    day.DailyLimit, day.CarriedIn, day.Remaining, day.CarriedOut
+                });
+                continue;
+            }
+
+            for (var i = 0; i < transactions.Count; i++)
+            {
+                var t = transactions[i];
+                var isLast = i == transactions.Count - 1;
+                rows.Add(new object?[]
+                {
+                    date,
+                    TimezoneHelper.ToLocalTime(t.TransactionTime, ledger.Timezone).ToString("HH:mm"),
+                    t.RestaurantName,
+                    t.Amount,
+                    t.CompanyPaid,
+                    t.EmployeePaid,
+                    day.DailyLimit,
+                    day.CarriedIn,
+                    t.RemainingLimit,
+                    // Carry-over is known once the whole day is accounted for
+                    isLast ? day.CarriedOut : null
+                });
+            }
         }
 
-        return Encoding.UTF8.GetBytes(sb.ToString());
+        var table = new ExportTable(
+            "Компенсация",
+            new[]
+            {
+                "Дата", "Время", "Ресторан", "Сумма чека", "Оплачено компанией", "Доплата сотрудника",
+                "Лимит дня", "Перенос с прошлых дней", "Остаток лимита", "Перенос на следующий день"
+            },
+            rows);
+
+        return CreateFile(table, format, "compensation");
     }
 
-    private static string EscapeCsvField(string field)
+    private static void EnsureWithinLimit(int total)
     {
-        if (string.IsNullOrEmpty(field))
-            return "";
-
-        // If field contains separator, quotes, or newlines, wrap in quotes
-        if (field.Contains(';') || field.Contains('"') || field.Contains('\n') || field.Contains('\r'))
+        if (total > MaxExportRows)
         {
-            return $"\"{field.Replace("\"", "\"\"")}\"";
+            throw new InvalidOperationException(
+                $"Слишком много строк для экспорта ({total}). Максимум {MaxExportRows} — уточните фильтры");
         }
+    }
 
-        return field;
+    private static ExportFile CreateFile(ExportTable table, ExportFormat format, string fileNamePrefix)
+    {
+        var content = format == ExportFormat.Xlsx
+            ? XlsxTableWriter.Write(table)
+            : CsvTableWriter.Write(table);
+        var fileName = $"{fileNamePrefix}_{DateTime.UtcNow:yyyy-MM-dd}.{format.ToExtension()}";
+
+        return new ExportFile(content, format.ToContentType(), fileName);
     }
 }
-
@@ -1,4 +1,5 @@
 using Microsoft.EntityFrameworkCore;
+using YallaBusinessAdmin.Application.Common.Interfaces;
 using YallaBusinessAdmin.Application.Common.Models;
 using YallaBusinessAdmin.Application.Invoices;
 using YallaBusinessAdmin.Application.Invoices.Dtos;
@@ -11,10 +12,12 @@ namespace YallaBusinessAdmin.Infrastructure.Services;
 public class InvoicesService : IInvoicesService
 {
     private readonly AppDbContext _context;
+    private readonly IRealtimeEventHub _realtimeHub;
 
-    public InvoicesService(AppDbContext context)
+    public InvoicesService(AppDbContext context, IRealtimeEventHub realtimeHub)
     {
         _context = context;
+        _realtimeHub = realtimeHub;
     }
 
     public async Task<PagedResult<InvoiceResponse>> GetAllAsync(
@@ -22,9 +25,12 @@ public class InvoicesService : IInvoicesService
         int page,
         int pageSize,
         string? status,
+        DateTime? from,
+        DateTime? to,
         CancellationToken cancellationToken = default)
     {
         var query = _context.Invoices
+            .Include(i => i.Transactions)
             .Where(i => i.CompanyId == companyId);
 
         if (!string.IsNullOrWhiteSpace(status))
@@ -33,6 +39,19 @@ public class InvoicesService : IInvoicesService
             query = query.Where(i => i.Status == invoiceStatus);
         }
 
+        // Period filter by creation date (inclusive, "to" covers the whole day)
+        if (from.HasValue)
+        {
+            var fromUtc = DateTime.SpecifyKind(from.Value.Date, DateTimeKind.Utc);
+            query = query.Where(i => i.CreatedAt >= fromUtc);
+        }
+
+        if (to.HasValue)
+        {
+            var toUtc = DateTime.SpecifyKind(to.Value.Date.AddDays(1), DateTimeKind.Utc);
+            query = query.Where(i => i.CreatedAt < toUtc);
+        }
+
         var total = await query.CountAsync(cancellationToken);
         var invoices = await query
             .OrderByDescending(i => i.CreatedAt)
@@ -47,6 +66,7 @@ public class InvoicesService : IInvoicesService
     public async Task<InvoiceResponse> GetByIdAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default)
     {
         var invoice = await _context.Invoices
+            .Include(i => i.Transactions)
             .FirstOrDefaultAsync(i => i.Id == id && i.CompanyId == companyId, cancellationToken);
 
         if (invoice == null)
@@ -92,6 +112,7 @@ public class InvoicesService : IInvoicesService
     public async Task<InvoiceResponse> PayAsync(Guid id, PayInvoiceRequest request, Guid companyId, CancellationToken cancellationToken = default)
     {
         var invoice = await _context.Invoices
+            .Include(i => i.Transactions)
             .FirstOrDefaultAsync(i => i.Id == id && i.CompanyId == companyId, cancellationToken);
 
         if (invoice == null)
@@ -109,6 +130,18 @@ public class InvoicesService : IInvoicesService
             throw new InvalidOperationException("Счет отменен");
         }
 
+        if (request.Amount <= 0)
+        {
+            throw new InvalidOperationException("Сумма оплаты должна быть больше нуля");
+        }
+
+        var outstanding = invoice.Amount - GetPaidAmount(invoice);
+
+        if (request.Amount > outstanding)
+        {
+            throw new InvalidOperationException($"Сумма оплаты превышает остаток по счёту ({outstanding:N2} {invoice.CurrencyCode})");
+        }
+
         // Get company to update balance
         var company = await _context.Companies
             .FirstOrDefaultAsync(c => c.Id == companyId, cancellationToken);
@@ -118,9 +151,12 @@ public class InvoicesService : IInvoicesService
             throw new KeyNotFoundException("Компания не найдена");
         }
 
-        // Update invoice
-        invoice.Status = InvoiceStatus.Paid;
-        invoice.PaidAt = DateTime.UtcNow;
+        // The invoice is paid once the outstanding balance is covered
+        if (request.Amount == outstanding)
+        {
+            invoice.Status = InvoiceStatus.Paid;
+            invoice.PaidAt = DateTime.UtcNow;
+        }
 
         // Add deposit to company balance
         company.Budget += request.Amount;
@@ -141,9 +177,28 @@ public class InvoicesService : IInvoicesService
         await _context.CompanyTransactions.AddAsync(transaction, cancellationToken);
         await _context.SaveChangesAsync(cancellationToken);
 
+        // Company-wide deposit: no project, balance is the company budget
+        _realtimeHub.Publish(new RealtimeEvent
+        {
+            Type = RealtimeEventTypes.BudgetChanged,
+            CompanyId = companyId,
+            EntityIds = new[] { invoice.Id },
+            Balance = company.Budget
+        });
+
         return MapToResponse(invoice);
     }
 
+    /// <summary>
+    /// Earlier (partial) payments are deposits linked to the invoice
+    /// </summary>
+    private static decimal GetPaidAmount(Invoice invoice)
+    {
+        return invoice.Transactions
+            .Where(t => t.Type == TransactionType.Deposit)
+            .Sum(t => t.Amount);
+    }
+
     private static InvoiceResponse MapToResponse(Invoice invoice)
     {
         return new InvoiceResponse
@@ -151,6 +206,7 @@ public class InvoicesService : IInvoicesService
             Id = invoice.Id,
             ExternalId = invoice.ExternalId,
             Amount = invoice.Amount,
+            PaidAmount = GetPaidAmount(invoice),
             CurrencyCode = invoice.CurrencyCode,
             Status = invoice.Status.ToDatabase(),
             DueDate = invoice.DueDate,
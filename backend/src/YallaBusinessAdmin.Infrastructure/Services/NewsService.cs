@@ -3,6 +3,7 @@ using YallaBusinessAdmin.Application.Common.Models;
 using YallaBusinessAdmin.Application.News;
 using YallaBusinessAdmin.Application.News.Dtos;
 using YallaBusinessAdmin.Domain.Entities;
+using YallaBusinessAdmin.Domain.Enums;
 using YallaBusinessAdmin.Infrastructure.Persistence;
 
 namespace YallaBusinessAdmin.Infrastructure.Services;
@@ -21,12 +22,25 @@ public class NewsService : INewsService
         string userRole,
         int page,
         int pageSize,
+        string? category,
+        bool unreadOnly,
         CancellationToken cancellationToken = default)
     {
         var query = _context.SystemNews
             .Where(n => n.IsPublished)
             .Where(n => n.TargetRoles.Length == 0 || n.TargetRoles.Contains(userRole.ToUpper()));
 
+        if (!string.IsNullOrWhiteSpace(category))
+        {
+            var newsCategory = NewsCategoryExtensions.FromDatabase(category.ToUpper());
+            query = query.Where(n => n.Category == newsCategory);
+        }
+
+        if (unreadOnly)
+        {
+            query = query.Where(n => !n.ReadStatuses.Any(r => r.UserId == userId));
+        }
+
         var total = await query.CountAsync(cancellationToken);
         var news = await query
             .OrderByDescending(n => n.PublishedAt ?? n.CreatedAt)
@@ -110,6 +124,7 @@ public class NewsService : INewsService
             Id = news.Id,
             Title = news.Title,
             Content = news.Content,
+            Category = news.Category.ToDatabase(),
             IsPublished = news.IsPublished,
             PublishedAt = news.PublishedAt,
             TargetRoles = news.TargetRoles,
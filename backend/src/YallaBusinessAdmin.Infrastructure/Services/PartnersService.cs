@@ -0,0 +1,236 @@
+using Microsoft.EntityFrameworkCore;
+using YallaBusinessAdmin.Application.Partners;
+using YallaBusinessAdmin.Application.Partners.Dtos;
+using YallaBusinessAdmin.Domain.Entities;
+using YallaBusinessAdmin.Domain.Enums;
+using YallaBusinessAdmin.Infrastructure.Persistence;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+public class PartnersService : IPartnersService
+{
+    private readonly AppDbContext _context;
+
+    private const double EarthRadiusKm = 6371.0;
+
+    private const int RecentTransactionsCount = 20;
+
+    public PartnersService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<PartnersListResponse> GetAllAsync(
+        Guid companyId,
+        Guid? projectId,
+        string? search,
+        string? type,
+        double? maxDistanceKm,
+        CancellationToken cancellationToken = default)
+    {
+        if (maxDistanceKm.HasValue && maxDistanceKm.Value <= 0)
+        {
+            throw new ArgumentException("Радиус поиска должен быть положительным");
+        }
+
+        var origin = await GetOriginAsync(companyId, projectId, cancellationToken);
+
+        // The directory is small (hundreds of venues), distance is calculated in memory
+        var query = _context.Partners
+            .AsNoTracking()
+            .Where(p => p.IsActive);
+
+        if (!string.IsNullOrWhiteSpace(search))
+        {
+            var searchLower = search.Trim().ToLower();
+            query = query.Where(p =>
+                p.Name.ToLower().Contains(searchLower) ||
+                p.Address.ToLower().Contains(searchLower) ||
+                (p.Cuisine != null && p.Cuisine.ToLower().Contains(searchLower)));
+        }
+
+        var partners = await query.ToListAsync(cancellationToken);
+
+        var items = partners
+            .Select(p => MapToResponse(p, origin))
+            .Where(p => !maxDistanceKm.HasValue || (p.DistanceKm.HasValue && p.DistanceKm.Value <= maxDistanceKm.Value))
+            .ToList();
+
+        var typeCounts = items
+            .GroupBy(p => p.Type)
+            .ToDictionary(g => g.Key, g => g.Count());
+
+        if (!string.IsNullOrWhiteSpace(type))
+        {
+            var partnerType = PartnerTypeExtensions.FromDatabase(type.ToUpper()).ToDatabase();
+            items = items.Where(p => p.Type == partnerType).ToList();
+        }
+
+        // Nearest first; venues without coordinates go last
+        items = items
+            .OrderBy(p => p.DistanceKm ?? double.MaxValue)
+            .ThenBy(p => p.Name)
+            .ToList();
+
+        return new PartnersListResponse
+        {
+            Items = items,
+            Total = items.Count,
+            Origin = origin,
+            TypeCounts = typeCounts
+        };
+    }
+
+    public async Task<PartnerDetailResponse> GetByIdAsync(
+        Guid id,
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken = default)
+    {
+        var partner = await _context.Partners
+            .AsNoTracking()
+            .FirstOrDefaultAsync(p => p.Id == id, cancellationToken)
+            ?? throw new KeyNotFoundException("Партнёр не найден");
+
+        var origin = await GetOriginAsync(companyId, projectId, cancellationToken);
+
+        // Older transactions only have the restaurant name, match them by name
+        var transactionsQuery = _context.CompensationTransactions
+            .AsNoTracking()
+            .Where(t => t.Project != null && t.Project.CompanyId == companyId)
+            .Where(t => t.PartnerId == id || (t.PartnerId == null && t.RestaurantName == partner.Name));
+
+        if (projectId.HasValue)
+        {
+            transactionsQuery = transactionsQuery.Where(t => t.ProjectId == projectId.Value);
+        }
+
+        var stats = await transactionsQuery
+            .GroupBy(_ => 1)
+            .Select(g => new
+            {
+                Count = g.Count(),
+                CompanyPaid = g.Sum(t => t.CompanyPaidAmount),
+                LastAt = g.Max(t => t.CreatedAt)
+            })
+            .FirstOrDefaultAsync(cancellationToken);
+
+        var recent = await transactionsQuery
+            .OrderByDescending(t => t.CreatedAt)
+            .Take(RecentTransactionsCount)
+            .Select(t => new PartnerTransactionResponse
+            {
+                Id = t.Id,
+                EmployeeId = t.EmployeeId,
+                EmployeeName = t.Employee != null ? t.Employee.FullName : string.Empty,
+                ProjectName = t.Project != null ? t.Project.Name : string.Empty,
+                TotalAmount = t.TotalAmount,
+                CompanyPaidAmount = t.CompanyPaidAmount,
+                EmployeePaidAmount = t.EmployeePaidAmount,
+                TransactionDate = t.TransactionDate,
+                CreatedAt = t.CreatedAt
+            })
+            .ToListAsync(cancellationToken);
+
+        var response = MapToResponse(partner, origin);
+
+        return new PartnerDetailResponse
+        {
+            Id = response.Id,
+            Name = response.Name,
+            Type = response.Type,
+            Cuisine = response.Cuisine,
+            Address = response.Address,
+            Latitude = response.Latitude,
+            Longitude = response.Longitude,
+            Phone = response.Phone,
+            Email = response.Email,
+            WorkingHours = response.WorkingHours,
+            IsActive = response.IsActive,
+            DistanceKm = response.DistanceKm,
+            TransactionsCount = stats?.Count ?? 0,
+            TotalCompanyPaid = stats?.CompanyPaid ?? 0,
+            LastTransactionAt = stats?.LastAt,
+            RecentTransactions = recent
+        };
+    }
+
+    /// <summary>
+    /// Resolves the project whose address is used for distances.
+    /// Falls back to the headquarters, then to the oldest project.
+    /// </summary>
+    private async Task<PartnerOrigin?> GetOriginAsync(Guid companyId, Guid? projectId, CancellationToken cancellationToken)
+    {
+        var projectsQuery = _context.Projects
+            .AsNoTracking()
+            .Where(p => p.CompanyId == companyId && p.DeletedAt == null);
+
+        if (projectId.HasValue)
+        {
+            var project = await projectsQuery.FirstOrDefaultAsync(p => p.Id == projectId.Value, cancellationToken)
+                ?? throw new KeyNotFoundException("Проект не найден");
+            return MapToOrigin(project);
+        }
+
+        var fallback = await projectsQuery
+            .OrderByDescending(p => p.IsHeadquarters)
+            .ThenBy(p => p.CreatedAt)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        return fallback == null ? null : MapToOrigin(fallback);
+    }
+
+    private static PartnerOrigin MapToOrigin(Project project)
+    {
+        return new PartnerOrigin
+        {
+            ProjectId = project.Id,
+            ProjectName = project.Name,
+            Address = project.AddressFullAddress,
+            Latitude = project.AddressLatitude,
+            Longitude = project.AddressLongitude,
+            CurrencyCode = project.CurrencyCode
+        };
+    }
+
+    private static PartnerResponse MapToResponse(Partner partner, PartnerOrigin? origin)
+    {
+        return new PartnerResponse
+        {
+            Id = partner.Id,
+            Name = partner.Name,
+            Type = partner.Type.ToDatabase(),
+            Cuisine = partner.Cuisine,
+            Address = partner.Address,
+            Latitude = partner.Latitude,
+            Longitude = partner.Longitude,
+            Phone = partner.Phone,
+            Email = partner.Email,
+            WorkingHours = partner.WorkingHours,
+            IsActive = partner.IsActive,
+            DistanceKm = GetDistanceKm(origin?.Latitude, origin?.Longitude, partner.Latitude, partner.Longitude)
+        };
+    }
+
+    /// <summary>
+    /// Haversine distance rounded to 0.1 km
+    /// </summary>
+    private static double? GetDistanceKm(double? lat1, double? lon1, double? lat2, double? lon2)
+    {
+        if (!lat1.HasValue || !lon1.HasValue || !lat2.HasValue || !lon2.HasValue)
+        {
+            return null;
+        }
+
+        var dLat = ToRadians(lat2.Value - lat1.Value);
+        var dLon = ToRadians(lon2.Value - lon1.Value);
+        var a = Math.Sin(dLat / 2) * Math.Sin(dLat / 2) +
+                Math.Cos(ToRadians(lat1.Value)) * Math.Cos(ToRadians(lat2.Value)) *
+                Math.Sin(dLon / 2) * Math.Sin(dLon / 2);
+        var distance = EarthRadiusKm * 2 * Math.Atan2(Math.Sqrt(a), Math.Sqrt(1 - a));
+
+        return Math.Round(distance, 1);
+    }
+
+    private static double ToRadians(double degrees) => degrees * Math.PI / 180;
+}
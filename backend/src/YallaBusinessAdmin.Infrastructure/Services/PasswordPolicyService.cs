@@ -0,0 +1,104 @@
+using Microsoft.Extensions.Configuration;
+using YallaBusinessAdmin.Application.Auth;
+using YallaBusinessAdmin.Application.Auth.Dtos;
+using YallaBusinessAdmin.Application.Common.Errors;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Validators;
+using YallaBusinessAdmin.Domain.Entities;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+public class PasswordPolicyService : IPasswordPolicyService
+{
+    private readonly IPasswordBreachChecker _breachChecker;
+    private readonly int _maxAgeDays;
+
+    public PasswordPolicyService(IPasswordBreachChecker breachChecker, IConfiguration configuration)
+    {
+        _breachChecker = breachChecker;
+        _maxAgeDays = Math.Max(0, int.Parse(configuration["PasswordPolicy:MaxAgeDays"] ?? "0"));
+    }
+
+    public async Task<PasswordCheckResponse> CheckAsync(string password, CancellationToken cancellationToken = default)
+    {
+        password ??= "";
+        var validation = PasswordValidator.Validate(password);
+        var strength = PasswordValidator.CalculateStrength(password);
+        var errors = validation.Errors.ToList();
+
+        bool? breached = null;
+        if (validation.IsValid)
+        {
+            var count = await _breachChecker.GetBreachCountAsync(password, cancellationToken);
+            breached = count.HasValue ? count > 0 : null;
+            if (breached == true)
+            {
+                errors.Add(ErrorMessages.GetMessage(ErrorCodes.AUTH_PASSWORD_BREACHED));
+            }
+        }
+
+        // A leaked password is weak however complex it looks
+        if (breached == true)
+        {
+            strength = 0;
+        }
+
+        return new PasswordCheckResponse
+        {
+            IsValid = errors.Count == 0,
+            Errors = errors,
+            Strength = strength,
+            StrengthLabel = strength switch
+            {
+                < 30 => "Слабый",
+                < 50 => "Средний",
+                < 70 => "Хороший",
+                _ => "Отличный"
+            },
+            Rules = PasswordValidator.CheckRules(password)
+                .Select(r => new PasswordRuleDto { Code = r.Code, Label = r.Label, Passed = r.Passed })
+                .ToList(),
+            Breached = breached,
+            Requirements = new PasswordRequirementsDto
+            {
+                MinLength = PasswordValidator.MinLength,
+                MaxLength = PasswordValidator.MaxLength,
+                MaxAgeDays = _maxAgeDays
+            }
+        };
+    }
+
+    public async Task EnsureAcceptableAsync(string password, CancellationToken cancellationToken = default)
+    {
+        var validation = PasswordValidator.Validate(password);
+        if (!validation.IsValid)
+        {
+            throw new AppException(
+                ErrorCodes.AUTH_PASSWORD_WEAK,
+                validation.ErrorMessage,
+                ErrorType.Validation,
+                new Dictionary<string, object> { ["errors"] = validation.Errors.ToList() });
+        }
+
+        var breachCount = await _breachChecker.GetBreachCountAsync(password, cancellationToken);
+        if (breachCount > 0)
+        {
+            throw new AppException(
+                ErrorCodes.AUTH_PASSWORD_BREACHED,
+                ErrorMessages.GetMessage(ErrorCodes.AUTH_PASSWORD_BREACHED),
+                ErrorType.Validation,
+                new Dictionary<string, object> { ["breachCount"] = breachCount.Value });
+        }
+    }
+
+    public bool IsExpired(AdminUser user)
+    {
+        if (_maxAgeDays == 0)
+        {
+            return false;
+        }
+
+        var changedAt = user.PasswordChangedAt ?? user.CreatedAt;
+        return changedAt.AddDays(_maxAgeDays) <= DateTime.UtcNow;
+    }
+}
@@ -0,0 +1,129 @@
+using System.Globalization;
+using Microsoft.EntityFrameworkCore;
+using YallaBusinessAdmin.Application.Audit;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Projects;
+using YallaBusinessAdmin.Application.Projects.Dtos;
+using YallaBusinessAdmin.Domain.Entities;
+using YallaBusinessAdmin.Infrastructure.Persistence;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+public class ProjectSettingsService : IProjectSettingsService
+{
+    private readonly AppDbContext _context;
+    private readonly IBusinessConfigService _configService;
+    private readonly IAuditService _auditService;
+
+    private const int DefaultSubscriptionMinDays = 5;
+    private const int MaxSubscriptionMinDays = 60;
+    private const string CutoffTimeFormat = "HH:mm";
+
+    public ProjectSettingsService(
+        AppDbContext context,
+        IBusinessConfigService configService,
+        IAuditService auditService)
+    {
+        _context = context;
+        _configService = configService;
+        _auditService = auditService;
+    }
+
+    public async Task<ProjectSettingsResponse> GetAsync(
+        Guid projectId,
+        Guid companyId,
+        CancellationToken cancellationToken = default)
+    {
+        var project = await _context.Projects
+            .AsNoTracking()
+            .FirstOrDefaultAsync(p => p.Id == projectId && p.CompanyId == companyId && p.DeletedAt == null, cancellationToken)
+            ?? throw new KeyNotFoundException("Проект не найден");
+
+        return await MapToResponseAsync(project, cancellationToken);
+    }
+
+    public async Task<ProjectSettingsResponse> UpdateAsync(
+        Guid projectId,
+        Guid companyId,
+        UpdateProjectSettingsRequest request,
+        Guid? currentUserId,
+        CancellationToken cancellationToken = default)
+    {
+        if (!TimeZoneInfo.TryFindSystemTimeZoneById(request.Timezone, out _))
+            throw new ArgumentException($"Неизвестный часовой пояс: {request.Timezone}");
+
+        if (!TimeOnly.TryParseExact(request.CutoffTime, CutoffTimeFormat, CultureInfo.InvariantCulture, DateTimeStyles.None, out var cutoffTime))
+            throw new ArgumentException("Время отсечки должно быть в формате ЧЧ:ММ");
+
+        if (request.CompensationDailyLimit < 0)
+            throw new ArgumentException("Дневной лимит компенсации не может быть отрицательным");
+
+        if (request.SubscriptionMinDays < 1 || request.SubscriptionMinDays > MaxSubscriptionMinDays)
+            throw new ArgumentException($"Минимальный период подписки — от 1 до {MaxSubscriptionMinDays} рабочих дней");
+
+        var project = await _context.Projects
+            .FirstOrDefaultAsync(p => p.Id == projectId && p.CompanyId == companyId && p.DeletedAt == null, cancellationToken)
+            ?? throw new KeyNotFoundException("Проект не найден");
+
+        var oldValues = await MapToResponseAsync(project, cancellationToken);
+
+        project.Timezone = request.Timezone;
+        project.CutoffTime = cutoffTime;
+        project.CompensationDailyLimit = request.CompensationDailyLimit;
+        project.CompensationRollover = request.CompensationRollover;
+        project.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        if (request.SubscriptionMinDays != oldValues.SubscriptionMinDays)
+        {
+            await _configService.SetAsync(
+                ConfigKeys.ProjectSubscriptionMinDays(projectId),
+                request.SubscriptionMinDays,
+                currentUserId,
+                cancellationToken);
+        }
+
+        var response = await MapToResponseAsync(project, cancellationToken);
+
+        await _auditService.LogAsync(
+            currentUserId,
+            AuditActions.Update,
+            AuditEntityTypes.Project,
+            project.Id,
+            oldValues: oldValues,
+            newValues: response,
+            cancellationToken: cancellationToken);
+
+        return response;
+    }
+
+    public async Task<int> GetSubscriptionMinDaysAsync(Guid projectId, CancellationToken cancellationToken = default)
+    {
+        var companyDefault = await _configService.GetIntAsync(
+            ConfigKeys.SubscriptionMinDays, DefaultSubscriptionMinDays, cancellationToken);
+
+        return await _configService.GetIntAsync(
+            ConfigKeys.ProjectSubscriptionMinDays(projectId), companyDefault, cancellationToken);
+    }
+
+    private async Task<ProjectSettingsResponse> MapToResponseAsync(Project project, CancellationToken cancellationToken)
+    {
+        var companyDefault = await _configService.GetIntAsync(
+            ConfigKeys.SubscriptionMinDays, DefaultSubscriptionMinDays, cancellationToken);
+        var minDays = await GetSubscriptionMinDaysAsync(project.Id, cancellationToken);
+
+        return new ProjectSettingsResponse(
+            project.Id,
+            project.Name,
+            project.Timezone,
+            project.CutoffTime.ToString(CutoffTimeFormat, CultureInfo.InvariantCulture),
+            project.CurrencyCode,
+            project.ServiceTypes,
+            project.CompensationDailyLimit,
+            project.CompensationRollover,
+            minDays,
+            companyDefault
+        );
+    }
+}
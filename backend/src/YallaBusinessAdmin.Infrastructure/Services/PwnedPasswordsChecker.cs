@@ -0,0 +1,69 @@
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+/// <summary>
+/// Checks passwords against the Pwned Passwords range API (k-anonymity): only the first
+/// five characters of the SHA-1 hash leave the server, the match is done locally
+/// </summary>
+public class PwnedPasswordsChecker : IPasswordBreachChecker
+{
+    private readonly HttpClient _httpClient;
+    private readonly ILogger<PwnedPasswordsChecker> _logger;
+    private readonly bool _enabled;
+    private readonly string _apiUrl;
+
+    public PwnedPasswordsChecker(HttpClient httpClient, IConfiguration configuration, ILogger<PwnedPasswordsChecker> logger)
+    {
+        _httpClient = httpClient;
+        _logger = logger;
+
+        _enabled = !bool.TryParse(configuration["PasswordPolicy:CheckBreaches"], out var enabled) || enabled;
+        _apiUrl = (configuration["PasswordPolicy:BreachApiUrl"] ?? "https://api.pwnedpasswords.com").TrimEnd('/');
+
+        _httpClient.Timeout = TimeSpan.FromSeconds(3);
+        // Padding hides the real number of matches from anyone watching the traffic
+        _httpClient.DefaultRequestHeaders.Add("Add-Padding", "true");
+    }
+
+    public async Task<int?> GetBreachCountAsync(string password, CancellationToken cancellationToken = default)
+    {
+        if (!_enabled || string.IsNullOrEmpty(password))
+        {
+            return null;
+        }
+
+        var hash = Convert.ToHexString(SHA1.HashData(Encoding.UTF8.GetBytes(password)));
+        var prefix = hash[..5];
+        var suffix = hash[5..];
+
+        try
+        {
+            var body = await _httpClient.GetStringAsync($"{_apiUrl}/range/{prefix}", cancellationToken);
+
+            foreach (var line in body.Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries))
+            {
+                var separator = line.IndexOf(':');
+                if (separator <= 0 || !line.AsSpan(0, separator).Equals(suffix, StringComparison.OrdinalIgnoreCase))
+                {
+                    continue;
+                }
+
+                // Padding entries carry a count of 0
+                return int.TryParse(line[(separator + 1)..], out var count) ? count : 0;
+            }
+
+            return 0;
+        }
+        catch (Exception ex) when ((ex is HttpRequestException or TaskCanceledException) && !cancellationToken.IsCancellationRequested)
+        {
+            // Fail open: an outage of the breach database must not block password changes
+            _logger.LogWarning(ex, "Breached password check unavailable");
+            return null;
+        }
+    }
+}
@@ -0,0 +1,80 @@
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Models;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+/// <summary>
+/// In-memory realtime hub: one bounded channel per connected client.
+/// Single-instance only — for several API instances replace with a Redis/Postgres
+/// backplane behind the same interface.
+/// </summary>
+public sealed class RealtimeEventHub : IRealtimeEventHub
+{
+    private const int SubscriberBufferSize = 256;
+
+    private readonly ConcurrentDictionary<Guid, Subscription> _subscriptions = new();
+
+    public void Publish(RealtimeEvent realtimeEvent)
+    {
+        foreach (var subscription in _subscriptions.Values)
+        {
+            if (subscription.Accepts(realtimeEvent))
+            {
+                subscription.Channel.Writer.TryWrite(realtimeEvent);
+            }
+        }
+    }
+
+    public IRealtimeSubscription Subscribe(Guid companyId, Guid? projectId)
+    {
+        var channel = Channel.CreateBounded<RealtimeEvent>(new BoundedChannelOptions(SubscriberBufferSize)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest,
+            SingleReader = true,
+            SingleWriter = false
+        });
+
+        var subscription = new Subscription(Guid.NewGuid(), companyId, projectId, channel, this);
+        _subscriptions[subscription.Id] = subscription;
+        return subscription;
+    }
+
+    private void Remove(Guid subscriptionId)
+    {
+        if (_subscriptions.TryRemove(subscriptionId, out var subscription))
+        {
+            subscription.Channel.Writer.TryComplete();
+        }
+    }
+
+    private sealed class Subscription : IRealtimeSubscription
+    {
+        private readonly RealtimeEventHub _hub;
+
+        public Subscription(Guid id, Guid companyId, Guid? projectId, Channel<RealtimeEvent> channel, RealtimeEventHub hub)
+        {
+            Id = id;
+            CompanyId = companyId;
+            ProjectId = projectId;
+            Channel = channel;
+            _hub = hub;
+        }
+
+        public Guid Id { get; }
+        public Guid CompanyId { get; }
+        public Guid? ProjectId { get; }
+        public Channel<RealtimeEvent> Channel { get; }
+        public ChannelReader<RealtimeEvent> Reader => Channel.Reader;
+
+        /// <summary>
+        /// Company must match; a project-scoped client also gets company-wide events.
+        /// </summary>
+        public bool Accepts(RealtimeEvent realtimeEvent) =>
+            realtimeEvent.CompanyId == CompanyId &&
+            (ProjectId == null || realtimeEvent.ProjectId == null || realtimeEvent.ProjectId == ProjectId);
+
+        public void Dispose() => _hub.Remove(Id);
+    }
+}
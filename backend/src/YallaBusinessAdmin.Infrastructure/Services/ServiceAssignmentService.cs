@@ -0,0 +1,383 @@
+using Microsoft.EntityFrameworkCore;
+using YallaBusinessAdmin.Application.Audit;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Common.Models;
+using YallaBusinessAdmin.Application.ServiceAssignments;
+using YallaBusinessAdmin.Application.ServiceAssignments.Dtos;
+using YallaBusinessAdmin.Application.Subscriptions;
+using YallaBusinessAdmin.Domain.Entities;
+using YallaBusinessAdmin.Domain.Enums;
+using YallaBusinessAdmin.Infrastructure.Persistence;
+using YallaBusinessAdmin.Infrastructure.Services.Dashboard;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+public class ServiceAssignmentService : IServiceAssignmentService
+{
+    private readonly AppDbContext _context;
+    private readonly ISubscriptionsService _subscriptionsService;
+    private readonly IAuditService _auditService;
+    private readonly IRealtimeEventHub _realtimeHub;
+
+    public ServiceAssignmentService(
+        AppDbContext context,
+        ISubscriptionsService subscriptionsService,
+        IAuditService auditService,
+        IRealtimeEventHub realtimeHub)
+    {
+        _context = context;
+        _subscriptionsService = subscriptionsService;
+        _auditService = auditService;
+        _realtimeHub = realtimeHub;
+    }
+
+    public async Task<IEnumerable<ServiceAvailabilityResponse>> CheckAvailabilityAsync(
+        CheckServiceAvailabilityRequest request,
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken = default)
+    {
+        if (request.EmployeeIds.Count == 0)
+        {
+            throw new ArgumentException("Не выбраны сотрудники");
+        }
+
+        ServiceType? requestedService = string.IsNullOrWhiteSpace(request.ServiceType)
+            ? null
+            : ServiceTypeExtensions.FromDatabase(request.ServiceType.ToUpper());
+
+        var employeeIds = request.EmployeeIds.Distinct().ToList();
+        var employees = await LoadEmployeesAsync(employeeIds, companyId, projectId, cancellationToken);
+
+        return employeeIds
+            .Select(id => employees.TryGetValue(id, out var employee)
+                ? MapToResponse(employee, requestedService)
+                : new ServiceAvailabilityResponse
+                {
+                    EmployeeId = id,
+                    BlockingReason = "Сотрудник не найден"
+                })
+            .ToList();
+    }
+
+    public async Task<BulkCancelPreviewResponse> PreviewBulkCancelAsync(
+        BulkCancelServicesRequest request,
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken = default)
+    {
+        var (serviceType, employeeIds) = ValidateBulkCancelRequest(request);
+        var employees = await LoadEmployeesAsync(employeeIds, companyId, projectId, cancellationToken);
+
+        return await BuildPreviewAsync(serviceType, employeeIds, employees, cancellationToken);
+    }
+
+    public async Task<BulkCancelServicesResponse> BulkCancelAsync(
+        BulkCancelServicesRequest request,
+        Guid companyId,
+        Guid? projectId,
+        Guid? currentUserId,
+        CancellationToken cancellationToken = default)
+    {
+        var (serviceType, employeeIds) = ValidateBulkCancelRequest(request);
+        var employees = await LoadEmployeesAsync(employeeIds, companyId, projectId, cancellationToken);
+        var preview = await BuildPreviewAsync(serviceType, employeeIds, employees, cancellationToken);
+
+        var response = new BulkCancelServicesResponse { ServiceType = preview.ServiceType };
+
+        foreach (var item in preview.Items)
+        {
+            if (!item.CanCancel)
+            {
+                response.Errors.Add(new BulkOperationError
+                {
+                    EmployeeId = item.EmployeeId,
+                    Message = string.IsNullOrEmpty(item.EmployeeName) ? item.Reason! : $"{item.EmployeeName} ({item.Reason})"
+                });
+                continue;
+            }
+
+            // Each employee is cancelled in its own transaction so one failure does not roll back the rest.
+            // The report uses what was actually cancelled, orders may have changed since the preview.
+            var cancelledOrders = 0;
+            var refundAmount = 0m;
+            try
+            {
+                if (serviceType == ServiceType.Lunch)
+                {
+                    var result = await _subscriptionsService.DeleteAsync(
+                        employees[item.EmployeeId].LunchSubscription!.Id, companyId, cancellationToken);
+                    cancelledOrders = result.CancelledOrders;
+                    refundAmount = result.RefundAmount;
+                }
+                else
+                {
+                    await CancelCompensationAsync(item.EmployeeId, companyId, cancellationToken);
+                }
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                // Drop half-applied changes so they are not saved with the next employee
+                _context.ChangeTracker.Clear();
+                response.Errors.Add(new BulkOperationError
+                {
+                    EmployeeId = item.EmployeeId,
+                    Message = $"{item.EmployeeName} ({ex.Message})"
+                });
+                continue;
+            }
+
+            await _auditService.LogAsync(
+                currentUserId,
+                AuditActions.CancelService,
+                AuditEntityTypes.Employee,
+                item.EmployeeId,
+                oldValues: new { ServiceType = preview.ServiceType },
+                newValues: new { CancelledOrders = cancelledOrders, RefundAmount = refundAmount, Bulk = true },
+                cancellationToken: cancellationToken);
+
+            response.Cancelled.Add(new BulkCancelResultItem
+            {
+                EmployeeId = item.EmployeeId,
+                EmployeeName = item.EmployeeName,
+                CancelledOrders = cancelledOrders,
+                RefundAmount = refundAmount
+            });
+        }
+
+        response.CancelledOrders = response.Cancelled.Sum(c => c.CancelledOrders);
+        response.TotalRefund = response.Cancelled.Sum(c => c.RefundAmount);
+        response.Success = !(response.Cancelled.Count == 0 && response.Errors.Count > 0);
+
+        return response;
+    }
+
+    private static (ServiceType ServiceType, List<Guid> EmployeeIds) ValidateBulkCancelRequest(BulkCancelServicesRequest request)
+    {
+        if (request.EmployeeIds.Count == 0)
+        {
+            throw new ArgumentException("Не выбраны сотрудники");
+        }
+
+        if (string.IsNullOrWhiteSpace(request.ServiceType))
+        {
+            throw new ArgumentException("Укажите тип услуги для отмены");
+        }
+
+        return (ServiceTypeExtensions.FromDatabase(request.ServiceType.ToUpper()), request.EmployeeIds.Distinct().ToList());
+    }
+
+    /// <summary>
+    /// Loads employees of the company (or one project), including deleted ones to report them instead of silently dropping
+    /// </summary>
+    private async Task<Dictionary<Guid, Employee>> LoadEmployeesAsync(
+        List<Guid> employeeIds,
+        Guid companyId,
+        Guid? projectId,
+        CancellationToken cancellationToken)
+    {
+        var query = _context.Employees
+            .AsNoTracking()
+            .IgnoreQueryFilters()
+            .Include(e => e.Project)
+            .Include(e => e.LunchSubscription)
+            .Include(e => e.Budget)
+            .Where(e => employeeIds.Contains(e.Id) && e.CompanyId == companyId);
+
+        if (projectId.HasValue)
+        {
+            query = query.Where(e => e.ProjectId == projectId.Value);
+        }
+
+        return await query.ToDictionaryAsync(e => e.Id, cancellationToken);
+    }
+
+    private async Task<BulkCancelPreviewResponse> BuildPreviewAsync(
+        ServiceType serviceType,
+        List<Guid> employeeIds,
+        Dictionary<Guid, Employee> employees,
+        CancellationToken cancellationToken)
+    {
+        // Same order selection as subscription deletion: from the project's local today,
+        // Active/Paused orders are cancelled, Completed ones are cancelled and refunded
+        var futureOrders = new List<Order>();
+        if (serviceType == ServiceType.Lunch && employees.Count > 0)
+        {
+            var earliestToday = employees.Values.Min(e => TimezoneHelper.GetLocalToday(e.Project?.Timezone));
+            var ids = employees.Keys.ToList();
+            futureOrders = await _context.Orders
+                .AsNoTracking()
+                .Where(o => o.EmployeeId.HasValue && ids.Contains(o.EmployeeId.Value)
+                         && o.Status != OrderStatus.Cancelled
+                         && o.OrderDate >= earliestToday)
+                .ToListAsync(cancellationToken);
+        }
+
+        var items = employeeIds
+            .Select(id => employees.TryGetValue(id, out var employee)
+                ? MapToPreviewItem(employee, serviceType, futureOrders)
+                : new BulkCancelPreviewItem { EmployeeId = id, Reason = "Сотрудник не найден" })
+            .ToList();
+
+        var cancellable = items.Where(i => i.CanCancel).ToList();
+
+        return new BulkCancelPreviewResponse
+        {
+            ServiceType = serviceType.ToDatabase(),
+            Items = items,
+            CancellableCount = cancellable.Count,
+            TotalFutureOrders = cancellable.Sum(i => i.FutureOrdersCount),
+            TotalRefund = cancellable.Sum(i => i.RefundAmount),
+            CurrencyCode = employees.Values.Select(e => e.Project?.CurrencyCode).FirstOrDefault(c => c != null) ?? "TJS"
+        };
+    }
+
+    private static BulkCancelPreviewItem MapToPreviewItem(Employee employee, ServiceType serviceType, List<Order> futureOrders)
+    {
+        var item = new BulkCancelPreviewItem
+        {
+            EmployeeId = employee.Id,
+            EmployeeName = employee.FullName
+        };
+
+        if (employee.IsDeleted)
+        {
+            item.Reason = "удалён";
+            return item;
+        }
+
+        if (serviceType == ServiceType.Lunch)
+        {
+            if (!employee.HasExistingLunchSubscription)
+            {
+                item.Reason = "нет подписки на обеды";
+                return item;
+            }
+
+            var localToday = TimezoneHelper.GetLocalToday(employee.Project?.Timezone);
+            var orders = futureOrders
+                .Where(o => o.EmployeeId == employee.Id && o.OrderDate >= localToday)
+                .ToList();
+
+            item.CanCancel = true;
+            item.FutureOrdersCount = orders.Count;
+            item.RefundAmount = orders.Where(o => o.Status == OrderStatus.Completed).Sum(o => o.Price);
+            return item;
+        }
+
+        if (employee.ServiceType != ServiceType.Compensation)
+        {
+            item.Reason = "компенсация не назначена";
+            return item;
+        }
+
+        item.CanCancel = true;
+        item.RemainingBudget = employee.Budget?.RemainingBudget;
+        return item;
+    }
+
+    /// <summary>
+    /// Compensation is charged per transaction, so ending it only resets the service type.
+    /// Pushed like a subscription deletion so open dashboards drop the employee's service.
+    /// </summary>
+    private async Task CancelCompensationAsync(Guid employeeId, Guid companyId, CancellationToken cancellationToken)
+    {
+        var employee = await _context.Employees.FirstAsync(e => e.Id == employeeId, cancellationToken);
+
+        employee.ServiceType = null;
+        employee.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _realtimeHub.Publish(new RealtimeEvent
+        {
+            Type = RealtimeEventTypes.BudgetChanged,
+            CompanyId = companyId,
+            ProjectId = employee.ProjectId,
+            EntityIds = new List<Guid> { employee.Id }
+        });
+    }
+
+    private static ServiceAvailabilityResponse MapToResponse(Employee employee, ServiceType? requestedService)
+    {
+        var commonReason = GetCommonBlockingReason(employee);
+        var lunchReason = commonReason ?? GetLunchBlockingReason(employee);
+        var compensationReason = commonReason ?? GetCompensationBlockingReason(employee);
+
+        var blockingReason = requestedService switch
+        {
+            ServiceType.Lunch => lunchReason,
+            ServiceType.Compensation => compensationReason,
+            // Without a requested service the employee is blocked only if nothing can be assigned
+            _ => lunchReason != null && compensationReason != null ? lunchReason : null
+        };
+
+        string? currentService = null;
+        string? currentServiceEndDate = null;
+        if (employee.HasExistingLunchSubscription)
+        {
+            currentService = ServiceType.Lunch.ToDatabase();
+            currentServiceEndDate = employee.LunchSubscription!.EndDate?.ToString("yyyy-MM-dd");
+        }
+        else if (employee.ServiceType == ServiceType.Compensation)
+        {
+            currentService = ServiceType.Compensation.ToDatabase();
+        }
+
+        return new ServiceAvailabilityResponse
+        {
+            EmployeeId = employee.Id,
+            EmployeeName = employee.FullName,
+            CanAssignLunch = lunchReason == null,
+            CanAssignCompensation = compensationReason == null,
+            CurrentService = currentService,
+            CurrentServiceEndDate = currentServiceEndDate,
+            BlockingReason = blockingReason
+        };
+    }
+
+    private static string? GetCommonBlockingReason(Employee employee)
+    {
+        if (employee.IsDeleted)
+            return "Сотрудник удалён";
+        if (!employee.IsActive)
+            return "Сотрудник неактивен";
+        if (employee.InviteStatus != EmployeeInviteStatus.Accepted)
+            return "Сотрудник не принял приглашение";
+        if (employee.Project == null)
+            return "Сотрудник не привязан к проекту";
+        return null;
+    }
+
+    /// <summary>
+    /// Mirrors the checks of subscription creation (bulk and single)
+    /// </summary>
+    private static string? GetLunchBlockingReason(Employee employee)
+    {
+        if (employee.ServiceType == ServiceType.Compensation)
+            return "Тип услуги сотрудника — компенсация";
+        if (employee.HasActiveLunchSubscription)
+            return "Уже есть активная подписка на обеды";
+        if (string.IsNullOrWhiteSpace(employee.Project?.AddressFullAddress))
+            return $"У проекта '{employee.Project?.Name}' не указан адрес доставки";
+
+        // Lunches are delivered on weekdays only (1-5 = Mon-Fri)
+        var workingDays = employee.WorkingDays;
+        if (workingDays is { Length: > 0 } && !workingDays.Any(d => d >= 1 && d <= 5))
+            return "Сотрудник работает только в выходные";
+
+        return null;
+    }
+
+    /// <summary>
+    /// Lunch and compensation are mutually exclusive
+    /// </summary>
+    private static string? GetCompensationBlockingReason(Employee employee)
+    {
+        if (employee.ServiceType != ServiceType.Compensation)
+            return "Тип услуги сотрудника — обеды";
+        if (employee.HasActiveLunchSubscription)
+            return "Активна подписка на обеды";
+        return null;
+    }
+}
@@ -0,0 +1,68 @@
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+/// <summary>
+/// Sends SMS through an HTTP gateway: POST {Sms:ApiUrl} with { to, from, text }
+/// </summary>
+public class SmsService : ISmsService
+{
+    private readonly HttpClient _httpClient;
+    private readonly ILogger<SmsService> _logger;
+    private readonly string _apiUrl;
+    private readonly string _sender;
+
+    public SmsService(HttpClient httpClient, IConfiguration configuration, ILogger<SmsService> logger)
+    {
+        _httpClient = httpClient;
+        _logger = logger;
+
+        _apiUrl = configuration["Sms:ApiUrl"] ?? "";
+        _sender = configuration["Sms:Sender"] ?? "Yalla";
+
+        var apiKey = configuration["Sms:ApiKey"];
+        if (!string.IsNullOrEmpty(apiKey))
+        {
+            _httpClient.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", apiKey);
+        }
+    }
+
+    public async Task<bool> SendSmsAsync(string phone, string message, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            // Check if SMS is configured
+            if (string.IsNullOrEmpty(_apiUrl))
+            {
+                _logger.LogWarning("SMS gateway not configured, skipping send to {Phone}", phone);
+                return false;
+            }
+
+            var response = await _httpClient.PostAsJsonAsync(_apiUrl, new
+            {
+                to = phone,
+                from = _sender,
+                text = message
+            }, cancellationToken);
+
+            if (!response.IsSuccessStatusCode)
+            {
+                var error = await response.Content.ReadAsStringAsync(cancellationToken);
+                _logger.LogError("SMS gateway rejected message to {Phone}: {Error}", phone, error);
+                return false;
+            }
+
+            _logger.LogInformation("SMS sent successfully to {Phone}", phone);
+            return true;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send SMS to {Phone}", phone);
+            return false;
+        }
+    }
+}
@@ -3,6 +3,7 @@ using Microsoft.EntityFrameworkCore;
 using YallaBusinessAdmin.Application.Common.Errors;
 using YallaBusinessAdmin.Application.Common.Interfaces;
 using YallaBusinessAdmin.Application.Common.Models;
+using YallaBusinessAdmin.Application.Projects;
 using YallaBusinessAdmin.Application.Subscriptions;
 using YallaBusinessAdmin.Application.Subscriptions.Dtos;
 using YallaBusinessAdmin.Domain.Entities;
@@ -17,17 +18,20 @@ namespace YallaBusinessAdmin.Infrastructure.Services;
 public class SubscriptionsService : ISubscriptionsService
 {
     private readonly AppDbContext _context;
-    private readonly IBusinessConfigService _configService;
+    private readonly IProjectSettingsService _projectSettingsService;
     private readonly IBudgetService _budgetService;
+    private readonly IRealtimeEventHub _realtimeHub;
 
     public SubscriptionsService(
         AppDbContext context,
-        IBusinessConfigService configService,
-        IBudgetService budgetService)
+        IProjectSettingsService projectSettingsService,
+        IBudgetService budgetService,
+        IRealtimeEventHub realtimeHub)
     {
         _context = context;
-        _configService = configService;
+        _projectSettingsService = projectSettingsService;
         _budgetService = budgetService;
+        _realtimeHub = realtimeHub;
     }
 
     public async Task<PagedResult<SubscriptionResponse>> GetAllAsync(
@@ -194,14 +198,14 @@ public class SubscriptionsService : ISubscriptionsService
         }
 
         // ═══════════════════════════════════════════════════════════════
-        // VALIDATION: Minimum subscription days (from business config)
+        // VALIDATION: Minimum subscription days (project setting or business config)
         // NOTE: Use effectiveStartDate (already adjusted for cutoff)
         // ═══════════════════════════════════════════════════════════════
         var validationStartDate = effectiveStartDate;
         var validationEndDate = request.EndDate ?? validationStartDate.AddMonths(1);
         var validationTotalDays = WorkingDaysHelper.CountWorkingDays(employee.WorkingDays, validationStartDate, validationEndDate);
 
-        var minDays = await _configService.GetIntAsync(ConfigKeys.SubscriptionMinDays, 5, cancellationToken);
+        var minDays = await _projectSettingsService.GetSubscriptionMinDaysAsync(employee.ProjectId, cancellationToken);
         if (validationTotalDays < minDays)
         {
             throw new BusinessRuleException(
@@ -270,6 +274,7 @@ public class SubscriptionsService : ISubscriptionsService
 
                     await _context.SaveChangesAsync(cancellationToken);
                     await transaction.CommitAsync(cancellationToken);
+                    PublishBudgetChanged(new[] { existingSubscription });
 
                     existingSubscription.Employee = employee;
                     var reactivatedTotalDays = await CalculateDynamicTotalDaysAsync(existingSubscription.EmployeeId, existingSubscription.StartDate, existingSubscription.EndDate, cancellationToken);
@@ -332,6 +337,7 @@ public class SubscriptionsService : ISubscriptionsService
 
                 await _context.SaveChangesAsync(cancellationToken);
                 await transaction.CommitAsync(cancellationToken);
+                PublishBudgetChanged(new[] { subscription });
 
                 subscription.Employee = employee;
 
@@ -420,7 +426,7 @@ public class SubscriptionsService : ISubscriptionsService
         return MapToResponse(subscription, updatedTotalDays, updatedTotalPrice);
     }
 
-    public async Task DeleteAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default)
+    public async Task<SubscriptionCancellationResult> DeleteAsync(Guid id, Guid companyId, CancellationToken cancellationToken = default)
     {
         var subscription = await _context.LunchSubscriptions
             .Include(s => s.Employee)
@@ -440,6 +446,8 @@ public class SubscriptionsService : ISubscriptionsService
         // - Reset employee service type
         // ═══════════════════════════════════════════════════════════════
         var strategy = _context.Database.CreateExecutionStrategy();
+        decimal? refundedBalance = null;
+        var result = new SubscriptionCancellationResult();
 
         await strategy.ExecuteAsync(async () =>
         {
@@ -492,7 +500,7 @@ public class SubscriptionsService : ISubscriptionsService
                 // ═══════════════════════════════════════════════════════════════
                 if (refundAmount > 0 && subscription.Employee?.ProjectId != null)
                 {
-                    await _budgetService.RefundProjectBudgetAsync(
+                    refundedBalance = await _budgetService.RefundProjectBudgetAsync(
                         subscription.Employee.ProjectId,
                         refundAmount,
                         $"Удаление подписки: {subscription.Employee.FullName} (возврат за {settledOrders.Count} выполненных заказов)",
@@ -511,6 +519,9 @@ public class SubscriptionsService : ISubscriptionsService
 
                 await _context.SaveChangesAsync(cancellationToken);
                 await transaction.CommitAsync(cancellationToken);
+
+                result.CancelledOrders = unsettledOrders.Count + settledOrders.Count;
+                result.RefundAmount = refundAmount;
             }
             catch
             {
@@ -518,6 +529,9 @@ public class SubscriptionsService : ISubscriptionsService
                 throw;
             }
         });
+
+        PublishBudgetChanged(new[] { subscription }, refundedBalance);
+        return result;
     }
 
     public async Task<object> BulkCreateAsync(BulkCreateSubscriptionRequest request, Guid companyId, CancellationToken cancellationToken = default)
@@ -665,10 +679,10 @@ public class SubscriptionsService : ISubscriptionsService
             }
 
             // ═══════════════════════════════════════════════════════════════
-            // VALIDATION: Minimum subscription days (from business config)
+            // VALIDATION: Minimum subscription days (project setting or business config)
             // Same validation as in CreateAsync
             // ═══════════════════════════════════════════════════════════════
-            var minDays = await _configService.GetIntAsync(ConfigKeys.SubscriptionMinDays, 5, cancellationToken);
+            var minDays = await _projectSettingsService.GetSubscriptionMinDaysAsync(employee.ProjectId, cancellationToken);
             if (totalDays < minDays)
             {
                 errors.Add(new { employeeId = employee.Id.ToString(), message = $"{employee.FullName} (минимальный период подписки — {minDays} рабочих дней, выбрано: {totalDays})" });
@@ -775,6 +789,7 @@ public class SubscriptionsService : ISubscriptionsService
             }
 
             await transaction.CommitAsync(cancellationToken);
+            PublishBudgetChanged(createdSubscriptionsList);
 
             // Final validation: if no subscriptions created, return error
             if (createdSubscriptions.Count == 0 && errors.Count > 0)
@@ -924,6 +939,7 @@ public class SubscriptionsService : ISubscriptionsService
 
                 await _context.SaveChangesAsync(cancellationToken);
                 await transaction.CommitAsync(cancellationToken);
+                PublishSubscriptionsChanged(new[] { subscription });
 
                 var pausedTotalDays = await CalculateDynamicTotalDaysAsync(subscription.EmployeeId, subscription.StartDate, subscription.EndDate, cancellationToken);
                 var pausedTotalPrice = await CalculateDynamicTotalPriceAsync(subscription.EmployeeId, cancellationToken);
@@ -1029,6 +1045,7 @@ public class SubscriptionsService : ISubscriptionsService
 
                 await _context.SaveChangesAsync(cancellationToken);
                 await transaction.CommitAsync(cancellationToken);
+                PublishSubscriptionsChanged(new[] { subscription });
 
                 var resumedTotalDays = await CalculateDynamicTotalDaysAsync(subscription.EmployeeId, subscription.StartDate, subscription.EndDate, cancellationToken);
                 var resumedTotalPrice = await CalculateDynamicTotalPriceAsync(subscription.EmployeeId, cancellationToken);
@@ -1082,6 +1099,7 @@ public class SubscriptionsService : ISubscriptionsService
         }
 
         await _context.SaveChangesAsync(cancellationToken);
+        PublishSubscriptionsChanged(subscriptions);
 
         return new
         {
@@ -1165,6 +1183,7 @@ public class SubscriptionsService : ISubscriptionsService
         }
 
         await _context.SaveChangesAsync(cancellationToken);
+        PublishSubscriptionsChanged(subscriptions);
 
         return new
         {
@@ -1228,6 +1247,47 @@ public class SubscriptionsService : ISubscriptionsService
         };
     }
 
+    /// <summary>
+    /// Pushes paused/resumed subscriptions to connected admins of their projects.
+    /// Orders moved along with them are refetched by the clients.
+    /// </summary>
+    private void PublishSubscriptionsChanged(IEnumerable<LunchSubscription> subscriptions)
+    {
+        foreach (var group in subscriptions.GroupBy(s => (s.CompanyId, s.ProjectId)))
+        {
+            var statuses = group.Select(s => s.Status).Distinct().ToList();
+
+            _realtimeHub.Publish(new RealtimeEvent
+            {
+                Type = RealtimeEventTypes.SubscriptionsChanged,
+                CompanyId = group.Key.CompanyId,
+                ProjectId = group.Key.ProjectId,
+                EntityIds = group.Select(s => s.Id).ToList(),
+                Status = statuses.Count == 1 ? statuses[0].ToRussian() : null
+            });
+        }
+    }
+
+    /// <summary>
+    /// Pushes a budget change for the projects of created or deleted subscriptions:
+    /// their orders change the planned spend, a deletion may also refund settled orders.
+    /// Balance is only known when a refund was made.
+    /// </summary>
+    private void PublishBudgetChanged(IEnumerable<LunchSubscription> subscriptions, decimal? balance = null)
+    {
+        foreach (var group in subscriptions.GroupBy(s => (s.CompanyId, s.ProjectId)))
+        {
+            _realtimeHub.Publish(new RealtimeEvent
+            {
+                Type = RealtimeEventTypes.BudgetChanged,
+                CompanyId = group.Key.CompanyId,
+                ProjectId = group.Key.ProjectId,
+                EntityIds = group.Select(s => s.Id).ToList(),
+                Balance = balance
+            });
+        }
+    }
+
     /// <summary>
     /// Maps subscription to response DTO.
     /// TotalDays and TotalPrice are passed separately to allow dynamic calculation.
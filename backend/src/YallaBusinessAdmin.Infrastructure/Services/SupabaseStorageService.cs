@@ -159,6 +159,45 @@ public class SupabaseStorageService : IStorageService
         }
     }
 
+    public async Task<StorageFileContent> DownloadAsync(string fileUrl, CancellationToken cancellationToken = default)
+    {
+        // The client carries the service-role key: only ever send it to our own storage
+        var storagePrefix = $"{_supabaseUrl.TrimEnd('/')}/storage/v1/";
+        if (!Uri.TryCreate(fileUrl, UriKind.Absolute, out var fileUri)
+            || !fileUri.AbsoluteUri.StartsWith(storagePrefix, StringComparison.OrdinalIgnoreCase))
+        {
+            _logger.LogWarning("Refused to download file outside Supabase Storage: {FileUrl}", fileUrl);
+            throw new InvalidOperationException("Не удалось загрузить документ");
+        }
+
+        try
+        {
+            var response = await _httpClient.GetAsync(fileUri, HttpCompletionOption.ResponseHeadersRead, cancellationToken);
+            
+            if (!response.IsSuccessStatusCode)
+            {
+                var error = await response.Content.ReadAsStringAsync(cancellationToken);
+                _logger.LogError("Failed to download file from Supabase Storage ({StatusCode}): {Error}", (int)response.StatusCode, error);
+
+                if (response.StatusCode == System.Net.HttpStatusCode.NotFound)
+                {
+                    throw new KeyNotFoundException("Документ не найден");
+                }
+                throw new InvalidOperationException("Не удалось загрузить документ");
+            }
+
+            var contentType = response.Content.Headers.ContentType?.MediaType ?? "application/octet-stream";
+            var stream = await response.Content.ReadAsStreamAsync(cancellationToken);
+
+            return new StorageFileContent(stream, contentType);
+        }
+        catch (Exception ex) when (ex is not InvalidOperationException and not KeyNotFoundException)
+        {
+            _logger.LogError(ex, "Error downloading file from Supabase Storage");
+            throw;
+        }
+    }
+
     private class SignedUrlResponse
     {
         public string? SignedUrl { get; set; }
@@ -0,0 +1,257 @@
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.EntityFrameworkCore;
+using YallaBusinessAdmin.Application.Audit;
+using YallaBusinessAdmin.Application.Auth;
+using YallaBusinessAdmin.Application.Auth.Dtos;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Domain.Entities;
+using YallaBusinessAdmin.Infrastructure.Persistence;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+public class TwoFactorService : ITwoFactorService
+{
+    private readonly AppDbContext _context;
+    private readonly ITotpService _totpService;
+    private readonly IPasswordHasher _passwordHasher;
+    private readonly IAuditService _auditService;
+
+    // Shown as the account group in the authenticator app
+    private const string Issuer = "Yalla Business";
+    private const int BackupCodeCount = 10;
+    private const int BackupCodeLength = 8;
+    // No 0/O and 1/l/i so codes can be retyped from paper
+    private const string BackupCodeAlphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+
+    public TwoFactorService(
+        AppDbContext context,
+        ITotpService totpService,
+        IPasswordHasher passwordHasher,
+        IAuditService auditService)
+    {
+        _context = context;
+        _totpService = totpService;
+        _passwordHasher = passwordHasher;
+        _auditService = auditService;
+    }
+
+    public async Task<TwoFactorStatusDto> GetStatusAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var user = await GetUserAsync(userId, cancellationToken);
+
+        return new TwoFactorStatusDto
+        {
+            Enabled = user.IsTwoFactorEnabled,
+            EnabledAt = user.TwoFactorEnabledAt,
+            BackupCodesRemaining = user.IsTwoFactorEnabled ? user.TwoFactorBackupCodes.Count : 0
+        };
+    }
+
+    public async Task<TwoFactorSetupResponse> BeginSetupAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var user = await GetUserAsync(userId, cancellationToken);
+
+        if (user.IsTwoFactorEnabled)
+        {
+            throw new InvalidOperationException("Двухфакторная аутентификация уже включена");
+        }
+
+        user.TwoFactorSecret = _totpService.GenerateSecret();
+        user.TwoFactorLastUsedStep = null;
+        user.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var otpAuthUri = _totpService.GetProvisioningUri(user.TwoFactorSecret, Issuer, user.Phone);
+
+        return new TwoFactorSetupResponse
+        {
+            Secret = user.TwoFactorSecret,
+            OtpAuthUri = otpAuthUri,
+            QrCodeDataUri = _totpService.GetQrCodeDataUri(otpAuthUri)
+        };
+    }
+
+    public async Task<TwoFactorBackupCodesResponse> EnableAsync(Guid userId, string code, CancellationToken cancellationToken = default)
+    {
+        var user = await GetUserAsync(userId, cancellationToken);
+
+        if (user.IsTwoFactorEnabled)
+        {
+            throw new InvalidOperationException("Двухфакторная аутентификация уже включена");
+        }
+
+        if (user.TwoFactorSecret == null)
+        {
+            throw new InvalidOperationException("Сначала отсканируйте QR-код в приложении-аутентификаторе");
+        }
+
+        var step = _totpService.VerifyCode(user.TwoFactorSecret, code);
+        if (step == null)
+        {
+            throw new InvalidOperationException("Неверный код. Проверьте время на телефоне и попробуйте снова");
+        }
+
+        var backupCodes = GenerateBackupCodes();
+
+        user.TwoFactorEnabledAt = DateTime.UtcNow;
+        user.TwoFactorLastUsedStep = step;
+        user.TwoFactorBackupCodes = backupCodes.Select(HashBackupCode).ToList();
+        user.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        await _auditService.LogAsync(userId, AuditActions.TwoFactorEnable, AuditEntityTypes.User, userId,
+            cancellationToken: cancellationToken);
+
+        return new TwoFactorBackupCodesResponse { BackupCodes = backupCodes };
+    }
+
+    public async Task DisableAsync(Guid userId, string password, string code, CancellationToken cancellationToken = default)
+    {
+        var user = await GetUserAsync(userId, cancellationToken);
+
+        if (!user.IsTwoFactorEnabled)
+        {
+            throw new InvalidOperationException("Двухфакторная аутентификация не включена");
+        }
+
+        if (!_passwordHasher.Verify(password, user.PasswordHash))
+        {
+            throw new InvalidOperationException("Неверный пароль");
+        }
+
+        if (!ConsumeCode(user, code))
+        {
+            throw new InvalidOperationException("Неверный код подтверждения");
+        }
+
+        ClearTwoFactor(user);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        await _auditService.LogAsync(userId, AuditActions.TwoFactorDisable, AuditEntityTypes.User, userId,
+            cancellationToken: cancellationToken);
+    }
+
+    public async Task<TwoFactorBackupCodesResponse> RegenerateBackupCodesAsync(Guid userId, string code, CancellationToken cancellationToken = default)
+    {
+        var user = await GetUserAsync(userId, cancellationToken);
+
+        if (!user.IsTwoFactorEnabled)
+        {
+            throw new InvalidOperationException("Двухфакторная аутентификация не включена");
+        }
+
+        // Only the app: a leaked backup code must not be enough to mint new ones
+        var step = _totpService.VerifyCode(user.TwoFactorSecret!, code, user.TwoFactorLastUsedStep);
+        if (step == null)
+        {
+            throw new InvalidOperationException("Неверный код из приложения-аутентификатора");
+        }
+
+        var backupCodes = GenerateBackupCodes();
+
+        user.TwoFactorLastUsedStep = step;
+        user.TwoFactorBackupCodes = backupCodes.Select(HashBackupCode).ToList();
+        user.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return new TwoFactorBackupCodesResponse { BackupCodes = backupCodes };
+    }
+
+    public async Task ResetAsync(Guid userId, Guid resetById, CancellationToken cancellationToken = default)
+    {
+        var user = await GetUserAsync(userId, cancellationToken);
+
+        if (!user.IsTwoFactorEnabled)
+        {
+            throw new InvalidOperationException("У пользователя не включена двухфакторная аутентификация");
+        }
+
+        var enabledAt = user.TwoFactorEnabledAt;
+        ClearTwoFactor(user);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        await _auditService.LogAsync(resetById, AuditActions.TwoFactorReset, AuditEntityTypes.User, userId,
+            oldValues: new { twoFactorEnabledAt = enabledAt },
+            newValues: new { targetUser = user.FullName },
+            cancellationToken: cancellationToken);
+    }
+
+    public async Task<bool> VerifyLoginCodeAsync(AdminUser user, string code, CancellationToken cancellationToken = default)
+    {
+        if (!user.IsTwoFactorEnabled || !ConsumeCode(user, code))
+        {
+            return false;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+        return true;
+    }
+
+    // Helper methods
+
+    private async Task<AdminUser> GetUserAsync(Guid userId, CancellationToken cancellationToken)
+    {
+        var user = await _context.AdminUsers
+            .FirstOrDefaultAsync(u => u.Id == userId, cancellationToken);
+
+        return user ?? throw new KeyNotFoundException("Пользователь не найден");
+    }
+
+    /// <summary>
+    /// Accepts a TOTP code or an unused backup code and marks it as spent (not saved)
+    /// </summary>
+    private bool ConsumeCode(AdminUser user, string code)
+    {
+        code = code?.Trim() ?? string.Empty;
+
+        var step = _totpService.VerifyCode(user.TwoFactorSecret!, code, user.TwoFactorLastUsedStep);
+        if (step != null)
+        {
+            user.TwoFactorLastUsedStep = step;
+            return true;
+        }
+
+        var hash = HashBackupCode(code);
+        if (!user.TwoFactorBackupCodes.Contains(hash))
+        {
+            return false;
+        }
+
+        // Reassign rather than mutate so the array column is marked as modified
+        user.TwoFactorBackupCodes = user.TwoFactorBackupCodes.Where(h => h != hash).ToList();
+        return true;
+    }
+
+    private static void ClearTwoFactor(AdminUser user)
+    {
+        user.TwoFactorSecret = null;
+        user.TwoFactorEnabledAt = null;
+        user.TwoFactorBackupCodes = new List<string>();
+        user.TwoFactorLastUsedStep = null;
+        user.UpdatedAt = DateTime.UtcNow;
+    }
+
+    private static List<string> GenerateBackupCodes()
+    {
+        var codes = new List<string>(BackupCodeCount);
+        for (var i = 0; i < BackupCodeCount; i++)
+        {
+            var chars = new char[BackupCodeLength];
+            for (var j = 0; j < BackupCodeLength; j++)
+            {
+                chars[j] = BackupCodeAlphabet[RandomNumberGenerator.GetInt32(BackupCodeAlphabet.Length)];
+            }
+            // xxxx-xxxx is easier to read off paper
+            codes.Add($"{new string(chars, 0, 4)}-{new string(chars, 4, 4)}");
+        }
+        return codes;
+    }
+
+    private static string HashBackupCode(string code)
+    {
+        var normalized = code.Replace("-", string.Empty).Replace(" ", string.Empty).ToLowerInvariant();
+        var bytes = SHA256.HashData(Encoding.UTF8.GetBytes(normalized));
+        return Convert.ToBase64String(bytes);
+    }
+}
@@ -0,0 +1,256 @@
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using YallaBusinessAdmin.Application.Audit;
+using YallaBusinessAdmin.Application.Auth;
+using YallaBusinessAdmin.Application.Auth.Dtos;
+using YallaBusinessAdmin.Application.Common;
+using YallaBusinessAdmin.Application.Common.Interfaces;
+using YallaBusinessAdmin.Application.Users;
+using YallaBusinessAdmin.Application.Users.Dtos;
+using YallaBusinessAdmin.Domain.Entities;
+using YallaBusinessAdmin.Domain.Enums;
+using YallaBusinessAdmin.Infrastructure.Persistence;
+
+namespace YallaBusinessAdmin.Infrastructure.Services;
+
+public class UserInvitationService : IUserInvitationService
+{
+    private readonly AppDbContext _context;
+    private readonly IPasswordHasher _passwordHasher;
+    private readonly IEmailService _emailService;
+    private readonly ISmsService _smsService;
+    private readonly IAuditService _auditService;
+    private readonly IPasswordPolicyService _passwordPolicy;
+    private readonly string _frontendUrl;
+
+    // Invitation link validity period (7 days)
+    private const int InvitationExpirationDays = 7;
+
+    public UserInvitationService(
+        AppDbContext context,
+        IPasswordHasher passwordHasher,
+        IEmailService emailService,
+        ISmsService smsService,
+        IAuditService auditService,
+        IPasswordPolicyService passwordPolicy,
+        IConfiguration configuration)
+    {
+        _context = context;
+        _passwordHasher = passwordHasher;
+        _emailService = emailService;
+        _smsService = smsService;
+        _auditService = auditService;
+        _passwordPolicy = passwordPolicy;
+        _frontendUrl = (configuration["FrontendUrl"] ?? "http://localhost:3000").TrimEnd('/');
+    }
+
+    public async Task<UserInvitationDto> SendAsync(AdminUser user, string? channel, Guid? invitedById, CancellationToken cancellationToken = default)
+    {
+        channel = NormalizeChannel(channel);
+        var sentTo = channel == InviteChannels.Sms ? user.Phone : user.Email;
+
+        if (string.IsNullOrWhiteSpace(sentTo))
+        {
+            throw new InvalidOperationException(channel == InviteChannels.Sms
+                ? "У пользователя не указан телефон"
+                : "У пользователя не указан email");
+        }
+
+        // Only the newest link works
+        var previous = await _context.AdminInvitations
+            .Where(i => i.UserId == user.Id && i.AcceptedAt == null && i.RevokedAt == null)
+            .ToListAsync(cancellationToken);
+
+        foreach (var old in previous)
+        {
+            old.RevokedAt = DateTime.UtcNow;
+        }
+
+        var token = GenerateInviteToken();
+        var invitation = new AdminInvitation
+        {
+            Id = Guid.NewGuid(),
+            UserId = user.Id,
+            TokenHash = HashToken(token),
+            Channel = channel,
+            SentTo = sentTo,
+            InvitedBy = invitedById,
+            CreatedAt = DateTime.UtcNow,
+            ExpiresAt = DateTime.UtcNow.AddDays(InvitationExpirationDays)
+        };
+
+        await _context.AdminInvitations.AddAsync(invitation, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var inviteUrl = $"{_frontendUrl}/set-password?token={Uri.EscapeDataString(token)}";
+        var companyName = await _context.Companies
+            .Where(c => c.Id == user.CompanyId)
+            .Select(c => c.Name)
+            .FirstOrDefaultAsync(cancellationToken) ?? "Yalla Business";
+
+        var delivered = channel == InviteChannels.Sms
+            ? await _smsService.SendSmsAsync(sentTo,
+                $"Yalla Business: вас пригласили в кабинет {companyName}. Задайте пароль по ссылке: {inviteUrl}",
+                cancellationToken)
+            : await _emailService.SendAdminInviteEmailAsync(sentTo, user.FullName, companyName, inviteUrl,
+                invitation.ExpiresAt, cancellationToken);
+
+        await _auditService.LogAsync(invitedById, AuditActions.InviteSend, AuditEntityTypes.User, user.Id,
+            newValues: new { channel, sentTo, delivered, expiresAt = invitation.ExpiresAt },
+            cancellationToken: cancellationToken);
+
+        var result = MapToDto(invitation);
+        result.Delivered = delivered;
+        result.InviteUrl = delivered ? null : inviteUrl;
+        return result;
+    }
+
+    public async Task<UserInvitationDto> ResendAsync(Guid userId, Guid companyId, string? channel, Guid currentUserId, CancellationToken cancellationToken = default)
+    {
+        var user = await GetInvitedUserAsync(userId, companyId, cancellationToken);
+        var latest = GetLatestInvitation(user);
+
+        if (latest == null)
+        {
+            throw new InvalidOperationException("Пользователь был создан без приглашения");
+        }
+
+        if (latest.AcceptedAt != null)
+        {
+            throw new InvalidOperationException("Пользователь уже принял приглашение");
+        }
+
+        return await SendAsync(user, channel ?? latest.Channel, currentUserId, cancellationToken);
+    }
+
+    public async Task RevokeAsync(Guid userId, Guid companyId, Guid currentUserId, CancellationToken cancellationToken = default)
+    {
+        var user = await GetInvitedUserAsync(userId, companyId, cancellationToken);
+        var latest = GetLatestInvitation(user);
+
+        if (latest == null || !latest.IsActive)
+        {
+            throw new InvalidOperationException("У пользователя нет действующего приглашения");
+        }
+
+        latest.RevokedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        await _auditService.LogAsync(currentUserId, AuditActions.InviteRevoke, AuditEntityTypes.User, userId,
+            oldValues: new { channel = latest.Channel, sentTo = latest.SentTo },
+            cancellationToken: cancellationToken);
+    }
+
+    public async Task<InvitationInfoResponse> GetByTokenAsync(string token, CancellationToken cancellationToken = default)
+    {
+        var invitation = await GetActiveInvitationAsync(token, cancellationToken);
+
+        return new InvitationInfoResponse
+        {
+            FullName = invitation.User!.FullName,
+            Phone = invitation.User.Phone,
+            CompanyName = invitation.User.Company?.Name ?? string.Empty,
+            ExpiresAt = invitation.ExpiresAt
+        };
+    }
+
+    public async Task AcceptAsync(AcceptInvitationRequest request, string? ipAddress = null, string? userAgent = null, CancellationToken cancellationToken = default)
+    {
+        // Validate password complexity and known breaches
+        await _passwordPolicy.EnsureAcceptableAsync(request.Password, cancellationToken);
+
+        var invitation = await GetActiveInvitationAsync(request.Token, cancellationToken);
+        var user = invitation.User!;
+
+        invitation.AcceptedAt = DateTime.UtcNow;
+        user.PasswordHash = _passwordHasher.Hash(request.Password);
+        user.PasswordChangedAt = DateTime.UtcNow;
+        if (user.Status == AdminStatus.Inactive)
+        {
+            user.Status = AdminStatus.Active;
+        }
+        user.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        await _auditService.LogAsync(user.Id, AuditActions.InviteAccept, AuditEntityTypes.User, user.Id,
+            newValues: new { channel = invitation.Channel },
+            ipAddress: ipAddress, userAgent: userAgent, cancellationToken: cancellationToken);
+    }
+
+    internal static UserInvitationDto MapToDto(AdminInvitation invitation)
+    {
+        return new UserInvitationDto
+        {
+            Status = invitation.Status.ToRussian(),
+            Channel = invitation.Channel,
+            SentTo = invitation.SentTo,
+            SentAt = invitation.CreatedAt,
+            ExpiresAt = invitation.ExpiresAt
+        };
+    }
+
+    internal static AdminInvitation? GetLatestInvitation(AdminUser user) =>
+        user.Invitations.OrderByDescending(i => i.CreatedAt).FirstOrDefault();
+
+    // Helper methods
+
+    private async Task<AdminUser> GetInvitedUserAsync(Guid userId, Guid companyId, CancellationToken cancellationToken)
+    {
+        var user = await _context.AdminUsers
+            .Include(u => u.Invitations)
+            .FirstOrDefaultAsync(u => u.Id == userId && u.CompanyId == companyId, cancellationToken);
+
+        return user ?? throw new KeyNotFoundException("Пользователь не найден");
+    }
+
+    private async Task<AdminInvitation> GetActiveInvitationAsync(string token, CancellationToken cancellationToken)
+    {
+        if (string.IsNullOrWhiteSpace(token))
+        {
+            throw new ArgumentException("Недействительная ссылка приглашения");
+        }
+
+        var tokenHash = HashToken(token);
+        var invitation = await _context.AdminInvitations
+            .Include(i => i.User)
+                .ThenInclude(u => u!.Company)
+            .FirstOrDefaultAsync(i => i.TokenHash == tokenHash, cancellationToken);
+
+        if (invitation?.User == null)
+        {
+            throw new ArgumentException("Недействительная ссылка приглашения");
+        }
+
+        return invitation.Status switch
+        {
+            AdminInviteStatus.Accepted => throw new InvalidOperationException("Приглашение уже использовано. Войдите с паролем, который вы задали"),
+            AdminInviteStatus.Revoked => throw new InvalidOperationException("Приглашение отозвано. Попросите администратора отправить новое"),
+            AdminInviteStatus.Expired => throw new InvalidOperationException("Срок действия приглашения истёк. Попросите администратора отправить новое"),
+            _ => invitation
+        };
+    }
+
+    private static string NormalizeChannel(string? channel) => channel?.Trim().ToLowerInvariant() switch
+    {
+        null or "" or InviteChannels.Email => InviteChannels.Email,
+        InviteChannels.Sms => InviteChannels.Sms,
+        _ => throw new InvalidOperationException("Неизвестный способ отправки приглашения")
+    };
+
+    private static string GenerateInviteToken()
+    {
+        // URL-safe so it survives SMS and email clients unescaped
+        var bytes = RandomNumberGenerator.GetBytes(32);
+        return Convert.ToBase64String(bytes).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+    }
+
+    private static string HashToken(string token)
+    {
+        using var sha256 = SHA256.Create();
+        var bytes = sha256.ComputeHash(Encoding.UTF8.GetBytes(token));
+        return Convert.ToBase64String(bytes);
+    }
+}
@@ -2,6 +2,7 @@ using Microsoft.EntityFrameworkCore;
 using YallaBusinessAdmin.Application.Audit;
 using YallaBusinessAdmin.Application.Common.Interfaces;
 using YallaBusinessAdmin.Application.Common.Models;
+using YallaBusinessAdmin.Application.Common.Security;
 using YallaBusinessAdmin.Application.Users;
 using YallaBusinessAdmin.Application.Users.Dtos;
 using YallaBusinessAdmin.Domain.Entities;
@@ -13,27 +14,17 @@ namespace YallaBusinessAdmin.Infrastructure.Services;
 public class UsersService : IUsersService
 {
     private readonly AppDbContext _context;
-    private readonly IPasswordHasher _passwordHasher;
     private readonly IAuditService _auditService;
+    private readonly IUserInvitationService _invitationService;
 
-    // Available routes that can be assigned as permissions (without leading slashes to match frontend)
-    private static readonly string[] AvailableRoutes = new[]
-    {
-        "home",
-        "employees",
-        "users",
-        "projects",
-        "payments",
-        "analytics",
-        "meals",
-        "news"
-    };
-
-    public UsersService(AppDbContext context, IPasswordHasher passwordHasher, IAuditService auditService)
+    public UsersService(
+        AppDbContext context,
+        IAuditService auditService,
+        IUserInvitationService invitationService)
     {
         _context = context;
-        _passwordHasher = passwordHasher;
         _auditService = auditService;
+        _invitationService = invitationService;
     }
 
     public async Task<PagedResult<UserResponse>> GetAllAsync(
@@ -49,6 +40,7 @@ public class UsersService : IUsersService
     {
         var query = _context.AdminUsers
             .Include(u => u.Permissions)
+            .Include(u => u.Invitations)
             .Where(u => u.CompanyId == companyId);
 
         // Apply search filter
@@ -111,6 +103,7 @@ public class UsersService : IUsersService
     {
         var user = await _context.AdminUsers
             .Include(u => u.Permissions)
+            .Include(u => u.Invitations)
             .FirstOrDefaultAsync(u => u.Id == id && u.CompanyId == companyId, cancellationToken);
 
         if (user == null)
@@ -140,6 +133,20 @@ public class UsersService : IUsersService
             throw new InvalidOperationException("Неверный формат телефона. Телефон должен начинаться с + и содержать только цифры");
         }
 
+        var inviteChannel = string.IsNullOrWhiteSpace(request.InviteChannel)
+            ? InviteChannels.Email
+            : request.InviteChannel.Trim().ToLowerInvariant();
+
+        if (inviteChannel != InviteChannels.Email && inviteChannel != InviteChannels.Sms)
+        {
+            throw new InvalidOperationException("Неизвестный способ отправки приглашения");
+        }
+
+        if (inviteChannel == InviteChannels.Email && string.IsNullOrWhiteSpace(request.Email))
+        {
+            throw new InvalidOperationException("Укажите email, чтобы отправить приглашение по почте");
+        }
+
         // Check for duplicate phone (across all companies for global uniqueness)
         var existingUser = await _context.AdminUsers
             .IgnoreQueryFilters()
@@ -163,7 +170,7 @@ public class UsersService : IUsersService
             Email = request.Email,
             Role = request.Role,
             Status = AdminStatus.Inactive,
-            PasswordHash = _passwordHasher.Hash(request.Password),
+            PasswordHash = string.Empty, // Set by the invitee via the activation link
             CreatedAt = DateTime.UtcNow,
             UpdatedAt = DateTime.UtcNow
         };
@@ -192,12 +199,17 @@ public class UsersService : IUsersService
             newValues: new { user.FullName, user.Phone, user.Email, user.Role },
             cancellationToken: cancellationToken);
 
-        return MapToResponse(user);
+        var invitation = await _invitationService.SendAsync(user, inviteChannel, currentUserId, cancellationToken);
+
+        var response = MapToResponse(user);
+        response.Invitation = invitation;
+        return response;
     }
 
     public async Task<UserResponse> UpdateAsync(Guid id, UpdateUserRequest request, Guid companyId, Guid? currentUserId = null, CancellationToken cancellationToken = default)
     {
         var user = await _context.AdminUsers
+            .Include(u => u.Invitations)
             .FirstOrDefaultAsync(u => u.Id == id && u.CompanyId == companyId, cancellationToken);
 
         if (user == null)
@@ -271,9 +283,11 @@ public class UsersService : IUsersService
             Role = user.Role,
             Status = user.Status.ToRussian(),
             CompanyId = user.CompanyId,
-            Permissions = validPermissions,
+            Permissions = PermissionCatalog.Expand(validPermissions),
             CreatedAt = user.CreatedAt,
-            LastLoginAt = user.LastLoginAt
+            LastLoginAt = user.LastLoginAt,
+            TwoFactorEnabled = user.IsTwoFactorEnabled,
+            Invitation = MapInvitation(user)
         };
     }
 
@@ -331,12 +345,14 @@ public class UsersService : IUsersService
             cancellationToken: cancellationToken);
     }
 
-    public IEnumerable<string> GetAvailableRoutes() => AvailableRoutes;
+    public IEnumerable<string> GetAvailableRoutes() => PermissionCatalog.Routes;
+
+    public IEnumerable<PermissionGroup> GetPermissionGroups() => PermissionCatalog.Groups;
 
     public async Task<IEnumerable<AdminListItem>> GetAllAdminsAsync(string? search = null, CancellationToken cancellationToken = default)
     {
         // Только администраторы проектов (не менеджеры, не SUPER_ADMIN)
-        var adminRoles = new[] { "admin", "Admin", "ADMIN", "Администратор" };
+        var adminRoles = PermissionCatalog.AdminRoles.ToList();
         
         var query = _context.AdminUsers
             .Include(u => u.Company)
@@ -389,6 +405,12 @@ public class UsersService : IUsersService
         return digitsOnly.All(char.IsDigit);
     }
 
+    private static UserInvitationDto? MapInvitation(AdminUser user)
+    {
+        var latest = UserInvitationService.GetLatestInvitation(user);
+        return latest == null ? null : UserInvitationService.MapToDto(latest);
+    }
+
     private static UserResponse MapToResponse(AdminUser user)
     {
         return new UserResponse
@@ -400,9 +422,11 @@ public class UsersService : IUsersService
             Role = user.Role,
             Status = user.Status.ToRussian(),
             CompanyId = user.CompanyId,
-            Permissions = user.Permissions.Select(p => p.Route),
+            Permissions = PermissionCatalog.Expand(user.Permissions.Select(p => p.Route)),
             CreatedAt = user.CreatedAt,
-            LastLoginAt = user.LastLoginAt
+            LastLoginAt = user.LastLoginAt,
+            TwoFactorEnabled = user.IsTwoFactorEnabled,
+            Invitation = MapInvitation(user)
         };
     }
 
@@ -410,19 +434,19 @@ public class UsersService : IUsersService
     {
         var permissionSet = permissions.ToHashSet();
 
-        // Admins always get all routes
+        // Admins always get all routes with every action
         if (role == "admin")
         {
-            return AvailableRoutes;
+            return PermissionCatalog.Routes;
         }
 
-        // Managers get home by default
+        // Managers always see home; its actions stay opt-in
         if (role == "manager")
         {
-            permissionSet.Add("home");
+            permissionSet.Add("home" + PermissionCatalog.ViewSuffix);
         }
 
-        // Filter to only valid routes
-        return permissionSet.Where(p => AvailableRoutes.Contains(p));
+        // Filter to known routes/actions; actions pull in the page of their group
+        return PermissionCatalog.Normalize(permissionSet);
     }
 }
@@ -1,35 +1,66 @@
 'use client'
 
-import { useState } from 'react'
+import { Suspense, useState } from 'react'
 import Link from 'next/link'
-import { useRouter } from 'next/navigation'
-import { useAuthStore } from '@/stores/auth-store'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useAuthStore, type User } from '@/stores/auth-store'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { PasswordInput } from '@/components/ui/password-input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Phone, Lock, Loader2, AlertCircle, RefreshCw } from 'lucide-react'
+import { Phone, Lock, Loader2, AlertCircle, RefreshCw, LogOut, ShieldCheck, ArrowLeft } from 'lucide-react'
 import { toast } from 'sonner'
 import { parseError, ErrorCodes, isRetryableError } from '@/lib/errors'
 import { logger } from '@/lib/logger'
 import { isFeatureEnabled } from '@/lib/features.config'
+import { SESSION_ENDED_REASON } from '@/lib/api/client'
+import { NewPasswordForm } from '@/components/features/auth/new-password-form'
 
-export default function LoginPage() {
+function LoginPageContent() {
   const router = useRouter()
-  const { login, isLoading } = useAuthStore()
+  // Set by the API client when the refresh token was revoked or expired
+  const sessionEnded = useSearchParams().get('reason') === SESSION_ENDED_REASON
+  const {
+    login,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    twoFactorChallenge,
+    changeExpiredPassword,
+    cancelPasswordChange,
+    passwordChangeChallenge,
+    isLoading,
+  } = useAuthStore()
   const [phone, setPhone] = useState('')
   const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
   const [error, setError] = useState('')
   const [errorAction, setErrorAction] = useState('')
   const [canRetry, setCanRetry] = useState(false)
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const resetError = () => {
     setError('')
     setErrorAction('')
     setCanRetry(false)
+  }
+
+  const handleLoggedIn = (loggedInUser: User) => {
+    logger.info('Login successful', { userId: loggedInUser.id })
+    toast.success('Успешный вход!')
+
+    if (loggedInUser.status === 'Не активный') {
+      toast.info('Пожалуйста, смените временный пароль')
+      router.push('/profile')
+    } else {
+      router.push('/')
+      router.refresh()
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    resetError()
 
     if (!phone || !password) {
       setError('Заполните все поля')
@@ -40,17 +71,14 @@ export default function LoginPage() {
 
     try {
       const loggedInUser = await login(phone, password)
-      
-      logger.info('Login successful', { userId: loggedInUser.id })
-      toast.success('Успешный вход!')
-      
-      if (loggedInUser.status === 'Не активный') {
-        toast.info('Пожалуйста, смените временный пароль')
-        router.push('/profile')
-      } else {
-        router.push('/')
-        router.refresh()
+
+      if (!loggedInUser) {
+        // 2FA is on or the password expired - the form switches to that step
+        setCode('')
+        return
       }
+
+      handleLoggedIn(loggedInUser)
     } catch (err: unknown) {
       const appError = parseError(err)
       
@@ -82,6 +110,45 @@ export default function LoginPage() {
     handleSubmit(new Event('submit') as unknown as React.FormEvent)
   }
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    resetError()
+
+    try {
+      const loggedInUser = await verifyTwoFactor(code)
+      // null: the password expired, the new-password step is next
+      if (loggedInUser) handleLoggedIn(loggedInUser)
+    } catch (err: unknown) {
+      const appError = parseError(err)
+      logger.error('Two-factor verification failed', err instanceof Error ? err : new Error(appError.message), {
+        errorCode: appError.code,
+      })
+      setError(appError.message)
+      setCode('')
+    }
+  }
+
+  const handleBackToPassword = () => {
+    resetError()
+    setCode('')
+    cancelTwoFactor()
+    cancelPasswordChange()
+    setPassword('')
+  }
+
+  const handleExpiredPasswordSubmit = async (newPassword: string) => {
+    const loggedInUser = await changeExpiredPassword(newPassword)
+    toast.success('Пароль изменён')
+    handleLoggedIn(loggedInUser)
+  }
+
+  let stepDescription = 'Войдите в систему для управления'
+  if (passwordChangeChallenge) {
+    stepDescription = 'Срок действия пароля истёк. Задайте новый пароль, чтобы войти'
+  } else if (twoFactorChallenge) {
+    stepDescription = 'Подтвердите вход кодом из приложения-аутентификатора'
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-background to-primary/10 p-4">
       <Card className="w-full max-w-md shadow-2xl border-2">
@@ -91,94 +158,182 @@ export default function LoginPage() {
           </div>
           <CardTitle className="text-3xl font-bold">Yalla Business Admin</CardTitle>
           <CardDescription className="text-base">
-            Войдите в систему для управления
+            {stepDescription}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
-              <Alert variant="destructive" className="animate-in fade-in-50">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription className="ml-2">
-                  <div className="font-medium">{error}</div>
-                  {errorAction && (
-                    <div className="text-sm opacity-90 mt-1">{errorAction}</div>
-                  )}
-                  {canRetry && (
-                    <Button 
-                      type="button" 
-                      variant="outline" 
-                      size="sm" 
-                      className="mt-2"
-                      onClick={handleRetry}
-                    >
-                      <RefreshCw className="h-3 w-3 mr-1" />
-                      Повторить
-                    </Button>
-                  )}
-                </AlertDescription>
-              </Alert>
-            )}
-
-            <div className="space-y-2">
-              <Label htmlFor="phone">Номер телефона</Label>
-              <div className="relative">
-                <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-                <Input
-                  id="phone"
-                  type="tel"
-                  placeholder="+992901234567"
-                  value={phone}
-                  onChange={(e) => setPhone(e.target.value)}
-                  className="pl-10"
-                  disabled={isLoading}
-                  required
-                  aria-invalid={!!error}
-                />
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="password">Пароль</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
-                <PasswordInput
-                  id="password"
-                  placeholder="Введите пароль"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="pl-10"
-                  disabled={isLoading}
-                  required
-                  aria-invalid={!!error}
-                />
-              </div>
-              {isFeatureEnabled('passwordReset') && (
-                <div className="text-right">
-                  <Button variant="link" className="px-0" asChild>
-                    <Link href="/forgot-password">Забыли пароль?</Link>
-                  </Button>
+          {passwordChangeChallenge && (
+            <NewPasswordForm
+              onSubmit={handleExpiredPasswordSubmit}
+              submitLabel="Сменить пароль и войти"
+              logName="ExpiredPasswordChange"
+              onBack={handleBackToPassword}
+            />
+          )}
+          {!passwordChangeChallenge && (twoFactorChallenge ? (
+            <form onSubmit={handleCodeSubmit} className="space-y-4">
+              {error && (
+                <Alert variant="destructive" className="animate-in fade-in-50">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription className="ml-2">
+                    <div className="font-medium">{error}</div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-code">Код подтверждения</Label>
+                <div className="relative">
+                  <ShieldCheck className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                  <Input
+                    id="two-factor-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="pl-10 tracking-widest"
+                    disabled={isLoading}
+                    autoFocus
+                    required
+                    aria-invalid={!!error}
+                  />
                 </div>
+                <p className="text-sm text-muted-foreground">
+                  Введите 6-значный код из приложения-аутентификатора. Если телефона нет под рукой,
+                  подойдёт один из резервных кодов.
+                </p>
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full h-11 text-base font-semibold"
+                disabled={isLoading || !code.trim()}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Проверка...
+                  </>
+                ) : (
+                  'Подтвердить'
+                )}
+              </Button>
+
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full gap-2"
+                onClick={handleBackToPassword}
+                disabled={isLoading}
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Назад
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {sessionEnded && !error && (
+                <Alert className="animate-in fade-in-50">
+                  <LogOut className="h-4 w-4" />
+                  <AlertDescription className="ml-2">
+                    Сессия завершена — возможно, вы вышли на другом устройстве. Войдите снова.
+                  </AlertDescription>
+                </Alert>
               )}
-            </div>
-
-            <Button
-              type="submit"
-              className="w-full h-11 text-base font-semibold"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Вход...
-                </>
-              ) : (
-                'Войти'
+
+              {error && (
+                <Alert variant="destructive" className="animate-in fade-in-50">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription className="ml-2">
+                    <div className="font-medium">{error}</div>
+                    {errorAction && (
+                      <div className="text-sm opacity-90 mt-1">{errorAction}</div>
+                    )}
+                    {canRetry && (
+                      <Button 
+                        type="button" 
+                        variant="outline" 
+                        size="sm" 
+                        className="mt-2"
+                        onClick={handleRetry}
+                      >
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                        Повторить
+                      </Button>
+                    )}
+                  </AlertDescription>
+                </Alert>
               )}
-            </Button>
-          </form>
+
+              <div className="space-y-2">
+                <Label htmlFor="phone">Номер телефона</Label>
+                <div className="relative">
+                  <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                  <Input
+                    id="phone"
+                    type="tel"
+                    placeholder="+992901234567"
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value)}
+                    className="pl-10"
+                    disabled={isLoading}
+                    required
+                    aria-invalid={!!error}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Пароль</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
+                  <PasswordInput
+                    id="password"
+                    placeholder="Введите пароль"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10"
+                    disabled={isLoading}
+                    required
+                    aria-invalid={!!error}
+                  />
+                </div>
+                {isFeatureEnabled('passwordReset') && (
+                  <div className="text-right">
+                    <Button variant="link" className="px-0" asChild>
+                      <Link href="/forgot-password">Забыли пароль?</Link>
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full h-11 text-base font-semibold"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Вход...
+                  </>
+                ) : (
+                  'Войти'
+                )}
+              </Button>
+            </form>
+          ))}
         </CardContent>
       </Card>
     </div>
   )
 }
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginPageContent />
+    </Suspense>
+  )
+}
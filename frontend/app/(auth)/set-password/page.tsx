@@ -0,0 +1,109 @@
+'use client'
+
+import { Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, ArrowLeft } from 'lucide-react'
+import { authApi } from '@/lib/api/auth'
+import { useInvitation } from '@/lib/query/hooks'
+import { toast } from 'sonner'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { NewPasswordForm } from '@/components/features/auth/new-password-form'
+import { formatInviteDate } from '@/components/features/users/invitation-link'
+
+function SetPasswordContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const { data: invitation, isLoading, error } = useInvitation(token)
+
+  const handleSubmit = async (password: string) => {
+    await authApi.acceptInvitation({ token, password })
+    logger.info('Invitation accepted')
+    toast.success('Пароль задан', { description: 'Войдите с номером телефона и новым паролем' })
+    router.push('/login')
+  }
+
+  const renderBody = () => {
+    if (!token || error) {
+      const message = error ? parseError(error).message : 'Ссылка-приглашение неполная.'
+      return (
+        <div className="space-y-4 text-center">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+          <p className="text-sm text-muted-foreground">
+            Попросите администратора компании отправить приглашение ещё раз.
+          </p>
+          <Button asChild variant="outline" className="w-full">
+            <Link href="/login">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Вернуться к входу
+            </Link>
+          </Button>
+        </div>
+      )
+    }
+
+    if (isLoading || !invitation) {
+      return (
+        <div className="space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-11 w-full" />
+        </div>
+      )
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground text-center">
+          Логин — ваш номер телефона <span className="font-medium text-foreground">{invitation.phone}</span>.
+          Ссылка действует до {formatInviteDate(invitation.expiresAt)}.
+        </p>
+        <NewPasswordForm onSubmit={handleSubmit} submitLabel="Задать пароль" logName="AcceptInvitation" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-background to-primary/10 p-4">
+      <Card className="w-full max-w-md shadow-2xl border-2">
+        <CardHeader className="space-y-1 text-center">
+          <div className="mx-auto w-16 h-16 bg-primary rounded-2xl flex items-center justify-center mb-4 shadow-lg">
+            <span className="text-2xl font-bold text-primary-foreground">Y</span>
+          </div>
+          <CardTitle className="text-3xl font-bold">
+            {invitation ? `Здравствуйте, ${invitation.fullName}` : 'Приглашение'}
+          </CardTitle>
+          <CardDescription className="text-base">
+            {invitation
+              ? `Вас пригласили в кабинет компании «${invitation.companyName}». Придумайте пароль для входа`
+              : 'Придумайте пароль для входа в систему'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>{renderBody()}</CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function SetPasswordPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Загрузка...</div>}>
+      <SetPasswordContent />
+    </Suspense>
+  )
+}
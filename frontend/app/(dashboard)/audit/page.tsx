@@ -0,0 +1,48 @@
+'use client'
+
+import { History, UserCog } from 'lucide-react'
+import { AuditLogViewer, ImpersonationHistory } from '@/components/features/audit'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useAuthStore } from '@/stores/auth-store'
+
+export default function AuditPage() {
+  const isSuperAdmin = useAuthStore((state) => state.user?.role === 'SUPER_ADMIN')
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+          <History className="h-8 w-8 text-primary" />
+          Журнал изменений
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Кто и когда менял сотрудников, бюджеты, проекты и пользователей
+        </p>
+      </div>
+
+      {isSuperAdmin ? (
+        <Tabs defaultValue="changes" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="changes" className="gap-2">
+              <History className="h-4 w-4" />
+              Изменения
+            </TabsTrigger>
+            <TabsTrigger value="impersonations" className="gap-2">
+              <UserCog className="h-4 w-4" />
+              Входы от имени
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="changes" className="mt-0">
+            <AuditLogViewer />
+          </TabsContent>
+          <TabsContent value="impersonations" className="mt-0">
+            <ImpersonationHistory />
+          </TabsContent>
+        </Tabs>
+      ) : (
+        <AuditLogViewer />
+      )}
+    </div>
+  )
+}
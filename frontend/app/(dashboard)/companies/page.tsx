@@ -0,0 +1,33 @@
+'use client'
+
+import { Building2 } from 'lucide-react'
+import { CompanyDirectory } from '@/components/features/companies'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useAuthStore } from '@/stores/auth-store'
+
+export default function CompaniesPage() {
+  const isSuperAdmin = useAuthStore((state) => state.user?.role === 'SUPER_ADMIN')
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+          <Building2 className="h-8 w-8 text-primary" />
+          Компании
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Все компании платформы. Откройте компанию, чтобы посмотреть её данные без входа под администратором
+        </p>
+      </div>
+
+      {isSuperAdmin ? (
+        <CompanyDirectory />
+      ) : (
+        <Alert>
+          <AlertDescription>Справочник компаний доступен только SUPER_ADMIN</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
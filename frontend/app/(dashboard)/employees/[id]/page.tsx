@@ -38,6 +38,7 @@ import {
   PlayCircle,
   Trash2,
   AlertCircle,
+  FileClock,
 } from 'lucide-react'
 import {
   Tooltip,
@@ -55,22 +56,28 @@ import { EditEmployeeDialog } from '@/components/features/employees/edit-employe
 import { ManageLunchDialog } from '@/components/features/meals/manage-lunch-dialog'
 import { ManageCompensationDialog } from '@/components/features/meals/manage-compensation-dialog'
 import { EditSubscriptionDialog } from '@/components/features/home/edit-subscription-dialog'
+import { CompensationLedger } from '@/components/features/employee-detail/compensation-ledger'
+import { EntityHistoryPanel } from '@/components/features/audit'
 import type { Order } from '@/lib/api/home'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { DataTable } from '@/components/ui/data-table'
 import { SortableHeader, useSort, sortData } from '@/components/ui/sortable-header'
 import { cn } from '@/lib/utils'
-import { format, differenceInDays, parseISO, isAfter, addDays, startOfMonth, startOfWeek, isSameDay, isToday, isSameMonth, getDay, startOfDay } from 'date-fns'
+import { format, differenceInDays, parseISO, isAfter, addDays, startOfMonth, startOfWeek, isSameDay, isToday, isSameMonth, getDay } from 'date-fns'
 import { ru } from 'date-fns/locale'
 import { employeesApi, type EmployeeOrder, type DayOfWeek } from '@/lib/api/employees'
 import { servicesApi } from '@/lib/api/services'
 import { getEffectiveWorkingDays } from '@/lib/constants/employee'
 import { isFeatureEnabled } from '@/lib/features.config'
 import { toast } from 'sonner'
-import { parseError, ErrorCodes } from '@/lib/errors'
+import { parseError } from '@/lib/errors'
 import { logger } from '@/lib/logger'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import type { ColumnDef } from '@tanstack/react-table'
+import { useOrderTransitions } from '@/lib/hooks/use-order-transitions'
+import { useProjectCutoff } from '@/lib/query/hooks'
+import { scheduleBulkOrderAction, usePendingOrderPatches } from '@/lib/commands'
+import { formatISODate, getServerNow } from '@/lib/utils/date'
 import { STATUS_COLORS, getStatusColorKey, isOrderCancelled as checkOrderCancelled, isOrderPaused as checkOrderPaused, getOrderStatusConfig } from '@/lib/constants/entity-statuses'
 
 // День недели названия
@@ -151,9 +158,33 @@ export default function EmployeeDetailPage() {
     }
   }, [id, loadOrders])
 
+  // Reload once the pending actions on this page's orders are committed or undone
+  const pendingPatches = usePendingOrderPatches()
+  const hasPendingOrders = orders.some((order) => pendingPatches.has(order.id))
+  const hadPendingOrdersRef = useRef(false)
+  useEffect(() => {
+    if (hadPendingOrdersRef.current && !hasPendingOrders) {
+      loadOrders()
+      fetchEmployee(id)
+    }
+    hadPendingOrdersRef.current = hasPendingOrders
+  }, [hasPendingOrders, loadOrders, fetchEmployee, id])
+
   // Extract data from currentEmployee (with defaults to prevent issues before data loads)
   const lunchSub = currentEmployee?.lunchSubscription ?? null
   const compensation = currentEmployee?.compensation ?? null
+  // "Today" and the cutoff lock follow the employee's project, as on the dashboard
+  const companyCutoffTime = useHomeStore((state) => state.cutoffTime)
+  const fetchCutoffTime = useHomeStore((state) => state.fetchCutoffTime)
+  const { cutoffTime, timezone: projectTimezone } = useProjectCutoff(currentEmployee?.projectId, companyCutoffTime)
+  const todayIso = formatISODate(getServerNow(projectTimezone))
+  const { getOrderActions, getSubscriptionActions } = useOrderTransitions({ cutoffTime, timezone: projectTimezone })
+
+  useEffect(() => {
+    fetchCutoffTime()
+  }, [fetchCutoffTime])
+
+  const lunchSubActions = getSubscriptionActions(lunchSub?.status)
 
   // All useMemo hooks BEFORE any conditional returns
   const canEdit = Boolean(currentEmployee?.isActive)
@@ -270,7 +301,18 @@ export default function EmployeeDetailPage() {
   // BUSINESS RULE: Employee can have EITHER lunch OR compensation, NOT both
   // Filter orders by employee's serviceType and status filter
   const filteredOrders = useMemo(() => {
-    let result = orders
+    // Show pending bulk actions before they are sent
+    let result = pendingPatches.size === 0
+      ? orders
+      : orders.map((order) => {
+        const patch = pendingPatches.get(order.id)
+        if (!patch) return order
+        return {
+          ...order,
+          status: patch.status ?? order.status,
+          comboType: patch.comboType ?? order.comboType,
+        }
+      })
 
     // Filter by service type
     if (employeeServiceType === 'LUNCH') {
@@ -285,7 +327,7 @@ export default function EmployeeDetailPage() {
     }
 
     return result
-  }, [orders, employeeServiceType, ordersStatusFilter])
+  }, [orders, pendingPatches, employeeServiceType, ordersStatusFilter])
 
   const getOrdersForDate = useCallback((date: Date) => {
     return filteredOrders.filter(o => o.date && isSameDay(parseISO(o.date), date))
@@ -322,40 +364,12 @@ export default function EmployeeDetailPage() {
     setCancelDialogOrder(order)
   }, [])
 
-  const confirmCancelOrder = useCallback(async () => {
+  const confirmCancelOrder = useCallback(() => {
     if (!cancelDialogOrder) return
-    setActionLoading(true)
-    try {
-      // Use bulkAction API to cancel single order
-      const { bulkAction } = useHomeStore.getState()
-      await bulkAction({
-        orderIds: [cancelDialogOrder.id],
-        action: 'cancel' as 'pause' | 'resume', // API accepts 'cancel' too
-      })
-      toast.success('Заказ отменён', {
-        description: 'Стоимость возвращена на баланс',
-      })
-      setCancelDialogOrder(null)
-      loadOrders()
-      // Also refresh employee data to update subscription totals
-      fetchEmployee(id)
-    } catch (error) {
-      const appError = parseError(error)
-      logger.error('Failed to cancel order', error instanceof Error ? error : new Error(appError.message), {
-        errorCode: appError.code,
-      })
-
-      if (appError.code === ErrorCodes.ORDER_CUTOFF_PASSED) {
-        toast.error('Время для отмены истекло', {
-          description: 'Отмена заказов на сегодня невозможна после времени отсечки',
-        })
-      } else {
-        toast.error(appError.message, { description: appError.action })
-      }
-    } finally {
-      setActionLoading(false)
-    }
-  }, [cancelDialogOrder, loadOrders, fetchEmployee, id])
+    // Sent after the undo window; the orders reload once it is committed
+    scheduleBulkOrderAction({ orderIds: [cancelDialogOrder.id], action: 'cancel' })
+    setCancelDialogOrder(null)
+  }, [cancelDialogOrder])
 
   // Pause/Resume subscription via API
   const handlePauseSubscription = useCallback(async () => {
@@ -491,10 +505,9 @@ export default function EmployeeDetailPage() {
       header: 'Детали',
       cell: ({ row }) => {
         const order = row.original
-        const orderDate = order.date ? startOfDay(new Date(order.date)) : null
-        const today = startOfDay(new Date())
-        const isPastOrder = orderDate && orderDate < today
-        const isTodayOrder = orderDate && orderDate.getTime() === today.getTime()
+        const orderDate = order.date?.slice(0, 10)
+        const isPastOrder = !!orderDate && orderDate < todayIso
+        const isTodayOrder = orderDate === todayIso
 
         // LUNCH: показываем комбо и цену
         if (order.serviceType === 'LUNCH' || !order.serviceType) {
@@ -633,11 +646,10 @@ export default function EmployeeDetailPage() {
         const order = row.original
         const isCompensation = order.serviceType === 'COMPENSATION'
 
-        const orderDate = order.date ? startOfDay(new Date(order.date)) : null
-        const today = startOfDay(new Date())
-        const isPastOrder = orderDate && orderDate < today
-        const isTodayOrder = orderDate && orderDate.getTime() === today.getTime()
-        const isFutureOrder = orderDate && orderDate > today
+        const orderDate = order.date?.slice(0, 10)
+        const isPastOrder = !!orderDate && orderDate < todayIso
+        // Pause/resume/cancel availability comes from the order machine
+        const actions = getOrderActions(order)
 
         // Прошлые заказы — только просмотр (история)
         if (isPastOrder) {
@@ -654,8 +666,7 @@ export default function EmployeeDetailPage() {
         }
 
         // Завершённые заказы
-        const isCompletedOrder = order.status === 'Завершен' || order.status === 'Выполнен'
-        if (isCompletedOrder) {
+        if (actions.state === 'delivered') {
           return (
             <TooltipProvider>
               <Tooltip>
@@ -669,7 +680,7 @@ export default function EmployeeDetailPage() {
         }
 
         // Отменённые заказы - кнопки заблокированы
-        if (order.status === 'Отменён') {
+        if (actions.state === 'cancelled') {
           return (
             <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
               <TooltipProvider>
@@ -712,8 +723,8 @@ export default function EmployeeDetailPage() {
 
         // COMPENSATION заказы
         if (isCompensation) {
-          const canEdit = !isPastOrder && !isCompletedOrder
-          const canCancel = (isTodayOrder || isFutureOrder) && order.status === 'Активен'
+          const canEdit = !actions.isFinal
+          const canCancel = actions.cancel.allowed
 
           return (
             <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
@@ -764,10 +775,10 @@ export default function EmployeeDetailPage() {
         }
 
         // LUNCH заказы
-        const isPaused = order.status === 'Приостановлен'
-        const isActive = order.status === 'Активен'
+        const isPaused = actions.state === 'paused'
+        const isActive = actions.state === 'confirmed'
         const canEdit = isActive && !actionLoading
-        const canCancel = (isTodayOrder || isFutureOrder) && isActive && !actionLoading
+        const canCancel = actions.cancel.allowed && !actionLoading
 
         // Tooltip text
         const getEditTooltip = () => {
@@ -775,9 +786,8 @@ export default function EmployeeDetailPage() {
           return 'Управлять обедом'
         }
         const getCancelTooltip = () => {
-          if (isPaused) return 'Заказ приостановлен'
           if (canCancel) return 'Отменить заказ'
-          return 'Недоступно'
+          return actions.cancel.reason ?? 'Недоступно'
         }
 
         return (
@@ -845,7 +855,7 @@ export default function EmployeeDetailPage() {
         )
       },
     },
-  ], [handleCancelOrder, actionLoading, sortConfig, toggleSort, getStatusColor])
+  ], [handleCancelOrder, actionLoading, sortConfig, toggleSort, getStatusColor, getOrderActions, todayIso])
 
   // Effects that depend on currentEmployee
   useEffect(() => {
@@ -1313,23 +1323,23 @@ export default function EmployeeDetailPage() {
                       </Button>
 
                       {/* Пауза / Возобновить подписку */}
-                      {lunchSub.status === 'Активна' && (
+                      {lunchSubActions.pause.legal && (
                         <Button
                           variant="outline"
                           className="gap-2 text-orange-600 border-orange-300 hover:bg-orange-50"
                           onClick={() => setPauseSubscriptionDialog(true)}
-                          disabled={!canManageLunch || actionLoading}
+                          disabled={!canManageLunch || !lunchSubActions.pause.allowed || actionLoading}
                         >
                           <PauseCircle className="h-4 w-4" />
                           Приостановить
                         </Button>
                       )}
-                      {lunchSub.status === 'Приостановлена' && (
+                      {lunchSubActions.resume.legal && (
                         <Button
                           variant="outline"
                           className="gap-2 text-green-600 border-green-300 hover:bg-green-50"
                           onClick={handleResumeSubscription}
-                          disabled={!canManageLunch || actionLoading}
+                          disabled={!canManageLunch || !lunchSubActions.resume.allowed || actionLoading}
                         >
                           <PlayCircle className="h-4 w-4" />
                           Возобновить
@@ -1466,6 +1476,9 @@ export default function EmployeeDetailPage() {
                       <Pencil className="h-4 w-4" />
                       Редактировать
                     </Button>
+
+                    {/* Журнал покупок */}
+                    <CompensationLedger employeeId={currentEmployee.id} />
                   </div>
                 ) : (
                   <div className="py-5 text-center space-y-3">
@@ -1839,6 +1852,19 @@ export default function EmployeeDetailPage() {
         </CardContent>
       </Card>
 
+      {/* История изменений */}
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <FileClock className="h-5 w-5 text-muted-foreground" />
+            История изменений
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <EntityHistoryPanel entityId={currentEmployee.id} />
+        </CardContent>
+      </Card>
+
       {/* ORDER DETAIL DIALOG */}
       <Dialog open={orderDetailOpen} onOpenChange={setOrderDetailOpen}>
         <DialogContent className="sm:max-w-lg p-0 gap-0 overflow-hidden">
@@ -1858,16 +1884,16 @@ export default function EmployeeDetailPage() {
 
           <div className="px-6 py-5 space-y-4 max-h-[60vh] overflow-y-auto">
             {selectedDayOrders.map((order, idx) => {
-              const orderDate = order.date ? new Date(order.date) : null
-              const today = startOfDay(new Date())
-              const isPastOrder = orderDate && orderDate < today
-              const isTodayOrder = orderDate && orderDate.getTime() === today.getTime()
-              const isFutureOrder = orderDate && orderDate > today
+              const orderDate = order.date?.slice(0, 10)
+              const isPastOrder = !!orderDate && orderDate < todayIso
+              const isTodayOrder = orderDate === todayIso
+              const isFutureOrder = !!orderDate && orderDate > todayIso
               const isCompensation = order.serviceType === 'COMPENSATION'
-              const isPaused = !isCompensation && order.status === 'Приостановлен'
-              const isOrderCompleted = order.status === 'Завершен' || order.status === 'Выполнен'
-              const isOrderCancelled = order.status === 'Отменён'
-              const canCancel = (isTodayOrder || isFutureOrder) && order.status === 'Активен'
+              const actions = getOrderActions(order)
+              const isPaused = !isCompensation && actions.state === 'paused'
+              const isOrderCompleted = actions.state === 'delivered'
+              const isOrderCancelled = actions.state === 'cancelled'
+              const canCancel = actions.cancel.allowed
 
               // Get status color key for consistent styling
               const statusColorKey = isOrderCancelled ? 'cancelled' : isPaused ? 'paused' : 'active'
@@ -2114,7 +2140,7 @@ export default function EmployeeDetailPage() {
                           )}
                         </div>
 
-                        {/* Row 2: Cancel (full width) - only for active orders */}
+                        {/* Row 2: Cancel (full width) - only when the machine allows it */}
                         {canCancel && (
                           <Button
                             variant="outline"
@@ -1,13 +1,14 @@
 'use client'
 
-import { useEffect, useMemo, useState, useCallback, useRef } from 'react'
+import { useEffect, useMemo, useState, useCallback, useRef, Suspense } from 'react'
 import { useRouter } from 'next/navigation'
-import { useEmployeesStore } from '@/stores/employees-store'
+import { useEmployeesStore, selectEmployeesFilters } from '@/stores/employees-store'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
 import { FilterBuilder, type FilterField, type ActiveFilter } from '@/components/ui/filter-builder'
 import { SortableHeader, useSort, sortData } from '@/components/ui/sortable-header'
 import {
@@ -22,6 +23,8 @@ import {
   FolderKanban,
   AlertTriangle,
   RefreshCw,
+  Ban,
+  X,
 } from 'lucide-react'
 import { useProjectsStore } from '@/stores/projects-store'
 import { EMPLOYEE_STATUS, INVITE_STATUS, ORDER_STATUS, getEmployeeStatusConfig, getOrderStatusConfig, getSubscriptionStatusConfig } from '@/lib/constants/entity-statuses'
@@ -43,15 +46,23 @@ import { toast } from 'sonner'
 import { parseError } from '@/lib/errors'
 import { logger } from '@/lib/logger'
 import { isFeatureEnabled } from '@/lib/features.config'
+import { useCan } from '@/lib/hooks/use-can'
+import { useProjectScope } from '@/lib/hooks/use-project-scope'
+import { Can } from '@/components/common'
 import { CreateEmployeeDialog } from '@/components/features/employees/create-employee-dialog'
+import { ProjectScopeSelect } from '@/components/features/projects'
 import { EditEmployeeDialog } from '@/components/features/employees/edit-employee-dialog'
 import { ManageLunchDialog } from '@/components/features/meals/manage-lunch-dialog'
 import { ManageCompensationDialog } from '@/components/features/meals/manage-compensation-dialog'
+import { BulkCancelServicesDialog } from '@/components/features/employees/bulk-cancel-services-dialog'
+import { useSelection } from '@/stores/ui'
 import { debounce } from 'lodash-es'
 import type { Employee, EmployeeDetail } from '@/lib/api/employees'
 import { employeesApi } from '@/lib/api/employees'
 import { DataTable } from '@/components/ui/data-table'
 import type { ColumnDef } from '@tanstack/react-table'
+import { ExportButton } from '@/components/features/export'
+import { useExportEmployees } from '@/lib/query/hooks'
 
 // Вспомогательные функции для отображения
 
@@ -91,7 +102,8 @@ const getServiceStatusConfig = (status?: string) => {
 
 // Filter configuration for employees table
 // Фильтры соответствуют видимым колонкам таблицы
-const getEmployeeFilterFields = (projects: { id: string; name: string }[]): FilterField[] => {
+// Проект выбирается переключателем области проекта в шапке страницы
+const getEmployeeFilterFields = (): FilterField[] => {
   const fields: FilterField[] = [
     // Колонка "Статус услуги" — Активна / Не активна
     {
@@ -117,21 +129,10 @@ const getEmployeeFilterFields = (projects: { id: string; name: string }[]): Filt
     },
   ]
 
-  // Колонка "Проект" — только если проектов > 1
-  if (projects.length > 1) {
-    fields.push({
-      id: 'projectId',
-      label: 'Проект',
-      type: 'select',
-      operators: ['equals'],
-      options: projects.map(p => ({ value: p.id, label: p.name })),
-    })
-  }
-
   return fields
 }
 
-export default function EmployeesPage() {
+function EmployeesPageContent() {
   const router = useRouter()
   const {
     employees,
@@ -143,11 +144,13 @@ export default function EmployeesPage() {
     showAll,
     searchQuery,
     activeFilters,
+    projectScope,
     fetchEmployees,
     toggleEmployeeActive,
     setSearchQuery,
     setActiveFilters,
     setShowAll,
+    setProjectScope,
   } = useEmployeesStore()
   const { projects, fetchProjects } = useProjectsStore()
   const [createOpen, setCreateOpen] = useState(false)
@@ -160,14 +163,27 @@ export default function EmployeesPage() {
   const [editDialogOpen, setEditDialogOpen] = useState(false)
   const [employeeToEdit, setEmployeeToEdit] = useState<EmployeeDetail | null>(null)
   const [editLoading, setEditLoading] = useState(false)
+  const [bulkCancelOpen, setBulkCancelOpen] = useState(false)
+  const canEditEmployees = useCan('employees:edit')
+  const canManageServices = useCan('subscriptions:manage')
+  const exportEmployees = useExportEmployees()
+  // Selection survives pagination and filter changes, so bulk actions can span pages
+  const selection = useSelection('employees')
+  const scope = useProjectScope()
+  const scopeProjectId = scope.projectId ?? null
   const hasFetched = useRef(false)
 
   useEffect(() => {
     if (hasFetched.current) return
     hasFetched.current = true
-    fetchEmployees(1)
     fetchProjects()
-  }, [fetchEmployees, fetchProjects])
+  }, [fetchProjects])
+
+  // (Re)load the list whenever the project scope in the URL changes
+  useEffect(() => {
+    setProjectScope(scopeProjectId)
+    fetchEmployees(1)
+  }, [scopeProjectId, setProjectScope, fetchEmployees])
 
   // Helper to get project name by ID
   const getProjectName = useCallback((projectId: string | null | undefined) => {
@@ -514,6 +530,7 @@ export default function EmployeesPage() {
             className="flex gap-2"
             onClick={(event) => event.stopPropagation()}
           >
+            {canEditEmployees && (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -534,6 +551,8 @@ export default function EmployeesPage() {
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
+            )}
+            {canManageServices && (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -564,7 +583,8 @@ export default function EmployeesPage() {
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
-            {isFeatureEnabled('compensation') && (
+            )}
+            {canManageServices && isFeatureEnabled('compensation') && (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -596,6 +616,7 @@ export default function EmployeesPage() {
               </Tooltip>
             </TooltipProvider>
             )}
+            {canEditEmployees && (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -627,11 +648,44 @@ export default function EmployeesPage() {
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
+            )}
           </div>
         )
       },
     },
-  ], [handleManageLunch, handleManageCompensation, handleNameClick, handleEditEmployee, editLoading, openActivationDialog, sortConfig, toggleSort, getProjectName])
+  ], [handleManageLunch, handleManageCompensation, handleNameClick, handleEditEmployee, editLoading, openActivationDialog, sortConfig, toggleSort, getProjectName, canEditEmployees, canManageServices])
+
+  const visibleIds = sortedEmployees.map((employee) => employee.id)
+  const visibleSelectedCount = visibleIds.filter((id) => selection.isSelected(id)).length
+  let headerChecked: boolean | 'indeterminate' = false
+  if (visibleSelectedCount > 0) {
+    headerChecked = visibleSelectedCount === visibleIds.length ? true : 'indeterminate'
+  }
+
+  const selectionColumn: ColumnDef<Employee> = {
+    id: 'select',
+    size: 40,
+    enableSorting: false,
+    header: () => (
+      <Checkbox
+        checked={headerChecked}
+        onCheckedChange={(checked) =>
+          checked === true ? selection.selectMany(visibleIds) : selection.deselectMany(visibleIds)
+        }
+        disabled={visibleIds.length === 0}
+        aria-label="Выбрать всех на странице"
+      />
+    ),
+    cell: ({ row }) => (
+      <div onClick={(event) => event.stopPropagation()}>
+        <Checkbox
+          checked={selection.isSelected(row.original.id)}
+          onCheckedChange={() => selection.toggle(row.original.id)}
+          aria-label="Выбрать сотрудника"
+        />
+      </div>
+    ),
+  }
 
   const confirmActivationChange = async () => {
     if (!activationContext) return
@@ -653,11 +707,16 @@ export default function EmployeesPage() {
             Управление сотрудниками и их бюджетами
           </p>
         </div>
-        <Button onClick={() => setCreateOpen(true)} size="lg" className="gap-2 w-full sm:w-auto">
-          <Plus className="h-5 w-5" />
-          <span className="hidden sm:inline">Создать сотрудника</span>
-          <span className="sm:hidden">Создать</span>
-        </Button>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <ProjectScopeSelect scope={scope} />
+          <Can permission="employees:create">
+            <Button onClick={() => setCreateOpen(true)} size="lg" className="gap-2 w-full sm:w-auto">
+              <Plus className="h-5 w-5" />
+              <span className="hidden sm:inline">Создать сотрудника</span>
+              <span className="sm:hidden">Создать</span>
+            </Button>
+          </Can>
+        </div>
       </div>
 
       {/* Error Alert */}
@@ -774,15 +833,46 @@ export default function EmployeesPage() {
         </div>
 
         <FilterBuilder
-          fields={getEmployeeFilterFields(projects)}
+          fields={getEmployeeFilterFields()}
           activeFilters={activeFilters}
           onFiltersChange={handleFiltersChange}
         />
+
+        <ExportButton
+          onExport={(format) => exportEmployees.mutate({ filters: selectEmployeesFilters({ searchQuery, activeFilters, projectScope }), format })}
+          isExporting={exportEmployees.isPending}
+          progress={exportEmployees.progress}
+          disabled={total === 0}
+        />
       </div>
 
+      {/* Bulk Actions */}
+      {selection.count > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border bg-muted/40 px-4 py-2">
+          <span className="text-sm font-medium">Выбрано: {selection.count}</span>
+          <div className="flex gap-2">
+            <Can permission="subscriptions:cancel">
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => setBulkCancelOpen(true)}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Отменить услуги
+              </Button>
+            </Can>
+            <Button variant="ghost" size="sm" onClick={selection.clear}>
+              <X className="h-4 w-4 mr-2" />
+              Сбросить
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Employees Table */}
       <DataTable
-        columns={columns}
+        columns={[selectionColumn, ...columns]}
         data={sortedEmployees}
         isLoading={loading && employees.length === 0}
         emptyMessage={
@@ -792,10 +882,12 @@ export default function EmployeesPage() {
             <p className="text-muted-foreground mb-4">
               Начните с создания первого сотрудника
             </p>
-            <Button onClick={() => setCreateOpen(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Создать сотрудника
-            </Button>
+            <Can permission="employees:create">
+              <Button onClick={() => setCreateOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Создать сотрудника
+              </Button>
+            </Can>
           </div>
         }
         onRowClick={(employee) => router.push(`/employees/${employee.id}`)}
@@ -862,7 +954,19 @@ export default function EmployeesPage() {
 
 
       {/* Create Dialog */}
-      <CreateEmployeeDialog open={createOpen} onOpenChange={setCreateOpen} />
+      <CreateEmployeeDialog open={createOpen} onOpenChange={setCreateOpen} projectId={scope.projectId} />
+
+      {/* Bulk Cancel Services Dialog */}
+      <BulkCancelServicesDialog
+        open={bulkCancelOpen}
+        onOpenChange={setBulkCancelOpen}
+        employeeIds={selection.selectedIds}
+        onCompleted={(result) => {
+          fetchEmployees(currentPage)
+          // Failed employees stay selected so the action can be retried
+          selection.deselectMany(result.cancelled.map((item) => item.employeeId))
+        }}
+      />
 
       {/* Manage Lunch Dialog */}
       {selectedEmployee && (
@@ -947,3 +1051,10 @@ export default function EmployeesPage() {
   )
 }
 
+export default function EmployeesPage() {
+  return (
+    <Suspense fallback={<div className="p-6 text-center">Загрузка...</div>}>
+      <EmployeesPageContent />
+    </Suspense>
+  )
+}
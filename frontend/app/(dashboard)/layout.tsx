@@ -3,33 +3,42 @@
 import { Sidebar } from '@/components/layout/sidebar'
 import { Header } from '@/components/layout/header'
 import { ImpersonateBanner } from '@/components/layout/impersonate-banner'
+import { CompanyViewBanner } from '@/components/layout/company-view-banner'
 import { Toaster } from '@/components/ui/sonner'
 import { ErrorBoundary } from '@/components/ui/error-boundary'
+import { SessionManager } from '@/components/features/auth/session-manager'
+import { RealtimeSync } from '@/components/layout/realtime-sync'
 
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
   return (
-    <div className="flex h-screen w-full bg-muted/20 overflow-hidden">
+    <div className="flex h-screen w-full bg-muted/20 overflow-hidden print:block print:h-auto print:overflow-visible print:bg-white">
       {/* Sidebar Navigation - Hidden on mobile */}
       <nav 
         id="main-nav" 
         aria-label="Основная навигация"
-        className="hidden lg:flex h-full"
+        className="hidden lg:flex h-full print:hidden"
       >
         <Sidebar />
       </nav>
       
-      <div className="flex flex-1 flex-col min-w-0 overflow-hidden">
-        {/* Impersonation warning banner */}
-        <ImpersonateBanner />
-        
-        {/* Header with mobile menu */}
-        <Header />
+      <div className="flex flex-1 flex-col min-w-0 overflow-hidden print:overflow-visible">
+        {/* Banners and header are left out of printouts (delivery manifest) */}
+        <div className="contents print:hidden">
+          {/* Impersonation warning banner */}
+          <ImpersonateBanner />
+
+          {/* SUPER_ADMIN "view as company" banner */}
+          <CompanyViewBanner />
+
+          {/* Header with mobile menu */}
+          <Header />
+        </div>
         
         {/* Main content area */}
         <main 
           id="main-content"
           tabIndex={-1}
-          className="flex-1 overflow-y-auto p-4 sm:p-6 focus:outline-none"
+          className="flex-1 overflow-y-auto p-4 sm:p-6 focus:outline-none print:overflow-visible print:p-0"
           role="main"
           aria-label="Основное содержимое"
         >
@@ -39,6 +48,12 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
         </main>
       </div>
       
+      {/* Silent token refresh, idle lock and in-place re-login */}
+      <SessionManager />
+
+      {/* Live order / subscription / budget updates pushed by the server */}
+      <RealtimeSync />
+      
       {/* Toast notifications */}
       <Toaster 
         position="top-right" 
@@ -11,7 +11,7 @@ import {
   SERVICE_TYPE_OPTIONS,
   toFilterOptions
 } from '@/lib/constants/dictionaries'
-import { useHomeStore } from '@/stores/home-store'
+import { useHomeStore, selectOrdersFilters } from '@/stores/home-store'
 import { useProjectsStore } from '@/stores/projects-store'
 import { useAuthStore } from '@/stores/auth-store'
 import type { Order } from '@/lib/api/home'
@@ -34,6 +34,8 @@ import {
   ChevronLeft,
   ChevronRight,
   Calendar,
+  CalendarRange,
+  ClipboardList,
   X,
   Trash2,
   AlertTriangle,
@@ -41,7 +43,10 @@ import {
 } from 'lucide-react'
 // DropdownMenu imports removed - using inline buttons instead
 import { GuestOrderDialog } from '@/components/features/home/guest-order-dialog'
+import { ProjectScopeSelect } from '@/components/features/projects'
 import { BulkEditDialog } from '@/components/features/home/bulk-edit-dialog'
+import { WeekPlanGrid, getWeekStart } from '@/components/features/dashboard'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { EditSubscriptionDialog } from '@/components/features/home/edit-subscription-dialog'
 import { EditCompensationDialog } from '@/components/features/home/edit-compensation-dialog'
 import { ManageLunchDialog } from '@/components/features/meals/manage-lunch-dialog'
@@ -49,7 +54,7 @@ import { ManageCompensationDialog } from '@/components/features/meals/manage-com
 import { DatePicker } from '@/components/ui/date-picker'
 import { useEmployeesStore } from '@/stores/employees-store'
 import { debounce } from 'lodash-es'
-import { format, startOfDay } from 'date-fns'
+import { format } from 'date-fns'
 import { ru } from 'date-fns/locale'
 import {
   Tooltip,
@@ -58,14 +63,19 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
-import { toast } from 'sonner'
-import { parseError, ErrorCodes } from '@/lib/errors'
-import { logger } from '@/lib/logger'
 import { isFeatureEnabled } from '@/lib/features.config'
 import { FeatureVisible } from '@/components/features/feature-gate'
+import { Can } from '@/components/common'
 import { DataTable } from '@/components/ui/data-table'
 import type { ColumnDef } from '@tanstack/react-table'
 import { Checkbox } from '@/components/ui/checkbox'
+import { ExportButton } from '@/components/features/export'
+import { useExportOrders, useProjectCutoff } from '@/lib/query/hooks'
+import { useProjectScope } from '@/lib/hooks/use-project-scope'
+import { useOrderTransitions } from '@/lib/hooks/use-order-transitions'
+import { scheduleBulkOrderAction } from '@/lib/commands'
+import { getServerNow, hasCutoffPassed } from '@/lib/utils/date'
+import { AppEvents, useEventBus } from '@/lib/events'
 
 // Format date as YYYY-MM-DD in local timezone (not UTC!)
 const formatISODate = (date: Date) => {
@@ -84,22 +94,16 @@ const formatOrderDate = (date?: string | null) => {
   }
 }
 
-const hasCutoffPassed = (cutoffTime: string | null) => {
-  if (!cutoffTime) return false
-  const [hours, minutes] = cutoffTime.split(':').map((part) => Number(part))
-  if (Number.isNaN(hours) || Number.isNaN(minutes)) return false
-  const now = new Date()
-  const cutoff = new Date()
-  cutoff.setHours(hours, minutes, 0, 0)
-  return now > cutoff
-}
+// Pushed by the realtime bridge when another admin or a background job changes orders
+const REALTIME_REFRESH_EVENTS = [AppEvents.REFRESH_ORDERS, AppEvents.REFRESH_DASHBOARD]
+const REALTIME_REFRESH_DELAY = 300
 
 function HomePageContent() {
   const searchParams = useSearchParams()
   const {
     dashboard,
     orders,
-    cutoffTime,
+    cutoffTime: companyCutoffTime,
     isLoading: loading,
     error,
     total,
@@ -108,16 +112,20 @@ function HomePageContent() {
     showAll,
     search,
     activeFilters,
+    projectFilter,
     fetchDashboard,
     fetchOrders,
     fetchCutoffTime,
-    bulkAction,
     setActiveFilters,
     setShowAll,
+    setProjectFilter,
   } = useHomeStore()
-  const { fetchProjects, projects } = useProjectsStore()
-  const { employees, fetchEmployees } = useEmployeesStore()
-  const { projectName } = useAuthStore()
+  const { fetchProjects } = useProjectsStore()
+  const { employees, fetchEmployees, setProjectScope } = useEmployeesStore()
+  const { projectId, projectName } = useAuthStore()
+  const scope = useProjectScope()
+  // Cutoff is evaluated in the project in scope, not with the company-wide default
+  const { cutoffTime, timezone: projectTimezone } = useProjectCutoff(scope.projectId ?? projectId, companyCutoffTime)
   const [guestOrderOpen, setGuestOrderOpen] = useState(false)
   const [bulkLunchOpen, setBulkLunchOpen] = useState(false)
   const [bulkCompensationOpen, setBulkCompensationOpen] = useState(false)
@@ -129,16 +137,17 @@ function HomePageContent() {
     employeeName: string
     action: 'pause' | 'resume'
   } | null>(null)
-  const [singleActionLoading, setSingleActionLoading] = useState(false)
   const [subscriptionDialogOrder, setSubscriptionDialogOrder] = useState<Order | null>(null)
 
   // States for new action dialogs
   const [compensationDialogOrder, setCompensationDialogOrder] = useState<Order | null>(null)
   const [cancelDialogOrder, setCancelDialogOrder] = useState<Order | null>(null)
-  const [actionLoading, setActionLoading] = useState(false)
+  const exportOrders = useExportOrders()
+  const [viewMode, setViewMode] = useState<'day' | 'week'>('day')
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()))
 
-  // Date constants
-  const todayIso = formatISODate(new Date())
+  // Date constants: "today" follows the project timezone, like the cutoff
+  const todayIso = formatISODate(getServerNow(projectTimezone))
 
   // Get selected date from activeFilters (single source of truth)
   const selectedDate = useMemo(() => {
@@ -162,13 +171,18 @@ function HomePageContent() {
     }
     setActiveFilters([todayFilter])
 
-    // Pass today's date directly to avoid race condition
-    fetchDashboard(todayIso)
     fetchCutoffTime()
     fetchProjects()
+  }, [fetchCutoffTime, fetchProjects, setActiveFilters, todayIso])
+
+  // Scoped data: runs after the date filter above is set, and again on every project switch
+  useEffect(() => {
+    setProjectFilter(scope.value)
+    setProjectScope(scope.projectId ?? null)
+    fetchDashboard()
     fetchEmployees()
-    fetchOrders(1, todayIso)
-  }, [fetchDashboard, fetchCutoffTime, fetchProjects, fetchEmployees, fetchOrders, setActiveFilters, todayIso])
+    fetchOrders(1)
+  }, [scope.value, scope.projectId, setProjectFilter, setProjectScope, fetchDashboard, fetchEmployees, fetchOrders])
 
   useEffect(() => {
     const employeeParam = searchParams.get('employee')
@@ -179,6 +193,7 @@ function HomePageContent() {
   }, [searchParams, fetchOrders])
 
   useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- drop selections that left the list after a refetch
     setSelectedOrders((prev) =>
       prev.filter((id) =>
         orders.some((order) => order.id === id && order.type === 'Сотрудник')
@@ -200,6 +215,20 @@ function HomePageContent() {
     fetchOrders(page, selectedDate || undefined)
   }
 
+  // One refetch per burst of realtime events, keeping the current page and date
+  const realtimeRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const refreshFromRealtime = useCallback(() => {
+    if (realtimeRefreshTimer.current) clearTimeout(realtimeRefreshTimer.current)
+    realtimeRefreshTimer.current = setTimeout(() => {
+      fetchOrders(currentPage, selectedDate || undefined)
+      fetchDashboard(selectedDate || undefined)
+    }, REALTIME_REFRESH_DELAY)
+  }, [currentPage, selectedDate, fetchOrders, fetchDashboard])
+  useEventBus(REALTIME_REFRESH_EVENTS, refreshFromRealtime)
+  useEffect(() => () => {
+    if (realtimeRefreshTimer.current) clearTimeout(realtimeRefreshTimer.current)
+  }, [])
+
   // Sort orders with custom comparators
   const sortedOrders = useMemo(() => {
     return sortData(orders, sortConfig, {
@@ -309,19 +338,35 @@ function HomePageContent() {
   const isTodaySelected = Boolean(selectedDate && selectedDate === todayIso)
   const isPastDateSelected = Boolean(selectedDate && selectedDate < todayIso)
   const hasDateFilter = Boolean(selectedDate)
-  const isCutoffLocked = isTodaySelected && hasCutoffPassed(cutoffTime)
+  const isCutoffLocked = isTodaySelected && hasCutoffPassed(cutoffTime, projectTimezone)
   const budgetDepleted = !dashboard || dashboard.totalBudget <= 0
   const pastDateDisabledReason = isPastDateSelected ? 'Нельзя создать заказ на прошедшую дату' : null
   const budgetDisabledReason = budgetDepleted ? 'Недостаточно средств на бюджете проекта' : null
-  const cutoffDisabledReason = isCutoffLocked
-    ? cutoffTime
-      ? `Изменения на сегодня закрыты в ${cutoffTime}`
-      : 'Изменения на сегодня закрыты'
-    : null
+  const cutoffLockedReason = cutoffTime
+    ? `Изменения на сегодня закрыты в ${cutoffTime}`
+    : 'Изменения на сегодня закрыты'
+  const cutoffDisabledReason = isCutoffLocked ? cutoffLockedReason : null
   const guestDisabledReason = pastDateDisabledReason || budgetDisabledReason || cutoffDisabledReason
 
+  // Same past-date and cutoff rules, applied per day of the week view
+  const getDayLockReason = useCallback((date: string) => {
+    if (date < todayIso) return 'Прошлые заказы нельзя редактировать'
+    if (date === todayIso && hasCutoffPassed(cutoffTime, projectTimezone)) return cutoffLockedReason
+    return null
+  }, [todayIso, cutoffTime, projectTimezone, cutoffLockedReason])
+
+  const changeViewMode = (mode: string) => {
+    if (mode === 'week') {
+      setWeekStart(getWeekStart(selectedDate ? parseLocalDate(selectedDate) : new Date()))
+    }
+    setSelectedOrders([])
+    setViewMode(mode === 'week' ? 'week' : 'day')
+  }
+  const { getOrderActions } = useOrderTransitions({ lockedReason: cutoffDisabledReason, timezone: projectTimezone })
+
   useEffect(() => {
     if (isCutoffLocked) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect -- the lock can start while the page is open
       setSelectedOrders([])
     }
   }, [isCutoffLocked])
@@ -386,33 +431,12 @@ function HomePageContent() {
   // Orders can now only be cancelled, not frozen.
 
   // Confirm cancel order
-  const confirmCancelOrder = useCallback(async () => {
+  const confirmCancelOrder = useCallback(() => {
     if (!cancelDialogOrder) return
-    setActionLoading(true)
-    try {
-      await bulkAction({
-        orderIds: [cancelDialogOrder.id],
-        action: 'cancel',
-      })
-      toast.success(`Заказ для ${cancelDialogOrder.employeeName} отменён`)
-      setCancelDialogOrder(null)
-    } catch (error) {
-      const appError = parseError(error)
-      logger.error('Failed to cancel order', error instanceof Error ? error : new Error(appError.message), {
-        errorCode: appError.code,
-      })
-
-      if (appError.code === ErrorCodes.ORDER_CUTOFF_PASSED) {
-        toast.error('Время для отмены истекло', {
-          description: 'Отмена заказов на сегодня невозможна после времени отсечки',
-        })
-      } else {
-        toast.error(appError.message, { description: appError.action })
-      }
-    } finally {
-      setActionLoading(false)
-    }
-  }, [cancelDialogOrder, bulkAction])
+    // Sent after the undo window; failures are reported by the command
+    scheduleBulkOrderAction({ orderIds: [cancelDialogOrder.id], action: 'cancel' })
+    setCancelDialogOrder(null)
+  }, [cancelDialogOrder])
 
 
   const columns = useMemo<ColumnDef<Order>[]>(() => [
@@ -584,10 +608,9 @@ function HomePageContent() {
       header: 'Детали',
       cell: ({ row }) => {
         const order = row.original
-        const orderDate = order.date ? new Date(order.date) : null
-        const today = startOfDay(new Date())
-        const isPastOrder = orderDate && orderDate < today
-        const isTodayOrder = orderDate && orderDate.getTime() === today.getTime()
+        const orderIso = order.date ? order.date.slice(0, 10) : null
+        const isPastOrder = orderIso !== null && orderIso < todayIso
+        const isTodayOrder = orderIso === todayIso
         // Note: future orders handled by default case below
 
         // LUNCH: показываем комбо и цену
@@ -707,9 +730,8 @@ function HomePageContent() {
         const isCompensation = order.serviceType === 'COMPENSATION'
 
         // Проверка на прошлые заказы
-        const orderDate = order.date ? new Date(order.date) : null
-        const today = startOfDay(new Date())
-        const isPastOrder = orderDate && orderDate < today
+        const orderIso = order.date ? order.date.slice(0, 10) : null
+        const isPastOrder = orderIso !== null && orderIso < todayIso
 
         // Для компенсаций показываем ресторан (не редактируемый)
         if (isCompensation) {
@@ -794,11 +816,10 @@ function HomePageContent() {
         const isGuest = order.type === 'Гость'
         const isCompensation = order.serviceType === 'COMPENSATION'
 
-        const orderDate = order.date ? new Date(order.date) : null
-        const today = startOfDay(new Date())
-        const isPastOrder = orderDate && orderDate < today
-        const isTodayOrder = orderDate && orderDate.getTime() === today.getTime()
-        const isFutureOrder = orderDate && orderDate > today
+        const orderIso = order.date ? order.date.slice(0, 10) : null
+        const isPastOrder = orderIso !== null && orderIso < todayIso
+        // Pause/resume/cancel availability comes from the order machine
+        const actions = getOrderActions(order)
 
         // Прошлые заказы — только просмотр (история)
         if (isPastOrder) {
@@ -815,11 +836,7 @@ function HomePageContent() {
         }
 
         // Завершённые заказы (all terminal delivery states)
-        const isDeliveredStatus = order.status === ORDER_STATUS.COMPLETED ||
-                                   order.status === 'Завершен' ||
-                                   order.status === 'Выполнен' ||
-                                   order.status === 'Доставлен'  // Legacy
-        if (isDeliveredStatus) {
+        if (actions.state === 'delivered') {
           return (
             <TooltipProvider>
               <Tooltip>
@@ -832,12 +849,10 @@ function HomePageContent() {
           )
         }
 
-        const actionDisabled = isCutoffLocked
-
         // COMPENSATION заказы - кнопки в ряд
         if (isCompensation) {
-          const canEdit = !isPastOrder && !isDeliveredStatus
-          const canCancel = !actionDisabled && (isTodayOrder || isFutureOrder)
+          const canEdit = !actions.isFinal
+          const canCancel = actions.cancel.allowed
 
           return (
             <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
@@ -892,7 +907,7 @@ function HomePageContent() {
           return (
             <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
               {/* Пауза / Возобновить */}
-              {(order.status === ORDER_STATUS.ACTIVE || order.status === 'Активен') && (
+              {actions.pause.legal && (
                 <TooltipProvider>
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -901,7 +916,7 @@ function HomePageContent() {
                           variant="ghost"
                           size="icon"
                           className="h-8 w-8"
-                          disabled={actionDisabled}
+                          disabled={!actions.pause.allowed}
                           onClick={() => startSingleAction(order.id, order.employeeName, 'pause')}
                         >
                           <PauseCircle className="h-4 w-4" />
@@ -909,13 +924,12 @@ function HomePageContent() {
                       </span>
                     </TooltipTrigger>
                     <TooltipContent>
-                      {actionDisabled ? cutoffDisabledReason : 'Поставить на паузу'}
+                      {actions.pause.reason ?? 'Поставить на паузу'}
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
               )}
-              {/* 'На паузе' is DEPRECATED, use 'Приостановлен' */}
-              {(order.status === ORDER_STATUS.PAUSED || order.status === 'Приостановлен' || order.status === 'На паузе') && (
+              {actions.resume.legal && (
                 <TooltipProvider>
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -924,7 +938,7 @@ function HomePageContent() {
                           variant="ghost"
                           size="icon"
                           className="h-8 w-8"
-                          disabled={actionDisabled}
+                          disabled={!actions.resume.allowed}
                           onClick={() => startSingleAction(order.id, order.employeeName, 'resume')}
                         >
                           <PlayCircle className="h-4 w-4" />
@@ -932,56 +946,56 @@ function HomePageContent() {
                       </span>
                     </TooltipTrigger>
                     <TooltipContent>
-                      {actionDisabled ? cutoffDisabledReason : 'Возобновить'}
+                      {actions.resume.reason ?? 'Возобновить'}
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
               )}
 
               {/* Отменить */}
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <span>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 text-destructive hover:text-destructive"
-                        disabled={actionDisabled}
-                        onClick={() => handleCancelOrder(order)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </span>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    {actionDisabled ? cutoffDisabledReason : 'Отменить заказ'}
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+              {actions.cancel.legal && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          disabled={!actions.cancel.allowed}
+                          onClick={() => handleCancelOrder(order)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      {actions.cancel.reason ?? 'Отменить заказ'}
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
             </div>
           )
         }
 
         // LUNCH для сотрудников — кнопки в ряд как на странице сотрудников
-        const isActiveOrder = order.status === ORDER_STATUS.ACTIVE || order.status === 'Активен'
-        const isCancelledOrder = order.status === 'Отменён'
-        const canEdit = !actionDisabled && isEmployee && isActiveOrder
+        const isActiveOrder = actions.state === 'confirmed'
+        const isCancelledOrder = actions.state === 'cancelled'
+        const canEdit = !isCutoffLocked && isEmployee && isActiveOrder
         // NOTE: Pause/Resume removed for individual orders - use subscription-level pause instead
-        const canCancel = !actionDisabled && isEmployee && isActiveOrder
+        const canCancel = isEmployee && actions.cancel.allowed
 
         // Tooltip text based on status
         const getEditTooltip = () => {
           if (isCancelledOrder) return 'Заказ отменён'
           if (canEdit) return 'Управлять обедом'
-          if (actionDisabled) return cutoffDisabledReason
+          if (isCutoffLocked) return cutoffDisabledReason
           return 'Недоступно'
         }
         const getCancelTooltip = () => {
-          if (isCancelledOrder) return 'Заказ отменён'
           if (canCancel) return 'Отменить заказ'
-          if (actionDisabled) return cutoffDisabledReason
-          return 'Недоступно'
+          return actions.cancel.reason ?? 'Недоступно'
         }
 
         return (
@@ -1030,12 +1044,14 @@ function HomePageContent() {
       },
     },
   ], [
+    todayIso,
     employeeOrdersOnPage,
     selectedOrders,
     handleSelectAll,
     handleSelectOrder,
     isCutoffLocked,
     cutoffDisabledReason,
+    getOrderActions,
     getStatusColor,
     startSingleAction,
     sortConfig,
@@ -1045,35 +1061,15 @@ function HomePageContent() {
     handleCancelOrder,
   ])
 
-  const confirmSingleAction = async () => {
+  const confirmSingleAction = () => {
     if (!singleActionDialog) return
-    setSingleActionLoading(true)
-    try {
-      await bulkAction({
-        orderIds: [singleActionDialog.orderId],
-        action: singleActionDialog.action,
-      })
-      toast.success(
-        singleActionDialog.action === 'pause'
-          ? `Заказ для ${singleActionDialog.employeeName} поставлен на паузу`
-          : `Заказ для ${singleActionDialog.employeeName} возобновлен`
-      )
-      setSingleActionDialog(null)
-    } catch (error) {
-      const appError = parseError(error)
-      logger.error('Single action failed', error instanceof Error ? error : new Error(appError.message), {
-        errorCode: appError.code,
-      })
-      toast.error(appError.message, { description: appError.action })
-    } finally {
-      setSingleActionLoading(false)
-    }
+    scheduleBulkOrderAction({ orderIds: [singleActionDialog.orderId], action: singleActionDialog.action })
+    setSingleActionDialog(null)
   }
 
-  // Dynamic filter fields based on projects (date is now in the dedicated date picker)
+  // Filter fields (date is in the dedicated date picker, project in the scope switcher)
   // Все опции берутся из единого источника: lib/constants/dictionaries.ts
   const orderFilterFields = useMemo<FilterField[]>(() => {
-    const projectOptions = Array.isArray(projects) ? projects : []
     const fields: FilterField[] = [
       {
         id: 'status',
@@ -1109,23 +1105,8 @@ function HomePageContent() {
       })
     }
 
-    // Add project filter (only useful for HQ users with multiple projects)
-    // Проекты загружаются динамически из API
-    if (projectOptions.length > 1) {
-      fields.push({
-        id: 'projectId',
-        label: 'Локация доставки',
-        type: 'select',
-        operators: ['equals'],
-        options: projectOptions.map((proj) => ({
-          value: proj.id,
-          label: `${proj.name} — ${proj.addressName || proj.addressFullAddress}`
-        })),
-      })
-    }
-
     return fields
-  }, [projects])
+  }, [])
 
   const handleFiltersChange = useCallback((filters: ActiveFilter[]) => {
     setActiveFilters(filters)
@@ -1149,6 +1130,8 @@ function HomePageContent() {
           </p>
         </div>
         <div className="flex flex-wrap gap-2">
+          <ProjectScopeSelect scope={scope} />
+          <Can permission="subscriptions:manage">
           <Button
             variant="outline"
             onClick={() => setBulkLunchOpen(true)}
@@ -1167,6 +1150,8 @@ function HomePageContent() {
             Назначить компенсации
           </Button>
           </FeatureVisible>
+          </Can>
+          <Can permission="orders:create">
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -1188,6 +1173,7 @@ function HomePageContent() {
               {guestDisabledReason && <TooltipContent>{guestDisabledReason}</TooltipContent>}
             </Tooltip>
           </TooltipProvider>
+          </Can>
         </div>
       </div>
 
@@ -1291,134 +1277,181 @@ function HomePageContent() {
         </div>
       )}
 
-      {/* Date Navigator */}
-      <Card className="border-0 shadow-sm py-0">
-        <CardContent className="py-3 px-4">
-          <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
-            {/* Date Picker with Navigation */}
-            <div className="flex items-center gap-3">
-              <div className="flex items-center gap-2">
-                <Calendar className="h-5 w-5 text-primary" />
-                <span className="text-sm font-medium">Заказы на</span>
-              </div>
+      {/* Day / Week view */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Tabs value={viewMode} onValueChange={changeViewMode}>
+          <TabsList>
+            <TabsTrigger value="day" className="gap-1.5">
+              <Calendar className="h-4 w-4" />
+              День
+            </TabsTrigger>
+            <TabsTrigger value="week" className="gap-1.5">
+              <CalendarRange className="h-4 w-4" />
+              Неделя
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {/* Manifest is per project: hidden while all projects are in scope */}
+        {scope.projectId && (
+          <Button variant="outline" size="sm" asChild className="gap-1.5">
+            <Link href={`/projects/${scope.projectId}/manifest?date=${selectedDate || todayIso}`}>
+              <ClipboardList className="h-4 w-4" />
+              Манифест доставки
+            </Link>
+          </Button>
+        )}
+      </div>
 
-              <div className="flex items-center gap-1 bg-muted/50 rounded-lg p-1">
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  className="h-8 w-8 rounded-md hover:bg-background"
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    goToPreviousDay()
-                  }}
-                >
-                  <ChevronLeft className="h-4 w-4" />
-                </Button>
+      {viewMode === 'week' && (
+        <WeekPlanGrid
+          weekStart={weekStart}
+          onWeekChange={setWeekStart}
+          projectId={scope.projectId ?? undefined}
+          getDayLockReason={getDayLockReason}
+        />
+      )}
 
-                <DatePicker
-                  value={displayDate ?? undefined}
-                  onChange={selectDate}
-                  placeholder="Все даты"
-                  className="w-[130px] border-0 bg-background shadow-sm"
-                />
+      {viewMode === 'day' && (
+        <>
+        {/* Date Navigator */}
+        <Card className="border-0 shadow-sm py-0">
+          <CardContent className="py-3 px-4">
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+              {/* Date Picker with Navigation */}
+              <div className="flex items-center gap-3">
+                <div className="flex items-center gap-2">
+                  <Calendar className="h-5 w-5 text-primary" />
+                  <span className="text-sm font-medium">Заказы на</span>
+                </div>
+
+                <div className="flex items-center gap-1 bg-muted/50 rounded-lg p-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-md hover:bg-background"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      goToPreviousDay()
+                    }}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+
+                  <DatePicker
+                    value={displayDate ?? undefined}
+                    onChange={selectDate}
+                    placeholder="Все даты"
+                    className="w-[130px] border-0 bg-background shadow-sm"
+                  />
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-md hover:bg-background"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      goToNextDay()
+                    }}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
 
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  className="h-8 w-8 rounded-md hover:bg-background"
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    goToNextDay()
-                  }}
-                >
-                  <ChevronRight className="h-4 w-4" />
-                </Button>
               </div>
 
+              {/* Actions */}
+              <div className="flex items-center gap-2">
+                {!isTodaySelected && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={showToday}
+                    className="text-xs"
+                  >
+                    Сегодня
+                  </Button>
+                )}
+
+                {hasDateFilter ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={showAllOrders}
+                    className="text-xs text-muted-foreground hover:text-foreground gap-1"
+                  >
+                    <X className="h-3 w-3" />
+                    Все заказы
+                  </Button>
+                ) : (
+                  <Badge variant="secondary" className="text-xs">
+                    Показаны все заказы
+                  </Badge>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex-1 min-w-[200px] max-w-md">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+              <Input
+                placeholder="Поиск по сотруднику или адресу..."
+                value={search}
+                onChange={(e) => handleSearchChange(e.target.value)}
+                className="pl-10"
+              />
             </div>
+          </div>
 
-            {/* Actions */}
-            <div className="flex items-center gap-2">
-              {!isTodaySelected && (
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={showToday}
-                  className="text-xs"
-                >
-                  Сегодня
-                </Button>
+          <FilterBuilder
+            fields={orderFilterFields}
+            activeFilters={activeFilters}
+            onFiltersChange={handleFiltersChange}
+          />
+
+          <ExportButton
+            onExport={(format) => exportOrders.mutate({ filters: selectOrdersFilters({ search, activeFilters, projectFilter }), format })}
+            isExporting={exportOrders.isPending}
+            progress={exportOrders.progress}
+            disabled={total === 0}
+          />
+
+          {/* Кнопка редактирования — disabled пока не выбраны заказы */}
+          <Can permission="orders:bulk">
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span>
+                  <Button
+                    onClick={() => setBulkEditOpen(true)}
+                    className="gap-2"
+                    disabled={selectedOrders.length === 0 || isCutoffLocked}
+                  >
+                    <Users className="h-4 w-4" />
+                    {selectedOrders.length > 0
+                      ? `Редактировать (${selectedOrders.length})`
+                      : 'Выберите заказы'
+                    }
+                  </Button>
+                </span>
+              </TooltipTrigger>
+              {selectedOrders.length === 0 && (
+                <TooltipContent>Выберите заказы в таблице для редактирования</TooltipContent>
               )}
-
-              {hasDateFilter ? (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={showAllOrders}
-                  className="text-xs text-muted-foreground hover:text-foreground gap-1"
-                >
-                  <X className="h-3 w-3" />
-                  Все заказы
-                </Button>
-              ) : (
-                <Badge variant="secondary" className="text-xs">
-                  Показаны все заказы
-                </Badge>
+              {selectedOrders.length > 0 && isCutoffLocked && (
+                <TooltipContent>Время отсечки прошло — редактирование недоступно</TooltipContent>
               )}
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Filters */}
-      <div className="flex flex-wrap items-center gap-4">
-        <div className="flex-1 min-w-[200px] max-w-md">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-            <Input
-              placeholder="Поиск по сотруднику или адресу..."
-              value={search}
-              onChange={(e) => handleSearchChange(e.target.value)}
-              className="pl-10"
-            />
-          </div>
+            </Tooltip>
+          </TooltipProvider>
+          </Can>
         </div>
-
-        <FilterBuilder
-          fields={orderFilterFields}
-          activeFilters={activeFilters}
-          onFiltersChange={handleFiltersChange}
-        />
-
-        {/* Кнопка редактирования — disabled пока не выбраны заказы */}
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <span>
-                <Button
-                  onClick={() => setBulkEditOpen(true)}
-                  className="gap-2"
-                  disabled={selectedOrders.length === 0 || isCutoffLocked}
-                >
-                  <Users className="h-4 w-4" />
-                  {selectedOrders.length > 0
-                    ? `Редактировать (${selectedOrders.length})`
-                    : 'Выберите заказы'
-                  }
-                </Button>
-              </span>
-            </TooltipTrigger>
-            {selectedOrders.length === 0 && (
-              <TooltipContent>Выберите заказы в таблице для редактирования</TooltipContent>
-            )}
-            {selectedOrders.length > 0 && isCutoffLocked && (
-              <TooltipContent>Время отсечки прошло — редактирование недоступно</TooltipContent>
-            )}
-          </Tooltip>
-        </TooltipProvider>
-      </div>
+        </>
+      )}
 
       {/* Error Alert */}
       {error && (
@@ -1444,83 +1477,87 @@ function HomePageContent() {
         </Alert>
       )}
 
-      {/* Orders Table */}
-      <DataTable
-        columns={columns}
-        data={sortedOrders}
-        isLoading={loading && orders.length === 0}
-        loadingRows={5}
-        emptyMessage={
-          <div className="p-12 text-center">
-            <ShoppingCart className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-            <h3 className="text-lg font-semibold mb-2">Заказы не найдены</h3>
-            <p className="text-muted-foreground">
-              Начните с назначения обедов сотрудникам
-            </p>
-          </div>
-        }
-      />
+      {viewMode === 'day' && (
+        <>
+        {/* Orders Table */}
+        <DataTable
+          columns={columns}
+          data={sortedOrders}
+          isLoading={loading && orders.length === 0}
+          loadingRows={5}
+          emptyMessage={
+            <div className="p-12 text-center">
+              <ShoppingCart className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Заказы не найдены</h3>
+              <p className="text-muted-foreground">
+                Начните с назначения обедов сотрудникам
+              </p>
+            </div>
+          }
+        />
 
-      {/* Pagination */}
-      {(totalPages > 1 || showAll) && (
-        <div className="flex items-center justify-between rounded-lg border bg-card px-6 py-4">
-          <div className="text-sm text-muted-foreground">
-            {showAll 
-              ? `Показано все: ${total}`
-              : `Показано ${((currentPage - 1) * 20) + 1} - ${Math.min(currentPage * 20, total)} из ${total}`
-            }
-          </div>
-          <div className="flex gap-2">
-            {showAll ? (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => {
-                  setShowAll(false)
-                  fetchOrders(1)
-                }}
-                disabled={loading}
-              >
-                По страницам
-              </Button>
-            ) : (
-              <>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handlePageChange(currentPage - 1)}
-                  disabled={currentPage === 1 || loading}
-                >
-                  Назад
-                </Button>
+        {/* Pagination */}
+        {(totalPages > 1 || showAll) && (
+          <div className="flex items-center justify-between rounded-lg border bg-card px-6 py-4">
+            <div className="text-sm text-muted-foreground">
+              {showAll 
+                ? `Показано все: ${total}`
+                : `Показано ${((currentPage - 1) * 20) + 1} - ${Math.min(currentPage * 20, total)} из ${total}`
+              }
+            </div>
+            <div className="flex gap-2">
+              {showAll ? (
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => handlePageChange(currentPage + 1)}
-                  disabled={currentPage === totalPages || loading}
-                >
-                  Вперед
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
                   onClick={() => {
-                    setShowAll(true)
+                    setShowAll(false)
                     fetchOrders(1)
                   }}
                   disabled={loading}
-                  className="text-muted-foreground hover:text-foreground"
                 >
-                  Показать все
+                  По страницам
                 </Button>
-              </>
-            )}
+              ) : (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handlePageChange(currentPage - 1)}
+                    disabled={currentPage === 1 || loading}
+                  >
+                    Назад
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handlePageChange(currentPage + 1)}
+                    disabled={currentPage === totalPages || loading}
+                  >
+                    Вперед
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setShowAll(true)
+                      fetchOrders(1)
+                    }}
+                    disabled={loading}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    Показать все
+                  </Button>
+                </>
+              )}
+            </div>
           </div>
-        </div>
+        )}
+        </>
       )}
 
       {/* Dialogs */}
-      <GuestOrderDialog open={guestOrderOpen} onOpenChange={setGuestOrderOpen} />
+      <GuestOrderDialog open={guestOrderOpen} onOpenChange={setGuestOrderOpen} projectId={scope.projectId} />
       <BulkEditDialog
         open={bulkEditOpen}
         onOpenChange={setBulkEditOpen}
@@ -1576,8 +1613,8 @@ function HomePageContent() {
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={singleActionLoading}>Отмена</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmSingleAction} disabled={singleActionLoading}>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmSingleAction}>
               {singleActionDialog?.action === 'pause' ? 'Поставить на паузу' : 'Возобновить'}
             </AlertDialogAction>
           </AlertDialogFooter>
@@ -1599,10 +1636,9 @@ function HomePageContent() {
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={actionLoading}>Отмена</AlertDialogCancel>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmCancelOrder}
-              disabled={actionLoading}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
               Отменить заказ
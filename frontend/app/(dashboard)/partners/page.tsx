@@ -1,9 +1,6 @@
 'use client'
 
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
-import { Badge } from '@/components/ui/badge'
+import { useEffect, useRef, useState } from 'react'
 import {
   Select,
   SelectContent,
@@ -11,79 +8,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { MapPin, Plus, Search, Phone, Mail } from 'lucide-react'
-import { useState } from 'react'
-import type { ColumnDef } from '@tanstack/react-table'
-import { DataTable } from '@/components/ui/data-table'
+import { MapPin } from 'lucide-react'
 import { FeatureGate } from '@/components/features/feature-gate'
+import { PartnersDirectory } from '@/components/features/partners'
+import { useAuthStore } from '@/stores/auth-store'
+import { useProjectsStore } from '@/stores/projects-store'
 
-interface Partner {
-  id: string
-  name: string
-  type: string
-  phone: string
-  email: string
-  address: string
-  isActive: boolean
-}
-
-const partnerColumns: ColumnDef<Partner>[] = [
-  {
-    accessorKey: 'name',
-    header: 'Название',
-    cell: ({ row }) => <div className="font-medium">{row.original.name}</div>,
-  },
-  {
-    accessorKey: 'type',
-    header: 'Тип',
-    cell: ({ row }) => <Badge variant="outline">{row.original.type}</Badge>,
-  },
-  {
-    accessorKey: 'phone',
-    header: 'Телефон',
-    cell: ({ row }) => (
-      <div className="flex items-center gap-2">
-        <Phone className="h-4 w-4 text-muted-foreground" />
-        {row.original.phone}
-      </div>
-    ),
-  },
-  {
-    accessorKey: 'email',
-    header: 'Email',
-    cell: ({ row }) => (
-      <div className="flex items-center gap-2">
-        <Mail className="h-4 w-4 text-muted-foreground" />
-        {row.original.email}
-      </div>
-    ),
-  },
-  {
-    accessorKey: 'address',
-    header: 'Адрес',
-    cell: ({ row }) => row.original.address,
-  },
-  {
-    accessorKey: 'status',
-    header: 'Статус',
-    cell: ({ row }) => (
-      <Badge variant={row.original.isActive ? 'default' : 'secondary'}>
-        {row.original.isActive ? 'Активен' : 'Неактивен'}
-      </Badge>
-    ),
-  },
-  {
-    id: 'actions',
-    header: 'Действия',
-    cell: () => (
-      <div className="flex">
-        <Button variant="ghost" size="sm">
-          Редактировать
-        </Button>
-      </div>
-    ),
-  },
-]
+const DEFAULT_PROJECT = 'default'
 
 export default function PartnersPage() {
   return (
@@ -94,129 +25,53 @@ export default function PartnersPage() {
 }
 
 function PartnersContent() {
-  const [loading] = useState(false)
-  const [partners] = useState<Partner[]>([])
+  const [projectFilter, setProjectFilter] = useState(DEFAULT_PROJECT)
+
+  // Project users get distances from their own office; the API ignores projectId for them
+  const { projectId: userProjectId, isHeadquarters } = useAuthStore()
+  const canSelectProject = !userProjectId || isHeadquarters
+  const { projects, fetchProjects } = useProjectsStore()
+  const hasFetched = useRef(false)
+
+  useEffect(() => {
+    if (!canSelectProject || hasFetched.current) return
+    hasFetched.current = true
+    fetchProjects()
+  }, [canSelectProject, fetchProjects])
+
+  const projectId = canSelectProject && projectFilter !== DEFAULT_PROJECT ? projectFilter : undefined
 
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="flex items-center justify-between">
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
         <div>
           <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
             <MapPin className="h-8 w-8 text-primary" />
             Партнеры
           </h1>
           <p className="text-muted-foreground mt-1">
-            Управление партнерами и ресторанами
+            Рестораны и кафе, где сотрудники могут использовать компенсацию
           </p>
         </div>
-        <Button className="gap-2">
-          <Plus className="h-4 w-4" />
-          Добавить партнера
-        </Button>
+        {canSelectProject && projects.length > 1 && (
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_PROJECT}>Головной офис</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
-      {/* Stats Cards */}
-      <div className="grid gap-4 md:grid-cols-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Всего партнеров</CardTitle>
-            <MapPin className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">Активных: 0</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Рестораны</CardTitle>
-            <MapPin className="h-4 w-4 text-green-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-green-600">0</div>
-            <p className="text-xs text-muted-foreground">Доступно</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Кафе</CardTitle>
-            <MapPin className="h-4 w-4 text-blue-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-blue-600">0</div>
-            <p className="text-xs text-muted-foreground">Доступно</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Другие</CardTitle>
-            <MapPin className="h-4 w-4 text-purple-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-purple-600">0</div>
-            <p className="text-xs text-muted-foreground">Доступно</p>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Filters */}
-      <div className="flex flex-wrap gap-4">
-        <div className="flex-1 min-w-[200px]">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-            <Input placeholder="Поиск партнеров..." className="pl-10" />
-          </div>
-        </div>
-
-        <Select>
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Тип" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">Все</SelectItem>
-            <SelectItem value="restaurant">Ресторан</SelectItem>
-            <SelectItem value="cafe">Кафе</SelectItem>
-            <SelectItem value="other">Другое</SelectItem>
-          </SelectContent>
-        </Select>
-
-        <Select>
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Статус" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">Все</SelectItem>
-            <SelectItem value="active">Активные</SelectItem>
-            <SelectItem value="inactive">Неактивные</SelectItem>
-          </SelectContent>
-        </Select>
-      </div>
-
-      {/* Partners Table */}
-      <DataTable
-        columns={partnerColumns}
-        data={partners}
-        isLoading={loading}
-        loadingRows={5}
-        emptyMessage={
-          <div className="p-12 text-center">
-            <MapPin className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-            <h3 className="text-lg font-semibold mb-2">Партнеры не найдены</h3>
-            <p className="text-muted-foreground mb-4">
-              Начните с добавления первого партнера
-            </p>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Добавить партнера
-            </Button>
-          </div>
-        }
-      />
+      <PartnersDirectory projectId={projectId} />
     </div>
   )
 }
-
@@ -22,15 +22,19 @@ import {
   User,
   Users,
   FileText,
+  FolderOpen,
   ArrowUpDown,
   TrendingUp,
   TrendingDown,
   Check,
 } from 'lucide-react'
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { DataTable } from '@/components/ui/data-table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import type { ColumnDef } from '@tanstack/react-table'
 import { FeatureGate } from '@/components/features/feature-gate'
+import { InvoicesTab, PendingInvoicesBadge, type InvoiceStatusFilter } from '@/components/features/payments'
+import { DocumentsLibrary } from '@/components/features/documents'
 import { useFinancialData } from '@/lib/hooks/use-financial-data'
 import {
   type FinancialOperation,
@@ -57,6 +61,8 @@ export default function PaymentsPage() {
 // MAIN CONTENT
 // ═══════════════════════════════════════════════════════════════
 
+type PaymentsTab = 'operations' | 'invoices' | 'documents'
+
 function PaymentsContent() {
   const {
     summary,
@@ -85,6 +91,15 @@ function PaymentsContent() {
     refresh,
   } = useFinancialData()
 
+  const [activeTab, setActiveTab] = useState<PaymentsTab>('operations')
+  const [invoiceStatus, setInvoiceStatus] = useState<InvoiceStatusFilter>('all')
+
+  // Jump from the pending income summary straight to unpaid invoices
+  const openPendingInvoices = () => {
+    setInvoiceStatus('UNPAID')
+    setActiveTab('invoices')
+  }
+
   const currency = summary?.currencyCode || 'TJS'
   const isLoading = summaryLoading || operationsLoading
 
@@ -148,9 +163,13 @@ function PaymentsContent() {
                       <p className="text-sm font-semibold text-emerald-600 dark:text-emerald-400 tabular-nums">
                         +{summary?.pendingIncome?.toLocaleString()} {currency}
                       </p>
-                      <p className="text-xs text-muted-foreground">
+                      <button
+                        type="button"
+                        onClick={openPendingInvoices}
+                        className="text-xs text-muted-foreground underline-offset-2 hover:underline hover:text-foreground"
+                      >
                         {summary?.pendingInvoicesCount} {declension(summary?.pendingInvoicesCount ?? 0, ['счёт', 'счёта', 'счетов'])}
-                      </p>
+                      </button>
                     </div>
                   </div>
                 )}
@@ -199,151 +218,194 @@ function PaymentsContent() {
       </Card>
 
       {/* ═══════════════════════════════════════════════════════════════ */}
-      {/* FILTERS & OPERATIONS TABLE */}
+      {/* OPERATIONS / INVOICES / DOCUMENTS TABS */}
       {/* ═══════════════════════════════════════════════════════════════ */}
-      <div className="space-y-4">
-        {/* Status Quick-Tabs */}
-        <div className="flex flex-wrap gap-2">
-          <Button
-            variant={statusFilter === 'all' ? 'default' : 'outline'}
-            size="sm"
-            onClick={() => setStatusFilter('all')}
-            className="gap-2"
-          >
-            Все
-            {statusCounts.all > 0 && (
-              <Badge variant={statusFilter === 'all' ? 'secondary' : 'outline'} className="h-5 px-1.5 text-xs">
-                {statusCounts.all}
-              </Badge>
-            )}
-          </Button>
-          <Button
-            variant={statusFilter === 'pending_deduction' ? 'default' : 'outline'}
-            size="sm"
-            onClick={() => setStatusFilter('pending_deduction')}
-            className={cn("gap-2", statusFilter !== 'pending_deduction' && "border-amber-500/30 text-amber-600 dark:text-amber-400 hover:bg-amber-500/10")}
-          >
-            <Clock className="h-3.5 w-3.5" />
-            К списанию
-            {statusCounts.pending_deduction > 0 && (
-              <Badge variant={statusFilter === 'pending_deduction' ? 'secondary' : 'outline'} className="h-5 px-1.5 text-xs">
-                {statusCounts.pending_deduction}
-              </Badge>
-            )}
-          </Button>
-          <Button
-            variant={statusFilter === 'pending_income' ? 'default' : 'outline'}
-            size="sm"
-            onClick={() => setStatusFilter('pending_income')}
-            className={cn("gap-2", statusFilter !== 'pending_income' && "border-emerald-500/30 text-emerald-600 dark:text-emerald-400 hover:bg-emerald-500/10")}
-          >
-            <Clock className="h-3.5 w-3.5" />
-            К поступлению
-            {statusCounts.pending_income > 0 && (
-              <Badge variant={statusFilter === 'pending_income' ? 'secondary' : 'outline'} className="h-5 px-1.5 text-xs">
-                {statusCounts.pending_income}
-              </Badge>
-            )}
-          </Button>
-          <Button
-            variant={statusFilter === 'completed' ? 'default' : 'outline'}
-            size="sm"
-            onClick={() => setStatusFilter('completed')}
-            className="gap-2"
-          >
-            <Check className="h-3.5 w-3.5" />
-            Выполненные
-            {statusCounts.completed > 0 && (
-              <Badge variant={statusFilter === 'completed' ? 'secondary' : 'outline'} className="h-5 px-1.5 text-xs">
-                {statusCounts.completed}
-              </Badge>
-            )}
-          </Button>
-        </div>
-
-        {/* Additional Filters Row */}
-        <div className="flex flex-wrap items-center gap-3">
-          {/* Type Filter - expanded */}
-          <Select
-            value={typeFilter}
-            onValueChange={(val) => setTypeFilter(val as TypeFilter)}
-          >
-            <SelectTrigger className="w-[200px]">
-              <SelectValue placeholder="Все типы" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">Все типы операций</SelectItem>
-              <SelectItem value="LUNCH_DEDUCTION">
-                <div className="flex items-center gap-2">
-                  <Users className="h-3 w-3 text-amber-500" />
-                  Обеды сотрудников
-                </div>
-              </SelectItem>
-              <SelectItem value="GUEST_ORDER">
-                <div className="flex items-center gap-2">
-                  <User className="h-3 w-3 text-purple-500" />
-                  Гостевые заказы
-                </div>
-              </SelectItem>
-              <SelectItem value="CLIENT_APP_ORDER">
-                <div className="flex items-center gap-2">
-                  <FileText className="h-3 w-3 text-blue-500" />
-                  Заказы из приложения
-                </div>
-              </SelectItem>
-              <SelectItem value="DEPOSIT">
-                <div className="flex items-center gap-2">
-                  <ArrowDownCircle className="h-3 w-3 text-emerald-500" />
-                  Пополнения
-                </div>
-              </SelectItem>
-              <SelectItem value="REFUND">
-                <div className="flex items-center gap-2">
-                  <ArrowDownCircle className="h-3 w-3 text-blue-500" />
-                  Возвраты
-                </div>
-              </SelectItem>
-            </SelectContent>
-          </Select>
-
-          {/* Reset Filters Button */}
-          {hasActiveFilters && (
+      <Tabs
+        value={activeTab}
+        onValueChange={(value) => setActiveTab(value as PaymentsTab)}
+        className="space-y-4"
+      >
+        <TabsList>
+          <TabsTrigger value="operations" className="gap-2">
+            <Wallet className="h-4 w-4" />
+            Операции
+          </TabsTrigger>
+          <TabsTrigger value="invoices" className="gap-2">
+            <FileText className="h-4 w-4" />
+            Счета
+            <PendingInvoicesBadge count={summary?.pendingInvoicesCount ?? 0} />
+          </TabsTrigger>
+          <TabsTrigger value="documents" className="gap-2">
+            <FolderOpen className="h-4 w-4" />
+            Документы
+          </TabsTrigger>
+        </TabsList>
+
+        {/* ═══════════════════════════════════════════════════════════════ */}
+        {/* FILTERS & OPERATIONS TABLE */}
+        {/* ═══════════════════════════════════════════════════════════════ */}
+        <TabsContent value="operations" className="space-y-4 mt-0">
+          {/* Status Quick-Tabs */}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={statusFilter === 'all' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setStatusFilter('all')}
+              className="gap-2"
+            >
+              Все
+              {statusCounts.all > 0 && (
+                <Badge variant={statusFilter === 'all' ? 'secondary' : 'outline'} className="h-5 px-1.5 text-xs">
+                  {statusCounts.all}
+                </Badge>
+              )}
+            </Button>
+            <Button
+              variant={statusFilter === 'pending_deduction' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setStatusFilter('pending_deduction')}
+              className={cn("gap-2", statusFilter !== 'pending_deduction' && "border-amber-500/30 text-amber-600 dark:text-amber-400 hover:bg-amber-500/10")}
+            >
+              <Clock className="h-3.5 w-3.5" />
+              К списанию
+              {statusCounts.pending_deduction > 0 && (
+                <Badge variant={statusFilter === 'pending_deduction' ? 'secondary' : 'outline'} className="h-5 px-1.5 text-xs">
+                  {statusCounts.pending_deduction}
+                </Badge>
+              )}
+            </Button>
+            <Button
+              variant={statusFilter === 'pending_income' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setStatusFilter('pending_income')}
+              className={cn("gap-2", statusFilter !== 'pending_income' && "border-emerald-500/30 text-emerald-600 dark:text-emerald-400 hover:bg-emerald-500/10")}
+            >
+              <Clock className="h-3.5 w-3.5" />
+              К поступлению
+              {statusCounts.pending_income > 0 && (
+                <Badge variant={statusFilter === 'pending_income' ? 'secondary' : 'outline'} className="h-5 px-1.5 text-xs">
+                  {statusCounts.pending_income}
+                </Badge>
+              )}
+            </Button>
             <Button
-              variant="ghost"
+              variant={statusFilter === 'completed' ? 'default' : 'outline'}
               size="sm"
-              onClick={resetFilters}
-              className="text-muted-foreground hover:text-foreground"
+              onClick={() => setStatusFilter('completed')}
+              className="gap-2"
             >
-              <RefreshCw className="h-3.5 w-3.5 mr-1.5" />
-              Сбросить
+              <Check className="h-3.5 w-3.5" />
+              Выполненные
+              {statusCounts.completed > 0 && (
+                <Badge variant={statusFilter === 'completed' ? 'secondary' : 'outline'} className="h-5 px-1.5 text-xs">
+                  {statusCounts.completed}
+                </Badge>
+              )}
             </Button>
-          )}
+          </div>
+
+          {/* Additional Filters Row */}
+          <div className="flex flex-wrap items-center gap-3">
+            {/* Type Filter - expanded */}
+            <Select
+              value={typeFilter}
+              onValueChange={(val) => setTypeFilter(val as TypeFilter)}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Все типы" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Все типы операций</SelectItem>
+                <SelectItem value="LUNCH_DEDUCTION">
+                  <div className="flex items-center gap-2">
+                    <Users className="h-3 w-3 text-amber-500" />
+                    Обеды сотрудников
+                  </div>
+                </SelectItem>
+                <SelectItem value="GUEST_ORDER">
+                  <div className="flex items-center gap-2">
+                    <User className="h-3 w-3 text-purple-500" />
+                    Гостевые заказы
+                  </div>
+                </SelectItem>
+                <SelectItem value="CLIENT_APP_ORDER">
+                  <div className="flex items-center gap-2">
+                    <FileText className="h-3 w-3 text-blue-500" />
+                    Заказы из приложения
+                  </div>
+                </SelectItem>
+                <SelectItem value="DEPOSIT">
+                  <div className="flex items-center gap-2">
+                    <ArrowDownCircle className="h-3 w-3 text-emerald-500" />
+                    Пополнения
+                  </div>
+                </SelectItem>
+                <SelectItem value="REFUND">
+                  <div className="flex items-center gap-2">
+                    <ArrowDownCircle className="h-3 w-3 text-blue-500" />
+                    Возвраты
+                  </div>
+                </SelectItem>
+              </SelectContent>
+            </Select>
 
-          {/* Count indicator */}
-          <div className="ml-auto text-sm text-muted-foreground">
-            {operationsTotal > 0 && (
-              <span>{operationsTotal} {declension(operationsTotal, ['операция', 'операции', 'операций'])}</span>
+            {/* Reset Filters Button */}
+            {hasActiveFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={resetFilters}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <RefreshCw className="h-3.5 w-3.5 mr-1.5" />
+                Сбросить
+              </Button>
             )}
+
+            {/* Count indicator */}
+            <div className="ml-auto text-sm text-muted-foreground">
+              {operationsTotal > 0 && (
+                <span>{operationsTotal} {declension(operationsTotal, ['операция', 'операции', 'операций'])}</span>
+              )}
+            </div>
           </div>
-        </div>
 
-        {/* Operations Table */}
-        <OperationsTable
-          operations={operations}
-          loading={operationsLoading}
-          currency={currency}
-          page={page}
-          pageSize={pageSize}
-          showAll={showAll}
-          total={operationsTotal}
-          totalPages={operationsTotalPages}
-          sortField={sortField}
-          sortDesc={sortDesc}
-          onPageChange={setPage}
-          onShowAllChange={setShowAll}
-          onToggleSort={toggleSort}
-        />
-      </div>
+          {/* Operations Table */}
+          <OperationsTable
+            operations={operations}
+            loading={operationsLoading}
+            currency={currency}
+            page={page}
+            pageSize={pageSize}
+            showAll={showAll}
+            total={operationsTotal}
+            totalPages={operationsTotalPages}
+            sortField={sortField}
+            sortDesc={sortDesc}
+            onPageChange={setPage}
+            onShowAllChange={setShowAll}
+            onToggleSort={toggleSort}
+          />
+        </TabsContent>
+
+        {/* ═══════════════════════════════════════════════════════════════ */}
+        {/* INVOICES */}
+        {/* ═══════════════════════════════════════════════════════════════ */}
+        <TabsContent value="invoices" className="mt-0">
+          <InvoicesTab
+            key={invoiceStatus}
+            initialStatus={invoiceStatus}
+            onInvoicePaid={() => refresh()}
+          />
+        </TabsContent>
+
+        {/* ═══════════════════════════════════════════════════════════════ */}
+        {/* DOCUMENTS */}
+        {/* ═══════════════════════════════════════════════════════════════ */}
+        <TabsContent value="documents" className="mt-0">
+          <DocumentsLibrary />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
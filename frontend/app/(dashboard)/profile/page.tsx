@@ -4,7 +4,7 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import * as z from 'zod'
+import type * as z from 'zod'
 import { useAuthStore } from '@/stores/auth-store'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -24,25 +24,18 @@ import {
 import { UserCircle, Mail, Phone, Shield, Lock, Building2, Crown, UtensilsCrossed, CreditCard } from 'lucide-react'
 import { toast } from 'sonner'
 import { parseError } from '@/lib/errors'
-
-const passwordSchema = z
-  .object({
-    currentPassword: z.string().min(1, 'Обязательное поле'),
-    newPassword: z.string().min(6, 'Минимум 6 символов'),
-    confirmPassword: z.string().min(6, 'Минимум 6 символов'),
-  })
-  .refine((data) => data.newPassword === data.confirmPassword, {
-    message: 'Пароли не совпадают',
-    path: ['confirmPassword'],
-  })
+import { SessionsCard } from '@/components/features/auth/sessions-card'
+import { TwoFactorCard } from '@/components/features/auth/two-factor-card'
+import { PasswordStrengthMeter } from '@/components/features/auth/password-strength-meter'
+import { changePasswordSchema } from '@/lib/validation/schemas'
 
 export default function ProfilePage() {
   const { user, changePassword, projectName, isHeadquarters, projectServiceTypes } = useAuthStore()
   const [passwordLoading, setPasswordLoading] = useState(false)
   const isInitialLogin = user?.status === 'Не активный'
 
-  const passwordForm = useForm<z.infer<typeof passwordSchema>>({
-    resolver: zodResolver(passwordSchema),
+  const passwordForm = useForm<z.infer<typeof changePasswordSchema>>({
+    resolver: zodResolver(changePasswordSchema),
     defaultValues: {
       currentPassword: '',
       newPassword: '',
@@ -50,7 +43,9 @@ export default function ProfilePage() {
     },
   })
 
-  const handlePasswordSubmit = async (data: z.infer<typeof passwordSchema>) => {
+  const newPassword = passwordForm.watch('newPassword')
+
+  const handlePasswordSubmit = async (data: z.infer<typeof changePasswordSchema>) => {
     setPasswordLoading(true)
     try {
       await changePassword(data.currentPassword, data.newPassword)
@@ -240,82 +235,86 @@ export default function ProfilePage() {
           <CardDescription>Управление паролем и безопасностью</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {isInitialLogin ? (
-            <Form {...passwordForm}>
-              <form onSubmit={passwordForm.handleSubmit(handlePasswordSubmit)} className="space-y-4">
-                <FormField
-                  control={passwordForm.control}
-                  name="currentPassword"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Текущий пароль</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
-                          <PasswordInput
-                            placeholder="Временный пароль"
-                            className="pl-10"
-                            disabled={passwordLoading}
-                            {...field}
-                          />
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+          <Form {...passwordForm}>
+            <form onSubmit={passwordForm.handleSubmit(handlePasswordSubmit)} className="space-y-4">
+              <FormField
+                control={passwordForm.control}
+                name="currentPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Текущий пароль</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
+                        <PasswordInput
+                          placeholder={isInitialLogin ? 'Временный пароль' : 'Текущий пароль'}
+                          autoComplete="current-password"
+                          className="pl-10"
+                          disabled={passwordLoading}
+                          {...field}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-                <FormField
-                  control={passwordForm.control}
-                  name="newPassword"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Новый пароль</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
-                          <PasswordInput
-                            placeholder="Минимум 6 символов"
-                            className="pl-10"
-                            disabled={passwordLoading}
-                            {...field}
-                          />
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+              <FormField
+                control={passwordForm.control}
+                name="newPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Новый пароль</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
+                        <PasswordInput
+                          placeholder="Минимум 8 символов"
+                          autoComplete="new-password"
+                          className="pl-10"
+                          disabled={passwordLoading}
+                          {...field}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                    <PasswordStrengthMeter password={newPassword} />
+                  </FormItem>
+                )}
+              />
 
-                <FormField
-                  control={passwordForm.control}
-                  name="confirmPassword"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Подтвердите пароль</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
-                          <PasswordInput
-                            placeholder="Повторите пароль"
-                            className="pl-10"
-                            disabled={passwordLoading}
-                            {...field}
-                          />
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+              <FormField
+                control={passwordForm.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Подтвердите пароль</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
+                        <PasswordInput
+                          placeholder="Повторите пароль"
+                          autoComplete="new-password"
+                          className="pl-10"
+                          disabled={passwordLoading}
+                          {...field}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-                <Button type="submit" disabled={passwordLoading}>
-                  {passwordLoading ? 'Изменяем...' : 'Изменить пароль'}
-                </Button>
-              </form>
-            </Form>
-          ) : (
-            <div className="space-y-2">
+              <Button type="submit" disabled={passwordLoading}>
+                {passwordLoading ? 'Изменяем...' : 'Изменить пароль'}
+              </Button>
+            </form>
+          </Form>
+
+          {!isInitialLogin && (
+            <div className="space-y-2 pt-4 border-t">
               <p className="text-sm text-muted-foreground">
                 Если вы забыли пароль, вы можете сбросить его и установить новый.
               </p>
@@ -326,6 +325,12 @@ export default function ProfilePage() {
           )}
         </CardContent>
       </Card>
+
+      {/* Two-Factor Authentication Card */}
+      <TwoFactorCard />
+
+      {/* Sessions Card */}
+      <SessionsCard />
     </div>
   )
 }
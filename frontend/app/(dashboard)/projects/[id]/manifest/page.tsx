@@ -0,0 +1,110 @@
+'use client'
+
+import { Suspense, useMemo } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { ArrowLeft, ChevronLeft, ChevronRight, Clock, Lock, Printer, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import { DatePicker } from '@/components/ui/date-picker'
+import { DeliveryManifestSheet, ManifestChanges } from '@/components/features/manifest'
+import { useDeliveryManifest } from '@/lib/hooks/use-delivery-manifest'
+import { useUrlState } from '@/lib/hooks/use-url-state'
+import { cn } from '@/lib/utils'
+import { formatISODate, getNextDay, getPreviousDay, getServerTodayISO, parseLocalDate } from '@/lib/utils/date'
+
+function DeliveryManifestContent() {
+  const router = useRouter()
+  const params = useParams<{ id: string }>()
+  const projectId = params.id
+  const urlDefaults = useMemo(() => ({ date: getServerTodayISO() }), [])
+  const [{ date }, setUrlState] = useUrlState(urlDefaults)
+
+  const { manifest, isLoading, isFetching, error, cutoffTime, isLocked, snapshot, isSnapshotMissing, changes, refetch } =
+    useDeliveryManifest(projectId, date)
+
+  const setDate = (next: Date | undefined) => {
+    if (next) setUrlState({ date: formatISODate(next) })
+  }
+
+  return (
+    <div className="space-y-6 print:space-y-4">
+      {/* Toolbar (not printed) */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between print:hidden">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => router.back()} aria-label="Назад">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Манифест доставки</h1>
+            <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+              {isLocked ? <Lock className="h-3.5 w-3.5" /> : <Clock className="h-3.5 w-3.5" />}
+              {isLocked
+                ? 'Список зафиксирован по времени отсечки'
+                : `Список обновляется до отсечки${cutoffTime ? ` в ${cutoffTime}` : ''}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setDate(getPreviousDay(date))}
+            aria-label="Предыдущий день"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <DatePicker value={parseLocalDate(date)} onChange={setDate} className="w-[180px]" />
+          <Button variant="outline" size="icon" onClick={() => setDate(getNextDay(date))} aria-label="Следующий день">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={refetch} aria-label="Обновить" title="Обновить">
+            <RefreshCw className={cn('h-4 w-4', isFetching && 'animate-spin')} />
+          </Button>
+          <Button onClick={() => window.print()} disabled={!manifest} className="gap-2">
+            <Printer className="h-4 w-4" />
+            Печать / PDF
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="print:hidden">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="space-y-4">
+          <Skeleton className="h-24" />
+          <Skeleton className="h-64" />
+        </div>
+      )}
+
+      {isSnapshotMissing && (
+        <Alert className="print:hidden">
+          <AlertDescription>Манифест за этот день не был зафиксирован — снимка нет</AlertDescription>
+        </Alert>
+      )}
+
+      {isLocked && !snapshot && !isSnapshotMissing && !isLoading && (
+        <Alert className="print:hidden">
+          <AlertDescription>Сервер ещё не зафиксировал манифест за этот день — показан текущий список</AlertDescription>
+        </Alert>
+      )}
+
+      {snapshot && <ManifestChanges changes={changes} snapshot={snapshot} cutoffTime={cutoffTime} />}
+
+      {manifest && <DeliveryManifestSheet manifest={manifest} cutoffTime={cutoffTime} isLocked={snapshot !== null} />}
+    </div>
+  )
+}
+
+export default function DeliveryManifestPage() {
+  return (
+    <Suspense fallback={<div className="p-6 text-center">Загрузка...</div>}>
+      <DeliveryManifestContent />
+    </Suspense>
+  )
+}
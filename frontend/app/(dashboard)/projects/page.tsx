@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useRef, useMemo } from "react"
+import { useEffect, useRef, useMemo, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useProjectsStore } from "@/stores/projects-store"
 import { useAuthStore } from "@/stores/auth-store"
@@ -11,6 +11,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { DataTable } from "@/components/ui/data-table"
 import { SortableHeader, useSort, sortData } from "@/components/ui/sortable-header"
 import { Progress } from "@/components/ui/progress"
+import { Button } from "@/components/ui/button"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import {
   FolderKanban,
@@ -25,10 +26,17 @@ import {
   Users,
   TrendingDown,
   PiggyBank,
+  Settings,
+  FileClock,
+  ClipboardList,
 } from "lucide-react"
 import type { ColumnDef } from "@tanstack/react-table"
 import type { ProjectListItem } from "@/lib/api/projects"
 import { hasValidAddress } from "@/lib/api/projects"
+import { ProjectSettingsDialog } from "@/components/features/projects"
+import { EntityHistoryPanel } from "@/components/features/audit"
+import { Can } from "@/components/common"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
 
 export default function ProjectsPage() {
   const router = useRouter()
@@ -36,6 +44,8 @@ export default function ProjectsPage() {
   const { projects, loading, error, fetchProjects } = useProjectsStore()
   const { sortConfig, toggleSort } = useSort<string>()
   const hasFetched = useRef(false)
+  const [settingsProjectId, setSettingsProjectId] = useState<string | null>(null)
+  const [historyProject, setHistoryProject] = useState<ProjectListItem | null>(null)
 
   // Redirect non-HQ users away from this page
   useEffect(() => {
@@ -352,7 +362,48 @@ export default function ProjectsPage() {
         )
       },
     },
-  ], [sortConfig, toggleSort])
+    {
+      id: 'actions',
+      header: '',
+      size: 120,
+      cell: ({ row }) => (
+        <div className="flex items-center justify-end gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => router.push(`/projects/${row.original.id}/manifest`)}
+            aria-label="Манифест доставки"
+            title="Манифест доставки"
+          >
+            <ClipboardList className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setHistoryProject(row.original)}
+            aria-label="История изменений"
+            title="История изменений"
+          >
+            <FileClock className="h-4 w-4" />
+          </Button>
+          <Can permission="projects:settings">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setSettingsProjectId(row.original.id)}
+              aria-label="Настройки проекта"
+              title="Настройки проекта"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+          </Can>
+        </div>
+      ),
+    },
+  ], [sortConfig, toggleSort, router])
 
   // Don't render anything if not HQ
   if (!isHeadquarters) {
@@ -370,7 +421,7 @@ export default function ProjectsPage() {
           </h1>
           <p className="text-muted-foreground mt-1 flex items-center gap-2">
             <Eye className="h-4 w-4" />
-            Просмотр всех проектов (только чтение)
+            Бюджеты и настройки всех проектов
           </p>
         </div>
       </div>
@@ -512,6 +563,21 @@ export default function ProjectsPage() {
           />
         </CardContent>
       </Card>
+
+      <ProjectSettingsDialog
+        projectId={settingsProjectId}
+        onOpenChange={(open) => !open && setSettingsProjectId(null)}
+      />
+
+      <Sheet open={Boolean(historyProject)} onOpenChange={(open) => !open && setHistoryProject(null)}>
+        <SheetContent className="flex flex-col gap-6 sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>История изменений</SheetTitle>
+            <SheetDescription>{historyProject?.name}</SheetDescription>
+          </SheetHeader>
+          {historyProject && <EntityHistoryPanel entityId={historyProject.id} />}
+        </SheetContent>
+      </Sheet>
     </div>
   )
 }
@@ -7,10 +7,15 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { SortableHeader, useSort, sortData } from '@/components/ui/sortable-header'
-import { Plus, Pencil, Trash2, Users as UsersIcon } from 'lucide-react'
+import { Plus, Pencil, Trash2, ShieldCheck, ShieldOff, Send, MailX, Users as UsersIcon } from 'lucide-react'
 import { CreateUserDialog } from '@/components/features/users/create-user-dialog'
 import { EditUserDialog } from '@/components/features/users/edit-user-dialog'
 import { DeleteUserDialog } from '@/components/features/users/delete-user-dialog'
+import { ResetTwoFactorDialog } from '@/components/features/users/reset-two-factor-dialog'
+import { ResendInvitationDialog } from '@/components/features/users/resend-invitation-dialog'
+import { RevokeInvitationDialog } from '@/components/features/users/revoke-invitation-dialog'
+import { formatInviteDate } from '@/components/features/users/invitation-link'
+import { ADMIN_INVITE_STATUS, getAdminInviteStatusConfig } from '@/lib/constants/entity-statuses'
 import type { User } from '@/lib/api/users'
 import {
   Tooltip,
@@ -22,11 +27,15 @@ import { DataTable } from '@/components/ui/data-table'
 import type { ColumnDef } from '@tanstack/react-table'
 
 export default function UsersPage() {
-  const { users, isLoading: loading, error, total, currentPage, totalPages, showAll, fetchUsers, fetchAvailableRoutes, setShowAll } = useUsersStore()
+  const { users, isLoading: loading, error, total, currentPage, totalPages, showAll, fetchUsers, fetchPermissionGroups, setShowAll } = useUsersStore()
   const { user: currentUser } = useAuthStore()
+  const isSuperAdmin = currentUser?.role === 'SUPER_ADMIN'
   const [createOpen, setCreateOpen] = useState(false)
   const [editOpen, setEditOpen] = useState(false)
   const [deleteOpen, setDeleteOpen] = useState(false)
+  const [resetTwoFactorOpen, setResetTwoFactorOpen] = useState(false)
+  const [resendInviteOpen, setResendInviteOpen] = useState(false)
+  const [revokeInviteOpen, setRevokeInviteOpen] = useState(false)
   const [selectedUser, setSelectedUser] = useState<User | null>(null)
   const { sortConfig, toggleSort } = useSort<string>()
   const hasFetched = useRef(false)
@@ -35,8 +44,8 @@ export default function UsersPage() {
     if (hasFetched.current) return
     hasFetched.current = true
     fetchUsers(1)
-    fetchAvailableRoutes()
-  }, [fetchUsers, fetchAvailableRoutes])
+    fetchPermissionGroups()
+  }, [fetchUsers, fetchPermissionGroups])
 
   const activeAdmins = useMemo(
     () =>
@@ -60,6 +69,21 @@ export default function UsersPage() {
     setDeleteOpen(true)
   }, [])
 
+  const handleResetTwoFactor = useCallback((user: User) => {
+    setSelectedUser(user)
+    setResetTwoFactorOpen(true)
+  }, [])
+
+  const handleResendInvite = useCallback((user: User) => {
+    setSelectedUser(user)
+    setResendInviteOpen(true)
+  }, [])
+
+  const handleRevokeInvite = useCallback((user: User) => {
+    setSelectedUser(user)
+    setRevokeInviteOpen(true)
+  }, [])
+
   const handlePageChange = (page: number) => {
     fetchUsers(page)
   }
@@ -96,7 +120,21 @@ export default function UsersPage() {
           onSort={toggleSort}
         />
       ),
-      cell: ({ row }) => <span className="font-medium">{row.original.fullName}</span>,
+      cell: ({ row }) => (
+        <span className="flex items-center gap-2 font-medium">
+          {row.original.fullName}
+          {row.original.twoFactorEnabled && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <ShieldCheck className="h-4 w-4 text-emerald-600" aria-label="2FA включена" />
+                </TooltipTrigger>
+                <TooltipContent>Двухфакторная аутентификация включена</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+        </span>
+      ),
     },
     {
       accessorKey: 'phone',
@@ -150,6 +188,35 @@ export default function UsersPage() {
         </Badge>
       ),
     },
+    {
+      id: 'invitation',
+      header: 'Приглашение',
+      cell: ({ row }) => {
+        const invitation = row.original.invitation
+        if (!invitation) {
+          return <span className="text-muted-foreground">—</span>
+        }
+
+        const config = getAdminInviteStatusConfig(invitation.status)
+        const details =
+          invitation.status === ADMIN_INVITE_STATUS.PENDING
+            ? `Отправлено на ${invitation.sentTo} · действует до ${formatInviteDate(invitation.expiresAt)}`
+            : `Отправлено на ${invitation.sentTo} ${formatInviteDate(invitation.sentAt)}`
+
+        return (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant={config.variant} className={config.className}>
+                  {config.label}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent>{details}</TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )
+      },
+    },
     {
       id: 'actions',
       header: 'Действия',
@@ -163,6 +230,9 @@ export default function UsersPage() {
         const tooltipMessage = isSelf
           ? 'Вы не можете удалить себя'
           : 'Нельзя удалить последнего Admin'
+        const inviteStatus = user.invitation?.status
+        const canResendInvite = !!inviteStatus && inviteStatus !== ADMIN_INVITE_STATUS.ACCEPTED
+        const canRevokeInvite = inviteStatus === ADMIN_INVITE_STATUS.PENDING
 
         return (
           <div className="flex gap-2">
@@ -173,6 +243,57 @@ export default function UsersPage() {
             >
               <Pencil className="h-4 w-4" />
             </Button>
+            {canResendInvite && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleResendInvite(user)}
+                      aria-label="Отправить приглашение заново"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Отправить приглашение заново</TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {canRevokeInvite && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRevokeInvite(user)}
+                      aria-label="Отозвать приглашение"
+                    >
+                      <MailX className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Отозвать приглашение</TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {isSuperAdmin && user.twoFactorEnabled && !isSelf && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleResetTwoFactor(user)}
+                      aria-label="Сбросить 2FA"
+                    >
+                      <ShieldOff className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Сбросить 2FA</TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
             {deleteDisabled ? (
               <TooltipProvider>
                 <Tooltip>
@@ -205,7 +326,7 @@ export default function UsersPage() {
         )
       },
     },
-  ], [activeAdmins, currentUser?.id, getStatusColor, handleDelete, handleEdit, sortConfig, toggleSort])
+  ], [activeAdmins, currentUser?.id, getStatusColor, handleDelete, handleEdit, handleResendInvite, handleResetTwoFactor, handleRevokeInvite, isSuperAdmin, sortConfig, toggleSort])
 
   return (
     <div className="space-y-6">
@@ -328,6 +449,23 @@ export default function UsersPage() {
             onOpenChange={setDeleteOpen}
             user={selectedUser}
           />
+          <ResendInvitationDialog
+            open={resendInviteOpen}
+            onOpenChange={setResendInviteOpen}
+            user={selectedUser}
+          />
+          <RevokeInvitationDialog
+            open={revokeInviteOpen}
+            onOpenChange={setRevokeInviteOpen}
+            user={selectedUser}
+          />
+          {isSuperAdmin && (
+            <ResetTwoFactorDialog
+              open={resetTwoFactorOpen}
+              onOpenChange={setResetTwoFactorOpen}
+              user={selectedUser}
+            />
+          )}
         </>
       )}
     </div>
@@ -17,6 +17,7 @@ export default function robots(): MetadataRoute.Robots {
           '/login',       // Auth pages
           '/forgot-password',
           '/reset-password',
+          '/set-password',
           '/_next/',      // Next.js internal
           '/private/',    // Private routes (if any)
         ],
@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Permission gate
+ * Renders children only when the current user holds an action-level permission.
+ */
+
+'use client'
+
+import type { ReactNode } from 'react'
+import { useCan } from '@/lib/hooks/use-can'
+
+interface CanProps {
+  /** Permission key, e.g. "employees:edit" */
+  permission: string
+  children: ReactNode
+  /** Rendered instead of children when the permission is missing */
+  fallback?: ReactNode
+}
+
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const allowed = useCan(permission)
+  return <>{allowed ? children : fallback}</>
+}
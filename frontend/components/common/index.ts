@@ -4,3 +4,4 @@
 
 export { DataFetcher, ListFetcher } from './data-fetcher'
 
+export { Can } from './can'
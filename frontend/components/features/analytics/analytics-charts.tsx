@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Analytics charts
+ * Orders/spend over time per project, combo mix and lunch-vs-compensation share.
+ */
+
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import type {
+  AnalyticsComboStat,
+  AnalyticsServiceMix,
+  AnalyticsTimelinePoint,
+} from '@/lib/api/analytics'
+import { parseLocalDate } from '@/lib/utils/date'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const PROJECT_COLORS = ['#6528f5', '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#a78bfa', '#06b6d4', '#84cc16']
+
+const COMBO_COLORS: Record<string, string> = {
+  'Комбо 25': '#3b82f6',
+  'Комбо 35': '#6528f5',
+}
+
+const FALLBACK_COLOR = '#94a3b8'
+
+const CHART_HEIGHT = 280
+
+type TimelineMetric = 'orders' | 'spend'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Pivots per-project points into one row per day: { date, [projectId]: value }
+ */
+function pivotTimeline(points: AnalyticsTimelinePoint[], metric: TimelineMetric) {
+  const projects = new Map<string, string>()
+  const rows = new Map<string, Record<string, number | string>>()
+
+  for (const point of points) {
+    projects.set(point.projectId, point.projectName)
+    const row = rows.get(point.date) ?? { date: point.date }
+    row[point.projectId] = ((row[point.projectId] as number | undefined) ?? 0) + point[metric]
+    rows.set(point.date, row)
+  }
+
+  return {
+    projects: Array.from(projects, ([id, name]) => ({ id, name })),
+    rows: Array.from(rows.values()).sort((a, b) => String(a.date).localeCompare(String(b.date))),
+  }
+}
+
+function formatDay(value: string) {
+  return format(parseLocalDate(value), 'd MMM', { locale: ru })
+}
+
+/**
+ * Skeleton while loading, placeholder when empty, chart otherwise
+ */
+function ChartState({ isLoading, isEmpty, children }: { isLoading: boolean; isEmpty: boolean; children: ReactNode }) {
+  if (isLoading) return <Skeleton className="w-full rounded-lg" style={{ height: CHART_HEIGHT }} />
+  if (isEmpty) {
+    return (
+      <div
+        className="rounded-lg border border-dashed flex items-center justify-center text-sm text-muted-foreground"
+        style={{ height: CHART_HEIGHT }}
+      >
+        Нет данных за выбранный период
+      </div>
+    )
+  }
+  return children
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Charts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface OrdersTimelineChartProps {
+  timeline: AnalyticsTimelinePoint[]
+  currencyCode: string
+  isLoading: boolean
+}
+
+/**
+ * Stacked daily bars, one segment per project
+ */
+export function OrdersTimelineChart({ timeline, currencyCode, isLoading }: OrdersTimelineChartProps) {
+  const [metric, setMetric] = useState<TimelineMetric>('orders')
+  const { projects, rows } = pivotTimeline(timeline, metric)
+  const unit = metric === 'orders' ? 'заказов' : currencyCode
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Динамика по проектам</CardTitle>
+          <CardDescription>
+            {metric === 'orders' ? 'Количество заказов по дням' : 'Расходы по дням'}
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          <Button size="sm" variant={metric === 'orders' ? 'default' : 'outline'} onClick={() => setMetric('orders')}>
+            Заказы
+          </Button>
+          <Button size="sm" variant={metric === 'spend' ? 'default' : 'outline'} onClick={() => setMetric('spend')}>
+            Расходы
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ChartState isLoading={isLoading} isEmpty={rows.length === 0}>
+          <div style={{ height: CHART_HEIGHT }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={rows} margin={{ top: 8, right: 8, left: -8, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} className="stroke-border" />
+                <XAxis dataKey="date" tickFormatter={formatDay} tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+                <YAxis tick={{ fontSize: 12 }} tickLine={false} axisLine={false} allowDecimals={metric === 'spend'} />
+                <Tooltip
+                  labelFormatter={(label) => formatDay(String(label))}
+                  formatter={(value) => `${Number(value).toLocaleString('ru-RU')} ${unit}`}
+                  contentStyle={{ borderRadius: 8, fontSize: 12 }}
+                />
+                {projects.length > 1 && <Legend wrapperStyle={{ fontSize: 12 }} />}
+                {projects.map((project, index) => (
+                  <Bar
+                    key={project.id}
+                    dataKey={project.id}
+                    name={project.name}
+                    stackId="projects"
+                    fill={PROJECT_COLORS[index % PROJECT_COLORS.length]}
+                    radius={index === projects.length - 1 ? [4, 4, 0, 0] : undefined}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </ChartState>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface ShareChartProps {
+  title: string
+  description: string
+  data: { name: string; value: number; fill: string; caption: string }[]
+  isLoading: boolean
+}
+
+/**
+ * Donut with a share legend (used for combo mix and service mix)
+ */
+function ShareChart({ title, description, data, isLoading }: ShareChartProps) {
+  const total = data.reduce((sum, item) => sum + item.value, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartState isLoading={isLoading} isEmpty={total === 0}>
+          <div className="flex flex-col sm:flex-row items-center gap-6" style={{ minHeight: CHART_HEIGHT }}>
+            <div className="h-[200px] w-[200px] shrink-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={data}
+                    dataKey="value"
+                    nameKey="name"
+                    innerRadius={55}
+                    outerRadius={90}
+                    paddingAngle={2}
+                    isAnimationActive={false}
+                  >
+                    {data.map((item) => (
+                      <Cell key={item.name} fill={item.fill} />
+                    ))}
+                  </Pie>
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+            <ul className="w-full space-y-3">
+              {data.map((item) => (
+                <li key={item.name} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: item.fill }} />
+                    <span className="truncate">{item.name}</span>
+                  </span>
+                  <span className="text-right">
+                    <span className="font-semibold tabular-nums">{Math.round((item.value / total) * 100)}%</span>
+                    <span className="block text-xs text-muted-foreground">{item.caption}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </ChartState>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function ComboMixChart({
+  comboMix,
+  currencyCode,
+  isLoading,
+}: {
+  comboMix: AnalyticsComboStat[]
+  currencyCode: string
+  isLoading: boolean
+}) {
+  return (
+    <ShareChart
+      title="Комбо"
+      description="Доля заказов по типу комбо"
+      isLoading={isLoading}
+      data={comboMix.map((combo) => ({
+        name: combo.comboType,
+        value: combo.orders,
+        fill: COMBO_COLORS[combo.comboType] ?? FALLBACK_COLOR,
+        caption: `${combo.orders.toLocaleString('ru-RU')} шт · ${combo.spend.toLocaleString('ru-RU')} ${currencyCode}`,
+      }))}
+    />
+  )
+}
+
+export function ServiceMixChart({
+  serviceMix,
+  currencyCode,
+  isLoading,
+}: {
+  serviceMix?: AnalyticsServiceMix
+  currencyCode: string
+  isLoading: boolean
+}) {
+  const data = serviceMix
+    ? [
+        {
+          name: 'Обеды',
+          value: serviceMix.lunchSpend,
+          fill: '#6528f5',
+          caption: `${serviceMix.lunchSpend.toLocaleString('ru-RU')} ${currencyCode} · ${serviceMix.lunchOrders} заказов`,
+        },
+        {
+          name: 'Компенсации',
+          value: serviceMix.compensationSpend,
+          fill: '#10b981',
+          caption: `${serviceMix.compensationSpend.toLocaleString('ru-RU')} ${currencyCode} · ${serviceMix.compensationTransactions} чеков`,
+        },
+      ]
+    : []
+
+  return (
+    <ShareChart
+      title="Обеды и компенсации"
+      description="Доля расходов компании по типу услуги"
+      isLoading={isLoading}
+      data={data}
+    />
+  )
+}
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Analytics summary cards
+ * Key period metrics with change against the previous period of equal length.
+ */
+
+'use client'
+
+import type { LucideIcon } from 'lucide-react'
+import { ArrowDownRight, ArrowUpRight, DollarSign, ShoppingCart, TrendingUp, Users } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { getChangePercent, type AnalyticsSummary } from '@/lib/api/analytics'
+import { cn } from '@/lib/utils'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Sub-Components
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Colored +/- percent; neutral text when there is no baseline
+ */
+export function ChangeIndicator({ value, suffix }: { value: number | null; suffix?: string }) {
+  if (value === null) {
+    return <span className="text-xs text-muted-foreground">{suffix ? 'нет данных для сравнения' : '—'}</span>
+  }
+
+  const isUp = value > 0
+  const isDown = value < 0
+  const Icon = isDown ? ArrowDownRight : ArrowUpRight
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-0.5 text-xs font-medium',
+        isUp && 'text-emerald-600 dark:text-emerald-400',
+        isDown && 'text-red-600 dark:text-red-400',
+        !isUp && !isDown && 'text-muted-foreground'
+      )}
+    >
+      {(isUp || isDown) && <Icon className="h-3 w-3" />}
+      {isUp && '+'}
+      {value.toLocaleString('ru-RU')}%
+      {suffix && <span className="font-normal text-muted-foreground ml-1">{suffix}</span>}
+    </span>
+  )
+}
+
+function SummaryCard({
+  title,
+  icon: Icon,
+  value,
+  change,
+}: {
+  title: string
+  icon: LucideIcon
+  value: string
+  change: number | null
+}) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold tabular-nums">{value}</div>
+        <ChangeIndicator value={change} suffix="к прошлому периоду" />
+      </CardContent>
+    </Card>
+  )
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Main Component
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface AnalyticsSummaryCardsProps {
+  summary?: AnalyticsSummary
+  previousSummary?: AnalyticsSummary
+  currencyCode: string
+  isLoading: boolean
+}
+
+export function AnalyticsSummaryCards({ summary, previousSummary, currencyCode, isLoading }: AnalyticsSummaryCardsProps) {
+  if (isLoading || !summary || !previousSummary) {
+    return (
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-[108px] rounded-xl" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <SummaryCard
+        title="Активных сотрудников"
+        icon={Users}
+        value={summary.activeEmployees.toLocaleString('ru-RU')}
+        change={getChangePercent(summary.activeEmployees, previousSummary.activeEmployees)}
+      />
+      <SummaryCard
+        title="Всего заказов"
+        icon={ShoppingCart}
+        value={summary.totalOrders.toLocaleString('ru-RU')}
+        change={getChangePercent(summary.totalOrders, previousSummary.totalOrders)}
+      />
+      <SummaryCard
+        title="Расходы на питание"
+        icon={DollarSign}
+        value={`${summary.totalSpend.toLocaleString('ru-RU')} ${currencyCode}`}
+        change={getChangePercent(summary.totalSpend, previousSummary.totalSpend)}
+      />
+      <SummaryCard
+        title="Средний чек"
+        icon={TrendingUp}
+        value={`${summary.averageCheck.toLocaleString('ru-RU')} ${currencyCode}`}
+        change={getChangePercent(summary.averageCheck, previousSummary.averageCheck)}
+      />
+    </div>
+  )
+}
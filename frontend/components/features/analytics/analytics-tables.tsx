@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Analytics tables
+ * Top employees by consumption and week-over-week trend.
+ */
+
+'use client'
+
+import { useMemo } from 'react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { addDays, format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { DataTable } from '@/components/ui/data-table'
+import type { AnalyticsEmployeeStat, AnalyticsWeekPoint } from '@/lib/api/analytics'
+import { parseLocalDate } from '@/lib/utils/date'
+import { ChangeIndicator } from './analytics-summary-cards'
+
+const emptyMessage = (
+  <div className="py-8 text-center text-muted-foreground">Нет данных за выбранный период</div>
+)
+
+interface TopEmployeesTableProps {
+  employees: AnalyticsEmployeeStat[]
+  currencyCode: string
+  isLoading: boolean
+}
+
+export function TopEmployeesTable({ employees, currencyCode, isLoading }: TopEmployeesTableProps) {
+  const columns = useMemo<ColumnDef<AnalyticsEmployeeStat>[]>(() => [
+    {
+      accessorKey: 'fullName',
+      header: 'Сотрудник',
+      cell: ({ row }) => (
+        <div className="min-w-0">
+          <div className="font-medium truncate">{row.original.fullName}</div>
+          {row.original.projectName && (
+            <div className="text-xs text-muted-foreground truncate">{row.original.projectName}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      accessorKey: 'orders',
+      header: () => <div className="text-right">Заказы</div>,
+      size: 90,
+      cell: ({ row }) => <div className="text-right tabular-nums">{row.original.orders}</div>,
+    },
+    {
+      accessorKey: 'spend',
+      header: () => <div className="text-right">Сумма, {currencyCode}</div>,
+      size: 130,
+      cell: ({ row }) => (
+        <div className="text-right font-semibold tabular-nums">{row.original.spend.toLocaleString('ru-RU')}</div>
+      ),
+    },
+  ], [currencyCode])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Топ сотрудники</CardTitle>
+        <CardDescription>По сумме потребления за период</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <DataTable
+          columns={columns}
+          data={employees}
+          isLoading={isLoading}
+          loadingRows={5}
+          emptyMessage={emptyMessage}
+        />
+      </CardContent>
+    </Card>
+  )
+}
+
+interface WeeklyTrendTableProps {
+  weeks: AnalyticsWeekPoint[]
+  currencyCode: string
+  isLoading: boolean
+}
+
+export function WeeklyTrendTable({ weeks, currencyCode, isLoading }: WeeklyTrendTableProps) {
+  const columns = useMemo<ColumnDef<AnalyticsWeekPoint>[]>(() => [
+    {
+      accessorKey: 'weekStart',
+      header: 'Неделя',
+      cell: ({ row }) => {
+        const start = parseLocalDate(row.original.weekStart)
+        return (
+          <span className="text-sm font-medium">
+            {format(start, 'd MMM', { locale: ru })} – {format(addDays(start, 6), 'd MMM', { locale: ru })}
+          </span>
+        )
+      },
+    },
+    {
+      accessorKey: 'orders',
+      header: () => <div className="text-right">Заказы</div>,
+      size: 120,
+      cell: ({ row }) => (
+        <div className="text-right">
+          <div className="tabular-nums">{row.original.orders}</div>
+          <ChangeIndicator value={row.original.ordersChangePercent} />
+        </div>
+      ),
+    },
+    {
+      accessorKey: 'spend',
+      header: () => <div className="text-right">Сумма, {currencyCode}</div>,
+      size: 140,
+      cell: ({ row }) => (
+        <div className="text-right">
+          <div className="font-semibold tabular-nums">{row.original.spend.toLocaleString('ru-RU')}</div>
+          <ChangeIndicator value={row.original.spendChangePercent} />
+        </div>
+      ),
+    },
+  ], [currencyCode])
+
+  // Latest week first
+  const data = useMemo(() => [...weeks].reverse(), [weeks])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Неделя к неделе</CardTitle>
+        <CardDescription>Изменение заказов и расходов к предыдущей неделе</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <DataTable
+          columns={columns}
+          data={data}
+          isLoading={isLoading}
+          loadingRows={4}
+          emptyMessage={emptyMessage}
+        />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Analytics components exports
+ */
+
+export { AnalyticsSummaryCards, ChangeIndicator } from './analytics-summary-cards'
+export { OrdersTimelineChart, ComboMixChart, ServiceMixChart } from './analytics-charts'
+export { TopEmployeesTable, WeeklyTrendTable } from './analytics-tables'
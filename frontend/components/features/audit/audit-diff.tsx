@@ -0,0 +1,56 @@
+'use client'
+
+import { ArrowRight } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  diffAuditValues,
+  formatAuditValue,
+  getAuditFieldLabel,
+  type AuditLogEntry,
+} from '@/lib/api/audit'
+
+interface AuditDiffProps {
+  entry: Pick<AuditLogEntry, 'oldValues' | 'newValues'>
+  className?: string
+}
+
+/**
+ * Field-level diff of one audit entry: old value → new value per field
+ */
+export function AuditDiff({ entry, className }: AuditDiffProps) {
+  const changes = diffAuditValues(entry.oldValues, entry.newValues)
+
+  if (changes.length === 0) {
+    return <p className={cn('text-xs text-muted-foreground', className)}>Без изменений полей</p>
+  }
+
+  return (
+    <dl className={cn('divide-y rounded-lg border text-sm', className)}>
+      {changes.map((change) => (
+        <div key={change.field} className="grid grid-cols-[minmax(0,2fr)_minmax(0,5fr)] gap-3 px-3 py-2">
+          <dt className="text-muted-foreground truncate" title={change.field}>
+            {getAuditFieldLabel(change.field)}
+          </dt>
+          <dd className="flex flex-wrap items-center gap-1.5 min-w-0 break-words">
+            {change.kind !== 'added' && (
+              <span
+                className={cn(
+                  'rounded px-1.5 py-0.5 bg-red-500/10 text-red-700 dark:text-red-400',
+                  change.kind === 'changed' && 'line-through decoration-red-400/60'
+                )}
+              >
+                {formatAuditValue(change.oldValue)}
+              </span>
+            )}
+            {change.kind === 'changed' && <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />}
+            {change.kind !== 'removed' && (
+              <span className="rounded px-1.5 py-0.5 bg-emerald-500/10 text-emerald-700 dark:text-emerald-400">
+                {formatAuditValue(change.newValue)}
+              </span>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
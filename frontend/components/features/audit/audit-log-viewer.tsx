@@ -0,0 +1,295 @@
+/**
+ * @fileoverview Audit log viewer
+ * Company audit trail filtered by author, entity type and period,
+ * with a field-level diff of each entry in a side panel.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { addDays, format, parseISO, startOfDay } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { History } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { DatePicker } from '@/components/ui/date-picker'
+import { DataTable } from '@/components/ui/data-table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { useAuditFilterOptions, useAuditLogs } from '@/lib/query/hooks'
+import {
+  diffAuditValues,
+  getAuditActionLabel,
+  getAuditEntityLabel,
+  type AuditLogEntry,
+} from '@/lib/api/audit'
+import { parseError } from '@/lib/errors'
+import { AuditDiff } from './audit-diff'
+
+const PAGE_SIZE = 20
+const ALL = 'all'
+
+function formatDateTime(value: string) {
+  return format(parseISO(value), 'dd.MM.yyyy HH:mm', { locale: ru })
+}
+
+const columns: ColumnDef<AuditLogEntry>[] = [
+  {
+    accessorKey: 'createdAt',
+    header: 'Дата',
+    size: 140,
+    cell: ({ row }) => (
+      <span className="text-sm tabular-nums whitespace-nowrap">{formatDateTime(row.original.createdAt)}</span>
+    ),
+  },
+  {
+    accessorKey: 'userName',
+    header: 'Пользователь',
+    cell: ({ row }) => (
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className={row.original.userName ? 'font-medium' : 'text-muted-foreground'}>
+          {row.original.userName ?? 'Система'}
+        </span>
+        {row.original.impersonatedBy && (
+          <Badge variant="outline" className="border-orange-300 text-orange-700 text-[10px] px-1.5 py-0 h-5">
+            от имени · {row.original.impersonatorName ?? 'SUPER_ADMIN'}
+          </Badge>
+        )}
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'action',
+    header: 'Действие',
+    cell: ({ row }) => getAuditActionLabel(row.original.action),
+  },
+  {
+    accessorKey: 'entityType',
+    header: 'Объект',
+    cell: ({ row }) => (
+      <div className="flex items-center gap-2 min-w-0">
+        <Badge variant="outline" className="shrink-0">{getAuditEntityLabel(row.original.entityType)}</Badge>
+        {row.original.entityName && <span className="truncate text-sm">{row.original.entityName}</span>}
+      </div>
+    ),
+  },
+  {
+    id: 'changes',
+    header: () => <div className="text-right">Полей</div>,
+    size: 80,
+    cell: ({ row }) => (
+      <div className="text-right tabular-nums text-muted-foreground">
+        {diffAuditValues(row.original.oldValues, row.original.newValues).length}
+      </div>
+    ),
+  },
+]
+
+export function AuditLogViewer() {
+  const [userId, setUserId] = useState(ALL)
+  const [entityType, setEntityType] = useState(ALL)
+  const [fromDate, setFromDate] = useState<Date | undefined>()
+  const [toDate, setToDate] = useState<Date | undefined>()
+  const [page, setPage] = useState(1)
+  const [selected, setSelected] = useState<AuditLogEntry | null>(null)
+
+  const { data: filterOptions } = useAuditFilterOptions()
+  const { data, isLoading, isFetching, error } = useAuditLogs({
+    page,
+    pageSize: PAGE_SIZE,
+    userId: userId === ALL ? undefined : userId,
+    entityType: entityType === ALL ? undefined : entityType,
+    // Local day boundaries; "to" is exclusive, so the selected end day is included
+    from: fromDate ? startOfDay(fromDate).toISOString() : undefined,
+    to: toDate ? startOfDay(addDays(toDate, 1)).toISOString() : undefined,
+  })
+
+  const entries = data?.items ?? []
+  const total = data?.total ?? 0
+  const totalPages = data?.totalPages ?? 1
+  const hasActiveFilters = userId !== ALL || entityType !== ALL || Boolean(fromDate) || Boolean(toDate)
+
+  // Any filter change starts from the first page
+  const withFirstPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const resetFilters = () => {
+    setUserId(ALL)
+    setEntityType(ALL)
+    setFromDate(undefined)
+    setToDate(undefined)
+    setPage(1)
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={userId} onValueChange={withFirstPage(setUserId)}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Все пользователи</SelectItem>
+            {filterOptions?.users.map((user) => (
+              <SelectItem key={user.id} value={user.id}>
+                {user.fullName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={entityType} onValueChange={withFirstPage(setEntityType)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Все объекты</SelectItem>
+            {filterOptions?.entityTypes.map((type) => (
+              <SelectItem key={type} value={type}>
+                {getAuditEntityLabel(type)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DatePicker
+          value={fromDate}
+          onChange={withFirstPage(setFromDate)}
+          placeholder="С даты"
+          className="w-[150px]"
+        />
+        <DatePicker
+          value={toDate}
+          onChange={withFirstPage(setToDate)}
+          placeholder="По дату"
+          className="w-[150px]"
+        />
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={resetFilters}>
+            Сбросить
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{parseError(error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={entries}
+        isLoading={isLoading}
+        loadingRows={8}
+        onRowClick={setSelected}
+        emptyMessage={
+          <div className="py-12 text-center">
+            <History className="h-10 w-10 mx-auto text-muted-foreground/30 mb-3" />
+            <p className="text-muted-foreground">
+              {hasActiveFilters ? 'Нет записей по выбранным фильтрам' : 'Журнал пока пуст'}
+            </p>
+          </div>
+        }
+      />
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between rounded-lg border bg-card px-6 py-4">
+          <div className="text-sm text-muted-foreground">
+            {`Показано ${(page - 1) * PAGE_SIZE + 1} - ${Math.min(page * PAGE_SIZE, total)} из ${total}`}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page === 1 || isFetching}
+            >
+              Назад
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page === totalPages || isFetching}
+            >
+              Вперед
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AuditEntrySheet entry={selected} onOpenChange={(open) => !open && setSelected(null)} />
+    </div>
+  )
+}
+
+interface AuditEntrySheetProps {
+  entry: AuditLogEntry | null
+  onOpenChange: (open: boolean) => void
+}
+
+function AuditEntrySheet({ entry, onOpenChange }: AuditEntrySheetProps) {
+  return (
+    <Sheet open={Boolean(entry)} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-6 sm:max-w-lg overflow-y-auto">
+        {entry && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{getAuditActionLabel(entry.action)}</SheetTitle>
+              <SheetDescription>
+                {[getAuditEntityLabel(entry.entityType), entry.entityName].filter(Boolean).join(' · ')}
+              </SheetDescription>
+            </SheetHeader>
+
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Когда</dt>
+              <dd className="tabular-nums">{formatDateTime(entry.createdAt)}</dd>
+              <dt className="text-muted-foreground">Кто</dt>
+              <dd>{entry.userName ?? 'Система'}</dd>
+              {entry.impersonatedBy && (
+                <>
+                  <dt className="text-muted-foreground">Фактически</dt>
+                  <dd>{entry.impersonatorName ?? 'SUPER_ADMIN'} (вход от имени пользователя)</dd>
+                </>
+              )}
+              {entry.ipAddress && (
+                <>
+                  <dt className="text-muted-foreground">IP</dt>
+                  <dd className="tabular-nums">{entry.ipAddress}</dd>
+                </>
+              )}
+              {entry.userAgent && (
+                <>
+                  <dt className="text-muted-foreground">Браузер</dt>
+                  <dd className="text-xs text-muted-foreground break-words">{entry.userAgent}</dd>
+                </>
+              )}
+            </dl>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Изменения</h4>
+              <AuditDiff entry={entry} />
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
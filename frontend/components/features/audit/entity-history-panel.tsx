@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { History, User } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useAuditLogs } from '@/lib/query/hooks'
+import { getAuditActionLabel, getAuditEntityLabel } from '@/lib/api/audit'
+import { parseError } from '@/lib/errors'
+import { AuditDiff } from './audit-diff'
+
+const PAGE_SIZE = 10
+const MAX_PAGE_SIZE = 100
+
+interface EntityHistoryPanelProps {
+  /** Employee or project id; budget changes are keyed by the employee id too */
+  entityId: string
+}
+
+/**
+ * "История изменений" of one employee or project, newest first
+ */
+export function EntityHistoryPanel({ entityId }: EntityHistoryPanelProps) {
+  const [pageSize, setPageSize] = useState(PAGE_SIZE)
+  const { data, isLoading, isFetching, error } = useAuditLogs({ entityId, pageSize })
+
+  const entries = data?.items ?? []
+  const total = data?.total ?? 0
+  const canLoadMore = entries.length < total && pageSize < MAX_PAGE_SIZE
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{parseError(error).message}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-16 w-full" />
+      </div>
+    )
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+        <History className="h-8 w-8 mx-auto mb-2 opacity-30" />
+        Изменений пока не было
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <ol className="relative space-y-4 border-l pl-5">
+        {entries.map((entry) => (
+          <li key={entry.id} className="relative">
+            <span className="absolute -left-[25px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background bg-primary" />
+            <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+              <span className="font-medium">{getAuditActionLabel(entry.action)}</span>
+              <Badge variant="outline" className="text-[10px]">
+                {getAuditEntityLabel(entry.entityType)}
+              </Badge>
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {format(parseISO(entry.createdAt), 'd MMM yyyy, HH:mm', { locale: ru })}
+              </span>
+            </div>
+            <p className="flex items-center gap-1 text-xs text-muted-foreground mt-0.5 mb-2">
+              <User className="h-3 w-3" />
+              {entry.userName ?? 'Система'}
+            </p>
+            <AuditDiff entry={entry} />
+          </li>
+        ))}
+      </ol>
+
+      {canLoadMore && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => setPageSize((value) => Math.min(value + PAGE_SIZE, MAX_PAGE_SIZE))}
+          disabled={isFetching}
+        >
+          Показать ещё ({total - entries.length})
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Impersonation history
+ * Who acted as whom, why, for how long and how many changes were made.
+ * SUPER_ADMIN only.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { differenceInMinutes, format, parseISO } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { UserCog } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { DataTable } from '@/components/ui/data-table'
+import { useImpersonationHistory } from '@/lib/query/hooks'
+import type { ImpersonationSession, ImpersonationStatus } from '@/lib/api/auth'
+import { parseError } from '@/lib/errors'
+
+const PAGE_SIZE = 20
+
+const STATUS_BADGES: Record<ImpersonationStatus, { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  ACTIVE: { label: 'Идёт', variant: 'default' },
+  ENDED: { label: 'Завершена', variant: 'secondary' },
+  EXPIRED: { label: 'Истекла', variant: 'outline' },
+}
+
+function formatDateTime(value: string) {
+  return format(parseISO(value), 'dd.MM.yyyy HH:mm', { locale: ru })
+}
+
+/** Duration until "return to my account", or the full allowed time if the session ran out */
+function formatDuration(session: ImpersonationSession) {
+  if (session.status === 'ACTIVE') return '—'
+  const end = session.endedAt ?? session.expiresAt
+  return `${differenceInMinutes(parseISO(end), parseISO(session.startedAt))} мин`
+}
+
+const columns: ColumnDef<ImpersonationSession>[] = [
+  {
+    accessorKey: 'startedAt',
+    header: 'Начало',
+    size: 140,
+    cell: ({ row }) => (
+      <span className="text-sm tabular-nums whitespace-nowrap">{formatDateTime(row.original.startedAt)}</span>
+    ),
+  },
+  {
+    accessorKey: 'impersonatorName',
+    header: 'Кто',
+    cell: ({ row }) => <span className="font-medium">{row.original.impersonatorName}</span>,
+  },
+  {
+    accessorKey: 'targetUserName',
+    header: 'От чьего имени',
+    cell: ({ row }) => (
+      <div className="min-w-0">
+        <div className="truncate">{row.original.targetUserName}</div>
+        {row.original.targetCompanyName && (
+          <div className="text-xs text-muted-foreground truncate">{row.original.targetCompanyName}</div>
+        )}
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'reason',
+    header: 'Причина',
+    cell: ({ row }) => (
+      <span className="text-sm line-clamp-2" title={row.original.reason}>
+        {row.original.reason}
+      </span>
+    ),
+  },
+  {
+    id: 'duration',
+    header: 'Длительность',
+    size: 110,
+    cell: ({ row }) => <span className="tabular-nums whitespace-nowrap">{formatDuration(row.original)}</span>,
+  },
+  {
+    accessorKey: 'actionsCount',
+    header: () => <div className="text-right">Действий</div>,
+    size: 90,
+    cell: ({ row }) => <div className="text-right tabular-nums">{row.original.actionsCount}</div>,
+  },
+  {
+    accessorKey: 'status',
+    header: 'Статус',
+    size: 110,
+    cell: ({ row }) => {
+      const badge = STATUS_BADGES[row.original.status]
+      return <Badge variant={badge.variant}>{badge.label}</Badge>
+    },
+  },
+]
+
+export function ImpersonationHistory() {
+  const [page, setPage] = useState(1)
+  const { data, isLoading, isFetching, error } = useImpersonationHistory({ page, pageSize: PAGE_SIZE })
+
+  const sessions = data?.items ?? []
+  const total = data?.total ?? 0
+  const totalPages = data?.totalPages ?? 1
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{parseError(error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={sessions}
+        isLoading={isLoading}
+        loadingRows={8}
+        emptyMessage={
+          <div className="py-12 text-center">
+            <UserCog className="h-10 w-10 mx-auto text-muted-foreground/30 mb-3" />
+            <p className="text-muted-foreground">Входов от имени других пользователей пока не было</p>
+          </div>
+        }
+      />
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between rounded-lg border bg-card px-6 py-4">
+          <div className="text-sm text-muted-foreground">
+            {`Показано ${(page - 1) * PAGE_SIZE + 1} - ${Math.min(page * PAGE_SIZE, total)} из ${total}`}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page === 1 || isFetching}
+            >
+              Назад
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page === totalPages || isFetching}
+            >
+              Вперед
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
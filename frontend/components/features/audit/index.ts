@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Audit trail components exports
+ */
+
+export { AuditLogViewer } from './audit-log-viewer'
+export { AuditDiff } from './audit-diff'
+export { EntityHistoryPanel } from './entity-history-panel'
+export { ImpersonationHistory } from './impersonation-history'
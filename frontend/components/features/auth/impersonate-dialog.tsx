@@ -3,19 +3,23 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useAuthStore } from '@/stores/auth-store'
 import { logger } from '@/lib/logger'
+import { parseError } from '@/lib/errors'
+import { MIN_IMPERSONATION_REASON_LENGTH, type AdminListItem } from '@/lib/api/auth'
 import {
   Dialog,
   DialogBody,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Badge } from '@/components/ui/badge'
-import { Search, User, Building2, LogIn, Loader2 } from 'lucide-react'
+import { Search, User, Building2, LogIn, Loader2, ArrowLeft } from 'lucide-react'
 import { toast } from 'sonner'
 
 interface ImpersonateDialogProps {
@@ -27,6 +31,11 @@ export function ImpersonateDialog({ open, onOpenChange }: ImpersonateDialogProps
   const { user, allAdmins, adminsLoading, fetchAllAdmins, impersonate } = useAuthStore()
   const [search, setSearch] = useState('')
   const [impersonating, setImpersonating] = useState<string | null>(null)
+  // Second step: why the SUPER_ADMIN needs to act as the selected admin
+  const [target, setTarget] = useState<AdminListItem | null>(null)
+  const [reason, setReason] = useState('')
+
+  const reasonTooShort = reason.trim().length < MIN_IMPERSONATION_REASON_LENGTH
 
   // Fetch admins when dialog opens
   useEffect(() => {
@@ -63,21 +72,89 @@ export function ImpersonateDialog({ open, onOpenChange }: ImpersonateDialogProps
     return Object.entries(groups).sort(([a], [b]) => a.localeCompare(b))
   }, [filteredAdmins, user?.id])
 
-  const handleImpersonate = async (adminId: string, adminName: string) => {
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setTarget(null)
+      setReason('')
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const handleImpersonate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!target || reasonTooShort) return
+
     try {
-      setImpersonating(adminId)
-      await impersonate(adminId)
-      toast.success(`Вы вошли как ${adminName}`)
-      onOpenChange(false)
+      setImpersonating(target.id)
+      await impersonate(target.id, reason.trim())
+      toast.success(`Вы вошли как ${target.fullName}`)
+      handleOpenChange(false)
     } catch (error) {
       logger.error('Impersonation failed in dialog', error instanceof Error ? error : new Error(String(error)))
-      toast.error('Не удалось войти под другим пользователем')
+      toast.error('Не удалось войти под другим пользователем', {
+        description: parseError(error).message,
+      })
       setImpersonating(null)
     }
   }
 
+  if (target) {
+    return (
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleImpersonate}>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <User className="h-5 w-5 text-primary" />
+                Вход как {target.fullName}
+              </DialogTitle>
+              <DialogDescription>
+                {target.companyName}. Причина попадёт в журнал, а действия в этом режиме будут
+                помечены вашим именем. Сеанс завершится автоматически.
+              </DialogDescription>
+            </DialogHeader>
+
+            <DialogBody>
+              <div className="space-y-2">
+                <Label htmlFor="impersonation-reason">Причина</Label>
+                <Input
+                  id="impersonation-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Например: обращение в поддержку, не отображаются заказы"
+                  maxLength={500}
+                  autoFocus
+                />
+                <p className="text-xs text-muted-foreground">
+                  Не короче {MIN_IMPERSONATION_REASON_LENGTH} символов
+                </p>
+              </div>
+            </DialogBody>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setTarget(null)}
+                disabled={impersonating !== null}
+                className="gap-1.5"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Назад
+              </Button>
+              <Button type="submit" disabled={reasonTooShort || impersonating !== null} className="gap-1.5">
+                {impersonating ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogIn className="h-4 w-4" />}
+                Войти
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    )
+  }
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-md max-h-[85vh]">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -156,18 +233,12 @@ export function ImpersonateDialog({ open, onOpenChange }: ImpersonateDialogProps
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={() => handleImpersonate(admin.id, admin.fullName)}
+                              onClick={() => setTarget(admin)}
                               disabled={impersonating !== null}
                               className="shrink-0 h-8 px-3 gap-1.5"
                             >
-                              {impersonating === admin.id ? (
-                                <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                              ) : (
-                                <>
-                                  <LogIn className="h-3.5 w-3.5" />
-                                  <span>Войти</span>
-                                </>
-                              )}
+                              <LogIn className="h-3.5 w-3.5" />
+                              <span>Войти</span>
                             </Button>
                           </div>
                         ))}
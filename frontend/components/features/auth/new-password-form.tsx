@@ -0,0 +1,162 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Lock, ArrowLeft, AlertCircle, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { PasswordInput } from '@/components/ui/password-input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { parseError, isRetryableError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { PasswordStrengthMeter } from './password-strength-meter'
+
+interface NewPasswordFormProps {
+  /** Sends the new password with the page's one-time token; throws on failure */
+  onSubmit: (password: string) => Promise<void>
+  submitLabel: string
+  /** Logged as `${logName}Attempt` */
+  logName: string
+  /** Replaces the link back to /login, e.g. when the form is a step of the login itself */
+  onBack?: () => void
+}
+
+/**
+ * Password + confirmation form with the strength meter: password reset,
+ * invitation acceptance and the expired-password login step
+ */
+export function NewPasswordForm({
+  onSubmit,
+  submitLabel,
+  logName,
+  onBack,
+}: NewPasswordFormProps) {
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [errorAction, setErrorAction] = useState('')
+  const [canRetry, setCanRetry] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setErrorAction('')
+    setCanRetry(false)
+
+    if (password !== confirmPassword) {
+      setError('Пароли не совпадают')
+      setErrorAction('Убедитесь, что оба пароля идентичны')
+      return
+    }
+
+    logger.action(`${logName}Attempt`)
+    setLoading(true)
+
+    try {
+      await onSubmit(password)
+    } catch (err: unknown) {
+      const appError = parseError(err)
+
+      logger.error(`${logName} failed`, err instanceof Error ? err : new Error(appError.message), {
+        errorCode: appError.code,
+      })
+
+      setError(appError.message)
+      setErrorAction(appError.action ?? '')
+      setCanRetry(isRetryableError(appError))
+      toast.error(appError.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRetry = () => {
+    setCanRetry(false)
+    handleSubmit(new Event('submit') as unknown as React.FormEvent)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive" className="animate-in fade-in-50">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="ml-2">
+            <div className="font-medium">{error}</div>
+            {errorAction && (
+              <div className="text-sm opacity-90 mt-1">{errorAction}</div>
+            )}
+            {canRetry && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="mt-2"
+                onClick={handleRetry}
+              >
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Повторить
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="password">Новый пароль</Label>
+        <div className="relative">
+          <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
+          <PasswordInput
+            id="password"
+            placeholder="Минимум 8 символов"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="pl-10"
+            minLength={8}
+            autoComplete="new-password"
+            required
+            disabled={loading}
+          />
+        </div>
+        <PasswordStrengthMeter password={password} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Подтвердите пароль</Label>
+        <div className="relative">
+          <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
+          <PasswordInput
+            id="confirmPassword"
+            placeholder="Повторите пароль"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="pl-10"
+            minLength={8}
+            autoComplete="new-password"
+            required
+            disabled={loading}
+          />
+        </div>
+      </div>
+
+      <Button type="submit" className="w-full h-11 text-base font-semibold" disabled={loading}>
+        {loading ? 'Сохраняем...' : submitLabel}
+      </Button>
+
+      {onBack ? (
+        <Button type="button" variant="ghost" className="w-full" onClick={onBack} disabled={loading}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Вернуться к входу
+        </Button>
+      ) : (
+        <Button type="button" variant="ghost" asChild className="w-full">
+          <Link href="/login">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Вернуться к входу
+          </Link>
+        </Button>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { Check, Loader2, ShieldAlert, ShieldCheck, X } from 'lucide-react'
+import { usePasswordCheck } from '@/lib/hooks'
+import { cn } from '@/lib/utils'
+
+const STRENGTH_LEVELS = [
+  { min: 0, className: 'bg-destructive', textClassName: 'text-destructive' },
+  { min: 30, className: 'bg-orange-500', textClassName: 'text-orange-600' },
+  { min: 50, className: 'bg-yellow-500', textClassName: 'text-yellow-600' },
+  { min: 70, className: 'bg-emerald-500', textClassName: 'text-emerald-600' },
+]
+
+function getLevel(strength: number) {
+  return STRENGTH_LEVELS.reduce((found, level, index) => (strength >= level.min ? index : found), 0)
+}
+
+interface PasswordStrengthMeterProps {
+  password: string
+  className?: string
+}
+
+/**
+ * Live feedback under a new-password field: strength bar, every policy rule
+ * and the breached-password check, all evaluated by /auth/validate-password
+ */
+export function PasswordStrengthMeter({ password, className }: PasswordStrengthMeterProps) {
+  const { check, isChecking } = usePasswordCheck(password)
+
+  if (!password) {
+    return null
+  }
+
+  const level = check ? getLevel(check.strength) : -1
+
+  return (
+    <div className={cn('space-y-2', className)} aria-live="polite">
+      <div className="flex items-center gap-3">
+        <div className="flex flex-1 gap-1">
+          {STRENGTH_LEVELS.map((item, index) => (
+            <div
+              key={item.min}
+              className={cn(
+                'h-1.5 flex-1 rounded-full bg-muted transition-colors',
+                index <= level && STRENGTH_LEVELS[level].className
+              )}
+            />
+          ))}
+        </div>
+        <span
+          className={cn(
+            'text-xs font-medium min-w-16 text-right',
+            check ? STRENGTH_LEVELS[level].textClassName : 'text-muted-foreground'
+          )}
+        >
+          {isChecking ? <Loader2 className="h-3 w-3 animate-spin ml-auto" /> : check?.strengthLabel}
+        </span>
+      </div>
+
+      {check && (
+        <ul className="grid gap-x-4 gap-y-1 text-xs sm:grid-cols-2">
+          {check.rules.map((rule) => (
+            <li
+              key={rule.code}
+              className={cn(
+                'flex items-center gap-1.5',
+                rule.passed ? 'text-emerald-600' : 'text-muted-foreground'
+              )}
+            >
+              {rule.passed ? <Check className="h-3 w-3 shrink-0" /> : <X className="h-3 w-3 shrink-0" />}
+              {rule.label}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {check?.breached === true && (
+        <p className="flex items-start gap-1.5 text-xs text-destructive">
+          <ShieldAlert className="h-3.5 w-3.5 shrink-0 mt-px" />
+          Этот пароль встречается в утечках данных. Выберите другой
+        </p>
+      )}
+      {check?.breached === false && (
+        <p className="flex items-center gap-1.5 text-xs text-emerald-600">
+          <ShieldCheck className="h-3.5 w-3.5 shrink-0" />
+          Не найден в известных утечках
+        </p>
+      )}
+    </div>
+  )
+}
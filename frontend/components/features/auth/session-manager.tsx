@@ -0,0 +1,342 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { AlertCircle, Loader2, Lock, LogOut, Timer } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { PasswordInput } from '@/components/ui/password-input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AppEvents, useEventBus } from '@/lib/events/event-bus'
+import { IDLE_TIMEOUT_MS, IDLE_WARNING_MS, TOKEN_REFRESH_LEAD_MS } from '@/lib/config'
+import { parseError } from '@/lib/errors'
+import { formatCountdown } from '@/lib/utils/format'
+import { useAuthStore } from '@/stores/auth-store'
+import { NewPasswordForm } from './new-password-form'
+
+// Shared between tabs so activity in one tab keeps the others unlocked
+const LAST_ACTIVITY_KEY = 'last-activity'
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'click', 'scroll', 'touchstart'] as const
+const ACTIVITY_THROTTLE_MS = 5000
+const REFRESH_RETRY_MS = 30 * 1000
+
+function readLastActivity(): number {
+  return Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0
+}
+
+async function logoutAndRedirect() {
+  await useAuthStore.getState().logout()
+  window.location.href = '/login'
+}
+
+// ============================================================================
+// Idle warning
+// ============================================================================
+
+interface IdleWarningDialogProps {
+  secondsLeft: number | null
+  onContinue: () => void
+}
+
+function IdleWarningDialog({ secondsLeft, onContinue }: IdleWarningDialogProps) {
+  return (
+    <AlertDialog open={secondsLeft !== null}>
+      <AlertDialogContent onEscapeKeyDown={(e) => e.preventDefault()}>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5 text-amber-500" />
+            Вы ещё здесь?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Из-за бездействия сессия будет заблокирована через{' '}
+            <span className="font-semibold tabular-nums text-foreground">
+              {formatCountdown(secondsLeft ?? 0)}
+            </span>
+            . Несохранённые данные в открытых окнах останутся на месте.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={logoutAndRedirect} className="gap-2">
+            <LogOut className="h-4 w-4" />
+            Выйти
+          </Button>
+          <Button onClick={onContinue}>Продолжить работу</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+// ============================================================================
+// Re-login
+// ============================================================================
+
+function ReLoginDialog() {
+  const user = useAuthStore((state) => state.user)
+  const sessionExpired = useAuthStore((state) => state.sessionExpired)
+  const login = useAuthStore((state) => state.login)
+  const verifyTwoFactor = useAuthStore((state) => state.verifyTwoFactor)
+  const twoFactorChallenge = useAuthStore((state) => state.twoFactorChallenge)
+  const changeExpiredPassword = useAuthStore((state) => state.changeExpiredPassword)
+  const cancelPasswordChange = useAuthStore((state) => state.cancelPasswordChange)
+  const passwordChangeChallenge = useAuthStore((state) => state.passwordChangeChallenge)
+  const isLoading = useAuthStore((state) => state.isLoading)
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [error, setError] = useState('')
+
+  if (!user) return null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      const restoredUser = twoFactorChallenge ? await verifyTwoFactor(code) : await login(user.phone, password)
+      if (!restoredUser) {
+        // 2FA is on or the password expired - that step is next
+        setCode('')
+        return
+      }
+      setPassword('')
+      setCode('')
+      toast.success('Сессия восстановлена')
+    } catch (err) {
+      setError(parseError(err).message)
+      setCode('')
+    }
+  }
+
+  const handleExpiredPasswordSubmit = async (newPassword: string) => {
+    await changeExpiredPassword(newPassword)
+    setPassword('')
+    toast.success('Пароль изменён, сессия восстановлена')
+  }
+
+  const handleBackToPassword = () => {
+    setPassword('')
+    cancelPasswordChange()
+  }
+
+  return (
+    <Dialog open={sessionExpired}>
+      <DialogContent
+        showCloseButton={false}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onInteractOutside={(e) => e.preventDefault()}
+        className="sm:max-w-md"
+      >
+        {passwordChangeChallenge ? (
+          <div className="space-y-4">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Срок действия пароля истёк
+              </DialogTitle>
+              <DialogDescription>
+                Задайте новый пароль, чтобы продолжить. Открытые окна и введённые данные сохранятся.
+              </DialogDescription>
+            </DialogHeader>
+            <NewPasswordForm
+              onSubmit={handleExpiredPasswordSubmit}
+              submitLabel="Сменить пароль и войти"
+              logName="ExpiredPasswordChange"
+              onBack={handleBackToPassword}
+            />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Сессия истекла
+              </DialogTitle>
+              <DialogDescription>
+                Введите пароль, чтобы продолжить. Открытые окна и введённые данные сохранятся.
+              </DialogDescription>
+            </DialogHeader>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="relogin-phone">Номер телефона</Label>
+              <Input id="relogin-phone" value={user.phone} readOnly disabled />
+            </div>
+
+            {twoFactorChallenge ? (
+              <div className="space-y-2">
+                <Label htmlFor="relogin-code">Код из приложения-аутентификатора</Label>
+                <Input
+                  id="relogin-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456 или резервный код"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={isLoading}
+                  autoFocus
+                  required
+                  aria-invalid={!!error}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="relogin-password">Пароль</Label>
+                <PasswordInput
+                  id="relogin-password"
+                  placeholder="Введите пароль"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isLoading}
+                  autoFocus
+                  required
+                  aria-invalid={!!error}
+                />
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={logoutAndRedirect} className="gap-2">
+                <LogOut className="h-4 w-4" />
+                Выйти
+              </Button>
+              <Button type="submit" disabled={isLoading || (twoFactorChallenge ? !code.trim() : !password)}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Войти
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ============================================================================
+// Manager
+// ============================================================================
+
+/**
+ * Keeps the dashboard session alive and safe:
+ * - refreshes the access token shortly before it expires;
+ * - after a period of inactivity shows a countdown, then locks the session;
+ * - when the session is gone (idle lock, revoke, expiry) asks for the password
+ *   in a dialog on top of the current page instead of redirecting to /login.
+ */
+export function SessionManager() {
+  const userId = useAuthStore((state) => state.user?.id)
+  const tokenExpiresAt = useAuthStore((state) => state.tokenExpiresAt)
+  const sessionExpired = useAuthStore((state) => state.sessionExpired)
+  const isImpersonating = useAuthStore((state) => state.isImpersonating)
+  const refreshSession = useAuthStore((state) => state.refreshSession)
+  const expireSession = useAuthStore((state) => state.expireSession)
+  const lockSession = useAuthStore((state) => state.lockSession)
+
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const [refreshRetries, setRefreshRetries] = useState(0)
+  const warningShownRef = useRef(false)
+
+  const isActive = Boolean(userId) && !sessionExpired
+
+  // Raised by the API client when a refresh is rejected mid-request
+  useEventBus(AppEvents.AUTH_SESSION_EXPIRED, expireSession)
+
+  // Silent refresh before the access token expires
+  useEffect(() => {
+    // Impersonation sessions end on their own expiry
+    if (!isActive || isImpersonating || !tokenExpiresAt) return
+
+    const dueIn = tokenExpiresAt - Date.now() - TOKEN_REFRESH_LEAD_MS
+    const timer = setTimeout(
+      async () => {
+        await refreshSession()
+        // Network failure leaves the expiry untouched - try again later
+        if (useAuthStore.getState().tokenExpiresAt === tokenExpiresAt) {
+          setRefreshRetries((count) => count + 1)
+        }
+      },
+      Math.max(dueIn, refreshRetries > 0 ? REFRESH_RETRY_MS : 0)
+    )
+    return () => clearTimeout(timer)
+  }, [isActive, isImpersonating, tokenExpiresAt, refreshRetries, refreshSession])
+
+  const markActive = useCallback(() => {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()))
+  }, [])
+
+  // Idle tracking
+  useEffect(() => {
+    if (!isActive) return
+
+    markActive()
+
+    const handleActivity = () => {
+      // Once the countdown is shown only "Продолжить" counts as activity
+      if (warningShownRef.current) return
+      if (Date.now() - readLastActivity() > ACTIVITY_THROTTLE_MS) markActive()
+    }
+
+    const interval = setInterval(() => {
+      const idleFor = Date.now() - readLastActivity()
+
+      if (idleFor >= IDLE_TIMEOUT_MS) {
+        clearInterval(interval)
+        warningShownRef.current = false
+        setSecondsLeft(null)
+        lockSession()
+      } else if (idleFor >= IDLE_TIMEOUT_MS - IDLE_WARNING_MS) {
+        warningShownRef.current = true
+        setSecondsLeft(Math.ceil((IDLE_TIMEOUT_MS - idleFor) / 1000))
+      } else {
+        // Activity in another tab dismisses the countdown here too
+        warningShownRef.current = false
+        setSecondsLeft(null)
+      }
+    }, 1000)
+
+    // Capture phase: scrolling happens inside <main>, and scroll events do not bubble
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { capture: true, passive: true })
+    )
+
+    return () => {
+      clearInterval(interval)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity, { capture: true }))
+    }
+  }, [isActive, lockSession, markActive])
+
+  const handleContinue = () => {
+    warningShownRef.current = false
+    setSecondsLeft(null)
+    markActive()
+    if (!isImpersonating) refreshSession()
+  }
+
+  return (
+    <>
+      <IdleWarningDialog secondsLeft={isActive ? secondsLeft : null} onContinue={handleContinue} />
+      <ReLoginDialog />
+    </>
+  )
+}
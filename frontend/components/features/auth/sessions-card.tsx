@@ -0,0 +1,171 @@
+'use client'
+
+import { format, formatDistanceToNow } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { Loader2, LogOut, Monitor, ShieldOff, Smartphone } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { useSessions, useRevokeSession, useRevokeOtherSessions } from '@/lib/query/hooks'
+import { describeDevice, type Session } from '@/lib/api/auth'
+import { parseError } from '@/lib/errors'
+import { useAuthStore } from '@/stores/auth-store'
+
+const formatDateTime = (value: string) => format(new Date(value), 'd MMM yyyy, HH:mm', { locale: ru })
+
+interface SessionRowProps {
+  session: Session
+  onRevoke: (id: string) => void
+  onLogout: () => void
+  isRevoking: boolean
+}
+
+function SessionRow({ session, onRevoke, onLogout, isRevoking }: SessionRowProps) {
+  const device = describeDevice(session.deviceInfo)
+  const DeviceIcon = device.isMobile ? Smartphone : Monitor
+
+  return (
+    <div className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-start gap-3 min-w-0">
+        <div className="rounded-lg bg-muted p-2">
+          <DeviceIcon className="h-5 w-5 text-muted-foreground" />
+        </div>
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="font-medium">
+              {device.browser} · {device.os}
+            </p>
+            {session.isCurrent && <Badge variant="secondary">Это устройство</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {session.ipAddress || 'IP неизвестен'} · активность{' '}
+            {formatDistanceToNow(new Date(session.lastActivityAt), { addSuffix: true, locale: ru })}
+          </p>
+          <p className="text-xs text-muted-foreground">Вход: {formatDateTime(session.createdAt)}</p>
+        </div>
+      </div>
+
+      {session.isCurrent ? (
+        <Button variant="outline" size="sm" onClick={onLogout} className="gap-2 shrink-0">
+          <LogOut className="h-4 w-4" />
+          Выйти
+        </Button>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onRevoke(session.id)}
+          disabled={isRevoking}
+          className="gap-2 shrink-0 text-destructive hover:text-destructive"
+        >
+          {isRevoking ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+          Выйти на этом устройстве
+        </Button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Active sessions of the current user with per-device logout
+ * and "log out everywhere else"
+ */
+export function SessionsCard() {
+  const { data: sessions = [], isLoading, error } = useSessions()
+  const revokeSession = useRevokeSession()
+  const revokeOthers = useRevokeOtherSessions()
+  const logout = useAuthStore((state) => state.logout)
+
+  const otherSessions = sessions.filter((session) => !session.isCurrent)
+
+  const handleLogout = async () => {
+    await logout()
+    window.location.href = '/login'
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between sm:space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Сессии</CardTitle>
+          <CardDescription>Устройства, на которых выполнен вход в ваш аккаунт</CardDescription>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={otherSessions.length === 0 || revokeOthers.isPending}
+            >
+              {revokeOthers.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <ShieldOff className="h-4 w-4" />
+              )}
+              Выйти на всех других устройствах
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Завершить другие сессии?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Все устройства, кроме этого, будут отключены от аккаунта. Для продолжения работы на
+                них потребуется войти заново.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Отмена</AlertDialogCancel>
+              <AlertDialogAction onClick={() => revokeOthers.mutate()}>Завершить</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{parseError(error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && sessions.length === 0 && (
+          <p className="text-sm text-muted-foreground">Активных сессий нет</p>
+        )}
+
+        {sessions.length > 0 && (
+          <div className="divide-y">
+            {sessions.map((session) => (
+              <SessionRow
+                key={session.id}
+                session={session}
+                onRevoke={(id) => revokeSession.mutate(id)}
+                onLogout={handleLogout}
+                isRevoking={revokeSession.isPending && revokeSession.variables === session.id}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
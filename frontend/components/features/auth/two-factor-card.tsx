@@ -0,0 +1,489 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { AlertTriangle, Copy, Download, KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { PasswordInput } from '@/components/ui/password-input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogBody,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  useTwoFactorStatus,
+  useSetupTwoFactor,
+  useEnableTwoFactor,
+  useDisableTwoFactor,
+  useRegenerateBackupCodes,
+} from '@/lib/query/hooks'
+import { parseError } from '@/lib/errors'
+import { copyToClipboard, downloadFile } from '@/lib/utils'
+import { useAuthStore } from '@/stores/auth-store'
+
+// Warn before the user runs out of ways to log in without the phone
+const LOW_BACKUP_CODES = 3
+
+// ============================================================================
+// Backup codes
+// ============================================================================
+
+function BackupCodesList({ codes }: { codes: string[] }) {
+  const text = codes.join('\n')
+
+  const handleCopy = async () => {
+    if (await copyToClipboard(text)) {
+      toast.success('Коды скопированы')
+    } else {
+      toast.error('Не удалось скопировать коды')
+    }
+  }
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: 'text/plain' }))
+    downloadFile(url, 'yalla-business-backup-codes.txt')
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+  }
+
+  return (
+    <div className="space-y-3">
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          Сохраните коды в надёжном месте — они показываются один раз. Каждый код можно использовать
+          для входа только однажды, если телефона нет под рукой.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} className="text-center tracking-wider">
+            {code}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy} className="gap-2">
+          <Copy className="h-4 w-4" />
+          Скопировать
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload} className="gap-2">
+          <Download className="h-4 w-4" />
+          Скачать .txt
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface CodeFieldProps {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  disabled: boolean
+  placeholder?: string
+}
+
+function CodeField({ id, value, onChange, disabled, placeholder = '123456' }: CodeFieldProps) {
+  return (
+    <Input
+      id={id}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder={placeholder}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="tracking-widest"
+      autoFocus
+    />
+  )
+}
+
+// ============================================================================
+// Enable
+// ============================================================================
+
+interface DialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Dialog contents unmount on close, so every opening starts from a clean state
+function EnableTwoFactorContent({ onClose }: { onClose: () => void }) {
+  const setupTwoFactor = useSetupTwoFactor()
+  const enableTwoFactor = useEnableTwoFactor()
+  const [code, setCode] = useState('')
+  const { mutate: startSetup } = setupTwoFactor
+
+  // A fresh secret on every opening: an abandoned QR code never becomes valid
+  useEffect(() => {
+    startSetup()
+  }, [startSetup])
+
+  const setup = setupTwoFactor.data
+  const backupCodes = enableTwoFactor.data
+  const error = setupTwoFactor.error ?? enableTwoFactor.error
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault()
+    enableTwoFactor.mutate(code.trim(), { onError: () => setCode('') })
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>
+          {backupCodes ? 'Резервные коды' : 'Подключение двухфакторной аутентификации'}
+        </DialogTitle>
+        <DialogDescription>
+          {backupCodes
+            ? 'Двухфакторная аутентификация включена. Теперь при входе потребуется код из приложения.'
+            : 'Отсканируйте QR-код в Google Authenticator, 1Password или другом приложении и введите код из него.'}
+        </DialogDescription>
+      </DialogHeader>
+
+      {backupCodes ? (
+        <>
+          <DialogBody>
+            <BackupCodesList codes={backupCodes} />
+          </DialogBody>
+          <DialogFooter>
+            <Button onClick={onClose}>Я сохранил коды</Button>
+          </DialogFooter>
+        </>
+      ) : (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <DialogBody className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{parseError(error).message}</AlertDescription>
+              </Alert>
+            )}
+
+            {setupTwoFactor.isPending && <Skeleton className="mx-auto h-48 w-48" />}
+
+            {setup && (
+              <>
+                {/* eslint-disable-next-line @next/next/no-img-element -- inline SVG data URI */}
+                <img
+                  src={setup.qrCodeDataUri}
+                  alt="QR-код для приложения-аутентификатора"
+                  className="mx-auto h-48 w-48 rounded-lg border bg-white p-2"
+                />
+                <div className="space-y-1 text-center">
+                  <p className="text-xs text-muted-foreground">Не получается отсканировать? Введите ключ вручную:</p>
+                  <p className="break-all font-mono text-sm tracking-wider">{setup.secret}</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-setup-code">Код из приложения</Label>
+                  <CodeField
+                    id="two-factor-setup-code"
+                    value={code}
+                    onChange={setCode}
+                    disabled={enableTwoFactor.isPending}
+                  />
+                </div>
+              </>
+            )}
+          </DialogBody>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Отмена
+            </Button>
+            <Button type="submit" disabled={!setup || !code.trim() || enableTwoFactor.isPending}>
+              {enableTwoFactor.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Подтвердить
+            </Button>
+          </DialogFooter>
+        </form>
+      )}
+    </>
+  )
+}
+
+function EnableTwoFactorDialog({ open, onOpenChange }: DialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <EnableTwoFactorContent onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ============================================================================
+// Disable
+// ============================================================================
+
+function DisableTwoFactorContent({ onClose }: { onClose: () => void }) {
+  const disableTwoFactor = useDisableTwoFactor()
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    disableTwoFactor.mutate(
+      { password, code: code.trim() },
+      { onSuccess: onClose, onError: () => setCode('') }
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>Отключить двухфакторную аутентификацию?</DialogTitle>
+        <DialogDescription>
+          Для входа снова будет достаточно пароля. Подтвердите паролем и кодом из приложения или
+          резервным кодом.
+        </DialogDescription>
+      </DialogHeader>
+
+      <DialogBody className="space-y-4">
+        {disableTwoFactor.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{parseError(disableTwoFactor.error).message}</AlertDescription>
+          </Alert>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="two-factor-disable-password">Пароль</Label>
+          <PasswordInput
+            id="two-factor-disable-password"
+            placeholder="Введите пароль"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={disableTwoFactor.isPending}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="two-factor-disable-code">Код подтверждения</Label>
+          <Input
+            id="two-factor-disable-code"
+            autoComplete="one-time-code"
+            placeholder="123456 или резервный код"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={disableTwoFactor.isPending}
+          />
+        </div>
+      </DialogBody>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Отмена
+        </Button>
+        <Button
+          type="submit"
+          variant="destructive"
+          disabled={!password || !code.trim() || disableTwoFactor.isPending}
+        >
+          {disableTwoFactor.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Отключить
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
+
+function DisableTwoFactorDialog({ open, onOpenChange }: DialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DisableTwoFactorContent onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ============================================================================
+// Regenerate backup codes
+// ============================================================================
+
+function RegenerateBackupCodesContent({ onClose }: { onClose: () => void }) {
+  const regenerateBackupCodes = useRegenerateBackupCodes()
+  const [code, setCode] = useState('')
+  const backupCodes = regenerateBackupCodes.data
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    regenerateBackupCodes.mutate(code.trim(), { onError: () => setCode('') })
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Новые резервные коды</DialogTitle>
+        <DialogDescription>
+          {backupCodes
+            ? 'Предыдущие резервные коды больше не действуют.'
+            : 'Все прежние коды перестанут действовать. Подтвердите кодом из приложения-аутентификатора.'}
+        </DialogDescription>
+      </DialogHeader>
+
+      {backupCodes ? (
+        <>
+          <DialogBody>
+            <BackupCodesList codes={backupCodes} />
+          </DialogBody>
+          <DialogFooter>
+            <Button onClick={onClose}>Я сохранил коды</Button>
+          </DialogFooter>
+        </>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogBody className="space-y-4">
+            {regenerateBackupCodes.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{parseError(regenerateBackupCodes.error).message}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-regenerate-code">Код из приложения</Label>
+              <CodeField
+                id="two-factor-regenerate-code"
+                value={code}
+                onChange={setCode}
+                disabled={regenerateBackupCodes.isPending}
+              />
+            </div>
+          </DialogBody>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Отмена
+            </Button>
+            <Button type="submit" disabled={!code.trim() || regenerateBackupCodes.isPending}>
+              {regenerateBackupCodes.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Создать коды
+            </Button>
+          </DialogFooter>
+        </form>
+      )}
+    </>
+  )
+}
+
+function RegenerateBackupCodesDialog({ open, onOpenChange }: DialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <RegenerateBackupCodesContent onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ============================================================================
+// Card
+// ============================================================================
+
+/**
+ * TOTP two-factor authentication of the current user: enrollment with a QR code,
+ * backup codes and turning it off
+ */
+export function TwoFactorCard() {
+  const { data: status, isLoading, error } = useTwoFactorStatus()
+  const isImpersonating = useAuthStore((state) => state.isImpersonating)
+  const [enableOpen, setEnableOpen] = useState(false)
+  const [disableOpen, setDisableOpen] = useState(false)
+  const [regenerateOpen, setRegenerateOpen] = useState(false)
+
+  const lowOnCodes = status?.enabled && status.backupCodesRemaining <= LOW_BACKUP_CODES
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between sm:space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            Двухфакторная аутентификация
+            {status?.enabled && (
+              <Badge variant="secondary" className="gap-1">
+                <ShieldCheck className="h-3 w-3" />
+                Включена
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Код из приложения-аутентификатора при каждом входе — защита бюджетов и счетов, даже если
+            пароль узнают посторонние
+          </CardDescription>
+        </div>
+        {status && !isImpersonating && (
+          status.enabled ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 text-destructive hover:text-destructive"
+              onClick={() => setDisableOpen(true)}
+            >
+              <ShieldOff className="h-4 w-4" />
+              Отключить
+            </Button>
+          ) : (
+            <Button size="sm" className="gap-2" onClick={() => setEnableOpen(true)}>
+              <ShieldCheck className="h-4 w-4" />
+              Подключить
+            </Button>
+          )
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <Skeleton className="h-12 w-full" />}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{parseError(error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isImpersonating && (
+          <p className="text-sm text-muted-foreground">
+            В режиме «от имени» настройки 2FA недоступны — их меняет только сам пользователь.
+          </p>
+        )}
+
+        {status && !status.enabled && !isImpersonating && (
+          <p className="text-sm text-muted-foreground">
+            Сейчас для входа достаточно телефона и пароля.
+          </p>
+        )}
+
+        {status?.enabled && (
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="space-y-1 text-sm">
+              {status.enabledAt && (
+                <p className="text-muted-foreground">
+                  Включена {format(new Date(status.enabledAt), 'd MMM yyyy', { locale: ru })}
+                </p>
+              )}
+              <p className={lowOnCodes ? 'font-medium text-amber-600' : 'text-muted-foreground'}>
+                Неиспользованных резервных кодов: {status.backupCodesRemaining}
+                {lowOnCodes && ' — создайте новые'}
+              </p>
+            </div>
+            {!isImpersonating && (
+              <Button variant="outline" size="sm" className="gap-2 shrink-0" onClick={() => setRegenerateOpen(true)}>
+                <KeyRound className="h-4 w-4" />
+                Новые резервные коды
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <EnableTwoFactorDialog open={enableOpen} onOpenChange={setEnableOpen} />
+      <DisableTwoFactorDialog open={disableOpen} onOpenChange={setDisableOpen} />
+      <RegenerateBackupCodesDialog open={regenerateOpen} onOpenChange={setRegenerateOpen} />
+    </Card>
+  )
+}
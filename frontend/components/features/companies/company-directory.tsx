@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Company directory
+ * All tenant companies with status, balance and employee counts.
+ * SUPER_ADMIN picks a company here to view the admin panel as that company.
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { Building2, Eye, Search } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { DataTable } from '@/components/ui/data-table'
+import { Input } from '@/components/ui/input'
+import { useCompanies } from '@/lib/query/hooks'
+import { getCompanyStatusConfig } from '@/lib/constants/entity-statuses'
+import { parseError } from '@/lib/errors'
+import { cn } from '@/lib/utils'
+import { useAuthStore } from '@/stores/auth-store'
+import type { CompanyListItem } from '@/lib/api/companies'
+
+function formatBalance(company: CompanyListItem) {
+  return `${company.budget.toLocaleString('ru-RU')} ${company.currencyCode}`
+}
+
+export function CompanyDirectory() {
+  const { viewedCompany, viewAsCompany } = useAuthStore()
+  const { data: companies = [], isLoading, error } = useCompanies()
+  const [search, setSearch] = useState('')
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    if (!query) return companies
+    return companies.filter((company) => company.name.toLowerCase().includes(query))
+  }, [companies, search])
+
+  const columns: ColumnDef<CompanyListItem>[] = [
+    {
+      accessorKey: 'name',
+      header: 'Компания',
+      cell: ({ row }) => (
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="font-medium truncate">{row.original.name}</span>
+          {viewedCompany?.id === row.original.id && (
+            <Badge variant="secondary" className="shrink-0">Просматривается</Badge>
+          )}
+        </div>
+      ),
+    },
+    {
+      accessorKey: 'status',
+      header: 'Статус',
+      size: 130,
+      cell: ({ row }) => {
+        const config = getCompanyStatusConfig(row.original.status)
+        return (
+          <Badge variant={config.variant} className={config.className}>
+            {config.label}
+          </Badge>
+        )
+      },
+    },
+    {
+      accessorKey: 'budget',
+      header: () => <div className="text-right">Баланс</div>,
+      size: 150,
+      cell: ({ row }) => (
+        <div
+          className={cn(
+            'text-right tabular-nums whitespace-nowrap',
+            row.original.budget < 0 && 'text-destructive font-medium'
+          )}
+        >
+          {formatBalance(row.original)}
+        </div>
+      ),
+    },
+    {
+      accessorKey: 'projectsCount',
+      header: () => <div className="text-right">Проекты</div>,
+      size: 90,
+      cell: ({ row }) => <div className="text-right tabular-nums">{row.original.projectsCount}</div>,
+    },
+    {
+      accessorKey: 'activeEmployeesCount',
+      header: () => <div className="text-right">Активные сотрудники</div>,
+      size: 170,
+      cell: ({ row }) => (
+        <div className="text-right tabular-nums">
+          {row.original.activeEmployeesCount}
+          <span className="text-muted-foreground"> / {row.original.employeesCount}</span>
+        </div>
+      ),
+    },
+    {
+      id: 'actions',
+      size: 150,
+      cell: ({ row }) => (
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1.5"
+            disabled={viewedCompany?.id === row.original.id}
+            onClick={() => viewAsCompany({ id: row.original.id, name: row.original.name })}
+          >
+            <Eye className="h-3.5 w-3.5" />
+            Смотреть
+          </Button>
+        </div>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Поиск по названию..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{parseError(error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={filtered}
+        isLoading={isLoading}
+        loadingRows={8}
+        emptyMessage={
+          <div className="py-12 text-center">
+            <Building2 className="h-10 w-10 mx-auto text-muted-foreground/30 mb-3" />
+            <p className="text-muted-foreground">{search ? 'Ничего не найдено' : 'Компаний пока нет'}</p>
+          </div>
+        }
+      />
+    </div>
+  )
+}
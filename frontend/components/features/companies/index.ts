@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Company directory components exports
+ */
+
+export { CompanyDirectory } from './company-directory'
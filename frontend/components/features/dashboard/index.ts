@@ -4,4 +4,4 @@
 
 export { DashboardStats } from './dashboard-stats'
 export { DateNavigator } from './date-navigator'
-
+export { WeekPlanGrid, getWeekStart } from './week-plan-grid'
@@ -0,0 +1,459 @@
+/**
+ * @fileoverview Week Plan Grid
+ * Weekly planning view for the dashboard: employees as rows, days as columns.
+ * Lunch cells show the combo, compensation cells the daily limit.
+ * Pause/resume/change-combo are gated by the order machine and the page's
+ * per-day lock (past date, cutoff), selected cells are sent to bulk-action
+ * after an undo window (see scheduleBulkOrderAction).
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { addDays, format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import {
+  CalendarRange,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  MoreHorizontal,
+  PauseCircle,
+  PlayCircle,
+  Search,
+  UtensilsCrossed,
+  Wallet,
+  X,
+} from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { useWeekPlan } from '@/lib/query/hooks'
+import { scheduleBulkOrderAction, usePendingBulkOrderActions } from '@/lib/commands'
+import { useCan, useDebounce } from '@/lib/hooks'
+import { canTransitionOrder, getOrderActions } from '@/lib/machines'
+import { COMBO_TYPES } from '@/lib/combos'
+import { parseError } from '@/lib/errors'
+import { formatISODate, parseLocalDate } from '@/lib/utils/date'
+import { cn } from '@/lib/utils'
+import type { BulkActionRequest, ComboType, WeekPlanCell, WeekPlanRow } from '@/lib/api/home'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface WeekPlanGridProps {
+  /** Monday of the displayed week (YYYY-MM-DD) */
+  weekStart: string
+  /** Navigate to another week (any date of it) */
+  onWeekChange: (weekStart: string) => void
+  /** Project in scope (undefined = all projects) */
+  projectId?: string
+  /** Why a day cannot be changed (past date, cutoff passed), null when open */
+  getDayLockReason: (date: string) => string | null
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Monday of the week containing the date */
+export function getWeekStart(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7), 12, 0, 0)
+  return formatISODate(monday)
+}
+
+function shiftWeek(weekStart: string, weeks: number): string {
+  return formatISODate(addDays(parseLocalDate(weekStart), weeks * 7))
+}
+
+function getCellClassName(cell: WeekPlanCell) {
+  const state = getOrderActions(cell.status).state
+  if (state === 'paused') return 'bg-orange-50 text-orange-700 dark:bg-orange-950/30 dark:text-orange-400'
+  if (state === 'cancelled') return 'bg-muted/40 text-muted-foreground line-through'
+  if (state === 'delivered') return 'bg-emerald-50/60 text-emerald-700 dark:bg-emerald-950/20 dark:text-emerald-400'
+  return 'bg-amber-50 text-amber-800 dark:bg-amber-950/30 dark:text-amber-300'
+}
+
+function CellContent({ row, cell }: { row: WeekPlanRow; cell: WeekPlanCell }) {
+  if (cell.orderId) {
+    return (
+      <span className="flex items-center gap-1 font-medium">
+        <UtensilsCrossed className="h-3 w-3 shrink-0" />
+        {cell.comboType || 'Комбо'}
+      </span>
+    )
+  }
+  if (row.serviceType === 'COMPENSATION' && cell.compensationLimit !== null) {
+    return (
+      <span className="flex flex-col text-emerald-700 dark:text-emerald-400">
+        <span className="flex items-center gap-1 font-medium">
+          <Wallet className="h-3 w-3 shrink-0" />
+          до {cell.compensationLimit.toLocaleString('ru-RU')}
+        </span>
+        {cell.compensationAmount !== null && (
+          <span className="text-[11px] text-muted-foreground">
+            потрачено {cell.compensationAmount.toLocaleString('ru-RU')}
+          </span>
+        )}
+      </span>
+    )
+  }
+  if (!cell.isWorkingDay) {
+    return <span className="text-muted-foreground/60">Выходной</span>
+  }
+  return <span className="text-muted-foreground/60">—</span>
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Component
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function WeekPlanGrid({ weekStart, onWeekChange, projectId, getDayLockReason }: WeekPlanGridProps) {
+  const [search, setSearch] = useState('')
+  const debouncedSearch = useDebounce(search, 400)
+  const [selected, setSelected] = useState<string[]>([])
+  const canEdit = useCan('orders:bulk')
+  const { data, isLoading, isFetching, error } = useWeekPlan(weekStart, projectId, debouncedSearch || undefined)
+  const pendingActions = usePendingBulkOrderActions()
+  const pendingOrderIds = useMemo(
+    () => new Set(pendingActions.flatMap((action) => action.request.orderIds)),
+    [pendingActions]
+  )
+
+  const days = useMemo(() => data?.days ?? [], [data])
+  const rows = useMemo(() => data?.rows ?? [], [data])
+  const todayIso = formatISODate(new Date())
+
+  const isSelectable = (cell: WeekPlanCell) =>
+    canEdit && Boolean(cell.orderId) && getDayLockReason(cell.date) === null && !getOrderActions(cell.status).isFinal
+
+  // Only selectable cells of the loaded week count — stale ids (another week,
+  // cutoff passed since selection, order already cancelled) are ignored
+  const selectedCells = rows
+    .flatMap((row) => row.cells)
+    .filter((cell) => cell.orderId && selected.includes(cell.orderId) && isSelectable(cell))
+
+  const toggleCell = (cell: WeekPlanCell) => {
+    if (!cell.orderId || !isSelectable(cell)) return
+    const orderId = cell.orderId
+    setSelected((prev) => (prev.includes(orderId) ? prev.filter((id) => id !== orderId) : [...prev, orderId]))
+  }
+
+  const toggleDay = (date: string) => {
+    const dayIds = rows
+      .map((row) => row.cells.find((cell) => cell.date === date))
+      .filter((cell): cell is WeekPlanCell => Boolean(cell) && isSelectable(cell as WeekPlanCell))
+      .map((cell) => cell.orderId as string)
+    if (dayIds.length === 0) return
+    const allSelected = dayIds.every((id) => selected.includes(id))
+    setSelected((prev) =>
+      allSelected ? prev.filter((id) => !dayIds.includes(id)) : [...new Set([...prev, ...dayIds])]
+    )
+  }
+
+  const changeWeek = (next: string) => {
+    setSelected([])
+    onWeekChange(next)
+  }
+
+  // Applied optimistically; the request is sent after the undo window
+  const runAction = (request: BulkActionRequest) => {
+    if (!scheduleBulkOrderAction(request)) return
+    setSelected((prev) => prev.filter((id) => !request.orderIds.includes(id)))
+  }
+
+  // Bulk eligibility per action, decided by the order machine
+  const pausable = selectedCells.filter((cell) => canTransitionOrder(cell.status, 'pause'))
+  const resumable = selectedCells.filter((cell) => canTransitionOrder(cell.status, 'resume'))
+  const comboEditable = selectedCells.filter((cell) => getOrderActions(cell.status).state === 'confirmed')
+  const idsOf = (cells: WeekPlanCell[]) => cells.map((cell) => cell.orderId as string)
+
+  const monday = parseLocalDate(weekStart)
+  const weekLabel = `${format(monday, 'd MMM', { locale: ru })} — ${format(addDays(monday, 6), 'd MMM yyyy', { locale: ru })}`
+
+  return (
+    <div className="space-y-4">
+      {/* Week navigation */}
+      <Card className="border-0 shadow-sm py-0">
+        <CardContent className="py-3 px-4">
+          <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="flex items-center gap-2">
+                <CalendarRange className="h-5 w-5 text-primary" />
+                <span className="text-sm font-medium">Неделя</span>
+              </div>
+              <div className="flex items-center gap-1 bg-muted/50 rounded-lg p-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 rounded-md hover:bg-background"
+                  onClick={() => changeWeek(shiftWeek(weekStart, -1))}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="px-2 text-sm font-medium min-w-[170px] text-center">{weekLabel}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 rounded-md hover:bg-background"
+                  onClick={() => changeWeek(shiftWeek(weekStart, 1))}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+              {isFetching && !isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+            <div className="flex items-center gap-2">
+              {weekStart !== getWeekStart(new Date()) && (
+                <Button variant="outline" size="sm" className="text-xs" onClick={() => changeWeek(getWeekStart(new Date()))}>
+                  Эта неделя
+                </Button>
+              )}
+              <div className="relative w-[220px]">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Поиск сотрудника..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10 h-9"
+                />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Selection toolbar */}
+      {selectedCells.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-card px-4 py-2">
+          <span className="text-sm font-medium mr-2">Выбрано: {selectedCells.length}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1.5"
+            disabled={pausable.length === 0}
+            onClick={() => runAction({ orderIds: idsOf(pausable), action: 'pause' })}
+          >
+            <PauseCircle className="h-3.5 w-3.5" />
+            Приостановить ({pausable.length})
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1.5"
+            disabled={resumable.length === 0}
+            onClick={() => runAction({ orderIds: idsOf(resumable), action: 'resume' })}
+          >
+            <PlayCircle className="h-3.5 w-3.5" />
+            Возобновить ({resumable.length})
+          </Button>
+          {COMBO_TYPES.map((combo) => (
+            <Button
+              key={combo}
+              size="sm"
+              variant="outline"
+              className="gap-1.5"
+              disabled={comboEditable.length === 0}
+              onClick={() => runAction({ orderIds: idsOf(comboEditable), action: 'changecombo', comboType: combo })}
+            >
+              <UtensilsCrossed className="h-3.5 w-3.5" />
+              {combo} ({comboEditable.length})
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" className="gap-1 ml-auto" onClick={() => setSelected([])}>
+            <X className="h-3.5 w-3.5" />
+            Сбросить
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{parseError(error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Grid */}
+      <div className="rounded-lg border bg-card overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b bg-muted/30">
+              <th className="text-left font-medium px-4 py-2 min-w-[200px] sticky left-0 bg-card">Сотрудник</th>
+              {days.map((date) => {
+                const lockReason = getDayLockReason(date)
+                return (
+                  <th key={date} className="px-1 py-2 font-medium min-w-[110px]">
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <button
+                            type="button"
+                            onClick={() => toggleDay(date)}
+                            disabled={!canEdit || lockReason !== null}
+                            className={cn(
+                              'w-full rounded-md px-2 py-1 text-center transition-colors enabled:hover:bg-muted',
+                              date === todayIso && 'text-primary',
+                              lockReason !== null && 'text-muted-foreground'
+                            )}
+                          >
+                            <span className="block capitalize">
+                              {format(parseLocalDate(date), 'EEEEEE', { locale: ru })}
+                            </span>
+                            <span className="block text-xs font-normal">
+                              {format(parseLocalDate(date), 'd MMM', { locale: ru })}
+                            </span>
+                          </button>
+                        </TooltipTrigger>
+                        <TooltipContent>{lockReason ?? 'Выбрать все заказы дня'}</TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </th>
+                )
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading &&
+              Array.from({ length: 5 }).map((_, index) => (
+                <tr key={index} className="border-b">
+                  <td className="px-4 py-3" colSpan={8}>
+                    <Skeleton className="h-6 w-full" />
+                  </td>
+                </tr>
+              ))}
+
+            {!isLoading && rows.length === 0 && (
+              <tr>
+                <td colSpan={8} className="p-12 text-center text-muted-foreground">
+                  {debouncedSearch ? 'Ничего не найдено' : 'Нет активных сотрудников'}
+                </td>
+              </tr>
+            )}
+
+            {rows.map((row) => (
+              <tr key={row.employeeId} className="border-b last:border-0">
+                <td className="px-4 py-2 sticky left-0 bg-card">
+                  <div className="font-medium truncate max-w-[220px]">{row.employeeName}</div>
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    {row.serviceType === 'COMPENSATION' ? 'Компенсация' : 'Ланч'}
+                    {!projectId && row.projectName && <span className="truncate">· {row.projectName}</span>}
+                  </div>
+                </td>
+                {row.cells.map((cell) => {
+                  const lockReason = getDayLockReason(cell.date)
+                  const actions = getOrderActions(cell.status, { lockedReason: lockReason })
+                  const selectable = isSelectable(cell)
+                  const isSelected = selectable && Boolean(cell.orderId && selected.includes(cell.orderId))
+                  const changeComboReason = actions.state === 'confirmed' ? lockReason : 'Только для активных заказов'
+
+                  return (
+                    <td key={cell.date} className="p-1 align-top">
+                      <div
+                        role={selectable ? 'button' : undefined}
+                        tabIndex={selectable ? 0 : undefined}
+                        onClick={() => toggleCell(cell)}
+                        onKeyDown={(e) => {
+                          if (e.key === ' ' || e.key === 'Enter') {
+                            e.preventDefault()
+                            toggleCell(cell)
+                          }
+                        }}
+                        className={cn(
+                          'group relative flex min-h-[44px] items-start justify-between gap-1 rounded-md px-2 py-1.5 text-xs',
+                          cell.orderId ? getCellClassName(cell) : 'bg-transparent',
+                          cell.date === todayIso && 'ring-1 ring-primary/30',
+                          selectable && 'cursor-pointer hover:ring-1 hover:ring-primary/50',
+                          isSelected && 'ring-2 ring-primary',
+                          cell.orderId && pendingOrderIds.has(cell.orderId) && 'animate-pulse'
+                        )}
+                        title={cell.status ?? undefined}
+                      >
+                        <CellContent row={row} cell={cell} />
+
+                        {cell.orderId && canEdit && !actions.isFinal && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <button
+                                type="button"
+                                className="rounded p-0.5 opacity-60 hover:opacity-100 hover:bg-background/60"
+                                onClick={(e) => e.stopPropagation()}
+                                aria-label="Действия"
+                              >
+                                <MoreHorizontal className="h-3.5 w-3.5" />
+                              </button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                                {row.employeeName} · {format(parseLocalDate(cell.date), 'd MMM', { locale: ru })}
+                                {lockReason && <span className="block text-destructive">{lockReason}</span>}
+                              </DropdownMenuLabel>
+                              <DropdownMenuSeparator />
+                              {actions.pause.legal && (
+                                <DropdownMenuItem
+                                  disabled={!actions.pause.allowed}
+                                  onSelect={() => runAction({ orderIds: [cell.orderId as string], action: 'pause' })}
+                                >
+                                  <PauseCircle className="h-4 w-4" />
+                                  Приостановить
+                                </DropdownMenuItem>
+                              )}
+                              {actions.resume.legal && (
+                                <DropdownMenuItem
+                                  disabled={!actions.resume.allowed}
+                                  onSelect={() => runAction({ orderIds: [cell.orderId as string], action: 'resume' })}
+                                >
+                                  <PlayCircle className="h-4 w-4" />
+                                  Возобновить
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuSeparator />
+                              {COMBO_TYPES.map((combo: ComboType) => (
+                                <DropdownMenuItem
+                                  key={combo}
+                                  disabled={
+                                    changeComboReason !== null || cell.comboType === combo
+                                  }
+                                  onSelect={() =>
+                                    runAction({ orderIds: [cell.orderId as string], action: 'changecombo', comboType: combo })
+                                  }
+                                >
+                                  <UtensilsCrossed className="h-4 w-4" />
+                                  {combo}
+                                  {cell.comboType === combo && (
+                                    <Badge variant="secondary" className="ml-auto text-[10px]">сейчас</Badge>
+                                  )}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </div>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Нажмите на ячейку или заголовок дня, чтобы выбрать заказы для массового действия.
+        Прошедшие дни и сегодняшний день после времени отсечки изменить нельзя.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import type { CompanyDocument } from '@/lib/api/documents'
+
+/**
+ * Human readable document period: "1 янв – 31 янв 2025", "с 1 янв 2025" or null
+ */
+export function formatDocumentPeriod(document: Pick<CompanyDocument, 'periodStart' | 'periodEnd'>): string | null {
+  const { periodStart, periodEnd } = document
+  if (periodStart && periodEnd) {
+    const start = new Date(periodStart)
+    const end = new Date(periodEnd)
+    const sameYear = start.getFullYear() === end.getFullYear()
+    return `${format(start, sameYear ? 'd MMM' : 'd MMM yyyy', { locale: ru })} – ${format(end, 'd MMM yyyy', { locale: ru })}`
+  }
+  if (periodStart) return `с ${format(new Date(periodStart), 'd MMM yyyy', { locale: ru })}`
+  if (periodEnd) return `по ${format(new Date(periodEnd), 'd MMM yyyy', { locale: ru })}`
+  return null
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import { useCallback, type ReactNode } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AlertCircle, Download, FileText, RefreshCw } from 'lucide-react'
+import { useDocumentFile, useDownloadDocument } from '@/lib/query/hooks'
+import {
+  getDocumentFileName,
+  getDocumentTypeLabel,
+  isDocumentPreviewable,
+  type CompanyDocument,
+} from '@/lib/api/documents'
+import { parseError } from '@/lib/errors'
+import { formatDocumentPeriod } from './document-period'
+
+interface DocumentPreviewDialogProps {
+  document: CompanyDocument | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function DocumentPreviewDialog({ document, onOpenChange }: DocumentPreviewDialogProps) {
+  return (
+    <Dialog open={Boolean(document)} onOpenChange={onOpenChange}>
+      <DialogContent className="flex flex-col sm:max-w-4xl h-[90vh]">
+        {document && <DocumentPreview document={document} onOpenChange={onOpenChange} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function DocumentPreview({ document, onOpenChange }: { document: CompanyDocument; onOpenChange: (open: boolean) => void }) {
+  const previewable = isDocumentPreviewable(document)
+  const { data: blob, isLoading, error, refetch } = useDocumentFile(previewable ? document.id : null)
+  const downloadDocument = useDownloadDocument()
+  const period = formatDocumentPeriod(document)
+
+  const renderPreview = () => {
+    if (!previewable) {
+      return (
+        <PreviewPlaceholder
+          icon={<FileText className="h-10 w-10 text-muted-foreground/40" />}
+          message="Предпросмотр доступен только для PDF. Скачайте файл, чтобы открыть его."
+        />
+      )
+    }
+    if (isLoading) return <Skeleton className="h-full w-full rounded-lg" />
+    if (error || !blob) {
+      return (
+        <PreviewPlaceholder
+          icon={<AlertCircle className="h-10 w-10 text-destructive/60" />}
+          message={error ? parseError(error).message : 'Не удалось загрузить документ'}
+          action={
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              <RefreshCw className="h-3.5 w-3.5 mr-1.5" />
+              Повторить
+            </Button>
+          }
+        />
+      )
+    }
+    return <PdfFrame blob={blob} title={getDocumentFileName(document)} />
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <DialogHeader>
+        <DialogTitle className="pr-8 truncate">{getDocumentFileName(document)}</DialogTitle>
+        <DialogDescription>
+          {getDocumentTypeLabel(document.type)}
+          {period && ` · ${period}`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="flex-1 min-h-0 px-6">{renderPreview()}</div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          Закрыть
+        </Button>
+        <Button
+          className="gap-2"
+          onClick={() => downloadDocument.mutate(document)}
+          disabled={downloadDocument.isPending}
+        >
+          <Download className="h-4 w-4" />
+          {downloadDocument.isPending ? 'Скачивание...' : 'Скачать'}
+        </Button>
+      </DialogFooter>
+    </div>
+  )
+}
+
+/**
+ * Renders a blob in an iframe. The object URL lives exactly as long
+ * as the iframe element (ref cleanup revokes it).
+ */
+function PdfFrame({ blob, title }: { blob: Blob; title: string }) {
+  const attachBlob = useCallback(
+    (frame: HTMLIFrameElement | null) => {
+      if (!frame) return
+      const pdf = blob.type === 'application/pdf' ? blob : new Blob([blob], { type: 'application/pdf' })
+      const url = URL.createObjectURL(pdf)
+      frame.src = url
+      return () => URL.revokeObjectURL(url)
+    },
+    [blob]
+  )
+
+  return <iframe ref={attachBlob} title={title} className="h-full w-full rounded-lg border bg-muted" />
+}
+
+function PreviewPlaceholder({
+  icon,
+  message,
+  action,
+}: {
+  icon: ReactNode
+  message: string
+  action?: ReactNode
+}) {
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-3 rounded-lg border border-dashed text-center p-6">
+      {icon}
+      <p className="text-sm text-muted-foreground max-w-sm">{message}</p>
+      {action}
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+'use client'
+
+import { useState } from 'react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { ChevronLeft, ChevronRight, Download, Eye, FileText, RefreshCw } from 'lucide-react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { DataTable } from '@/components/ui/data-table'
+import { DatePicker } from '@/components/ui/date-picker'
+import { useDocuments, useDownloadDocument, useMarkDocumentViewed } from '@/lib/query/hooks'
+import {
+  DOCUMENT_TYPE_LABELS,
+  getDocumentFileName,
+  getDocumentTypeLabel,
+  isDocumentPreviewable,
+  type CompanyDocument,
+  type DocumentType,
+} from '@/lib/api/documents'
+import { formatISODate, parseLocalDate } from '@/lib/utils/date'
+import { formatCount } from '@/lib/utils/format'
+import { cn } from '@/lib/utils'
+import { DocumentPreviewDialog } from './document-preview-dialog'
+import { formatDocumentPeriod } from './document-period'
+
+type DocumentTypeFilter = 'all' | DocumentType
+
+const TYPE_FILTERS: DocumentTypeFilter[] = ['all', 'CONTRACT', 'ACT_OF_RECONCILIATION', 'INVOICE_PDF']
+
+const PAGE_SIZE = 15
+
+export function DocumentsLibrary() {
+  const [type, setType] = useState<DocumentTypeFilter>('all')
+  const [from, setFrom] = useState<string | null>(null)
+  const [to, setTo] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [previewDocument, setPreviewDocument] = useState<CompanyDocument | null>(null)
+
+  const { data, isLoading, isFetching, refetch } = useDocuments({
+    page,
+    pageSize: PAGE_SIZE,
+    type: type === 'all' ? undefined : type,
+    from: from ?? undefined,
+    to: to ?? undefined,
+  })
+  const markViewed = useMarkDocumentViewed()
+  const downloadDocument = useDownloadDocument()
+
+  const documents = data?.items ?? []
+  const total = data?.total ?? 0
+  const totalPages = data?.totalPages ?? 0
+  const newOnPage = documents.filter((doc) => !doc.isViewed).length
+  const hasActiveFilters = type !== 'all' || from !== null || to !== null
+
+  const changeType = (value: DocumentTypeFilter) => {
+    setType(value)
+    setPage(1)
+  }
+
+  const changePeriod = (setter: (value: string | null) => void) => (date: Date | undefined) => {
+    setter(date ? formatISODate(date) : null)
+    setPage(1)
+  }
+
+  const resetFilters = () => {
+    setType('all')
+    setFrom(null)
+    setTo(null)
+    setPage(1)
+  }
+
+  const openDocument = (document: CompanyDocument) => {
+    if (!isDocumentPreviewable(document)) {
+      downloadDocument.mutate(document)
+      return
+    }
+    setPreviewDocument(document)
+    if (!document.isViewed) markViewed.mutate(document.id)
+  }
+
+  const columns: ColumnDef<CompanyDocument>[] = [
+    {
+      accessorKey: 'fileName',
+      header: 'Документ',
+      cell: ({ row }) => {
+        const document = row.original
+        return (
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="relative p-1.5 rounded-md bg-blue-500/10 dark:bg-blue-500/20 shrink-0">
+              <FileText className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+              {!document.isViewed && (
+                <span
+                  className="absolute -top-0.5 -right-0.5 h-2 w-2 rounded-full bg-primary ring-2 ring-background"
+                  aria-label="Не просмотрен"
+                />
+              )}
+            </div>
+            <span className={cn('text-sm truncate', document.isViewed ? 'text-foreground' : 'font-semibold')}>
+              {getDocumentFileName(document)}
+            </span>
+          </div>
+        )
+      },
+    },
+    {
+      accessorKey: 'type',
+      header: 'Тип',
+      size: 140,
+      cell: ({ row }) => (
+        <Badge variant="outline" className="font-normal">
+          {getDocumentTypeLabel(row.original.type)}
+        </Badge>
+      ),
+    },
+    {
+      id: 'period',
+      header: 'Период',
+      size: 190,
+      cell: ({ row }) => (
+        <span className="text-sm text-muted-foreground">{formatDocumentPeriod(row.original) ?? '—'}</span>
+      ),
+    },
+    {
+      accessorKey: 'createdAt',
+      header: 'Добавлен',
+      size: 120,
+      cell: ({ row }) => (
+        <span className="text-sm">
+          {format(new Date(row.original.createdAt), 'd MMM yyyy', { locale: ru })}
+        </span>
+      ),
+    },
+    {
+      id: 'actions',
+      header: () => <span className="sr-only">Действия</span>,
+      size: 90,
+      cell: ({ row }) => {
+        const document = row.original
+        return (
+          <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+            {isDocumentPreviewable(document) && (
+              <Button variant="ghost" size="icon" onClick={() => openDocument(document)} aria-label="Просмотр">
+                <Eye className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => downloadDocument.mutate(document)}
+              disabled={downloadDocument.isPending && downloadDocument.variables?.id === document.id}
+              aria-label="Скачать"
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      },
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      {/* Type Quick-Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {TYPE_FILTERS.map((value) => (
+          <Button
+            key={value}
+            variant={type === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => changeType(value)}
+          >
+            {value === 'all' ? 'Все' : DOCUMENT_TYPE_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+
+      {/* Period Filter Row */}
+      <div className="flex flex-wrap items-center gap-3">
+        <DatePicker
+          value={from ? parseLocalDate(from) : undefined}
+          onChange={changePeriod(setFrom)}
+          placeholder="Период с"
+          className="w-[160px]"
+        />
+        <DatePicker
+          value={to ? parseLocalDate(to) : undefined}
+          onChange={changePeriod(setTo)}
+          placeholder="по"
+          className="w-[160px]"
+        />
+
+        {hasActiveFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={resetFilters}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <RefreshCw className="h-3.5 w-3.5 mr-1.5" />
+            Сбросить
+          </Button>
+        )}
+
+        <div className="ml-auto flex items-center gap-3 text-sm text-muted-foreground">
+          {newOnPage > 0 && (
+            <span className="text-primary font-medium">
+              {formatCount(newOnPage, 'новый', 'новых', 'новых')}
+            </span>
+          )}
+          {total > 0 && <span>{formatCount(total, 'документ', 'документа', 'документов')}</span>}
+          <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching} aria-label="Обновить документы">
+            <RefreshCw className={cn('h-4 w-4', isFetching && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <DataTable
+          columns={columns}
+          data={documents}
+          isLoading={isLoading}
+          loadingRows={5}
+          onRowClick={openDocument}
+          emptyMessage={
+            <div className="py-12 text-center">
+              <FileText className="h-10 w-10 mx-auto text-muted-foreground/30 mb-3" />
+              <p className="text-muted-foreground">
+                {hasActiveFilters ? 'Нет документов по выбранным фильтрам' : 'Документов пока нет'}
+              </p>
+            </div>
+          }
+        />
+      </Card>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, total)} из {total}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium px-2">
+              {page} / {totalPages}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <DocumentPreviewDialog
+        document={previewDocument}
+        onOpenChange={(open) => !open && setPreviewDocument(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Documents components exports
+ */
+
+export { DocumentsLibrary } from './documents-library'
+export { DocumentPreviewDialog } from './document-preview-dialog'
+export { formatDocumentPeriod } from './document-period'
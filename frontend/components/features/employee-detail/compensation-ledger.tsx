@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Compensation ledger
+ * Per-employee purchases with the running remaining limit, daily carry-over
+ * chart and a file download for resolving disputes.
+ */
+
+'use client'
+
+import { Fragment, useState } from 'react'
+import { addMonths, endOfMonth, format, isSameMonth, parseISO, startOfMonth } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { ChevronLeft, ChevronRight, Receipt } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ExportButton } from '@/components/features/export'
+import { useCompensationLedger, useExportCompensationLedger } from '@/lib/query/hooks'
+import type { CompensationLedgerDay } from '@/lib/api/compensation'
+import { parseError } from '@/lib/errors'
+import { cn } from '@/lib/utils'
+import { formatISODate, getServerToday, parseLocalDate } from '@/lib/utils/date'
+
+const CHART_HEIGHT = 220
+
+const COLORS = {
+  limit: '#10b981',
+  carry: '#6528f5',
+  spent: '#f59e0b',
+}
+
+function formatMoney(value: number) {
+  return value.toLocaleString('ru-RU', { maximumFractionDigits: 2 })
+}
+
+function formatDay(value: string) {
+  return format(parseLocalDate(value), 'd MMM', { locale: ru })
+}
+
+interface CompensationLedgerProps {
+  employeeId: string
+}
+
+export function CompensationLedger({ employeeId }: CompensationLedgerProps) {
+  const today = getServerToday()
+  const [month, setMonth] = useState(() => startOfMonth(today))
+  const isCurrentMonth = isSameMonth(month, today)
+
+  // The current month ends today: future days have neither limit usage nor carry-over
+  const range = {
+    fromDate: formatISODate(month),
+    toDate: formatISODate(isCurrentMonth ? today : endOfMonth(month)),
+  }
+
+  const { data: ledger, isLoading, error } = useCompensationLedger(employeeId, range)
+  const exportLedger = useExportCompensationLedger()
+
+  const currency = ledger?.currencyCode ?? 'TJS'
+  const daysWithPurchases = ledger?.days.filter((day) => day.transactions.length > 0) ?? []
+
+  return (
+    <div className="rounded-xl border p-3 space-y-3">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setMonth((value) => addMonths(value, -1))}
+            aria-label="Предыдущий месяц"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium capitalize min-w-[120px] text-center">
+            {format(month, 'LLLL yyyy', { locale: ru })}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setMonth((value) => addMonths(value, 1))}
+            disabled={isCurrentMonth}
+            aria-label="Следующий месяц"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <ExportButton
+          onExport={(exportFormat) => exportLedger.mutate({ filters: { employeeId, ...range }, format: exportFormat })}
+          isExporting={exportLedger.isPending}
+          progress={exportLedger.progress}
+          disabled={!ledger}
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{parseError(error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="space-y-2">
+          <Skeleton className="w-full rounded-lg" style={{ height: CHART_HEIGHT }} />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      )}
+
+      {ledger && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+            <Total label="Покупок" value={String(ledger.totalTransactions)} />
+            <Total label="Оплачено компанией" value={`${formatMoney(ledger.totalCompanyPaid)} ${currency}`} />
+            <Total label="Доплата сотрудника" value={`${formatMoney(ledger.totalEmployeePaid)} ${currency}`} />
+            <Total
+              label="Перенос на завтра"
+              value={ledger.rolloverEnabled ? `${formatMoney(ledger.closingCarryOver)} ${currency}` : 'выключен'}
+            />
+          </div>
+
+          {/* Daily limit composition */}
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={ledger.days} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} className="stroke-muted" />
+              <XAxis dataKey="date" tickFormatter={formatDay} tick={{ fontSize: 11 }} minTickGap={16} />
+              <YAxis tick={{ fontSize: 11 }} />
+              <Tooltip
+                labelFormatter={(value) => formatDay(String(value))}
+                formatter={(value) => `${formatMoney(Number(value))} ${currency}`}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Bar dataKey="dailyLimit" name="Лимит дня" stackId="available" fill={COLORS.limit} />
+              {ledger.rolloverEnabled && (
+                <Bar dataKey="carriedIn" name="Перенос" stackId="available" fill={COLORS.carry} />
+              )}
+              <Bar dataKey="companyPaid" name="Потрачено" fill={COLORS.spent} />
+            </BarChart>
+          </ResponsiveContainer>
+
+          {/* Ledger */}
+          {daysWithPurchases.length === 0 ? (
+            <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+              <Receipt className="h-8 w-8 mx-auto mb-2 opacity-30" />
+              Покупок за этот месяц нет
+            </div>
+          ) : (
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Время</TableHead>
+                    <TableHead>Ресторан</TableHead>
+                    <TableHead className="text-right">Чек</TableHead>
+                    <TableHead className="text-right">Компания</TableHead>
+                    <TableHead className="text-right">Сотрудник</TableHead>
+                    <TableHead className="text-right">Остаток лимита</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {daysWithPurchases.map((day) => (
+                    <Fragment key={day.date}>
+                      <LedgerDayRow day={day} currency={currency} rolloverEnabled={ledger.rolloverEnabled} />
+                      {day.transactions.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="tabular-nums text-muted-foreground">
+                            {format(parseISO(entry.transactionTime), 'HH:mm')}
+                          </TableCell>
+                          <TableCell className="max-w-[180px] truncate" title={entry.description ?? undefined}>
+                            {entry.restaurantName || '—'}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{formatMoney(entry.amount)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatMoney(entry.companyPaid)}</TableCell>
+                          <TableCell
+                            className={cn('text-right tabular-nums', entry.employeePaid > 0 && 'text-amber-600')}
+                          >
+                            {formatMoney(entry.employeePaid)}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums font-medium">
+                            {formatMoney(entry.remainingLimit)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {ledger.rolloverEnabled
+              ? 'Перенос считается с первого дня месяца: неиспользованный лимит закрытого дня добавляется к следующему.'
+              : 'Перенос остатка в проекте выключен: неиспользованный лимит сгорает в конце дня.'}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
+
+function Total({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg bg-muted p-2">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="font-semibold tabular-nums">{value}</p>
+    </div>
+  )
+}
+
+interface LedgerDayRowProps {
+  day: CompensationLedgerDay
+  currency: string
+  rolloverEnabled: boolean
+}
+
+/**
+ * Day header: what was available (limit + carry-over) and what moved to the next day
+ */
+function LedgerDayRow({ day, currency, rolloverEnabled }: LedgerDayRowProps) {
+  return (
+    <TableRow className="bg-muted/40 hover:bg-muted/40">
+      <TableCell colSpan={6} className="py-1.5">
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+          <span className="font-semibold text-sm">
+            {format(parseLocalDate(day.date), 'd MMMM, EEEEEE', { locale: ru })}
+          </span>
+          {!day.isWorkingDay && <Badge variant="outline" className="text-[10px]">выходной</Badge>}
+          <span className="text-muted-foreground">
+            Доступно {formatMoney(day.available)} {currency}
+            {day.carriedIn > 0 && ` (лимит ${formatMoney(day.dailyLimit)} + перенос ${formatMoney(day.carriedIn)})`}
+          </span>
+          {rolloverEnabled && day.carriedOut > 0 && (
+            <span className="text-violet-600">→ перенесено {formatMoney(day.carriedOut)}</span>
+          )}
+        </div>
+      </TableCell>
+    </TableRow>
+  )
+}
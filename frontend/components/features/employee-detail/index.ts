@@ -9,3 +9,4 @@ export {
   NoSubscriptionCard,
 } from './subscription-cards'
 
+export { CompensationLedger } from './compensation-ledger'
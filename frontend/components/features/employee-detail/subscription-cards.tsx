@@ -24,6 +24,7 @@ import { ru } from 'date-fns/locale'
 import { cn } from '@/lib/utils'
 import type { EmployeeDetail } from '@/lib/api/employees'
 import { getSubscriptionStatusConfig } from '@/lib/constants/entity-statuses'
+import { getSubscriptionActions } from '@/lib/machines'
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Types
@@ -72,13 +73,6 @@ function getStatusConfig(status: string) {
   return { className: config.className }
 }
 
-/**
- * Check if subscription is completed (terminal state).
- */
-function isSubscriptionCompleted(status?: string): boolean {
-  return status === 'Завершена' || status === 'Завершен'
-}
-
 function formatDate(dateStr: string | null | undefined): string {
   if (!dateStr) return '—'
   try {
@@ -103,12 +97,9 @@ export function LunchSubscriptionCard({
   canManage,
 }: LunchSubscriptionCardProps) {
   const statusConfig = getStatusConfig(subscription.status || '')
-  // Check for paused status (+ DEPRECATED legacy 'На паузе')
-  const isPaused = subscription.status === 'Приостановлена' || subscription.status === 'На паузе'
-  // Check for active status (both Russian variants)
-  const isActive = subscription.status === 'Активна' || subscription.status === 'Активен'
-  // Check for completed status (terminal - cannot be resumed)
-  const isCompleted = isSubscriptionCompleted(subscription.status)
+  // Pause/resume availability comes from the subscription machine
+  const actions = getSubscriptionActions(subscription.status)
+  const isCompleted = actions.state === 'completed'
 
   return (
     <Card className="border-2 border-amber-500/20">
@@ -174,15 +165,15 @@ export function LunchSubscriptionCard({
             <CalendarDays className="h-4 w-4 mr-2" />
             {isCompleted ? 'Завершена' : 'Управлять'}
           </Button>
-          {/* Show pause button only for active subscriptions (not completed) */}
-          {isActive && !isCompleted && onPause && (
-            <Button variant="outline" onClick={onPause} disabled={!canManage}>
+          {/* Show pause button only when the machine allows PAUSE */}
+          {actions.pause.legal && onPause && (
+            <Button variant="outline" onClick={onPause} disabled={!canManage || !actions.pause.allowed}>
               <PauseCircle className="h-4 w-4" />
             </Button>
           )}
-          {/* Show resume button only for paused (not completed) subscriptions */}
-          {isPaused && !isCompleted && onResume && (
-            <Button variant="outline" onClick={onResume} disabled={!canManage}>
+          {/* Show resume button only when the machine allows RESUME */}
+          {actions.resume.legal && onResume && (
+            <Button variant="outline" onClick={onResume} disabled={!canManage || !actions.resume.allowed}>
               <PlayCircle className="h-4 w-4" />
             </Button>
           )}
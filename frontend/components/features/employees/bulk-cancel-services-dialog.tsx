@@ -0,0 +1,321 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogBody,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertTriangle, CheckCircle2, Loader2, UtensilsCrossed, Wallet, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { parseError } from '@/lib/errors'
+import { isFeatureEnabled } from '@/lib/features.config'
+import { useBulkCancelPreview, useBulkCancelServices } from '@/lib/query/hooks'
+import type { ServiceType } from '@/lib/api/employees'
+import type { BulkCancelPreview, BulkCancelServicesResponse } from '@/lib/api/services'
+
+type Step = 'choose' | 'preview' | 'result'
+
+const SERVICE_OPTIONS: { value: ServiceType; label: string; description: string; icon: typeof Wallet }[] = [
+  {
+    value: 'LUNCH',
+    label: 'Обеды',
+    description: 'Подписки завершаются, будущие заказы отменяются',
+    icon: UtensilsCrossed,
+  },
+  {
+    value: 'COMPENSATION',
+    label: 'Компенсация',
+    description: 'Сотрудники больше не смогут тратить лимит',
+    icon: Wallet,
+  },
+]
+
+interface BulkCancelServicesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Employees selected in the table */
+  employeeIds: string[]
+  /** Called once the server has processed the request (even with partial errors) */
+  onCompleted?: (result: BulkCancelServicesResponse) => void
+}
+
+export function BulkCancelServicesDialog({
+  open,
+  onOpenChange,
+  employeeIds,
+  onCompleted,
+}: BulkCancelServicesDialogProps) {
+  const [step, setStep] = useState<Step>('choose')
+  const [serviceType, setServiceType] = useState<ServiceType>('LUNCH')
+  const [result, setResult] = useState<BulkCancelServicesResponse | null>(null)
+
+  const preview = useBulkCancelPreview(employeeIds, serviceType, { enabled: open && step === 'preview' })
+  const bulkCancel = useBulkCancelServices()
+
+  const options = SERVICE_OPTIONS.filter(
+    (option) => option.value !== 'COMPENSATION' || isFeatureEnabled('compensation')
+  )
+  const serviceLabel = serviceType === 'LUNCH' ? 'обеды' : 'компенсацию'
+  const cancellableIds = preview.data?.items.filter((item) => item.canCancel).map((item) => item.employeeId) ?? []
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (bulkCancel.isPending) return
+    if (!nextOpen) {
+      setStep('choose')
+      setResult(null)
+      bulkCancel.reset()
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const handleConfirm = () => {
+    bulkCancel.mutate(
+      { employeeIds: cancellableIds, serviceType },
+      {
+        onSuccess: (response) => {
+          setResult(response)
+          setStep('result')
+          onCompleted?.(response)
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Отмена услуг</DialogTitle>
+          <DialogDescription>
+            {step === 'result'
+              ? 'Результат по каждому сотруднику'
+              : `Выбрано сотрудников: ${employeeIds.length}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogBody className="space-y-4">
+          {step === 'choose' && (
+            <div className="grid gap-3">
+              {options.map((option) => {
+                const Icon = option.icon
+                const isActive = serviceType === option.value
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setServiceType(option.value)}
+                    className={cn(
+                      'flex items-start gap-3 rounded-lg border p-4 text-left transition-colors',
+                      isActive ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                    )}
+                  >
+                    <Icon className={cn('h-5 w-5 mt-0.5', isActive ? 'text-primary' : 'text-muted-foreground')} />
+                    <div>
+                      <div className="font-medium">{option.label}</div>
+                      <div className="text-sm text-muted-foreground">{option.description}</div>
+                    </div>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <PreviewStep
+              preview={preview.data}
+              isLoading={preview.isLoading}
+              error={preview.error}
+            />
+          )}
+
+          {step === 'result' && result && <ResultStep result={result} />}
+        </DialogBody>
+
+        <DialogFooter>
+          {step === 'choose' && (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Отмена
+              </Button>
+              <Button onClick={() => setStep('preview')} disabled={employeeIds.length === 0}>
+                Далее
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('choose')} disabled={bulkCancel.isPending}>
+                Назад
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleConfirm}
+                disabled={cancellableIds.length === 0 || preview.isFetching || bulkCancel.isPending}
+              >
+                {bulkCancel.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Отменить {serviceLabel} для {cancellableIds.length}
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <Button onClick={() => handleOpenChange(false)}>Готово</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface PreviewStepProps {
+  preview?: BulkCancelPreview
+  isLoading: boolean
+  error: unknown
+}
+
+function PreviewStep({ preview, isLoading, error }: PreviewStepProps) {
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{parseError(error).message}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (isLoading || !preview) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    )
+  }
+
+  const isLunch = preview.serviceType === 'LUNCH'
+  const currency = preview.currencyCode
+  const skipped = preview.items.length - preview.cancellableCount
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3 rounded-lg border bg-muted/30 p-3 text-center">
+        <div>
+          <p className="text-lg font-bold tabular-nums">{preview.cancellableCount}</p>
+          <p className="text-xs text-muted-foreground">сотрудников</p>
+        </div>
+        <div>
+          <p className="text-lg font-bold tabular-nums">{preview.totalFutureOrders}</p>
+          <p className="text-xs text-muted-foreground">будущих заказов</p>
+        </div>
+        <div>
+          <p className="text-lg font-bold tabular-nums text-emerald-600">
+            {preview.totalRefund.toLocaleString('ru-RU')}
+          </p>
+          <p className="text-xs text-muted-foreground">возврат, {currency}</p>
+        </div>
+      </div>
+
+      {skipped > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {skipped} из {preview.items.length} будут пропущены — отменять нечего
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <ul className="max-h-64 overflow-y-auto divide-y rounded-lg border">
+        {preview.items.map((item) => (
+          <li
+            key={item.employeeId}
+            className={cn('flex items-center justify-between gap-3 px-3 py-2 text-sm', !item.canCancel && 'opacity-60')}
+          >
+            <div className="min-w-0">
+              <div className="font-medium truncate">{item.employeeName}</div>
+              {!item.canCancel && item.reason && (
+                <div className="text-xs text-muted-foreground">{item.reason}</div>
+              )}
+            </div>
+            {item.canCancel && (
+              <div className="text-right shrink-0 text-xs">
+                {isLunch ? (
+                  <>
+                    <div>{item.futureOrdersCount} заказ(ов)</div>
+                    {item.refundAmount > 0 && (
+                      <div className="text-emerald-600">
+                        +{item.refundAmount.toLocaleString('ru-RU')} {currency}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="text-muted-foreground">
+                    остаток {(item.remainingBudget ?? 0).toLocaleString('ru-RU')} {currency}
+                  </div>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {!isLunch && (
+        <p className="text-xs text-muted-foreground">
+          Неизрасходованный лимит компенсации не списывался с бюджета проекта, поэтому возврата нет.
+        </p>
+      )}
+    </div>
+  )
+}
+
+function ResultStep({ result }: { result: BulkCancelServicesResponse }) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline" className="gap-1">
+          <CheckCircle2 className="h-3 w-3 text-emerald-600" />
+          Отменено: {result.cancelled.length}
+        </Badge>
+        {result.errors.length > 0 && (
+          <Badge variant="outline" className="gap-1">
+            <XCircle className="h-3 w-3 text-destructive" />
+            Ошибок: {result.errors.length}
+          </Badge>
+        )}
+        {result.cancelledOrders > 0 && (
+          <Badge variant="outline">Заказов отменено: {result.cancelledOrders}</Badge>
+        )}
+        {result.totalRefund > 0 && (
+          <Badge variant="outline" className="text-emerald-600">
+            Возврат: {result.totalRefund.toLocaleString('ru-RU')}
+          </Badge>
+        )}
+      </div>
+
+      <ul className="max-h-64 overflow-y-auto divide-y rounded-lg border text-sm">
+        {result.cancelled.map((item) => (
+          <li key={item.employeeId} className="flex items-center gap-2 px-3 py-2">
+            <CheckCircle2 className="h-4 w-4 shrink-0 text-emerald-600" />
+            <span className="flex-1 truncate">{item.employeeName}</span>
+            {item.cancelledOrders > 0 && (
+              <span className="text-xs text-muted-foreground">{item.cancelledOrders} заказ(ов)</span>
+            )}
+          </li>
+        ))}
+        {result.errors.map((error) => (
+          <li key={error.employeeId} className="flex items-start gap-2 px-3 py-2">
+            <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+            <span className="flex-1 text-destructive">{error.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
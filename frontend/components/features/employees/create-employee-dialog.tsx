@@ -6,6 +6,7 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import * as z from 'zod'
 import { useEmployeesStore } from '@/stores/employees-store'
 import { useAuthStore } from '@/stores/auth-store'
+import { useProjectsStore } from '@/stores/projects-store'
 import { parseError, ErrorCodes, applyFieldErrors } from '@/lib/errors'
 import { logger } from '@/lib/logger'
 import {
@@ -75,11 +76,17 @@ type FormValues = z.infer<typeof formSchema>
 interface CreateEmployeeDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
+  /** Project selected in the page scope; defaults to the user's own project */
+  projectId?: string
 }
 
-export function CreateEmployeeDialog({ open, onOpenChange }: CreateEmployeeDialogProps) {
+export function CreateEmployeeDialog({ open, onOpenChange, projectId: scopeProjectId }: CreateEmployeeDialogProps) {
   const { createEmployee } = useEmployeesStore()
-  const { projectId } = useAuthStore()
+  const { projectId: userProjectId, projectName: userProjectName } = useAuthStore()
+  const projects = useProjectsStore((state) => state.projects)
+  const projectId = scopeProjectId ?? userProjectId
+  const projectName =
+    projects.find((p) => p.id === projectId)?.name ?? (projectId === userProjectId ? userProjectName : null)
   const [loading, setLoading] = useState(false)
 
   const form = useForm<FormValues>({
@@ -191,6 +198,11 @@ export function CreateEmployeeDialog({ open, onOpenChange }: CreateEmployeeDialo
               <DialogTitle>Создать сотрудника</DialogTitle>
               <DialogDescription>
                 Заполните обязательные поля для создания нового сотрудника
+                {projectName && (
+                  <>
+                    {' '}в проекте <span className="font-medium text-foreground">«{projectName}»</span>
+                  </>
+                )}
               </DialogDescription>
             </DialogHeader>
 
@@ -6,3 +6,4 @@ export { EmployeesStats } from './employees-stats'
 export { CreateEmployeeDialog } from './create-employee-dialog'
 export { EditEmployeeDialog } from './edit-employee-dialog'
 
+export { BulkCancelServicesDialog } from './bulk-cancel-services-dialog'
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Export button
+ * Format picker for server-side table exports. While the file is being
+ * generated and downloaded the button shows the download progress.
+ */
+
+'use client'
+
+import { Download, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  EXPORT_FORMAT_LABELS,
+  type ExportFormat,
+  type ExportProgress,
+} from '@/lib/api/export'
+
+const FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]
+
+interface ExportButtonProps {
+  onExport: (format: ExportFormat) => void
+  isExporting: boolean
+  progress: ExportProgress | null
+  disabled?: boolean
+}
+
+function getProgressLabel(progress: ExportProgress | null) {
+  if (progress?.percent != null) return `Экспорт ${progress.percent}%`
+  if (progress && progress.loaded > 0) return `Экспорт ${Math.round(progress.loaded / 1024)} КБ`
+  // Nothing received yet: the server is still generating the file
+  return 'Подготовка...'
+}
+
+export function ExportButton({ onExport, isExporting, progress, disabled }: ExportButtonProps) {
+  if (isExporting) {
+    return (
+      <Button variant="outline" disabled className="relative gap-2 overflow-hidden">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span className="tabular-nums">{getProgressLabel(progress)}</span>
+        {progress?.percent != null && (
+          <Progress value={progress.percent} className="absolute inset-x-0 bottom-0 h-0.5 rounded-none" />
+        )}
+      </Button>
+    )
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled}>
+          <Download className="h-4 w-4" />
+          Экспорт
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          С текущими фильтрами
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMATS.map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => onExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
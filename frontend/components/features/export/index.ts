@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Export components exports
+ */
+
+export { ExportButton } from './export-button'
@@ -3,11 +3,12 @@
 import { useState, useEffect, useMemo } from 'react'
 import { format } from 'date-fns'
 import { ru } from 'date-fns/locale'
-import { useHomeStore } from '@/stores/home-store'
 import { parseError, ErrorCodes } from '@/lib/errors'
 import { logger } from '@/lib/logger'
 import { formatISODate } from '@/lib/utils/date'
-import { ORDER_STATUS, getOrderStatusConfig, isOrderCancelled } from '@/lib/constants/entity-statuses'
+import { getOrderStatusConfig } from '@/lib/constants/entity-statuses'
+import { canTransitionOrder, mapApiOrderStatusToState } from '@/lib/machines'
+import { scheduleBulkOrderAction } from '@/lib/commands'
 import {
   Users,
   UtensilsCrossed,
@@ -118,8 +119,8 @@ const ACTION_OPTIONS: ActionOption[] = [
     icon: <Trash2 className="h-5 w-5" />,
     color: 'text-destructive',
     bgColor: 'bg-destructive/10',
-    available: () => true,
-    getApplicableCount: (orders) => orders.length,
+    available: (orders) => orders.some(o => canTransitionOrder(o.status, 'cancel')),
+    getApplicableCount: (orders) => orders.filter(o => canTransitionOrder(o.status, 'cancel')).length,
   },
 ]
 
@@ -138,7 +139,6 @@ export function BulkEditDialog({
   selectedDate,
   onSuccess,
 }: BulkEditDialogProps) {
-  const { bulkAction } = useHomeStore()
   const [selectedAction, setSelectedAction] = useState<BulkAction | null>(null)
   const [comboType, setComboType] = useState<ComboType>('Комбо 25')
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -169,10 +169,10 @@ export function BulkEditDialog({
   const stats = useMemo(() => {
     const lunch = selectedOrders.filter(o => o.serviceType === 'LUNCH' || !o.serviceType).length
     const compensation = selectedOrders.filter(o => o.serviceType === 'COMPENSATION').length
-    const active = selectedOrders.filter(o => o.status === ORDER_STATUS.ACTIVE || o.status === 'Активен').length
-    // 'На паузе' is DEPRECATED, use 'Приостановлен'
-    const paused = selectedOrders.filter(o => o.status === ORDER_STATUS.PAUSED || o.status === 'Приостановлен' || o.status === 'На паузе').length
-    const cancelled = selectedOrders.filter(o => isOrderCancelled(o.status)).length
+    const states = selectedOrders.map(o => mapApiOrderStatusToState(o.status))
+    const active = states.filter(state => state === 'confirmed').length
+    const paused = states.filter(state => state === 'paused').length
+    const cancelled = states.filter(state => state === 'cancelled').length
 
     // Группировка по комбо
     const byCombo = selectedOrders.reduce((acc, o) => {
@@ -248,7 +248,6 @@ export function BulkEditDialog({
 
     setIsSubmitting(true)
     try {
-      const orderIds = selectedOrders.map(o => o.id)
       const employeeIds = [...new Set(selectedOrders.map(o => o.employeeId).filter(Boolean))] as string[]
 
       switch (selectedAction) {
@@ -267,8 +266,7 @@ export function BulkEditDialog({
             action: 'changecombo',
             comboType,
           }
-          await bulkAction(request)
-          toast.success(`Комбо изменено для ${lunchOrders.length} заказов`)
+          scheduleBulkOrderAction(request)
           break
         }
 
@@ -283,11 +281,16 @@ export function BulkEditDialog({
         }
 
         case 'cancel': {
-          const request: BulkActionRequest = { orderIds, action: 'cancel' }
-          await bulkAction(request)
-          toast.success(`Отменено: ${orderIds.length} заказов`, {
-            description: 'Стоимость возвращена на баланс',
-          })
+          // Уже отменённые и выполненные заказы пропускаем
+          const cancellableIds = selectedOrders.filter(o => canTransitionOrder(o.status, 'cancel')).map(o => o.id)
+
+          if (cancellableIds.length === 0) {
+            toast.error('Нет заказов для отмены')
+            return
+          }
+
+          const request: BulkActionRequest = { orderIds: cancellableIds, action: 'cancel' }
+          scheduleBulkOrderAction(request)
           break
         }
       }
@@ -3,10 +3,7 @@
 import { useEffect, useState } from 'react'
 import { format } from 'date-fns'
 import { ru } from 'date-fns/locale'
-import { useHomeStore } from '@/stores/home-store'
-import { parseError, ErrorCodes } from '@/lib/errors'
-import { logger } from '@/lib/logger'
-import { Loader2 } from 'lucide-react'
+import { scheduleBulkOrderAction } from '@/lib/commands'
 import {
   Dialog,
   DialogBody,
@@ -31,9 +28,7 @@ interface EditSubscriptionDialogProps {
 }
 
 export function EditSubscriptionDialog({ open, onOpenChange, order }: EditSubscriptionDialogProps) {
-  const { bulkAction } = useHomeStore()
   const [comboType, setComboType] = useState<ComboType>('Комбо 25')
-  const [isSubmitting, setIsSubmitting] = useState(false)
 
   // Текущие значения из заказа
   const currentCombo = order?.comboType as ComboType | undefined
@@ -51,11 +46,12 @@ export function EditSubscriptionDialog({ open, onOpenChange, order }: EditSubscr
 
   useEffect(() => {
     if (open && order) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect -- reset the form for the order being opened
       setComboType((order.comboType as ComboType) || 'Комбо 25')
     }
   }, [open, order])
 
-  const handleSubmit = async () => {
+  const handleSubmit = () => {
     if (!order?.id) {
       toast.error('Не удалось определить заказ')
       return
@@ -68,27 +64,14 @@ export function EditSubscriptionDialog({ open, onOpenChange, order }: EditSubscr
 
     // NOTE: Address cannot be changed - it comes from employee's project
 
-    setIsSubmitting(true)
-    try {
-      // Меняем комбо только для ЭТОГО заказа, а не всей подписки
-      await bulkAction({
-        orderIds: [order.id],
-        action: 'changecombo',
-        comboType,
-      })
-      toast.success(`Комбо изменено на ${comboType}`, {
-        description: `Заказ на ${orderDateFormatted}`,
-      })
-      onOpenChange(false)
-    } catch (error) {
-      const appError = parseError(error)
-      logger.error('Failed to change order combo', error instanceof Error ? error : new Error(appError.message), {
-        errorCode: appError.code,
-      })
-      toast.error(appError.message, { description: appError.action })
-    } finally {
-      setIsSubmitting(false)
-    }
+    // Меняем комбо только для ЭТОГО заказа, а не всей подписки.
+    // Sent after the undo window; failures are reported by the command
+    scheduleBulkOrderAction({
+      orderIds: [order.id],
+      action: 'changecombo',
+      comboType,
+    })
+    onOpenChange(false)
   }
 
   if (!order) return null
@@ -164,22 +147,14 @@ export function EditSubscriptionDialog({ open, onOpenChange, order }: EditSubscr
             type="button"
             variant="outline"
             onClick={() => onOpenChange(false)}
-            disabled={isSubmitting}
           >
             Отмена
           </Button>
           <Button
             onClick={handleSubmit}
-            disabled={!hasChanges || isSubmitting}
+            disabled={!hasChanges}
           >
-            {isSubmitting ? (
-              <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Сохранение...
-              </>
-            ) : (
-              'Сохранить изменения'
-            )}
+            Сохранить изменения
           </Button>
         </DialogFooter>
       </DialogContent>
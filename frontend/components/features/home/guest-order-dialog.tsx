@@ -40,7 +40,8 @@ import { format, parseISO } from 'date-fns'
 import { ru } from 'date-fns/locale'
 import { parseError, ErrorCodes } from '@/lib/errors'
 import { logger } from '@/lib/logger'
-import { formatISODate } from '@/lib/utils/date'
+import { formatISODate, hasCutoffPassed } from '@/lib/utils/date'
+import { useProjectCutoff } from '@/lib/query/hooks'
 import { isWorkingDay, DEFAULT_WORKING_DAYS } from '@/lib/constants/employee'
 import {
   Form,
@@ -63,20 +64,12 @@ type FormValues = z.infer<typeof formSchema>
 interface GuestOrderDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
+  /** Project selected in the page scope; defaults to the user's own project */
+  projectId?: string
 }
 
 const todayIso = formatISODate(new Date())
 
-const hasCutoffPassed = (cutoffTime: string | null) => {
-  if (!cutoffTime) return false
-  const [hours, minutes] = cutoffTime.split(':').map((part) => Number(part))
-  if (Number.isNaN(hours) || Number.isNaN(minutes)) return false
-  const now = new Date()
-  const cutoff = new Date()
-  cutoff.setHours(hours, minutes, 0, 0)
-  return now > cutoff
-}
-
 /**
  * Get display date for guest orders.
  * If date is provided, use it. Otherwise, use today or next working day.
@@ -102,15 +95,19 @@ const getDisplayDate = (isoDate?: string) => {
   return date
 }
 
-export function GuestOrderDialog({ open, onOpenChange }: GuestOrderDialogProps) {
+export function GuestOrderDialog({ open, onOpenChange, projectId: scopeProjectId }: GuestOrderDialogProps) {
   const {
     createGuestOrder,
     dashboard,
     activeFilters,
-    cutoffTime,
+    cutoffTime: companyCutoffTime,
   } = useHomeStore()
   const { projects, fetchProjects } = useProjectsStore()
   const { projectId: userProjectId, projectName: userProjectName } = useAuthStore()
+  const targetProjectId = scopeProjectId ?? userProjectId
+  // The JWT only carries the name of the user's own project
+  const targetProjectName = targetProjectId === userProjectId ? userProjectName : null
+  const { cutoffTime, timezone: projectTimezone } = useProjectCutoff(targetProjectId, companyCutoffTime)
   const [loading, setLoading] = useState(false)
   const [confirmOpen, setConfirmOpen] = useState(false)
   const [pendingData, setPendingData] = useState<CreateGuestOrderRequest | null>(null)
@@ -132,10 +129,10 @@ export function GuestOrderDialog({ open, onOpenChange }: GuestOrderDialogProps)
     [orderDate]
   )
 
-  // Get the user's project info - address will be taken automatically from the project
-  const userProject = useMemo(
-    () => projects?.find((p) => p.id === userProjectId) || null,
-    [projects, userProjectId]
+  // Get the target project info - address will be taken automatically from the project
+  const targetProject = useMemo(
+    () => projects?.find((p) => p.id === targetProjectId) || null,
+    [projects, targetProjectId]
   )
 
   const form = useForm<FormValues>({
@@ -155,7 +152,7 @@ export function GuestOrderDialog({ open, onOpenChange }: GuestOrderDialogProps)
   const budgetInsufficient = remainingBudget < 0
   const isTodaySelected = orderDateIso === todayIso
   const isPastDate = orderDateIso < todayIso
-  const isCutoffLocked = isTodaySelected && hasCutoffPassed(cutoffTime || null)
+  const isCutoffLocked = isTodaySelected && hasCutoffPassed(cutoffTime, projectTimezone)
   const pastDateDisabledReason = isPastDate
     ? 'Нельзя создать заказ на прошедшую дату'
     : null
@@ -170,7 +167,7 @@ export function GuestOrderDialog({ open, onOpenChange }: GuestOrderDialogProps)
   const submissionDisabledReason = pastDateDisabledReason || budgetDisabledReason || cutoffDisabledReason
   const canSubmit =
     !loading &&
-    !!userProjectId &&
+    !!targetProjectId &&
     !submissionDisabledReason &&
     !budgetInsufficient &&
     quantity > 0
@@ -205,18 +202,18 @@ export function GuestOrderDialog({ open, onOpenChange }: GuestOrderDialogProps)
       toast.error(submissionDisabledReason)
       return
     }
-    if (!userProjectId) {
+    if (!targetProjectId) {
       toast.error('Проект не найден', {
         description: 'Вы не привязаны к проекту. Обратитесь к администратору.',
       })
       return
     }
-    // projectId берётся автоматически из JWT claims на бэкенде
+    // Для филиальных админов бэкенд всё равно подставляет проект из JWT claims
     const request: CreateGuestOrderRequest = {
       orderName: data.orderName,
       quantity: data.quantity,
       comboType: data.comboType,
-      projectId: userProjectId, // Автоматически из проекта пользователя
+      projectId: targetProjectId, // Проект из области страницы или проект пользователя
       date: data.date,
     }
     setPendingData(request)
@@ -363,16 +360,16 @@ export function GuestOrderDialog({ open, onOpenChange }: GuestOrderDialogProps)
                 {/* Адрес доставки автоматически берётся из проекта */}
                 <div className="rounded-lg border border-primary/20 bg-primary/5 p-4">
                   <Label className="text-sm font-medium">Адрес доставки</Label>
-                  {userProject ? (
+                  {targetProject ? (
                     <div className="mt-1.5 space-y-1">
-                      <p className="font-semibold">{userProject.name}</p>
+                      <p className="font-semibold">{targetProject.name}</p>
                       <p className="text-sm text-muted-foreground">
-                        {userProject.addressFullAddress || userProject.addressName || 'Адрес не указан'}
+                        {targetProject.addressFullAddress || targetProject.addressName || 'Адрес не указан'}
                       </p>
                     </div>
-                  ) : userProjectName ? (
+                  ) : targetProjectName ? (
                     <div className="mt-1.5">
-                      <p className="font-semibold">{userProjectName}</p>
+                      <p className="font-semibold">{targetProjectName}</p>
                       <p className="text-sm text-muted-foreground">
                         Адрес будет взят из настроек проекта
                       </p>
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Delivery Manifest Sheet
+ * Printable list of one day's deliveries for a project: address, combo counts,
+ * employees with phone, guest orders and compensation usage.
+ * Styled for A4 print as well as the screen (browser print → PDF).
+ */
+
+'use client'
+
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { MapPin, Lock } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { parseLocalDate } from '@/lib/utils/date'
+import { formatTJS } from '@/lib/utils/format'
+import type { DeliveryManifest, ManifestEntry } from '@/lib/manifest'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface DeliveryManifestSheetProps {
+  manifest: DeliveryManifest
+  /** Cutoff the lock refers to, HH:mm */
+  cutoffTime: string | null
+  isLocked: boolean
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Parts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function EntriesTable({ entries, showPhone }: { entries: ManifestEntry[]; showPhone: boolean }) {
+  return (
+    <table className="w-full text-sm border-collapse">
+      <thead>
+        <tr className="border-b text-left text-xs text-muted-foreground">
+          <th className="py-1.5 pr-2 w-10">№</th>
+          <th className="py-1.5 pr-2">{showPhone ? 'Сотрудник' : 'Заказ'}</th>
+          {showPhone && <th className="py-1.5 pr-2">Телефон</th>}
+          <th className="py-1.5 pr-2">Комбо</th>
+          <th className="py-1.5 w-16 text-center hidden print:table-cell">Выдано</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry, index) => (
+          <tr key={entry.orderId} className="border-b last:border-0 break-inside-avoid">
+            <td className="py-1.5 pr-2 text-muted-foreground tabular-nums">{index + 1}</td>
+            <td className="py-1.5 pr-2 font-medium">{entry.name}</td>
+            {showPhone && <td className="py-1.5 pr-2 tabular-nums">{entry.phone || '—'}</td>}
+            <td className="py-1.5 pr-2">{entry.comboType ?? '—'}</td>
+            <td className="py-1.5 text-center hidden print:table-cell">☐</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Component
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function DeliveryManifestSheet({ manifest, cutoffTime, isLocked }: DeliveryManifestSheetProps) {
+  const dateLabel = format(parseLocalDate(manifest.date), 'EEEE, d MMMM yyyy', { locale: ru })
+
+  return (
+    <article className="rounded-lg border bg-card p-6 space-y-6 print:border-0 print:p-0 print:text-black">
+      {/* Header */}
+      <header className="flex flex-wrap items-start justify-between gap-4 border-b pb-4">
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold">Манифест доставки — {manifest.projectName}</h2>
+          <p className="text-sm capitalize">{dateLabel}</p>
+          <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+            <MapPin className="h-4 w-4 shrink-0" />
+            {manifest.address ?? 'Адрес не указан'}
+          </p>
+        </div>
+        <div className="text-right space-y-1">
+          <p className="text-3xl font-bold tabular-nums">{manifest.totalMeals}</p>
+          <p className="text-xs text-muted-foreground">порций к доставке</p>
+          {isLocked && (
+            <Badge variant="secondary" className="gap-1">
+              <Lock className="h-3 w-3" />
+              {cutoffTime ? `Зафиксирован в ${cutoffTime}` : 'Зафиксирован'}
+            </Badge>
+          )}
+        </div>
+      </header>
+
+      {/* Combo counts */}
+      <section className="space-y-2 break-inside-avoid">
+        <h3 className="text-sm font-semibold">Количество по комбо</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {manifest.comboCounts.map((count) => (
+            <div key={count.comboType} className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">{count.comboType}</p>
+              <p className="text-2xl font-bold tabular-nums">{count.total}</p>
+              <p className="text-[11px] text-muted-foreground">
+                {count.employees} сотр. · {count.guests} гост.
+              </p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Employees */}
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold">Сотрудники ({manifest.employees.length})</h3>
+        {manifest.employees.length > 0 ? (
+          <EntriesTable entries={manifest.employees} showPhone />
+        ) : (
+          <p className="text-sm text-muted-foreground">Нет заказов сотрудников</p>
+        )}
+      </section>
+
+      {/* Guests */}
+      {manifest.guests.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold">Гостевые заказы ({manifest.guests.length})</h3>
+          <EntriesTable entries={manifest.guests} showPhone={false} />
+        </section>
+      )}
+
+      {/* Compensation */}
+      {manifest.compensation.length > 0 && (
+        <section className="space-y-2 break-inside-avoid">
+          <h3 className="text-sm font-semibold">Компенсация ({manifest.compensation.length})</h3>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b text-left text-xs text-muted-foreground">
+                <th className="py-1.5 pr-2">Сотрудник</th>
+                <th className="py-1.5 pr-2 text-right">Потрачено</th>
+                <th className="py-1.5 text-right">Лимит</th>
+              </tr>
+            </thead>
+            <tbody>
+              {manifest.compensation.map((row) => (
+                <tr key={row.employeeId} className="border-b last:border-0">
+                  <td className="py-1.5 pr-2 font-medium">{row.employeeName}</td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{formatTJS(row.totalUsed)}</td>
+                  <td className="py-1.5 text-right tabular-nums">{formatTJS(row.dailyLimit)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <footer className="hidden print:flex justify-between border-t pt-3 text-xs">
+        <span>Принял: ____________________</span>
+        <span>Подпись: ____________________</span>
+      </footer>
+    </article>
+  )
+}
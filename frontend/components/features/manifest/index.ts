@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Delivery manifest components exports
+ */
+
+export { DeliveryManifestSheet } from './delivery-manifest-sheet'
+export { ManifestChanges } from './manifest-changes'
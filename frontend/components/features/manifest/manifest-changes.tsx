@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Manifest Changes Component
+ * Orders added, removed or switched to another combo after the manifest was
+ * locked, so the kitchen can adjust the printed list.
+ */
+
+'use client'
+
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { ArrowRight, CheckCircle2, Minus, Plus, RefreshCw } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import type { ManifestSnapshot } from '@/lib/api/home'
+import type { ManifestChange, ManifestChangeKind } from '@/lib/manifest'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface ManifestChangesProps {
+  changes: ManifestChange[]
+  snapshot: ManifestSnapshot
+  cutoffTime: string | null
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const CHANGE_CONFIG: Record<ManifestChangeKind, { label: string; icon: typeof Plus; className: string }> = {
+  added: {
+    label: 'Добавлен',
+    icon: Plus,
+    className: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400',
+  },
+  changed: {
+    label: 'Изменён',
+    icon: RefreshCw,
+    className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
+  },
+  removed: {
+    label: 'Снят',
+    icon: Minus,
+    className: 'bg-red-500/10 text-red-600 dark:text-red-400',
+  },
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Component
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function ManifestChanges({ changes, snapshot, cutoffTime }: ManifestChangesProps) {
+  const lockedAt = format(new Date(snapshot.lockedAt), 'd MMM, HH:mm', { locale: ru })
+
+  return (
+    <Card className="break-inside-avoid">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Изменения после отсечки</CardTitle>
+        <CardDescription>
+          {`Сравнение с манифестом на ${cutoffTime ?? 'время отсечки'} (зафиксирован ${lockedAt})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {changes.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+            Изменений нет
+          </p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {changes.map((change) => {
+              const config = CHANGE_CONFIG[change.kind]
+              const Icon = config.icon
+              return (
+                <li key={`${change.kind}-${change.entry.orderId}`} className="flex flex-wrap items-center gap-2 py-2">
+                  <Badge variant="outline" className={cn('gap-1 border-0', config.className)}>
+                    <Icon className="h-3 w-3" />
+                    {config.label}
+                  </Badge>
+                  <span className="font-medium">{change.entry.name}</span>
+                  {change.entry.isGuest && <span className="text-xs text-muted-foreground">гость</span>}
+                  <span className="ml-auto flex items-center gap-1 text-muted-foreground">
+                    {change.kind === 'changed' && (
+                      <>
+                        <span className="line-through">{change.previousComboType ?? '—'}</span>
+                        <ArrowRight className="h-3 w-3" />
+                      </>
+                    )}
+                    <span className={cn(change.kind === 'removed' && 'line-through')}>
+                      {change.entry.comboType ?? '—'}
+                    </span>
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -27,6 +27,8 @@ import { logger } from "@/lib/logger";
 import { servicesApi } from "@/lib/api/services";
 import type { Employee, EmployeeDetail } from "@/lib/api/employees";
 import { useBusinessConfig } from "@/lib/hooks/use-business-config";
+import { useServiceAvailability } from "@/lib/query/hooks";
+import { ServiceAvailabilityAlert } from "./service-availability-alert";
 
 interface CompensationSummary {
   id: string;
@@ -211,12 +213,30 @@ export function ManageCompensationDialog({
     setSelectedEmployeeIds(prev => prev.filter(id => validEmployeeIdsSet.has(id)));
   }, [validEmployeeIdsSet]);
 
+  // CRITICAL: Filter selectedEmployeeIds to only include valid employees
+  const submitEmployeeIds = useMemo(
+    () => mode === "individual" && employee
+      ? [employee.id]
+      : selectedEmployeeIds.filter(id => validEmployeeIdsSet.has(id)),
+    [mode, employee, selectedEmployeeIds, validEmployeeIdsSet]
+  );
+
+  // Server-side pre-check: the employee list here can be outdated
+  const availability = useServiceAvailability(submitEmployeeIds, "COMPENSATION", {
+    enabled: open && !isEditing && individualValidation.isValid,
+  });
+
+  const excludeEmployees = useCallback((ids: string[]) => {
+    setSelectedEmployeeIds(prev => prev.filter(id => !ids.includes(id)));
+  }, []);
+
   // FIXED: Use working days count for validation
   // Uses dynamic minDays from business config instead of hardcoded value
   // FIXED: Use visibleSelectionCount to only count valid employees (moved after visibleSelectionCount declaration)
   const canSubmit = dailyLimitNum > 0 && startDate && endDate && workingDaysCount >= minSubscriptionDays && 
     (mode === "individual" || visibleSelectionCount > 0) && 
-    (mode !== "individual" || individualValidation.isValid);
+    (mode !== "individual" || individualValidation.isValid) &&
+    (isEditing || (!availability.isChecking && availability.blocked.length === 0));
   
   // Определяем причину пустого списка с диагностикой
   const getEmptyReason = () => {
@@ -279,13 +299,8 @@ export function ManageCompensationDialog({
         });
         toast.success("Компенсация обновлена");
       } else {
-        // CRITICAL: Filter selectedEmployeeIds to only include valid employees
-        const filteredEmployeeIds = mode === "individual" && employee 
-          ? [employee.id] 
-          : selectedEmployeeIds.filter(id => validEmployeeIdsSet.has(id));
-        
         const result = await servicesApi.createCompensations({
-          employeeIds: filteredEmployeeIds,
+          employeeIds: submitEmployeeIds,
           dailyLimit: dailyLimitNum,
           startDate: formatDate(startDate),
           endDate: formatDate(endDate),
@@ -574,6 +589,16 @@ export function ManageCompensationDialog({
               />
             </Label>
 
+            {!isEditing && (
+              <ServiceAvailabilityAlert
+                blocked={availability.blocked}
+                isChecking={availability.isChecking}
+                error={availability.error}
+                selectedCount={submitEmployeeIds.length}
+                onExclude={mode === "bulk" ? excludeEmployees : undefined}
+              />
+            )}
+
             {/* Summary */}
             <div className="p-6 rounded-2xl bg-gradient-to-br from-emerald-500/10 via-emerald-500/5 to-transparent border-2 border-emerald-500/20">
               <div className="flex items-center gap-4">
@@ -32,6 +32,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
 import { parseError, ErrorCodes } from "@/lib/errors";
 import { DaySelector } from "./day-selector";
+import { ServiceAvailabilityAlert } from "./service-availability-alert";
+import { useServiceAvailability } from "@/lib/query/hooks";
 import { servicesApi, type ScheduleType, type ComboType } from "@/lib/api/services";
 import { employeesApi, type Employee, type EmployeeDetail, type DayOfWeek } from "@/lib/api/employees";
 import { COMBO_OPTIONS_EXTENDED } from "@/lib/config";
@@ -416,6 +418,24 @@ export function ManageLunchDialog({
     setSelectedEmployeeIds(prev => prev.filter(id => validEmployeeIdsSet.has(id)));
   }, [validEmployeeIdsSet]);
 
+  // CRITICAL: Only employees from the current shift filter are submitted
+  // (selection may still contain employees from the other shift)
+  const submitEmployeeIds = useMemo(
+    () => mode === "individual" && employee
+      ? [employee.id]
+      : selectedEmployeeIds.filter(id => validEmployeeIdsSet.has(id)),
+    [mode, employee, selectedEmployeeIds, validEmployeeIdsSet]
+  );
+
+  // Pre-check on the summary step: conflicts are shown before submitting
+  const availability = useServiceAvailability(submitEmployeeIds, "LUNCH", {
+    enabled: open && !isEditing && step === 4,
+  });
+
+  const excludeEmployees = useCallback((ids: string[]) => {
+    setSelectedEmployeeIds(prev => prev.filter(id => !ids.includes(id)));
+  }, []);
+
   // For bulk mode: calculate total price based on each employee's individual working days
   // CRITICAL: Only count employees that pass current shift filter (shiftFilteredEmployees)
   // MOVED HERE: After shiftFilteredEmployees and visibleSelectionCount are declared
@@ -484,7 +504,8 @@ export function ManageLunchDialog({
 
   // FIXED: Use visibleSelectionCount to only count employees matching current shift filter
   // MOVED HERE: After visibleSelectionCount is declared
-  const canProceedStep4 = mode === "individual" || visibleSelectionCount > 0;
+  const canProceedStep4 = (mode === "individual" || visibleSelectionCount > 0) &&
+    !availability.isChecking && availability.blocked.length === 0;
 
   // Подсчёт сотрудников для каждого типа графика (для отображения в UI)
   // CRITICAL: Эта логика должна быть идентична scheduleTypeFilteredEmployees!
@@ -614,14 +635,8 @@ export function ManageLunchDialog({
         });
         toast.success("Подписка обновлена");
       } else {
-        // CRITICAL: Filter selectedEmployeeIds by current shift filter to avoid sending
-        // employees from wrong shift that might still be in selection after filter change
-        const filteredEmployeeIds = mode === "individual" && employee
-          ? [employee.id]
-          : selectedEmployeeIds.filter(id => validEmployeeIdsSet.has(id));
-
         const result = await servicesApi.createLunchSubscriptions({
-          employeeIds: filteredEmployeeIds,
+          employeeIds: submitEmployeeIds,
           comboType,
           startDate: formatDate(startDate),
           endDate: formatDate(endDate),
@@ -1547,6 +1562,14 @@ export function ManageLunchDialog({
                   </section>
                 )}
 
+                <ServiceAvailabilityAlert
+                  blocked={availability.blocked}
+                  isChecking={availability.isChecking}
+                  error={availability.error}
+                  selectedCount={submitEmployeeIds.length}
+                  onExclude={mode === "bulk" ? excludeEmployees : undefined}
+                />
+
                 {/* Summary Cards */}
                 <div className="grid sm:grid-cols-2 gap-4">
                   {/* Период */}
@@ -0,0 +1,103 @@
+"use client";
+
+import { AlertTriangle, CheckCircle2, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import type { ServiceAvailability } from "@/lib/api/services";
+import { pluralEmployees } from "@/lib/utils/format";
+
+interface ServiceAvailabilityAlertProps {
+  /** Selected employees that cannot get the service */
+  blocked: ServiceAvailability[];
+  isChecking: boolean;
+  /** Set when the check itself failed */
+  error?: unknown;
+  /** Number of selected employees, used for the "all available" state */
+  selectedCount: number;
+  /** Removes employees from the selection; omitted in individual mode */
+  onExclude?: (employeeIds: string[]) => void;
+}
+
+/**
+ * Result of the availability pre-check shown before the summary:
+ * blocked employees with the reason and one-click exclusion.
+ */
+export function ServiceAvailabilityAlert({
+  blocked, isChecking, error, selectedCount, onExclude,
+}: ServiceAvailabilityAlertProps) {
+  if (selectedCount === 0) return null;
+
+  if (blocked.length > 0) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">
+              {selectedCount === 1 && !onExclude
+                ? "Услугу нельзя назначить"
+                : `Нельзя назначить: ${pluralEmployees(blocked.length)}`}
+            </span>
+            {onExclude && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onExclude(blocked.map(item => item.employeeId))}
+                className="h-7 text-xs shrink-0"
+              >
+                Исключить всех
+              </Button>
+            )}
+          </div>
+          <ul className="space-y-1.5 max-h-40 overflow-y-auto">
+            {blocked.map(item => (
+              <li key={item.employeeId} className="flex items-start justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium">{item.employeeName || "Сотрудник"}</span>
+                  <span className="text-destructive/80"> — {item.blockingReason}</span>
+                </div>
+                {onExclude && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onExclude([item.employeeId])}
+                    className="h-6 w-6 shrink-0"
+                    aria-label={`Исключить ${item.employeeName}`}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (isChecking) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Проверяем доступность...
+      </div>
+    );
+  }
+
+  if (error) {
+    // Not critical: the server validates again on submit
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <AlertTriangle className="h-4 w-4 text-amber-600" />
+        Не удалось проверить доступность — конфликты будут показаны после сохранения
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-emerald-700 dark:text-emerald-400">
+      <CheckCircle2 className="h-4 w-4" />
+      {selectedCount === 1 ? "Сотрудник доступен для назначения" : "Все выбранные сотрудники доступны для назначения"}
+    </div>
+  );
+}
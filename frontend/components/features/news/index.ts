@@ -0,0 +1,6 @@
+/**
+ * @fileoverview News components exports
+ */
+
+export { NewsFeed } from './news-feed'
+export { NewsDetailSheet } from './news-detail-sheet'
@@ -0,0 +1,57 @@
+'use client'
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Separator } from '@/components/ui/separator'
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { useNewsItem } from '@/lib/query/hooks'
+import { getNewsCategoryLabel, getNewsDate } from '@/lib/api/news'
+
+interface NewsDetailSheetProps {
+  newsId: string | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function NewsDetailSheet({ newsId, onOpenChange }: NewsDetailSheetProps) {
+  const { data: news, isLoading } = useNewsItem(newsId)
+
+  return (
+    <Sheet open={Boolean(newsId)} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-6 sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{news?.title ?? 'Новость'}</SheetTitle>
+          <SheetDescription>
+            {news
+              ? format(new Date(getNewsDate(news)), 'd MMMM yyyy, HH:mm', { locale: ru })
+              : 'Загрузка...'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading || !news ? (
+          <div className="space-y-3">
+            <Skeleton className="h-5 w-24" />
+            <Skeleton className="h-5 w-full" />
+            <Skeleton className="h-5 w-full" />
+            <Skeleton className="h-5 w-2/3" />
+          </div>
+        ) : (
+          <>
+            <div>
+              <Badge variant="outline">{getNewsCategoryLabel(news.category)}</Badge>
+            </div>
+            <Separator />
+            <div className="text-sm leading-relaxed whitespace-pre-line">{news.content}</div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview News feed
+ * Category-filtered feed of published news with read tracking.
+ * Opening an item marks it as read and updates the sidebar badge.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { ChevronLeft, ChevronRight, Newspaper, RefreshCw } from 'lucide-react'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useMarkNewsRead, useNews } from '@/lib/query/hooks'
+import {
+  NEWS_CATEGORY_LABELS,
+  getNewsCategoryLabel,
+  getNewsDate,
+  type NewsCategory,
+  type NewsItem,
+} from '@/lib/api/news'
+import { cn } from '@/lib/utils'
+import { NewsDetailSheet } from './news-detail-sheet'
+
+const PAGE_SIZE = 10
+
+const CATEGORIES = Object.keys(NEWS_CATEGORY_LABELS) as NewsCategory[]
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Sub-Components
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function NewsCard({ item, onOpen }: { item: NewsItem; onOpen: (item: NewsItem) => void }) {
+  return (
+    <Card
+      role="button"
+      tabIndex={0}
+      onClick={() => onOpen(item)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault()
+          onOpen(item)
+        }
+      }}
+      className="p-4 cursor-pointer transition-colors hover:bg-muted/50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      <div className="flex items-start gap-3">
+        <span
+          className={cn('mt-2 h-2 w-2 shrink-0 rounded-full', item.isRead ? 'bg-transparent' : 'bg-primary')}
+          aria-label={item.isRead ? undefined : 'Не прочитано'}
+        />
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className={cn('truncate', item.isRead ? 'font-medium' : 'font-semibold')}>{item.title}</h3>
+            <Badge variant="outline" className="text-xs">
+              {getNewsCategoryLabel(item.category)}
+            </Badge>
+          </div>
+          <p className="text-sm text-muted-foreground line-clamp-2">{item.content}</p>
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(getNewsDate(item)), 'd MMMM yyyy', { locale: ru })}
+          </p>
+        </div>
+      </div>
+    </Card>
+  )
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Main Component
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function NewsFeed() {
+  const [category, setCategory] = useState<NewsCategory | undefined>()
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const [page, setPage] = useState(1)
+  const [openedId, setOpenedId] = useState<string | null>(null)
+
+  const { data, isLoading, isFetching, refetch } = useNews({ page, pageSize: PAGE_SIZE, category, unreadOnly })
+  const markAsRead = useMarkNewsRead()
+
+  const items = data?.items ?? []
+  const total = data?.total ?? 0
+  const totalPages = data?.totalPages ?? 0
+  const hasActiveFilters = Boolean(category) || unreadOnly
+
+  const changeCategory = (value: NewsCategory | undefined) => {
+    setCategory(value)
+    setPage(1)
+  }
+
+  const openNews = (item: NewsItem) => {
+    setOpenedId(item.id)
+    if (!item.isRead) markAsRead.mutate(item.id)
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant={category ? 'outline' : 'default'} onClick={() => changeCategory(undefined)}>
+          Все
+        </Button>
+        {CATEGORIES.map((value) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={category === value ? 'default' : 'outline'}
+            onClick={() => changeCategory(value)}
+          >
+            {NEWS_CATEGORY_LABELS[value]}
+          </Button>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            size="sm"
+            variant={unreadOnly ? 'secondary' : 'ghost'}
+            aria-pressed={unreadOnly}
+            onClick={() => {
+              setUnreadOnly(!unreadOnly)
+              setPage(1)
+            }}
+          >
+            Только непрочитанные
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching} aria-label="Обновить новости">
+            <RefreshCw className={cn('h-4 w-4', isFetching && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Feed */}
+      {isLoading && (
+        <div className="space-y-3">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-[104px] rounded-xl" />
+          ))}
+        </div>
+      )}
+
+      {!isLoading && items.length === 0 && (
+        <Card className="p-12 text-center">
+          <Newspaper className="h-12 w-12 mx-auto text-muted-foreground/30 mb-4" />
+          <p className="text-muted-foreground">
+            {hasActiveFilters ? 'Нет новостей по выбранным фильтрам' : 'Новостей пока нет'}
+          </p>
+        </Card>
+      )}
+
+      {!isLoading && items.length > 0 && (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <NewsCard key={item.id} item={item} onOpen={openNews} />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, total)} из {total}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium px-2">
+              {page} / {totalPages}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <NewsDetailSheet newsId={openedId} onOpenChange={(open) => !open && setOpenedId(null)} />
+    </div>
+  )
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Partners components exports
+ */
+
+export { PartnersDirectory } from './partners-directory'
+export { PartnersMap, PARTNER_TYPE_COLORS } from './partners-map'
+export { PartnerDetailSheet } from './partner-detail-sheet'
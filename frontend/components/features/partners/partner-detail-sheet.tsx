@@ -0,0 +1,155 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Separator } from '@/components/ui/separator'
+import { Clock, ExternalLink, Mail, MapPin, Navigation, Phone, Receipt } from 'lucide-react'
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { usePartner } from '@/lib/query/hooks'
+import {
+  formatDistance,
+  getMapUrl,
+  getPartnerTypeLabel,
+  hasCoordinates,
+} from '@/lib/api/partners'
+import { parseLocalDate } from '@/lib/utils/date'
+
+interface PartnerDetailSheetProps {
+  partnerId: string | null
+  /** Project used for distance and to scope transactions */
+  projectId?: string
+  currencyCode?: string
+  onOpenChange: (open: boolean) => void
+}
+
+export function PartnerDetailSheet({ partnerId, projectId, currencyCode = 'TJS', onOpenChange }: PartnerDetailSheetProps) {
+  const { data: partner, isLoading } = usePartner(partnerId, projectId)
+
+  return (
+    <Sheet open={Boolean(partnerId)} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-6 sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{partner?.name ?? 'Партнёр'}</SheetTitle>
+          <SheetDescription>
+            {partner
+              ? [getPartnerTypeLabel(partner.type), partner.cuisine].filter(Boolean).join(' · ')
+              : 'Загрузка...'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading || !partner ? (
+          <div className="space-y-3">
+            <Skeleton className="h-5 w-full" />
+            <Skeleton className="h-5 w-2/3" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : (
+          <>
+            <dl className="space-y-3 text-sm">
+              <DetailRow icon={<MapPin className="h-4 w-4" />}>
+                <span>{partner.address}</span>
+                {hasCoordinates(partner) && (
+                  <a
+                    href={getMapUrl(partner.latitude, partner.longitude)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-primary hover:underline ml-2"
+                  >
+                    На карте
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+              </DetailRow>
+              {partner.distanceKm !== null && (
+                <DetailRow icon={<Navigation className="h-4 w-4" />}>
+                  {formatDistance(partner.distanceKm)} от офиса
+                </DetailRow>
+              )}
+              {partner.workingHours && (
+                <DetailRow icon={<Clock className="h-4 w-4" />}>{partner.workingHours}</DetailRow>
+              )}
+              {partner.phone && (
+                <DetailRow icon={<Phone className="h-4 w-4" />}>
+                  <a href={`tel:${partner.phone}`} className="hover:underline">{partner.phone}</a>
+                </DetailRow>
+              )}
+              {partner.email && (
+                <DetailRow icon={<Mail className="h-4 w-4" />}>
+                  <a href={`mailto:${partner.email}`} className="hover:underline">{partner.email}</a>
+                </DetailRow>
+              )}
+            </dl>
+
+            <Separator />
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Компенсаций</p>
+                <p className="text-2xl font-bold tabular-nums">{partner.transactionsCount.toLocaleString('ru-RU')}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Оплачено компанией</p>
+                <p className="text-2xl font-bold tabular-nums">
+                  {partner.totalCompanyPaid.toLocaleString('ru-RU')}
+                  <span className="text-sm font-normal text-muted-foreground ml-1">{currencyCode}</span>
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">Последние компенсации</h3>
+              {partner.recentTransactions.length === 0 ? (
+                <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+                  <Receipt className="h-8 w-8 mx-auto mb-2 opacity-30" />
+                  Сотрудники ещё не использовали компенсацию здесь
+                </div>
+              ) : (
+                <ul className="divide-y rounded-lg border">
+                  {partner.recentTransactions.map((transaction) => (
+                    <li key={transaction.id} className="flex items-center justify-between gap-3 px-3 py-2.5 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{transaction.employeeName || '—'}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {format(parseLocalDate(transaction.transactionDate), 'd MMM yyyy', { locale: ru })}
+                          {transaction.projectName && ` · ${transaction.projectName}`}
+                        </div>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <div className="font-semibold tabular-nums">
+                          {transaction.totalAmount.toLocaleString('ru-RU')} {currencyCode}
+                        </div>
+                        {transaction.employeePaidAmount > 0 && (
+                          <Badge variant="outline" className="text-[10px] font-normal">
+                            доплата {transaction.employeePaidAmount.toLocaleString('ru-RU')}
+                          </Badge>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+function DetailRow({ icon, children }: { icon: ReactNode; children: ReactNode }) {
+  return (
+    <div className="flex items-start gap-3">
+      <dt className="text-muted-foreground mt-0.5">{icon}</dt>
+      <dd className="min-w-0 flex-1">{children}</dd>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Partners directory
+ * Venues where compensation can be spent: search, type and radius filters,
+ * nearest-first list next to a proximity map, and a detail panel.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { MapPin, Search } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DataTable } from '@/components/ui/data-table'
+import { usePartners } from '@/lib/query/hooks'
+import { useDebounce } from '@/lib/hooks'
+import {
+  PARTNER_DISTANCE_OPTIONS,
+  PARTNER_TYPE_LABELS,
+  formatDistance,
+  getPartnerTypeLabel,
+  hasCoordinates,
+  type Partner,
+  type PartnerType,
+} from '@/lib/api/partners'
+import { parseError } from '@/lib/errors'
+import { PartnersMap, PARTNER_TYPE_COLORS } from './partners-map'
+import { PartnerDetailSheet } from './partner-detail-sheet'
+
+const ANY_DISTANCE = 'any'
+
+const TYPES = Object.keys(PARTNER_TYPE_LABELS) as PartnerType[]
+
+const columns: ColumnDef<Partner>[] = [
+  {
+    accessorKey: 'name',
+    header: 'Название',
+    cell: ({ row }) => (
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span
+            className="h-2 w-2 shrink-0 rounded-full"
+            style={{ backgroundColor: PARTNER_TYPE_COLORS[row.original.type] }}
+          />
+          <span className="font-medium truncate">{row.original.name}</span>
+        </div>
+        {row.original.cuisine && (
+          <div className="text-xs text-muted-foreground truncate pl-4">{row.original.cuisine}</div>
+        )}
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'type',
+    header: 'Тип',
+    size: 110,
+    cell: ({ row }) => <Badge variant="outline">{getPartnerTypeLabel(row.original.type)}</Badge>,
+  },
+  {
+    accessorKey: 'address',
+    header: 'Адрес',
+    cell: ({ row }) => <span className="text-sm text-muted-foreground line-clamp-2">{row.original.address}</span>,
+  },
+  {
+    accessorKey: 'distanceKm',
+    header: () => <div className="text-right">Расстояние</div>,
+    size: 110,
+    cell: ({ row }) => (
+      <div className="text-right font-medium tabular-nums whitespace-nowrap">
+        {formatDistance(row.original.distanceKm)}
+      </div>
+    ),
+  },
+]
+
+interface PartnersDirectoryProps {
+  /** Project whose address is used as the origin; undefined = company default */
+  projectId?: string
+}
+
+export function PartnersDirectory({ projectId }: PartnersDirectoryProps) {
+  const [search, setSearch] = useState('')
+  const [type, setType] = useState<PartnerType | undefined>()
+  const [distance, setDistance] = useState(ANY_DISTANCE)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const debouncedSearch = useDebounce(search, 300)
+  const maxDistanceKm = distance === ANY_DISTANCE ? undefined : Number(distance)
+
+  const { data, isLoading, error } = usePartners({ projectId, search: debouncedSearch, type, maxDistanceKm })
+
+  const partners = data?.items ?? []
+  const origin = data?.origin ?? null
+  const typeCounts = data?.typeCounts ?? {}
+  const allCount = TYPES.reduce((sum, value) => sum + (typeCounts[value] ?? 0), 0)
+  const canFilterByDistance = origin !== null && hasCoordinates(origin)
+  const hasActiveFilters = Boolean(debouncedSearch) || Boolean(type) || distance !== ANY_DISTANCE
+
+  const selectPartner = (partner: Partner) => setSelectedId(partner.id)
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Название, адрес или кухня..."
+            className="pl-10"
+          />
+        </div>
+        <Select value={distance} onValueChange={setDistance} disabled={!canFilterByDistance}>
+          <SelectTrigger className="w-[170px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_DISTANCE}>Любое расстояние</SelectItem>
+            {PARTNER_DISTANCE_OPTIONS.map((km) => (
+              <SelectItem key={km} value={String(km)}>
+                До {formatDistance(km)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant={type ? 'outline' : 'default'} onClick={() => setType(undefined)}>
+          Все
+          <span className="ml-1.5 tabular-nums opacity-70">{allCount}</span>
+        </Button>
+        {TYPES.map((value) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={type === value ? 'default' : 'outline'}
+            onClick={() => setType(value)}
+          >
+            {PARTNER_TYPE_LABELS[value]}
+            <span className="ml-1.5 tabular-nums opacity-70">{typeCounts[value] ?? 0}</span>
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{parseError(error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-5">
+        {/* List */}
+        <div className="lg:col-span-3">
+          <DataTable
+            columns={columns}
+            data={partners}
+            isLoading={isLoading}
+            loadingRows={6}
+            onRowClick={selectPartner}
+            emptyMessage={
+              <div className="py-12 text-center">
+                <MapPin className="h-10 w-10 mx-auto text-muted-foreground/30 mb-3" />
+                <p className="text-muted-foreground">
+                  {hasActiveFilters ? 'Нет партнёров по выбранным фильтрам' : 'Партнёров пока нет'}
+                </p>
+              </div>
+            }
+          />
+        </div>
+
+        {/* Map */}
+        <Card className="lg:col-span-2 h-fit">
+          <CardHeader>
+            <CardTitle>Карта</CardTitle>
+            <CardDescription>
+              {origin ? `От адреса: ${origin.address || origin.projectName}` : 'Партнёры поблизости'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PartnersMap
+              partners={partners}
+              origin={origin}
+              selectedId={selectedId}
+              onSelect={selectPartner}
+              isLoading={isLoading}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <PartnerDetailSheet
+        partnerId={selectedId}
+        projectId={projectId}
+        currencyCode={origin?.currencyCode}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+      />
+    </div>
+  )
+}
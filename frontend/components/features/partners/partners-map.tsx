@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Partners map
+ * Lightweight proximity map: the project address in the centre, partners
+ * plotted by their real offset with distance rings. No tiles or API keys needed;
+ * each venue links to OpenStreetMap for the street-level view.
+ */
+
+'use client'
+
+import { Building2 } from 'lucide-react'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  getPartnerTypeLabel,
+  hasCoordinates,
+  formatDistance,
+  type Partner,
+  type PartnerOrigin,
+  type PartnerType,
+} from '@/lib/api/partners'
+import { formatCount } from '@/lib/utils/format'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const PARTNER_TYPE_COLORS: Record<PartnerType, string> = {
+  RESTAURANT: '#6528f5',
+  CAFE: '#3b82f6',
+  CANTEEN: '#10b981',
+  OTHER: '#f59e0b',
+}
+
+const SIZE = 400
+const CENTER = SIZE / 2
+/** Keeps markers away from the edge */
+const PADDING = 24
+
+const RING_STEPS_KM = [0.25, 0.5, 1, 2, 5, 10, 20, 50]
+
+/** km per degree of latitude */
+const KM_PER_DEGREE = 111.32
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type Point = { latitude: number; longitude: number }
+
+/**
+ * Equirectangular projection around the centre, in km (accurate enough within a city)
+ */
+function toKm(point: Point, center: Point) {
+  return {
+    x: (point.longitude - center.longitude) * KM_PER_DEGREE * Math.cos((center.latitude * Math.PI) / 180),
+    y: (point.latitude - center.latitude) * KM_PER_DEGREE,
+  }
+}
+
+function getCenter(origin: PartnerOrigin | null, points: Point[]): Point | null {
+  if (origin && hasCoordinates(origin)) return origin
+  if (points.length === 0) return null
+  return {
+    latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+    longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Main Component
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface PartnersMapProps {
+  partners: Partner[]
+  origin: PartnerOrigin | null
+  selectedId?: string | null
+  onSelect: (partner: Partner) => void
+  isLoading?: boolean
+}
+
+export function PartnersMap({ partners, origin, selectedId, onSelect, isLoading }: PartnersMapProps) {
+  if (isLoading) {
+    return <Skeleton className="aspect-square w-full rounded-lg" />
+  }
+
+  const located = partners.filter(hasCoordinates)
+  const hiddenCount = partners.length - located.length
+  const center = getCenter(origin, located)
+
+  if (!center) {
+    return (
+      <div className="aspect-square w-full rounded-lg border border-dashed flex items-center justify-center p-6 text-center text-sm text-muted-foreground">
+        Нет партнёров с координатами для отображения на карте
+      </div>
+    )
+  }
+
+  const hasOriginPoint = Boolean(origin && hasCoordinates(origin))
+  const projected = located.map((partner) => ({ partner, ...toKm(partner, center) }))
+  const extentKm = Math.max(0.25, ...projected.map((p) => Math.max(Math.abs(p.x), Math.abs(p.y))))
+  const scale = (CENTER - PADDING) / extentKm
+  const rings = RING_STEPS_KM.filter((km) => km <= extentKm).slice(-3)
+
+  // Selected marker is drawn last so it stays on top
+  const ordered = [...projected].sort((a, b) => Number(a.partner.id === selectedId) - Number(b.partner.id === selectedId))
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="aspect-square w-full rounded-lg border bg-muted/30"
+        role="img"
+        aria-label="Карта партнёров"
+      >
+        {rings.map((km) => (
+          <g key={km}>
+            <circle
+              cx={CENTER}
+              cy={CENTER}
+              r={km * scale}
+              fill="none"
+              className="stroke-border"
+              strokeDasharray="4 4"
+            />
+            <text x={CENTER + 4} y={CENTER - km * scale - 4} className="fill-muted-foreground" fontSize={10}>
+              {formatDistance(km)}
+            </text>
+          </g>
+        ))}
+
+        {hasOriginPoint && (
+          <g>
+            <title>{origin?.projectName}</title>
+            <circle cx={CENTER} cy={CENTER} r={9} className="fill-foreground" />
+            <circle cx={CENTER} cy={CENTER} r={3} className="fill-background" />
+          </g>
+        )}
+
+        {ordered.map(({ partner, x, y }) => {
+          const isSelected = partner.id === selectedId
+          return (
+            <g
+              key={partner.id}
+              transform={`translate(${CENTER + x * scale} ${CENTER - y * scale})`}
+              onClick={() => onSelect(partner)}
+              className="cursor-pointer"
+            >
+              <title>
+                {`${partner.name} · ${getPartnerTypeLabel(partner.type)} · ${formatDistance(partner.distanceKm)}`}
+              </title>
+              {isSelected && <circle r={12} fill={PARTNER_TYPE_COLORS[partner.type]} opacity={0.25} />}
+              <circle
+                r={isSelected ? 7 : 5}
+                fill={PARTNER_TYPE_COLORS[partner.type]}
+                className="stroke-background"
+                strokeWidth={2}
+              />
+            </g>
+          )
+        })}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {hasOriginPoint && (
+          <span className="flex items-center gap-1.5">
+            <Building2 className="h-3 w-3" />
+            {origin?.projectName}
+          </span>
+        )}
+        {(Object.keys(PARTNER_TYPE_COLORS) as PartnerType[]).map((type) => (
+          <span key={type} className="flex items-center gap-1.5">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: PARTNER_TYPE_COLORS[type] }} />
+            {getPartnerTypeLabel(type)}
+          </span>
+        ))}
+      </div>
+      {!hasOriginPoint && (
+        <p className="text-xs text-muted-foreground">
+          У адреса проекта нет координат — карта центрирована по партнёрам, расстояния не рассчитываются
+        </p>
+      )}
+      {hiddenCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {formatCount(hiddenCount, 'партнёр без координат не показан', 'партнёра без координат не показаны', 'партнёров без координат не показаны')}
+        </p>
+      )}
+    </div>
+  )
+}
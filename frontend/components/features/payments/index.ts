@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Payments components exports
+ */
+
+export { InvoicesTab, PendingInvoicesBadge, type InvoiceStatusFilter } from './invoices-tab'
+export { InvoiceDetailSheet } from './invoice-detail-sheet'
+export { InvoiceStatusBadge } from './invoice-status-badge'
+export { PayInvoiceDialog } from './pay-invoice-dialog'
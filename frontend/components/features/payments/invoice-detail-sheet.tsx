@@ -0,0 +1,136 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Separator } from '@/components/ui/separator'
+import { CheckCircle2 } from 'lucide-react'
+import { format, isBefore, startOfDay } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { useInvoice } from '@/lib/query/hooks'
+import { useCan } from '@/lib/hooks'
+import { isInvoicePayable, type Invoice } from '@/lib/api/invoices'
+import { InvoiceStatusBadge } from './invoice-status-badge'
+import { PayInvoiceDialog } from './pay-invoice-dialog'
+
+interface InvoiceDetailSheetProps {
+  invoiceId: string | null
+  onOpenChange: (open: boolean) => void
+  /** Called after the invoice was marked as paid (e.g. to refresh balance) */
+  onPaid?: (invoice: Invoice) => void
+}
+
+export function InvoiceDetailSheet({ invoiceId, onOpenChange, onPaid }: InvoiceDetailSheetProps) {
+  const { data: invoice, isLoading } = useInvoice(invoiceId)
+  const [payOpen, setPayOpen] = useState(false)
+  const canPay = useCan('payments:pay')
+
+  const isDuePassed =
+    !!invoice?.dueDate &&
+    invoice.status !== 'PAID' &&
+    isBefore(startOfDay(new Date(invoice.dueDate)), startOfDay(new Date()))
+
+  return (
+    <Sheet open={Boolean(invoiceId)} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-6 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>
+            {invoice?.externalId ? `Счёт №${invoice.externalId}` : 'Счёт'}
+          </SheetTitle>
+          <SheetDescription>
+            {invoice
+              ? `Выставлен ${format(new Date(invoice.createdAt), 'd MMMM yyyy', { locale: ru })}`
+              : 'Загрузка...'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading || !invoice ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-40" />
+            <Skeleton className="h-5 w-full" />
+            <Skeleton className="h-5 w-full" />
+            <Skeleton className="h-5 w-2/3" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Сумма</p>
+              <p className="text-3xl font-bold tabular-nums">
+                {invoice.amount.toLocaleString()}
+                <span className="text-base font-normal text-muted-foreground ml-2">
+                  {invoice.currencyCode}
+                </span>
+              </p>
+            </div>
+
+            <Separator />
+
+            <dl className="space-y-3 text-sm">
+              <DetailRow label="Статус">
+                <InvoiceStatusBadge status={invoice.status} />
+              </DetailRow>
+              <DetailRow label="Номер">{invoice.externalId || '—'}</DetailRow>
+              <DetailRow label="Срок оплаты">
+                <span className={isDuePassed ? 'text-red-600 dark:text-red-400 font-medium' : undefined}>
+                  {invoice.dueDate
+                    ? format(new Date(invoice.dueDate), 'd MMMM yyyy', { locale: ru })
+                    : '—'}
+                </span>
+              </DetailRow>
+              {invoice.paidAmount > 0 && invoice.status !== 'PAID' && (
+                <DetailRow label="Оплачено частично">
+                  {invoice.paidAmount.toLocaleString()} {invoice.currencyCode}
+                </DetailRow>
+              )}
+              <DetailRow label="Оплачен">
+                {invoice.paidAt
+                  ? format(new Date(invoice.paidAt), 'd MMMM yyyy, HH:mm', { locale: ru })
+                  : '—'}
+              </DetailRow>
+              <DetailRow label="Создан">
+                {format(new Date(invoice.createdAt), 'd MMMM yyyy, HH:mm', { locale: ru })}
+              </DetailRow>
+            </dl>
+
+            <SheetFooter className="mt-auto">
+              {canPay && isInvoicePayable(invoice) ? (
+                <Button className="w-full gap-2" onClick={() => setPayOpen(true)}>
+                  <CheckCircle2 className="h-4 w-4" />
+                  Отметить оплаченным
+                </Button>
+              ) : (
+                <Button variant="outline" className="w-full" onClick={() => onOpenChange(false)}>
+                  Закрыть
+                </Button>
+              )}
+            </SheetFooter>
+
+            <PayInvoiceDialog
+              open={payOpen}
+              onOpenChange={setPayOpen}
+              invoice={invoice}
+              onPaid={onPaid}
+            />
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+function DetailRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="text-right font-medium">{children}</dd>
+    </div>
+  )
+}
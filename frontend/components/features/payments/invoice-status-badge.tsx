@@ -0,0 +1,40 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, Check, Clock, X } from 'lucide-react'
+import { getInvoiceStatusLabel, type InvoiceStatus } from '@/lib/api/invoices'
+
+export function InvoiceStatusBadge({ status }: { status: InvoiceStatus }) {
+  switch (status) {
+    case 'PAID':
+      return (
+        <Badge variant="outline" className="gap-1 border-emerald-500/50 text-emerald-600 dark:text-emerald-400 bg-emerald-500/5">
+          <Check className="h-3 w-3" />
+          {getInvoiceStatusLabel(status)}
+        </Badge>
+      )
+    case 'UNPAID':
+      return (
+        <Badge variant="outline" className="gap-1 border-amber-500/50 text-amber-600 dark:text-amber-400 bg-amber-500/5">
+          <Clock className="h-3 w-3" />
+          {getInvoiceStatusLabel(status)}
+        </Badge>
+      )
+    case 'OVERDUE':
+      return (
+        <Badge variant="outline" className="gap-1 border-red-500/50 text-red-600 dark:text-red-400 bg-red-500/5">
+          <AlertTriangle className="h-3 w-3" />
+          {getInvoiceStatusLabel(status)}
+        </Badge>
+      )
+    case 'CANCELLED':
+      return (
+        <Badge variant="secondary" className="gap-1 bg-muted text-muted-foreground">
+          <X className="h-3 w-3" />
+          {getInvoiceStatusLabel(status)}
+        </Badge>
+      )
+    default:
+      return <Badge variant="outline">{status}</Badge>
+  }
+}
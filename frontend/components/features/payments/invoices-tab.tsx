@@ -0,0 +1,248 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { format, isBefore, startOfDay } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { ChevronLeft, ChevronRight, FileText, RefreshCw } from 'lucide-react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { DataTable } from '@/components/ui/data-table'
+import { DatePicker } from '@/components/ui/date-picker'
+import { useInvoices } from '@/lib/query/hooks'
+import {
+  INVOICE_STATUS_LABELS,
+  type Invoice,
+  type InvoiceStatus,
+} from '@/lib/api/invoices'
+import { formatISODate, parseLocalDate } from '@/lib/utils/date'
+import { formatCount } from '@/lib/utils/format'
+import { cn } from '@/lib/utils'
+import { InvoiceStatusBadge } from './invoice-status-badge'
+import { InvoiceDetailSheet } from './invoice-detail-sheet'
+
+export type InvoiceStatusFilter = 'all' | InvoiceStatus
+
+const STATUS_FILTERS: InvoiceStatusFilter[] = ['all', 'UNPAID', 'OVERDUE', 'PAID', 'CANCELLED']
+
+const PAGE_SIZE = 15
+
+interface InvoicesTabProps {
+  /** Initial status filter (e.g. UNPAID when opened from the pending-income summary) */
+  initialStatus?: InvoiceStatusFilter
+  /** Called after any invoice was marked as paid */
+  onInvoicePaid?: (invoice: Invoice) => void
+}
+
+export function InvoicesTab({ initialStatus = 'all', onInvoicePaid }: InvoicesTabProps) {
+  const [status, setStatus] = useState<InvoiceStatusFilter>(initialStatus)
+  const [from, setFrom] = useState<string | null>(null)
+  const [to, setTo] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const { data, isLoading, isFetching, refetch } = useInvoices({
+    page,
+    pageSize: PAGE_SIZE,
+    status: status === 'all' ? undefined : status,
+    from: from ?? undefined,
+    to: to ?? undefined,
+  })
+
+  const invoices = data?.items ?? []
+  const total = data?.total ?? 0
+  const totalPages = data?.totalPages ?? 0
+  const hasActiveFilters = status !== 'all' || from !== null || to !== null
+
+  const changeStatus = (value: InvoiceStatusFilter) => {
+    setStatus(value)
+    setPage(1)
+  }
+
+  const changePeriod = (setter: (value: string | null) => void) => (date: Date | undefined) => {
+    setter(date ? formatISODate(date) : null)
+    setPage(1)
+  }
+
+  const resetFilters = () => {
+    setStatus('all')
+    setFrom(null)
+    setTo(null)
+    setPage(1)
+  }
+
+  const columns = useMemo<ColumnDef<Invoice>[]>(() => [
+    {
+      accessorKey: 'createdAt',
+      header: 'Дата',
+      size: 120,
+      cell: ({ row }) => {
+        const createdAt = new Date(row.original.createdAt)
+        return (
+          <div className="text-sm space-y-0.5">
+            <div className="font-medium">{format(createdAt, 'd MMM yyyy', { locale: ru })}</div>
+            <div className="text-xs text-muted-foreground">{format(createdAt, 'HH:mm')}</div>
+          </div>
+        )
+      },
+    },
+    {
+      accessorKey: 'externalId',
+      header: 'Номер',
+      cell: ({ row }) => (
+        <div className="flex items-center gap-2">
+          <div className="p-1.5 rounded-md bg-emerald-500/10 dark:bg-emerald-500/20">
+            <FileText className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+          </div>
+          <span className="text-sm font-medium">
+            {row.original.externalId ? `№${row.original.externalId}` : 'Без номера'}
+          </span>
+        </div>
+      ),
+    },
+    {
+      accessorKey: 'status',
+      header: 'Статус',
+      size: 140,
+      cell: ({ row }) => <InvoiceStatusBadge status={row.original.status} />,
+    },
+    {
+      accessorKey: 'dueDate',
+      header: 'Срок оплаты',
+      size: 130,
+      cell: ({ row }) => {
+        const { dueDate, status: invoiceStatus } = row.original
+        if (!dueDate) return <span className="text-sm text-muted-foreground">—</span>
+        const isLate =
+          invoiceStatus !== 'PAID' &&
+          invoiceStatus !== 'CANCELLED' &&
+          isBefore(startOfDay(new Date(dueDate)), startOfDay(new Date()))
+        return (
+          <span className={cn('text-sm', isLate && 'text-red-600 dark:text-red-400 font-medium')}>
+            {format(new Date(dueDate), 'd MMM yyyy', { locale: ru })}
+          </span>
+        )
+      },
+    },
+    {
+      accessorKey: 'amount',
+      header: () => <div className="text-right">Сумма</div>,
+      size: 140,
+      cell: ({ row }) => (
+        <div className="text-right font-semibold tabular-nums">
+          {row.original.amount.toLocaleString()} {row.original.currencyCode}
+        </div>
+      ),
+    },
+  ], [])
+
+  return (
+    <div className="space-y-4">
+      {/* Status Quick-Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((value) => (
+          <Button
+            key={value}
+            variant={status === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => changeStatus(value)}
+          >
+            {value === 'all' ? 'Все' : INVOICE_STATUS_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+
+      {/* Period Filter Row */}
+      <div className="flex flex-wrap items-center gap-3">
+        <DatePicker
+          value={from ? parseLocalDate(from) : undefined}
+          onChange={changePeriod(setFrom)}
+          placeholder="Период с"
+          className="w-[160px]"
+        />
+        <DatePicker
+          value={to ? parseLocalDate(to) : undefined}
+          onChange={changePeriod(setTo)}
+          placeholder="по"
+          className="w-[160px]"
+        />
+
+        {hasActiveFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={resetFilters}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <RefreshCw className="h-3.5 w-3.5 mr-1.5" />
+            Сбросить
+          </Button>
+        )}
+
+        <div className="ml-auto flex items-center gap-3 text-sm text-muted-foreground">
+          {total > 0 && <span>{formatCount(total, 'счёт', 'счёта', 'счетов')}</span>}
+          <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching} aria-label="Обновить счета">
+            <RefreshCw className={cn('h-4 w-4', isFetching && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <DataTable
+          columns={columns}
+          data={invoices}
+          isLoading={isLoading}
+          loadingRows={5}
+          onRowClick={(invoice) => setSelectedId(invoice.id)}
+          emptyMessage={
+            <div className="py-12 text-center">
+              <FileText className="h-10 w-10 mx-auto text-muted-foreground/30 mb-3" />
+              <p className="text-muted-foreground">
+                {hasActiveFilters ? 'Нет счетов по выбранным фильтрам' : 'Счетов пока нет'}
+              </p>
+            </div>
+          }
+        />
+      </Card>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, total)} из {total}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium px-2">
+              {page} / {totalPages}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <InvoiceDetailSheet
+        invoiceId={selectedId}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+        onPaid={onInvoicePaid}
+      />
+    </div>
+  )
+}
+
+/**
+ * Small badge used in the payments page tab trigger
+ */
+export function PendingInvoicesBadge({ count }: { count: number }) {
+  if (count <= 0) return null
+  return (
+    <Badge variant="outline" className="h-5 px-1.5 text-xs border-emerald-500/50 text-emerald-600 dark:text-emerald-400">
+      {count}
+    </Badge>
+  )
+}
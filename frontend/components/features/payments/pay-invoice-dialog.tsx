@@ -0,0 +1,117 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogBody,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Info } from 'lucide-react'
+import { usePayInvoice } from '@/lib/query/hooks'
+import { getInvoiceOutstanding, type Invoice } from '@/lib/api/invoices'
+
+interface PayInvoiceDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  invoice: Invoice
+  /** Called after the invoice was marked as paid */
+  onPaid?: (invoice: Invoice) => void
+}
+
+export function PayInvoiceDialog({ open, onOpenChange, invoice, onPaid }: PayInvoiceDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex flex-col">
+        {/* Content unmounts on close, so the amount resets for every opening */}
+        <PayInvoiceForm invoice={invoice} onOpenChange={onOpenChange} onPaid={onPaid} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function PayInvoiceForm({ invoice, onOpenChange, onPaid }: Omit<PayInvoiceDialogProps, 'open'>) {
+  const payInvoice = usePayInvoice()
+  const outstanding = getInvoiceOutstanding(invoice)
+  const [amount, setAmount] = useState(String(outstanding))
+
+  const parsedAmount = Number(amount.replace(',', '.'))
+  const isAmountPositive = Number.isFinite(parsedAmount) && parsedAmount > 0
+  const exceedsOutstanding = isAmountPositive && parsedAmount > outstanding
+  const isAmountValid = isAmountPositive && !exceedsOutstanding
+  const isPartial = isAmountValid && parsedAmount < outstanding
+
+  const handleConfirm = async () => {
+    if (!isAmountValid) return
+    try {
+      const paid = await payInvoice.mutateAsync({ id: invoice.id, amount: parsedAmount })
+      onPaid?.(paid)
+      onOpenChange(false)
+    } catch {
+      // Toast is shown by usePayInvoice
+    }
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <DialogHeader>
+        <DialogTitle>Отметить счёт оплаченным</DialogTitle>
+        <DialogDescription>
+          Счёт {invoice.externalId ? `№${invoice.externalId}` : 'без номера'} на{' '}
+          {invoice.amount.toLocaleString()} {invoice.currencyCode}, к оплате{' '}
+          {outstanding.toLocaleString()} {invoice.currencyCode}. Сумма поступит на баланс
+          компании.
+        </DialogDescription>
+      </DialogHeader>
+
+      <DialogBody className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="invoice-paid-amount">Сумма поступления, {invoice.currencyCode}</Label>
+          <Input
+            id="invoice-paid-amount"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            aria-invalid={!isAmountValid}
+            disabled={payInvoice.isPending}
+          />
+          {!isAmountPositive && (
+            <p className="text-sm text-destructive">Введите сумму больше нуля</p>
+          )}
+          {exceedsOutstanding && (
+            <p className="text-sm text-destructive">
+              Сумма больше остатка по счёту ({outstanding.toLocaleString()} {invoice.currencyCode})
+            </p>
+          )}
+        </div>
+
+        {isPartial && (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              Частичная оплата: на баланс будет зачислено {parsedAmount.toLocaleString()}{' '}
+              {invoice.currencyCode}, счёт останется неоплаченным до погашения остатка (
+              {outstanding.toLocaleString()} {invoice.currencyCode}).
+            </AlertDescription>
+          </Alert>
+        )}
+      </DialogBody>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)} disabled={payInvoice.isPending}>
+          Отмена
+        </Button>
+        <Button onClick={handleConfirm} disabled={!isAmountValid || payInvoice.isPending}>
+          {payInvoice.isPending ? 'Сохранение...' : 'Подтвердить оплату'}
+        </Button>
+      </DialogFooter>
+    </div>
+  )
+}
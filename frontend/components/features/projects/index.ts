@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Projects components exports
+ */
+
+export { ProjectSettingsDialog } from './project-settings-dialog'
+export { ProjectScopeSelect } from './project-scope-select'
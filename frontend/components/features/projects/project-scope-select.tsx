@@ -0,0 +1,59 @@
+'use client'
+
+import { Building2, Lock } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { ALL_PROJECTS, type UseProjectScopeReturn } from '@/lib/hooks/use-project-scope'
+import { useAuthStore } from '@/stores/auth-store'
+import { useProjectsStore } from '@/stores/projects-store'
+import { cn } from '@/lib/utils'
+
+interface ProjectScopeSelectProps {
+  scope: UseProjectScopeReturn
+  className?: string
+}
+
+/**
+ * Project switcher for list pages. Headquarters users pick a project or
+ * "all projects"; branch admins see their project as a locked badge.
+ * The page is responsible for loading the projects list.
+ */
+export function ProjectScopeSelect({ scope, className }: ProjectScopeSelectProps) {
+  const userProjectName = useAuthStore((state) => state.projectName)
+  const projects = useProjectsStore((state) => state.projects)
+
+  if (scope.isLocked) {
+    return (
+      <Badge variant="secondary" className={cn('h-9 gap-1.5 px-3 font-normal', className)}>
+        <Lock className="h-3.5 w-3.5" />
+        {userProjectName || 'Мой проект'}
+      </Badge>
+    )
+  }
+
+  // Nothing to switch between in a single-project company
+  if (projects.length < 2) return null
+
+  return (
+    <Select value={scope.value} onValueChange={scope.setProject}>
+      <SelectTrigger className={cn('w-[200px]', className)} aria-label="Проект">
+        <Building2 className="h-4 w-4 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_PROJECTS}>Все проекты</SelectItem>
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={project.id}>
+            {project.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,298 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { Clock, Globe, Loader2, Wallet, CalendarDays } from 'lucide-react'
+import {
+  Dialog,
+  DialogBody,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TIME_REGEX } from '@/lib/constants'
+import { applyFieldErrors, parseError } from '@/lib/errors'
+import { useProjectSettings, useUpdateProjectSettings } from '@/lib/query/hooks'
+import { PROJECT_TIMEZONE_OPTIONS, type ProjectSettings } from '@/lib/api/projects'
+
+const formSchema = z.object({
+  timezone: z.string().min(1, 'Выберите часовой пояс'),
+  cutoffTime: z.string().regex(TIME_REGEX, 'Формат: ЧЧ:ММ'),
+  compensationDailyLimit: z.number().min(0, 'Лимит не может быть отрицательным'),
+  compensationRollover: z.boolean(),
+  subscriptionMinDays: z
+    .number()
+    .int('Введите целое число')
+    .min(1, 'Минимум 1 день')
+    .max(60, 'Максимум 60 дней'),
+})
+
+type FormValues = z.infer<typeof formSchema>
+
+interface ProjectSettingsDialogProps {
+  /** Project being edited; null closes the dialog */
+  projectId: string | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function ProjectSettingsDialog({ projectId, onOpenChange }: ProjectSettingsDialogProps) {
+  const { data: settings, isLoading, error } = useProjectSettings(projectId)
+
+  return (
+    <Dialog open={Boolean(projectId)} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg flex flex-col">
+        {settings ? (
+          // Keyed by project so the form starts from the loaded values on every open
+          <ProjectSettingsForm
+            key={settings.projectId}
+            settings={settings}
+            onClose={() => onOpenChange(false)}
+          />
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Настройки проекта</DialogTitle>
+              <DialogDescription>Время приёма заказов и правила услуг</DialogDescription>
+            </DialogHeader>
+            <DialogBody className="space-y-3">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{parseError(error).message}</AlertDescription>
+                </Alert>
+              )}
+              {isLoading && (
+                <>
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                </>
+              )}
+            </DialogBody>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface ProjectSettingsFormProps {
+  settings: ProjectSettings
+  onClose: () => void
+}
+
+function ProjectSettingsForm({ settings, onClose }: ProjectSettingsFormProps) {
+  const updateSettings = useUpdateProjectSettings()
+  const hasCompensation = settings.serviceTypes.includes('COMPENSATION')
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      timezone: settings.timezone,
+      cutoffTime: settings.cutoffTime,
+      compensationDailyLimit: settings.compensationDailyLimit,
+      compensationRollover: settings.compensationRollover,
+      subscriptionMinDays: settings.subscriptionMinDays,
+    },
+  })
+
+  // Keep a timezone that is not in the list (set via API) selectable
+  const timezoneOptions = PROJECT_TIMEZONE_OPTIONS.some((option) => option.value === settings.timezone)
+    ? PROJECT_TIMEZONE_OPTIONS
+    : [{ value: settings.timezone, label: settings.timezone }, ...PROJECT_TIMEZONE_OPTIONS]
+
+  const onSubmit = (data: FormValues) => {
+    updateSettings.mutate(
+      { projectId: settings.projectId, data },
+      {
+        onSuccess: onClose,
+        onError: (error) => {
+          applyFieldErrors(parseError(error), form.setError)
+        },
+      }
+    )
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col flex-1 min-h-0">
+        <DialogHeader>
+          <DialogTitle>Настройки проекта</DialogTitle>
+          <DialogDescription>{settings.projectName}</DialogDescription>
+        </DialogHeader>
+
+        <DialogBody className="space-y-6">
+          {/* Orders */}
+          <section className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Clock className="h-4 w-4 text-primary" />
+              <h4 className="font-medium">Приём заказов</h4>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-1.5">
+                      <Globe className="h-3.5 w-3.5" />
+                      Часовой пояс
+                    </FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {timezoneOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="cutoffTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Время отсечки</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              После отсечки заказы на сегодня нельзя создать или изменить. Время указывается по часовому поясу проекта.
+            </p>
+          </section>
+
+          {/* Subscriptions */}
+          <section className="space-y-4">
+            <div className="flex items-center gap-2">
+              <CalendarDays className="h-4 w-4 text-primary" />
+              <h4 className="font-medium">Подписки на обеды</h4>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="subscriptionMinDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Минимальный срок, рабочих дней</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={60}
+                      value={Number.isNaN(field.value) ? '' : field.value}
+                      onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    По умолчанию в компании: {settings.defaultSubscriptionMinDays}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </section>
+
+          {/* Compensation */}
+          {hasCompensation && (
+            <section className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Wallet className="h-4 w-4 text-primary" />
+                <h4 className="font-medium">Компенсация</h4>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="compensationDailyLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Дневной лимит, {settings.currencyCode}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={Number.isNaN(field.value) ? '' : field.value}
+                        onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="compensationRollover"
+                render={({ field }) => (
+                  <FormItem className="flex items-start gap-3 rounded-lg border p-3">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1">
+                      <FormLabel>Переносить остаток лимита</FormLabel>
+                      <FormDescription>
+                        Неиспользованный лимит дня добавляется к следующему рабочему дню
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            </section>
+          )}
+        </DialogBody>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={updateSettings.isPending}>
+            Отмена
+          </Button>
+          <Button type="submit" disabled={updateSettings.isPending || !form.formState.isDirty}>
+            {updateSettings.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Сохранить
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  )
+}
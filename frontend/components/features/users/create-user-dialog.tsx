@@ -7,7 +7,7 @@ import * as z from 'zod'
 import { useUsersStore } from '@/stores/users-store'
 import { parseError, ErrorCodes } from '@/lib/errors'
 import { logger } from '@/lib/logger'
-import { PHONE_REGEX, ROUTE_LABELS } from '@/lib/constants'
+import { PHONE_REGEX } from '@/lib/constants'
 import {
   Dialog,
   DialogBody,
@@ -19,9 +19,6 @@ import {
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { PasswordInput } from '@/components/ui/password-input'
-import { Label } from '@/components/ui/label'
-import { Checkbox } from '@/components/ui/checkbox'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import {
   Form,
@@ -33,26 +30,22 @@ import {
   FormMessage,
 } from '@/components/ui/form'
 import { toast } from 'sonner'
-import type { CreateUserRequest } from '@/lib/api/users'
+import { PermissionMatrix } from './permission-matrix'
+import { InviteChannelPicker, InvitationResult } from './invitation-link'
+import type { CreateUserRequest, UserInvitation } from '@/lib/api/users'
 
-const formSchema = z
-  .object({
-    fullName: z.string().trim().min(1, 'Обязательное поле'),
-    phone: z
-      .string()
-      .trim()
-      .min(1, 'Обязательное поле')
-      .regex(PHONE_REGEX, 'Введите корректный номер телефона'),
-    email: z.string().trim().email('Некорректный email'),
-    role: z.string().trim().min(1, 'Обязательное поле'),
-    password: z.string().min(6, 'Минимум 6 символов'),
-    confirmPassword: z.string(),
-    permissions: z.array(z.string()).min(1, 'Выберите хотя бы одну страницу'),
-  })
-  .refine((data) => data.password === data.confirmPassword, {
-    message: 'Пароли не совпадают',
-    path: ['confirmPassword'],
-  })
+const formSchema = z.object({
+  fullName: z.string().trim().min(1, 'Обязательное поле'),
+  phone: z
+    .string()
+    .trim()
+    .min(1, 'Обязательное поле')
+    .regex(PHONE_REGEX, 'Введите корректный номер телефона'),
+  email: z.string().trim().email('Некорректный email'),
+  role: z.string().trim().min(1, 'Обязательное поле'),
+  inviteChannel: z.enum(['email', 'sms']),
+  permissions: z.array(z.string()).min(1, 'Выберите хотя бы одну страницу'),
+})
 
 type FormValues = z.infer<typeof formSchema>
 
@@ -62,11 +55,13 @@ interface CreateUserDialogProps {
 }
 
 const CreateUserDialogComponent = ({ open, onOpenChange }: CreateUserDialogProps) => {
-  const { createUser, availableRoutes, fetchAvailableRoutes } = useUsersStore()
+  const { createUser, permissionGroups, fetchPermissionGroups } = useUsersStore()
   const [loading, setLoading] = useState(false)
-  const selectableRoutes = useMemo(
-    () => (availableRoutes || []).filter((route) => route !== 'users'),
-    [availableRoutes]
+  // Set when email/SMS failed: the link must be shown before the dialog closes
+  const [undelivered, setUndelivered] = useState<UserInvitation | null>(null)
+  const selectableGroups = useMemo(
+    () => permissionGroups.filter((group) => group.route !== 'users'),
+    [permissionGroups]
   )
 
   const form = useForm<FormValues>({
@@ -76,19 +71,25 @@ const CreateUserDialogComponent = ({ open, onOpenChange }: CreateUserDialogProps
       phone: '',
       email: '',
       role: '',
-      password: '',
-      confirmPassword: '',
+      inviteChannel: 'email',
       permissions: [],
     },
   })
 
   useEffect(() => {
     if (open) {
-      fetchAvailableRoutes()
+      fetchPermissionGroups()
     } else {
       form.reset()
     }
-  }, [open, fetchAvailableRoutes, form])
+  }, [open, fetchPermissionGroups, form])
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setUndelivered(null)
+    }
+    onOpenChange(next)
+  }
 
   const onSubmit = async (data: FormValues) => {
     setLoading(true)
@@ -100,15 +101,24 @@ const CreateUserDialogComponent = ({ open, onOpenChange }: CreateUserDialogProps
         phone: data.phone,
         email: data.email,
         role: data.role,
-        password: data.password,
         permissions: data.permissions,
+        inviteChannel: data.inviteChannel,
       }
-      await createUser(request)
-      
-      logger.info('User created successfully')
-      toast.success('Пользователь успешно создан')
-      toast.message('Новый аккаунт получит статус "Не активный" до первого входа')
+      const created = await createUser(request)
+      const invitation = created.invitation
+
+      logger.info('User created successfully', { delivered: invitation?.delivered })
+      toast.success('Пользователь создан')
       form.reset()
+
+      if (invitation?.inviteUrl) {
+        setUndelivered(invitation)
+        return
+      }
+
+      toast.message(`Приглашение отправлено на ${invitation?.sentTo ?? data.email}`, {
+        description: 'Аккаунт будет «Не активный», пока пользователь не задаст пароль по ссылке',
+      })
       onOpenChange(false)
     } catch (error) {
       const appError = parseError(error)
@@ -137,101 +147,118 @@ const CreateUserDialogComponent = ({ open, onOpenChange }: CreateUserDialogProps
   }
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col flex-1 min-h-0">
+        {undelivered ? (
+          <div className="flex flex-col flex-1 min-h-0">
             <DialogHeader>
-              <DialogTitle>Создать пользователя</DialogTitle>
-              <DialogDescription>
-                Заполните форму для создания нового пользователя
-              </DialogDescription>
+              <DialogTitle>Пользователь создан</DialogTitle>
+              <DialogDescription>Осталось передать ссылку для входа</DialogDescription>
             </DialogHeader>
+            <DialogBody>
+              <InvitationResult invitation={undelivered} />
+            </DialogBody>
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Готово</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col flex-1 min-h-0">
+              <DialogHeader>
+                <DialogTitle>Создать пользователя</DialogTitle>
+                <DialogDescription>
+                  Заполните форму для создания нового пользователя
+                </DialogDescription>
+              </DialogHeader>
 
-            <DialogBody className="space-y-4">
-              <ScrollArea className="h-full pr-4">
-                <div className="space-y-6">
-                  <div>
-                    <p className="text-xs uppercase font-semibold text-muted-foreground tracking-wide">
-                      Данные пользователя
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      Заполните профиль и временный пароль, который пользователь сменит при первом
-                      входе.
-                    </p>
-                  </div>
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="fullName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>ФИО *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Иванов Иван Иванович" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="phone"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Номер телефона *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="+992901234567" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+              <DialogBody className="space-y-4">
+                <ScrollArea className="h-full pr-4">
+                  <div className="space-y-6">
+                    <div>
+                      <p className="text-xs uppercase font-semibold text-muted-foreground tracking-wide">
+                        Данные пользователя
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Пароль задавать не нужно: пользователь получит одноразовую ссылку и придумает его сам.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="fullName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>ФИО *</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Иванов Иван Иванович" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="phone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Номер телефона *</FormLabel>
+                            <FormControl>
+                              <Input placeholder="+992901234567" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
 
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="email"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Email *</FormLabel>
-                          <FormControl>
-                            <Input type="email" placeholder="user@example.com" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email *</FormLabel>
+                            <FormControl>
+                              <Input type="email" placeholder="user@example.com" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <FormField
-                      control={form.control}
-                      name="role"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Роль *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Admin, Manager, etc." {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                      <FormField
+                        control={form.control}
+                        name="role"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Роль *</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Admin, Manager, etc." {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
 
-                  <div className="grid grid-cols-2 gap-4">
                     <FormField
                       control={form.control}
-                      name="password"
+                      name="inviteChannel"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Пароль *</FormLabel>
+                          <FormLabel>Отправить приглашение *</FormLabel>
                           <FormControl>
-                            <PasswordInput placeholder="Минимум 6 символов" {...field} />
+                            <InviteChannelPicker
+                              value={field.value}
+                              onChange={field.onChange}
+                              hints={{
+                                email: form.watch('email') || 'на указанный email',
+                                sms: form.watch('phone') || 'на указанный телефон',
+                              }}
+                            />
                           </FormControl>
-                          <FormDescription>
-                            Это временный пароль. Пользователь поменяет его при первом входе.
-                          </FormDescription>
+                          <FormDescription>Ссылка одноразовая и действует 7 дней.</FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -239,86 +266,45 @@ const CreateUserDialogComponent = ({ open, onOpenChange }: CreateUserDialogProps
 
                     <FormField
                       control={form.control}
-                      name="confirmPassword"
+                      name="permissions"
                       render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Подтвердите пароль *</FormLabel>
-                          <FormControl>
-                            <PasswordInput placeholder="Повторите пароль" {...field} />
-                          </FormControl>
+                        <FormItem className="space-y-3">
+                          <div className="space-y-2">
+                            <p className="text-xs uppercase font-semibold text-muted-foreground tracking-wide">
+                              Доступ к страницам и действиям
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              Выберите хотя бы одну страницу и отметьте действия, доступные на ней. Раздел&nbsp;
+                              <span className="font-medium">«Пользователи»</span> недоступен для
+                              делегирования.
+                            </p>
+                            <FormLabel className="text-base">Права доступа *</FormLabel>
+                          </div>
+                          <PermissionMatrix
+                            groups={selectableGroups}
+                            value={field.value ?? []}
+                            onChange={field.onChange}
+                            idPrefix="permission"
+                          />
                           <FormMessage />
                         </FormItem>
                       )}
                     />
                   </div>
+                </ScrollArea>
+              </DialogBody>
 
-                  <FormField
-                    control={form.control}
-                    name="permissions"
-                    render={({ field }) => (
-                      <FormItem className="space-y-3">
-                        <div className="space-y-2">
-                          <p className="text-xs uppercase font-semibold text-muted-foreground tracking-wide">
-                            Доступ к страницам
-                          </p>
-                          <p className="text-sm text-muted-foreground">
-                            Выберите хотя бы одну страницу. Раздел&nbsp;
-                            <span className="font-medium">«Пользователи»</span> недоступен для
-                            делегирования.
-                          </p>
-                          <FormLabel className="text-base">Права доступа *</FormLabel>
-                        </div>
-                        {selectableRoutes.length > 0 ? (
-                          <div className="grid grid-cols-2 gap-3 border rounded-lg p-4">
-                            {selectableRoutes.map((route) => {
-                              const currentValue = field.value ?? []
-                              const checked = currentValue.includes(route)
-                              return (
-                                <div key={route} className="flex items-center space-x-2">
-                                  <Checkbox
-                                    id={`permission-${route}`}
-                                    checked={checked}
-                                    onCheckedChange={(checkedValue) => {
-                                      const nextValue =
-                                        checkedValue === true
-                                          ? [...currentValue, route]
-                                          : currentValue.filter((p) => p !== route)
-                                      field.onChange(nextValue)
-                                    }}
-                                  />
-                                  <Label
-                                    htmlFor={`permission-${route}`}
-                                    className="text-sm font-normal cursor-pointer"
-                                  >
-                                    {ROUTE_LABELS[route] || route}
-                                  </Label>
-                                </div>
-                              )
-                            })}
-                          </div>
-                        ) : (
-                          <div className="text-sm text-muted-foreground border rounded-lg p-4">
-                            Нет доступных страниц для назначения.
-                          </div>
-                        )}
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-              </ScrollArea>
-            </DialogBody>
-
-            <DialogFooter>
-              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
-                Отмена
-              </Button>
-              <Button type="submit" disabled={loading}>
-                {loading ? 'Создание...' : 'Создать пользователя'}
-              </Button>
-            </DialogFooter>
-          </form>
-        </Form>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+                  Отмена
+                </Button>
+                <Button type="submit" disabled={loading}>
+                  {loading ? 'Создание...' : 'Создать и пригласить'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
       </DialogContent>
     </Dialog>
   )
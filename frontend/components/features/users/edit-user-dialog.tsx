@@ -7,7 +7,7 @@ import * as z from 'zod'
 import { useUsersStore } from '@/stores/users-store'
 import { parseError, ErrorCodes } from '@/lib/errors'
 import { logger } from '@/lib/logger'
-import { PHONE_REGEX, ROUTE_LABELS } from '@/lib/constants'
+import { PHONE_REGEX } from '@/lib/constants'
 import {
   Dialog,
   DialogBody,
@@ -19,11 +19,10 @@ import {
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Label } from '@/components/ui/label'
-import { Checkbox } from '@/components/ui/checkbox'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 import { toast } from 'sonner'
+import { PermissionMatrix } from './permission-matrix'
 import type { User, UpdateUserRequest } from '@/lib/api/users'
 
 const formSchema = z.object({
@@ -48,12 +47,12 @@ interface EditUserDialogProps {
 }
 
 const EditUserDialogComponent = ({ open, onOpenChange, user }: EditUserDialogProps) => {
-  const { updateUser, availableRoutes, fetchAvailableRoutes, fetchUser } = useUsersStore()
+  const { updateUser, permissionGroups, fetchPermissionGroups, fetchUser } = useUsersStore()
   const [loading, setLoading] = useState(false)
   const [initialPhone, setInitialPhone] = useState(user.phone)
-  const selectableRoutes = useMemo(
-    () => (availableRoutes || []).filter((route) => route !== 'users'),
-    [availableRoutes]
+  const selectableGroups = useMemo(
+    () => permissionGroups.filter((group) => group.route !== 'users'),
+    [permissionGroups]
   )
 
   const form = useForm<FormValues>({
@@ -71,7 +70,7 @@ const EditUserDialogComponent = ({ open, onOpenChange, user }: EditUserDialogPro
   useEffect(() => {
     let isMounted = true
     const load = async () => {
-      fetchAvailableRoutes()
+      fetchPermissionGroups()
       try {
         const freshUser = await fetchUser(user.id)
         if (!isMounted) return
@@ -108,7 +107,7 @@ const EditUserDialogComponent = ({ open, onOpenChange, user }: EditUserDialogPro
     return () => {
       isMounted = false
     }
-  }, [open, user, fetchUser, fetchAvailableRoutes, form])
+  }, [open, user, fetchUser, fetchPermissionGroups, form])
 
   const onSubmit = async (data: FormValues) => {
     setLoading(true)
@@ -269,47 +268,20 @@ const EditUserDialogComponent = ({ open, onOpenChange, user }: EditUserDialogPro
                     <FormItem className="space-y-3">
                       <div>
                         <p className="text-xs uppercase font-semibold text-muted-foreground tracking-wide">
-                          Доступ к страницам
+                          Доступ к страницам и действиям
                         </p>
                         <p className="text-sm text-muted-foreground">
-                          Права выбираются только для клиентских страниц. Раздел&nbsp;
+                          Без отмеченных действий страница доступна только для просмотра. Раздел&nbsp;
                           <span className="font-medium">«Пользователи»</span> всегда остаётся у Admin.
                         </p>
                         <FormLabel className="text-base">Права доступа *</FormLabel>
                       </div>
-                      {selectableRoutes.length > 0 ? (
-                        <div className="grid grid-cols-2 gap-3 border rounded-lg p-4">
-                          {selectableRoutes.map((route) => {
-                            const currentValue = field.value ?? []
-                            const checked = currentValue.includes(route)
-                            return (
-                              <div key={route} className="flex items-center space-x-2">
-                                <Checkbox
-                                  id={`edit-permission-${route}`}
-                                  checked={checked}
-                                  onCheckedChange={(checkedValue) => {
-                                    const nextValue =
-                                      checkedValue === true
-                                        ? [...currentValue, route]
-                                        : currentValue.filter((p) => p !== route)
-                                    field.onChange(nextValue)
-                                  }}
-                                />
-                                <Label
-                                  htmlFor={`edit-permission-${route}`}
-                                  className="text-sm font-normal cursor-pointer"
-                                >
-                                  {ROUTE_LABELS[route] || route}
-                                </Label>
-                              </div>
-                            )
-                          })}
-                        </div>
-                      ) : (
-                        <div className="text-sm text-muted-foreground border rounded-lg p-4">
-                          Нет доступных страниц для назначения.
-                        </div>
-                      )}
+                      <PermissionMatrix
+                        groups={selectableGroups}
+                        value={field.value ?? []}
+                        onChange={field.onChange}
+                        idPrefix="edit-permission"
+                      />
                       <FormMessage />
                     </FormItem>
                   )}
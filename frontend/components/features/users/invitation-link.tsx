@@ -0,0 +1,110 @@
+'use client'
+
+import { format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { AlertTriangle, CheckCircle2, Copy, Mail, MessageSquare } from 'lucide-react'
+import { toast } from 'sonner'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { cn, copyToClipboard } from '@/lib/utils'
+import type { InviteChannel, UserInvitation } from '@/lib/api/users'
+
+export const formatInviteDate = (value: string) => format(new Date(value), 'd MMM yyyy, HH:mm', { locale: ru })
+
+const CHANNEL_OPTIONS: { value: InviteChannel; label: string; icon: typeof Mail }[] = [
+  { value: 'email', label: 'Email', icon: Mail },
+  { value: 'sms', label: 'SMS', icon: MessageSquare },
+]
+
+interface InviteChannelPickerProps {
+  value: InviteChannel
+  onChange: (value: InviteChannel) => void
+  /** Shown under each option, e.g. the address the link will go to */
+  hints?: Partial<Record<InviteChannel, string>>
+  disabled?: boolean
+}
+
+/**
+ * Email / SMS choice for the activation link
+ */
+export function InviteChannelPicker({ value, onChange, hints, disabled }: InviteChannelPickerProps) {
+  return (
+    <RadioGroup
+      value={value}
+      onValueChange={(next) => onChange(next as InviteChannel)}
+      className="grid grid-cols-2 gap-3"
+      disabled={disabled}
+    >
+      {CHANNEL_OPTIONS.map(({ value: option, label, icon: Icon }) => (
+        <Label
+          key={option}
+          className={cn(
+            'flex items-center gap-3 rounded-lg border-2 p-3 cursor-pointer transition-all',
+            value === option ? 'border-primary bg-primary/5' : 'border-border'
+          )}
+        >
+          <RadioGroupItem value={option} />
+          <Icon className={cn('h-4 w-4', value === option ? 'text-primary' : 'text-muted-foreground')} />
+          <div className="min-w-0">
+            <p className="font-medium">{label}</p>
+            {hints?.[option] && (
+              <p className="text-xs text-muted-foreground truncate font-normal">{hints[option]}</p>
+            )}
+          </div>
+        </Label>
+      ))}
+    </RadioGroup>
+  )
+}
+
+/**
+ * Outcome of sending an invitation. When email/SMS did not go out the API returns
+ * the link once, so the admin can pass it on by hand
+ */
+export function InvitationResult({ invitation }: { invitation: UserInvitation }) {
+  const handleCopy = async () => {
+    if (invitation.inviteUrl && (await copyToClipboard(invitation.inviteUrl))) {
+      toast.success('Ссылка скопирована')
+    } else {
+      toast.error('Не удалось скопировать ссылку')
+    }
+  }
+
+  if (!invitation.inviteUrl) {
+    return (
+      <Alert>
+        <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+        <AlertDescription>
+          Ссылка для входа отправлена на <span className="font-medium">{invitation.sentTo}</span>. Она
+          действует до {formatInviteDate(invitation.expiresAt)}.
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          Не удалось отправить {invitation.channel === 'sms' ? 'SMS' : 'письмо'} на{' '}
+          <span className="font-medium">{invitation.sentTo}</span>. Передайте ссылку пользователю сами — после
+          закрытия окна её нельзя будет посмотреть снова.
+        </AlertDescription>
+      </Alert>
+      <div className="flex gap-2">
+        <Input value={invitation.inviteUrl} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+        <Button type="button" variant="outline" onClick={handleCopy} className="gap-2 shrink-0">
+          <Copy className="h-4 w-4" />
+          Скопировать
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Ссылка одноразовая и действует до {formatInviteDate(invitation.expiresAt)}.
+      </p>
+    </div>
+  )
+}
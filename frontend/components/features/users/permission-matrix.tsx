@@ -0,0 +1,106 @@
+'use client'
+
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import type { PermissionGroup } from '@/lib/api/users'
+
+const VIEW_SUFFIX = ':view'
+
+interface PermissionMatrixProps {
+  groups: PermissionGroup[]
+  value: string[]
+  onChange: (value: string[]) => void
+  /** Prefix for checkbox ids when several matrices may be mounted */
+  idPrefix?: string
+}
+
+/** A bare route is the legacy format: page access with every action of the group */
+function hasView(group: PermissionGroup, value: string[]) {
+  return value.includes(group.route) || value.includes(group.route + VIEW_SUFFIX)
+}
+
+function hasAction(group: PermissionGroup, key: string, value: string[]) {
+  return value.includes(group.route) || value.includes(key)
+}
+
+/**
+ * Rewrites one group in explicit form ("route:view" + chosen actions),
+ * leaving the other groups untouched
+ */
+function replaceGroup(group: PermissionGroup, value: string[], view: boolean, actions: string[]) {
+  const groupKeys = new Set([group.route, group.route + VIEW_SUFFIX, ...group.actions.map((a) => a.key)])
+  const rest = value.filter((permission) => !groupKeys.has(permission))
+  if (!view) return rest
+  return [...rest, group.route + VIEW_SUFFIX, ...actions]
+}
+
+/**
+ * Grouped permission checkboxes: page access per row, actions of that page beside it.
+ * Granting an action grants the page; revoking the page revokes its actions.
+ */
+export function PermissionMatrix({ groups, value, onChange, idPrefix = 'permission' }: PermissionMatrixProps) {
+  if (groups.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground border rounded-lg p-4">
+        Нет доступных страниц для назначения.
+      </div>
+    )
+  }
+
+  return (
+    <div className="divide-y rounded-lg border">
+      {groups.map((group) => {
+        const viewChecked = hasView(group, value)
+        const grantedActions = group.actions
+          .filter((action) => hasAction(group, action.key, value))
+          .map((action) => action.key)
+
+        return (
+          <div key={group.route} className="grid gap-3 p-4 sm:grid-cols-[180px_1fr]">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`${idPrefix}-${group.route}`}
+                checked={viewChecked}
+                onCheckedChange={(checked) =>
+                  onChange(replaceGroup(group, value, checked === true, checked === true ? grantedActions : []))
+                }
+              />
+              <Label htmlFor={`${idPrefix}-${group.route}`} className="text-sm font-medium cursor-pointer">
+                {group.label}
+              </Label>
+            </div>
+
+            {group.actions.length > 0 ? (
+              <div className="grid gap-2 sm:grid-cols-2">
+                {group.actions.map((action) => {
+                  const id = `${idPrefix}-${action.key.replace(':', '-')}`
+                  const checked = grantedActions.includes(action.key)
+                  return (
+                    <div key={action.key} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={id}
+                        checked={checked}
+                        onCheckedChange={(next) => {
+                          const actions =
+                            next === true
+                              ? [...grantedActions, action.key]
+                              : grantedActions.filter((key) => key !== action.key)
+                          onChange(replaceGroup(group, value, true, actions))
+                        }}
+                      />
+                      <Label htmlFor={id} className="text-sm font-normal text-muted-foreground cursor-pointer">
+                        {action.label}
+                      </Label>
+                    </div>
+                  )
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground self-center">Только просмотр</p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+'use client'
+
+import { useState } from 'react'
+import { useUsersStore } from '@/stores/users-store'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import {
+  Dialog,
+  DialogBody,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { InviteChannelPicker, InvitationResult } from './invitation-link'
+import type { InviteChannel, User, UserInvitation } from '@/lib/api/users'
+
+interface ResendInvitationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  user: User
+}
+
+function ResendInvitationContent({ user, onClose }: { user: User; onClose: () => void }) {
+  const { resendInvitation } = useUsersStore()
+  const [channel, setChannel] = useState<InviteChannel>(user.invitation?.channel ?? 'email')
+  const [loading, setLoading] = useState(false)
+  const [sent, setSent] = useState<UserInvitation | null>(null)
+
+  const handleResend = async () => {
+    setLoading(true)
+    logger.action('ResendInvitationAttempt', { userId: user.id, channel })
+
+    try {
+      const invitation = await resendInvitation(user.id, channel)
+      logger.info('Invitation resent', { userId: user.id, delivered: invitation.delivered })
+
+      if (invitation.inviteUrl) {
+        // Keep the dialog open: the link is shown only now
+        setSent(invitation)
+      } else {
+        toast.success('Приглашение отправлено', { description: `Ссылка ушла на ${invitation.sentTo}` })
+        onClose()
+      }
+    } catch (error) {
+      const appError = parseError(error)
+      logger.error('Resend invitation failed', error instanceof Error ? error : new Error(appError.message), {
+        errorCode: appError.code,
+        userId: user.id,
+      })
+      toast.error(appError.message, { description: appError.action })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <DialogHeader>
+        <DialogTitle>Отправить приглашение заново</DialogTitle>
+        <DialogDescription>
+          «{user.fullName}» получит новую ссылку для входа. Предыдущая ссылка перестанет работать.
+        </DialogDescription>
+      </DialogHeader>
+
+      <DialogBody className="space-y-4">
+        {sent ? (
+          <InvitationResult invitation={sent} />
+        ) : (
+          <InviteChannelPicker
+            value={channel}
+            onChange={setChannel}
+            hints={{ email: user.email, sms: user.phone }}
+            disabled={loading}
+          />
+        )}
+      </DialogBody>
+
+      <DialogFooter>
+        {sent ? (
+          <Button onClick={onClose}>Готово</Button>
+        ) : (
+          <>
+            <Button variant="outline" onClick={onClose} disabled={loading}>
+              Отмена
+            </Button>
+            <Button onClick={handleResend} disabled={loading}>
+              {loading ? 'Отправка...' : 'Отправить'}
+            </Button>
+          </>
+        )}
+      </DialogFooter>
+    </div>
+  )
+}
+
+/**
+ * Send a fresh activation link to a user who has not set a password yet
+ */
+export function ResendInvitationDialog({ open, onOpenChange, user }: ResendInvitationDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex flex-col">
+        <ResendInvitationContent user={user} onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { useUsersStore } from '@/stores/users-store'
+import { useResetTwoFactor } from '@/lib/query/hooks'
+import {
+  Dialog,
+  DialogBody,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertTriangle } from 'lucide-react'
+import type { User } from '@/lib/api/users'
+
+interface ResetTwoFactorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  user: User
+}
+
+/**
+ * SUPER_ADMIN: turn 2FA off for a user who lost their authenticator device
+ */
+export function ResetTwoFactorDialog({ open, onOpenChange, user }: ResetTwoFactorDialogProps) {
+  const { fetchUsers, currentPage } = useUsersStore()
+  const resetTwoFactor = useResetTwoFactor()
+
+  const handleReset = () => {
+    resetTwoFactor.mutate(user.id, {
+      onSuccess: () => {
+        onOpenChange(false)
+        fetchUsers(currentPage)
+      },
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex flex-col">
+        <div className="flex flex-col flex-1 min-h-0">
+          <DialogHeader>
+            <DialogTitle>Сбросить двухфакторную аутентификацию</DialogTitle>
+            <DialogDescription>
+              Пользователь «{user.fullName}» сможет войти только по паролю. Резервные коды и привязка к
+              приложению-аутентификатору будут удалены.
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogBody className="space-y-4">
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Сбрасывайте 2FA только после того, как убедились, что обращается сам пользователь —
+                например, перезвонили на <span className="font-semibold">{user.phone}</span>. Сброс
+                записывается в журнал аудита.
+              </AlertDescription>
+            </Alert>
+          </DialogBody>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={resetTwoFactor.isPending}>
+              Отмена
+            </Button>
+            <Button variant="destructive" onClick={handleReset} disabled={resetTwoFactor.isPending}>
+              {resetTwoFactor.isPending ? 'Сброс...' : 'Сбросить 2FA'}
+            </Button>
+          </DialogFooter>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { useUsersStore } from '@/stores/users-store'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import {
+  Dialog,
+  DialogBody,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+import type { User } from '@/lib/api/users'
+
+interface RevokeInvitationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  user: User
+}
+
+/**
+ * Make a pending activation link unusable, e.g. when it was sent to the wrong address
+ */
+export function RevokeInvitationDialog({ open, onOpenChange, user }: RevokeInvitationDialogProps) {
+  const { revokeInvitation } = useUsersStore()
+  const [loading, setLoading] = useState(false)
+
+  const handleRevoke = async () => {
+    setLoading(true)
+    logger.action('RevokeInvitationAttempt', { userId: user.id })
+
+    try {
+      await revokeInvitation(user.id)
+      logger.info('Invitation revoked', { userId: user.id })
+      toast.success('Приглашение отозвано')
+      onOpenChange(false)
+    } catch (error) {
+      const appError = parseError(error)
+      logger.error('Revoke invitation failed', error instanceof Error ? error : new Error(appError.message), {
+        errorCode: appError.code,
+        userId: user.id,
+      })
+      toast.error(appError.message, { description: appError.action })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex flex-col">
+        <div className="flex flex-col flex-1 min-h-0">
+          <DialogHeader>
+            <DialogTitle>Отозвать приглашение</DialogTitle>
+            <DialogDescription>
+              Ссылка, отправленная пользователю «{user.fullName}»
+              {user.invitation ? ` на ${user.invitation.sentTo}` : ''}, перестанет работать.
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogBody className="space-y-4">
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Пользователь останется в списке со статусом «Не активный». Чтобы дать ему доступ, отправьте
+                приглашение заново.
+              </AlertDescription>
+            </Alert>
+          </DialogBody>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Отмена
+            </Button>
+            <Button variant="destructive" onClick={handleRevoke} disabled={loading}>
+              {loading ? 'Отзыв...' : 'Отозвать'}
+            </Button>
+          </DialogFooter>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { useAuthStore } from '@/stores/auth-store'
+import { Button } from '@/components/ui/button'
+import { Eye, XCircle } from 'lucide-react'
+
+export function CompanyViewBanner() {
+  const { viewedCompany, stopViewingCompany } = useAuthStore()
+
+  if (!viewedCompany) {
+    return null
+  }
+
+  return (
+    <div className="bg-sky-600 text-white py-2 px-4 text-sm flex items-center justify-between gap-4">
+      <div className="flex items-center gap-2 min-w-0">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span className="truncate">
+          Просмотр компании: <span className="font-semibold">{viewedCompany.name}</span>
+          <span className="opacity-80"> · только чтение</span>
+        </span>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={stopViewingCompany}
+        className="text-white hover:text-white hover:bg-sky-700 shrink-0"
+      >
+        <XCircle className="h-4 w-4 mr-2" />
+        Выйти из просмотра
+      </Button>
+    </div>
+  )
+}
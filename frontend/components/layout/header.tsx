@@ -1,6 +1,7 @@
 "use client"
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { useAuthStore } from '@/stores/auth-store'
 import {
   DropdownMenu,
@@ -14,12 +15,12 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
 import { ThemeToggle } from '@/components/ui/theme-toggle'
 import { Badge } from '@/components/ui/badge'
-import { UserCircle, LogOut, Building2, Crown, Users } from 'lucide-react'
+import { UserCircle, LogOut, Building2, Crown, Users, Eye } from 'lucide-react'
 import { MobileSidebar } from './mobile-sidebar'
 import { ImpersonateDialog } from '@/components/features/auth/impersonate-dialog'
 
 export function Header() {
-  const { user, logout, projectName, isHeadquarters, isImpersonating } = useAuthStore()
+  const { user, logout, projectName, isHeadquarters, isImpersonating, viewedCompany } = useAuthStore()
   const [impersonateDialogOpen, setImpersonateDialogOpen] = useState(false)
   
   const isSuperAdmin = user?.role === 'SUPER_ADMIN'
@@ -56,9 +57,25 @@ export function Header() {
               <span className="text-sm font-medium">Сменить аккаунт</span>
             </Button>
           )}
+
+          {/* Company directory / "view as company" switcher for SUPER_ADMIN */}
+          {isSuperAdmin && !isImpersonating && (
+            <Button variant="outline" className="hidden sm:flex items-center gap-2 h-9" asChild>
+              <Link href="/companies">
+                {viewedCompany ? (
+                  <Eye className="h-4 w-4 text-sky-600" />
+                ) : (
+                  <Building2 className="h-4 w-4 text-primary" />
+                )}
+                <span className="text-sm font-medium truncate max-w-[200px]">
+                  {viewedCompany?.name ?? 'Компании'}
+                </span>
+              </Link>
+            </Button>
+          )}
           
-          {/* Project name badge */}
-          {projectName && (
+          {/* Project name badge (own project is not shown while viewing another company) */}
+          {projectName && !viewedCompany && (
             <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-lg border bg-muted/30">
               <Building2 className="h-4 w-4 text-muted-foreground" />
               <span className="text-sm font-medium truncate max-w-[200px]">{projectName}</span>
@@ -115,6 +132,12 @@ export function Header() {
                     <Users className="mr-2 h-4 w-4" />
                     <span>Сменить аккаунт</span>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild className="sm:hidden">
+                    <Link href="/companies" className="flex items-center cursor-pointer">
+                      <Building2 className="mr-2 h-4 w-4" />
+                      <span>Компании</span>
+                    </Link>
+                  </DropdownMenuItem>
                 </>
               )}
               <DropdownMenuSeparator />
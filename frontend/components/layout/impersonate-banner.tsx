@@ -1,38 +1,104 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { useAuthStore } from '@/stores/auth-store'
 import { Button } from '@/components/ui/button'
-import { User, XCircle } from 'lucide-react'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { Timer, User, XCircle } from 'lucide-react'
+import { formatCountdown } from '@/lib/utils/format'
+import { cn } from '@/lib/utils'
+
+// Return to the own account while the impersonated token is still valid
+const AUTO_STOP_LEAD_MS = 10 * 1000
+const EXPIRY_WARNING_MS = 5 * 60 * 1000
 
 export function ImpersonateBanner() {
-  const { user, isImpersonating, stopImpersonating, originalUser } = useAuthStore()
+  const {
+    user,
+    isImpersonating,
+    stopImpersonating,
+    expireImpersonation,
+    originalUser,
+    impersonationExpiresAt,
+    impersonationReason,
+  } = useAuthStore()
+  const [now, setNow] = useState(() => Date.now())
+
+  const hasDeadline = isImpersonating && impersonationExpiresAt !== null
+
+  // Countdown tick
+  useEffect(() => {
+    if (!hasDeadline) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [hasDeadline])
+
+  // Auto-return when the session time is up
+  useEffect(() => {
+    if (!isImpersonating || impersonationExpiresAt === null) return
+
+    const stopIn = impersonationExpiresAt - Date.now() - AUTO_STOP_LEAD_MS
+    if (stopIn <= 0) {
+      // Reopened after the session ran out - the token can no longer stop it
+      expireImpersonation()
+      return
+    }
+
+    const timer = setTimeout(stopImpersonating, stopIn)
+    return () => clearTimeout(timer)
+  }, [isImpersonating, impersonationExpiresAt, stopImpersonating, expireImpersonation])
 
   if (!isImpersonating || !user) {
     return null
   }
 
+  const msLeft = impersonationExpiresAt !== null ? impersonationExpiresAt - now : null
+  const isEnding = msLeft !== null && msLeft <= EXPIRY_WARNING_MS
+
   return (
-    <div className="bg-orange-500 text-white py-2 px-4 text-sm flex items-center justify-between gap-4">
-      <div className="flex items-center gap-2">
-        <User className="h-4 w-4" />
-        <span>
+    <div
+      className={cn(
+        'text-white py-2 px-4 text-sm flex items-center justify-between gap-4',
+        isEnding ? 'bg-red-600' : 'bg-orange-500'
+      )}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <User className="h-4 w-4 shrink-0" />
+        <span className="truncate">
           Вы вошли как:{' '}
           <span className="font-semibold">{user.fullName}</span>
           {user.companyName && (
             <span className="opacity-80"> ({user.companyName})</span>
           )}
         </span>
+        {impersonationReason && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span className="hidden md:inline truncate max-w-[280px] opacity-80 cursor-default">
+                · {impersonationReason}
+              </span>
+            </TooltipTrigger>
+            <TooltipContent>Причина: {impersonationReason}</TooltipContent>
+          </Tooltip>
+        )}
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        {msLeft !== null && (
+          <span className="flex items-center gap-1.5 tabular-nums" aria-label="До автоматического выхода">
+            <Timer className="h-4 w-4" />
+            {formatCountdown(msLeft / 1000)}
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={stopImpersonating}
+          className={cn('text-white hover:text-white', isEnding ? 'hover:bg-red-700' : 'hover:bg-orange-600')}
+        >
+          <XCircle className="h-4 w-4 mr-2" />
+          Вернуться к {originalUser?.fullName || 'своему аккаунту'}
+        </Button>
       </div>
-      <Button
-        variant="ghost"
-        size="sm"
-        onClick={stopImpersonating}
-        className="text-white hover:bg-orange-600 hover:text-white"
-      >
-        <XCircle className="h-4 w-4 mr-2" />
-        Вернуться к {originalUser?.fullName || 'своему аккаунту'}
-      </Button>
     </div>
   )
 }
-
@@ -8,11 +8,14 @@ import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { cn } from "@/lib/utils"
 import { useAuthStore } from "@/stores/auth-store"
+import { Badge } from "@/components/ui/badge"
 import { menuItems } from "./sidebar-data"
+import { useMenuBadges } from "./use-menu-badges"
 
 export function MobileSidebar() {
   const pathname = usePathname()
   const { user, hasPermission, logout } = useAuthStore()
+  const badges = useMenuBadges()
 
   const isDev = process.env.NODE_ENV === 'development'
   // Users page: только в dev режиме, скрыта в production
@@ -62,6 +65,7 @@ export function MobileSidebar() {
             {visibleItems.map((item) => {
               const Icon = item.icon
               const isActive = pathname === item.href || pathname.startsWith(item.href + "/")
+              const badgeCount = item.badge ? badges[item.badge] : 0
               return (
                 <SheetClose key={item.href} asChild>
                   <Button
@@ -77,6 +81,11 @@ export function MobileSidebar() {
                     <Link href={item.href}>
                       <Icon className="h-4 w-4" />
                       <span>{item.label}</span>
+                      {badgeCount > 0 && (
+                        <Badge className="ml-auto h-5 min-w-5 justify-center px-1.5 text-[10px] tabular-nums">
+                          {badgeCount > 99 ? "99+" : badgeCount}
+                        </Badge>
+                      )}
                     </Link>
                   </Button>
                 </SheetClose>
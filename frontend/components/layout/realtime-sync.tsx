@@ -0,0 +1,33 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useAuthStore } from '@/stores/auth-store'
+import { AppEvents, emitEvent } from '@/lib/events'
+import { applyRealtimeMessage, connectRealtime } from '@/lib/realtime'
+
+/**
+ * Keeps the realtime stream open while the admin is signed in and applies
+ * pushed order/subscription/budget changes. Renders nothing.
+ * Reconnects when the token or the viewed company changes.
+ */
+export function RealtimeSync() {
+  const queryClient = useQueryClient()
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const sessionExpired = useAuthStore((state) => state.sessionExpired)
+  const token = useAuthStore((state) => state.token)
+  const viewedCompanyId = useAuthStore((state) => state.viewedCompany?.id ?? null)
+
+  useEffect(() => {
+    if (!isAuthenticated || sessionExpired) return
+
+    const stop = connectRealtime({
+      onMessage: (message) => applyRealtimeMessage(queryClient, message),
+      onStatusChange: (connected) => emitEvent(AppEvents.REALTIME_CONNECTION, { connected }),
+    })
+
+    return stop
+  }, [queryClient, isAuthenticated, sessionExpired, token, viewedCompanyId])
+
+  return null
+}
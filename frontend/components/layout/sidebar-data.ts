@@ -9,9 +9,13 @@ import {
   Newspaper,
   MapPin,
   FolderKanban,
+  History,
 } from 'lucide-react'
 import type { FeatureFlag } from '@/lib/features.config'
 
+/** Счётчики, которые могут отображаться рядом с пунктом меню */
+export type MenuBadge = 'unreadNews'
+
 export interface MenuItem {
   icon: typeof LayoutDashboard
   label: string
@@ -19,6 +23,8 @@ export interface MenuItem {
   permission: string
   /** Feature flag — если указан и выключен, пункт показывается как "Скоро" */
   feature?: FeatureFlag
+  /** Счётчик рядом с пунктом (см. useMenuBadges) */
+  badge?: MenuBadge
 }
 
 export const menuItems: MenuItem[] = [
@@ -30,8 +36,9 @@ export const menuItems: MenuItem[] = [
   { icon: Users, label: 'Пользователи', href: '/users', permission: 'users', feature: 'users' },
   { icon: CreditCard, label: 'Оплаты', href: '/payments', permission: 'payments', feature: 'payments' },
   { icon: TrendingUp, label: 'Аналитика', href: '/analytics', permission: 'analytics', feature: 'analytics' },
-  { icon: Newspaper, label: 'Новости', href: '/news', permission: 'news', feature: 'news' },
+  { icon: Newspaper, label: 'Новости', href: '/news', permission: 'news', feature: 'news', badge: 'unreadNews' },
   { icon: MapPin, label: 'Партнеры', href: '/partners', permission: 'partners', feature: 'partners' },
+  { icon: History, label: 'Журнал изменений', href: '/audit', permission: 'audit' },
 ]
 
 
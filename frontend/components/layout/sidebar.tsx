@@ -11,6 +11,7 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
 import { Badge } from '@/components/ui/badge'
 import { menuItems, type MenuItem } from './sidebar-data'
+import { useMenuBadges } from './use-menu-badges'
 import { isFeatureEnabled, getBlockedReason } from '@/lib/features.config'
 import { toast } from 'sonner'
 
@@ -18,10 +19,12 @@ function NavButton({
   item,
   isActive,
   isCollapsed,
+  badgeCount = 0,
 }: {
   item: MenuItem
   isActive: boolean
   isCollapsed: boolean
+  badgeCount?: number
 }) {
   // Проверяем доступна ли фича
   const featureEnabled = item.feature ? isFeatureEnabled(item.feature) : true
@@ -59,8 +62,18 @@ function NavButton({
         aria-label={item.label}
         className={cn('flex w-full items-center gap-3', isCollapsed && 'justify-center gap-0')}
       >
-        <item.icon className="h-5 w-5 shrink-0" />
+        <span className="relative shrink-0">
+          <item.icon className="h-5 w-5" />
+          {isCollapsed && badgeCount > 0 && (
+            <span className="absolute -top-1 -right-1 h-2 w-2 rounded-full bg-primary ring-2 ring-card" />
+          )}
+        </span>
         {!isCollapsed && <span className="truncate">{item.label}</span>}
+        {!isCollapsed && badgeCount > 0 && (
+          <Badge className="ml-auto h-5 min-w-5 justify-center px-1.5 text-[10px] tabular-nums">
+            {badgeCount > 99 ? '99+' : badgeCount}
+          </Badge>
+        )}
       </Link>
       ) : (
         <div className={cn('flex w-full items-center gap-3', isCollapsed && 'justify-center gap-0')}>
@@ -84,6 +97,7 @@ function NavButton({
         <TooltipTrigger asChild>{button}</TooltipTrigger>
         <TooltipContent side="right">
           {item.label}
+          {featureEnabled && badgeCount > 0 && <span className="ml-1">({badgeCount})</span>}
           {!featureEnabled && <span className="text-muted-foreground ml-1">(Скоро)</span>}
         </TooltipContent>
       </Tooltip>
@@ -150,6 +164,7 @@ export function Sidebar() {
   const { user, hasPermission, logout, isHeadquarters } = useAuthStore()
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [mounted, setMounted] = useState(false)
+  const badges = useMenuBadges()
 
   useEffect(() => {
     const rafId = requestAnimationFrame(() => setMounted(true))
@@ -279,6 +294,7 @@ export function Sidebar() {
                   item={item}
                   isActive={isActive}
                   isCollapsed={isCollapsed}
+                  badgeCount={item.badge ? badges[item.badge] : 0}
                 />
               )
             })
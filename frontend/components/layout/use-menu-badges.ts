@@ -0,0 +1,21 @@
+'use client'
+
+import { useAuthStore } from '@/stores/auth-store'
+import { isFeatureEnabled } from '@/lib/features.config'
+import { useUnreadNewsCount } from '@/lib/query/hooks'
+import type { MenuBadge } from './sidebar-data'
+
+/**
+ * Counters for sidebar menu items. Each counter is only polled
+ * when its section is enabled and visible to the user.
+ */
+export function useMenuBadges(): Record<MenuBadge, number> {
+  const { hasPermission } = useAuthStore()
+  const canSeeNews = isFeatureEnabled('news') && (hasPermission('news') || hasPermission('*'))
+
+  const { data: unreadNews = 0 } = useUnreadNewsCount(canSeeNews)
+
+  return {
+    unreadNews: canSeeNews ? unreadNews : 0,
+  }
+}
@@ -0,0 +1,128 @@
+import { subDays } from 'date-fns'
+import apiClient from './client'
+import { formatISODate, getServerToday } from '@/lib/utils/date'
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface AnalyticsSummary {
+  totalOrders: number
+  guestOrders: number
+  totalSpend: number
+  activeEmployees: number
+  averageCheck: number
+}
+
+/** Orders and spend per day per project */
+export interface AnalyticsTimelinePoint {
+  date: string
+  projectId: string
+  projectName: string
+  orders: number
+  spend: number
+}
+
+/** Weekly totals; change is null when the previous week had no data */
+export interface AnalyticsWeekPoint {
+  weekStart: string
+  orders: number
+  spend: number
+  ordersChangePercent: number | null
+  spendChangePercent: number | null
+}
+
+export interface AnalyticsEmployeeStat {
+  employeeId: string
+  fullName: string
+  projectName: string | null
+  orders: number
+  spend: number
+}
+
+export interface AnalyticsComboStat {
+  comboType: string
+  orders: number
+  spend: number
+}
+
+export interface AnalyticsServiceMix {
+  lunchOrders: number
+  lunchSpend: number
+  compensationTransactions: number
+  compensationSpend: number
+}
+
+export interface AnalyticsResponse {
+  from: string
+  to: string
+  currencyCode: string
+  summary: AnalyticsSummary
+  /** Same metrics for the previous period of equal length */
+  previousSummary: AnalyticsSummary
+  timeline: AnalyticsTimelinePoint[]
+  weekly: AnalyticsWeekPoint[]
+  topEmployees: AnalyticsEmployeeStat[]
+  comboMix: AnalyticsComboStat[]
+  serviceMix: AnalyticsServiceMix
+}
+
+export interface AnalyticsQueryParams {
+  /** Period start (YYYY-MM-DD) */
+  from: string
+  /** Period end (YYYY-MM-DD, inclusive) */
+  to: string
+  projectId?: string
+}
+
+export type AnalyticsPeriodPreset = 'week' | 'month' | 'quarter' | 'year'
+
+// ═══════════════════════════════════════════════════════════════
+// API FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+export const analyticsApi = {
+  /**
+   * Получить агрегированную аналитику за период (опционально по проекту)
+   */
+  async get(params: AnalyticsQueryParams): Promise<AnalyticsResponse> {
+    const response = await apiClient.get<AnalyticsResponse>('/analytics', { params })
+    return response.data
+  },
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+export const ANALYTICS_PERIOD_LABELS: Record<AnalyticsPeriodPreset, string> = {
+  week: 'Неделя',
+  month: 'Месяц',
+  quarter: 'Квартал',
+  year: 'Год',
+}
+
+const PERIOD_DAYS: Record<AnalyticsPeriodPreset, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+}
+
+/**
+ * Period ending today (server timezone) for a preset, both dates inclusive
+ */
+export function getAnalyticsPeriod(preset: AnalyticsPeriodPreset, today = getServerToday()): { from: string; to: string } {
+  return {
+    from: formatISODate(subDays(today, PERIOD_DAYS[preset] - 1)),
+    to: formatISODate(today),
+  }
+}
+
+/**
+ * Percent change between periods; null when there is no baseline
+ */
+export function getChangePercent(current: number, previous: number): number | null {
+  if (previous === 0) return null
+  return Math.round(((current - previous) / previous) * 1000) / 10
+}
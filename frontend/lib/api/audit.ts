@@ -0,0 +1,245 @@
+import apiClient from './client'
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+/** JSON stored in old_values / new_values */
+export type AuditValues = Record<string, unknown> | unknown[] | string | number | boolean | null
+
+export interface AuditLogEntry {
+  id: string
+  userId: string | null
+  /** Null for system actions */
+  userName: string | null
+  action: string
+  entityType: string
+  entityId: string | null
+  /** Employee, project or user name when the entity still exists */
+  entityName: string | null
+  oldValues: AuditValues
+  newValues: AuditValues
+  ipAddress: string | null
+  userAgent: string | null
+  /** SUPER_ADMIN who made the change while impersonating the user */
+  impersonatedBy: string | null
+  impersonatorName: string | null
+  createdAt: string
+}
+
+export interface AuditLogResponse {
+  items: AuditLogEntry[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+export interface AuditLogQueryParams {
+  page?: number
+  pageSize?: number
+  userId?: string
+  entityType?: string
+  /** All entries about one entity, e.g. EMPLOYEE and BUDGET rows of an employee */
+  entityId?: string
+  action?: string
+  /** ISO date-time, inclusive */
+  from?: string
+  /** ISO date-time, exclusive */
+  to?: string
+}
+
+export interface AuditLogFilterOptions {
+  users: { id: string; fullName: string }[]
+  entityTypes: string[]
+  actions: string[]
+}
+
+export type AuditChangeKind = 'added' | 'removed' | 'changed'
+
+export interface AuditFieldChange {
+  field: string
+  kind: AuditChangeKind
+  oldValue: unknown
+  newValue: unknown
+}
+
+// ═══════════════════════════════════════════════════════════════
+// API FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+export const auditApi = {
+  /**
+   * Получить записи журнала изменений компании
+   */
+  async getAll(params: AuditLogQueryParams = {}): Promise<AuditLogResponse> {
+    const response = await apiClient.get<AuditLogResponse>('/audit', { params })
+    return response.data
+  },
+
+  /**
+   * Получить значения для фильтров журнала
+   */
+  async getFilterOptions(): Promise<AuditLogFilterOptions> {
+    const response = await apiClient.get<AuditLogFilterOptions>('/audit/filters')
+    return response.data
+  },
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  LOGIN: 'Вход',
+  LOGOUT: 'Выход',
+  SESSION_REVOKE: 'Завершение сессии',
+  LOGIN_FAILED: 'Неудачный вход',
+  PASSWORD_CHANGE: 'Смена пароля',
+  PASSWORD_RESET: 'Сброс пароля',
+  CREATE: 'Создание',
+  UPDATE: 'Изменение',
+  DELETE: 'Удаление',
+  ACTIVATE: 'Активация',
+  DEACTIVATE: 'Деактивация',
+  BLOCK: 'Блокировка',
+  UNBLOCK: 'Разблокировка',
+  CANCEL_SERVICE: 'Отмена услуги',
+  IMPERSONATE: 'Вход от имени',
+  STOP_IMPERSONATE: 'Выход из режима «от имени»',
+  TWO_FACTOR_ENABLE: 'Включение 2FA',
+  TWO_FACTOR_DISABLE: 'Отключение 2FA',
+  TWO_FACTOR_RESET: 'Сброс 2FA',
+  INVITE_SEND: 'Отправка приглашения',
+  INVITE_REVOKE: 'Отзыв приглашения',
+  INVITE_ACCEPT: 'Принятие приглашения',
+  SUBSCRIPTION_CREATE: 'Создание подписки',
+  SUBSCRIPTION_PAUSE: 'Пауза подписки',
+  SUBSCRIPTION_RESUME: 'Возобновление подписки',
+  SUBSCRIPTION_CANCEL: 'Отмена подписки',
+  ORDER_CREATE: 'Создание заказа',
+  ORDER_CANCEL: 'Отмена заказа',
+  GUEST_ORDER_CREATE: 'Гостевой заказ',
+  BULK_PAUSE: 'Массовая пауза',
+  BULK_RESUME: 'Массовое возобновление',
+  BULK_CANCEL: 'Массовая отмена',
+  BULK_BUDGET_UPDATE: 'Массовое изменение бюджета',
+  EXPORT: 'Экспорт',
+}
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  USER: 'Пользователь',
+  EMPLOYEE: 'Сотрудник',
+  ORDER: 'Заказ',
+  BUDGET: 'Бюджет',
+  SUBSCRIPTION: 'Подписка',
+  ADDRESS: 'Адрес',
+  PERMISSION: 'Права доступа',
+  COMPANY: 'Компания',
+  PROJECT: 'Проект',
+}
+
+/** Human-readable names of fields that appear in old/new values */
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+  fullName: 'ФИО',
+  phone: 'Телефон',
+  email: 'Email',
+  position: 'Должность',
+  status: 'Статус',
+  role: 'Роль',
+  isActive: 'Активен',
+  serviceType: 'Услуга',
+  shiftType: 'Смена',
+  workingDays: 'Рабочие дни',
+  workStartTime: 'Начало работы',
+  workEndTime: 'Конец работы',
+  totalBudget: 'Общий бюджет',
+  dailyLimit: 'Дневной лимит',
+  period: 'Период',
+  autoRenew: 'Автопродление',
+  amount: 'Сумма',
+  reason: 'Причина',
+  expiresAt: 'Истекает',
+  durationMinutes: 'Длительность, мин',
+  timezone: 'Часовой пояс',
+  cutoffTime: 'Время отсечки',
+  compensationDailyLimit: 'Дневной лимит компенсации',
+  compensationRollover: 'Перенос остатка',
+  subscriptionMinDays: 'Мин. срок подписки',
+  comboType: 'Комбо',
+  startDate: 'Дата начала',
+  endDate: 'Дата окончания',
+  permissions: 'Права доступа',
+}
+
+export function getAuditActionLabel(action: string): string {
+  return AUDIT_ACTION_LABELS[action] || action
+}
+
+export function getAuditEntityLabel(entityType: string): string {
+  return AUDIT_ENTITY_LABELS[entityType] || entityType
+}
+
+export function getAuditFieldLabel(field: string): string {
+  return AUDIT_FIELD_LABELS[field] || field
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Non-object values are compared as a single "value" field.
+ * Keys are camelCased: depending on the call site the backend stores
+ * anonymous objects with PascalCase or camelCase property names.
+ */
+function toRecord(values: AuditValues): Record<string, unknown> {
+  if (values === null) return {}
+  if (!isPlainObject(values)) return { value: values }
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key.charAt(0).toLowerCase() + key.slice(1), value])
+  )
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Field-level diff between old_values and new_values
+ */
+export function diffAuditValues(oldValues: AuditValues, newValues: AuditValues): AuditFieldChange[] {
+  const before = toRecord(oldValues)
+  const after = toRecord(newValues)
+
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  const changes: AuditFieldChange[] = []
+
+  for (const field of fields) {
+    const hasBefore = field in before
+    const hasAfter = field in after
+
+    if (hasBefore && hasAfter) {
+      if (!isSameValue(before[field], after[field])) {
+        changes.push({ field, kind: 'changed', oldValue: before[field], newValue: after[field] })
+      }
+    } else if (hasAfter) {
+      changes.push({ field, kind: 'added', oldValue: undefined, newValue: after[field] })
+    } else {
+      changes.push({ field, kind: 'removed', oldValue: before[field], newValue: undefined })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Format a stored value for display in the diff
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Да' : 'Нет'
+  if (typeof value === 'number') return value.toLocaleString('ru-RU')
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
@@ -30,6 +30,72 @@ export interface LoginResponse {
   // Impersonation info
   isImpersonating?: boolean
   impersonatedBy?: string | null
+  /** Ms since epoch; the impersonated session cannot be refreshed past it */
+  impersonationExpiresAt?: number | null
+  impersonationReason?: string | null
+  // Two-factor challenge: no tokens yet, send a code to /auth/login/2fa
+  requiresTwoFactor?: boolean
+  twoFactorChallengeToken?: string | null
+  // Expired password: no tokens yet, send a new password to /auth/login/password-change
+  requiresPasswordChange?: boolean
+  passwordChangeToken?: string | null
+}
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string
+  /** Code from the authenticator app or a backup code */
+  code: string
+}
+
+export interface ExpiredPasswordChangeRequest {
+  challengeToken: string
+  newPassword: string
+}
+
+/** One complexity rule of the password policy */
+export interface PasswordRule {
+  /** length, uppercase, lowercase, digit, special, not_common, no_sequence, no_repeat */
+  code: string
+  label: string
+  passed: boolean
+}
+
+/** Result of /auth/validate-password for the strength meter */
+export interface PasswordCheck {
+  isValid: boolean
+  errors: string[]
+  /** 0-100 */
+  strength: number
+  strengthLabel: string
+  rules: PasswordRule[]
+  /** null until the rules pass, or when the breach database is unavailable */
+  breached: boolean | null
+  requirements: {
+    minLength: number
+    maxLength: number
+    /** 0 when passwords never expire */
+    maxAgeDays: number
+  }
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  backupCodesRemaining: number
+}
+
+/** Enrollment data; 2FA stays off until a code from the app is confirmed */
+export interface TwoFactorSetup {
+  /** Base32 secret for manual entry */
+  secret: string
+  otpAuthUri: string
+  /** SVG data URI */
+  qrCodeDataUri: string
+}
+
+export interface DisableTwoFactorRequest {
+  password: string
+  code: string
 }
 
 export interface AdminListItem {
@@ -55,6 +121,14 @@ export interface ResetPasswordRequest {
   password: string
 }
 
+/** Shown on the set-password page of an invitation link */
+export interface InvitationInfo {
+  fullName: string
+  phone: string
+  companyName: string
+  expiresAt: string
+}
+
 export interface ChangePasswordRequest {
   currentPassword: string
   newPassword: string
@@ -70,12 +144,99 @@ export interface RefreshTokenRequest {
   refreshToken: string
 }
 
+/** One logged-in device (a refresh token chain) */
+export interface Session {
+  id: string
+  deviceInfo: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastActivityAt: string
+  expiresAt: string
+  isCurrent: boolean
+}
+
+export type ImpersonationStatus = 'ACTIVE' | 'ENDED' | 'EXPIRED'
+
+/** One entry of the impersonation history */
+export interface ImpersonationSession {
+  id: string
+  impersonatorId: string
+  impersonatorName: string
+  targetUserId: string
+  targetUserName: string
+  targetCompanyName: string | null
+  reason: string
+  startedAt: string
+  expiresAt: string
+  /** Null when the session ran out without "return to my account" */
+  endedAt: string | null
+  status: ImpersonationStatus
+  /** Audit entries written on behalf of the target user during the session */
+  actionsCount: number
+}
+
+export interface ImpersonationHistoryResponse {
+  items: ImpersonationSession[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+/** Minimum length of the mandatory impersonation reason (mirrors the backend) */
+export const MIN_IMPERSONATION_REASON_LENGTH = 10
+
+export interface SessionDevice {
+  browser: string
+  os: string
+  isMobile: boolean
+}
+
+const BROWSER_PATTERNS: Array<[RegExp, string]> = [
+  [/YaBrowser\//, 'Яндекс Браузер'],
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+
+const OS_PATTERNS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+]
+
+/**
+ * Rough browser / OS from the stored user agent - enough to tell devices apart
+ */
+export function describeDevice(userAgent: string | null): SessionDevice {
+  const ua = userAgent ?? ''
+  return {
+    browser: BROWSER_PATTERNS.find(([pattern]) => pattern.test(ua))?.[1] ?? 'Неизвестный браузер',
+    os: OS_PATTERNS.find(([pattern]) => pattern.test(ua))?.[1] ?? 'Неизвестная ОС',
+    isMobile: /Mobi|Android|iPhone|iPad/.test(ua),
+  }
+}
+
 export const authApi = {
   async login(credentials: LoginRequest): Promise<LoginResponse> {
     const response = await apiClient.post<LoginResponse>('/auth/login', credentials)
     return response.data
   },
 
+  async loginWithTwoFactor(data: TwoFactorLoginRequest): Promise<LoginResponse> {
+    const response = await apiClient.post<LoginResponse>('/auth/login/2fa', data)
+    return response.data
+  },
+
+  async changeExpiredPassword(data: ExpiredPasswordChangeRequest): Promise<LoginResponse> {
+    const response = await apiClient.post<LoginResponse>('/auth/login/password-change', data)
+    return response.data
+  },
+
   async logout(): Promise<void> {
     try {
       await apiClient.post('/auth/logout')
@@ -101,6 +262,20 @@ export const authApi = {
     await apiClient.post('/auth/reset-password', data)
   },
 
+  async validatePassword(password: string, signal?: AbortSignal): Promise<PasswordCheck> {
+    const response = await apiClient.post<PasswordCheck>('/auth/validate-password', { password }, { signal })
+    return response.data
+  },
+
+  async getInvitation(token: string): Promise<InvitationInfo> {
+    const response = await apiClient.get<InvitationInfo>('/auth/invitation', { params: { token } })
+    return response.data
+  },
+
+  async acceptInvitation(data: ResetPasswordRequest): Promise<void> {
+    await apiClient.post('/auth/invitation/accept', data)
+  },
+
   async changePassword(data: ChangePasswordRequest): Promise<LoginResponse['user']> {
     const response = await apiClient.post<{ message: string; user: LoginResponse['user'] }>(
       '/auth/change-password',
@@ -114,8 +289,8 @@ export const authApi = {
     return response.data
   },
 
-  async impersonate(userId: string): Promise<LoginResponse> {
-    const response = await apiClient.post<LoginResponse>(`/auth/impersonate/${userId}`)
+  async impersonate(userId: string, reason: string): Promise<LoginResponse> {
+    const response = await apiClient.post<LoginResponse>(`/auth/impersonate/${userId}`, { reason })
     return response.data
   },
 
@@ -124,6 +299,57 @@ export const authApi = {
     return response.data
   },
 
+  async getImpersonationHistory(params: { page?: number; pageSize?: number } = {}): Promise<ImpersonationHistoryResponse> {
+    const response = await apiClient.get<ImpersonationHistoryResponse>('/auth/impersonations', { params })
+    return response.data
+  },
+
+  async getSessions(): Promise<Session[]> {
+    const response = await apiClient.get<Session[]>('/auth/sessions')
+    return response.data
+  },
+
+  /** Returns true if the revoked session was the current one (cookies are cleared) */
+  async revokeSession(id: string): Promise<boolean> {
+    const response = await apiClient.delete<{ wasCurrent: boolean }>(`/auth/sessions/${id}`)
+    return response.data.wasCurrent
+  },
+
+  async revokeOtherSessions(): Promise<number> {
+    const response = await apiClient.post<{ revoked: number }>('/auth/sessions/revoke-others', {})
+    return response.data.revoked
+  },
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await apiClient.get<TwoFactorStatus>('/auth/2fa')
+    return response.data
+  },
+
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    const response = await apiClient.post<TwoFactorSetup>('/auth/2fa/setup', {})
+    return response.data
+  },
+
+  /** Returns the backup codes - they are shown only once */
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const response = await apiClient.post<{ backupCodes: string[] }>('/auth/2fa/enable', { code })
+    return response.data.backupCodes
+  },
+
+  async disableTwoFactor(data: DisableTwoFactorRequest): Promise<void> {
+    await apiClient.post('/auth/2fa/disable', data)
+  },
+
+  async regenerateBackupCodes(code: string): Promise<string[]> {
+    const response = await apiClient.post<{ backupCodes: string[] }>('/auth/2fa/backup-codes', { code })
+    return response.data.backupCodes
+  },
+
+  /** SUPER_ADMIN only: for a user who lost their authenticator device */
+  async resetTwoFactor(userId: string): Promise<void> {
+    await apiClient.post(`/auth/2fa/reset/${userId}`, {})
+  },
+
   async getAllAdmins(search?: string): Promise<AdminListItem[]> {
     const params = search ? { search } : {}
     const response = await apiClient.get<AdminListItem[]>('/users/all-admins', { params })
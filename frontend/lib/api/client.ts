@@ -1,22 +1,22 @@
-import axios, { AxiosInstance, InternalAxiosRequestConfig, AxiosError } from 'axios'
+import axios, { AxiosInstance, InternalAxiosRequestConfig, AxiosError, isAxiosError } from 'axios'
 import { parseError, type AppError, ErrorCodes } from '@/lib/errors'
 import { getCookie, clearAuthStatusCookie } from '@/stores/utils/cookie-manager'
+import { eventBus, emitEvent, AppEvents } from '@/lib/events/event-bus'
 
 // Generate unique correlation ID for request tracing
 function generateCorrelationId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
-// Get token from auth store (for Safari ITP workaround)
-// Safari blocks cross-site cookies, so we need to send token in Authorization header
-function getAuthToken(): string | null {
+// Read the persisted auth store (the store itself imports this module)
+function getPersistedAuthState(): { token?: string | null; viewedCompany?: { id: string } | null } | null {
   if (typeof window === 'undefined') return null
   try {
     const stored = localStorage.getItem('auth-storage')
     if (stored) {
       const parsed = JSON.parse(stored)
       // Zustand persist stores state in "state" key
-      return parsed?.state?.token || null
+      return parsed?.state ?? null
     }
   } catch {
     // Ignore parse errors
@@ -24,8 +24,42 @@ function getAuthToken(): string | null {
   return null
 }
 
+// Get token from auth store (for Safari ITP workaround)
+// Safari blocks cross-site cookies, so we need to send token in Authorization header
+function getAuthToken(): string | null {
+  return getPersistedAuthState()?.token || null
+}
+
+/** Request header of the read-only "view as company" mode */
+export const COMPANY_SCOPE_HEADER = 'X-Company-Id'
+
+// Company a SUPER_ADMIN is viewing ("view as company" mode)
+function getViewedCompanyId(): string | null {
+  return getPersistedAuthState()?.viewedCompany?.id || null
+}
+
+/** Base URL of the backend API */
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:4000/api'
+
+/**
+ * Auth and company-scope headers for requests made outside axios
+ * (e.g. the realtime event stream read with fetch).
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {}
+  const token = getAuthToken()
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`
+  }
+  const viewedCompanyId = getViewedCompanyId()
+  if (viewedCompanyId) {
+    headers[COMPANY_SCOPE_HEADER] = viewedCompanyId
+  }
+  return headers
+}
+
 const apiClient: AxiosInstance = axios.create({
-  baseURL: process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:4000/api',
+  baseURL: API_BASE_URL,
   timeout: 15000,
   headers: {
     'Content-Type': 'application/json',
@@ -34,22 +68,94 @@ const apiClient: AxiosInstance = axios.create({
   withCredentials: true,
 })
 
-// Track if we're currently refreshing to avoid infinite loops
-let isRefreshing = false
-let failedQueue: Array<{
-  resolve: (value: unknown) => void
-  reject: (reason: unknown) => void
-}> = []
-
-const processQueue = (error: unknown, token: string | null = null) => {
-  failedQueue.forEach((promise) => {
-    if (error) {
-      promise.reject(error)
-    } else {
-      promise.resolve(token)
+// Refresh in flight, shared by every request (and the realtime stream) that hit a 401
+let refreshPromise: Promise<void> | null = null
+
+// Pending in-place re-login shared by every request that hit the expired session
+let reLoginPromise: Promise<void> | null = null
+
+/**
+ * Asks the session manager to show the re-login dialog and resolves once the
+ * user logs in again; rejects with the refresh error if they log out instead.
+ */
+function waitForReLogin(refreshError: unknown): Promise<void> {
+  if (!reLoginPromise) {
+    reLoginPromise = new Promise<void>((resolve, reject) => {
+      const offLogin = eventBus.once(AppEvents.AUTH_LOGIN, () => {
+        offLogout()
+        resolve()
+      })
+      const offLogout = eventBus.once(AppEvents.AUTH_LOGOUT, () => {
+        offLogin()
+        reject(refreshError)
+      })
+    }).finally(() => {
+      reLoginPromise = null
+    })
+    emitEvent(AppEvents.AUTH_SESSION_EXPIRED, {})
+  }
+  return reLoginPromise
+}
+
+// Drop the stale Bearer header so the request interceptor attaches the current token
+function withCurrentToken(config: InternalAxiosRequestConfig): InternalAxiosRequestConfig {
+  delete config.headers['Authorization']
+  return config
+}
+
+async function performRefresh(): Promise<void> {
+  try {
+    // Attempt to refresh the token via cookie-based endpoint
+    // The refresh token is in an HttpOnly cookie, so we don't need to send it in body
+    const response = await axios.post(
+      `${apiClient.defaults.baseURL}/auth/refresh`,
+      {}, // Empty body - refresh token is in cookie
+      { 
+        headers: { 'Content-Type': 'application/json' },
+        withCredentials: true // Important: send cookies
+      }
+    )
+
+    const { token, expiresAt } = response.data
+
+    // Save the new token before retrying: the backend reads the Bearer header before the cookie
+    if (token) {
+      emitEvent(AppEvents.AUTH_TOKEN_REFRESHED, { token, expiresAt: expiresAt ?? null })
     }
-  })
-  failedQueue = []
+  } catch (refreshError) {
+    // 401: the session was revoked (e.g. "log out everywhere else") or expired.
+    // Inside the dashboard the session manager re-logs in place, keeping open dialogs.
+    if (
+      isAxiosError(refreshError) &&
+      refreshError.response?.status === 401 &&
+      eventBus.listenerCount(AppEvents.AUTH_SESSION_EXPIRED) > 0
+    ) {
+      await waitForReLogin(refreshError)
+      return
+    }
+
+    // A network failure keeps the session - the next request retries the refresh.
+    if (isAxiosError(refreshError) && refreshError.response?.status === 401) {
+      clearAuthAndRedirect(SESSION_ENDED_REASON)
+    } else if (!isAxiosError(refreshError) || refreshError.response) {
+      clearAuthAndRedirect()
+    }
+    throw refreshError
+  }
+}
+
+/**
+ * Get a new access token after a 401, for axios requests and for requests
+ * made outside axios (e.g. the realtime stream). Concurrent callers share one
+ * refresh. Rejects when the session could not be restored.
+ */
+export function refreshSession(): Promise<void> {
+  if (!refreshPromise) {
+    refreshPromise = performRefresh().finally(() => {
+      refreshPromise = null
+    })
+  }
+  return refreshPromise
 }
 
 // Request interceptor - add correlation ID, CSRF token, and Authorization header
@@ -80,6 +186,12 @@ apiClient.interceptors.request.use(
     if (token && !config.headers['Authorization']) {
       config.headers['Authorization'] = `Bearer ${token}`
     }
+
+    // Scope company data to the viewed company; the backend honors it for SUPER_ADMIN only
+    const viewedCompanyId = getViewedCompanyId()
+    if (viewedCompanyId) {
+      config.headers[COMPANY_SCOPE_HEADER] = viewedCompanyId
+    }
     
     // Log request in development
     if (process.env.NODE_ENV === 'development') {
@@ -133,59 +245,26 @@ apiClient.interceptors.response.use(
         return Promise.reject(error)
       }
 
-      // If already refreshing, queue this request
-      if (isRefreshing) {
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject })
-        })
-          .then(() => {
-            // Retry with cookies (no need to manually set token)
-            return apiClient(originalRequest)
-          })
-          .catch((err) => Promise.reject(err))
-      }
-
       originalRequest._retry = true
-      isRefreshing = true
-
-      try {
-        // Attempt to refresh the token via cookie-based endpoint
-        // The refresh token is in an HttpOnly cookie, so we don't need to send it in body
-        const response = await axios.post(
-          `${apiClient.defaults.baseURL}/auth/refresh`,
-          {}, // Empty body - refresh token is in cookie
-          { 
-            headers: { 'Content-Type': 'application/json' },
-            withCredentials: true // Important: send cookies
-          }
-        )
-
-        const { token } = response.data
-
-        // Process queued requests (token comes from HttpOnly cookie)
-        processQueue(null, token)
-
-        // Retry original request (cookies will be sent automatically)
-        return apiClient(originalRequest)
-      } catch (refreshError) {
-        processQueue(refreshError, null)
-        clearAuthAndRedirect()
-        return Promise.reject(refreshError)
-      } finally {
-        isRefreshing = false
-      }
+      await refreshSession()
+      return apiClient(withCurrentToken(originalRequest))
     }
 
     return Promise.reject(error)
   }
 )
 
-function clearAuthAndRedirect() {
+/** Login page query param value shown as "session ended" notice */
+export const SESSION_ENDED_REASON = 'session_ended'
+
+function clearAuthAndRedirect(reason?: string) {
   if (typeof window !== 'undefined') {
     clearAuthStatusCookie()
+    // Drop the persisted session too, otherwise the stale Bearer token keeps being sent
+    localStorage.removeItem('auth-storage')
     
     if (window.location.pathname !== '/login') {
-      window.location.href = '/login'
+      window.location.href = reason ? `/login?reason=${reason}` : '/login'
     }
   }
 }
@@ -223,6 +302,20 @@ export async function apiCall<T>(
   }
 }
 
+/**
+ * With responseType 'blob' the error body is a Blob too;
+ * parse it back to JSON so parseError can read the backend message.
+ */
+export async function unwrapBlobError(error: unknown): Promise<unknown> {
+  if (!isAxiosError(error) || !(error.response?.data instanceof Blob)) return error
+  try {
+    error.response.data = JSON.parse(await error.response.data.text())
+  } catch {
+    // Not a JSON body - keep the original error
+  }
+  return error
+}
+
 /**
  * Re-export parseError for use in components
  */
@@ -0,0 +1,58 @@
+import apiClient from './client'
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface CompanyListItem {
+  id: string
+  name: string
+  /** Balance of the company account */
+  budget: number
+  currencyCode: string
+  /** Russian label, see COMPANY_STATUS */
+  status: string
+  projectsCount: number
+  employeesCount: number
+  activeEmployeesCount: number
+}
+
+export interface Company {
+  id: string
+  name: string
+  budget: number
+  overdraftLimit: number
+  currencyCode: string
+  timezone: string
+  cutoffTime: string
+  status: string
+  createdAt: string
+}
+
+/** Company a SUPER_ADMIN is viewing; the API client sends its ID in COMPANY_SCOPE_HEADER */
+export interface ViewedCompany {
+  id: string
+  name: string
+}
+
+// ═══════════════════════════════════════════════════════════════
+// API
+// ═══════════════════════════════════════════════════════════════
+
+export const companiesApi = {
+  /**
+   * Справочник всех компаний (только SUPER_ADMIN)
+   */
+  async getAll(): Promise<CompanyListItem[]> {
+    const response = await apiClient.get<CompanyListItem[]>('/companies')
+    return response.data
+  },
+
+  /**
+   * Получить компанию по ID
+   */
+  async getById(id: string): Promise<Company> {
+    const response = await apiClient.get<Company>(`/companies/${id}`)
+    return response.data
+  },
+}
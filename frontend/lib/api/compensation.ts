@@ -0,0 +1,129 @@
+import apiClient from './client'
+import { fetchExportFile, type ExportFormat, type ExportProgress } from './export'
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface CompensationLedgerEntry {
+  id: string
+  restaurantName: string | null
+  description: string | null
+  /** Full bill */
+  amount: number
+  companyPaid: number
+  /** Part of the bill above the limit, paid by the employee */
+  employeePaid: number
+  /** Limit left for the day right after this transaction */
+  remainingLimit: number
+  transactionTime: string
+}
+
+export interface CompensationLedgerDay {
+  /** yyyy-MM-dd */
+  date: string
+  isWorkingDay: boolean
+  /** Limit granted for the day (0 on days off) */
+  dailyLimit: number
+  /** Unused limit carried over from previous days */
+  carriedIn: number
+  available: number
+  companyPaid: number
+  employeePaid: number
+  remaining: number
+  /** Part of `remaining` that moves to the next day (0 without rollover or for today) */
+  carriedOut: number
+  transactions: CompensationLedgerEntry[]
+}
+
+export interface CompensationLedger {
+  employeeId: string
+  employeeName: string
+  projectName: string
+  currencyCode: string
+  timezone: string
+  dailyLimit: number
+  rolloverEnabled: boolean
+  fromDate: string
+  toDate: string
+  totalTransactions: number
+  totalAmount: number
+  totalCompanyPaid: number
+  totalEmployeePaid: number
+  closingCarryOver: number
+  days: CompensationLedgerDay[]
+}
+
+/** Ledger period, yyyy-MM-dd; the backend defaults to the current month */
+export interface CompensationLedgerRange {
+  fromDate?: string
+  toDate?: string
+}
+
+export interface CompensationLedgerExportParams extends CompensationLedgerRange {
+  employeeId: string
+}
+
+export interface EmployeeDailySummary {
+  employeeId: string
+  employeeName: string
+  /** Company-paid amount spent that day */
+  totalUsed: number
+  dailyLimit: number
+  transactionCount: number
+}
+
+export interface DailyCompensationSummary {
+  /** yyyy-MM-dd */
+  date: string
+  projectId: string
+  totalTransactions: number
+  totalAmount: number
+  totalCompanyPaid: number
+  totalEmployeePaid: number
+  employeesUsed: number
+  byEmployee: EmployeeDailySummary[]
+}
+
+// ═══════════════════════════════════════════════════════════════
+// API FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+export const compensationApi = {
+  /**
+   * Получить журнал компенсации сотрудника по дням
+   */
+  async getLedger(employeeId: string, range: CompensationLedgerRange = {}): Promise<CompensationLedger> {
+    const response = await apiClient.get<CompensationLedger>(
+      `/compensation/employees/${employeeId}/ledger`,
+      { params: range }
+    )
+    return response.data
+  },
+
+  /**
+   * Сводка компенсаций проекта за день (по умолчанию — сегодня)
+   */
+  async getDailySummary(projectId: string, date?: string): Promise<DailyCompensationSummary> {
+    const response = await apiClient.get<DailyCompensationSummary>(
+      `/compensation/projects/${projectId}/daily-summary`,
+      { params: date ? { date } : {} }
+    )
+    return response.data
+  },
+
+  /**
+   * Скачать журнал компенсации файлом
+   */
+  async exportLedger(
+    { employeeId, ...range }: CompensationLedgerExportParams,
+    format: ExportFormat,
+    onProgress?: (progress: ExportProgress) => void
+  ): Promise<Blob> {
+    return fetchExportFile(
+      `/compensation/employees/${employeeId}/ledger/export`,
+      { ...range, format },
+      onProgress
+    )
+  },
+}
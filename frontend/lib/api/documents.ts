@@ -0,0 +1,115 @@
+import apiClient, { unwrapBlobError } from './client'
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+// Backend returns DB enum values (document_type)
+export type DocumentType = 'ACT_OF_RECONCILIATION' | 'INVOICE_PDF' | 'CONTRACT'
+
+export interface CompanyDocument {
+  id: string
+  type: DocumentType
+  fileName: string | null
+  periodStart: string | null
+  periodEnd: string | null
+  createdAt: string
+  /** Whether the current user has opened the document */
+  isViewed: boolean
+  viewedAt: string | null
+}
+
+export interface DocumentsResponse {
+  items: CompanyDocument[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+export interface DocumentsQueryParams {
+  page?: number
+  pageSize?: number
+  type?: DocumentType
+  /** Period start (YYYY-MM-DD), matches documents whose period overlaps */
+  from?: string
+  /** Period end (YYYY-MM-DD, inclusive) */
+  to?: string
+}
+
+// Files can be large, so downloads get more time than regular requests
+const DOWNLOAD_TIMEOUT = 60000
+
+// ═══════════════════════════════════════════════════════════════
+// API FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+export const documentsApi = {
+  /**
+   * Получить список документов компании с фильтрами по типу и периоду
+   */
+  async getAll(params: DocumentsQueryParams = {}): Promise<DocumentsResponse> {
+    const response = await apiClient.get<DocumentsResponse>('/documents', { params })
+    return response.data
+  },
+
+  /**
+   * Получить документ по ID
+   */
+  async getById(id: string): Promise<CompanyDocument> {
+    const response = await apiClient.get<CompanyDocument>(`/documents/${id}`)
+    return response.data
+  },
+
+  /**
+   * Скачать содержимое документа через API (с авторизацией)
+   */
+  async download(id: string): Promise<Blob> {
+    try {
+      const response = await apiClient.get<Blob>(`/documents/${id}/download`, {
+        responseType: 'blob',
+        timeout: DOWNLOAD_TIMEOUT,
+      })
+      return response.data
+    } catch (error) {
+      throw await unwrapBlobError(error)
+    }
+  },
+
+  /**
+   * Отметить документ просмотренным
+   */
+  async markAsViewed(id: string): Promise<void> {
+    await apiClient.post(`/documents/${id}/viewed`)
+  },
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  CONTRACT: 'Договор',
+  ACT_OF_RECONCILIATION: 'Акт сверки',
+  INVOICE_PDF: 'Счёт (PDF)',
+}
+
+export function getDocumentTypeLabel(type: DocumentType): string {
+  return DOCUMENT_TYPE_LABELS[type] || type
+}
+
+/**
+ * File name for saving: backend name or a readable fallback
+ */
+export function getDocumentFileName(document: CompanyDocument): string {
+  if (document.fileName) return document.fileName
+  return `${getDocumentTypeLabel(document.type)} ${document.createdAt.slice(0, 10)}.pdf`
+}
+
+/**
+ * Only PDFs can be previewed inline in the browser
+ */
+export function isDocumentPreviewable(document: CompanyDocument): boolean {
+  const name = (document.fileName ?? '').toLowerCase()
+  return name.endsWith('.pdf') || document.type === 'INVOICE_PDF'
+}
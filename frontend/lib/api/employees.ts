@@ -1,4 +1,5 @@
 import apiClient from './client'
+import { fetchExportFile, type ExportFormat, type ExportProgress } from './export'
 
 export type ShiftType = 'DAY' | 'NIGHT'
 export type ServiceType = 'LUNCH' | 'COMPENSATION'
@@ -193,6 +194,35 @@ export interface EmployeeOrdersResponse {
   totalPages: number
 }
 
+/** Employees table filters (same semantics as getEmployees) */
+export interface EmployeesFilters {
+  search?: string
+  status?: string
+  inviteStatus?: string
+  orderStatus?: string
+  minBudget?: number
+  maxBudget?: number
+  hasSubscription?: boolean
+  mealStatus?: string
+  serviceType?: ServiceType
+  projectId?: string
+}
+
+function buildEmployeesParams(filters: EmployeesFilters): Record<string, string | number | boolean> {
+  const params: Record<string, string | number | boolean> = {}
+  if (filters.search) params.search = filters.search
+  if (filters.status) params.status = filters.status
+  if (filters.inviteStatus) params.inviteStatus = filters.inviteStatus
+  if (filters.orderStatus) params.orderStatus = filters.orderStatus
+  if (filters.minBudget !== undefined) params.minBudget = filters.minBudget
+  if (filters.maxBudget !== undefined) params.maxBudget = filters.maxBudget
+  if (filters.hasSubscription !== undefined) params.hasSubscription = filters.hasSubscription
+  if (filters.mealStatus) params.mealStatus = filters.mealStatus
+  if (filters.serviceType) params.serviceType = filters.serviceType
+  if (filters.projectId) params.projectId = filters.projectId
+  return params
+}
+
 export const employeesApi = {
   async getEmployees(
     page: number = 1,
@@ -208,22 +238,30 @@ export const employeesApi = {
     serviceType?: ServiceType,
     projectId?: string
   ): Promise<EmployeesResponse> {
-    const params: Record<string, string | number | boolean> = { page, pageSize }
-    if (search) params.search = search
-    if (status) params.status = status
-    if (inviteStatus) params.inviteStatus = inviteStatus
-    if (orderStatus) params.orderStatus = orderStatus
-    if (minBudget !== undefined) params.minBudget = minBudget
-    if (maxBudget !== undefined) params.maxBudget = maxBudget
-    if (hasSubscription !== undefined) params.hasSubscription = hasSubscription
-    if (mealStatus) params.mealStatus = mealStatus
-    if (serviceType) params.serviceType = serviceType
-    if (projectId) params.projectId = projectId
+    const params = {
+      page,
+      pageSize,
+      ...buildEmployeesParams({
+        search, status, inviteStatus, orderStatus, minBudget, maxBudget,
+        hasSubscription, mealStatus, serviceType, projectId,
+      }),
+    }
 
     const response = await apiClient.get<EmployeesResponse>('/employees', { params })
     return response.data
   },
 
+  /**
+   * Экспорт сотрудников с текущими фильтрами таблицы (CSV / XLSX)
+   */
+  async exportEmployees(
+    filters: EmployeesFilters,
+    format: ExportFormat,
+    onProgress?: (progress: ExportProgress) => void
+  ): Promise<Blob> {
+    return fetchExportFile('/employees/export', { ...buildEmployeesParams(filters), format }, onProgress)
+  },
+
   async getEmployee(id: string): Promise<EmployeeDetail> {
     const response = await apiClient.get<EmployeeDetail>(`/employees/${id}`)
     return response.data
@@ -0,0 +1,63 @@
+import apiClient, { unwrapBlobError } from './client'
+import { formatISODate } from '@/lib/utils/date'
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+/** Download progress, percent is null while the size is unknown */
+export interface ExportProgress {
+  loaded: number
+  percent: number | null
+}
+
+// Large exports are generated on the server before the first byte is sent
+const EXPORT_TIMEOUT = 120000
+
+// ═══════════════════════════════════════════════════════════════
+// API FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Скачать файл экспорта с отслеживанием прогресса
+ */
+export async function fetchExportFile(
+  url: string,
+  params: Record<string, string | number | boolean | undefined>,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<Blob> {
+  try {
+    const response = await apiClient.get<Blob>(url, {
+      params,
+      responseType: 'blob',
+      timeout: EXPORT_TIMEOUT,
+      onDownloadProgress: (event) => {
+        onProgress?.({
+          loaded: event.loaded,
+          percent: event.total ? Math.round((event.loaded / event.total) * 100) : null,
+        })
+      },
+    })
+    return response.data
+  } catch (error) {
+    throw await unwrapBlobError(error)
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  xlsx: 'Excel (XLSX)',
+  csv: 'CSV',
+}
+
+/**
+ * File name matching the backend: orders_2025-01-31.xlsx
+ */
+export function getExportFileName(prefix: string, format: ExportFormat, date = new Date()): string {
+  return `${prefix}_${formatISODate(date)}.${format}`
+}
@@ -1,4 +1,5 @@
 import apiClient from './client'
+import { fetchExportFile, type ExportFormat, type ExportProgress } from './export'
 
 export interface DashboardStats {
   totalBudget: number
@@ -37,6 +38,50 @@ export interface Order {
   restaurantName?: string | null // for compensation transactions
 }
 
+/** One day of an employee row in the weekly planning grid */
+export interface WeekPlanCell {
+  date: string
+  isWorkingDay: boolean
+  orderId: string | null
+  status: string | null
+  comboType: string | null
+  amount: number | null
+  compensationLimit: number | null // only for compensation employees on working days
+  compensationAmount: number | null // company-paid amount already spent
+}
+
+export interface WeekPlanRow {
+  employeeId: string
+  employeeName: string
+  projectId: string
+  projectName: string | null
+  serviceType: ServiceType | null
+  cells: WeekPlanCell[]
+}
+
+export interface WeekPlan {
+  weekStart: string // Monday, YYYY-MM-DD
+  days: string[]
+  rows: WeekPlanRow[]
+}
+
+/** One meal of a manifest locked at the cutoff */
+export interface ManifestSnapshotEntry {
+  orderId: string
+  name: string // employee name, or the guest order name
+  phone: string | null
+  comboType: string
+  isGuest: boolean
+}
+
+/** Delivery list of a project and day, locked on the server at the cutoff */
+export interface ManifestSnapshot {
+  projectId: string
+  date: string // YYYY-MM-DD
+  lockedAt: string // ISO, UTC
+  entries: ManifestSnapshotEntry[]
+}
+
 export interface CreateGuestOrderRequest {
   orderName: string
   quantity: number
@@ -78,10 +123,38 @@ export interface OrdersResponse {
   totalPages: number
 }
 
+/** Orders table filters (same semantics as getOrders) */
+export interface OrdersFilters {
+  search?: string
+  status?: string
+  date?: string
+  projectId?: string
+  type?: string
+  serviceType?: string
+  comboType?: string
+}
+
+function buildOrdersParams(filters: OrdersFilters): Record<string, string> {
+  const params: Record<string, string> = {}
+  if (filters.search) params.search = filters.search
+  if (filters.status) params.status = filters.status
+  if (filters.date) params.date = filters.date
+  // Backend expects 'address' param for project filtering (legacy naming)
+  if (filters.projectId) params.address = filters.projectId
+  // Backend expects 'employee' or 'guest', not Russian labels
+  if (filters.type) {
+    params.type = filters.type === 'Сотрудник' ? 'employee' : filters.type === 'Гость' ? 'guest' : filters.type
+  }
+  if (filters.serviceType) params.serviceType = filters.serviceType
+  if (filters.comboType) params.comboType = filters.comboType
+  return params
+}
+
 export const homeApi = {
-  async getDashboard(date?: string): Promise<DashboardStats> {
+  async getDashboard(date?: string, projectId?: string): Promise<DashboardStats> {
     const params: Record<string, string> = {}
     if (date) params.date = date
+    if (projectId) params.projectId = projectId
     const response = await apiClient.get<DashboardStats>('/home/dashboard', { params })
     return response.data
   },
@@ -97,23 +170,49 @@ export const homeApi = {
     serviceType?: string,
     comboType?: string
   ): Promise<OrdersResponse> {
-    const params: Record<string, string | number> = { page, pageSize }
-    if (search) params.search = search
-    if (status) params.status = status
-    if (date) params.date = date
-    // Backend expects 'address' param for project filtering (legacy naming)
-    if (projectId) params.address = projectId
-    // Backend expects 'employee' or 'guest', not Russian labels
-    if (type) {
-      params.type = type === 'Сотрудник' ? 'employee' : type === 'Гость' ? 'guest' : type
+    const params = {
+      page,
+      pageSize,
+      ...buildOrdersParams({ search, status, date, projectId, type, serviceType, comboType }),
     }
-    if (serviceType) params.serviceType = serviceType
-    if (comboType) params.comboType = comboType
 
     const response = await apiClient.get<OrdersResponse>('/home/orders', { params })
     return response.data
   },
 
+  /**
+   * Недельный план: сотрудники × дни недели (понедельник..воскресенье)
+   */
+  async getWeekPlan(weekStart: string, projectId?: string, search?: string): Promise<WeekPlan> {
+    const params: Record<string, string> = { weekStart }
+    if (projectId) params.projectId = projectId
+    if (search) params.search = search
+    const response = await apiClient.get<WeekPlan>('/home/week-plan', { params })
+    return response.data
+  },
+
+  /**
+   * Манифест доставки, зафиксированный на сервере по времени отсечки.
+   * null — день ещё не зафиксирован (сервер отвечает 204)
+   */
+  async getManifestSnapshot(projectId: string, date: string): Promise<ManifestSnapshot | null> {
+    const response = await apiClient.get<ManifestSnapshot | ''>('/home/manifest-snapshot', {
+      params: { projectId, date },
+    })
+    return response.data || null
+  },
+
+  /**
+   * Экспорт заказов с текущими фильтрами таблицы (CSV / XLSX)
+   */
+  async exportOrders(
+    filters: OrdersFilters,
+    format: ExportFormat,
+    onProgress?: (progress: ExportProgress) => void
+  ): Promise<Blob> {
+    return fetchExportFile('/home/orders/export', { ...buildOrdersParams(filters), format }, onProgress)
+  },
+
   async createGuestOrder(data: CreateGuestOrderRequest): Promise<void> {
     await apiClient.post('/home/guest-orders', data)
   },
@@ -0,0 +1,116 @@
+import apiClient from './client'
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+// Backend returns DB enum values (invoice_status)
+export type InvoiceStatus = 'UNPAID' | 'PAID' | 'CANCELLED' | 'OVERDUE'
+
+export interface Invoice {
+  id: string
+  externalId: string | null
+  amount: number
+  /** Sum of (partial) payments already made against the invoice */
+  paidAmount: number
+  currencyCode: string
+  status: InvoiceStatus
+  dueDate: string | null
+  paidAt: string | null
+  createdAt: string
+}
+
+export interface InvoicesResponse {
+  items: Invoice[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+export interface InvoicesQueryParams {
+  page?: number
+  pageSize?: number
+  status?: InvoiceStatus
+  /** Period start (YYYY-MM-DD, by creation date) */
+  from?: string
+  /** Period end (YYYY-MM-DD, inclusive) */
+  to?: string
+}
+
+export interface CreateInvoiceRequest {
+  externalId?: string | null
+  amount: number
+  dueDate?: string | null
+}
+
+export interface PayInvoiceRequest {
+  amount: number
+}
+
+// ═══════════════════════════════════════════════════════════════
+// API FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+export const invoicesApi = {
+  /**
+   * Получить список счетов с фильтрами по статусу и периоду
+   */
+  async getAll(params: InvoicesQueryParams = {}): Promise<InvoicesResponse> {
+    const response = await apiClient.get<InvoicesResponse>('/invoices', { params })
+    return response.data
+  },
+
+  /**
+   * Получить счёт по ID
+   */
+  async getById(id: string): Promise<Invoice> {
+    const response = await apiClient.get<Invoice>(`/invoices/${id}`)
+    return response.data
+  },
+
+  /**
+   * Создать счёт
+   */
+  async create(data: CreateInvoiceRequest): Promise<Invoice> {
+    const response = await apiClient.post<Invoice>('/invoices', data)
+    return response.data
+  },
+
+  /**
+   * Отметить счёт оплаченным (пополняет баланс компании)
+   */
+  async pay(id: string, data: PayInvoiceRequest): Promise<Invoice> {
+    const response = await apiClient.post<Invoice>(`/invoices/${id}/pay`, data)
+    return response.data
+  },
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  UNPAID: 'Не оплачен',
+  PAID: 'Оплачен',
+  CANCELLED: 'Отменён',
+  OVERDUE: 'Просрочен',
+}
+
+export const getInvoiceStatusLabel = (status: InvoiceStatus): string => {
+  return INVOICE_STATUS_LABELS[status] || status
+}
+
+/**
+ * Счёт можно отметить оплаченным только пока он не закрыт
+ */
+export const isInvoicePayable = (invoice: Pick<Invoice, 'status'>): boolean => {
+  return invoice.status === 'UNPAID' || invoice.status === 'OVERDUE'
+}
+
+/**
+ * Остаток к оплате; сервер не примет оплату больше остатка
+ */
+export const getInvoiceOutstanding = (invoice: Pick<Invoice, 'amount' | 'paidAmount'>): number => {
+  return Math.max(0, invoice.amount - (invoice.paidAmount ?? 0))
+}
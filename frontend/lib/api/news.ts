@@ -0,0 +1,95 @@
+import apiClient from './client'
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type NewsCategory = 'GENERAL' | 'UPDATE' | 'MENU' | 'DELIVERY' | 'BILLING'
+
+export interface NewsItem {
+  id: string
+  title: string
+  content: string
+  category: NewsCategory
+  isPublished: boolean
+  publishedAt: string | null
+  targetRoles: string[]
+  /** Whether the current user has opened the news item */
+  isRead: boolean
+  createdAt: string
+}
+
+export interface NewsResponse {
+  items: NewsItem[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+export interface NewsQueryParams {
+  page?: number
+  pageSize?: number
+  category?: NewsCategory
+  unreadOnly?: boolean
+}
+
+// ═══════════════════════════════════════════════════════════════
+// API FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+export const newsApi = {
+  /**
+   * Получить ленту новостей с фильтром по категории
+   */
+  async getAll(params: NewsQueryParams = {}): Promise<NewsResponse> {
+    const response = await apiClient.get<NewsResponse>('/news', { params })
+    return response.data
+  },
+
+  /**
+   * Получить новость по ID
+   */
+  async getById(id: string): Promise<NewsItem> {
+    const response = await apiClient.get<NewsItem>(`/news/${id}`)
+    return response.data
+  },
+
+  /**
+   * Отметить новость прочитанной
+   */
+  async markAsRead(id: string): Promise<void> {
+    await apiClient.post(`/news/${id}/read`)
+  },
+
+  /**
+   * Получить количество непрочитанных новостей
+   */
+  async getUnreadCount(): Promise<number> {
+    const response = await apiClient.get<{ count: number }>('/news/unread-count')
+    return response.data.count
+  },
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+export const NEWS_CATEGORY_LABELS: Record<NewsCategory, string> = {
+  GENERAL: 'Общее',
+  UPDATE: 'Обновления',
+  MENU: 'Меню',
+  DELIVERY: 'Доставка',
+  BILLING: 'Оплата',
+}
+
+export function getNewsCategoryLabel(category: NewsCategory): string {
+  return NEWS_CATEGORY_LABELS[category] || category
+}
+
+/**
+ * Publication date, falling back to creation date for older items
+ */
+export function getNewsDate(item: Pick<NewsItem, 'publishedAt' | 'createdAt'>): string {
+  return item.publishedAt ?? item.createdAt
+}
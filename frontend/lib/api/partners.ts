@@ -0,0 +1,127 @@
+import apiClient from './client'
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type PartnerType = 'RESTAURANT' | 'CAFE' | 'CANTEEN' | 'OTHER'
+
+export interface Partner {
+  id: string
+  name: string
+  type: PartnerType
+  cuisine: string | null
+  address: string
+  latitude: number | null
+  longitude: number | null
+  phone: string | null
+  email: string | null
+  workingHours: string | null
+  isActive: boolean
+  /** Straight-line distance from the project address; null without coordinates */
+  distanceKm: number | null
+}
+
+/** Project whose address is used as the distance origin */
+export interface PartnerOrigin {
+  projectId: string
+  projectName: string
+  address: string
+  latitude: number | null
+  longitude: number | null
+  currencyCode: string
+}
+
+export interface PartnersResponse {
+  items: Partner[]
+  total: number
+  origin: PartnerOrigin | null
+  /** Partners per type before the type filter */
+  typeCounts: Partial<Record<PartnerType, number>>
+}
+
+/** Compensation transaction of the company at a partner */
+export interface PartnerTransaction {
+  id: string
+  employeeId: string
+  employeeName: string
+  projectName: string
+  totalAmount: number
+  companyPaidAmount: number
+  employeePaidAmount: number
+  transactionDate: string
+  createdAt: string
+}
+
+export interface PartnerDetail extends Partner {
+  transactionsCount: number
+  totalCompanyPaid: number
+  lastTransactionAt: string | null
+  recentTransactions: PartnerTransaction[]
+}
+
+export interface PartnersQueryParams {
+  projectId?: string
+  search?: string
+  type?: PartnerType
+  maxDistanceKm?: number
+}
+
+// ═══════════════════════════════════════════════════════════════
+// API FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+export const partnersApi = {
+  /**
+   * Получить партнёров, отсортированных по расстоянию от адреса проекта
+   */
+  async getAll(params: PartnersQueryParams = {}): Promise<PartnersResponse> {
+    const response = await apiClient.get<PartnersResponse>('/partners', { params })
+    return response.data
+  },
+
+  /**
+   * Получить партнёра с последними компенсациями компании
+   */
+  async getById(id: string, projectId?: string): Promise<PartnerDetail> {
+    const response = await apiClient.get<PartnerDetail>(`/partners/${id}`, { params: { projectId } })
+    return response.data
+  },
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+export const PARTNER_TYPE_LABELS: Record<PartnerType, string> = {
+  RESTAURANT: 'Ресторан',
+  CAFE: 'Кафе',
+  CANTEEN: 'Столовая',
+  OTHER: 'Другое',
+}
+
+export function getPartnerTypeLabel(type: PartnerType): string {
+  return PARTNER_TYPE_LABELS[type] || type
+}
+
+/** Radius presets for the distance filter, km */
+export const PARTNER_DISTANCE_OPTIONS = [0.5, 1, 2, 5] as const
+
+export function formatDistance(km: number | null): string {
+  if (km === null) return '—'
+  if (km < 1) return `${Math.round(km * 1000)} м`
+  return `${km.toLocaleString('ru-RU', { maximumFractionDigits: 1 })} км`
+}
+
+export function hasCoordinates<T extends { latitude: number | null; longitude: number | null }>(
+  item: T
+): item is T & { latitude: number; longitude: number } {
+  return item.latitude !== null && item.longitude !== null
+}
+
+/**
+ * OpenStreetMap link for a point (opens in a new tab)
+ */
+export function getMapUrl(latitude: number, longitude: number): string {
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`
+}
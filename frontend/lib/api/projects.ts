@@ -102,6 +102,45 @@ export interface UpdateProjectRequest {
   compensationRollover?: boolean;
 }
 
+/**
+ * Business settings of a project (GET/PUT /config/projects/{id}/settings)
+ */
+export interface ProjectSettings {
+  projectId: string;
+  projectName: string;
+  /** IANA timezone, e.g. "Asia/Dushanbe" */
+  timezone: string;
+  /** Daily order deadline in the project timezone, HH:mm */
+  cutoffTime: string;
+  currencyCode: string;
+  serviceTypes: ('LUNCH' | 'COMPENSATION')[];
+  compensationDailyLimit: number;
+  compensationRollover: boolean;
+  /** Minimum subscription length in working days */
+  subscriptionMinDays: number;
+  /** Company-wide value used when the project has no override */
+  defaultSubscriptionMinDays: number;
+}
+
+export interface UpdateProjectSettingsRequest {
+  timezone: string;
+  cutoffTime: string;
+  compensationDailyLimit: number;
+  compensationRollover: boolean;
+  subscriptionMinDays: number;
+}
+
+/** Timezones offered in the settings editor */
+export const PROJECT_TIMEZONE_OPTIONS = [
+  { value: 'Asia/Dushanbe', label: 'Душанбе (UTC+5)' },
+  { value: 'Asia/Tashkent', label: 'Ташкент (UTC+5)' },
+  { value: 'Asia/Almaty', label: 'Алматы (UTC+5)' },
+  { value: 'Asia/Ashgabat', label: 'Ашхабад (UTC+5)' },
+  { value: 'Asia/Bishkek', label: 'Бишкек (UTC+6)' },
+  { value: 'Asia/Dubai', label: 'Дубай (UTC+4)' },
+  { value: 'Europe/Moscow', label: 'Москва (UTC+3)' },
+] as const;
+
 /**
  * Check if project has valid delivery address.
  * Projects without full address cannot have orders created.
@@ -147,6 +186,16 @@ export async function getProjectStats(id: string): Promise<ProjectStats> {
   return response.data;
 }
 
+export async function getProjectSettings(id: string): Promise<ProjectSettings> {
+  const response = await apiClient.get<ProjectSettings>(`/config/projects/${id}/settings`);
+  return response.data;
+}
+
+export async function updateProjectSettings(id: string, data: UpdateProjectSettingsRequest): Promise<ProjectSettings> {
+  const response = await apiClient.put<ProjectSettings>(`/config/projects/${id}/settings`, data);
+  return response.data;
+}
+
 export async function getServiceTypes(): Promise<{ value: string; label: string }[]> {
   const response = await apiClient.get<{ value: string; label: string }[]>('/projects/service-types');
   return response.data;
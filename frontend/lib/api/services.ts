@@ -119,6 +119,47 @@ export interface ServiceAvailability {
   blockingReason?: string
 }
 
+// ==================== BULK CANCEL ====================
+
+export interface BulkCancelPreviewItem {
+  employeeId: string
+  employeeName: string
+  canCancel: boolean
+  /** Why the service cannot be cancelled for this employee */
+  reason?: string | null
+  /** Orders from today on that will be cancelled (lunch only) */
+  futureOrdersCount: number
+  /** Already paid future orders returned to the project budget */
+  refundAmount: number
+  /** Unspent compensation of the current period (not charged, so not refunded) */
+  remainingBudget?: number | null
+}
+
+export interface BulkCancelPreview {
+  serviceType: ServiceType
+  items: BulkCancelPreviewItem[]
+  cancellableCount: number
+  totalFutureOrders: number
+  totalRefund: number
+  currencyCode: string
+}
+
+export interface BulkCancelResultItem {
+  employeeId: string
+  employeeName: string
+  cancelledOrders: number
+  refundAmount: number
+}
+
+export interface BulkCancelServicesResponse {
+  success: boolean
+  serviceType: ServiceType
+  cancelled: BulkCancelResultItem[]
+  errors: { employeeId: string; message: string }[]
+  cancelledOrders: number
+  totalRefund: number
+}
+
 // ==================== API ====================
 
 export const servicesApi = {
@@ -190,19 +231,13 @@ export const servicesApi = {
   // ----- Service Availability Check -----
 
   /**
-   * Check service availability for employees.
-   * @throws Error - Backend endpoint not implemented yet
-   * @deprecated This method is not yet available. Backend endpoint needs to be created first.
+   * Check service availability for employees before assigning.
+   * blockingReason explains why the requested serviceType cannot be assigned.
+   * Results come in the same order as employeeIds.
    */
-  async checkServiceAvailability(_employeeIds: string[]): Promise<ServiceAvailability[]> {
-    // FIXME: Backend endpoint /services/check-availability needs to be created
-    // When implemented, remove this throw and uncomment the API call below:
-    // const response = await apiClient.post<ServiceAvailability[]>('/services/check-availability', { employeeIds: _employeeIds })
-    // return response.data
-    throw new Error(
-      '[API Not Implemented] checkServiceAvailability: Backend endpoint /services/check-availability does not exist. ' +
-      'Please implement the backend endpoint before using this method.'
-    )
+  async checkServiceAvailability(employeeIds: string[], serviceType?: ServiceType): Promise<ServiceAvailability[]> {
+    const response = await apiClient.post<ServiceAvailability[]>('/services/check-availability', { employeeIds, serviceType })
+    return response.data
   },
 
   // ----- Bulk Operations -----
@@ -217,19 +252,22 @@ export const servicesApi = {
     await apiClient.post('/subscriptions/bulk/resume', { SubscriptionIds: subscriptionIds })
   },
 
+  /**
+   * Preview what a bulk cancel would do: future orders and refunds per employee.
+   * Nothing is changed on the server.
+   */
+  async previewBulkCancel(employeeIds: string[], serviceType: ServiceType): Promise<BulkCancelPreview> {
+    const response = await apiClient.post<BulkCancelPreview>('/services/bulk/cancel/preview', { employeeIds, serviceType })
+    return response.data
+  },
+
   /**
    * Bulk cancel services for employees.
-   * @throws Error - Backend endpoint not implemented yet
-   * @deprecated This method is not yet available. Backend endpoint needs to be created first.
+   * Each employee is processed independently; failures are returned in `errors`.
    */
-  async bulkCancelServices(_employeeIds: string[], _serviceType: ServiceType): Promise<void> {
-    // FIXME: Backend endpoint /services/bulk/cancel needs to be created
-    // When implemented, remove this throw and uncomment the API call below:
-    // await apiClient.post('/services/bulk/cancel', { employeeIds: _employeeIds, serviceType: _serviceType })
-    throw new Error(
-      '[API Not Implemented] bulkCancelServices: Backend endpoint /services/bulk/cancel does not exist. ' +
-      'Please implement the backend endpoint before using this method.'
-    )
+  async bulkCancelServices(employeeIds: string[], serviceType: ServiceType): Promise<BulkCancelServicesResponse> {
+    const response = await apiClient.post<BulkCancelServicesResponse>('/services/bulk/cancel', { employeeIds, serviceType })
+    return response.data
   },
 }
 
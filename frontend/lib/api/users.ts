@@ -1,5 +1,22 @@
 import apiClient from './client'
 
+export type InviteChannel = 'email' | 'sms'
+
+export type InviteStatus = 'Ожидает' | 'Принято' | 'Просрочено' | 'Отозвано'
+
+export interface UserInvitation {
+  status: InviteStatus
+  channel: InviteChannel
+  /** Email or phone the link went to */
+  sentTo: string
+  sentAt: string
+  expiresAt: string
+  /** Only in the create/resend response */
+  delivered?: boolean
+  /** Returned only when delivery failed, so the link can be passed on manually */
+  inviteUrl?: string | null
+}
+
 export interface User {
   id: string
   fullName: string
@@ -8,6 +25,9 @@ export interface User {
   role: string
   status: string
   permissions?: string[]
+  twoFactorEnabled?: boolean
+  /** Latest invitation; null for users created before invitations */
+  invitation?: UserInvitation | null
 }
 
 export interface CreateUserRequest {
@@ -15,8 +35,8 @@ export interface CreateUserRequest {
   phone: string
   email: string
   role: string
-  password: string
   permissions: string[]
+  inviteChannel: InviteChannel
 }
 
 export interface UpdateUserRequest {
@@ -28,6 +48,19 @@ export interface UpdateUserRequest {
   permissions: string[]
 }
 
+export interface PermissionAction {
+  /** e.g. "employees:edit" */
+  key: string
+  label: string
+}
+
+export interface PermissionGroup {
+  /** Page route, e.g. "employees" */
+  route: string
+  label: string
+  actions: PermissionAction[]
+}
+
 export interface UsersResponse {
   items: User[]
   total: number
@@ -63,9 +96,23 @@ export const usersApi = {
     await apiClient.delete(`/users/${id}`)
   },
 
+  async resendInvitation(id: string, channel?: InviteChannel): Promise<UserInvitation> {
+    const response = await apiClient.post<UserInvitation>(`/users/${id}/invitation/resend`, { channel })
+    return response.data
+  },
+
+  async revokeInvitation(id: string): Promise<void> {
+    await apiClient.delete(`/users/${id}/invitation`)
+  },
+
   async getAvailableRoutes(): Promise<string[]> {
     const response = await apiClient.get<string[]>('/users/permissions/routes')
     return response.data
   },
+
+  async getPermissionMatrix(): Promise<PermissionGroup[]> {
+    const response = await apiClient.get<PermissionGroup[]>('/users/permissions/matrix')
+    return response.data
+  },
 }
 
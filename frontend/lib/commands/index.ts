@@ -11,3 +11,12 @@ export {
   useDeleteEmployeeCommand,
 } from './employees.commands'
 
+// Orders
+export {
+  scheduleBulkOrderAction,
+  undoBulkOrderAction,
+  usePendingBulkOrderActions,
+  usePendingOrderPatches,
+  BULK_ACTION_UNDO_SECONDS,
+  type PendingBulkAction,
+} from './orders.commands'
@@ -0,0 +1,416 @@
+/**
+ * @fileoverview Orders Commands
+ * Deferred-commit bulk order actions with an undo window.
+ * The change is applied to the cached orders at once (dashboard list and week
+ * plans), a toast offers "Отменить", and `homeApi.bulkAction` is called only
+ * when the window closes. State lives at module level, not in a component,
+ * so pending actions keep running across in-app navigation.
+ * Pending patches are tracked per order: a newer action on the same order
+ * takes the order over from the earlier one instead of stacking on top of it.
+ */
+
+import { useMemo } from 'react'
+import { matchQuery } from '@tanstack/react-query'
+import { create } from 'zustand'
+import { toast } from 'sonner'
+import { homeApi, type BulkActionRequest } from '@/lib/api/home'
+import { getQueryClient, queryKeys } from '@/lib/query/query-client'
+import {
+  patchWeekPlanCells,
+  readWeekPlanCells,
+  weekPlanQueryFilter,
+  type WeekPlanCellPatch,
+} from '@/lib/query/week-plan-cache'
+import { ORDER_STATUS } from '@/lib/constants/entity-statuses'
+import { parseError, ErrorCodes } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { useHomeStore } from '@/stores/home-store'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface PendingBulkAction {
+  id: string
+  request: BulkActionRequest
+  /** Epoch ms when the request is sent */
+  commitAt: number
+  /** Request in flight — undo is no longer possible */
+  sending: boolean
+}
+
+type PatchField = keyof WeekPlanCellPatch
+
+interface PendingEntry {
+  /** Optimistic values applied to every affected order */
+  patch: WeekPlanCellPatch
+  /** Values of the patched fields before the action, for rollback */
+  previous: Map<string, WeekPlanCellPatch>
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Length of the undo window */
+export const BULK_ACTION_UNDO_SECONDS = 8
+
+const OPTIMISTIC_STATUS: Partial<Record<BulkActionRequest['action'], string>> = {
+  pause: ORDER_STATUS.PAUSED,
+  resume: ORDER_STATUS.ACTIVE,
+  cancel: ORDER_STATUS.CANCELLED,
+}
+
+const ACTION_LABELS: Record<BulkActionRequest['action'], string> = {
+  pause: 'Приостановлено',
+  resume: 'Возобновлено',
+  cancel: 'Отменено',
+  changecombo: 'Комбо изменено',
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Module state
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const usePendingBulkActionsStore = create<{ pending: PendingBulkAction[] }>(() => ({ pending: [] }))
+
+/** Timers and rollback data (not UI state, kept out of the store) */
+const entries = new Map<string, PendingEntry>()
+
+/** Pending action that owns each patched field, keyed by order id */
+const pendingByOrder = new Map<string, Partial<Record<PatchField, string>>>()
+
+let listenersInstalled = false
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Cache patches
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function getOptimisticPatch(request: BulkActionRequest): WeekPlanCellPatch {
+  return request.action === 'changecombo'
+    ? { comboType: request.comboType }
+    : { status: OPTIMISTIC_STATUS[request.action] }
+}
+
+function pickFields(values: WeekPlanCellPatch, fields: PatchField[]): WeekPlanCellPatch {
+  const result: WeekPlanCellPatch = {}
+  for (const field of fields) result[field] = values[field]
+  return result
+}
+
+function readHomeOrders(orderIds: string[]): Map<string, WeekPlanCellPatch> {
+  const wanted = new Set(orderIds)
+  const result = new Map<string, WeekPlanCellPatch>()
+  for (const order of useHomeStore.getState().orders) {
+    if (wanted.has(order.id)) {
+      result.set(order.id, { status: order.status, comboType: order.comboType ?? null })
+    }
+  }
+  return result
+}
+
+function patchHomeOrders(patches: Map<string, WeekPlanCellPatch>) {
+  const { orders } = useHomeStore.getState()
+  let changed = false
+
+  const next = orders.map((order) => {
+    const patch = patches.get(order.id)
+    if (!patch) return order
+
+    const status = patch.status ?? order.status
+    const comboType = patch.comboType !== undefined ? patch.comboType ?? undefined : order.comboType
+    if (status === order.status && comboType === order.comboType) return order
+
+    changed = true
+    return { ...order, status, comboType }
+  })
+
+  if (changed) useHomeStore.setState({ orders: next })
+}
+
+function applyPatches(patches: Map<string, WeekPlanCellPatch>) {
+  patchHomeOrders(patches)
+  patchWeekPlanCells(getQueryClient(), patches)
+}
+
+/** Optimistic values of every pending action (oldest first), keyed by order id */
+function collectPendingPatches(pending: PendingBulkAction[]): Map<string, WeekPlanCellPatch> {
+  const merged = new Map<string, WeekPlanCellPatch>()
+  for (const { id, request } of pending) {
+    const entry = entries.get(id)
+    if (!entry) continue
+    for (const orderId of request.orderIds) {
+      merged.set(orderId, { ...merged.get(orderId), ...entry.patch })
+    }
+  }
+  return merged
+}
+
+/**
+ * Re-apply every pending action. Idempotent: caches that
+ * already show the optimistic values are left untouched.
+ */
+function reapplyPendingPatches() {
+  applyPatches(collectPendingPatches(usePendingBulkActionsStore.getState().pending))
+}
+
+/**
+ * Refetches during the undo window would drop the optimistic state,
+ * so it is re-applied whenever fresh orders arrive.
+ */
+function installListeners() {
+  if (listenersInstalled || typeof window === 'undefined') return
+  listenersInstalled = true
+
+  useHomeStore.subscribe((state, prev) => {
+    if (state.orders !== prev.orders) reapplyPendingPatches()
+  })
+
+  getQueryClient().getQueryCache().subscribe((event) => {
+    if (
+      event.type === 'updated' &&
+      event.action.type === 'success' &&
+      !event.action.manual &&
+      matchQuery(weekPlanQueryFilter, event.query)
+    ) {
+      reapplyPendingPatches()
+    }
+  })
+
+  window.addEventListener('beforeunload', (event) => {
+    if (usePendingBulkActionsStore.getState().pending.length > 0) {
+      event.preventDefault()
+      event.returnValue = ''
+    }
+  })
+}
+
+function findPending(id: string): PendingBulkAction | undefined {
+  return usePendingBulkActionsStore.getState().pending.find((action) => action.id === id)
+}
+
+function claimOrders(id: string, orderIds: string[], fields: PatchField[]) {
+  for (const orderId of orderIds) {
+    const owners = pendingByOrder.get(orderId) ?? {}
+    for (const field of fields) owners[field] = id
+    pendingByOrder.set(orderId, owners)
+  }
+}
+
+function releaseOrder(id: string, orderId: string) {
+  const owners = pendingByOrder.get(orderId)
+  if (!owners) return
+
+  for (const field of Object.keys(owners) as PatchField[]) {
+    if (owners[field] === id) delete owners[field]
+  }
+  if (Object.keys(owners).length === 0) pendingByOrder.delete(orderId)
+}
+
+function removePending(id: string) {
+  for (const orderId of findPending(id)?.request.orderIds ?? []) {
+    releaseOrder(id, orderId)
+  }
+  entries.delete(id)
+  usePendingBulkActionsStore.setState((state) => ({
+    pending: state.pending.filter((action) => action.id !== id),
+  }))
+}
+
+/**
+ * Take an order over from the earlier pending action that patches the same
+ * fields. The earlier action stops sending it (and is dropped when no orders
+ * are left); its rollback values move to the caller.
+ * @returns Values before the earlier action, or null when no unsent action owns the order
+ */
+function takeOverOrder(orderId: string, fields: PatchField[]): WeekPlanCellPatch | null {
+  const owners = pendingByOrder.get(orderId)
+  const ownerId = owners ? fields.map((field) => owners[field]).find(Boolean) : undefined
+  if (!ownerId) return null
+
+  const entry = entries.get(ownerId)
+  const pending = findPending(ownerId)
+  if (!entry || !pending || pending.sending) return null
+
+  const previous = entry.previous.get(orderId) ?? {}
+  entry.previous.delete(orderId)
+  releaseOrder(ownerId, orderId)
+
+  const orderIds = pending.request.orderIds.filter((id) => id !== orderId)
+  if (orderIds.length === 0) {
+    if (entry.timer) clearTimeout(entry.timer)
+    removePending(ownerId)
+    toast.dismiss(ownerId)
+  } else {
+    usePendingBulkActionsStore.setState((state) => ({
+      pending: state.pending.map((action) =>
+        action.id === ownerId ? { ...action, request: { ...action.request, orderIds } } : action
+      ),
+    }))
+  }
+
+  return previous
+}
+
+function rollback(entry: PendingEntry) {
+  applyPatches(entry.previous)
+  reapplyPendingPatches()
+}
+
+function refreshOrders() {
+  const { fetchOrders, fetchDashboard, currentPage } = useHomeStore.getState()
+  void fetchOrders(currentPage)
+  void fetchDashboard()
+  void getQueryClient().invalidateQueries({ queryKey: queryKeys.dashboard.all })
+}
+
+function showBulkActionError(error: unknown, action: BulkActionRequest['action']) {
+  const appError = parseError(error)
+  logger.error(`Bulk ${action} failed`, error instanceof Error ? error : new Error(appError.message), {
+    errorCode: appError.code,
+  })
+
+  if (appError.code === ErrorCodes.ORDER_CUTOFF_PASSED) {
+    toast.error('Время для изменений истекло', {
+      description: 'Изменения на сегодня невозможны после времени отсечки',
+    })
+  } else {
+    toast.error(appError.message, { description: appError.action })
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Commands
+// ═══════════════════════════════════════════════════════════════════════════════
+
+async function commitBulkOrderAction(id: string) {
+  const entry = entries.get(id)
+  const pending = findPending(id)
+  if (!entry || !pending) return
+
+  entry.timer = null
+  usePendingBulkActionsStore.setState((state) => ({
+    pending: state.pending.map((action) => (action.id === id ? { ...action, sending: true } : action)),
+  }))
+
+  const { request } = pending
+  try {
+    await homeApi.bulkAction(request)
+    removePending(id)
+    toast.success(`${ACTION_LABELS[request.action]}: ${request.orderIds.length} заказ(ов)`, { id })
+  } catch (error) {
+    removePending(id)
+    rollback(entry)
+    toast.dismiss(id)
+    showBulkActionError(error, request.action)
+  } finally {
+    refreshOrders()
+  }
+}
+
+/**
+ * Apply a bulk action optimistically and send it after the undo window.
+ * Callers pass only orders the action is legal for (see canTransitionOrder).
+ * Orders already patched by an unsent action are taken over from it; an action
+ * that returns an order to its original value cancels both for that order.
+ * @returns Pending action id, or null when there is nothing to do
+ */
+export function scheduleBulkOrderAction(
+  request: BulkActionRequest,
+  undoSeconds: number = BULK_ACTION_UNDO_SECONDS
+): string | null {
+  if (request.orderIds.length === 0) return null
+  installListeners()
+
+  const queryClient = getQueryClient()
+  void queryClient.cancelQueries(weekPlanQueryFilter)
+
+  // Current values for rollback; the dashboard list wins over week plans
+  const current = readWeekPlanCells(queryClient, request.orderIds)
+  for (const [orderId, values] of readHomeOrders(request.orderIds)) {
+    current.set(orderId, values)
+  }
+
+  const patch = getOptimisticPatch(request)
+  const fields = Object.keys(patch) as PatchField[]
+  const previous = new Map<string, WeekPlanCellPatch>()
+  const restored = new Map<string, WeekPlanCellPatch>()
+  const orderIds: string[] = []
+
+  for (const orderId of request.orderIds) {
+    const earlier = takeOverOrder(orderId, fields)
+    if (earlier && fields.every((field) => earlier[field] === patch[field])) {
+      restored.set(orderId, earlier)
+      continue
+    }
+
+    const values = earlier ?? current.get(orderId)
+    if (values) previous.set(orderId, pickFields(values, fields))
+    orderIds.push(orderId)
+  }
+
+  applyPatches(restored)
+  if (orderIds.length === 0) {
+    reapplyPendingPatches()
+    toast.info('Действие отменено')
+    return null
+  }
+
+  const id = `bulk-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  const windowMs = undoSeconds * 1000
+  const scheduled = { ...request, orderIds }
+  entries.set(id, {
+    patch,
+    previous,
+    timer: setTimeout(() => void commitBulkOrderAction(id), windowMs),
+  })
+  claimOrders(id, orderIds, fields)
+  usePendingBulkActionsStore.setState((state) => ({
+    pending: [...state.pending, { id, request: scheduled, commitAt: Date.now() + windowMs, sending: false }],
+  }))
+  reapplyPendingPatches()
+
+  toast(`${ACTION_LABELS[request.action]}: ${orderIds.length} заказ(ов)`, {
+    id,
+    description: `Изменения будут сохранены через ${undoSeconds} сек.`,
+    duration: windowMs,
+    action: {
+      label: 'Отменить',
+      onClick: () => undoBulkOrderAction(id),
+    },
+  })
+
+  return id
+}
+
+/**
+ * Drop a pending bulk action and roll the caches back.
+ * No-op once the request has been sent.
+ */
+export function undoBulkOrderAction(id: string): void {
+  const entry = entries.get(id)
+  const pending = findPending(id)
+  if (!entry || !pending || pending.sending) return
+
+  if (entry.timer) clearTimeout(entry.timer)
+  removePending(id)
+  rollback(entry)
+  toast.info('Действие отменено', { id })
+}
+
+/**
+ * Pending bulk actions, e.g. to mark affected orders in a table.
+ */
+export function usePendingBulkOrderActions(): PendingBulkAction[] {
+  return usePendingBulkActionsStore((state) => state.pending)
+}
+
+/**
+ * Optimistic values of orders with pending actions, keyed by order id.
+ * For views that keep their own copy of the orders (e.g. the employee page).
+ */
+export function usePendingOrderPatches(): Map<string, WeekPlanCellPatch> {
+  const pending = usePendingBulkOrderActions()
+  return useMemo(() => collectPendingPatches(pending), [pending])
+}
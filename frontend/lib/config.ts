@@ -72,6 +72,11 @@ export interface AppConfig {
       default: string
       timezone: string
     }
+    session: {
+      idleTimeoutMinutes: number
+      idleWarningSeconds: number
+      refreshBeforeExpirySeconds: number
+    }
   }
   contacts: {
     support: {
@@ -168,6 +173,10 @@ export const DATETIME_FORMAT = config.ui.dateFormats.datetime
 export const DEFAULT_LOCALE = config.ui.locale.default
 export const DEFAULT_TIMEZONE = config.ui.locale.timezone
 
+export const IDLE_TIMEOUT_MS = config.ui.session.idleTimeoutMinutes * 60 * 1000
+export const IDLE_WARNING_MS = config.ui.session.idleWarningSeconds * 1000
+export const TOKEN_REFRESH_LEAD_MS = config.ui.session.refreshBeforeExpirySeconds * 1000
+
 // Contacts
 export const SUPPORT_CONTACTS = config.contacts.support
 export const OFFICE_INFO = config.contacts.office
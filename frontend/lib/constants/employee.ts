@@ -92,6 +92,7 @@ export const ROUTE_LABELS: Record<string, string> = {
   analytics: 'Аналитика',
   news: 'Новости',
   partners: 'Партнеры',
+  audit: 'Журнал изменений',
 }
 
 // =============================================================================
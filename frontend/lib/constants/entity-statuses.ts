@@ -266,6 +266,7 @@ export function isOrderCancelled(status?: string): boolean {
 /**
  * Check if order can be modified (Active or Paused orders).
  * Cancelled and Completed orders cannot be modified.
+ * @deprecated Gate pause/resume/cancel with getOrderActions from '@/lib/machines'
  */
 export function canModifyOrder(status?: string): boolean {
   return isOrderActive(status) || isOrderPaused(status)
@@ -366,6 +367,7 @@ export function isSubscriptionTerminal(status?: string): boolean {
 
 /**
  * Check if subscription can be resumed (only paused, not completed).
+ * @deprecated Gate pause/resume with getSubscriptionActions from '@/lib/machines'
  */
 export function canResumeSubscription(status?: string): boolean {
   return isSubscriptionPaused(status) && !isSubscriptionCompleted(status)
@@ -412,6 +414,54 @@ export function getInviteStatusConfig(status?: string) {
   }
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// Admin User Invite Statuses
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const ADMIN_INVITE_STATUS = {
+  PENDING: 'Ожидает',
+  ACCEPTED: 'Принято',
+  EXPIRED: 'Просрочено',
+  REVOKED: 'Отозвано',
+} as const
+
+export type AdminInviteStatusType = typeof ADMIN_INVITE_STATUS[keyof typeof ADMIN_INVITE_STATUS]
+
+export function getAdminInviteStatusConfig(status?: string) {
+  switch (status) {
+    case ADMIN_INVITE_STATUS.PENDING:
+      return {
+        label: 'Ожидает',
+        variant: 'secondary' as const,
+        className: 'bg-amber-500/10 text-amber-600 dark:bg-amber-500/20 dark:text-amber-400',
+      }
+    case ADMIN_INVITE_STATUS.ACCEPTED:
+      return {
+        label: 'Принято',
+        variant: 'default' as const,
+        className: 'bg-emerald-500/10 text-emerald-600 dark:bg-emerald-500/20 dark:text-emerald-400',
+      }
+    case ADMIN_INVITE_STATUS.EXPIRED:
+      return {
+        label: 'Просрочено',
+        variant: 'destructive' as const,
+        className: 'bg-red-500/10 text-red-600 dark:bg-red-500/20 dark:text-red-400',
+      }
+    case ADMIN_INVITE_STATUS.REVOKED:
+      return {
+        label: 'Отозвано',
+        variant: 'outline' as const,
+        className: 'text-muted-foreground',
+      }
+    default:
+      return {
+        label: 'Без приглашения',
+        variant: 'outline' as const,
+        className: '',
+      }
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Status Color Helpers
 // ═══════════════════════════════════════════════════════════════════════════════
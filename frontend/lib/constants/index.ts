@@ -127,6 +127,8 @@ export {
   getSubscriptionStatusConfig,
   INVITE_STATUS,
   getInviteStatusConfig,
+  ADMIN_INVITE_STATUS,
+  getAdminInviteStatusConfig,
 } from './entity-statuses'
 
 // Re-export dictionaries (единый источник данных для справочников и фильтров)
@@ -14,6 +14,60 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_invitations: {
+        Row: {
+          accepted_at: string | null
+          channel: string
+          created_at: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          revoked_at: string | null
+          sent_to: string
+          token_hash: string
+          user_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          channel: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          sent_to: string
+          token_hash: string
+          user_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          channel?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          sent_to?: string
+          token_hash?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "admin_invitations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       admin_users: {
         Row: {
           company_id: string
@@ -23,11 +77,16 @@ export type Database = {
           full_name: string
           id: string
           last_login_at: string | null
+          password_changed_at: string | null
           password_hash: string
           phone: string
           project_id: string | null
           role: string
           status: Database["public"]["Enums"]["admin_status"]
+          two_factor_backup_codes: string[]
+          two_factor_enabled_at: string | null
+          two_factor_last_used_step: number | null
+          two_factor_secret: string | null
           updated_at: string
         }
         Insert: {
@@ -38,11 +97,16 @@ export type Database = {
           full_name: string
           id?: string
           last_login_at?: string | null
+          password_changed_at?: string | null
           password_hash: string
           phone: string
           project_id?: string | null
           role: string
           status?: Database["public"]["Enums"]["admin_status"]
+          two_factor_backup_codes?: string[]
+          two_factor_enabled_at?: string | null
+          two_factor_last_used_step?: number | null
+          two_factor_secret?: string | null
           updated_at?: string
         }
         Update: {
@@ -53,11 +117,16 @@ export type Database = {
           full_name?: string
           id?: string
           last_login_at?: string | null
+          password_changed_at?: string | null
           password_hash?: string
           phone?: string
           project_id?: string | null
           role?: string
           status?: Database["public"]["Enums"]["admin_status"]
+          two_factor_backup_codes?: string[]
+          two_factor_enabled_at?: string | null
+          two_factor_last_used_step?: number | null
+          two_factor_secret?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -84,6 +153,7 @@ export type Database = {
           entity_id: string | null
           entity_type: string
           id: string
+          impersonated_by: string | null
           ip_address: string | null
           new_values: Json | null
           old_values: Json | null
@@ -96,6 +166,7 @@ export type Database = {
           entity_id?: string | null
           entity_type: string
           id?: string
+          impersonated_by?: string | null
           ip_address?: string | null
           new_values?: Json | null
           old_values?: Json | null
@@ -108,6 +179,7 @@ export type Database = {
           entity_id?: string | null
           entity_type?: string
           id?: string
+          impersonated_by?: string | null
           ip_address?: string | null
           new_values?: Json | null
           old_values?: Json | null
@@ -402,6 +474,39 @@ export type Database = {
           },
         ]
       }
+      document_view_status: {
+        Row: {
+          document_id: string
+          user_id: string
+          viewed_at: string
+        }
+        Insert: {
+          document_id: string
+          user_id: string
+          viewed_at?: string
+        }
+        Update: {
+          document_id?: string
+          user_id?: string
+          viewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_view_status_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "company_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_view_status_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       employee_budgets: {
         Row: {
           auto_renew: boolean
@@ -640,6 +745,57 @@ export type Database = {
           },
         ]
       }
+      impersonation_sessions: {
+        Row: {
+          ended_at: string | null
+          expires_at: string
+          id: string
+          impersonator_id: string
+          ip_address: string | null
+          reason: string
+          started_at: string
+          target_user_id: string
+          user_agent: string | null
+        }
+        Insert: {
+          ended_at?: string | null
+          expires_at: string
+          id?: string
+          impersonator_id: string
+          ip_address?: string | null
+          reason: string
+          started_at?: string
+          target_user_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          ended_at?: string | null
+          expires_at?: string
+          id?: string
+          impersonator_id?: string
+          ip_address?: string | null
+          reason?: string
+          started_at?: string
+          target_user_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "impersonation_sessions_impersonator_id_fkey"
+            columns: ["impersonator_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "impersonation_sessions_target_user_id_fkey"
+            columns: ["target_user_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invoices: {
         Row: {
           amount: number
@@ -882,6 +1038,54 @@ export type Database = {
           },
         ]
       }
+      partners: {
+        Row: {
+          address: string
+          created_at: string | null
+          cuisine: string | null
+          email: string | null
+          id: string
+          is_active: boolean | null
+          latitude: number | null
+          longitude: number | null
+          name: string
+          phone: string | null
+          type: string
+          updated_at: string | null
+          working_hours: string | null
+        }
+        Insert: {
+          address: string
+          created_at?: string | null
+          cuisine?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          phone?: string | null
+          type?: string
+          updated_at?: string | null
+          working_hours?: string | null
+        }
+        Update: {
+          address?: string
+          created_at?: string | null
+          cuisine?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          phone?: string | null
+          type?: string
+          updated_at?: string | null
+          working_hours?: string | null
+        }
+        Relationships: []
+      }
       projects: {
         Row: {
           budget: number | null
@@ -953,7 +1157,9 @@ export type Database = {
           device_info: string | null
           expires_at: string
           id: string
+          impersonated_by: string | null
           ip_address: string | null
+          last_used_at: string | null
           revoked_at: string | null
           token_hash: string
           user_id: string
@@ -963,7 +1169,9 @@ export type Database = {
           device_info?: string | null
           expires_at: string
           id?: string
+          impersonated_by?: string | null
           ip_address?: string | null
+          last_used_at?: string | null
           revoked_at?: string | null
           token_hash: string
           user_id: string
@@ -973,7 +1181,9 @@ export type Database = {
           device_info?: string | null
           expires_at?: string
           id?: string
+          impersonated_by?: string | null
           ip_address?: string | null
+          last_used_at?: string | null
           revoked_at?: string | null
           token_hash?: string
           user_id?: string
@@ -990,6 +1200,7 @@ export type Database = {
       }
       system_news: {
         Row: {
+          category: string
           content: string
           created_at: string | null
           id: string
@@ -1000,6 +1211,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          category?: string
           content: string
           created_at?: string | null
           id?: string
@@ -1010,6 +1222,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          category?: string
           content?: string
           created_at?: string | null
           id?: string
@@ -77,7 +77,11 @@ export const ErrorCodes = {
   AUTH_UNAUTHORIZED: 'AUTH_UNAUTHORIZED',
   AUTH_FORBIDDEN: 'AUTH_FORBIDDEN',
   AUTH_IMPERSONATION_NOT_ALLOWED: 'AUTH_IMPERSONATION_NOT_ALLOWED',
+  AUTH_COMPANY_VIEW_READ_ONLY: 'AUTH_COMPANY_VIEW_READ_ONLY',
   AUTH_PASSWORD_MISMATCH: 'AUTH_PASSWORD_MISMATCH',
+  AUTH_PASSWORD_WEAK: 'AUTH_PASSWORD_WEAK',
+  AUTH_PASSWORD_BREACHED: 'AUTH_PASSWORD_BREACHED',
+  AUTH_PASSWORD_REUSED: 'AUTH_PASSWORD_REUSED',
 
   // User
   USER_NOT_FOUND: 'USER_NOT_FOUND',
@@ -144,6 +148,10 @@ const ERROR_MESSAGES: Record<string, string> = {
   [ErrorCodes.AUTH_TOKEN_EXPIRED]: 'Сессия истекла. Пожалуйста, войдите заново',
   [ErrorCodes.AUTH_UNAUTHORIZED]: 'Требуется авторизация',
   [ErrorCodes.AUTH_FORBIDDEN]: 'Доступ запрещён',
+  [ErrorCodes.AUTH_COMPANY_VIEW_READ_ONLY]: 'В режиме просмотра компании изменения недоступны',
+  [ErrorCodes.AUTH_PASSWORD_WEAK]: 'Пароль слишком слабый',
+  [ErrorCodes.AUTH_PASSWORD_BREACHED]: 'Этот пароль встречается в утечках данных. Выберите другой',
+  [ErrorCodes.AUTH_PASSWORD_REUSED]: 'Новый пароль должен отличаться от текущего',
 
   [ErrorCodes.USER_PHONE_EXISTS]: 'Пользователь с таким телефоном уже существует',
   [ErrorCodes.USER_CANNOT_DELETE_SELF]: 'Нельзя удалить самого себя',
@@ -182,6 +190,8 @@ const ERROR_ACTIONS: Record<string, string> = {
   [ErrorCodes.AUTH_INVALID_CREDENTIALS]: 'Проверьте данные или восстановите пароль',
   [ErrorCodes.AUTH_USER_BLOCKED]: 'Свяжитесь с администратором',
   [ErrorCodes.AUTH_TOKEN_EXPIRED]: 'Войдите в систему заново',
+  [ErrorCodes.AUTH_COMPANY_VIEW_READ_ONLY]: 'Выйдите из просмотра или войдите от имени администратора компании',
+  [ErrorCodes.AUTH_PASSWORD_BREACHED]: 'Придумайте новый пароль, который вы нигде раньше не использовали',
   [ErrorCodes.BUDGET_INSUFFICIENT]: 'Обратитесь к администратору для пополнения',
   [ErrorCodes.FREEZE_LIMIT_EXCEEDED]: 'Дождитесь следующей недели',
   [ErrorCodes.ORDER_CUTOFF_PASSED]: 'Изменения возможны только до указанного времени',
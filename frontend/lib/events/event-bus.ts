@@ -113,6 +113,8 @@ export const AppEvents = {
   // FREEZE DISABLED (2025-01-09): events kept for type compatibility
   ORDER_FROZEN: 'order:frozen',      // DEPRECATED: do not use
   ORDER_UNFROZEN: 'order:unfrozen',  // DEPRECATED: do not use
+  ORDERS_GENERATED: 'order:generated',
+  ORDERS_SETTLED: 'order:settled',
 
   // Subscription events
   SUBSCRIPTION_CREATED: 'subscription:created',
@@ -121,10 +123,17 @@ export const AppEvents = {
   SUBSCRIPTION_RESUMED: 'subscription:resumed',
   SUBSCRIPTION_CANCELLED: 'subscription:cancelled',
 
+  // Budget events
+  BUDGET_UPDATED: 'budget:updated',
+
+  // Realtime (server push) events
+  REALTIME_CONNECTION: 'realtime:connection',
+
   // Auth events
   AUTH_LOGIN: 'auth:login',
   AUTH_LOGOUT: 'auth:logout',
   AUTH_SESSION_EXPIRED: 'auth:session-expired',
+  AUTH_TOKEN_REFRESHED: 'auth:token-refreshed',
 
   // UI events
   DIALOG_OPENED: 'ui:dialog-opened',
@@ -155,6 +164,8 @@ export interface EventPayloads {
   [AppEvents.ORDER_CANCELLED]: { id: string; reason?: string }
   [AppEvents.ORDER_FROZEN]: { id: string; date: string }
   [AppEvents.ORDER_UNFROZEN]: { id: string; date: string }
+  [AppEvents.ORDERS_GENERATED]: { projectId: string | null; date: string | null; count: number }
+  [AppEvents.ORDERS_SETTLED]: { projectId: string | null; date: string | null; count: number }
 
   [AppEvents.SUBSCRIPTION_CREATED]: { id: string; employeeId: string; type: 'LUNCH' | 'COMPENSATION' }
   [AppEvents.SUBSCRIPTION_UPDATED]: { id: string }
@@ -162,9 +173,14 @@ export interface EventPayloads {
   [AppEvents.SUBSCRIPTION_RESUMED]: { id: string }
   [AppEvents.SUBSCRIPTION_CANCELLED]: { id: string }
 
+  [AppEvents.BUDGET_UPDATED]: { projectId: string | null; balance: number }
+
+  [AppEvents.REALTIME_CONNECTION]: { connected: boolean }
+
   [AppEvents.AUTH_LOGIN]: { userId: string }
   [AppEvents.AUTH_LOGOUT]: Record<string, never>
   [AppEvents.AUTH_SESSION_EXPIRED]: Record<string, never>
+  [AppEvents.AUTH_TOKEN_REFRESHED]: { token: string; expiresAt: number | null }
 
   [AppEvents.DIALOG_OPENED]: { id: string }
   [AppEvents.DIALOG_CLOSED]: { id: string }
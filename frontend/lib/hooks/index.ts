@@ -4,6 +4,16 @@
  * Based on Code Quality Audit Framework - DRY principle.
  */
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// Permission & project scope hooks
+// ═══════════════════════════════════════════════════════════════════════════════
+export { useCan } from './use-can'
+export {
+  useProjectScope,
+  ALL_PROJECTS,
+  type UseProjectScopeReturn,
+} from './use-project-scope'
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Form hooks
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -24,6 +34,12 @@ export { usePagination } from './use-pagination'
 // ═══════════════════════════════════════════════════════════════════════════════
 export { useDashboard, type UseDashboardReturn } from './use-dashboard'
 export { useOrderActions, type UseOrderActionsReturn } from './use-order-actions'
+export {
+  useOrderTransitions,
+  type UseOrderTransitionsOptions,
+  type UseOrderTransitionsReturn,
+} from './use-order-transitions'
+export { useDeliveryManifest, type UseDeliveryManifestReturn } from './use-delivery-manifest'
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Employee hooks
@@ -94,6 +110,11 @@ export {
 // ═══════════════════════════════════════════════════════════════════════════════
 export { useFocusTrap, useRestoreFocus, useRovingFocus } from './use-focus-trap'
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// Auth hooks
+// ═══════════════════════════════════════════════════════════════════════════════
+export { usePasswordCheck } from './use-password-check'
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Performance hooks
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -4,7 +4,7 @@
  * Based on Code Quality Audit Framework - DRY principle.
  */
 
-import { useCallback, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { parseError, type AppError } from '@/lib/errors'
 
 /**
@@ -174,8 +174,7 @@ export function useMutation<T, Args extends unknown[]>(
 export function useDebounce<T>(value: T, delay: number): T {
   const [debouncedValue, setDebouncedValue] = useState<T>(value)
 
-  // Note: This is simplified. In production, consider using a library like lodash-es.
-  useState(() => {
+  useEffect(() => {
     const handler = setTimeout(() => {
       setDebouncedValue(value)
     }, delay)
@@ -183,7 +182,7 @@ export function useDebounce<T>(value: T, delay: number): T {
     return () => {
       clearTimeout(handler)
     }
-  })
+  }, [value, delay])
 
   return debouncedValue
 }
@@ -9,13 +9,11 @@
 
 import { useState, useMemo, useCallback } from 'react'
 import { toast } from 'sonner'
-import { useHomeStore } from '@/stores/home-store'
 import type { Order, ComboType } from '@/lib/api/home'
 // FREEZE DISABLED: import kept but function throws error
 // import { freezeOrder } from '@/lib/api/orders'
-import { parseError, ErrorCodes } from '@/lib/errors'
-import { logger } from '@/lib/logger'
-import { ORDER_STATUS } from '@/lib/constants/entity-statuses'
+import { canTransitionOrder } from '@/lib/machines'
+import { scheduleBulkOrderAction } from '@/lib/commands'
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Types
@@ -89,17 +87,10 @@ export const ACTION_OPTIONS: ActionOption[] = [
     color: 'text-amber-500',
     bgColor: 'bg-amber-50 dark:bg-amber-950/30',
     available: (orders) =>
-      orders.some(
-        (o) =>
-          (o.status === ORDER_STATUS.ACTIVE || o.status === 'Активен') && 
-          (o.serviceType === 'LUNCH' || !o.serviceType)
-      ),
+      orders.some((o) => canTransitionOrder(o.status, 'pause') && (o.serviceType === 'LUNCH' || !o.serviceType)),
     getApplicableCount: (orders) =>
-      orders.filter(
-        (o) =>
-          (o.status === ORDER_STATUS.ACTIVE || o.status === 'Активен') && 
-          (o.serviceType === 'LUNCH' || !o.serviceType)
-      ).length,
+      orders.filter((o) => canTransitionOrder(o.status, 'pause') && (o.serviceType === 'LUNCH' || !o.serviceType))
+        .length,
   },
   {
     id: 'resume',
@@ -108,18 +99,10 @@ export const ACTION_OPTIONS: ActionOption[] = [
     color: 'text-emerald-600',
     bgColor: 'bg-emerald-50 dark:bg-emerald-950/30',
     available: (orders) =>
-      // 'На паузе' is DEPRECATED, use 'Приостановлен'
-      orders.some(
-        (o) =>
-          (o.status === ORDER_STATUS.PAUSED || o.status === 'Приостановлен' || o.status === 'На паузе') && 
-          (o.serviceType === 'LUNCH' || !o.serviceType)
-      ),
+      orders.some((o) => canTransitionOrder(o.status, 'resume') && (o.serviceType === 'LUNCH' || !o.serviceType)),
     getApplicableCount: (orders) =>
-      orders.filter(
-        (o) =>
-          (o.status === ORDER_STATUS.PAUSED || o.status === 'Приостановлен' || o.status === 'На паузе') && 
-          (o.serviceType === 'LUNCH' || !o.serviceType)
-      ).length,
+      orders.filter((o) => canTransitionOrder(o.status, 'resume') && (o.serviceType === 'LUNCH' || !o.serviceType))
+        .length,
   },
   // FREEZE DISABLED (2025-01-09): action hidden from UI
   // {
@@ -137,17 +120,8 @@ export const ACTION_OPTIONS: ActionOption[] = [
     description: 'Безвозвратно отменить',
     color: 'text-red-600',
     bgColor: 'bg-red-50 dark:bg-red-950/30',
-    available: (orders) =>
-      // 'На паузе' is DEPRECATED, use 'Приостановлен'
-      orders.some((o) => 
-        o.status === ORDER_STATUS.ACTIVE || o.status === ORDER_STATUS.PAUSED ||
-        o.status === 'Активен' || o.status === 'Приостановлен' || o.status === 'На паузе'
-      ),
-    getApplicableCount: (orders) =>
-      orders.filter((o) => 
-        o.status === ORDER_STATUS.ACTIVE || o.status === ORDER_STATUS.PAUSED ||
-        o.status === 'Активен' || o.status === 'Приостановлен' || o.status === 'На паузе'
-      ).length,
+    available: (orders) => orders.some((o) => canTransitionOrder(o.status, 'cancel')),
+    getApplicableCount: (orders) => orders.filter((o) => canTransitionOrder(o.status, 'cancel')).length,
   },
 ]
 
@@ -160,8 +134,6 @@ export function useBulkEditForm({
   selectedDate,
   onSuccess,
 }: UseBulkEditFormProps): UseBulkEditFormReturn {
-  const { bulkAction, fetchOrders } = useHomeStore()
-
   // State
   const [step, setStep] = useState(1)
   const [selectedAction, setSelectedAction] = useState<BulkAction | null>(null)
@@ -195,21 +167,19 @@ export function useBulkEditForm({
     if (!actionConfig) return selectedOrders
 
     return selectedOrders.filter((order) => {
-      const isActive = order.status === ORDER_STATUS.ACTIVE || order.status === 'Активен'
-      // 'На паузе' is DEPRECATED, use 'Приостановлен'
-      const isPaused = order.status === ORDER_STATUS.PAUSED || order.status === 'Приостановлен' || order.status === 'На паузе'
-      
+      const isLunch = order.serviceType === 'LUNCH' || !order.serviceType
+
       switch (selectedAction) {
         case 'editCombo':
-          return order.serviceType === 'LUNCH' || !order.serviceType
+          return isLunch
         case 'pause':
-          return isActive && (order.serviceType === 'LUNCH' || !order.serviceType)
         case 'resume':
-          return isPaused && (order.serviceType === 'LUNCH' || !order.serviceType)
+          return isLunch && canTransitionOrder(order.status, selectedAction)
         case 'freeze':
-          return isActive && (order.serviceType === 'LUNCH' || !order.serviceType)
+          // FREEZE DISABLED (2025-01-09): same eligibility as pause
+          return isLunch && canTransitionOrder(order.status, 'pause')
         case 'cancel':
-          return isActive || isPaused
+          return canTransitionOrder(order.status, 'cancel')
         default:
           return false
       }
@@ -236,78 +206,37 @@ export function useBulkEditForm({
     setProgress(0)
     setResults([])
 
-    const newResults: Array<{ orderId: string; success: boolean; error?: string }> = []
-
-    try {
-      switch (selectedAction) {
-        case 'editCombo':
-          if (selectedCombo) {
-            // Меняем комбо только для выбранных заказов, а не всей подписки
-            await bulkAction({
-              orderIds: applicableOrders.map((o) => o.id),
-              action: 'changecombo',
-              comboType: selectedCombo,
-            })
-            toast.success(`Комбо изменено для ${applicableOrders.length} заказов`)
-          }
-          break
-
-        case 'pause':
-        case 'resume':
-          await bulkAction({
-            orderIds: applicableOrders.map((o) => o.id),
-            action: selectedAction,
-          })
-          toast.success(
-            selectedAction === 'pause'
-              ? `${applicableOrders.length} заказов приостановлено`
-              : `${applicableOrders.length} заказов возобновлено`
-          )
-          break
-
-        case 'freeze':
-          // FREEZE DISABLED (2025-01-09)
-          toast.info('Функционал заморозки временно отключён', {
-            description: 'Используйте паузу для приостановки заказов',
-          })
-          break
-
-        case 'cancel':
-          await bulkAction({
-            orderIds: applicableOrders.map((o) => o.id),
-            action: 'cancel' as 'pause' | 'resume',
-          })
-          toast.success(`${applicableOrders.length} заказов отменено`)
-          break
-      }
-
-      await fetchOrders()
-      onSuccess?.()
-    } catch (error) {
-      const appError = parseError(error)
-      logger.error(
-        'Bulk action failed',
-        error instanceof Error ? error : new Error(appError.message),
-        { errorCode: appError.code }
-      )
-
-      if (appError.code === ErrorCodes.ORDER_CUTOFF_PASSED) {
-        toast.error('Время отсечки прошло', {
-          description: 'Изменения на сегодня невозможны',
+    // Sent after the undo window; failures are reported by the command
+    const orderIds = applicableOrders.map((o) => o.id)
+    switch (selectedAction) {
+      case 'editCombo':
+        if (selectedCombo) {
+          // Меняем комбо только для выбранных заказов, а не всей подписки
+          scheduleBulkOrderAction({ orderIds, action: 'changecombo', comboType: selectedCombo })
+        }
+        break
+
+      case 'pause':
+      case 'resume':
+      case 'cancel':
+        scheduleBulkOrderAction({ orderIds, action: selectedAction })
+        break
+
+      case 'freeze':
+        // FREEZE DISABLED (2025-01-09)
+        toast.info('Функционал заморозки временно отключён', {
+          description: 'Используйте паузу для приостановки заказов',
         })
-      } else {
-        toast.error(appError.message, { description: appError.action })
-      }
-    } finally {
-      setIsExecuting(false)
-      setProgress(100)
+        break
     }
+
+    setIsExecuting(false)
+    setProgress(100)
+    onSuccess?.()
   }, [
     selectedAction,
     selectedCombo,
     applicableOrders,
-    bulkAction,
-    fetchOrders,
     onSuccess,
   ])
 
@@ -0,0 +1,11 @@
+'use client'
+
+import { useAuthStore } from '@/stores/auth-store'
+
+/**
+ * Action-level permission check, e.g. useCan('employees:edit').
+ * Re-renders when the session user changes.
+ */
+export function useCan(permission: string): boolean {
+  return useAuthStore((state) => state.user !== null && state.can(permission))
+}
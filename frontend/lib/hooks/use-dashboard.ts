@@ -15,6 +15,7 @@ import type { ProjectListItem } from '@/lib/api/projects'
 import type { Employee } from '@/lib/api/employees'
 import type { ActiveFilter } from '@/components/ui/filter-builder'
 import { formatISODate, hasCutoffPassed, parseLocalDate } from '@/lib/utils/date'
+import { useProjectCutoff } from '@/lib/query/hooks'
 import { debounce } from 'lodash-es'
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -79,7 +80,7 @@ export function useDashboard(): UseDashboardReturn {
   const {
     dashboard,
     orders,
-    cutoffTime,
+    cutoffTime: companyCutoffTime,
     isLoading,
     error,
     total,
@@ -95,7 +96,8 @@ export function useDashboard(): UseDashboardReturn {
 
   const { fetchProjects, projects } = useProjectsStore()
   const { employees, fetchEmployees } = useEmployeesStore()
-  const { projectName } = useAuthStore()
+  const { projectId, projectName } = useAuthStore()
+  const { cutoffTime, timezone } = useProjectCutoff(projectId, companyCutoffTime)
 
   // Constants
   const todayIso = formatISODate(new Date())
@@ -122,7 +124,7 @@ export function useDashboard(): UseDashboardReturn {
   // Computed flags
   const isTodaySelected = Boolean(selectedDate && selectedDate === todayIso)
   const hasDateFilter = Boolean(selectedDate)
-  const isCutoffLocked = isTodaySelected && hasCutoffPassed(cutoffTime)
+  const isCutoffLocked = isTodaySelected && hasCutoffPassed(cutoffTime, timezone)
   const budgetDepleted = !dashboard || dashboard.totalBudget <= 0
 
   // Disabled reasons
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Delivery Manifest Hook
+ * Loads the orders, compensation summary and project of one day, builds the
+ * manifest and locks it at the project cutoff. A locked manifest shows the
+ * snapshot the server took at the cutoff; later changes come as a diff.
+ * Past days without a snapshot show none rather than today's live orders.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  useCompensationDailySummary,
+  useManifestOrders,
+  useManifestSnapshot,
+  useProject,
+  useProjectCutoff,
+} from '@/lib/query/hooks'
+import {
+  buildDeliveryManifest,
+  diffManifestEntries,
+  isManifestLocked,
+  toManifestEntries,
+  type DeliveryManifest,
+  type ManifestChange,
+} from '@/lib/manifest'
+import type { ManifestSnapshot } from '@/lib/api/home'
+import { parseError } from '@/lib/errors'
+import { formatISODate, getServerNow } from '@/lib/utils/date'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface UseDeliveryManifestReturn {
+  /** Locked snapshot after the cutoff, live orders before it */
+  manifest: DeliveryManifest | null
+  isLoading: boolean
+  isFetching: boolean
+  error: string | null
+
+  cutoffTime: string | null
+  timezone: string | null
+  isLocked: boolean
+  /** Null until the server has locked the manifest */
+  snapshot: ManifestSnapshot | null
+  /** Past day that the server never locked: there is no manifest to show */
+  isSnapshotMissing: boolean
+  /** Live changes against the locked manifest */
+  changes: ManifestChange[]
+
+  refetch: () => void
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Hook
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** How often the lock is re-checked while the page is open */
+const LOCK_CHECK_INTERVAL = 30 * 1000
+
+export function useDeliveryManifest(projectId: string, date: string): UseDeliveryManifestReturn {
+  const projectQuery = useProject(projectId)
+  const project = projectQuery.data
+  const { cutoffTime, timezone } = useProjectCutoff(projectId, project?.cutoffTime ?? null)
+
+  const ordersQuery = useManifestOrders(projectId, date)
+  const hasCompensation = project?.serviceTypes.includes('COMPENSATION') ?? false
+  const compensationQuery = useCompensationDailySummary(projectId, date, { enabled: hasCompensation })
+
+  // Clock advanced on a timer so an open page locks itself at the cutoff
+  const [now, setNow] = useState(() => new Date())
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), LOCK_CHECK_INTERVAL)
+    return () => clearInterval(timer)
+  }, [])
+  const isLocked = useMemo(
+    () => isManifestLocked(date, cutoffTime, timezone, now),
+    [date, cutoffTime, timezone, now]
+  )
+
+  const liveEntries = useMemo(
+    () => (ordersQuery.data ? toManifestEntries(ordersQuery.data) : null),
+    [ordersQuery.data]
+  )
+
+  // The lock itself is taken by the server (ManifestLockJob), the same for every admin
+  const snapshotQuery = useManifestSnapshot(projectId, date, { enabled: isLocked })
+  const snapshot = isLocked ? snapshotQuery.data ?? null : null
+  // Today may still be waiting for the lock job; a past day will not get a snapshot any more
+  const isPastDate = date < formatISODate(getServerNow(timezone, now))
+  const isSnapshotMissing = isLocked && isPastDate && snapshotQuery.isSuccess && !snapshot
+
+  const manifest = useMemo(() => {
+    if (isSnapshotMissing) return null
+    const entries = snapshot?.entries ?? liveEntries
+    if (!project || !entries) return null
+    return buildDeliveryManifest({
+      project,
+      date,
+      entries,
+      compensation: compensationQuery.data?.byEmployee,
+    })
+  }, [project, date, snapshot, isSnapshotMissing, liveEntries, compensationQuery.data])
+
+  const changes = useMemo(
+    () => (snapshot && liveEntries ? diffManifestEntries(snapshot.entries, liveEntries) : []),
+    [snapshot, liveEntries]
+  )
+
+  const error = projectQuery.error ?? ordersQuery.error ?? snapshotQuery.error ?? compensationQuery.error
+
+  return {
+    manifest,
+    isLoading: projectQuery.isLoading || ordersQuery.isLoading || snapshotQuery.isLoading,
+    isFetching: ordersQuery.isFetching || snapshotQuery.isFetching || compensationQuery.isFetching,
+    error: error ? parseError(error).message : null,
+    cutoffTime,
+    timezone,
+    isLocked,
+    snapshot,
+    isSnapshotMissing,
+    changes,
+    refetch: () => {
+      void ordersQuery.refetch()
+      if (isLocked) void snapshotQuery.refetch()
+      if (hasCompensation) void compensationQuery.refetch()
+    },
+  }
+}
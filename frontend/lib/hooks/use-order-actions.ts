@@ -9,12 +9,10 @@
 
 import { useCallback, useState } from 'react'
 import { toast } from 'sonner'
-import { useHomeStore } from '@/stores/home-store'
 import type { Order } from '@/lib/api/home'
 // FREEZE DISABLED: imports kept for type compatibility only
 // import { getEmployeeFreezeInfo, freezeOrder, unfreezeOrder } from '@/lib/api/orders'
-import { parseError, ErrorCodes } from '@/lib/errors'
-import { logger } from '@/lib/logger'
+import { scheduleBulkOrderAction } from '@/lib/commands'
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Types
@@ -34,10 +32,6 @@ export interface UseOrderActionsReturn {
   compensationDialogOrder: Order | null
   subscriptionDialogOrder: Order | null
 
-  // Loading states
-  singleActionLoading: boolean
-  actionLoading: boolean
-
   // Actions
   startSingleAction: (orderId: string, employeeName: string, action: 'pause' | 'resume') => void
   confirmSingleAction: () => Promise<void>
@@ -65,8 +59,6 @@ export interface UseOrderActionsReturn {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 export function useOrderActions(onRefresh: () => void): UseOrderActionsReturn {
-  const { bulkAction, fetchOrders } = useHomeStore()
-
   // Dialog states
   const [singleActionDialog, setSingleActionDialog] = useState<SingleActionDialog | null>(null)
   const [cancelDialogOrder, setCancelDialogOrder] = useState<Order | null>(null)
@@ -74,10 +66,6 @@ export function useOrderActions(onRefresh: () => void): UseOrderActionsReturn {
   const [compensationDialogOrder, setCompensationDialogOrder] = useState<Order | null>(null)
   const [subscriptionDialogOrder, setSubscriptionDialogOrder] = useState<Order | null>(null)
 
-  // Loading states
-  const [singleActionLoading, setSingleActionLoading] = useState(false)
-  const [actionLoading, setActionLoading] = useState(false)
-
   // ─────────────────────────────────────────────────────────────────────────────
   // Single Action (Pause/Resume)
   // ─────────────────────────────────────────────────────────────────────────────
@@ -91,31 +79,11 @@ export function useOrderActions(onRefresh: () => void): UseOrderActionsReturn {
 
   const confirmSingleAction = useCallback(async () => {
     if (!singleActionDialog) return
-    setSingleActionLoading(true)
-    try {
-      await bulkAction({
-        orderIds: [singleActionDialog.orderId],
-        action: singleActionDialog.action,
-      })
-      toast.success(
-        singleActionDialog.action === 'pause'
-          ? `Заказ для ${singleActionDialog.employeeName} поставлен на паузу`
-          : `Заказ для ${singleActionDialog.employeeName} возобновлен`
-      )
-      setSingleActionDialog(null)
-      onRefresh()
-    } catch (error) {
-      const appError = parseError(error)
-      logger.error(
-        'Single action failed',
-        error instanceof Error ? error : new Error(appError.message),
-        { errorCode: appError.code }
-      )
-      toast.error(appError.message, { description: appError.action })
-    } finally {
-      setSingleActionLoading(false)
-    }
-  }, [singleActionDialog, bulkAction, onRefresh])
+    // Sent after the undo window; failures are reported by the command
+    scheduleBulkOrderAction({ orderIds: [singleActionDialog.orderId], action: singleActionDialog.action })
+    setSingleActionDialog(null)
+    onRefresh()
+  }, [singleActionDialog, onRefresh])
 
   const closeSingleActionDialog = useCallback(() => {
     setSingleActionDialog(null)
@@ -159,34 +127,10 @@ export function useOrderActions(onRefresh: () => void): UseOrderActionsReturn {
 
   const confirmCancelOrder = useCallback(async () => {
     if (!cancelDialogOrder) return
-    setActionLoading(true)
-    try {
-      await bulkAction({
-        orderIds: [cancelDialogOrder.id],
-        action: 'cancel' as 'pause' | 'resume', // API accepts cancel too
-      })
-      toast.success(`Заказ для ${cancelDialogOrder.employeeName} отменён`)
-      setCancelDialogOrder(null)
-      onRefresh()
-    } catch (error) {
-      const appError = parseError(error)
-      logger.error(
-        'Failed to cancel order',
-        error instanceof Error ? error : new Error(appError.message),
-        { errorCode: appError.code }
-      )
-
-      if (appError.code === ErrorCodes.ORDER_CUTOFF_PASSED) {
-        toast.error('Время для отмены истекло', {
-          description: 'Отмена заказов на сегодня невозможна после времени отсечки',
-        })
-      } else {
-        toast.error(appError.message, { description: appError.action })
-      }
-    } finally {
-      setActionLoading(false)
-    }
-  }, [cancelDialogOrder, bulkAction, onRefresh])
+    scheduleBulkOrderAction({ orderIds: [cancelDialogOrder.id], action: 'cancel' })
+    setCancelDialogOrder(null)
+    onRefresh()
+  }, [cancelDialogOrder, onRefresh])
 
   const closeCancelDialog = useCallback(() => {
     setCancelDialogOrder(null)
@@ -224,10 +168,6 @@ export function useOrderActions(onRefresh: () => void): UseOrderActionsReturn {
     compensationDialogOrder,
     subscriptionDialogOrder,
 
-    // Loading states
-    singleActionLoading,
-    actionLoading,
-
     // Actions
     startSingleAction,
     confirmSingleAction,
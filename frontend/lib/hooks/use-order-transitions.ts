@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Order Transitions Hook
+ * Binds page context (today, cutoff lock) to the machine-driven action guards,
+ * so table cells can ask which pause/resume/cancel buttons a row may offer.
+ */
+
+import { useCallback } from 'react'
+import {
+  getOrderActions as deriveOrderActions,
+  getSubscriptionActions as deriveSubscriptionActions,
+  type OrderActions,
+  type SubscriptionActions,
+  type SubscriptionActionContext,
+} from '@/lib/machines'
+import { formatISODate, getServerNow, hasCutoffPassed } from '@/lib/utils/date'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface UseOrderTransitionsOptions {
+  /** Page-level lock (e.g. cutoff passed for today); null when actions are open */
+  lockedReason?: string | null
+  /** Project timezone that defines "today"; server default when omitted */
+  timezone?: string | null
+  /** Project cutoff (HH:mm); once passed, today's orders are locked per row */
+  cutoffTime?: string | null
+}
+
+export interface UseOrderTransitionsReturn {
+  getOrderActions: (order: { status?: string | null; date?: string | null }) => OrderActions
+  getSubscriptionActions: (
+    status: string | null | undefined,
+    machineContext?: SubscriptionActionContext['machineContext']
+  ) => SubscriptionActions
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Hook Implementation
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function useOrderTransitions({
+  lockedReason = null,
+  timezone = null,
+  cutoffTime = null,
+}: UseOrderTransitionsOptions = {}): UseOrderTransitionsReturn {
+  const getOrderActions = useCallback(
+    (order: { status?: string | null; date?: string | null }) => {
+      // ISO dates compare lexicographically; today is taken in the project timezone
+      const todayIso = formatISODate(getServerNow(timezone))
+      const orderDate = order.date?.slice(0, 10)
+      const isPast = !!orderDate && orderDate < todayIso
+      const cutoffReason = orderDate === todayIso && hasCutoffPassed(cutoffTime, timezone)
+        ? `Изменения на сегодня закрыты в ${cutoffTime}`
+        : null
+      return deriveOrderActions(order.status, { isPast, lockedReason: lockedReason ?? cutoffReason })
+    },
+    [lockedReason, timezone, cutoffTime]
+  )
+
+  const getSubscriptionActions = useCallback(
+    (status: string | null | undefined, machineContext?: SubscriptionActionContext['machineContext']) =>
+      deriveSubscriptionActions(status, { lockedReason, machineContext }),
+    [lockedReason]
+  )
+
+  return { getOrderActions, getSubscriptionActions }
+}
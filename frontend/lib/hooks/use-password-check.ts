@@ -0,0 +1,43 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { authApi, type PasswordCheck } from '@/lib/api/auth'
+import { logger } from '@/lib/logger'
+import { useDebounce } from './use-async'
+
+const CHECK_DELAY_MS = 400
+
+/**
+ * Server-side password check for the strength meter: rules, strength and breaches.
+ * Debounced while typing; a newer password cancels the request for the previous one.
+ * Kept out of the query cache so passwords are not stored anywhere.
+ */
+export function usePasswordCheck(password: string) {
+  const debouncedPassword = useDebounce(password, CHECK_DELAY_MS)
+  const [result, setResult] = useState<{ password: string; check: PasswordCheck | null } | null>(null)
+
+  useEffect(() => {
+    if (!debouncedPassword) return
+
+    const controller = new AbortController()
+
+    authApi
+      .validatePassword(debouncedPassword, controller.signal)
+      .then((check) => setResult({ password: debouncedPassword, check }))
+      .catch((error: unknown) => {
+        if (!controller.signal.aborted) {
+          // The meter is a hint; the password is validated again on submit
+          logger.warn('Password check failed', { error })
+          setResult({ password: debouncedPassword, check: null })
+        }
+      })
+
+    return () => controller.abort()
+  }, [debouncedPassword])
+
+  return {
+    // The last result stays visible while the next one is on its way
+    check: password ? (result?.check ?? null) : null,
+    isChecking: !!password && result?.password !== password,
+  }
+}
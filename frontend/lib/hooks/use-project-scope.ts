@@ -0,0 +1,52 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useAuthStore } from '@/stores/auth-store'
+import { useUrlState } from './use-url-state'
+
+export const ALL_PROJECTS = 'all'
+
+// Stable defaults: useUrlState memoizes on this object
+const SCOPE_DEFAULTS = { project: ALL_PROJECTS }
+
+export interface UseProjectScopeReturn {
+  /** Project to filter by; undefined means all projects */
+  projectId: string | undefined
+  /** Raw select value: a project id or ALL_PROJECTS */
+  value: string
+  setProject: (value: string) => void
+  /** Headquarters and company-level users may switch projects */
+  canSwitch: boolean
+  /** Branch admins are locked to their own project */
+  isLocked: boolean
+}
+
+/**
+ * Project scope shared by list pages, persisted in the URL (?project=).
+ * Branch admins always get their own project regardless of the URL;
+ * the backend enforces the same rule.
+ */
+export function useProjectScope(): UseProjectScopeReturn {
+  const userProjectId = useAuthStore((state) => state.projectId)
+  const isHeadquarters = useAuthStore((state) => state.isHeadquarters)
+  const [state, setState] = useUrlState(SCOPE_DEFAULTS)
+
+  const isLocked = Boolean(userProjectId) && !isHeadquarters
+  const value = isLocked && userProjectId ? userProjectId : state.project
+
+  const setProject = useCallback(
+    (next: string) => {
+      if (isLocked) return
+      setState({ project: next })
+    },
+    [isLocked, setState]
+  )
+
+  return {
+    projectId: value === ALL_PROJECTS ? undefined : value,
+    value,
+    setProject,
+    canSwitch: !isLocked,
+    isLocked,
+  }
+}
@@ -29,3 +29,16 @@ export {
   type OrderContext,
 } from './order-machine'
 
+
+// Transition guards for UI actions
+export {
+  getOrderActions,
+  getSubscriptionActions,
+  canTransitionOrder,
+  type TransitionAction,
+  type ActionAvailability,
+  type OrderActions,
+  type SubscriptionActions,
+  type OrderActionContext,
+  type SubscriptionActionContext,
+} from './transitions'
@@ -20,9 +20,11 @@ export type OrderState =
   | 'confirmed'   // Order confirmed, awaiting preparation
   | 'preparing'   // Being prepared
   | 'ready'       // Ready for delivery/pickup
+  | 'paused'      // Delivery paused, can be resumed
   | 'delivered'   // Successfully delivered
   | 'frozen'      // DISABLED: kept for type compatibility only
   | 'cancelled'   // Order cancelled
+  | 'unknown'     // Unrecognized API status, no actions allowed
 
 /** Events that can trigger state transitions */
 export type OrderEvent =
@@ -30,6 +32,8 @@ export type OrderEvent =
   | { type: 'START_PREPARING' }
   | { type: 'MARK_READY' }
   | { type: 'DELIVER' }
+  | { type: 'PAUSE'; reason?: string }
+  | { type: 'RESUME' }
   // FREEZE DISABLED: events kept for type compatibility
   | { type: 'FREEZE'; reason?: string }
   | { type: 'UNFREEZE' }
@@ -37,7 +41,7 @@ export type OrderEvent =
 
 /** Context data stored in the machine */
 export interface OrderContext {
-  /** Reason for cancel */
+  /** Reason for pause/cancel */
   reason?: string
   /** Was this order rescheduled */
   rescheduled: boolean
@@ -47,6 +51,7 @@ export interface OrderContext {
   confirmedAt?: Date
   preparedAt?: Date
   deliveredAt?: Date
+  pausedAt?: Date
   cancelledAt?: Date
   // frozenAt?: Date // FREEZE DISABLED (2025-01-09)
 }
@@ -69,9 +74,15 @@ const transitions: TransitionMap = {
   },
   confirmed: {
     START_PREPARING: 'preparing',
+    PAUSE: 'paused',
     // FREEZE: 'frozen', // FREEZE DISABLED (2025-01-09)
     CANCEL: 'cancelled',
   },
+  // Mirrors backend OrderStateMachine: Paused -> Active, Cancelled
+  paused: {
+    RESUME: 'confirmed',
+    CANCEL: 'cancelled',
+  },
   preparing: {
     MARK_READY: 'ready',
     CANCEL: 'cancelled',
@@ -86,6 +97,7 @@ const transitions: TransitionMap = {
   //   CANCEL: 'cancelled',
   // },
   // delivered and cancelled are final states
+  // unknown has no transitions: an unrecognized status must not be editable
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -162,6 +174,14 @@ export class OrderMachine {
       case 'DELIVER':
         this._context.deliveredAt = new Date()
         break
+      case 'PAUSE':
+        this._context.pausedAt = new Date()
+        this._context.reason = (event as { type: 'PAUSE'; reason?: string }).reason
+        break
+      case 'RESUME':
+        this._context.pausedAt = undefined
+        this._context.reason = undefined
+        break
       // FREEZE DISABLED (2025-01-09): freeze events ignored
       // case 'FREEZE':
       //   this._context.frozenAt = new Date()
@@ -209,13 +229,29 @@ export function createOrderMachine(
 
 /**
  * Map API status to machine state.
+ * Backend sends Russian statuses (see ORDER_STATUS), English codes are kept for compatibility.
  */
 export function mapApiOrderStatusToState(apiStatus: string): OrderState {
-  const statusMap: Record<string, OrderState> = {
+  // Russian status map (from backend)
+  const russianStatusMap: Record<string, OrderState> = {
+    'Активен': 'confirmed',
+    'Приостановлен': 'paused',
+    'На паузе': 'paused',      // DEPRECATED: Legacy alias
+    'Выполнен': 'delivered',
+    'Завершен': 'delivered',   // Legacy
+    'Доставлен': 'delivered',  // Legacy
+    'Отменён': 'cancelled',
+    'Заморожен': 'cancelled',  // Legacy frozen orders treated as cancelled
+    'Выходной': 'cancelled',   // Legacy day off treated as cancelled
+  }
+
+  // English status map (for compatibility)
+  const englishStatusMap: Record<string, OrderState> = {
     PENDING: 'pending',
     CONFIRMED: 'confirmed',
     PREPARING: 'preparing',
     READY: 'ready',
+    PAUSED: 'paused',
     DELIVERED: 'delivered',
     // FROZEN: 'frozen', // FREEZE DISABLED (2025-01-09)
     CANCELLED: 'cancelled',
@@ -224,7 +260,8 @@ export function mapApiOrderStatusToState(apiStatus: string): OrderState {
     COMPLETED: 'delivered',
     FROZEN: 'cancelled',  // Legacy frozen orders treated as cancelled
   }
-  return statusMap[apiStatus.toUpperCase()] || 'pending'
+  // Check Russian first, then English
+  return russianStatusMap[apiStatus] || englishStatusMap[apiStatus.toUpperCase()] || 'unknown'
 }
 
 /**
@@ -236,9 +273,11 @@ export function getOrderStateLabel(state: OrderState): string {
     confirmed: 'Подтверждён',
     preparing: 'Готовится',
     ready: 'Готов',
+    paused: 'Приостановлен',
     delivered: 'Доставлен',
     frozen: 'Отменён',  // FREEZE DISABLED: treat as cancelled
     cancelled: 'Отменён',
+    unknown: 'Неизвестно',
   }
   return labels[state]
 }
@@ -252,9 +291,11 @@ export function getOrderStateColor(state: OrderState): 'default' | 'secondary' |
     confirmed: 'default',
     preparing: 'default',
     ready: 'default',
+    paused: 'secondary',
     delivered: 'default',
     frozen: 'destructive',  // FREEZE DISABLED: treat as cancelled
     cancelled: 'destructive',
+    unknown: 'outline',
   }
   return colors[state]
 }
@@ -263,7 +304,7 @@ export function getOrderStateColor(state: OrderState): 'default' | 'secondary' |
  * Check if order can be modified (not in final state).
  */
 export function canModifyOrder(state: OrderState): boolean {
-  return state !== 'delivered' && state !== 'cancelled' && state !== 'frozen'
+  return state !== 'delivered' && state !== 'cancelled' && state !== 'frozen' && state !== 'unknown'
 }
 
 /**
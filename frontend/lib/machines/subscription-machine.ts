@@ -22,6 +22,7 @@ export type SubscriptionState =
   | 'expired'    // End date passed
   | 'cancelled'  // Manually cancelled
   | 'completed'  // Successfully completed
+  | 'unknown'    // Unrecognized API status, no actions allowed
 
 /** Events that can trigger state transitions */
 export type SubscriptionEvent =
@@ -168,6 +169,9 @@ const subscriptionMachineConfig: MachineConfig = {
     completed: {
       final: true,
     },
+
+    // No transitions: an unrecognized status must not be editable
+    unknown: {},
   },
 }
 
@@ -327,7 +331,7 @@ export function mapApiStatusToState(apiStatus: string): SubscriptionState {
   }
 
   // Check Russian first, then English
-  return russianStatusMap[apiStatus] || englishStatusMap[apiStatus.toUpperCase()] || 'pending'
+  return russianStatusMap[apiStatus] || englishStatusMap[apiStatus.toUpperCase()] || 'unknown'
 }
 
 /**
@@ -341,6 +345,7 @@ export function getStateLabel(state: SubscriptionState): string {
     expired: 'Истекла',
     cancelled: 'Отменена',
     completed: 'Завершена',
+    unknown: 'Неизвестно',
   }
   return labels[state]
 }
@@ -356,6 +361,7 @@ export function getStateColor(state: SubscriptionState): string {
     expired: 'gray',
     cancelled: 'red',
     completed: 'green',
+    unknown: 'gray',
   }
   return colors[state]
 }
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Transition guards for UI actions
+ * Maps backend statuses to machine states and derives which pause/resume/cancel
+ * actions a row may offer, together with the reason an action is unavailable.
+ */
+
+import {
+  createOrderMachine,
+  mapApiOrderStatusToState,
+  type OrderEvent,
+  type OrderState,
+} from './order-machine'
+import {
+  createSubscriptionMachine,
+  mapApiStatusToState,
+  type SubscriptionContext,
+  type SubscriptionEvent,
+  type SubscriptionState,
+} from './subscription-machine'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** User-facing actions gated by the machines */
+export type TransitionAction = 'pause' | 'resume' | 'cancel'
+
+/** Availability of a single action */
+export interface ActionAvailability {
+  /** The machine has a transition for this action from the current state */
+  legal: boolean
+  /** Legal and not blocked by the context (past date, cutoff, ...) */
+  allowed: boolean
+  /** Why the action is not allowed, null when allowed */
+  reason: string | null
+}
+
+export interface OrderActions extends Record<TransitionAction, ActionAvailability> {
+  state: OrderState
+  isFinal: boolean
+}
+
+export interface SubscriptionActions extends Record<TransitionAction, ActionAvailability> {
+  state: SubscriptionState
+  isFinal: boolean
+}
+
+export interface OrderActionContext {
+  /** Order date is in the past — history is read-only */
+  isPast?: boolean
+  /** Context-level lock (e.g. cutoff passed); blocks every legal action */
+  lockedReason?: string | null
+}
+
+export interface SubscriptionActionContext {
+  /** Context-level lock; blocks every legal action */
+  lockedReason?: string | null
+  /** Machine context, e.g. pauseCount for the pause limit guard */
+  machineContext?: Partial<SubscriptionContext>
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Event mapping
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const ORDER_EVENTS: Record<TransitionAction, OrderEvent['type']> = {
+  pause: 'PAUSE',
+  resume: 'RESUME',
+  cancel: 'CANCEL',
+}
+
+const SUBSCRIPTION_EVENTS: Record<TransitionAction, SubscriptionEvent['type']> = {
+  pause: 'PAUSE',
+  resume: 'RESUME',
+  cancel: 'CANCEL',
+}
+
+const ACTIONS: TransitionAction[] = ['pause', 'resume', 'cancel']
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Disabled reasons
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function getOrderBlockedReason(state: OrderState, action: TransitionAction): string {
+  if (state === 'cancelled' || state === 'frozen') return 'Заказ отменён'
+  if (state === 'delivered') return 'Заказ выполнен'
+  if (state === 'unknown') return 'Неизвестный статус заказа'
+  if (action === 'pause' && state === 'paused') return 'Заказ уже приостановлен'
+  if (action === 'resume') return 'Заказ не приостановлен'
+  return 'Недоступно для текущего статуса'
+}
+
+function getSubscriptionBlockedReason(state: SubscriptionState, action: TransitionAction): string {
+  if (state === 'completed') return 'Подписка завершена'
+  if (state === 'cancelled') return 'Подписка отменена'
+  if (state === 'expired') return 'Подписка истекла'
+  if (state === 'pending') return 'Подписка ещё не активна'
+  if (state === 'unknown') return 'Неизвестный статус подписки'
+  if (action === 'pause' && state === 'paused') return 'Подписка уже приостановлена'
+  // Active subscription refuses PAUSE only through the pause limit guard
+  if (action === 'pause' && state === 'active') return 'Достигнут лимит приостановок'
+  if (action === 'resume') return 'Подписка не приостановлена'
+  return 'Недоступно для текущего статуса'
+}
+
+function resolve(legal: boolean, blockedReason: () => string, contextReason: string | null): ActionAvailability {
+  if (!legal) {
+    return { legal, allowed: false, reason: blockedReason() }
+  }
+  return { legal, allowed: contextReason === null, reason: contextReason }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Public API
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Derive pause/resume/cancel availability for an order from the order machine.
+ */
+export function getOrderActions(status: string | null | undefined, context: OrderActionContext = {}): OrderActions {
+  const machine = createOrderMachine(mapApiOrderStatusToState(status || ''))
+  const contextReason = context.isPast
+    ? 'Прошлые заказы нельзя редактировать'
+    : context.lockedReason || null
+
+  const result = { state: machine.state, isFinal: machine.isFinal } as OrderActions
+  for (const action of ACTIONS) {
+    result[action] = resolve(
+      machine.can(ORDER_EVENTS[action]),
+      () => getOrderBlockedReason(machine.state, action),
+      contextReason
+    )
+  }
+  return result
+}
+
+/**
+ * Whether the machine allows the action for an order status (ignores context).
+ * Used to filter bulk selections.
+ */
+export function canTransitionOrder(status: string | null | undefined, action: TransitionAction): boolean {
+  return createOrderMachine(mapApiOrderStatusToState(status || '')).can(ORDER_EVENTS[action])
+}
+
+/**
+ * Derive pause/resume/cancel availability for a subscription from the subscription machine.
+ */
+export function getSubscriptionActions(
+  status: string | null | undefined,
+  context: SubscriptionActionContext = {}
+): SubscriptionActions {
+  const machine = createSubscriptionMachine(mapApiStatusToState(status || ''), context.machineContext)
+  const contextReason = context.lockedReason || null
+
+  const result = { state: machine.state, isFinal: machine.isFinal } as SubscriptionActions
+  for (const action of ACTIONS) {
+    result[action] = resolve(
+      machine.can(SUBSCRIPTION_EVENTS[action]),
+      () => getSubscriptionBlockedReason(machine.state, action),
+      contextReason
+    )
+  }
+  return result
+}
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Delivery Manifest
+ * Who gets what on one day in one project: combo counts, employees with phone,
+ * guest orders and compensation usage. Also the cutoff lock of a manifest and
+ * the diff between the locked list and the live orders.
+ */
+
+import type { Order } from '@/lib/api/home'
+import type { EmployeeDailySummary } from '@/lib/api/compensation'
+import { COMBO_TYPES } from '@/lib/combos'
+import { isOrderActive, isOrderCompleted } from '@/lib/constants/entity-statuses'
+import { formatISODate, getServerNow, hasCutoffPassed } from '@/lib/utils/date'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** One delivered meal */
+export interface ManifestEntry {
+  orderId: string
+  /** Employee name, or the order name for guests */
+  name: string
+  phone: string | null
+  comboType: string | null
+  isGuest: boolean
+}
+
+export interface ManifestComboCount {
+  comboType: string
+  employees: number
+  guests: number
+  total: number
+}
+
+export interface DeliveryManifest {
+  projectId: string
+  projectName: string
+  /** Project.addressFullAddress; null when the project has no address */
+  address: string | null
+  /** yyyy-MM-dd */
+  date: string
+  comboCounts: ManifestComboCount[]
+  totalMeals: number
+  employees: ManifestEntry[]
+  guests: ManifestEntry[]
+  /** Employees on compensation who spent it that day */
+  compensation: EmployeeDailySummary[]
+}
+
+export interface DeliveryManifestInput {
+  project: { id: string; name: string; addressFullAddress?: string | null }
+  date: string
+  entries: ManifestEntry[]
+  compensation?: EmployeeDailySummary[] | null
+}
+
+export type ManifestChangeKind = 'added' | 'removed' | 'changed'
+
+export interface ManifestChange {
+  kind: ManifestChangeKind
+  /** Current entry; the locked one for removed orders */
+  entry: ManifestEntry
+  /** Combo in the locked manifest, for changed entries */
+  previousComboType?: string | null
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Build
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const GUEST_TYPE = 'Гость'
+
+const byName = (a: ManifestEntry, b: ManifestEntry) => a.name.localeCompare(b.name, 'ru')
+
+/**
+ * Orders that end up on the delivery list: lunch orders that are active
+ * or already delivered. Paused, cancelled and compensation rows are skipped.
+ */
+export function toManifestEntries(orders: Order[]): ManifestEntry[] {
+  return orders
+    .filter((order) => order.serviceType !== 'COMPENSATION')
+    .filter((order) => isOrderActive(order.status) || isOrderCompleted(order.status))
+    .map((order) => ({
+      orderId: order.id,
+      name: order.employeeName,
+      phone: order.employeePhone,
+      comboType: order.comboType ?? null,
+      isGuest: order.type === GUEST_TYPE,
+    }))
+}
+
+function countCombos(entries: ManifestEntry[]): ManifestComboCount[] {
+  const counts = new Map<string, ManifestComboCount>(
+    COMBO_TYPES.map((comboType) => [comboType, { comboType, employees: 0, guests: 0, total: 0 }])
+  )
+
+  for (const entry of entries) {
+    const comboType = entry.comboType ?? 'Без комбо'
+    const count = counts.get(comboType) ?? { comboType, employees: 0, guests: 0, total: 0 }
+    if (entry.isGuest) count.guests++
+    else count.employees++
+    count.total++
+    counts.set(comboType, count)
+  }
+
+  return [...counts.values()]
+}
+
+export function buildDeliveryManifest({ project, date, entries, compensation }: DeliveryManifestInput): DeliveryManifest {
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    address: project.addressFullAddress?.trim() || null,
+    date,
+    comboCounts: countCombos(entries),
+    totalMeals: entries.length,
+    employees: entries.filter((entry) => !entry.isGuest).sort(byName),
+    guests: entries.filter((entry) => entry.isGuest).sort(byName),
+    compensation: [...(compensation ?? [])].sort((a, b) => a.employeeName.localeCompare(b.employeeName, 'ru')),
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Cutoff lock
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A manifest is locked once its day's cutoff has passed in the project
+ * timezone: past days always, today after the cutoff time.
+ * `now` is passed in so a page can re-evaluate the lock on a timer.
+ */
+export function isManifestLocked(
+  date: string,
+  cutoffTime: string | null,
+  timezone: string | null | undefined,
+  now: Date
+): boolean {
+  const today = formatISODate(getServerNow(timezone, now))
+  if (date < today) return true
+  return date === today && hasCutoffPassed(cutoffTime, timezone, now)
+}
+
+/**
+ * Changes of the live orders against the manifest locked on the server
+ * (ordered: added, changed, removed).
+ */
+export function diffManifestEntries(locked: ManifestEntry[], current: ManifestEntry[]): ManifestChange[] {
+  const lockedById = new Map(locked.map((entry) => [entry.orderId, entry]))
+  const currentIds = new Set(current.map((entry) => entry.orderId))
+
+  const added: ManifestChange[] = []
+  const changed: ManifestChange[] = []
+  for (const entry of current) {
+    const before = lockedById.get(entry.orderId)
+    if (!before) {
+      added.push({ kind: 'added', entry })
+    } else if (before.comboType !== entry.comboType) {
+      changed.push({ kind: 'changed', entry, previousComboType: before.comboType })
+    }
+  }
+
+  const removed: ManifestChange[] = locked
+    .filter((entry) => !currentIds.has(entry.orderId))
+    .map((entry) => ({ kind: 'removed', entry }))
+
+  const ordered = (changes: ManifestChange[]) => changes.sort((a, b) => byName(a.entry, b.entry))
+  return [...ordered(added), ...ordered(changed), ...ordered(removed)]
+}
@@ -0,0 +1,16 @@
+/**
+ * @fileoverview Delivery manifest barrel export
+ */
+
+export {
+  toManifestEntries,
+  buildDeliveryManifest,
+  isManifestLocked,
+  diffManifestEntries,
+  type ManifestEntry,
+  type ManifestComboCount,
+  type DeliveryManifest,
+  type DeliveryManifestInput,
+  type ManifestChange,
+  type ManifestChangeKind,
+} from './delivery-manifest'
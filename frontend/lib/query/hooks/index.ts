@@ -27,9 +27,84 @@ export {
   useDashboardStats,
   useCutoffTime,
   useOrders,
+  useWeekPlan,
+  useManifestOrders,
+  useManifestSnapshot,
   useBulkOrderAction,
   useCreateGuestOrder,
   useHomeData,
   type OrdersQueryParams,
 } from './use-dashboard'
 
+// Invoice hooks
+export {
+  useInvoices,
+  useInvoice,
+  useCreateInvoice,
+  usePayInvoice,
+} from './use-invoices'
+
+// Analytics hooks
+export { useAnalytics } from './use-analytics'
+
+// News hooks
+export {
+  useNews,
+  useNewsItem,
+  useUnreadNewsCount,
+  useMarkNewsRead,
+} from './use-news'
+
+// Document hooks
+export {
+  useDocuments,
+  useDocumentFile,
+  useMarkDocumentViewed,
+  useDownloadDocument,
+} from './use-documents'
+
+// Partner hooks
+export { usePartners, usePartner } from './use-partners'
+
+// Export hooks
+export { useExportOrders, useExportEmployees, useExportCompensationLedger } from './use-export'
+
+// Compensation hooks
+export { useCompensationLedger, useCompensationDailySummary } from './use-compensation'
+
+// Service assignment hooks
+export {
+  useServiceAvailability,
+  useBulkCancelPreview,
+  useBulkCancelServices,
+} from './use-services'
+
+// Project hooks
+export {
+  useProjectSettings,
+  useProject,
+  useProjectCutoff,
+  useUpdateProjectSettings,
+} from './use-projects'
+
+// Audit trail hooks
+export { useAuditLogs, useAuditFilterOptions, useImpersonationHistory } from './use-audit'
+
+// Session hooks
+export { useSessions, useRevokeSession, useRevokeOtherSessions } from './use-sessions'
+
+// Two-factor authentication hooks
+export {
+  useTwoFactorStatus,
+  useSetupTwoFactor,
+  useEnableTwoFactor,
+  useDisableTwoFactor,
+  useRegenerateBackupCodes,
+  useResetTwoFactor,
+} from './use-two-factor'
+
+// Company hooks
+export { useCompanies } from './use-companies'
+
+// Invitation hooks
+export { useInvitation } from './use-invitation'
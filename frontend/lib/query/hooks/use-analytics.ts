@@ -0,0 +1,22 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { analyticsApi, type AnalyticsQueryParams } from '@/lib/api/analytics'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch aggregated analytics.
+ * Cached per period and project, so switching back to a viewed period is instant.
+ */
+export function useAnalytics({ from, to, projectId }: AnalyticsQueryParams) {
+  return useQuery({
+    queryKey: queryKeys.analytics.period({ from, to, projectId }),
+    queryFn: () => analyticsApi.get({ from, to, projectId }),
+    staleTime: staleTimes.reference,
+    placeholderData: (previousData) => previousData, // Keep charts while the next period loads
+  })
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { auditApi, type AuditLogQueryParams } from '@/lib/api/audit'
+import { authApi } from '@/lib/api/auth'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch the company audit trail.
+ * Pass entityId to get the change history of one employee or project.
+ */
+export function useAuditLogs(params: AuditLogQueryParams, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.audit.list({ ...params }),
+    queryFn: () => auditApi.getAll(params),
+    enabled: options.enabled ?? true,
+    staleTime: staleTimes.list,
+    placeholderData: (previousData) => previousData, // Keep rows while paging or filtering
+  })
+}
+
+/**
+ * Hook to fetch authors, entity types and actions for the audit filters
+ */
+export function useAuditFilterOptions() {
+  return useQuery({
+    queryKey: queryKeys.audit.filters(),
+    queryFn: auditApi.getFilterOptions,
+    staleTime: staleTimes.reference,
+  })
+}
+
+/**
+ * Hook to fetch the impersonation history (SUPER_ADMIN only)
+ */
+export function useImpersonationHistory(params: { page: number; pageSize: number }) {
+  return useQuery({
+    queryKey: queryKeys.audit.impersonations({ ...params }),
+    queryFn: () => authApi.getImpersonationHistory(params),
+    staleTime: staleTimes.list,
+    placeholderData: (previousData) => previousData,
+  })
+}
@@ -0,0 +1,17 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { companiesApi } from '@/lib/api/companies'
+
+/**
+ * Hook to fetch the company directory (SUPER_ADMIN only)
+ */
+export function useCompanies(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.companies.list(),
+    queryFn: () => companiesApi.getAll(),
+    enabled,
+    staleTime: staleTimes.reference,
+  })
+}
@@ -0,0 +1,42 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { compensationApi, type CompensationLedgerRange } from '@/lib/api/compensation'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch an employee's compensation ledger for a period
+ */
+export function useCompensationLedger(
+  employeeId: string,
+  { fromDate, toDate }: CompensationLedgerRange = {},
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: queryKeys.compensation.ledger(employeeId, { fromDate, toDate }),
+    queryFn: () => compensationApi.getLedger(employeeId, { fromDate, toDate }),
+    enabled: enabled && Boolean(employeeId),
+    staleTime: staleTimes.list,
+    placeholderData: (previousData) => previousData, // Keep the table while switching months
+  })
+}
+
+/**
+ * Hook to fetch who spent compensation in a project on one day
+ */
+export function useCompensationDailySummary(
+  projectId: string,
+  date: string,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: queryKeys.compensation.dailySummary(projectId, date),
+    queryFn: () => compensationApi.getDailySummary(projectId, date),
+    enabled: enabled && Boolean(projectId && date),
+    staleTime: staleTimes.list,
+  })
+}
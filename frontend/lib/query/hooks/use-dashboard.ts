@@ -82,6 +82,56 @@ export function useOrders(params: OrdersQueryParams = {}) {
   })
 }
 
+/**
+ * Hook to fetch the weekly planning grid (employees × days)
+ */
+export function useWeekPlan(weekStart: string, projectId?: string, search?: string) {
+  return useQuery({
+    queryKey: queryKeys.dashboard.weekPlan({ weekStart, projectId, search }),
+    queryFn: () => homeApi.getWeekPlan(weekStart, projectId, search),
+    staleTime: staleTimes.list,
+    placeholderData: (previousData) => previousData,
+  })
+}
+
+/** Page size used to collect every order of a day */
+const MANIFEST_PAGE_SIZE = 100
+
+/**
+ * Hook to fetch every order of one project on one day (all pages), for the delivery manifest
+ */
+export function useManifestOrders(projectId: string, date: string) {
+  return useQuery({
+    queryKey: queryKeys.dashboard.manifest(projectId, date),
+    queryFn: async (): Promise<Order[]> => {
+      const first = await homeApi.getOrders(1, MANIFEST_PAGE_SIZE, undefined, undefined, date, projectId)
+      const rest = await Promise.all(
+        Array.from({ length: Math.max(first.totalPages - 1, 0) }, (_, index) =>
+          homeApi.getOrders(index + 2, MANIFEST_PAGE_SIZE, undefined, undefined, date, projectId)
+        )
+      )
+      return [first, ...rest].flatMap((response) => response.items)
+    },
+    enabled: Boolean(projectId && date),
+    staleTime: staleTimes.realtime,
+    refetchInterval: 60 * 1000, // Kitchens keep the manifest open through the morning
+  })
+}
+
+/**
+ * Hook to fetch the manifest locked on the server at the cutoff.
+ * Null until the lock job has run; polled until the snapshot appears.
+ */
+export function useManifestSnapshot(projectId: string, date: string, { enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.dashboard.manifestSnapshot(projectId, date),
+    queryFn: () => homeApi.getManifestSnapshot(projectId, date),
+    enabled: enabled && Boolean(projectId && date),
+    staleTime: staleTimes.static,
+    refetchInterval: (query) => (query.state.data ? false : 60 * 1000),
+  })
+}
+
 // ============================================================================
 // Mutations
 // ============================================================================
@@ -110,6 +160,7 @@ export function useBulkOrderAction() {
         pause: 'поставлены на паузу',
         resume: 'возобновлены',
         cancel: 'отменены',
+        changecombo: 'обновлены',
       }
       
       const label = actionLabels[action] || action
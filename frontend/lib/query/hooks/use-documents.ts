@@ -0,0 +1,123 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import {
+  documentsApi,
+  getDocumentFileName,
+  type CompanyDocument,
+  type DocumentsQueryParams,
+  type DocumentsResponse,
+} from '@/lib/api/documents'
+import { toast } from 'sonner'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { downloadFile } from '@/lib/utils'
+
+// File blobs are only kept while a preview is open or shortly after
+const FILE_GC_TIME = 60 * 1000
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch paginated list of company documents
+ */
+export function useDocuments(params: DocumentsQueryParams = {}) {
+  const { page = 1, pageSize = 20, type, from, to } = params
+
+  return useQuery({
+    queryKey: queryKeys.documents.list({ page, pageSize, type, from, to }),
+    queryFn: () => documentsApi.getAll({ page, pageSize, type, from, to }),
+    staleTime: staleTimes.list,
+    placeholderData: (previousData) => previousData, // Keep previous data while fetching
+  })
+}
+
+/**
+ * Hook to fetch document content for inline preview.
+ * Shares the cache with useDownloadDocument, so downloading
+ * an opened document does not hit the API again.
+ */
+export function useDocumentFile(id: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.documents.file(id || ''),
+    queryFn: () => {
+      if (!id) throw new Error('Document id is required')
+      return documentsApi.download(id)
+    },
+    enabled: Boolean(id),
+    staleTime: staleTimes.static, // Document files are immutable
+    gcTime: FILE_GC_TIME,
+    retry: false,
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to mark document as viewed by the current user.
+ * Optimistic: the "new" indicator disappears immediately.
+ */
+export function useMarkDocumentViewed() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => documentsApi.markAsViewed(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.documents.lists() })
+      const viewedAt = new Date().toISOString()
+      queryClient.setQueriesData<DocumentsResponse>(
+        { queryKey: queryKeys.documents.lists() },
+        (old) => old && {
+          ...old,
+          items: old.items.map((doc) => (doc.id === id ? { ...doc, isViewed: true, viewedAt } : doc)),
+        }
+      )
+    },
+    onError: (error, id) => {
+      // Not critical for the user - indicator comes back after refetch
+      logger.warn('Failed to mark document as viewed', { documentId: id, error: parseError(error).message })
+      queryClient.invalidateQueries({ queryKey: queryKeys.documents.lists() })
+    },
+  })
+}
+
+/**
+ * Hook to download a document file via the API (auth headers included)
+ * and save it on the user's device
+ */
+export function useDownloadDocument() {
+  const queryClient = useQueryClient()
+  const markViewed = useMarkDocumentViewed()
+
+  return useMutation({
+    mutationFn: async (document: CompanyDocument) => {
+      const blob = await queryClient.fetchQuery({
+        queryKey: queryKeys.documents.file(document.id),
+        queryFn: () => documentsApi.download(document.id),
+        staleTime: staleTimes.static,
+        gcTime: FILE_GC_TIME,
+      })
+      const url = URL.createObjectURL(blob)
+      downloadFile(url, getDocumentFileName(document))
+      // Revoke on the next tick: some browsers cancel the download if revoked synchronously
+      setTimeout(() => URL.revokeObjectURL(url), 0)
+    },
+    onSuccess: (_, document) => {
+      if (!document.isViewed) markViewed.mutate(document.id)
+      logger.info('Document downloaded', { documentId: document.id })
+    },
+    onError: (error, document) => {
+      const appError = parseError(error)
+      logger.error('Failed to download document', error instanceof Error ? error : new Error(appError.message), {
+        documentId: document.id,
+        errorCode: appError.code,
+      })
+      toast.error(appError.message, { description: appError.action })
+    },
+  })
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { homeApi, type OrdersFilters } from '@/lib/api/home'
+import { employeesApi, type EmployeesFilters } from '@/lib/api/employees'
+import { compensationApi, type CompensationLedgerExportParams } from '@/lib/api/compensation'
+import {
+  getExportFileName,
+  type ExportFormat,
+  type ExportProgress,
+} from '@/lib/api/export'
+import { toast } from 'sonner'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { downloadFile } from '@/lib/utils'
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface ExportVariables<TFilters> {
+  filters: TFilters
+  format: ExportFormat
+}
+
+/**
+ * Shared export mutation: downloads the file generated by the server,
+ * tracks download progress and saves the file on the user's device
+ */
+function useExportFile<TFilters>(
+  fileNamePrefix: string,
+  fetchFile: (filters: TFilters, format: ExportFormat, onProgress: (progress: ExportProgress) => void) => Promise<Blob>
+) {
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+
+  const mutation = useMutation({
+    mutationFn: async ({ filters, format }: ExportVariables<TFilters>) => {
+      setProgress({ loaded: 0, percent: null })
+      const blob = await fetchFile(filters, format, setProgress)
+      const url = URL.createObjectURL(blob)
+      downloadFile(url, getExportFileName(fileNamePrefix, format))
+      // Revoke on the next tick: some browsers cancel the download if revoked synchronously
+      setTimeout(() => URL.revokeObjectURL(url), 0)
+    },
+    onSuccess: (_, { format }) => {
+      logger.info('Export downloaded', { export: fileNamePrefix, format })
+      toast.success('Файл экспорта сохранён')
+    },
+    onError: (error, { format }) => {
+      const appError = parseError(error)
+      logger.error('Failed to export', error instanceof Error ? error : new Error(appError.message), {
+        export: fileNamePrefix,
+        format,
+        errorCode: appError.code,
+      })
+      toast.error(appError.message, { description: appError.action })
+    },
+    onSettled: () => setProgress(null),
+  })
+
+  return { ...mutation, progress }
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to export dashboard orders with the current table filters
+ */
+export function useExportOrders() {
+  return useExportFile<OrdersFilters>('orders', homeApi.exportOrders)
+}
+
+/**
+ * Hook to export employees with the current table filters
+ */
+export function useExportEmployees() {
+  return useExportFile<EmployeesFilters>('employees', employeesApi.exportEmployees)
+}
+
+/**
+ * Hook to export an employee's compensation ledger for a period
+ */
+export function useExportCompensationLedger() {
+  return useExportFile<CompensationLedgerExportParams>('compensation', compensationApi.exportLedger)
+}
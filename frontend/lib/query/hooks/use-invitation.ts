@@ -0,0 +1,19 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { authApi } from '@/lib/api/auth'
+
+/**
+ * Hook to check an invitation link on the set-password page.
+ * Not retried: an expired or revoked link fails the same way every time
+ */
+export function useInvitation(token: string) {
+  return useQuery({
+    queryKey: queryKeys.auth.invitation(token),
+    queryFn: () => authApi.getInvitation(token),
+    enabled: !!token,
+    staleTime: staleTimes.profile,
+    retry: false,
+  })
+}
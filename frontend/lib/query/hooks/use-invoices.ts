@@ -0,0 +1,100 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import {
+  invoicesApi,
+  type Invoice,
+  type InvoicesQueryParams,
+  type CreateInvoiceRequest,
+} from '@/lib/api/invoices'
+import { toast } from 'sonner'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch paginated list of invoices
+ */
+export function useInvoices(params: InvoicesQueryParams = {}) {
+  const { page = 1, pageSize = 20, status, from, to } = params
+
+  return useQuery({
+    queryKey: queryKeys.invoices.list({ page, pageSize, status, from, to }),
+    queryFn: () => invoicesApi.getAll({ page, pageSize, status, from, to }),
+    staleTime: staleTimes.list,
+    placeholderData: (previousData) => previousData, // Keep previous data while fetching
+  })
+}
+
+/**
+ * Hook to fetch single invoice details
+ */
+export function useInvoice(id: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.invoices.detail(id || ''),
+    queryFn: () => {
+      if (!id) throw new Error('Invoice id is required')
+      return invoicesApi.getById(id)
+    },
+    enabled: Boolean(id),
+    staleTime: staleTimes.detail,
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to create a new invoice
+ */
+export function useCreateInvoice() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateInvoiceRequest) => invoicesApi.create(data),
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoices.lists() })
+      logger.info('Invoice created', { invoiceId: invoice.id })
+      toast.success('Счёт создан')
+    },
+    onError: (error) => {
+      const appError = parseError(error)
+      logger.error('Failed to create invoice', error instanceof Error ? error : new Error(appError.message))
+      toast.error(appError.message, { description: appError.action })
+    },
+  })
+}
+
+/**
+ * Hook to mark invoice as paid (fully or partially, up to the outstanding amount).
+ * Paying an invoice tops up the company balance, so callers
+ * should also refresh the financial summary. Requires payments:pay.
+ */
+export function usePayInvoice() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, amount }: { id: string; amount: number }) =>
+      invoicesApi.pay(id, { amount }),
+    onSuccess: (invoice) => {
+      queryClient.setQueryData<Invoice>(queryKeys.invoices.detail(invoice.id), invoice)
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoices.lists() })
+      logger.info('Invoice paid', { invoiceId: invoice.id, paidAmount: invoice.paidAmount })
+      // A partial payment keeps the invoice open until the rest is paid
+      toast.success(invoice.status === 'PAID' ? 'Счёт отмечен как оплаченный' : 'Частичная оплата зачислена')
+    },
+    onError: (error, { id }) => {
+      const appError = parseError(error)
+      logger.error('Failed to pay invoice', error instanceof Error ? error : new Error(appError.message), {
+        invoiceId: id,
+        errorCode: appError.code,
+      })
+      toast.error(appError.message, { description: appError.action })
+    },
+  })
+}
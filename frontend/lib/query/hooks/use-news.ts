@@ -0,0 +1,97 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { newsApi, type NewsItem, type NewsQueryParams, type NewsResponse } from '@/lib/api/news'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+
+// Sidebar badge polls while the tab is visible
+const UNREAD_COUNT_REFETCH_INTERVAL = 60 * 1000
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch paginated news feed
+ */
+export function useNews(params: NewsQueryParams = {}) {
+  const { page = 1, pageSize = 20, category, unreadOnly } = params
+
+  return useQuery({
+    queryKey: queryKeys.news.list({ page, pageSize, category, unreadOnly }),
+    queryFn: () => newsApi.getAll({ page, pageSize, category, unreadOnly: unreadOnly || undefined }),
+    staleTime: staleTimes.list,
+    placeholderData: (previousData) => previousData, // Keep previous data while fetching
+  })
+}
+
+/**
+ * Hook to fetch single news item
+ */
+export function useNewsItem(id: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.news.detail(id || ''),
+    queryFn: () => {
+      if (!id) throw new Error('News id is required')
+      return newsApi.getById(id)
+    },
+    enabled: Boolean(id),
+    staleTime: staleTimes.detail,
+  })
+}
+
+/**
+ * Hook to fetch unread news count (sidebar badge).
+ * Refreshes periodically while the tab is visible.
+ */
+export function useUnreadNewsCount(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.news.unreadCount(),
+    queryFn: newsApi.getUnreadCount,
+    enabled,
+    staleTime: staleTimes.realtime,
+    refetchInterval: UNREAD_COUNT_REFETCH_INTERVAL,
+    refetchIntervalInBackground: false,
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to mark news item as read.
+ * Optimistic: feed item, detail and unread badge update immediately.
+ */
+export function useMarkNewsRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => newsApi.markAsRead(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.news.all })
+
+      queryClient.setQueriesData<NewsResponse>(
+        { queryKey: queryKeys.news.lists() },
+        (old) => old && {
+          ...old,
+          items: old.items.map((item) => (item.id === id ? { ...item, isRead: true } : item)),
+        }
+      )
+      queryClient.setQueryData<NewsItem>(queryKeys.news.detail(id), (old) => old && { ...old, isRead: true })
+      queryClient.setQueryData<number>(queryKeys.news.unreadCount(), (old) =>
+        old === undefined ? old : Math.max(old - 1, 0)
+      )
+    },
+    onError: (error, id) => {
+      // Not critical for the user - state is restored from the server
+      logger.warn('Failed to mark news as read', { newsId: id, error: parseError(error).message })
+      queryClient.invalidateQueries({ queryKey: queryKeys.news.all })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.news.unreadCount() })
+    },
+  })
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { partnersApi, type PartnersQueryParams } from '@/lib/api/partners'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch the partner directory relative to a project address
+ */
+export function usePartners({ projectId, search, type, maxDistanceKm }: PartnersQueryParams = {}) {
+  return useQuery({
+    queryKey: queryKeys.partners.list({ projectId, search, type, maxDistanceKm }),
+    queryFn: () => partnersApi.getAll({ projectId, search: search || undefined, type, maxDistanceKm }),
+    staleTime: staleTimes.reference,
+    placeholderData: (previousData) => previousData, // Keep list and map while filters change
+  })
+}
+
+/**
+ * Hook to fetch partner details with recent compensation transactions
+ */
+export function usePartner(id: string | null | undefined, projectId?: string) {
+  return useQuery({
+    queryKey: queryKeys.partners.detail(id || '', projectId),
+    queryFn: () => {
+      if (!id) throw new Error('Partner id is required')
+      return partnersApi.getById(id, projectId)
+    },
+    enabled: Boolean(id),
+    staleTime: staleTimes.detail,
+  })
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import {
+  getProject,
+  getProjectSettings,
+  updateProjectSettings,
+  type UpdateProjectSettingsRequest,
+} from '@/lib/api/projects'
+import { toast } from 'sonner'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch one project (address, finance, service types)
+ */
+export function useProject(projectId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.projects.detail(projectId ?? ''),
+    queryFn: () => getProject(projectId ?? ''),
+    enabled: Boolean(projectId),
+    staleTime: staleTimes.reference,
+  })
+}
+
+/**
+ * Hook to fetch business settings of a project
+ */
+export function useProjectSettings(projectId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.projects.settings(projectId ?? ''),
+    queryFn: () => getProjectSettings(projectId ?? ''),
+    enabled: Boolean(projectId),
+    staleTime: staleTimes.reference,
+  })
+}
+
+/**
+ * Cutoff time and timezone of a project.
+ * Until the settings load (or without a project) the company-wide
+ * cutoff is used with the default server timezone.
+ */
+export function useProjectCutoff(projectId: string | null | undefined, fallbackCutoffTime: string | null = null) {
+  const { data: settings } = useProjectSettings(projectId)
+
+  return {
+    cutoffTime: settings?.cutoffTime ?? fallbackCutoffTime,
+    timezone: settings?.timezone ?? null,
+  }
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+interface UpdateProjectSettingsVariables {
+  projectId: string
+  data: UpdateProjectSettingsRequest
+}
+
+/**
+ * Hook to update business settings of a project
+ */
+export function useUpdateProjectSettings() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ projectId, data }: UpdateProjectSettingsVariables) => updateProjectSettings(projectId, data),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKeys.projects.settings(settings.projectId), settings)
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.list() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.audit.all })
+
+      logger.info('Project settings updated', { projectId: settings.projectId })
+      toast.success('Настройки проекта сохранены')
+    },
+    onError: (error, { projectId }) => {
+      const appError = parseError(error)
+      logger.error('Failed to update project settings', error instanceof Error ? error : new Error(appError.message), {
+        projectId,
+        errorCode: appError.code,
+      })
+      toast.error(appError.message, { description: appError.action })
+    },
+  })
+}
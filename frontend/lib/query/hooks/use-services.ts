@@ -0,0 +1,113 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { servicesApi } from '@/lib/api/services'
+import type { ServiceType } from '@/lib/api/employees'
+import { useDebounce } from '@/lib/hooks'
+import { toast } from 'sonner'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+
+// Selection changes quickly while ticking checkboxes
+const SELECTION_DEBOUNCE_MS = 400
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to check whether a service can be assigned to the selected employees.
+ * The selection is debounced and sorted, so toggling checkboxes does not
+ * fire a request per click and the same set hits the cache.
+ *
+ * `blocked` only contains employees that are still selected;
+ * `isChecking` stays true until the latest selection has been checked.
+ */
+export function useServiceAvailability(
+  employeeIds: string[],
+  serviceType: ServiceType,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  // Compared by value: callers often pass a new array on every render
+  const idsKey = [...employeeIds].sort().join(',')
+  const debouncedKey = useDebounce(idsKey, SELECTION_DEBOUNCE_MS)
+  const debouncedIds = useMemo(() => (debouncedKey ? debouncedKey.split(',') : []), [debouncedKey])
+
+  const query = useQuery({
+    queryKey: queryKeys.services.availability(debouncedIds, serviceType),
+    queryFn: () => servicesApi.checkServiceAvailability(debouncedIds, serviceType),
+    enabled: enabled && debouncedIds.length > 0,
+    staleTime: staleTimes.realtime,
+    placeholderData: (previousData) => previousData, // Keep the list while the selection changes
+  })
+
+  const blocked = useMemo(() => {
+    const selected = new Set(employeeIds)
+    return (query.data ?? []).filter((item) => item.blockingReason && selected.has(item.employeeId))
+  }, [query.data, employeeIds])
+
+  const isChecking = enabled && idsKey !== '' && (debouncedKey !== idsKey || query.isFetching)
+
+  return { ...query, blocked, isChecking }
+}
+
+/**
+ * Hook to preview a bulk cancel (future orders and refunds per employee).
+ * Always refetched when the confirmation step opens: orders change during the day.
+ */
+export function useBulkCancelPreview(
+  employeeIds: string[],
+  serviceType: ServiceType,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: queryKeys.services.bulkCancelPreview(employeeIds, serviceType),
+    queryFn: () => servicesApi.previewBulkCancel(employeeIds, serviceType),
+    enabled: enabled && employeeIds.length > 0,
+    staleTime: 0,
+    gcTime: 0,
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+interface BulkCancelVariables {
+  employeeIds: string[]
+  serviceType: ServiceType
+}
+
+/**
+ * Hook to cancel lunch or compensation for several employees at once.
+ * Partial failures are not errors: they come back in `errors` of the result.
+ */
+export function useBulkCancelServices() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ employeeIds, serviceType }: BulkCancelVariables) =>
+      servicesApi.bulkCancelServices(employeeIds, serviceType),
+    onSuccess: (result, { serviceType }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.employees.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.services.all })
+
+      logger.info('Services bulk cancelled', {
+        serviceType,
+        cancelled: result.cancelled.length,
+        failed: result.errors.length,
+      })
+    },
+    onError: (error, { serviceType, employeeIds }) => {
+      const appError = parseError(error)
+      logger.error('Failed to bulk cancel services', error instanceof Error ? error : new Error(appError.message), {
+        serviceType,
+        count: employeeIds.length,
+        errorCode: appError.code,
+      })
+      toast.error(appError.message, { description: appError.action })
+    },
+  })
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { authApi } from '@/lib/api/auth'
+import { toast } from 'sonner'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { formatCount } from '@/lib/utils/format'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch active sessions (devices) of the current user
+ */
+export function useSessions() {
+  return useQuery({
+    queryKey: queryKeys.auth.sessions(),
+    queryFn: authApi.getSessions,
+    staleTime: staleTimes.profile,
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to log out another device
+ */
+export function useRevokeSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => authApi.revokeSession(id),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.sessions() })
+      logger.info('Session revoked', { sessionId: id })
+      toast.success('Сессия завершена')
+    },
+    onError: (error, id) => {
+      const appError = parseError(error)
+      logger.error('Failed to revoke session', error instanceof Error ? error : new Error(appError.message), {
+        sessionId: id,
+        errorCode: appError.code,
+      })
+      toast.error(appError.message, { description: appError.action })
+      // The list may be stale (e.g. the session already expired)
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.sessions() })
+    },
+  })
+}
+
+/**
+ * Hook to log out every device except this one
+ */
+export function useRevokeOtherSessions() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: () => authApi.revokeOtherSessions(),
+    onSuccess: (revoked) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.sessions() })
+      logger.info('Other sessions revoked', { revoked })
+      toast.success(
+        revoked > 0
+          ? `Завершено: ${formatCount(revoked, 'сессия', 'сессии', 'сессий')}`
+          : 'Других активных сессий нет'
+      )
+    },
+    onError: (error) => {
+      const appError = parseError(error)
+      logger.error('Failed to revoke other sessions', error instanceof Error ? error : new Error(appError.message), {
+        errorCode: appError.code,
+      })
+      toast.error(appError.message, { description: appError.action })
+    },
+  })
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys, staleTimes } from '../query-client'
+import { authApi, type DisableTwoFactorRequest } from '@/lib/api/auth'
+import { toast } from 'sonner'
+import { parseError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+
+function logTwoFactorError(message: string, error: unknown, context: Record<string, unknown> = {}) {
+  const appError = parseError(error)
+  logger.error(message, error instanceof Error ? error : new Error(appError.message), {
+    ...context,
+    errorCode: appError.code,
+  })
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch the 2FA status of the current user
+ */
+export function useTwoFactorStatus() {
+  return useQuery({
+    queryKey: queryKeys.auth.twoFactor(),
+    queryFn: authApi.getTwoFactorStatus,
+    staleTime: staleTimes.profile,
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to start enrollment: a new secret and QR code for the authenticator app.
+ * Errors are shown by the enrollment dialog itself
+ */
+export function useSetupTwoFactor() {
+  return useMutation({
+    mutationFn: () => authApi.setupTwoFactor(),
+    onError: (error) => logTwoFactorError('Failed to start 2FA setup', error),
+  })
+}
+
+/**
+ * Hook to confirm enrollment with a code; resolves to the backup codes
+ */
+export function useEnableTwoFactor() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (code: string) => authApi.enableTwoFactor(code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.twoFactor() })
+      logger.info('Two-factor authentication enabled')
+      toast.success('Двухфакторная аутентификация включена')
+    },
+    onError: (error) => logTwoFactorError('Failed to enable 2FA', error),
+  })
+}
+
+/**
+ * Hook to turn 2FA off (password + code)
+ */
+export function useDisableTwoFactor() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: DisableTwoFactorRequest) => authApi.disableTwoFactor(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.twoFactor() })
+      logger.info('Two-factor authentication disabled')
+      toast.success('Двухфакторная аутентификация отключена')
+    },
+    onError: (error) => logTwoFactorError('Failed to disable 2FA', error),
+  })
+}
+
+/**
+ * Hook to replace the backup codes; resolves to the new codes
+ */
+export function useRegenerateBackupCodes() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (code: string) => authApi.regenerateBackupCodes(code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.twoFactor() })
+      logger.info('Backup codes regenerated')
+      toast.success('Новые резервные коды созданы', { description: 'Старые коды больше не действуют' })
+    },
+    onError: (error) => logTwoFactorError('Failed to regenerate backup codes', error),
+  })
+}
+
+/**
+ * Hook to reset 2FA of another user (SUPER_ADMIN)
+ */
+export function useResetTwoFactor() {
+  return useMutation({
+    mutationFn: (userId: string) => authApi.resetTwoFactor(userId),
+    onSuccess: (_, userId) => {
+      logger.info('Two-factor authentication reset', { userId })
+      toast.success('2FA сброшена', { description: 'Пользователь сможет войти по паролю и подключить её заново' })
+    },
+    onError: (error, userId) => {
+      logTwoFactorError('Failed to reset 2FA', error, { userId })
+      const appError = parseError(error)
+      toast.error(appError.message, { description: appError.action })
+    },
+  })
+}
@@ -76,6 +76,9 @@ export const queryKeys = {
     all: ['auth'] as const,
     session: () => [...queryKeys.auth.all, 'session'] as const,
     admins: (search?: string) => [...queryKeys.auth.all, 'admins', { search }] as const,
+    sessions: () => [...queryKeys.auth.all, 'sessions'] as const,
+    twoFactor: () => [...queryKeys.auth.all, 'two-factor'] as const,
+    invitation: (token: string) => [...queryKeys.auth.all, 'invitation', token] as const,
   },
   
   // Employees
@@ -94,15 +97,26 @@ export const queryKeys = {
     all: ['dashboard'] as const,
     stats: () => [...queryKeys.dashboard.all, 'stats'] as const,
     orders: (params: Record<string, unknown>) => [...queryKeys.dashboard.all, 'orders', params] as const,
+    weekPlan: (params: Record<string, unknown>) => [...queryKeys.dashboard.all, 'week-plan', params] as const,
+    manifest: (projectId: string, date: string) => [...queryKeys.dashboard.all, 'manifest', projectId, date] as const,
+    manifestSnapshot: (projectId: string, date: string) =>
+      [...queryKeys.dashboard.all, 'manifest-snapshot', projectId, date] as const,
     cutoffTime: () => [...queryKeys.dashboard.all, 'cutoff'] as const,
   },
   
+  // Companies (SUPER_ADMIN directory)
+  companies: {
+    all: ['companies'] as const,
+    list: () => [...queryKeys.companies.all, 'list'] as const,
+  },
+
   // Projects
   projects: {
     all: ['projects'] as const,
     list: () => [...queryKeys.projects.all, 'list'] as const,
     detail: (id: string) => [...queryKeys.projects.all, 'detail', id] as const,
     addresses: (id: string) => [...queryKeys.projects.detail(id), 'addresses'] as const,
+    settings: (id: string) => [...queryKeys.projects.detail(id), 'settings'] as const,
   },
   
   // Users
@@ -124,6 +138,72 @@ export const queryKeys = {
       [...queryKeys.subscriptions.all, 'freezeInfo', employeeId] as const,
   },
   
+  // Invoices
+  invoices: {
+    all: ['invoices'] as const,
+    lists: () => [...queryKeys.invoices.all, 'list'] as const,
+    list: (params: Record<string, unknown>) => [...queryKeys.invoices.lists(), params] as const,
+    detail: (id: string) => [...queryKeys.invoices.all, 'detail', id] as const,
+  },
+
+  // Analytics
+  analytics: {
+    all: ['analytics'] as const,
+    period: (params: Record<string, unknown>) => [...queryKeys.analytics.all, params] as const,
+  },
+
+  // News
+  news: {
+    all: ['news'] as const,
+    lists: () => [...queryKeys.news.all, 'list'] as const,
+    list: (params: Record<string, unknown>) => [...queryKeys.news.lists(), params] as const,
+    detail: (id: string) => [...queryKeys.news.all, 'detail', id] as const,
+    unreadCount: () => [...queryKeys.news.all, 'unread-count'] as const,
+  },
+
+  // Documents
+  documents: {
+    all: ['documents'] as const,
+    lists: () => [...queryKeys.documents.all, 'list'] as const,
+    list: (params: Record<string, unknown>) => [...queryKeys.documents.lists(), params] as const,
+    file: (id: string) => [...queryKeys.documents.all, 'file', id] as const,
+  },
+
+  // Partners
+  partners: {
+    all: ['partners'] as const,
+    lists: () => [...queryKeys.partners.all, 'list'] as const,
+    list: (params: Record<string, unknown>) => [...queryKeys.partners.lists(), params] as const,
+    detail: (id: string, projectId?: string) => [...queryKeys.partners.all, 'detail', id, projectId] as const,
+  },
+
+  // Audit trail
+  audit: {
+    all: ['audit'] as const,
+    lists: () => [...queryKeys.audit.all, 'list'] as const,
+    list: (params: Record<string, unknown>) => [...queryKeys.audit.lists(), params] as const,
+    filters: () => [...queryKeys.audit.all, 'filters'] as const,
+    impersonations: (params: Record<string, unknown>) => [...queryKeys.audit.all, 'impersonations', params] as const,
+  },
+
+  // Compensation ledger
+  compensation: {
+    all: ['compensation'] as const,
+    ledger: (employeeId: string, range: Record<string, unknown>) =>
+      [...queryKeys.compensation.all, 'ledger', employeeId, range] as const,
+    dailySummary: (projectId: string, date: string) =>
+      [...queryKeys.compensation.all, 'daily-summary', projectId, date] as const,
+  },
+
+  // Service assignment (lunch / compensation)
+  services: {
+    all: ['services'] as const,
+    availability: (employeeIds: string[], serviceType?: string) =>
+      [...queryKeys.services.all, 'availability', { employeeIds, serviceType }] as const,
+    bulkCancelPreview: (employeeIds: string[], serviceType: string) =>
+      [...queryKeys.services.all, 'bulk-cancel-preview', { employeeIds, serviceType }] as const,
+  },
+
   // Combos
   combos: {
     all: ['combos'] as const,
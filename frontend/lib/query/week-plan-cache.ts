@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Week plan cache helpers
+ * Read and patch order cells across every cached week plan (all weeks/projects/searches).
+ * Used by optimistic bulk actions and by realtime updates.
+ */
+
+import type { QueryClient } from '@tanstack/react-query'
+import type { WeekPlan } from '@/lib/api/home'
+import { queryKeys } from './query-client'
+
+/** New values for an order cell; undefined fields are left as they are */
+export interface WeekPlanCellPatch {
+  status?: string | null
+  comboType?: string | null
+}
+
+/** Matches every week plan query */
+export const weekPlanQueryFilter = { queryKey: [...queryKeys.dashboard.all, 'week-plan'] }
+
+/**
+ * Current status/combo of cached order cells, keyed by order id.
+ */
+export function readWeekPlanCells(queryClient: QueryClient, orderIds: string[]): Map<string, WeekPlanCellPatch> {
+  const wanted = new Set(orderIds)
+  const result = new Map<string, WeekPlanCellPatch>()
+
+  for (const [, plan] of queryClient.getQueriesData<WeekPlan>(weekPlanQueryFilter)) {
+    for (const row of plan?.rows ?? []) {
+      for (const cell of row.cells) {
+        if (cell.orderId && wanted.has(cell.orderId) && !result.has(cell.orderId)) {
+          result.set(cell.orderId, { status: cell.status, comboType: cell.comboType })
+        }
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Apply patches to cached order cells. Plans without changes keep their
+ * reference, so re-applying the same patches does not notify observers.
+ * @returns ids of the orders found in the cache
+ */
+export function patchWeekPlanCells(queryClient: QueryClient, patches: Map<string, WeekPlanCellPatch>): Set<string> {
+  const found = new Set<string>()
+  if (patches.size === 0) return found
+
+  queryClient.setQueriesData<WeekPlan>(weekPlanQueryFilter, (plan) => {
+    if (!plan) return plan
+
+    let changed = false
+    const rows = plan.rows.map((row) => {
+      let rowChanged = false
+      const cells = row.cells.map((cell) => {
+        const patch = cell.orderId ? patches.get(cell.orderId) : undefined
+        if (!cell.orderId || !patch) return cell
+
+        found.add(cell.orderId)
+        const status = patch.status !== undefined ? patch.status : cell.status
+        const comboType = patch.comboType !== undefined ? patch.comboType : cell.comboType
+        if (status === cell.status && comboType === cell.comboType) return cell
+
+        rowChanged = true
+        return { ...cell, status, comboType }
+      })
+      if (!rowChanged) return row
+
+      changed = true
+      return { ...row, cells }
+    })
+
+    return changed ? { ...plan, rows } : plan
+  })
+
+  return found
+}
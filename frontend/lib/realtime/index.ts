@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Realtime barrel export
+ */
+
+export {
+  connectRealtime,
+  getRealtimeUrl,
+  parseSseBlock,
+  RealtimeEventTypes,
+  type RealtimeEventType,
+  type RealtimeMessage,
+  type RealtimeConnectionOptions,
+} from './realtime-client'
+export { applyRealtimeMessage } from './realtime-bridge'
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Realtime Bridge
+ * Applies server-pushed changes to the client: patches React Query caches where
+ * the new state is known, invalidates the rest, and re-emits them on the event bus
+ * for Zustand-driven pages (dashboard orders table, stats).
+ */
+
+import type { QueryClient } from '@tanstack/react-query'
+import { AppEvents, emitEvent } from '@/lib/events'
+import { queryKeys } from '@/lib/query/query-client'
+import { isOrderCancelled, isSubscriptionActive, isSubscriptionPaused } from '@/lib/constants/entity-statuses'
+import { patchWeekPlanCells, weekPlanQueryFilter, type WeekPlanCellPatch } from '@/lib/query/week-plan-cache'
+import { RealtimeEventTypes, type RealtimeMessage } from './realtime-client'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Cache patches
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Set the new status/combo on week-plan cells of the affected orders.
+ * @returns true when every order was found in a cached week plan
+ */
+function patchWeekPlanOrders(queryClient: QueryClient, message: RealtimeMessage): boolean {
+  if (!message.status && !message.comboType) return false
+
+  const patch: WeekPlanCellPatch = {
+    status: message.status ?? undefined,
+    comboType: message.comboType ?? undefined,
+  }
+  const found = patchWeekPlanCells(queryClient, new Map(message.entityIds.map((id) => [id, patch])))
+  return found.size === new Set(message.entityIds).size
+}
+
+function invalidateOrderQueries(queryClient: QueryClient, weekPlanPatched: boolean) {
+  void queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.stats() })
+  void queryClient.invalidateQueries({ queryKey: [...queryKeys.dashboard.all, 'orders'] })
+  void queryClient.invalidateQueries({ queryKey: [...queryKeys.dashboard.all, 'manifest'] })
+  void queryClient.invalidateQueries({ queryKey: queryKeys.employees.details() })
+  if (!weekPlanPatched) {
+    void queryClient.invalidateQueries(weekPlanQueryFilter)
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Bridge
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Apply one realtime message to the query cache and the event bus.
+ */
+export function applyRealtimeMessage(queryClient: QueryClient, message: RealtimeMessage): void {
+  switch (message.type) {
+    case RealtimeEventTypes.ORDERS_CHANGED: {
+      invalidateOrderQueries(queryClient, patchWeekPlanOrders(queryClient, message))
+      for (const id of message.entityIds) {
+        if (isOrderCancelled(message.status ?? undefined)) {
+          emitEvent(AppEvents.ORDER_CANCELLED, { id })
+        } else {
+          emitEvent(AppEvents.ORDER_UPDATED, { id })
+        }
+      }
+      emitEvent(AppEvents.REFRESH_ORDERS, {})
+      emitEvent(AppEvents.REFRESH_DASHBOARD, {})
+      break
+    }
+
+    case RealtimeEventTypes.ORDERS_GENERATED:
+    case RealtimeEventTypes.ORDERS_SETTLED: {
+      invalidateOrderQueries(queryClient, patchWeekPlanOrders(queryClient, message))
+      const payload = { projectId: message.projectId, date: message.date, count: message.entityIds.length }
+      if (message.type === RealtimeEventTypes.ORDERS_GENERATED) {
+        emitEvent(AppEvents.ORDERS_GENERATED, payload)
+      } else {
+        emitEvent(AppEvents.ORDERS_SETTLED, payload)
+      }
+      emitEvent(AppEvents.REFRESH_ORDERS, {})
+      emitEvent(AppEvents.REFRESH_DASHBOARD, {})
+      break
+    }
+
+    case RealtimeEventTypes.SUBSCRIPTIONS_CHANGED: {
+      // Pausing/resuming a subscription moves its future orders too
+      void queryClient.invalidateQueries({ queryKey: queryKeys.subscriptions.all })
+      void queryClient.invalidateQueries({ queryKey: queryKeys.employees.all })
+      void queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all })
+      const status = message.status ?? undefined
+      for (const id of message.entityIds) {
+        if (isSubscriptionPaused(status)) {
+          emitEvent(AppEvents.SUBSCRIPTION_PAUSED, { id })
+        } else if (isSubscriptionActive(status)) {
+          emitEvent(AppEvents.SUBSCRIPTION_RESUMED, { id })
+        } else {
+          emitEvent(AppEvents.SUBSCRIPTION_UPDATED, { id })
+        }
+      }
+      emitEvent(AppEvents.REFRESH_EMPLOYEES, {})
+      emitEvent(AppEvents.REFRESH_ORDERS, {})
+      emitEvent(AppEvents.REFRESH_DASHBOARD, {})
+      break
+    }
+
+    case RealtimeEventTypes.BUDGET_CHANGED: {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.stats() })
+      void queryClient.invalidateQueries({ queryKey: queryKeys.projects.all })
+      // Also sent for employee budget edits and subscription create/delete
+      void queryClient.invalidateQueries({ queryKey: queryKeys.employees.all })
+      void queryClient.invalidateQueries({ queryKey: queryKeys.companies.all })
+      if (message.balance !== null) {
+        emitEvent(AppEvents.BUDGET_UPDATED, { projectId: message.projectId, balance: message.balance })
+      }
+      emitEvent(AppEvents.REFRESH_EMPLOYEES, {})
+      emitEvent(AppEvents.REFRESH_DASHBOARD, {})
+      break
+    }
+  }
+}
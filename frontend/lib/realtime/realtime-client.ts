@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Realtime Client
+ * Reads the backend Server-Sent Events stream (`/realtime/stream`) with fetch,
+ * so the Bearer token and company-scope headers are sent like any API call.
+ * An expired token is refreshed the way API calls do it, then the stream
+ * reconnects at once; other failures reconnect with exponential backoff until stopped.
+ */
+
+import { API_BASE_URL, getAuthHeaders, refreshSession } from '@/lib/api/client'
+import { logger } from '@/lib/logger'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Mirrors RealtimeEventTypes on the backend */
+export const RealtimeEventTypes = {
+  ORDERS_CHANGED: 'orders.changed',
+  ORDERS_GENERATED: 'orders.generated',
+  ORDERS_SETTLED: 'orders.settled',
+  SUBSCRIPTIONS_CHANGED: 'subscriptions.changed',
+  BUDGET_CHANGED: 'budget.changed',
+} as const
+
+export type RealtimeEventType = (typeof RealtimeEventTypes)[keyof typeof RealtimeEventTypes]
+
+export interface RealtimeMessage {
+  type: RealtimeEventType
+  projectId: string | null
+  /** Affected orders or subscriptions */
+  entityIds: string[]
+  /** New status in Russian when all entities share it */
+  status: string | null
+  comboType: string | null
+  /** Business date, yyyy-MM-dd */
+  date: string | null
+  /** Project (or company, when projectId is null) budget after the change, when known */
+  balance: number | null
+  occurredAt: string
+}
+
+export interface RealtimeConnectionOptions {
+  onMessage: (message: RealtimeMessage) => void
+  onStatusChange?: (connected: boolean) => void
+  /** Stream URL; defaults to NEXT_PUBLIC_REALTIME_URL or the API stream endpoint */
+  url?: string
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const RECONNECT_BASE_DELAY = 1000
+const RECONNECT_MAX_DELAY = 30000
+
+const KNOWN_TYPES = new Set<string>(Object.values(RealtimeEventTypes))
+
+/**
+ * Stream URL. NEXT_PUBLIC_REALTIME_URL points the client at another
+ * text/event-stream source, e.g. a local stand-in while developing.
+ */
+export function getRealtimeUrl(): string {
+  return process.env.NEXT_PUBLIC_REALTIME_URL || `${API_BASE_URL}/realtime/stream`
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SSE parsing
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parse one SSE block (lines between blank lines).
+ * Comments (`: keep-alive`) and unknown event types yield null.
+ */
+export function parseSseBlock(block: string): RealtimeMessage | null {
+  const dataLines: string[] = []
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart())
+    }
+  }
+  if (dataLines.length === 0) return null
+
+  try {
+    const parsed = JSON.parse(dataLines.join('\n')) as Partial<RealtimeMessage>
+    if (!parsed.type || !KNOWN_TYPES.has(parsed.type)) return null
+
+    return {
+      type: parsed.type,
+      projectId: parsed.projectId ?? null,
+      entityIds: Array.isArray(parsed.entityIds) ? parsed.entityIds : [],
+      status: parsed.status ?? null,
+      comboType: parsed.comboType ?? null,
+      date: parsed.date ?? null,
+      balance: typeof parsed.balance === 'number' ? parsed.balance : null,
+      occurredAt: parsed.occurredAt ?? new Date().toISOString(),
+    }
+  } catch {
+    logger.warn('Realtime: malformed event', { block })
+    return null
+  }
+}
+
+async function readStream(body: ReadableStream<Uint8Array>, onMessage: (message: RealtimeMessage) => void) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) return
+
+    buffer += decoder.decode(value, { stream: true })
+    const blocks = buffer.split(/\r?\n\r?\n/)
+    buffer = blocks.pop() ?? ''
+
+    for (const block of blocks) {
+      const message = parseSseBlock(block)
+      if (message) onMessage(message)
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Connection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Open the realtime stream and keep it open.
+ * @returns Stop function — aborts the stream and cancels pending reconnects
+ */
+export function connectRealtime({ onMessage, onStatusChange, url = getRealtimeUrl() }: RealtimeConnectionOptions): () => void {
+  const controller = new AbortController()
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let attempt = 0
+  // One refresh per 401: a second 401 with the new token falls back to backoff
+  let refreshed = false
+
+  const open = async () => {
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: 'text/event-stream', ...getAuthHeaders() },
+        credentials: 'include',
+        cache: 'no-store',
+        signal: controller.signal,
+      })
+      if (response.status === 401 && !refreshed) {
+        refreshed = true
+        await refreshSession()
+        if (!controller.signal.aborted) void open()
+        return
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Realtime stream responded with ${response.status}`)
+      }
+
+      attempt = 0
+      refreshed = false
+      onStatusChange?.(true)
+      await readStream(response.body, onMessage)
+    } catch (error) {
+      if (controller.signal.aborted) return
+      logger.warn('Realtime: stream failed', { error: error instanceof Error ? error.message : String(error) })
+    }
+
+    if (controller.signal.aborted) return
+    onStatusChange?.(false)
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY)
+    attempt++
+    retryTimer = setTimeout(open, delay)
+  }
+
+  void open()
+
+  return () => {
+    controller.abort()
+    if (retryTimer) clearTimeout(retryTimer)
+  }
+}
@@ -119,8 +119,10 @@ export function isFutureDate(date: Date | string | null | undefined): boolean {
 /**
  * Check if cutoff time has passed for today.
  * @param cutoffTime - Time string in HH:mm format
+ * @param timezone - Project timezone the cutoff is set in; server timezone when omitted
+ * @param at - Instant to check; now when omitted
  */
-export function hasCutoffPassed(cutoffTime: string | null): boolean {
+export function hasCutoffPassed(cutoffTime: string | null, timezone?: string | null, at: Date = new Date()): boolean {
   if (!cutoffTime) return false
   
   const parts = cutoffTime.split(':')
@@ -129,8 +131,9 @@ export function hasCutoffPassed(cutoffTime: string | null): boolean {
   
   if (Number.isNaN(hours) || Number.isNaN(minutes)) return false
   
-  const now = new Date()
-  const cutoff = new Date()
+  // Both sides are wall-clock time of the project, not of the browser
+  const now = getServerNow(timezone, at)
+  const cutoff = new Date(now)
   cutoff.setHours(hours, minutes, 0, 0)
   
   return now > cutoff
@@ -169,29 +172,31 @@ export function getNextDay(date: Date | string): Date {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /**
- * Server timezone - Asia/Dushanbe (UTC+5)
+ * Default server timezone - Asia/Dushanbe (UTC+5).
+ * Projects can have their own timezone (project settings); this one is used
+ * when the project timezone is unknown.
  * IMPORTANT: Use these functions when comparing dates with server data
  * to ensure consistent behavior regardless of browser timezone.
  */
 export const SERVER_TIMEZONE = 'Asia/Dushanbe'
 
 /**
- * Get current date/time in server timezone (Asia/Dushanbe).
+ * Get current date/time in the given timezone (server timezone by default).
  * Use this instead of `new Date()` for timezone-consistent date operations.
+ * `at` replaces the current instant, e.g. a timestamp kept in component state.
  */
-export function getServerNow(): Date {
+export function getServerNow(timezone?: string | null, at: Date = new Date()): Date {
   // Get current date/time in server timezone
-  const now = new Date()
-  const serverTime = new Date(now.toLocaleString('en-US', { timeZone: SERVER_TIMEZONE }))
+  const serverTime = new Date(at.toLocaleString('en-US', { timeZone: timezone || SERVER_TIMEZONE }))
   return serverTime
 }
 
 /**
- * Get today's date at start of day in server timezone.
+ * Get today's date at start of day in the given timezone (server timezone by default).
  * Use this instead of `startOfDay(new Date())` for timezone-consistent comparisons.
  */
-export function getServerToday(): Date {
-  const serverNow = getServerNow()
+export function getServerToday(timezone?: string | null): Date {
+  const serverNow = getServerNow(timezone)
   return startOfDay(serverNow)
 }
 
@@ -106,9 +106,6 @@ export function formatWorkSchedule(employee: {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import {
-  ORDER_STATUS,
-  SUBSCRIPTION_STATUS,
-  INVITE_STATUS,
   getOrderStatusConfig,
   getSubscriptionStatusConfig,
   getInviteStatusConfig as getInviteStatusConfigFromConstants,
@@ -206,6 +203,21 @@ export function formatPercent(value: number, decimals = 0): string {
   return `${value.toFixed(decimals)}%`
 }
 
+/**
+ * Format a countdown in seconds as m:ss, or h:mm:ss from an hour up.
+ * @example formatCountdown(75) => '1:15'
+ * @example formatCountdown(3725) => '1:02:05'
+ */
+export function formatCountdown(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Pluralization
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -28,7 +28,7 @@ export const ValidationMessages = {
   max: (max: number) => `Максимальное значение: ${max}`,
   positive: 'Значение должно быть положительным',
   integer: 'Значение должно быть целым числом',
-  password: 'Пароль должен содержать минимум 8 символов, заглавную букву и цифру',
+  password: 'Пароль должен содержать минимум 8 символов, заглавную и строчную буквы, цифру и спецсимвол',
   passwordMatch: 'Пароли не совпадают',
   date: 'Введите корректную дату',
   futureDate: 'Дата должна быть в будущем',
@@ -52,12 +52,18 @@ export const emailField = z.string().email(ValidationMessages.email)
 /** Phone field (UAE format) */
 export const phoneField = z.string().regex(PHONE_REGEX, ValidationMessages.phone)
 
-/** Password field with requirements */
+/**
+ * Password field with the complexity rules of the backend PasswordValidator.
+ * Common passwords, sequences and breaches are checked server-side (PasswordStrengthMeter)
+ */
 export const passwordField = z
   .string()
   .min(8, ValidationMessages.minLength(8))
-  .regex(/[A-Z]/, 'Пароль должен содержать заглавную букву')
+  .max(128, ValidationMessages.maxLength(128))
+  .regex(/[A-ZА-ЯЁ]/, 'Пароль должен содержать заглавную букву')
+  .regex(/[a-zа-яё]/, 'Пароль должен содержать строчную букву')
   .regex(/[0-9]/, 'Пароль должен содержать цифру')
+  .regex(/[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?~`]/, 'Пароль должен содержать спецсимвол (!@#$%^&*...)')
 
 /** Positive integer */
 export const positiveInteger = z.number().int(ValidationMessages.integer).positive(ValidationMessages.positive)
@@ -127,10 +133,9 @@ export const createUserSchema = z.object({
   phone: phoneField,
   email: emailField.optional().or(z.literal('')),
   role: z.enum(['ADMIN', 'OPERATOR']),
-  password: passwordField,
 })
 
-export const updateUserSchema = createUserSchema.omit({ password: true }).partial()
+export const updateUserSchema = createUserSchema.partial()
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Project Schemas
@@ -19,7 +19,7 @@ export async function middleware(request: NextRequest) {
   const isAuthenticated = authStatus === 'authenticated' || !!legacyToken
 
   // Public routes that don't require authentication
-  const publicRoutes = ['/login', '/auth', '/public', '/reset-password', '/forgot-password', '/api']
+  const publicRoutes = ['/login', '/auth', '/public', '/reset-password', '/forgot-password', '/set-password', '/api']
   const isPublicRoute = publicRoutes.some(route => 
     request.nextUrl.pathname.startsWith(route)
   )
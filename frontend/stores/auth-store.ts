@@ -1,7 +1,10 @@
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
+import { isAxiosError } from 'axios'
 import { authApi, type LoginResponse, type AdminListItem } from '@/lib/api/auth'
+import type { ViewedCompany } from '@/lib/api/companies'
 import { logger } from '@/lib/logger'
+import { AppEvents, emitEvent, eventBus, type EventPayloads } from '@/lib/events/event-bus'
 import {
   setAuthStatusCookie,
   clearAuthStatusCookie,
@@ -38,6 +41,14 @@ interface AuthState {
   
   // JWT token - needed for Safari ITP workaround (cookies blocked on cross-site)
   token: string | null
+  // Access token expiry (ms since epoch) - drives the silent refresh
+  tokenExpiresAt: number | null
+  // Token is gone but the user is kept, so the re-login dialog can restore it in place
+  sessionExpired: boolean
+  // Password accepted, waiting for the 2FA code (never persisted)
+  twoFactorChallenge: string | null
+  // Password accepted but expired, waiting for a new one (never persisted)
+  passwordChangeChallenge: string | null
 
   // Loading states
   isLoading: boolean
@@ -57,6 +68,12 @@ interface AuthState {
   isImpersonating: boolean
   impersonatedBy: string | null
   originalUser: User | null
+  // Impersonation ends on its own at this time (ms since epoch)
+  impersonationExpiresAt: number | null
+  impersonationReason: string | null
+
+  // SUPER_ADMIN "view as company" mode: read-only, keeps the own identity
+  viewedCompany: ViewedCompany | null
 
   // Admin list for impersonation
   allAdmins: AdminListItem[]
@@ -65,14 +82,26 @@ interface AuthState {
 
 interface AuthActions {
   initialize: () => Promise<void>
-  login: (phone: string, password: string) => Promise<User>
+  // Resolves to null when a login step is pending: verifyTwoFactor() for 2FA,
+  // changeExpiredPassword() for an expired password
+  login: (phone: string, password: string) => Promise<User | null>
+  verifyTwoFactor: (code: string) => Promise<User | null>
+  cancelTwoFactor: () => void
+  changeExpiredPassword: (newPassword: string) => Promise<User>
+  cancelPasswordChange: () => void
   logout: () => Promise<void>
   refreshSession: () => Promise<void>
+  expireSession: () => void
+  lockSession: () => Promise<void>
   updateProfile: (data: { fullName: string; phone: string; email: string }) => Promise<User>
   changePassword: (currentPassword: string, newPassword: string) => Promise<void>
   hasPermission: (permission: string) => boolean
-  impersonate: (userId: string) => Promise<void>
+  can: (permission: string) => boolean
+  impersonate: (userId: string, reason: string) => Promise<void>
   stopImpersonating: () => Promise<void>
+  expireImpersonation: () => void
+  viewAsCompany: (company: ViewedCompany) => void
+  stopViewingCompany: () => void
   fetchAllAdmins: (search?: string) => Promise<AdminListItem[]>
 }
 
@@ -86,6 +115,10 @@ const initialState: AuthState = {
   user: null,
   isAuthenticated: false,
   token: null,
+  tokenExpiresAt: null,
+  sessionExpired: false,
+  twoFactorChallenge: null,
+  passwordChangeChallenge: null,
   isLoading: false,
   isInitializing: true,
   _hasHydrated: false,
@@ -97,6 +130,9 @@ const initialState: AuthState = {
   isImpersonating: false,
   impersonatedBy: null,
   originalUser: null,
+  impersonationExpiresAt: null,
+  impersonationReason: null,
+  viewedCompany: null,
   allAdmins: [],
   adminsLoading: false,
 }
@@ -105,6 +141,12 @@ const initialState: AuthState = {
 // Helper Functions
 // ============================================================================
 
+/** Role names of company admins; older records use several spellings (mirrors the backend) */
+const ADMIN_ROLES = ['admin', 'Admin', 'ADMIN', 'Администратор']
+
+/** Actions of a manager without stored ones: managers always have the home page */
+const MANAGER_DEFAULT_ACTIONS = ['orders:create', 'orders:bulk']
+
 function extractUserContext(user: User) {
   return {
     companyId: user.companyId,
@@ -120,6 +162,10 @@ function clearAuthState(): Partial<AuthState> {
     user: null,
     isAuthenticated: false,
     token: null, // Clear token on logout
+    tokenExpiresAt: null,
+    sessionExpired: false,
+    twoFactorChallenge: null,
+    passwordChangeChallenge: null,
     companyId: null,
     projectId: null,
     projectName: null,
@@ -128,6 +174,29 @@ function clearAuthState(): Partial<AuthState> {
     isImpersonating: false,
     impersonatedBy: null,
     originalUser: null,
+    impersonationExpiresAt: null,
+    impersonationReason: null,
+    viewedCompany: null,
+  }
+}
+
+function loggedInState(response: LoginResponse): Partial<AuthState> {
+  return {
+    user: response.user,
+    isAuthenticated: true,
+    token: response.token, // Save token for Safari ITP workaround
+    tokenExpiresAt: response.expiresAt ?? null,
+    sessionExpired: false,
+    twoFactorChallenge: null,
+    passwordChangeChallenge: null,
+    isLoading: false,
+    ...extractUserContext(response.user),
+    isImpersonating: false,
+    impersonatedBy: null,
+    originalUser: null,
+    impersonationExpiresAt: null,
+    impersonationReason: null,
+    viewedCompany: null,
   }
 }
 
@@ -184,6 +253,17 @@ export const useAuthStore = create<AuthStore>()(
             password,
           })
 
+          if (response.requiresTwoFactor && response.twoFactorChallengeToken) {
+            // The re-login dialog keeps the current user while the code is entered
+            set({ twoFactorChallenge: response.twoFactorChallengeToken, isLoading: false })
+            return null
+          }
+
+          if (response.requiresPasswordChange && response.passwordChangeToken) {
+            set({ passwordChangeChallenge: response.passwordChangeToken, isLoading: false })
+            return null
+          }
+
           if (!response.user) {
             throw new Error('No user data returned')
           }
@@ -193,17 +273,9 @@ export const useAuthStore = create<AuthStore>()(
           }
 
           setAuthStatusCookie()
+          set(loggedInState(response))
 
-          set({
-            user: response.user,
-            isAuthenticated: true,
-            token: response.token, // Save token for Safari ITP workaround
-            isLoading: false,
-            ...extractUserContext(response.user),
-            isImpersonating: false,
-            impersonatedBy: null,
-            originalUser: null,
-          })
+          emitEvent(AppEvents.AUTH_LOGIN, { userId: response.user.id })
 
           return response.user
         } catch (error) {
@@ -212,6 +284,77 @@ export const useAuthStore = create<AuthStore>()(
         }
       },
 
+      verifyTwoFactor: async (code: string) => {
+        const { twoFactorChallenge } = get()
+        if (!twoFactorChallenge) throw new Error('No two-factor challenge')
+
+        set({ isLoading: true })
+
+        try {
+          const response = await authApi.loginWithTwoFactor({
+            challengeToken: twoFactorChallenge,
+            code: code.trim(),
+          })
+
+          if (response.requiresPasswordChange && response.passwordChangeToken) {
+            set({ twoFactorChallenge: null, passwordChangeChallenge: response.passwordChangeToken, isLoading: false })
+            return null
+          }
+
+          if (!response.user) {
+            throw new Error('No user data returned')
+          }
+
+          setAuthStatusCookie()
+          set(loggedInState(response))
+
+          emitEvent(AppEvents.AUTH_LOGIN, { userId: response.user.id })
+
+          return response.user
+        } catch (error) {
+          // A wrong code can be retried with the same challenge until it expires
+          set({ isLoading: false })
+          throw error
+        }
+      },
+
+      cancelTwoFactor: () => {
+        set({ twoFactorChallenge: null })
+      },
+
+      changeExpiredPassword: async (newPassword: string) => {
+        const { passwordChangeChallenge } = get()
+        if (!passwordChangeChallenge) throw new Error('No password change challenge')
+
+        set({ isLoading: true })
+
+        try {
+          const response = await authApi.changeExpiredPassword({
+            challengeToken: passwordChangeChallenge,
+            newPassword,
+          })
+
+          if (!response.user) {
+            throw new Error('No user data returned')
+          }
+
+          setAuthStatusCookie()
+          set(loggedInState(response))
+
+          emitEvent(AppEvents.AUTH_LOGIN, { userId: response.user.id })
+
+          return response.user
+        } catch (error) {
+          // A rejected password can be replaced with the same challenge until it expires
+          set({ isLoading: false })
+          throw error
+        }
+      },
+
+      cancelPasswordChange: () => {
+        set({ passwordChangeChallenge: null })
+      },
+
       logout: async () => {
         try {
           await authApi.logout()
@@ -220,6 +363,7 @@ export const useAuthStore = create<AuthStore>()(
         } finally {
           clearAuthStatusCookie()
           set({ ...clearAuthState(), allAdmins: [] })
+          emitEvent(AppEvents.AUTH_LOGOUT, {})
         }
       },
 
@@ -247,15 +391,42 @@ export const useAuthStore = create<AuthStore>()(
             user: response.user,
             isAuthenticated: true,
             token: response.token, // Update token on refresh
+            tokenExpiresAt: response.expiresAt ?? null,
             ...extractUserContext(response.user),
           })
         } catch (error) {
           logger.error('Token refresh failed', error instanceof Error ? error : new Error(String(error)))
-          clearAuthStatusCookie()
-          set(clearAuthState())
+          if (isAxiosError(error) && error.response?.status === 401) {
+            // Refresh token revoked or expired - ask for the password in place
+            get().expireSession()
+            emitEvent(AppEvents.AUTH_SESSION_EXPIRED, {})
+          } else if (!isAxiosError(error) || error.response) {
+            clearAuthStatusCookie()
+            set(clearAuthState())
+          }
         }
       },
 
+      expireSession: () => {
+        set({ token: null, tokenExpiresAt: null, sessionExpired: true })
+      },
+
+      lockSession: async () => {
+        // Idle lock: revoke the session on the server before asking to log in again
+        try {
+          await authApi.logout()
+        } catch (error) {
+          logger.warn('Session lock logout error (non-critical)', { error })
+        }
+        if (get().isImpersonating) {
+          // Unlocking asks for the SUPER_ADMIN's own password
+          get().expireImpersonation()
+          return
+        }
+        get().expireSession()
+        emitEvent(AppEvents.AUTH_SESSION_EXPIRED, {})
+      },
+
       updateProfile: async (data) => {
         const { user } = get()
         if (!user) throw new Error('Not authenticated')
@@ -279,14 +450,28 @@ export const useAuthStore = create<AuthStore>()(
         return user.permissions.includes(permission)
       },
 
-      impersonate: async (userId: string) => {
+      can: (permission: string): boolean => {
+        const { user } = get()
+        if (!user) return false
+        // Mirrors the backend: admins bypass action checks
+        if (user.role === 'SUPER_ADMIN' || ADMIN_ROLES.includes(user.role)) return true
+        if (user.permissions.includes('*')) return true
+        // Sessions persisted before action-level permissions hold page routes only:
+        // the backend falls back to role defaults for their tokens until re-login
+        if (!user.permissions.some((p) => p.includes(':'))) {
+          return user.role === 'manager' && MANAGER_DEFAULT_ACTIONS.includes(permission)
+        }
+        return user.permissions.includes(permission)
+      },
+
+      impersonate: async (userId: string, reason: string) => {
         const { user } = get()
         if (!user || user.role !== 'SUPER_ADMIN') {
           throw new Error('Only SUPER_ADMIN can impersonate other users')
         }
 
         try {
-          const response = await authApi.impersonate(userId)
+          const response = await authApi.impersonate(userId, reason)
 
           if (!response.user) {
             throw new Error('No user data returned')
@@ -296,10 +481,15 @@ export const useAuthStore = create<AuthStore>()(
 
           set({
             user: response.user,
+            token: response.token,
+            tokenExpiresAt: response.expiresAt ?? null,
             ...extractUserContext(response.user),
             isImpersonating: true,
             impersonatedBy: response.impersonatedBy || user.id,
             originalUser: user,
+            impersonationExpiresAt: response.impersonationExpiresAt ?? null,
+            impersonationReason: response.impersonationReason ?? reason,
+            viewedCompany: null,
           })
 
           if (typeof window !== 'undefined') {
@@ -324,10 +514,14 @@ export const useAuthStore = create<AuthStore>()(
 
           set({
             user: response.user,
+            token: response.token,
+            tokenExpiresAt: response.expiresAt ?? null,
             ...extractUserContext(response.user),
             isImpersonating: false,
             impersonatedBy: null,
             originalUser: null,
+            impersonationExpiresAt: null,
+            impersonationReason: null,
           })
 
           if (typeof window !== 'undefined') {
@@ -344,6 +538,46 @@ export const useAuthStore = create<AuthStore>()(
         }
       },
 
+      expireImpersonation: () => {
+        // The impersonated token is already dead, so there is nothing to stop on the server:
+        // switch back to the SUPER_ADMIN locally and ask for their password in place
+        const { originalUser } = get()
+        set({
+          ...(originalUser ? { user: originalUser, ...extractUserContext(originalUser) } : {}),
+          isImpersonating: false,
+          impersonatedBy: null,
+          originalUser: null,
+          impersonationExpiresAt: null,
+          impersonationReason: null,
+        })
+        get().expireSession()
+        emitEvent(AppEvents.AUTH_SESSION_EXPIRED, {})
+      },
+
+      viewAsCompany: (company: ViewedCompany) => {
+        const { user, isImpersonating } = get()
+        if (!user || user.role !== 'SUPER_ADMIN' || isImpersonating) {
+          throw new Error('Only SUPER_ADMIN can view other companies')
+        }
+
+        logger.info('Company view started', { companyId: company.id })
+        set({ viewedCompany: company })
+
+        // Full reload drops cached data of the previous company
+        if (typeof window !== 'undefined') {
+          window.location.href = '/'
+        }
+      },
+
+      stopViewingCompany: () => {
+        logger.info('Company view stopped')
+        set({ viewedCompany: null })
+
+        if (typeof window !== 'undefined') {
+          window.location.href = '/'
+        }
+      },
+
       fetchAllAdmins: async (search?: string) => {
         set({ adminsLoading: true })
         try {
@@ -365,6 +599,8 @@ export const useAuthStore = create<AuthStore>()(
         user: state.user,
         isAuthenticated: state.isAuthenticated,
         token: state.token, // For Safari ITP workaround
+        tokenExpiresAt: state.tokenExpiresAt,
+        sessionExpired: state.sessionExpired,
         companyId: state.companyId,
         projectId: state.projectId,
         projectName: state.projectName,
@@ -373,6 +609,9 @@ export const useAuthStore = create<AuthStore>()(
         isImpersonating: state.isImpersonating,
         impersonatedBy: state.impersonatedBy,
         originalUser: state.originalUser,
+        impersonationExpiresAt: state.impersonationExpiresAt,
+        impersonationReason: state.impersonationReason,
+        viewedCompany: state.viewedCompany,
       }),
       // Called when hydration is complete - IMPORTANT for Safari!
       onRehydrateStorage: () => (state, error) => {
@@ -392,6 +631,14 @@ export const useAuthStore = create<AuthStore>()(
   )
 )
 
+// The API client refreshes the token on a 401; it cannot import the store (circular import)
+eventBus.on<EventPayloads[typeof AppEvents.AUTH_TOKEN_REFRESHED]>(
+  AppEvents.AUTH_TOKEN_REFRESHED,
+  ({ token, expiresAt }) => {
+    useAuthStore.setState({ token, tokenExpiresAt: expiresAt })
+  }
+)
+
 // Export hydration check for components
 export const getIsHydrated = () => isHydrated
 
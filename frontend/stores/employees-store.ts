@@ -7,6 +7,7 @@ import {
   type UpdateEmployeeRequest,
   type UpdateBudgetRequest,
   type ServiceType,
+  type EmployeesFilters,
 } from '@/lib/api/employees'
 import type { ActiveFilter } from '@/components/ui/filter-builder'
 import { getErrorMessage } from './utils'
@@ -21,7 +22,6 @@ interface EmployeesFilter {
   maxBudget: number | null
   hasSubscription: boolean | null
   serviceType: ServiceType | null
-  projectId: string | null
 }
 
 interface EmployeesState {
@@ -37,6 +37,8 @@ interface EmployeesState {
   searchQuery: string
   filter: EmployeesFilter
   activeFilters: ActiveFilter[]
+  /** Project scope from the page switcher; null means all projects */
+  projectScope: string | null
 
   // Actions
   fetchEmployees: (page?: number) => Promise<void>
@@ -49,6 +51,7 @@ interface EmployeesState {
   setFilter: (filter: Partial<EmployeesFilter>) => void
   setActiveFilters: (filters: ActiveFilter[]) => void
   setSearchQuery: (query: string) => void
+  setProjectScope: (projectId: string | null) => void
   selectEmployee: (employee: EmployeeDetail | null) => void
   resetFilters: () => void
 }
@@ -61,7 +64,6 @@ const defaultFilter: EmployeesFilter = {
   maxBudget: null,
   hasSubscription: null,
   serviceType: null,
-  projectId: null,
 }
 
 const mapStatusFilter = (status: EmployeesFilter['status']) => {
@@ -118,17 +120,32 @@ const parseActiveFilters = (filters: ActiveFilter[]): Partial<EmployeesFilter> =
           result.hasSubscription = false
         }
         break
-      case 'projectId':
-        if (filter.value) {
-          result.projectId = filter.value as string
-        }
-        break
     }
   }
 
   return result
 }
 
+/**
+ * API filters for the current search, filter builder and project scope (shared by list and export)
+ */
+export const selectEmployeesFilters = (
+  state: Pick<EmployeesState, 'searchQuery' | 'activeFilters' | 'projectScope'>
+): EmployeesFilters => {
+  const parsedFilters = parseActiveFilters(state.activeFilters)
+  return {
+    search: state.searchQuery || undefined,
+    status: mapStatusFilter(parsedFilters.status || 'all'),
+    inviteStatus: mapInviteStatusFilter(parsedFilters.inviteStatus || 'all'),
+    minBudget: parsedFilters.minBudget ?? undefined,
+    maxBudget: parsedFilters.maxBudget ?? undefined,
+    hasSubscription: parsedFilters.hasSubscription ?? undefined,
+    mealStatus: parsedFilters.mealStatus !== 'all' ? parsedFilters.mealStatus : undefined,
+    serviceType: parsedFilters.serviceType ?? undefined,
+    projectId: state.projectScope ?? undefined,
+  }
+}
+
 export const useEmployeesStore = create<EmployeesState>((set, get) => ({
   employees: [],
   selectedEmployee: null,
@@ -142,13 +159,14 @@ export const useEmployeesStore = create<EmployeesState>((set, get) => ({
   searchQuery: '',
   filter: { ...defaultFilter },
   activeFilters: [],
+  projectScope: null,
 
   fetchEmployees: async (page = 1) => {
     set({ isLoading: true, error: null })
 
     try {
-      const { pageSize, showAll, searchQuery, activeFilters } = get()
-      const parsedFilters = parseActiveFilters(activeFilters)
+      const { pageSize, showAll } = get()
+      const filters = selectEmployeesFilters(get())
       // If showAll is true, fetch all records
       const effectivePageSize = showAll ? 10000 : pageSize
       const effectivePage = showAll ? 1 : page
@@ -156,16 +174,16 @@ export const useEmployeesStore = create<EmployeesState>((set, get) => ({
       const response = await employeesApi.getEmployees(
         effectivePage,
         effectivePageSize,
-        searchQuery || undefined,
-        mapStatusFilter(parsedFilters.status || 'all'),
-        mapInviteStatusFilter(parsedFilters.inviteStatus || 'all'),
+        filters.search,
+        filters.status,
+        filters.inviteStatus,
         undefined,
-        parsedFilters.minBudget ?? undefined,
-        parsedFilters.maxBudget ?? undefined,
-        parsedFilters.hasSubscription ?? undefined,
-        parsedFilters.mealStatus !== 'all' ? parsedFilters.mealStatus : undefined,
-        parsedFilters.serviceType ?? undefined,
-        parsedFilters.projectId ?? undefined
+        filters.minBudget,
+        filters.maxBudget,
+        filters.hasSubscription,
+        filters.mealStatus,
+        filters.serviceType,
+        filters.projectId
       )
 
       // Force new array reference to trigger React re-render
@@ -279,6 +297,10 @@ export const useEmployeesStore = create<EmployeesState>((set, get) => ({
     set({ showAll: value })
   },
 
+  setProjectScope: (projectId) => {
+    set({ projectScope: projectId, showAll: false })
+  },
+
   selectEmployee: (employee) => {
     set({ selectedEmployee: employee })
   },
@@ -8,6 +8,7 @@ import {
   type CreateGuestOrderRequest,
   type DashboardStats,
   type Order,
+  type OrdersFilters,
 } from '@/lib/api/home'
 import type { ActiveFilter } from '@/components/ui/filter-builder'
 import { getErrorMessage } from './utils'
@@ -21,7 +22,6 @@ type TypeFilter = 'all' | 'Сотрудник' | 'Гость'
 interface OrdersFilter {
   status: StatusFilter
   date: string | null
-  projectId: string
   type: TypeFilter
   serviceType?: 'LUNCH' | 'COMPENSATION'
   comboType?: string
@@ -41,6 +41,7 @@ interface HomeState {
   search: string
   statusFilter: StatusFilter
   dateFilter: string | null
+  /** Project scope from the page switcher ('all' or a project id) */
   projectFilter: string
   activeFilters: ActiveFilter[]
   fetchDashboard: (date?: string) => Promise<void>
@@ -88,11 +89,6 @@ const parseActiveFilters = (filters: ActiveFilter[]): Partial<OrdersFilter> => {
           result.date = filter.value as string
         }
         break
-      case 'projectId':
-        if (filter.value && filter.value !== 'all') {
-          result.projectId = filter.value as string
-        }
-        break
       case 'serviceType':
         if (filter.value && filter.value !== 'all') {
           result.serviceType = filter.value as 'LUNCH' | 'COMPENSATION'
@@ -109,6 +105,24 @@ const parseActiveFilters = (filters: ActiveFilter[]): Partial<OrdersFilter> => {
   return result
 }
 
+/**
+ * API filters for the current search, filter builder and project scope (shared by list and export)
+ */
+export const selectOrdersFilters = (
+  state: Pick<HomeState, 'search' | 'activeFilters' | 'projectFilter'>
+): OrdersFilters => {
+  const parsedFilters = parseActiveFilters(state.activeFilters)
+  return {
+    search: state.search || undefined,
+    status: parsedFilters.status || undefined,
+    date: parsedFilters.date || undefined,
+    projectId: normalizeProjectFilter(state.projectFilter),
+    type: parsedFilters.type || undefined,
+    serviceType: parsedFilters.serviceType || undefined,
+    comboType: parsedFilters.comboType || undefined,
+  }
+}
+
 export const useHomeStore = create<HomeState>((set, get) => ({
   dashboard: null,
   orders: [],
@@ -129,9 +143,9 @@ export const useHomeStore = create<HomeState>((set, get) => ({
   fetchDashboard: async (date?: string) => {
     try {
       // If no date provided, try to get from activeFilters
-      const { activeFilters } = get()
+      const { activeFilters, projectFilter } = get()
       const filterDate = date || activeFilters.find(f => f.fieldId === 'date')?.value as string | undefined
-      const dashboard = await homeApi.getDashboard(filterDate)
+      const dashboard = await homeApi.getDashboard(filterDate, normalizeProjectFilter(projectFilter))
       set({ dashboard })
     } catch (error) {
       set({ error: getErrorMessage(error) })
@@ -141,25 +155,25 @@ export const useHomeStore = create<HomeState>((set, get) => ({
   fetchOrders: async (page = 1, overrideDate?: string) => {
     set({ isLoading: true, error: null })
     try {
-      const { pageSize, showAll, search, activeFilters } = get()
-      const parsedFilters = parseActiveFilters(activeFilters)
+      const { pageSize, showAll } = get()
+      const filters = selectOrdersFilters(get())
       // If showAll is true, fetch all records (large pageSize)
       const effectivePageSize = showAll ? 10000 : pageSize
       const effectivePage = showAll ? 1 : page
 
       // Use overrideDate if provided, otherwise use date from activeFilters
-      const dateToUse = overrideDate !== undefined ? overrideDate : parsedFilters.date
+      const dateToUse = overrideDate !== undefined ? overrideDate : filters.date
 
       const response = await homeApi.getOrders(
         effectivePage,
         effectivePageSize,
-        search || undefined,
-        parsedFilters.status || undefined,
+        filters.search,
+        filters.status,
         dateToUse || undefined,
-        normalizeProjectFilter(parsedFilters.projectId || 'all'),
-        parsedFilters.type || undefined,
-        parsedFilters.serviceType || undefined,
-        parsedFilters.comboType || undefined
+        filters.projectId,
+        filters.type,
+        filters.serviceType,
+        filters.comboType
       )
 
       // Enrich orders with serviceType (ensure LUNCH for orders with comboType)
@@ -204,7 +218,7 @@ export const useHomeStore = create<HomeState>((set, get) => ({
   },
 
   setProjectFilter: (value: string) => {
-    set({ projectFilter: value })
+    set({ projectFilter: value, showAll: false })
   },
 
   setActiveFilters: (filters: ActiveFilter[]) => {
@@ -220,7 +234,7 @@ export const useHomeStore = create<HomeState>((set, get) => ({
       search: '',
       statusFilter: 'all',
       dateFilter: null,
-      projectFilter: 'all',
+      // projectFilter mirrors the URL scope and is not a resettable filter
       activeFilters: [],
       showAll: false,
     })
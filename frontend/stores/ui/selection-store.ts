@@ -235,6 +235,7 @@ export function useSelection(context: string) {
     deselect: (id: string) => store.deselect(context, id),
     toggle: (id: string) => store.toggle(context, id),
     selectMany: (ids: string[]) => store.selectMany(context, ids),
+    deselectMany: (ids: string[]) => store.deselectMany(context, ids),
     selectAll: (ids: string[]) => store.selectAll(context, ids),
     selectRange: (allIds: string[], targetId: string) => store.selectRange(context, allIds, targetId),
     clear: () => store.clearSelection(context),
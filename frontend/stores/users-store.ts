@@ -1,11 +1,19 @@
 import { create } from 'zustand'
-import { usersApi, type User, type CreateUserRequest, type UpdateUserRequest } from '@/lib/api/users'
+import {
+  usersApi,
+  type User,
+  type CreateUserRequest,
+  type UpdateUserRequest,
+  type PermissionGroup,
+  type InviteChannel,
+  type UserInvitation,
+} from '@/lib/api/users'
 import { getErrorMessage } from './utils'
 
 interface UsersState {
   users: User[]
   selectedUser: User | null
-  availableRoutes: string[]
+  permissionGroups: PermissionGroup[]
   isLoading: boolean
   error: string | null
   total: number
@@ -21,14 +29,16 @@ interface UsersState {
   createUser: (data: CreateUserRequest) => Promise<User>
   updateUser: (id: string, data: UpdateUserRequest) => Promise<User>
   deleteUser: (id: string) => Promise<void>
+  resendInvitation: (id: string, channel?: InviteChannel) => Promise<UserInvitation>
+  revokeInvitation: (id: string) => Promise<void>
   selectUser: (user: User | null) => void
-  fetchAvailableRoutes: () => Promise<void>
+  fetchPermissionGroups: () => Promise<void>
 }
 
 export const useUsersStore = create<UsersState>((set, get) => ({
   users: [],
   selectedUser: null,
-  availableRoutes: [],
+  permissionGroups: [],
   isLoading: false,
   error: null,
   total: 0,
@@ -112,6 +122,27 @@ export const useUsersStore = create<UsersState>((set, get) => ({
     }
   },
 
+  resendInvitation: async (id: string, channel?: InviteChannel) => {
+    try {
+      const invitation = await usersApi.resendInvitation(id, channel)
+      await get().fetchUsers(get().currentPage)
+      return invitation
+    } catch (error) {
+      set({ error: getErrorMessage(error) })
+      throw error
+    }
+  },
+
+  revokeInvitation: async (id: string) => {
+    try {
+      await usersApi.revokeInvitation(id)
+      await get().fetchUsers(get().currentPage)
+    } catch (error) {
+      set({ error: getErrorMessage(error) })
+      throw error
+    }
+  },
+
   selectUser: (user) => {
     set({ selectedUser: user })
   },
@@ -120,10 +151,10 @@ export const useUsersStore = create<UsersState>((set, get) => ({
     set({ showAll: value })
   },
 
-  fetchAvailableRoutes: async () => {
+  fetchPermissionGroups: async () => {
     try {
-      const routes = await usersApi.getAvailableRoutes()
-      set({ availableRoutes: routes })
+      const groups = await usersApi.getPermissionMatrix()
+      set({ permissionGroups: groups })
     } catch (error) {
       set({ error: getErrorMessage(error) })
     }